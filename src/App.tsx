@@ -28,11 +28,14 @@ import FunnelEditorV3 from "./pages/FunnelEditorV3";
 import PublicFunnel from "./pages/PublicFunnel";
 import PublicBookingPage from "./pages/PublicBookingPage";
 import ManageBookingPage from "./pages/ManageBookingPage";
+import WaitlistClaimPage from "./pages/WaitlistClaimPage";
+import UnsubscribePage from "./pages/UnsubscribePage";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
 import Marketing from "./pages/Marketing";
 import Billing from "./pages/Billing";
 import PaymentsPortal from "./pages/PaymentsPortal";
 import Performance from "./pages/Performance";
+import Conversations from "./pages/Conversations";
 import { EditorShell } from "./builder_v2/EditorShell";
 import { RuntimePage } from "./builder_v2/runtime";
 // Flow-canvas builder (new version)
@@ -103,6 +106,8 @@ const App = () => (
             <Route path="/f/:slug" element={<PublicFunnel />} />
             <Route path="/book/:teamSlug/:eventSlug" element={<PublicBookingPage />} />
             <Route path="/booking/:token/manage" element={<ManageBookingPage />} />
+            <Route path="/waitlist/:token" element={<WaitlistClaimPage />} />
+            <Route path="/unsubscribe/:token" element={<UnsubscribePage />} />
             <Route path="/runtime/:documentId" element={<RuntimePage />} />
             <Route path="/legal/privacy" element={<PrivacyPolicy />} />
 
@@ -135,6 +140,7 @@ const App = () => (
               <Route path="performance" element={<Performance />} />
               <Route path="dashboard" element={<SalesDashboard defaultTab="dashboard" />} />
               <Route path="pipeline" element={<SalesDashboard defaultTab="appointments" />} />
+              <Route path="conversations" element={<Conversations />} />
               <Route path="crm" element={<Navigate to="../dashboard" replace />} />
               <Route path="funnels" element={<FunnelList />} />
               <Route path="schedule" element={<Schedule />} />
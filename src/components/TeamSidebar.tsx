@@ -3,6 +3,7 @@ import { useNavigate, useLocation, useParams } from "react-router-dom";
 import { 
   LayoutDashboard, 
   Kanban,
+  Inbox,
   MessageCircle, 
   Grid3X3, 
   ChevronLeft,
@@ -38,6 +39,7 @@ const mainNavItems = [
   { id: "resources", label: "Resources", icon: BookOpen, path: "" },
   { id: "performance", label: "Performance", icon: TrendingUp, path: "/performance" },
   { id: "pipeline", label: "Pipeline", icon: Kanban, path: "/pipeline" },
+  { id: "conversations", label: "Conversations", icon: Inbox, path: "/conversations" },
   { id: "funnels", label: "Funnels", icon: Layers, path: "/funnels" },
   { id: "workflows", label: "Workflows", icon: Workflow, path: "/workflows" },
   { id: "marketing", label: "Marketing", icon: Megaphone, path: "/marketing" },
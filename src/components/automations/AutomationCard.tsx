@@ -3,7 +3,7 @@ import {
   Pencil, Copy, Trash2, MoreHorizontal, Play,
   Calendar, UserPlus, Bell, Tag, Zap, Webhook,
   ArrowRightLeft, Trophy, XCircle, DollarSign, Clock,
-  CalendarClock, UserX, CalendarCheck, CalendarX, FileText
+  CalendarClock, UserX, CalendarCheck, CalendarX, FileText, UserMinus, ListPlus
 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
@@ -38,11 +38,13 @@ const TRIGGER_ICONS: Partial<Record<TriggerType, React.ReactNode>> = {
   lead_tag_added: <Tag className="h-4 w-4" />,
   lead_tag_removed: <Tag className="h-4 w-4" />,
   form_submitted: <FileText className="h-4 w-4" />,
+  funnel_abandoned: <UserMinus className="h-4 w-4" />,
   appointment_booked: <Calendar className="h-4 w-4" />,
   appointment_rescheduled: <CalendarClock className="h-4 w-4" />,
   appointment_no_show: <UserX className="h-4 w-4" />,
   appointment_completed: <CalendarCheck className="h-4 w-4" />,
   appointment_canceled: <CalendarX className="h-4 w-4" />,
+  waitlist_updated: <ListPlus className="h-4 w-4" />,
   stage_changed: <ArrowRightLeft className="h-4 w-4" />,
   deal_won: <Trophy className="h-4 w-4" />,
   deal_lost: <XCircle className="h-4 w-4" />,
@@ -57,11 +59,13 @@ const TRIGGER_LABELS: Partial<Record<TriggerType, string>> = {
   lead_tag_added: "Tag Added",
   lead_tag_removed: "Tag Removed",
   form_submitted: "Form Submitted",
+  funnel_abandoned: "Funnel Abandoned",
   appointment_booked: "Appointment Booked",
   appointment_rescheduled: "Rescheduled",
   appointment_no_show: "No Show",
   appointment_completed: "Completed",
   appointment_canceled: "Canceled",
+  waitlist_updated: "Waitlist Updated",
   stage_changed: "Stage Changed",
   deal_won: "Deal Won",
   deal_lost: "Deal Lost",
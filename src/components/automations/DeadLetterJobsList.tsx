@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { fetchDeadLetterJobs, retryDeadLetterJob, type DeadLetterJob } from "@/lib/automations/scheduler";
+
+export default function DeadLetterJobsList({ teamId }: { teamId: string }) {
+  const [rows, setRows] = useState<DeadLetterJob[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [retrying, setRetrying] = useState<Record<string, boolean>>({});
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRows(await fetchDeadLetterJobs(teamId));
+    } catch {
+      setRows([]);
+    }
+    setLoading(false);
+  }, [teamId]);
+
+  const retry = async (job: DeadLetterJob) => {
+    setRetrying((p) => ({ ...p, [job.id]: true }));
+    try {
+      await retryDeadLetterJob(job.id);
+      toast.success("Job re-queued. It will run within a minute.");
+      setRows((prev) => prev.filter((r) => r.id !== job.id));
+    } catch {
+      toast.error("Failed to retry job");
+    }
+    setRetrying((p) => ({ ...p, [job.id]: false }));
+  };
+
+  useEffect(() => {
+    if (!teamId) return;
+    load();
+  }, [teamId, load]);
+
+  return (
+    <Card className="border-border bg-muted/30">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Failed Scheduled Jobs</CardTitle>
+        <Button variant="secondary" onClick={load} disabled={loading}>
+          {loading ? "Loading..." : "Refresh"}
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="text-sm text-foreground/70">No failed delayed steps. Jobs that exhaust their retries show up here.</div>
+        ) : (
+          <div className="space-y-2">
+            {rows.map((r) => (
+              <div key={r.id} className="rounded-lg border border-border bg-muted/40 p-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-foreground/70">{r.automationName || r.automationId.slice(0, 8)}</span>
+                  {r.stepId ? <span className="text-xs rounded-full bg-muted/50 px-2 py-1">{r.stepId}</span> : null}
+                  <span className="text-xs rounded-full px-2 py-1 bg-red-500/20 text-red-200">
+                    {r.status === "dead_letter" ? "dead letter" : r.status}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {r.attempts}/{r.maxAttempts} attempts
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(r.deadLetteredAt || r.lastAttemptAt || r.createdAt).toLocaleString()}
+                  </span>
+
+                  <div className="ml-auto flex items-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => retry(r)} disabled={!!retrying[r.id]}>
+                      {retrying[r.id] ? "Retrying..." : "Retry"}
+                    </Button>
+                  </div>
+                </div>
+
+                {r.errorMessage ? <div className="mt-2 text-xs text-red-200/90">{r.errorMessage}</div> : null}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
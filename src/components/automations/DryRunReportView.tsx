@@ -0,0 +1,99 @@
+import { Globe, Database, Zap } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import type { DryRunEffect, DryRunReport } from "@/lib/automations/triggerHelper";
+
+const EFFECT_ICONS: Record<DryRunEffect["kind"], typeof Globe> = {
+  http: Globe,
+  db_write: Database,
+  rpc: Zap,
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  success: "bg-green-500/10 text-green-600 border-green-500/20",
+  error: "bg-destructive/10 text-destructive border-destructive/20",
+  skipped: "bg-muted text-muted-foreground",
+};
+
+function formatActionType(type: string) {
+  return type.replace(/_/g, " ");
+}
+
+function EffectRow({ effect }: { effect: DryRunEffect }) {
+  const Icon = EFFECT_ICONS[effect.kind];
+  return (
+    <details className="rounded border bg-muted/30 text-xs">
+      <summary className="flex cursor-pointer items-center gap-2 px-2 py-1.5">
+        <Icon className="h-3 w-3 shrink-0 text-muted-foreground" />
+        <span className="font-mono font-medium uppercase">{effect.method}</span>
+        <span className="truncate font-mono text-muted-foreground">{effect.target}</span>
+      </summary>
+      <pre className="max-h-48 overflow-auto border-t px-2 py-1.5 font-mono text-[11px] whitespace-pre-wrap break-all">
+        {JSON.stringify({ payload: effect.payload, filters: effect.filters }, null, 2)}
+      </pre>
+    </details>
+  );
+}
+
+/** What a dry run would have sent or written, step by step */
+export function DryRunReportView({ reports }: { reports: DryRunReport[] }) {
+  return (
+    <ScrollArea className="max-h-[420px] pr-3">
+      <div className="space-y-4">
+        {reports.map((report) => (
+          <div key={report.runId} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">{report.automationName}</p>
+              <p className="text-xs text-muted-foreground">
+                {report.totals.steps} steps · {report.totals.http} requests · {report.totals.dbWrites} writes
+              </p>
+            </div>
+
+            {report.steps.map((step, index) => (
+              <div key={`${step.stepId}-${index}`} className="rounded-lg border p-2.5 space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">{index + 1}.</span>
+                  <span className="text-sm font-medium capitalize">{formatActionType(step.actionType)}</span>
+                  <Badge variant="outline" className={cn("ml-auto text-[10px]", STATUS_STYLES[step.status])}>
+                    {step.status}
+                  </Badge>
+                </div>
+
+                {step.skipReason && (
+                  <p className="text-xs text-muted-foreground">Skipped: {step.skipReason}</p>
+                )}
+                {step.error && <p className="text-xs text-destructive">{step.error}</p>}
+
+                {step.renderedBody && (
+                  <div className="rounded bg-muted/50 px-2 py-1.5 text-xs">
+                    {step.to && (
+                      <p className="mb-1 text-muted-foreground">
+                        {step.channel?.toUpperCase()} to {step.to}
+                      </p>
+                    )}
+                    <p className="whitespace-pre-wrap">{step.renderedBody}</p>
+                  </div>
+                )}
+
+                {step.templateWarnings?.map((warning) => (
+                  <p key={warning} className="text-xs text-amber-600">
+                    {warning}
+                  </p>
+                ))}
+
+                {step.effects.length > 0 && (
+                  <div className="space-y-1">
+                    {step.effects.map((effect, effectIndex) => (
+                      <EffectRow key={effectIndex} effect={effect} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+}
@@ -11,9 +11,11 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
-import { runAutomationManually } from "@/lib/automations/triggerHelper";
+import { runAutomationManually, type DryRunReport } from "@/lib/automations/triggerHelper";
+import { DryRunReportView } from "./DryRunReportView";
 
 interface Contact {
   id: string;
@@ -46,8 +48,10 @@ export function RunNowModal({
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [runStatus, setRunStatus] = useState<RunStatus>("idle");
+  const [dryRun, setDryRun] = useState(false);
   const [runResult, setRunResult] = useState<{
     automationsRun?: string[];
+    dryRunReports?: DryRunReport[];
     error?: string;
   } | null>(null);
 
@@ -100,6 +104,7 @@ export function RunNowModal({
       setContacts([]);
       setSelectedContact(null);
       setRunStatus("idle");
+      setDryRun(false);
       setRunResult(null);
     }
   }, [open]);
@@ -112,12 +117,17 @@ export function RunNowModal({
       const result = await runAutomationManually(
         automationId,
         teamId,
-        selectedContact?.id
+        selectedContact?.id,
+        undefined,
+        { dryRun }
       );
 
       if (result.success) {
         setRunStatus("success");
-        setRunResult({ automationsRun: result.automationsRun });
+        setRunResult({
+          automationsRun: result.automationsRun,
+          dryRunReports: result.dryRunReports,
+        });
       } else {
         setRunStatus("error");
         setRunResult({ error: result.error });
@@ -140,7 +150,7 @@ export function RunNowModal({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className={cn(runResult?.dryRunReports ? "sm:max-w-2xl" : "sm:max-w-md")}>
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Play className="h-5 w-5 text-primary" />
@@ -240,6 +250,21 @@ export function RunNowModal({
                     No contacts found matching &quot;{searchQuery}&quot;
                   </p>
                 )}
+
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="run-now-dry-run">Dry run</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Uses real data but sends and changes nothing. Shows what each step would do.
+                  </p>
+                </div>
+                <Switch
+                  id="run-now-dry-run"
+                  checked={dryRun}
+                  onCheckedChange={setDryRun}
+                  disabled={runStatus === "running"}
+                />
+              </div>
             </div>
 
             <DialogFooter>
@@ -263,7 +288,7 @@ export function RunNowModal({
                 ) : (
                   <>
                     <Play className="h-4 w-4" />
-                    Run Now
+                    {dryRun ? "Dry Run" : "Run Now"}
                   </>
                 )}
               </Button>
@@ -272,43 +297,53 @@ export function RunNowModal({
         ) : (
           <>
             {/* Result Display */}
-            <div className="flex flex-col items-center gap-3 py-4">
-              {runStatus === "success" ? (
-                <>
-                  <div className="p-3 rounded-full bg-green-500/10">
-                    <CheckCircle2 className="h-8 w-8 text-green-500" />
-                  </div>
-                  <div className="text-center">
-                    <p className="font-medium text-green-600">
-                      Automation executed successfully
-                    </p>
-                    {runResult?.automationsRun &&
-                      runResult.automationsRun.length > 0 && (
+            {runStatus === "success" && runResult?.dryRunReports ? (
+              runResult.dryRunReports.length > 0 ? (
+                <DryRunReportView reports={runResult.dryRunReports} />
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  The automation did not match this trigger, so nothing would run.
+                </p>
+              )
+            ) : (
+              <div className="flex flex-col items-center gap-3 py-4">
+                {runStatus === "success" ? (
+                  <>
+                    <div className="p-3 rounded-full bg-green-500/10">
+                      <CheckCircle2 className="h-8 w-8 text-green-500" />
+                    </div>
+                    <div className="text-center">
+                      <p className="font-medium text-green-600">
+                        Automation executed successfully
+                      </p>
+                      {runResult?.automationsRun &&
+                        runResult.automationsRun.length > 0 && (
+                          <p className="text-sm text-muted-foreground mt-1">
+                            {runResult.automationsRun.length} automation
+                            {runResult.automationsRun.length !== 1 ? "s" : ""} ran
+                          </p>
+                        )}
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div className="p-3 rounded-full bg-destructive/10">
+                      <AlertCircle className="h-8 w-8 text-destructive" />
+                    </div>
+                    <div className="text-center">
+                      <p className="font-medium text-destructive">
+                        Automation failed
+                      </p>
+                      {runResult?.error && (
                         <p className="text-sm text-muted-foreground mt-1">
-                          {runResult.automationsRun.length} automation
-                          {runResult.automationsRun.length !== 1 ? "s" : ""} ran
+                          {runResult.error}
                         </p>
                       )}
-                  </div>
-                </>
-              ) : (
-                <>
-                  <div className="p-3 rounded-full bg-destructive/10">
-                    <AlertCircle className="h-8 w-8 text-destructive" />
-                  </div>
-                  <div className="text-center">
-                    <p className="font-medium text-destructive">
-                      Automation failed
-                    </p>
-                    {runResult?.error && (
-                      <p className="text-sm text-muted-foreground mt-1">
-                        {runResult.error}
-                      </p>
-                    )}
-                  </div>
-                </>
-              )}
-            </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
 
             <DialogFooter>
               <Button
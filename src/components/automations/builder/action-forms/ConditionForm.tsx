@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, X, GitBranch } from "lucide-react";
 import type { AutomationCondition, ConditionOperator } from "@/lib/automations/types";
+import { getCustomFieldVariables, getOperatorsForType, type OperatorDefinition } from "@/lib/automations/variableSchema";
+import { useCustomFields } from "@/hooks/useCustomFields";
 
 interface ConditionConfig {
   conditions: AutomationCondition[];
@@ -13,6 +15,7 @@ interface ConditionConfig {
 interface ConditionFormProps {
   config: ConditionConfig;
   onChange: (config: ConditionConfig) => void;
+  teamId: string;
 }
 
 const FIELD_OPTIONS = [
@@ -41,9 +44,18 @@ const OPERATOR_OPTIONS: { value: ConditionOperator; label: string }[] = [
   { value: 'tag_absent', label: 'Does not have tag' },
 ];
 
-export function ConditionForm({ config, onChange }: ConditionFormProps) {
+export function ConditionForm({ config, onChange, teamId }: ConditionFormProps) {
   const conditions = config.conditions || [];
   const conditionLogic = config.conditionLogic || 'AND';
+  const { data: customFields = [] } = useCustomFields(teamId);
+  // Typed custom fields get the operators for their type; the engine coerces both sides
+  const customFieldVariables = getCustomFieldVariables(customFields, 'lead');
+
+  const getOperatorOptions = (field: string): OperatorDefinition[] => {
+    const variable = customFieldVariables.find((v) => v.key === field);
+    if (variable) return getOperatorsForType(variable.type);
+    return OPERATOR_OPTIONS.map((opt) => ({ ...opt, requiresValue: !['is_empty', 'is_not_empty'].includes(opt.value) }));
+  };
 
   const addCondition = () => {
     onChange({
@@ -61,6 +73,24 @@ export function ConditionForm({ config, onChange }: ConditionFormProps) {
     onChange({ ...config, conditions: newConditions });
   };
 
+  const renderValueInput = (condition: AutomationCondition, index: number) => {
+    const operator = getOperatorOptions(condition.field).find((opt) => opt.value === condition.operator);
+    if (operator && !operator.requiresValue) return null;
+    // List operators (between, contains any of) take comma-separated values
+    const isList = operator?.valueType === 'array';
+    return (
+      <Input
+        placeholder={isList ? 'Values, comma-separated' : 'Value'}
+        value={Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value ?? '')}
+        onChange={(e) =>
+          updateCondition(index, {
+            value: isList ? e.target.value.split(',').map((item) => item.trim()) : e.target.value,
+          })
+        }
+      />
+    );
+  };
+
   const removeCondition = (index: number) => {
     onChange({
       ...config,
@@ -109,7 +139,14 @@ export function ConditionForm({ config, onChange }: ConditionFormProps) {
             <div className="flex items-center gap-2">
               <Select
                 value={condition.field}
-                onValueChange={(value) => updateCondition(index, { field: value })}
+                onValueChange={(value) => {
+                  const operators = getOperatorOptions(value);
+                  // Keep the operator when the new field supports it
+                  const operator = operators.some((opt) => opt.value === condition.operator)
+                    ? condition.operator
+                    : (operators[0].value as ConditionOperator);
+                  updateCondition(index, { field: value, operator });
+                }}
               >
                 <SelectTrigger className="flex-1">
                   <SelectValue placeholder="Select field" />
@@ -120,6 +157,11 @@ export function ConditionForm({ config, onChange }: ConditionFormProps) {
                       {opt.label}
                     </SelectItem>
                   ))}
+                  {customFieldVariables.map((variable) => (
+                    <SelectItem key={variable.key} value={variable.key}>
+                      {variable.label} ({variable.description})
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <Button
@@ -141,7 +183,7 @@ export function ConditionForm({ config, onChange }: ConditionFormProps) {
                   <SelectValue placeholder="Operator" />
                 </SelectTrigger>
                 <SelectContent>
-                  {OPERATOR_OPTIONS.map((opt) => (
+                  {getOperatorOptions(condition.field).map((opt) => (
                     <SelectItem key={opt.value} value={opt.value}>
                       {opt.label}
                     </SelectItem>
@@ -149,13 +191,7 @@ export function ConditionForm({ config, onChange }: ConditionFormProps) {
                 </SelectContent>
               </Select>
 
-              {!['is_empty', 'is_not_empty'].includes(condition.operator as string) && (
-                <Input
-                  placeholder="Value"
-                  value={String(condition.value || '')}
-                  onChange={(e) => updateCondition(index, { value: e.target.value })}
-                />
-              )}
+              {renderValueInput(condition, index)}
             </div>
 
             {index < conditions.length - 1 && (
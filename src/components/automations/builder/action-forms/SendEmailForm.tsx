@@ -1,6 +1,7 @@
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { TemplateVariablePicker } from "../TemplateVariablePicker";
 import { useRef } from "react";
 
@@ -10,6 +11,7 @@ interface SendEmailConfig {
   fromName?: string;
   fromEmail?: string;
   replyTo?: string;
+  attachCalendarInvite?: boolean;
 }
 
 interface SendEmailFormProps {
@@ -105,6 +107,21 @@ export function SendEmailForm({ config, onChange }: SendEmailFormProps) {
         />
         <p className="text-xs text-muted-foreground">Use {"{{variable}}"} syntax for dynamic content</p>
       </div>
+
+      <div className="flex items-start justify-between gap-4 rounded-md border p-3">
+        <div className="space-y-1">
+          <Label htmlFor="attachCalendarInvite">Attach calendar invite</Label>
+          <p className="text-xs text-muted-foreground">
+            On appointment booked, rescheduled and cancelled triggers, adds an .ics file that creates,
+            updates or removes the event in the attendee's calendar.
+          </p>
+        </div>
+        <Switch
+          id="attachCalendarInvite"
+          checked={config.attachCalendarInvite !== false}
+          onCheckedChange={(checked) => onChange({ ...config, attachCalendarInvite: checked })}
+        />
+      </div>
     </div>
   );
 }
@@ -1,17 +1,41 @@
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CUSTOM_FIELD_TYPES, type CustomFieldType } from "@/lib/customFields";
 
 interface SetVariableConfig {
   name: string;
   value: string;
+  /** Stores the value coerced to this type; text when unset */
+  type?: CustomFieldType;
 }
 
 interface SetVariableFormProps {
   config: SetVariableConfig;
   onChange: (config: SetVariableConfig) => void;
+  teamId: string;
 }
 
-export function SetVariableForm({ config, onChange }: SetVariableFormProps) {
+/** Types a single variable can hold */
+const VARIABLE_TYPES = CUSTOM_FIELD_TYPES.filter((type) =>
+  ["text", "number", "currency", "date", "checkbox"].includes(type.value),
+);
+
+export function SetVariableForm({ config, onChange, teamId }: SetVariableFormProps) {
+  const { data: customFields = [] } = useCustomFields(teamId);
+
+  const copyFromField = (key: string) => {
+    const field = customFields.find((f) => f.key === key);
+    if (!field) return;
+    onChange({
+      ...config,
+      name: config.name || field.key,
+      value: `{{contact.custom_fields.${field.key}}}`,
+      type: VARIABLE_TYPES.some((type) => type.value === field.field_type) ? field.field_type : "text",
+    });
+  };
+
   return (
     <div className="space-y-4">
       <div className="space-y-2">
@@ -39,6 +63,46 @@ export function SetVariableForm({ config, onChange }: SetVariableFormProps) {
           Supports template variables and static text
         </p>
       </div>
+
+      {customFields.length > 0 && (
+        <div className="space-y-2">
+          <Label>Copy from custom field</Label>
+          <Select value="" onValueChange={copyFromField}>
+            <SelectTrigger>
+              <SelectValue placeholder="Pick a contact custom field" />
+            </SelectTrigger>
+            <SelectContent>
+              {customFields.map((field) => (
+                <SelectItem key={field.key} value={field.key}>
+                  {field.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Type</Label>
+        <Select
+          value={config.type || "text"}
+          onValueChange={(value) => onChange({ ...config, type: value as CustomFieldType })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {VARIABLE_TYPES.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Typed variables are checked when the step runs and compared by type in conditions
+        </p>
+      </div>
     </div>
   );
 }
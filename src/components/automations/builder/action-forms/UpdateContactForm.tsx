@@ -1,8 +1,11 @@
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, X } from "lucide-react";
 import { useState } from "react";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { findCustomFieldForPath, hasCustomFieldOptions, type CustomFieldDefinition } from "@/lib/customFields";
 
 interface FieldUpdate {
   field: string;
@@ -16,6 +19,7 @@ interface UpdateContactConfig {
 interface UpdateContactFormProps {
   config: UpdateContactConfig;
   onChange: (config: UpdateContactConfig) => void;
+  teamId: string;
 }
 
 const COMMON_FIELDS = [
@@ -23,11 +27,28 @@ const COMMON_FIELDS = [
   { value: "email", label: "Email" },
   { value: "phone", label: "Phone" },
   { value: "source", label: "Source" },
-  { value: "custom_field", label: "Custom Field" },
 ];
 
-export function UpdateContactForm({ config, onChange }: UpdateContactFormProps) {
+/** Picked from the list when the field isn't a known one */
+const OTHER_FIELD = "__other";
+
+const VALUE_PLACEHOLDERS: Partial<Record<CustomFieldDefinition["field_type"], string>> = {
+  number: "e.g., 5000 or {{variable}}",
+  currency: "e.g., 5000 or {{variable}}",
+  date: "YYYY-MM-DD or {{variable}}",
+  checkbox: "true, false or {{variable}}",
+  multi_select: "Comma-separated options",
+};
+
+export function UpdateContactForm({ config, onChange, teamId }: UpdateContactFormProps) {
   const fields = config.fields || [];
+  const { data: customFields = [] } = useCustomFields(teamId);
+  // Rows where "Other field…" was picked but no name typed yet
+  const [otherRows, setOtherRows] = useState<number[]>([]);
+  const fieldOptions = [
+    ...COMMON_FIELDS,
+    ...customFields.map((field) => ({ value: `custom_fields.${field.key}`, label: field.label })),
+  ];
 
   const addField = () => {
     onChange({
@@ -43,6 +64,7 @@ export function UpdateContactForm({ config, onChange }: UpdateContactFormProps)
   };
 
   const removeField = (index: number) => {
+    setOtherRows((rows) => rows.filter((row) => row !== index).map((row) => (row > index ? row - 1 : row)));
     onChange({
       ...config,
       fields: fields.filter((_, i) => i !== index),
@@ -54,34 +76,65 @@ export function UpdateContactForm({ config, onChange }: UpdateContactFormProps)
       <div className="space-y-2">
         <Label>Fields to Update</Label>
         <p className="text-xs text-muted-foreground">
-          Use {"{{variable}}"} syntax for dynamic values
+          Use {"{{variable}}"} syntax for dynamic values. Typed custom fields are checked when the step runs.
         </p>
       </div>
 
-      {fields.map((field, index) => (
-        <div key={index} className="flex gap-2">
-          <Input
-            placeholder="Field name"
-            value={field.field}
-            onChange={(e) => updateField(index, { field: e.target.value })}
-            className="flex-1"
-          />
-          <Input
-            placeholder="Value or {{variable}}"
-            value={field.value}
-            onChange={(e) => updateField(index, { value: e.target.value })}
-            className="flex-1"
-          />
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => removeField(index)}
-            className="shrink-0"
-          >
-            <X className="h-4 w-4" />
-          </Button>
-        </div>
-      ))}
+      {fields.map((field, index) => {
+        const known = fieldOptions.some((opt) => opt.value === field.field);
+        const definition = findCustomFieldForPath(customFields, field.field);
+        return (
+          <div key={index} className="space-y-2">
+            <div className="flex gap-2">
+              <Select
+                value={known ? field.field : field.field || otherRows.includes(index) ? OTHER_FIELD : undefined}
+                onValueChange={(value) => {
+                  setOtherRows((rows) => (value === OTHER_FIELD ? [...rows, index] : rows.filter((row) => row !== index)));
+                  updateField(index, { field: value === OTHER_FIELD ? "" : value });
+                }}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="Select field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fieldOptions.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={OTHER_FIELD}>Other field…</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder={(definition && VALUE_PLACEHOLDERS[definition.field_type]) || "Value or {{variable}}"}
+                value={field.value}
+                onChange={(e) => updateField(index, { value: e.target.value })}
+                className="flex-1"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeField(index)}
+                className="shrink-0"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {!known && (field.field || otherRows.includes(index)) && (
+              <Input
+                placeholder="Field name, e.g. city or custom_fields.my_key"
+                value={field.field}
+                onChange={(e) => updateField(index, { field: e.target.value })}
+              />
+            )}
+            {definition && hasCustomFieldOptions(definition.field_type) && (
+              <p className="text-xs text-muted-foreground">
+                Options: {(definition.options || []).join(", ")}
+              </p>
+            )}
+          </div>
+        );
+      })}
 
       <Button variant="outline" size="sm" onClick={addField} className="w-full">
         <Plus className="h-4 w-4 mr-2" />
@@ -9,6 +9,7 @@ import {
   PanelLeftOpen,
   Sparkles,
   Rocket,
+  Bug,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -20,6 +21,7 @@ import { NodeInspector } from "./NodeInspector";
 import { PublishStatusBadge } from "./PublishStatusBadge";
 import { VersionHistoryPanel } from "./VersionHistoryPanel";
 import { TestPanel } from "./TestPanel";
+import { RunDebuggerPanel } from "./RunDebuggerPanel";
 import { RunNowModal } from "../RunNowModal";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
@@ -80,6 +82,7 @@ export function AutomationEditorShell({
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [showTemplates, setShowTemplates] = useState(false);
   const [showTestPanel, setShowTestPanel] = useState(false);
+  const [showDebugger, setShowDebugger] = useState(false);
   const [showRunNowModal, setShowRunNowModal] = useState(false);
 
   const handleTriggerChange = useCallback(
@@ -247,6 +250,15 @@ export function AutomationEditorShell({
             <Play className="h-4 w-4 mr-2" />
             Test
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowDebugger(true)}
+            disabled={!automationId}
+          >
+            <Bug className="h-4 w-4 mr-2" />
+            Debug Runs
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -403,6 +415,14 @@ export function AutomationEditorShell({
         definition={definition}
       />
 
+      {/* Run Debugger */}
+      <RunDebuggerPanel
+        open={showDebugger}
+        onOpenChange={setShowDebugger}
+        automationId={automationId || null}
+        definition={definition}
+      />
+
       {/* Run Now Modal */}
       {automationId && (
         <RunNowModal
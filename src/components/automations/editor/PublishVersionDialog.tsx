@@ -0,0 +1,193 @@
+// src/components/automations/editor/PublishVersionDialog.tsx
+import { useMemo, useState } from "react";
+import { Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ACTION_META, type AutomationDefinition, type AutomationStep } from "@/lib/automations/types";
+import {
+  getUnmappedResumeSteps,
+  type InFlightPolicy,
+  type StepIdMap,
+  type VersionDefinition,
+} from "@/lib/automations/workflowVersions";
+import type { InFlightContacts, WorkflowVersion } from "@/hooks/useAutomationVersioning";
+
+const EXIT_VALUE = "__exit__";
+
+const POLICY_OPTIONS: { value: InFlightPolicy; label: string; description: string }[] = [
+  {
+    value: "keep",
+    label: "Keep them on their version",
+    description: "Contacts finish the flow they started. New contacts get this version.",
+  },
+  {
+    value: "migrate",
+    label: "Move them to this version",
+    description: "Waiting contacts continue on this version at the same step, or the step you map below.",
+  },
+  {
+    value: "exit",
+    label: "Exit them",
+    description: "Cancel their pending steps and remove them from the workflow.",
+  },
+];
+
+interface PublishVersionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  definition: AutomationDefinition;
+  inFlight: InFlightContacts;
+  versions: WorkflowVersion[];
+  isPublishing?: boolean;
+  onConfirm: (inFlight: { policy: InFlightPolicy; stepMap?: StepIdMap }) => void;
+}
+
+function stepLabel(step: AutomationStep | undefined, stepId: string) {
+  if (!step) return stepId;
+  return ACTION_META[step.type]?.label || step.type;
+}
+
+export function PublishVersionDialog({
+  open,
+  onOpenChange,
+  definition,
+  inFlight,
+  versions,
+  isPublishing,
+  onConfirm,
+}: PublishVersionDialogProps) {
+  const [policy, setPolicy] = useState<InFlightPolicy>("keep");
+  const [stepMap, setStepMap] = useState<StepIdMap>({});
+
+  const newSteps = useMemo(
+    () => [...definition.steps].sort((a, b) => a.order - b.order),
+    [definition.steps],
+  );
+
+  // Old steps contacts are waiting at that this version no longer has
+  const unmapped = useMemo(
+    () => getUnmappedResumeSteps(inFlight.jobs, newSteps),
+    [inFlight.jobs, newSteps],
+  );
+
+  const oldStepsById = useMemo(() => {
+    const byId = new Map<string, AutomationStep>();
+    for (const version of versions) {
+      for (const step of (version.definition_json as VersionDefinition | null)?.steps || []) {
+        if (!byId.has(step.id)) byId.set(step.id, step);
+      }
+    }
+    return byId;
+  }, [versions]);
+
+  const waitingAt = (stepId: string) => inFlight.jobs.filter((j) => j.resumeStepId === stepId).length;
+
+  const handleConfirm = () => {
+    if (policy !== "migrate") {
+      onConfirm({ policy });
+      return;
+    }
+    // Unmapped steps default to exiting the contacts waiting there
+    const fullMap: StepIdMap = Object.fromEntries(unmapped.map((id) => [id, null]));
+    onConfirm({ policy, stepMap: { ...fullMap, ...stepMap } });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-background border-border">
+        <DialogHeader>
+          <DialogTitle className="text-foreground">Contacts are mid-flow</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            <span className="inline-flex items-center gap-1">
+              <Users className="h-3.5 w-3.5" />
+              {inFlight.activeEnrollments} active, {inFlight.jobs.length} waiting on a delay.
+            </span>{" "}
+            What should happen to them when this version goes live?
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={policy}
+          onValueChange={(value) => setPolicy(value as InFlightPolicy)}
+          className="space-y-2"
+        >
+          {POLICY_OPTIONS.map((option) => (
+            <Label
+              key={option.value}
+              htmlFor={`in-flight-${option.value}`}
+              className="flex items-start gap-3 rounded-lg border border-border p-3 cursor-pointer hover:bg-muted/30"
+            >
+              <RadioGroupItem value={option.value} id={`in-flight-${option.value}`} className="mt-0.5" />
+              <div className="space-y-0.5">
+                <p className="text-sm font-medium text-foreground">{option.label}</p>
+                <p className="text-xs font-normal text-muted-foreground">{option.description}</p>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        {policy === "migrate" && unmapped.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              These steps were removed. Choose where contacts waiting at them continue:
+            </p>
+            {unmapped.map((stepId) => (
+              <div key={stepId} className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-foreground truncate">
+                    {stepLabel(oldStepsById.get(stepId), stepId)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{waitingAt(stepId)} waiting</p>
+                </div>
+                <Select
+                  value={stepMap[stepId] ?? EXIT_VALUE}
+                  onValueChange={(value) =>
+                    setStepMap((prev) => ({ ...prev, [stepId]: value === EXIT_VALUE ? null : value }))
+                  }
+                >
+                  <SelectTrigger className="w-[200px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={EXIT_VALUE}>Exit these contacts</SelectItem>
+                    {newSteps.map((step, index) => (
+                      <SelectItem key={step.id} value={step.id}>
+                        {index + 1}. {stepLabel(step, step.id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={isPublishing}>
+            {isPublishing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Publish
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
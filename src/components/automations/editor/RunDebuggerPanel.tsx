@@ -0,0 +1,345 @@
+// src/components/automations/editor/RunDebuggerPanel.tsx
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Bug,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  SkipForward,
+  ChevronLeft,
+  ChevronRight,
+  RotateCcw,
+  FlaskConical,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import type { AutomationDefinition } from "@/lib/automations/types";
+import {
+  diffContext,
+  fetchDebuggerRuns,
+  fetchRunStepLogs,
+  replayRun,
+  type DebuggerRun,
+  type DebuggerStepLog,
+} from "@/lib/automations/runReplay";
+
+interface RunDebuggerPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  automationId: string | null;
+  definition: AutomationDefinition;
+}
+
+const TAB_TRIGGER_CLASS =
+  "data-[state=active]:bg-transparent data-[state=active]:text-foreground data-[state=active]:border-b-2 data-[state=active]:border-primary rounded-none";
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function StatusIcon({ status }: { status: string }) {
+  if (status === "success") return <CheckCircle2 className="h-4 w-4 text-green-400" />;
+  if (status === "error") return <XCircle className="h-4 w-4 text-red-400" />;
+  if (status === "skipped") return <SkipForward className="h-4 w-4 text-yellow-400" />;
+  return <Loader2 className="h-4 w-4 text-muted-foreground animate-spin" />;
+}
+
+export function RunDebuggerPanel({ open, onOpenChange, automationId, definition }: RunDebuggerPanelProps) {
+  const queryClient = useQueryClient();
+  const [selectedRun, setSelectedRun] = useState<DebuggerRun | null>(null);
+  const [selectedLogId, setSelectedLogId] = useState<string | null>(null);
+
+  const { data: runs = [], isLoading: runsLoading } = useQuery({
+    queryKey: ["automation-debugger-runs", automationId],
+    queryFn: () => fetchDebuggerRuns(automationId!),
+    enabled: open && !!automationId,
+  });
+
+  const { data: stepLogs = [], isLoading: logsLoading } = useQuery({
+    queryKey: ["automation-debugger-steps", selectedRun?.id],
+    queryFn: () => fetchRunStepLogs(selectedRun!.id),
+    enabled: !!selectedRun,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: ({ runId, fromStepId }: { runId: string; fromStepId?: string }) => replayRun(runId, fromStepId),
+    onSuccess: async (result) => {
+      if (result.contextSource === "run_snapshot" && result.fromStepId) {
+        toast.warning("This run has no step snapshots; replayed with the trigger context");
+      } else {
+        toast.success("Dry-run replay finished");
+      }
+      const updatedRuns = await queryClient.fetchQuery({
+        queryKey: ["automation-debugger-runs", automationId],
+        queryFn: () => fetchDebuggerRuns(automationId!),
+      });
+      setSelectedRun(updatedRuns.find((r) => r.id === result.replayRunId) ?? null);
+      setSelectedLogId(null);
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : "Replay failed");
+    },
+  });
+
+  const stepIndex = new Map(definition.steps.map((s, i) => [s.id, i + 1]));
+  const selectedIndex = stepLogs.findIndex((l) => l.id === selectedLogId);
+  const selectedLog: DebuggerStepLog | undefined = stepLogs[selectedIndex];
+  const changes = selectedLog ? diffContext(selectedLog.contextBefore, selectedLog.contextAfter) : [];
+  const stepStillExists = selectedLog ? stepIndex.has(selectedLog.stepId) : false;
+
+  const handleBackToRuns = () => {
+    setSelectedRun(null);
+    setSelectedLogId(null);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-[640px] sm:max-w-[640px] bg-background border-border p-0">
+        <SheetHeader className="p-6 pb-4 border-b border-border">
+          <SheetTitle className="text-foreground flex items-center gap-2">
+            <Bug className="h-5 w-5 text-primary" />
+            Run Debugger
+          </SheetTitle>
+          <SheetDescription className="text-muted-foreground">
+            Step through a past run and replay it from any step. Replays are dry runs: messages,
+            payments, webhooks and delays are simulated.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!automationId ? (
+          <p className="p-6 text-sm text-muted-foreground">Save the automation to see its runs.</p>
+        ) : !selectedRun ? (
+          <ScrollArea className="h-[calc(100vh-160px)]">
+            <div className="p-6 space-y-2">
+              {runsLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              {!runsLoading && runs.length === 0 && (
+                <p className="text-sm text-muted-foreground">No runs yet.</p>
+              )}
+              {runs.map((run) => (
+                <button
+                  key={run.id}
+                  onClick={() => setSelectedRun(run)}
+                  className="w-full bg-muted/30 rounded-lg border border-border p-3 flex items-center gap-3 text-left hover:bg-muted/50"
+                >
+                  <StatusIcon status={run.status} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-foreground">{new Date(run.createdAt).toLocaleString()}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {run.triggerType}
+                      {run.errorMessage ? ` · ${run.errorMessage}` : ""}
+                    </p>
+                  </div>
+                  {run.isDryRun && (
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-primary/20 text-primary">
+                      {run.replayOfRunId ? "Replay" : "Dry run"}
+                    </span>
+                  )}
+                  <ChevronRight className="h-4 w-4 text-muted-foreground/60" />
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        ) : (
+          <div className="flex flex-col">
+            <div className="px-6 py-3 border-b border-border flex items-center gap-3">
+              <Button variant="ghost" size="sm" onClick={handleBackToRuns}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Runs
+              </Button>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-foreground truncate">
+                  {new Date(selectedRun.createdAt).toLocaleString()}
+                </p>
+                {selectedRun.replayOfRunId && (
+                  <p className="text-xs text-primary">Dry-run replay of {selectedRun.replayOfRunId.slice(0, 8)}</p>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => replayMutation.mutate({ runId: selectedRun.id })}
+                disabled={replayMutation.isPending}
+              >
+                {replayMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                Replay run
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-[220px_1fr] h-[calc(100vh-220px)]">
+              {/* Timeline */}
+              <ScrollArea className="border-r border-border">
+                <div className="p-3 space-y-1">
+                  {logsLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                  {!logsLoading && stepLogs.length === 0 && (
+                    <p className="text-xs text-muted-foreground p-2">No step logs recorded for this run.</p>
+                  )}
+                  {stepLogs.map((log) => (
+                    <button
+                      key={log.id}
+                      onClick={() => setSelectedLogId(log.id)}
+                      className={cn(
+                        "w-full rounded-md p-2 flex items-center gap-2 text-left hover:bg-muted/50",
+                        log.id === selectedLogId && "bg-muted/60",
+                      )}
+                    >
+                      <span className="text-xs text-muted-foreground/60 w-5">{stepIndex.get(log.stepId) ?? "–"}</span>
+                      <StatusIcon status={log.status} />
+                      <span className="flex-1 text-xs text-foreground truncate">{log.actionType}</span>
+                      {log.output?.simulated && <FlaskConical className="h-3 w-3 text-primary" />}
+                    </button>
+                  ))}
+                </div>
+              </ScrollArea>
+
+              {/* Step detail */}
+              <ScrollArea>
+                {!selectedLog ? (
+                  <p className="p-6 text-sm text-muted-foreground">Select a step to inspect its context.</p>
+                ) : (
+                  <div className="p-4 space-y-4">
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={selectedIndex <= 0}
+                        onClick={() => setSelectedLogId(stepLogs[selectedIndex - 1].id)}
+                      >
+                        <ChevronLeft className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        disabled={selectedIndex >= stepLogs.length - 1}
+                        onClick={() => setSelectedLogId(stepLogs[selectedIndex + 1].id)}
+                      >
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground">{selectedLog.actionType}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {selectedLog.status}
+                          {selectedLog.durationMs != null ? ` · ${selectedLog.durationMs}ms` : ""}
+                          {selectedLog.skipReason ? ` · ${selectedLog.skipReason}` : ""}
+                        </p>
+                      </div>
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          replayMutation.mutate({ runId: selectedRun.id, fromStepId: selectedLog.stepId })
+                        }
+                        disabled={replayMutation.isPending || !stepStillExists}
+                        title={stepStillExists ? undefined : "This step no longer exists in the automation"}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Replay from here
+                      </Button>
+                    </div>
+
+                    {selectedLog.errorMessage && (
+                      <div className="text-xs rounded bg-red-500/10 text-red-400 p-2">{selectedLog.errorMessage}</div>
+                    )}
+
+                    <Tabs defaultValue="changes">
+                      <TabsList className="w-full justify-start rounded-none border-b border-border bg-transparent">
+                        <TabsTrigger value="changes" className={TAB_TRIGGER_CLASS}>
+                          Changes
+                          <span className="ml-2 text-xs bg-primary/20 text-primary px-1.5 py-0.5 rounded">
+                            {changes.length}
+                          </span>
+                        </TabsTrigger>
+                        <TabsTrigger value="before" className={TAB_TRIGGER_CLASS}>Before</TabsTrigger>
+                        <TabsTrigger value="after" className={TAB_TRIGGER_CLASS}>After</TabsTrigger>
+                        <TabsTrigger value="io" className={TAB_TRIGGER_CLASS}>Input / Output</TabsTrigger>
+                      </TabsList>
+
+                      <TabsContent value="changes" className="mt-3 space-y-1">
+                        {!selectedLog.contextBefore && (
+                          <p className="text-xs text-muted-foreground">
+                            This run was logged before context snapshots were recorded.
+                          </p>
+                        )}
+                        {selectedLog.contextBefore && changes.length === 0 && (
+                          <p className="text-xs text-muted-foreground">This step did not change the context.</p>
+                        )}
+                        {changes.map((change) => (
+                          <div
+                            key={change.path}
+                            className={cn(
+                              "text-xs rounded px-2 py-1 font-mono",
+                              change.kind === "added" && "bg-green-500/10 text-green-500",
+                              change.kind === "removed" && "bg-red-500/10 text-red-500",
+                              change.kind === "changed" && "bg-yellow-500/10 text-yellow-500",
+                            )}
+                          >
+                            <span className="font-medium">{change.path}</span>
+                            {change.kind === "changed" ? (
+                              <span>: {formatValue(change.before)} → {formatValue(change.after)}</span>
+                            ) : (
+                              <span>: {formatValue(change.kind === "added" ? change.after : change.before)}</span>
+                            )}
+                          </div>
+                        ))}
+                      </TabsContent>
+
+                      <TabsContent value="before" className="mt-3">
+                        <pre className="bg-muted/40 rounded p-2 text-xs text-foreground/70 overflow-x-auto">
+                          {JSON.stringify(selectedLog.contextBefore, null, 2)}
+                        </pre>
+                      </TabsContent>
+
+                      <TabsContent value="after" className="mt-3">
+                        <pre className="bg-muted/40 rounded p-2 text-xs text-foreground/70 overflow-x-auto">
+                          {JSON.stringify(selectedLog.contextAfter, null, 2)}
+                        </pre>
+                      </TabsContent>
+
+                      <TabsContent value="io" className="mt-3 space-y-3">
+                        <div>
+                          <p className="text-xs text-muted-foreground mb-1">Configuration:</p>
+                          <pre className="bg-muted/40 rounded p-2 text-xs text-foreground/70 overflow-x-auto">
+                            {JSON.stringify(selectedLog.input, null, 2)}
+                          </pre>
+                        </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground mb-1">
+                            {selectedLog.output?.simulated ? "Simulated (not sent):" : "Output:"}
+                          </p>
+                          <pre className="bg-muted/40 rounded p-2 text-xs text-foreground/70 overflow-x-auto">
+                            {JSON.stringify(selectedLog.output, null, 2)}
+                          </pre>
+                        </div>
+                      </TabsContent>
+                    </Tabs>
+                  </div>
+                )}
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,104 @@
+// src/components/automations/editor/VersionDiffView.tsx
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { ACTION_META, TRIGGER_META, type TriggerType } from "@/lib/automations/types";
+import type { ContextChange } from "@/lib/automations/runReplay";
+import {
+  diffWorkflowVersions,
+  type StepChangeKind,
+  type VersionDefinition,
+} from "@/lib/automations/workflowVersions";
+
+const KIND_STYLES: Record<StepChangeKind, string> = {
+  added: "bg-green-500/10 text-green-500 border-green-500/20",
+  removed: "bg-destructive/10 text-destructive border-destructive/20",
+  changed: "bg-amber-500/10 text-amber-500 border-amber-500/20",
+  unchanged: "bg-muted text-muted-foreground",
+};
+
+function formatValue(value: unknown) {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function ChangeList({ changes }: { changes: ContextChange[] }) {
+  return (
+    <div className="space-y-1 mt-2">
+      {changes.map((change) => (
+        <div key={change.path} className="text-xs font-mono">
+          <span className="text-muted-foreground">{change.path}</span>
+          <div className="pl-2 break-all">
+            {change.kind !== "added" && (
+              <p className="text-destructive/80 line-through">{formatValue(change.before)}</p>
+            )}
+            {change.kind !== "removed" && <p className="text-green-500">{formatValue(change.after)}</p>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface VersionDiffViewProps {
+  before: VersionDefinition | null;
+  after: VersionDefinition | null;
+}
+
+/** Steps, step configs and trigger that differ between two versions */
+export function VersionDiffView({ before, after }: VersionDiffViewProps) {
+  const diff = useMemo(() => diffWorkflowVersions(before, after), [before, after]);
+  const changedSteps = diff.steps.filter((s) => s.kind !== "unchanged");
+  const triggerChanged = diff.trigger.typeChanged || diff.trigger.changes.length > 0;
+
+  if (!triggerChanged && changedSteps.length === 0) {
+    return <p className="text-sm text-muted-foreground py-6 text-center">These versions are identical</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {diff.summary.added} added · {diff.summary.removed} removed · {diff.summary.changed} changed
+        {diff.steps.length > changedSteps.length &&
+          ` · ${diff.steps.length - changedSteps.length} unchanged`}
+      </p>
+
+      {triggerChanged && (
+        <div className="p-3 rounded-lg border border-border bg-muted/30">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-foreground">Trigger</span>
+            <Badge variant="outline" className={cn("text-[10px]", KIND_STYLES.changed)}>
+              changed
+            </Badge>
+          </div>
+          {diff.trigger.typeChanged && (
+            <p className="text-xs mt-1">
+              <span className="text-destructive/80 line-through">
+                {TRIGGER_META[diff.trigger.before as TriggerType]?.label || diff.trigger.before || "—"}
+              </span>{" "}
+              → <span className="text-green-500">
+                {TRIGGER_META[diff.trigger.after as TriggerType]?.label || diff.trigger.after || "—"}
+              </span>
+            </p>
+          )}
+          <ChangeList changes={diff.trigger.changes} />
+        </div>
+      )}
+
+      {changedSteps.map((step) => (
+        <div key={step.stepId} className="p-3 rounded-lg border border-border bg-muted/30">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-foreground">
+              {ACTION_META[step.type]?.label || step.type}
+            </span>
+            <Badge variant="outline" className={cn("text-[10px]", KIND_STYLES[step.kind])}>
+              {step.kind}
+            </Badge>
+          </div>
+          <p className="text-[10px] text-muted-foreground/60 font-mono mt-0.5">{step.stepId}</p>
+          {step.changes.length > 0 && <ChangeList changes={step.changes} />}
+        </div>
+      ))}
+    </div>
+  );
+}
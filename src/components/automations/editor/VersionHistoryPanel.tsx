@@ -1,7 +1,7 @@
 // src/components/automations/editor/VersionHistoryPanel.tsx
 import { useState } from "react";
 import { format } from "date-fns";
-import { History, RotateCcw, Eye, Loader2 } from "lucide-react";
+import { History, RotateCcw, Eye, Loader2, GitCompare, ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -22,12 +22,21 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   useVersionHistory,
   useRollbackVersion,
   type WorkflowVersion,
 } from "@/hooks/useAutomationVersioning";
+import type { VersionDefinition } from "@/lib/automations/workflowVersions";
 import { cn } from "@/lib/utils";
+import { VersionDiffView } from "./VersionDiffView";
 
 interface VersionHistoryPanelProps {
   automationId: string | null;
@@ -42,6 +51,7 @@ export function VersionHistoryPanel({
 }: VersionHistoryPanelProps) {
   const [open, setOpen] = useState(false);
   const [rollbackTarget, setRollbackTarget] = useState<WorkflowVersion | null>(null);
+  const [compare, setCompare] = useState<{ fromId: string; toId: string } | null>(null);
   
   const { data: versions = [], isLoading } = useVersionHistory(automationId);
   const rollbackMutation = useRollbackVersion(automationId, teamId);
@@ -55,9 +65,29 @@ export function VersionHistoryPanel({
 
   const isEmpty = !isLoading && versions.length === 0;
 
+  // Older versions compare against the live one; the live one against the version before it
+  const openCompare = (version: WorkflowVersion) => {
+    const liveId = currentVersionId || versions[0]?.id;
+    if (version.id !== liveId) {
+      setCompare({ fromId: version.id, toId: liveId });
+      return;
+    }
+    const previous = versions[versions.findIndex((v) => v.id === version.id) + 1] || version;
+    setCompare({ fromId: previous.id, toId: version.id });
+  };
+
+  const definitionOf = (versionId: string) =>
+    (versions.find((v) => v.id === versionId)?.definition_json as VersionDefinition | undefined) || null;
+
   return (
     <>
-      <Sheet open={open} onOpenChange={setOpen}>
+      <Sheet
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (!next) setCompare(null);
+        }}
+      >
         <SheetTrigger asChild>
           <Button
             variant="ghost"
@@ -69,16 +99,49 @@ export function VersionHistoryPanel({
             History
           </Button>
         </SheetTrigger>
-        <SheetContent className="w-[400px] bg-background border-border">
+        <SheetContent className={cn("bg-background border-border", compare ? "w-[520px] sm:max-w-[520px]" : "w-[400px]")}>
           <SheetHeader>
             <SheetTitle className="text-foreground">Version History</SheetTitle>
             <SheetDescription className="text-muted-foreground">
-              View and restore previous versions of this workflow
+              View, compare and restore previous versions of this workflow
             </SheetDescription>
           </SheetHeader>
 
           <ScrollArea className="h-[calc(100vh-140px)] mt-4 -mx-6 px-6">
-            {isLoading ? (
+            {compare ? (
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setCompare(null)}
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                  </Button>
+                  {(["fromId", "toId"] as const).map((side) => (
+                    <Select
+                      key={side}
+                      value={compare[side]}
+                      onValueChange={(value) => setCompare({ ...compare, [side]: value })}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((v) => (
+                          <SelectItem key={v.id} value={v.id}>
+                            v{v.version_number}
+                            {v.id === currentVersionId ? " (current)" : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ))}
+                </div>
+                <VersionDiffView before={definitionOf(compare.fromId)} after={definitionOf(compare.toId)} />
+              </div>
+            ) : isLoading ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
               </div>
@@ -131,17 +194,30 @@ export function VersionHistoryPanel({
                           </p>
                         </div>
                         
-                        {!isCurrent && (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setRollbackTarget(version)}
-                            className="text-muted-foreground hover:text-foreground hover:bg-muted/50"
-                          >
-                            <RotateCcw className="h-3.5 w-3.5 mr-1" />
-                            Restore
-                          </Button>
-                        )}
+                        <div className="flex items-center">
+                          {versions.length > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openCompare(version)}
+                              className="text-muted-foreground hover:text-foreground hover:bg-muted/50"
+                            >
+                              <GitCompare className="h-3.5 w-3.5 mr-1" />
+                              Compare
+                            </Button>
+                          )}
+                          {!isCurrent && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRollbackTarget(version)}
+                              className="text-muted-foreground hover:text-foreground hover:bg-muted/50"
+                            >
+                              <RotateCcw className="h-3.5 w-3.5 mr-1" />
+                              Restore
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     </div>
                   );
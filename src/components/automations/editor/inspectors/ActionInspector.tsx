@@ -169,7 +169,7 @@ export function ActionInspector({ step, steps, onUpdate, teamId }: ActionInspect
       {step.type === "add_tag" && <AddTagForm {...formProps} />}
       {step.type === "remove_tag" && <RemoveTagForm {...formProps} />}
       {step.type === "create_contact" && <CreateContactForm {...formProps} />}
-      {step.type === "update_contact" && <UpdateContactForm {...formProps} />}
+      {step.type === "update_contact" && <UpdateContactForm {...formProps} teamId={teamId} />}
       {step.type === "add_task" && <AddTaskForm {...formProps} />}
       {step.type === "add_note" && <AddNoteForm {...formProps} />}
       {step.type === "assign_owner" && <AssignOwnerForm {...formProps} teamId={teamId} />}
@@ -204,7 +204,7 @@ export function ActionInspector({ step, steps, onUpdate, teamId }: ActionInspect
       {step.type === "time_delay" && <TimeDelayForm {...formProps} />}
       {step.type === "wait_until" && <WaitUntilForm {...formProps} />}
       {step.type === "business_hours" && <BusinessHoursForm {...formProps} />}
-      {step.type === "condition" && <ConditionForm {...formProps} />}
+      {step.type === "condition" && <ConditionForm {...formProps} teamId={teamId} />}
       {step.type === "split_test" && <SplitTestForm {...formProps} />}
       {step.type === "go_to" && (
         <GoToForm
@@ -212,7 +212,7 @@ export function ActionInspector({ step, steps, onUpdate, teamId }: ActionInspect
           availableSteps={steps.map(s => ({ id: s.id, label: s.config?.label || `Step ${s.order}` }))}
         />
       )}
-      {step.type === "set_variable" && <SetVariableForm {...formProps} />}
+      {step.type === "set_variable" && <SetVariableForm {...formProps} teamId={teamId} />}
       {step.type === "run_workflow" && <RunWorkflowForm {...formProps} teamId={teamId} />}
       {step.type === "add_to_workflow" && <AddToWorkflowForm {...formProps} />}
       {step.type === "remove_from_workflow" && <RemoveFromWorkflowForm {...formProps} />}
@@ -1,9 +1,19 @@
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { AutomationTrigger, TriggerType, TriggerCategory } from "@/lib/automations/types";
+import {
+  buildCronExpression,
+  getNextCronOccurrence,
+  isValidTimezone,
+  DEFAULT_SCHEDULE_TIMEZONE,
+  type ScheduleConfig,
+} from "@/lib/automations/cron";
+import { generateWebhookSecret, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from "@/lib/webhookSignature";
 import {
   UserPlus, Tag, UserCog, BellOff, Cake, CalendarDays, StickyNote,
   FileText, ClipboardCheck, HelpCircle, Eye, MousePointerClick,
@@ -13,7 +23,7 @@ import {
   DollarSign, AlertCircle, Send, AlertTriangle, Repeat, ShoppingCart, RotateCcw,
   MessageCircle, MailOpen, MailX, AlertOctagon, Star,
   Webhook, Play, Search, Music, Mic,
-  Phone,
+  Phone, UserMinus,
 } from "lucide-react";
 
 interface TriggerInspectorProps {
@@ -40,12 +50,14 @@ const FUNCTIONAL_TRIGGERS: Set<TriggerType> = new Set([
   "custom_date_reminder",
   // Form triggers
   "form_submitted",
+  "funnel_abandoned",
   // Appointment triggers
   "appointment_booked",
   "appointment_rescheduled",
   "appointment_canceled",
   "appointment_no_show",
   "appointment_completed",
+  "waitlist_updated",
   // Pipeline/Deal triggers
   "stage_changed",
   "deal_created",
@@ -87,6 +99,7 @@ const TRIGGER_OPTIONS: TriggerOption[] = [
   { value: "survey_submitted", label: "Survey Submitted", description: "When a survey is completed", icon: <ClipboardCheck className="h-4 w-4" />, category: "form" },
   { value: "quiz_submitted", label: "Quiz Submitted", description: "When a quiz is completed", icon: <HelpCircle className="h-4 w-4" />, category: "form" },
   { value: "funnel_page_view", label: "Page Viewed", description: "When a funnel page is viewed", icon: <Eye className="h-4 w-4" />, category: "form" },
+  { value: "funnel_abandoned", label: "Funnel Abandoned", description: "When a partial lead goes idle before submitting", icon: <UserMinus className="h-4 w-4" />, category: "form" },
   { value: "trigger_link_clicked", label: "Trigger Link Clicked", description: "When a tracked link is clicked", icon: <MousePointerClick className="h-4 w-4" />, category: "form" },
   
   // Appointment triggers
@@ -95,6 +108,7 @@ const TRIGGER_OPTIONS: TriggerOption[] = [
   { value: "appointment_no_show", label: "No Show", description: "When lead misses appointment", icon: <UserX className="h-4 w-4" />, category: "appointment" },
   { value: "appointment_completed", label: "Appointment Completed", description: "When completed", icon: <CalendarCheck className="h-4 w-4" />, category: "appointment" },
   { value: "appointment_canceled", label: "Appointment Canceled", description: "When canceled", icon: <CalendarX className="h-4 w-4" />, category: "appointment" },
+  { value: "waitlist_updated", label: "Waitlist Updated", description: "Joined, offered, claimed or expired", icon: <ListPlus className="h-4 w-4" />, category: "appointment" },
   
   // Task triggers
   { value: "task_added", label: "Task Added", description: "When a task is created", icon: <ListPlus className="h-4 w-4" />, category: "task" },
@@ -157,14 +171,59 @@ const CATEGORY_ORDER: TriggerCategory[] = [
 ];
 
 // Group options by category
+const SCHEDULE_TIMEZONES = [
+  "UTC",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Lisbon",
+  "Europe/Paris",
+  "Europe/Berlin",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+interface ScheduleRunPreview {
+  nextRun?: string;
+  error?: string;
+}
+
+/** Next fire time for the trigger inspector, or an error message for an invalid schedule */
+function describeNextRun(config: ScheduleConfig | undefined): ScheduleRunPreview {
+  const timezone = config?.timezone || DEFAULT_SCHEDULE_TIMEZONE;
+  if (!isValidTimezone(timezone)) return { error: `Unknown timezone "${timezone}"` };
+  try {
+    const next = getNextCronOccurrence(buildCronExpression(config || {}), new Date(), timezone);
+    if (!next) return { error: "This schedule never runs" };
+    return {
+      nextRun: next.toLocaleString(undefined, {
+        timeZone: timezone,
+        dateStyle: "medium",
+        timeStyle: "short",
+      }),
+    };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : "Invalid schedule" };
+  }
+}
+
 const TRIGGER_CATEGORIES = CATEGORY_ORDER.reduce((acc, category) => {
   acc[category] = TRIGGER_OPTIONS.filter(opt => opt.category === category);
   return acc;
 }, {} as Record<TriggerCategory, TriggerOption[]>);
 
 export function TriggerInspector({ trigger, onChange }: TriggerInspectorProps) {
+  const { teamId } = useParams<{ teamId: string }>();
+
   const handleTypeChange = (type: TriggerType) => {
-    onChange({ type, config: {} });
+    // Each inbound webhook gets its own id so only its automations run
+    onChange({ type, config: type === "webhook_received" ? { webhookId: crypto.randomUUID() } : {} });
   };
 
   const handleConfigChange = (key: string, value: any) => {
@@ -172,6 +231,8 @@ export function TriggerInspector({ trigger, onChange }: TriggerInspectorProps) {
   };
 
   const selectedOption = TRIGGER_OPTIONS.find(opt => opt.value === trigger.type);
+  const schedule = trigger.config?.schedule || "daily";
+  const scheduleRun: ScheduleRunPreview = trigger.type === "scheduled_trigger" ? describeNextRun(trigger.config) : {};
 
   return (
     <div className="space-y-4">
@@ -313,6 +374,36 @@ export function TriggerInspector({ trigger, onChange }: TriggerInspectorProps) {
         </div>
       )}
 
+      {/* Funnel abandoned trigger */}
+      {trigger.type === "funnel_abandoned" && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-foreground/70">Funnel (Optional)</Label>
+            <Input
+              value={trigger.config?.funnelId || ""}
+              onChange={(e) => handleConfigChange("funnelId", e.target.value)}
+              placeholder="Any funnel"
+              className="bg-background border-border text-foreground placeholder:text-muted-foreground"
+            />
+            <p className="text-xs text-muted-foreground">Leave empty to watch every funnel</p>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-foreground/70">Idle Time (minutes)</Label>
+            <Input
+              type="number"
+              min={5}
+              value={trigger.config?.idleMinutes || 30}
+              onChange={(e) => handleConfigChange("idleMinutes", parseInt(e.target.value))}
+              className="bg-background border-border text-foreground"
+            />
+            <p className="text-xs text-muted-foreground">
+              Fires once per lead that left contact info and hasn't submitted for this long.
+              A later submit stops the sequence.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Stage changed trigger */}
       {trigger.type === "stage_changed" && (
         <div className="space-y-4">
@@ -386,6 +477,42 @@ export function TriggerInspector({ trigger, onChange }: TriggerInspectorProps) {
         </div>
       )}
 
+      {/* Waitlist trigger */}
+      {trigger.type === "waitlist_updated" && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-foreground/70">Waitlist Event</Label>
+            <Select
+              value={trigger.config?.waitlistEvent || "any"}
+              onValueChange={(v) => handleConfigChange("waitlistEvent", v === "any" ? undefined : v)}
+            >
+              <SelectTrigger className="bg-background border-border text-foreground">
+                <SelectValue placeholder="Any event" />
+              </SelectTrigger>
+              <SelectContent className="bg-background border-border">
+                <SelectItem value="any" className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">Any Event</SelectItem>
+                <SelectItem value="joined" className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">Joined Waitlist</SelectItem>
+                <SelectItem value="offered" className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">Slot Offered</SelectItem>
+                <SelectItem value="claimed" className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">Offer Claimed</SelectItem>
+                <SelectItem value="offer_expired" className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">Offer Expired</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-foreground/70">Event Type ID (Optional)</Label>
+            <Input
+              value={trigger.config?.eventTypeId || ""}
+              onChange={(e) => handleConfigChange("eventTypeId", e.target.value)}
+              placeholder="Any event type"
+              className="bg-background border-border text-foreground placeholder:text-muted-foreground"
+            />
+            <p className="text-xs text-muted-foreground">
+              Offers include the claim link as {"{{meta.waitlist.claim_url}}"}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Stale opportunity trigger */}
       {trigger.type === "stale_opportunity" && (
         <div className="space-y-4">
@@ -408,13 +535,39 @@ export function TriggerInspector({ trigger, onChange }: TriggerInspectorProps) {
         <div className="space-y-4">
           <div className="space-y-2">
             <Label className="text-foreground/70">Webhook URL</Label>
-            <div className="p-3 rounded-lg bg-muted/30 border border-border">
-              <code className="text-xs text-primary break-all">
-                {`https://your-project.supabase.co/functions/v1/webhook-trigger/${trigger.config?.webhookId || 'YOUR_WEBHOOK_ID'}`}
-              </code>
-            </div>
+            {trigger.config?.webhookId ? (
+              <div className="p-3 rounded-lg bg-muted/30 border border-border">
+                <code className="text-xs text-primary break-all">
+                  {`${import.meta.env.VITE_SUPABASE_URL || "https://your-project.supabase.co"}/functions/v1/webhook-receiver/${teamId || "YOUR_TEAM_ID"}/${trigger.config.webhookId}`}
+                </code>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => handleConfigChange("webhookId", crypto.randomUUID())}>
+                Generate webhook URL
+              </Button>
+            )}
             <p className="text-xs text-muted-foreground">Send POST requests to this URL to trigger this automation</p>
           </div>
+
+          <div className="space-y-2">
+            <Label className="text-foreground/70">Signing Secret</Label>
+            <div className="flex gap-2">
+              <Input
+                value={trigger.config?.secret || ""}
+                onChange={(e) => handleConfigChange("secret", e.target.value)}
+                placeholder="Optional"
+                className="bg-background border-border text-foreground font-mono text-xs"
+              />
+              <Button variant="outline" size="sm" onClick={() => handleConfigChange("secret", generateWebhookSecret())}>
+                Generate
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {trigger.config?.secret
+                ? `Requests must send ${WEBHOOK_TIMESTAMP_HEADER} (unix seconds) and ${WEBHOOK_SIGNATURE_HEADER}: sha256=<hex HMAC-SHA256 of "timestamp.body">. Unsigned or stale requests are rejected.`
+                : "Without a secret anyone with the URL can trigger this automation"}
+            </p>
+          </div>
         </div>
       )}
 
@@ -424,7 +577,7 @@ export function TriggerInspector({ trigger, onChange }: TriggerInspectorProps) {
           <div className="space-y-2">
             <Label className="text-foreground/70">Schedule</Label>
             <Select 
-              value={trigger.config?.schedule || "daily"} 
+              value={schedule} 
               onValueChange={(v) => handleConfigChange("schedule", v)}
             >
               <SelectTrigger className="bg-background border-border text-foreground">
@@ -434,23 +587,39 @@ export function TriggerInspector({ trigger, onChange }: TriggerInspectorProps) {
                 <SelectItem value="daily" className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">Daily</SelectItem>
                 <SelectItem value="weekly" className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">Weekly</SelectItem>
                 <SelectItem value="monthly" className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">Monthly</SelectItem>
+                <SelectItem value="custom" className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">Custom (cron)</SelectItem>
               </SelectContent>
             </Select>
           </div>
-          <div className="space-y-2">
-            <Label className="text-foreground/70">Time</Label>
-            <Input
-              type="time"
-              value={trigger.config?.time || "09:00"}
-              onChange={(e) => handleConfigChange("time", e.target.value)}
-              className="bg-background border-border text-foreground"
-            />
-          </div>
-          {trigger.config?.schedule === "weekly" && (
+          {schedule === "custom" ? (
+            <div className="space-y-2">
+              <Label className="text-foreground/70">Cron Expression</Label>
+              <Input
+                value={trigger.config?.cronExpression || ""}
+                onChange={(e) => handleConfigChange("cronExpression", e.target.value)}
+                placeholder="0 9 * * 1-5"
+                className="bg-background border-border text-foreground font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                minute hour day-of-month month day-of-week
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label className="text-foreground/70">Time</Label>
+              <Input
+                type="time"
+                value={trigger.config?.time || "09:00"}
+                onChange={(e) => handleConfigChange("time", e.target.value)}
+                className="bg-background border-border text-foreground"
+              />
+            </div>
+          )}
+          {schedule === "weekly" && (
             <div className="space-y-2">
               <Label className="text-foreground/70">Day of Week</Label>
               <Select 
-                value={String(trigger.config?.dayOfWeek || 1)} 
+                value={String(trigger.config?.dayOfWeek ?? 1)} 
                 onValueChange={(v) => handleConfigChange("dayOfWeek", parseInt(v))}
               >
                 <SelectTrigger className="bg-background border-border text-foreground">
@@ -468,6 +637,45 @@ export function TriggerInspector({ trigger, onChange }: TriggerInspectorProps) {
               </Select>
             </div>
           )}
+          {schedule === "monthly" && (
+            <div className="space-y-2">
+              <Label className="text-foreground/70">Day of Month</Label>
+              <Input
+                type="number"
+                min={1}
+                max={31}
+                value={trigger.config?.dayOfMonth ?? 1}
+                onChange={(e) => handleConfigChange("dayOfMonth", parseInt(e.target.value) || 1)}
+                className="bg-background border-border text-foreground"
+              />
+              <p className="text-xs text-muted-foreground">
+                Months without this day are skipped
+              </p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label className="text-foreground/70">Timezone</Label>
+            <Select 
+              value={trigger.config?.timezone || DEFAULT_SCHEDULE_TIMEZONE} 
+              onValueChange={(v) => handleConfigChange("timezone", v)}
+            >
+              <SelectTrigger className="bg-background border-border text-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border-border">
+                {SCHEDULE_TIMEZONES.map((tz) => (
+                  <SelectItem key={tz} value={tz} className="text-foreground hover:bg-muted focus:bg-muted focus:text-foreground">
+                    {tz.replace(/_/g, " ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {scheduleRun.error ? (
+            <p className="text-xs text-destructive">{scheduleRun.error}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">Next run: {scheduleRun.nextRun}</p>
+          )}
         </div>
       )}
 
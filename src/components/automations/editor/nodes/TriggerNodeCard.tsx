@@ -8,7 +8,7 @@ import {
   ListPlus, Bell, CheckSquare, RefreshCw, Send, AlertTriangle,
   Repeat, RotateCcw, ShoppingCart, MessageCircle, MailOpen, MailX,
   AlertOctagon, Star, Facebook, Music, Search, CreditCard, Receipt,
-  ReceiptText, Phone, Mic
+  ReceiptText, Phone, Mic, UserMinus
 } from "lucide-react";
 import type { AutomationTrigger, TriggerType } from "@/lib/automations/types";
 import { cn } from "@/lib/utils";
@@ -103,6 +103,12 @@ const TRIGGER_DISPLAY: Record<TriggerType, TriggerDisplay> = {
     color: "text-indigo-400",
     bgColor: "bg-indigo-500/20"
   },
+  funnel_abandoned: {
+    label: "Funnel Abandoned",
+    icon: <UserMinus className="h-5 w-5" />,
+    color: "text-orange-400",
+    bgColor: "bg-orange-500/20"
+  },
   trigger_link_clicked: {
     label: "Link Clicked",
     icon: <MousePointerClick className="h-5 w-5" />,
@@ -161,6 +167,12 @@ const TRIGGER_DISPLAY: Record<TriggerType, TriggerDisplay> = {
     color: "text-gray-400", 
     bgColor: "bg-gray-500/20" 
   },
+  waitlist_updated: {
+    label: "Waitlist Updated",
+    icon: <ListPlus className="h-5 w-5" />,
+    color: "text-amber-400",
+    bgColor: "bg-amber-500/20"
+  },
 
   // Pipeline Events
   stage_changed: { 
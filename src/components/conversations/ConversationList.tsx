@@ -0,0 +1,126 @@
+import { formatDistanceToNowStrict } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Mail, MessageSquare, Search } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  CHANNEL_LABELS,
+  getContactDisplayName,
+  type ConversationChannel,
+  type ConversationContact,
+} from "@/lib/conversations";
+
+export type ConversationFilter = "all" | "unread" | "mine" | "unassigned";
+
+export interface Conversation {
+  id: string;
+  team_id: string;
+  contact_id: string;
+  assigned_to: string | null;
+  unread_count: number;
+  last_message_at: string | null;
+  last_message_preview: string | null;
+  last_message_channel: ConversationChannel | null;
+  last_message_direction: "inbound" | "outbound" | null;
+  contacts: ConversationContact;
+}
+
+export interface ConversationMember {
+  id: string;
+  name: string;
+}
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  members: ConversationMember[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  filter: ConversationFilter;
+  onFilterChange: (filter: ConversationFilter) => void;
+  search: string;
+  onSearchChange: (search: string) => void;
+}
+
+export function ConversationList({
+  conversations,
+  members,
+  selectedId,
+  onSelect,
+  filter,
+  onFilterChange,
+  search,
+  onSearchChange,
+}: ConversationListProps) {
+  return (
+    <>
+      <div className="p-3 space-y-3 border-b border-border">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            placeholder="Search name, email or phone"
+            className="pl-8"
+          />
+        </div>
+        <Tabs value={filter} onValueChange={(value) => onFilterChange(value as ConversationFilter)}>
+          <TabsList className="grid grid-cols-4 w-full">
+            <TabsTrigger value="all" className="text-xs">All</TabsTrigger>
+            <TabsTrigger value="unread" className="text-xs">Unread</TabsTrigger>
+            <TabsTrigger value="mine" className="text-xs">Mine</TabsTrigger>
+            <TabsTrigger value="unassigned" className="text-xs">Unassigned</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {conversations.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">No conversations</p>
+        ) : (
+          conversations.map((conversation) => {
+            const assignee = members.find((m) => m.id === conversation.assigned_to);
+            const ChannelIcon = conversation.last_message_channel === "email" ? Mail : MessageSquare;
+            return (
+              <button
+                key={conversation.id}
+                type="button"
+                onClick={() => onSelect(conversation.id)}
+                className={cn(
+                  "w-full text-left px-3 py-3 border-b border-border hover:bg-muted/50 transition-colors",
+                  selectedId === conversation.id && "bg-muted",
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className={cn("truncate text-sm", conversation.unread_count > 0 && "font-semibold")}>
+                    {getContactDisplayName(conversation.contacts)}
+                  </span>
+                  {conversation.last_message_at && (
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {formatDistanceToNowStrict(new Date(conversation.last_message_at))}
+                    </span>
+                  )}
+                </div>
+                <div className="mt-1 flex items-center gap-2">
+                  <ChannelIcon
+                    className="h-3.5 w-3.5 shrink-0 text-muted-foreground"
+                    aria-label={conversation.last_message_channel ? CHANNEL_LABELS[conversation.last_message_channel] : undefined}
+                  />
+                  <span className="truncate text-xs text-muted-foreground flex-1">
+                    {conversation.last_message_direction === "outbound" && "You: "}
+                    {conversation.last_message_preview || "No messages yet"}
+                  </span>
+                  {conversation.unread_count > 0 && (
+                    <Badge className="h-5 min-w-5 justify-center px-1.5 text-[10px]">{conversation.unread_count}</Badge>
+                  )}
+                </div>
+                {assignee && <p className="mt-1 text-[11px] text-muted-foreground">Assigned to {assignee.name}</p>}
+              </button>
+            );
+          })
+        )}
+      </ScrollArea>
+    </>
+  );
+}
@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Send, Bot } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  CHANNEL_LABELS,
+  getContactDisplayName,
+  getReplyChannels,
+  toConversationMessage,
+  validateReply,
+  type ConversationChannel,
+  type MessageLogRow,
+} from "@/lib/conversations";
+import type { Conversation, ConversationMember } from "./ConversationList";
+
+const UNASSIGNED = "unassigned";
+
+interface ConversationThreadProps {
+  teamId: string;
+  conversation: Conversation;
+  members: ConversationMember[];
+}
+
+export function ConversationThread({ teamId, conversation, members }: ConversationThreadProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const contact = conversation.contacts;
+  const replyChannels = getReplyChannels(contact);
+  const [channel, setChannel] = useState<ConversationChannel | undefined>(() =>
+    conversation.last_message_channel && replyChannels.includes(conversation.last_message_channel)
+      ? conversation.last_message_channel
+      : replyChannels[0],
+  );
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ["conversation-messages", teamId, conversation.contact_id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("message_logs")
+        .select("id, channel, direction, automation_id, payload, status, delivery_status, error_message, created_at")
+        .eq("team_id", teamId)
+        .eq("contact_id", conversation.contact_id)
+        .in("channel", ["sms", "whatsapp", "email"])
+        .order("created_at", { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      return ((data || []) as MessageLogRow[]).map(toConversationMessage).reverse();
+    },
+  });
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length]);
+
+  const updateConversation = useCallback(async (changes: TablesUpdate<"conversations">) => {
+    const { error } = await supabase
+      .from("conversations")
+      .update(changes)
+      .eq("id", conversation.id);
+    if (error) throw error;
+    queryClient.invalidateQueries({ queryKey: ["conversations", teamId] });
+  }, [conversation.id, queryClient, teamId]);
+
+  // Opening a thread reads it
+  useEffect(() => {
+    if (conversation.unread_count === 0) return;
+    updateConversation({ unread_count: 0, last_read_at: new Date().toISOString(), last_read_by: user?.id ?? null })
+      .catch((error) => console.error("Failed to mark conversation read:", error));
+  }, [conversation.unread_count, updateConversation, user?.id]);
+
+  const assignMutation = useMutation({
+    mutationFn: (assignedTo: string | null) => updateConversation({ assigned_to: assignedTo }),
+    onSuccess: () => toast.success("Conversation assigned"),
+    onError: (error: Error) => toast.error("Failed to assign: " + error.message),
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke("send-conversation-reply", {
+        body: { teamId, contactId: contact.id, channel, body, subject },
+      });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || "Message was not sent");
+    },
+    onSuccess: () => {
+      setBody("");
+      setSubject("");
+      queryClient.invalidateQueries({ queryKey: ["conversation-messages", teamId, conversation.contact_id] });
+      queryClient.invalidateQueries({ queryKey: ["conversations", teamId] });
+    },
+    onError: (error: Error) => toast.error("Failed to send: " + error.message),
+  });
+
+  const replyError = channel ? validateReply({ teamId, contact, channel, body, subject }) : "No way to reach this contact";
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-3 border-b border-border flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <h2 className="font-semibold truncate">{getContactDisplayName(contact)}</h2>
+          <p className="text-xs text-muted-foreground truncate">
+            {[contact.phone, contact.email].filter(Boolean).join(" · ")}
+          </p>
+        </div>
+        <Select
+          value={conversation.assigned_to || UNASSIGNED}
+          onValueChange={(value) => assignMutation.mutate(value === UNASSIGNED ? null : value)}
+          disabled={assignMutation.isPending}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {members.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.id === user?.id ? `${member.name} (you)` : member.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">No messages yet</p>
+        ) : (
+          messages.map((message) => {
+            const outbound = message.direction === "outbound";
+            return (
+              <div key={message.id} className={cn("flex", outbound ? "justify-end" : "justify-start")}>
+                <div
+                  className={cn(
+                    "max-w-[75%] rounded-lg px-3 py-2 text-sm",
+                    outbound ? "bg-primary text-primary-foreground" : "bg-muted",
+                  )}
+                >
+                  {message.subject && <p className="font-medium mb-1">{message.subject}</p>}
+                  <p className="whitespace-pre-wrap break-words">{message.body || "(no content)"}</p>
+                  <div className={cn("mt-1 flex items-center gap-1.5 text-[10px]", outbound ? "text-primary-foreground/70" : "text-muted-foreground")}>
+                    {message.automated && <Bot className="h-3 w-3" aria-label="Sent by a workflow" />}
+                    <span>{CHANNEL_LABELS[message.channel]}</span>
+                    <span>·</span>
+                    <span>{format(new Date(message.createdAt), "MMM d, h:mm a")}</span>
+                    {outbound && <span>· {message.status}</span>}
+                  </div>
+                  {message.error && <p className="mt-1 text-[10px] text-destructive">{message.error}</p>}
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <div className="border-t border-border p-3 space-y-2">
+        {replyChannels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This contact has no phone number or email address.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Select value={channel} onValueChange={(value) => setChannel(value as ConversationChannel)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {replyChannels.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {CHANNEL_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {channel === "email" && (
+                <Input value={subject} onChange={(e) => setSubject(e.target.value)} placeholder="Subject" />
+              )}
+              {channel !== "email" && body.length > 0 && (
+                <Badge variant="secondary" className="ml-auto text-xs">{body.length} chars</Badge>
+              )}
+            </div>
+            <div className="flex items-end gap-2">
+              <Textarea
+                rows={3}
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder={channel ? `Reply by ${CHANNEL_LABELS[channel]}` : "Reply"}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && (e.metaKey || e.ctrlKey) && !replyError) replyMutation.mutate();
+                }}
+              />
+              <Button onClick={() => replyMutation.mutate()} disabled={!!replyError || replyMutation.isPending}>
+                {replyMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Replies are billed and consent-checked like any other message.</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeftRight, Loader2, Undo2, Users } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  MERGE_FIELDS,
+  buildMergedValues,
+  defaultMergeSelection,
+  findDuplicatePairs,
+  getConflictingFields,
+  type DedupeContact,
+  type DuplicatePair,
+  type MergeSelection,
+} from '@/lib/contactDedupe';
+import { getContactDisplayName } from '@/lib/conversations';
+
+interface ContactMerge {
+  id: string;
+  survivor_id: string;
+  duplicate_id: string;
+  match_score: number | null;
+  match_reasons: string[];
+  survivor_before: DedupeContact;
+  duplicate_snapshot: DedupeContact;
+  undone_at: string | null;
+  created_at: string;
+}
+
+interface ContactDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+}
+
+// At or under PostgREST's default max_rows
+const CANDIDATE_PAGE_SIZE = 1000;
+
+const REASON_LABELS: Record<string, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Same name',
+};
+
+function contactSummary(contact: DedupeContact) {
+  return [contact.email, contact.phone].filter(Boolean).join(' · ') || 'No email or phone';
+}
+
+export function ContactDuplicatesDialog({ open, onOpenChange, teamId }: ContactDuplicatesDialogProps) {
+  const queryClient = useQueryClient();
+  const [reviewing, setReviewing] = useState<DuplicatePair | null>(null);
+  const [selection, setSelection] = useState<MergeSelection>({});
+  const [lastMerge, setLastMerge] = useState<{ id: string; label: string } | null>(null);
+
+  const { data: contacts = [], isLoading: contactsLoading } = useQuery({
+    queryKey: ['contact-duplicates', teamId],
+    enabled: open && !!teamId,
+    queryFn: async () => {
+      // Only contacts sharing a matching key come back; page through them
+      // since PostgREST caps each response
+      const candidates: DedupeContact[] = [];
+      for (let from = 0; ; from += CANDIDATE_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .rpc('find_duplicate_contact_candidates', { p_team_id: teamId })
+          .range(from, from + CANDIDATE_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        candidates.push(...((data || []) as unknown as DedupeContact[]));
+        if (!data || data.length < CANDIDATE_PAGE_SIZE) break;
+      }
+      return candidates;
+    },
+  });
+
+  const { data: merges = [], isLoading: mergesLoading } = useQuery({
+    queryKey: ['contact-merges', teamId],
+    enabled: open && !!teamId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('contact_merges')
+        .select('id, survivor_id, duplicate_id, match_score, match_reasons, survivor_before, duplicate_snapshot, undone_at, created_at')
+        .eq('team_id', teamId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return (data || []) as unknown as ContactMerge[];
+    },
+  });
+
+  const pairs = useMemo(() => findDuplicatePairs(contacts), [contacts]);
+
+  const refreshAfterChange = () => {
+    queryClient.invalidateQueries({ queryKey: ['contact-duplicates', teamId] });
+    queryClient.invalidateQueries({ queryKey: ['contact-merges', teamId] });
+    queryClient.invalidateQueries({ queryKey: ['contacts', teamId] });
+    queryClient.invalidateQueries({ queryKey: ['conversations', teamId] });
+  };
+
+  const startReview = (pair: DuplicatePair) => {
+    setReviewing(pair);
+    setSelection(defaultMergeSelection(pair.survivor, pair.duplicate));
+  };
+
+  const swapSurvivor = () => {
+    if (!reviewing) return;
+    startReview({ ...reviewing, survivor: reviewing.duplicate, duplicate: reviewing.survivor });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async (pair: DuplicatePair) => {
+      const { data, error } = await supabase.rpc('merge_contacts', {
+        p_team_id: teamId,
+        p_survivor_id: pair.survivor.id,
+        p_duplicate_id: pair.duplicate.id,
+        p_values: buildMergedValues(pair.survivor, pair.duplicate, selection) as Json,
+        p_match_score: pair.score,
+        p_match_reasons: pair.reasons,
+      });
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: (mergeId, pair) => {
+      const label = `${getContactDisplayName(pair.duplicate)} into ${getContactDisplayName(pair.survivor)}`;
+      setLastMerge({ id: mergeId, label });
+      setReviewing(null);
+      refreshAfterChange();
+      toast({ title: 'Contacts merged', description: `Merged ${label}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Merge failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (mergeId: string) => {
+      const { error } = await supabase.rpc('undo_contact_merge', { p_merge_id: mergeId });
+      if (error) throw error;
+    },
+    onSuccess: (_data, mergeId) => {
+      if (lastMerge?.id === mergeId) setLastMerge(null);
+      refreshAfterChange();
+      toast({ title: 'Merge undone', description: 'Both contacts and their history are restored.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Undo failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const undoMerge = (mergeId: string) => {
+    if (!confirm("Undo this merge? The survivor's fields go back to how they were before it.")) return;
+    undoMutation.mutate(mergeId);
+  };
+
+  const renderReview = (pair: DuplicatePair) => {
+    const conflicts = getConflictingFields(pair.survivor, pair.duplicate);
+    const fields = MERGE_FIELDS.filter(({ key }) => pair.survivor[key] || pair.duplicate[key]);
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="sm" onClick={() => setReviewing(null)}>
+            Back to duplicates
+          </Button>
+          <Button variant="outline" size="sm" onClick={swapSurvivor}>
+            <ArrowLeftRight className="h-4 w-4 mr-2" />
+            Keep the other contact
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-[140px_1fr_1fr] gap-x-4 text-sm">
+          <div />
+          <div className="pb-2">
+            <p className="font-medium">Keep</p>
+            <p className="text-xs text-muted-foreground">Created {format(new Date(pair.survivor.created_at), 'MMM d, yyyy')}</p>
+          </div>
+          <div className="pb-2">
+            <p className="font-medium">Merge and delete</p>
+            <p className="text-xs text-muted-foreground">Created {format(new Date(pair.duplicate.created_at), 'MMM d, yyyy')}</p>
+          </div>
+
+          {fields.map(({ key, label }) => {
+            const conflicting = conflicts.includes(key);
+            const value = selection[key] || 'survivor';
+            return (
+              <RadioGroup
+                key={key}
+                value={value}
+                onValueChange={(next) => setSelection((prev) => ({ ...prev, [key]: next as 'survivor' | 'duplicate' }))}
+                className="contents"
+              >
+                <div className="py-2 border-t text-muted-foreground">{label}</div>
+                {(['survivor', 'duplicate'] as const).map((side) => {
+                  const cellValue = side === 'survivor' ? pair.survivor[key] : pair.duplicate[key];
+                  return (
+                    <label
+                      key={side}
+                      className={cn(
+                        'py-2 border-t flex items-center gap-2 min-w-0',
+                        value === side && 'font-medium',
+                        !conflicting && 'cursor-default',
+                      )}
+                    >
+                      {conflicting && <RadioGroupItem value={side} />}
+                      <span className={cn('truncate', !cellValue && 'text-muted-foreground')}>
+                        {cellValue ? String(cellValue) : '—'}
+                      </span>
+                    </label>
+                  );
+                })}
+              </RadioGroup>
+            );
+          })}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Appointments, funnel submissions, messages and workflow enrollments move to the kept contact.
+          Tags and custom fields are combined, and do-not-disturb on either record is kept.
+          The merge can be undone from Merge history.
+        </p>
+
+        <div className="flex justify-end">
+          <Button onClick={() => mergeMutation.mutate(pair)} disabled={mergeMutation.isPending}>
+            {mergeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Merge contacts
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setReviewing(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Duplicate contacts</DialogTitle>
+          <DialogDescription>
+            Contacts sharing an email or phone, scored on email, phone and name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="duplicates">
+          <TabsList>
+            <TabsTrigger value="duplicates">Duplicates{pairs.length > 0 && ` (${pairs.length})`}</TabsTrigger>
+            <TabsTrigger value="history">Merge history</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="duplicates" className="mt-4">
+            {lastMerge && !reviewing && (
+              <div className="mb-4 flex items-center justify-between rounded-md border bg-muted/50 px-3 py-2 text-sm">
+                <span>Merged {lastMerge.label}</span>
+                <Button size="sm" variant="ghost" onClick={() => undoMerge(lastMerge.id)} disabled={undoMutation.isPending}>
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Undo
+                </Button>
+              </div>
+            )}
+
+            {reviewing ? (
+              renderReview(reviewing)
+            ) : contactsLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : pairs.length === 0 ? (
+              <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+                <Users className="h-8 w-8" />
+                <p className="text-sm">No likely duplicates found</p>
+              </div>
+            ) : (
+              <ScrollArea className="h-[420px] pr-3">
+                <div className="space-y-2">
+                  {pairs.map((pair) => (
+                    <div
+                      key={`${pair.survivor.id}:${pair.duplicate.id}`}
+                      className="flex items-center gap-4 rounded-md border p-3"
+                    >
+                      <div className="grid flex-1 grid-cols-2 gap-4 min-w-0">
+                        {[pair.survivor, pair.duplicate].map((contact) => (
+                          <div key={contact.id} className="min-w-0">
+                            <p className="truncate text-sm font-medium">{getContactDisplayName(contact)}</p>
+                            <p className="truncate text-xs text-muted-foreground">{contactSummary(contact)}</p>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex shrink-0 flex-col items-end gap-1">
+                        <Badge variant={pair.score >= 80 ? 'default' : 'secondary'}>{pair.score}%</Badge>
+                        <span className="text-[11px] text-muted-foreground">
+                          {pair.reasons.map((reason) => REASON_LABELS[reason]).join(', ')}
+                        </span>
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => startReview(pair)}>
+                        Review
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="mt-4">
+            {mergesLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : merges.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">No merges yet</p>
+            ) : (
+              <ScrollArea className="h-[420px] pr-3">
+                <div className="space-y-2">
+                  {merges.map((merge) => (
+                    <div key={merge.id} className="flex items-center gap-4 rounded-md border p-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate text-sm">
+                          Merged <span className="font-medium">{getContactDisplayName(merge.duplicate_snapshot)}</span> into{' '}
+                          <span className="font-medium">{getContactDisplayName(merge.survivor_before)}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(merge.created_at), 'MMM d, yyyy h:mm a')}
+                          {merge.match_score != null && ` · ${merge.match_score}% match`}
+                          {merge.match_reasons.length > 0 &&
+                            ` · ${merge.match_reasons.map((reason) => REASON_LABELS[reason] || reason).join(', ')}`}
+                        </p>
+                      </div>
+                      {merge.undone_at ? (
+                        <Badge variant="outline">Undone {format(new Date(merge.undone_at), 'MMM d')}</Badge>
+                      ) : (
+                        <Button size="sm" variant="ghost" onClick={() => undoMerge(merge.id)} disabled={undoMutation.isPending}>
+                          <Undo2 className="h-4 w-4 mr-2" />
+                          Undo
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,631 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, Filter, Hash, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import {
+  fetchSegmentPage,
+  useCancelSegmentJob,
+  useContactSegmentJobs,
+  useContactSegments,
+  useCountContactSegment,
+  useDeleteContactSegment,
+  useSaveContactSegment,
+  useStartSegmentJob,
+  type ContactSegment,
+  type ContactSegmentJob,
+  type SegmentSource,
+} from '@/hooks/useContactSegments';
+import {
+  describeSegmentAction,
+  getSegmentFields,
+  validateSegment,
+  type SegmentActionType,
+  type SegmentContact,
+  type SegmentDefinition,
+} from '@/lib/contactSegments';
+import { getOperatorsForType, type OperatorDefinition } from '@/lib/automations/variableSchema';
+import { getContactDisplayName } from '@/lib/conversations';
+
+interface ContactSegmentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+}
+
+type SegmentDraft = SegmentDefinition & { id?: string };
+type SegmentCondition = SegmentDefinition['conditions'][number];
+
+type View =
+  | { type: 'list' }
+  | { type: 'edit'; draft: SegmentDraft }
+  | { type: 'detail'; segment: ContactSegment };
+
+const BULK_ACTIONS: { value: SegmentActionType; label: string }[] = [
+  { value: 'add_tag', label: 'Add tag' },
+  { value: 'remove_tag', label: 'Remove tag' },
+  { value: 'enroll', label: 'Enroll in workflow' },
+];
+
+const JOB_STATUS_VARIANTS: Record<ContactSegmentJob['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  cancelled: 'outline',
+};
+
+const NEW_CONDITION: SegmentCondition = { field: 'lead.tags', operator: 'contains', value: '' };
+
+function conditionSummary(segment: SegmentDefinition) {
+  const count = segment.conditions.length;
+  const logic = segment.condition_logic === 'OR' ? 'any' : 'all';
+  return `${count} condition${count === 1 ? '' : 's'} · match ${logic}`;
+}
+
+/** One page of live matches at a time; "Load more" continues from the returned cursor */
+function SegmentPreview({ teamId, source }: { teamId: string; source: SegmentSource }) {
+  const [contacts, setContacts] = useState<SegmentContact[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [started, setStarted] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = async (cursor: string | null) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchSegmentPage(teamId, source, cursor);
+      setContacts((prev) => (cursor ? [...prev, ...page.contacts] : page.contacts));
+      setNextCursor(page.nextCursor);
+      setStarted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Segment could not be evaluated");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!started) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-6">
+        <Button variant="outline" size="sm" onClick={() => loadPage(null)} disabled={loading}>
+          {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Preview matching contacts
+        </Button>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {contacts.length === 0 && !nextCursor ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">No contacts match this segment</p>
+      ) : (
+        <ScrollArea className="h-[240px] rounded-md border">
+          <div className="divide-y">
+            {contacts.map((contact) => (
+              <div key={contact.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium">{getContactDisplayName(contact)}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {[contact.email, contact.phone].filter(Boolean).join(' · ') || 'No email or phone'}
+                  </p>
+                </div>
+                <div className="flex max-w-[45%] flex-wrap justify-end gap-1">
+                  {(contact.tags || []).slice(0, 3).map((tag) => (
+                    <Badge key={tag} variant="secondary" className="text-[11px]">{tag}</Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{contacts.length} shown</span>
+        {nextCursor && (
+          <Button variant="ghost" size="sm" onClick={() => loadPage(nextCursor)} disabled={loading}>
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Load more
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+export function ContactSegmentsDialog({ open, onOpenChange, teamId }: ContactSegmentsDialogProps) {
+  const [view, setView] = useState<View>({ type: 'list' });
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const [previewDraft, setPreviewDraft] = useState<SegmentDefinition | null>(null);
+  const [bulkAction, setBulkAction] = useState<SegmentActionType>('add_tag');
+  const [bulkTag, setBulkTag] = useState('');
+  const [bulkWorkflowId, setBulkWorkflowId] = useState('');
+
+  const { data: segments = [], isLoading: segmentsLoading } = useContactSegments(open ? teamId : undefined);
+  const { data: jobs = [], isLoading: jobsLoading } = useContactSegmentJobs(teamId, open);
+  const { data: customFields = [] } = useCustomFields(open ? teamId : undefined);
+  const saveSegment = useSaveContactSegment(teamId);
+  const deleteSegment = useDeleteContactSegment(teamId);
+  const countSegment = useCountContactSegment(teamId);
+  const startJob = useStartSegmentJob(teamId);
+  const cancelJob = useCancelSegmentJob(teamId);
+
+  const { data: workflows = [] } = useQuery({
+    queryKey: ['automations', teamId, 'active'],
+    enabled: open && !!teamId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('automations')
+        .select('id, name')
+        .eq('team_id', teamId)
+        .eq('is_active', true)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const fields = useMemo(() => getSegmentFields(customFields), [customFields]);
+  const fieldGroups = useMemo(
+    () => [...new Set(fields.map((field) => field.group))].map((group) => ({
+      group,
+      fields: fields.filter((field) => field.group === group),
+    })),
+    [fields],
+  );
+
+  const getOperators = (fieldKey: string): OperatorDefinition[] =>
+    getOperatorsForType(fields.find((field) => field.key === fieldKey)?.type || 'string');
+
+  const openEditor = (segment?: ContactSegment) => {
+    setEditorError(null);
+    setPreviewDraft(null);
+    setView({
+      type: 'edit',
+      draft: segment
+        ? { id: segment.id, name: segment.name, condition_logic: segment.condition_logic, conditions: segment.conditions }
+        : { name: '', condition_logic: 'AND', conditions: [{ ...NEW_CONDITION }] },
+    });
+  };
+
+  const updateDraft = (update: Partial<SegmentDraft>) => {
+    if (view.type !== 'edit') return;
+    setPreviewDraft(null);
+    setView({ type: 'edit', draft: { ...view.draft, ...update } });
+  };
+
+  const updateCondition = (index: number, update: Partial<SegmentCondition>) => {
+    if (view.type !== 'edit') return;
+    updateDraft({
+      conditions: view.draft.conditions.map((condition, i) => (i === index ? { ...condition, ...update } : condition)),
+    });
+  };
+
+  const changeField = (index: number, fieldKey: string) => {
+    if (view.type !== 'edit') return;
+    const operators = getOperators(fieldKey);
+    const current = view.draft.conditions[index];
+    // Keep the operator (and value) when the new field supports it
+    const keep = operators.some((op) => op.value === current.operator);
+    updateCondition(index, {
+      field: fieldKey,
+      operator: keep ? current.operator : operators[0].value,
+      value: keep ? current.value : '',
+    });
+  };
+
+  const handlePreview = () => {
+    if (view.type !== 'edit') return;
+    const problem = validateSegment({ ...view.draft, name: view.draft.name || 'Preview' });
+    setEditorError(problem);
+    if (!problem) setPreviewDraft({ ...view.draft, name: view.draft.name || 'Preview' });
+  };
+
+  const handleSave = async () => {
+    if (view.type !== 'edit') return;
+    const draft = { ...view.draft, name: view.draft.name.trim() };
+    const problem = validateSegment(draft);
+    if (problem) {
+      setEditorError(problem);
+      return;
+    }
+    try {
+      const saved = await saveSegment.mutateAsync(draft);
+      setView({ type: 'detail', segment: saved });
+    } catch {
+      // The hook already shows the error
+    }
+  };
+
+  const handleDelete = (segment: ContactSegment) => {
+    if (!confirm(`Delete the segment "${segment.name}"? Bulk actions already running on it still finish.`)) return;
+    deleteSegment.mutate(segment.id);
+  };
+
+  const handleRunBulkAction = (segment: ContactSegment) => {
+    const workflow = workflows.find((w) => w.id === bulkWorkflowId);
+    const action = bulkAction === 'enroll'
+      ? { type: bulkAction, automationId: bulkWorkflowId, automationName: workflow?.name }
+      : { type: bulkAction, tag: bulkTag.trim() };
+    if (bulkAction === 'enroll' ? !bulkWorkflowId : !bulkTag.trim()) return;
+
+    const countHint = segment.last_count != null ? ` (${segment.last_count} at last count)` : '';
+    if (!confirm(`${describeSegmentAction(action)} for everyone in "${segment.name}"${countHint}? Contacts are evaluated as the job reaches them.`)) return;
+    startJob.mutate({ segmentId: segment.id, action }, {
+      onSuccess: () => setBulkTag(''),
+    });
+  };
+
+  const renderValueInput = (condition: SegmentCondition, index: number) => {
+    const operator = getOperators(condition.field).find((op) => op.value === condition.operator);
+    if (operator && !operator.requiresValue) return null;
+    // List operators (between, contains any of) take comma-separated values
+    const isList = operator?.valueType === 'array';
+    return (
+      <Input
+        className="flex-1"
+        placeholder={isList ? 'Values, comma-separated' : 'Value'}
+        value={Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value ?? '')}
+        onChange={(e) =>
+          updateCondition(index, {
+            value: isList ? e.target.value.split(',').map((item) => item.trim()) : e.target.value,
+          })
+        }
+      />
+    );
+  };
+
+  const renderEditor = (draft: SegmentDraft) => (
+    <div className="space-y-4">
+      <Button variant="ghost" size="sm" onClick={() => setView({ type: 'list' })}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        All segments
+      </Button>
+
+      <div className="grid grid-cols-[1fr_180px] gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="segment-name">Name</Label>
+          <Input
+            id="segment-name"
+            value={draft.name}
+            onChange={(e) => updateDraft({ name: e.target.value })}
+            placeholder="High budget, no call booked"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Match</Label>
+          <Select
+            value={draft.condition_logic}
+            onValueChange={(value) => updateDraft({ condition_logic: value as 'AND' | 'OR' })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="AND">All conditions</SelectItem>
+              <SelectItem value="OR">Any condition</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Conditions</Label>
+        {draft.conditions.map((condition, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Select value={condition.field} onValueChange={(value) => changeField(index, value)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Field" />
+              </SelectTrigger>
+              <SelectContent>
+                {fieldGroups.map(({ group, fields: groupFields }) => (
+                  <SelectGroup key={group}>
+                    <SelectLabel>{group}</SelectLabel>
+                    {groupFields.map((field) => (
+                      <SelectItem key={field.key} value={field.key}>
+                        {field.label}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+                {!fields.some((field) => field.key === condition.field) && (
+                  <SelectItem value={condition.field}>{condition.field}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            <Select value={condition.operator} onValueChange={(value) => updateCondition(index, { operator: value })}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Operator" />
+              </SelectTrigger>
+              <SelectContent>
+                {getOperators(condition.field).map((op) => (
+                  <SelectItem key={op.value} value={op.value}>
+                    {op.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {renderValueInput(condition, index) || <div className="flex-1" />}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => updateDraft({ conditions: draft.conditions.filter((_, i) => i !== index) })}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => updateDraft({ conditions: [...draft.conditions, { ...NEW_CONDITION }] })}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add condition
+        </Button>
+      </div>
+
+      {editorError && <p className="text-sm text-destructive">{editorError}</p>}
+
+      {previewDraft ? (
+        <SegmentPreview key={JSON.stringify(previewDraft)} teamId={teamId} source={{ segment: previewDraft }} />
+      ) : null}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={handlePreview}>
+          Preview
+        </Button>
+        <Button onClick={handleSave} disabled={saveSegment.isPending}>
+          {saveSegment.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save segment
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderDetail = (segment: ContactSegment) => (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" size="sm" onClick={() => setView({ type: 'list' })}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          All segments
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openEditor(segment)}>
+          <Pencil className="h-4 w-4 mr-2" />
+          Edit
+        </Button>
+      </div>
+
+      <div>
+        <p className="font-medium">{segment.name}</p>
+        <p className="text-xs text-muted-foreground">{conditionSummary(segment)}</p>
+      </div>
+
+      <SegmentPreview key={`${segment.id}:${segment.updated_at}`} teamId={teamId} source={{ segmentId: segment.id }} />
+
+      <div className="space-y-2 rounded-md border p-3">
+        <Label>Bulk action</Label>
+        <div className="flex items-center gap-2">
+          <Select value={bulkAction} onValueChange={(value) => setBulkAction(value as SegmentActionType)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BULK_ACTIONS.map((action) => (
+                <SelectItem key={action.value} value={action.value}>
+                  {action.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {bulkAction === 'enroll' ? (
+            <Select value={bulkWorkflowId} onValueChange={setBulkWorkflowId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder={workflows.length ? 'Choose an active workflow' : 'No active workflows'} />
+              </SelectTrigger>
+              <SelectContent>
+                {workflows.map((workflow) => (
+                  <SelectItem key={workflow.id} value={workflow.id}>
+                    {workflow.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              className="flex-1"
+              value={bulkTag}
+              onChange={(e) => setBulkTag(e.target.value)}
+              placeholder="Tag"
+            />
+          )}
+          <Button
+            onClick={() => handleRunBulkAction(segment)}
+            disabled={startJob.isPending || (bulkAction === 'enroll' ? !bulkWorkflowId : !bulkTag.trim())}
+          >
+            {startJob.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Run
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Runs in the background on everyone matching when the job reaches them. Enrolling follows the
+          workflow's re-enrollment settings, so contacts already in it are skipped.
+        </p>
+      </div>
+    </div>
+  );
+
+  const renderList = () => (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => openEditor()}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New segment
+        </Button>
+      </div>
+      {segmentsLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : segments.length === 0 ? (
+        <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+          <Filter className="h-8 w-8" />
+          <p className="text-sm">No segments yet. Save a filter to reuse it for bulk actions and enrollments.</p>
+        </div>
+      ) : (
+        <ScrollArea className="h-[400px] pr-3">
+          <div className="space-y-2">
+            {segments.map((segment) => (
+              <div key={segment.id} className="flex items-center gap-3 rounded-md border p-3">
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => setView({ type: 'detail', segment })}
+                >
+                  <p className="truncate text-sm font-medium">{segment.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {conditionSummary(segment)}
+                    {segment.last_counted_at &&
+                      ` · counted ${format(new Date(segment.last_counted_at), 'MMM d, h:mm a')}`}
+                  </p>
+                </button>
+                {segment.last_count != null && <Badge variant="secondary">{segment.last_count}</Badge>}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => countSegment.mutate(segment.id)}
+                  disabled={countSegment.isPending && countSegment.variables === segment.id}
+                >
+                  {countSegment.isPending && countSegment.variables === segment.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Hash className="h-4 w-4" />
+                  )}
+                  <span className="ml-1">Count</span>
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => openEditor(segment)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(segment)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setView({ type: 'list' });
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Segments</DialogTitle>
+          <DialogDescription>
+            Saved contact filters using workflow condition operators, evaluated live when you open them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="segments">
+          <TabsList>
+            <TabsTrigger value="segments">Segments{segments.length > 0 && ` (${segments.length})`}</TabsTrigger>
+            <TabsTrigger value="jobs">Bulk actions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="segments" className="mt-4">
+            {view.type === 'edit'
+              ? renderEditor(view.draft)
+              : view.type === 'detail'
+                ? renderDetail(segments.find((segment) => segment.id === view.segment.id) || view.segment)
+                : renderList()}
+          </TabsContent>
+
+          <TabsContent value="jobs" className="mt-4">
+            {jobsLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : jobs.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">No bulk actions yet</p>
+            ) : (
+              <ScrollArea className="h-[420px] pr-3">
+                <div className="space-y-2">
+                  {jobs.map((job) => (
+                    <div key={job.id} className="flex items-center gap-4 rounded-md border p-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate text-sm">
+                          {describeSegmentAction({ ...job.action_config, type: job.action_type })} ·{' '}
+                          <span className="font-medium">{job.segment_snapshot?.name}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(job.created_at), 'MMM d, yyyy h:mm a')} · {job.applied_count} applied,{' '}
+                          {job.skipped_count} skipped
+                          {job.failed_count > 0 && `, ${job.failed_count} failed`} of {job.matched_count} matched
+                        </p>
+                        {job.error_message && <p className="text-xs text-destructive">{job.error_message}</p>}
+                      </div>
+                      <Badge variant={JOB_STATUS_VARIANTS[job.status]}>{job.status}</Badge>
+                      {(job.status === 'pending' || job.status === 'running') && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => cancelJob.mutate(job.id)}
+                          disabled={cancelJob.isPending}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -59,6 +59,7 @@ interface FunnelLead {
   utm_source: string | null;
   utm_medium: string | null;
   utm_campaign: string | null;
+  hidden_fields?: Record<string, string> | null;
   funnel: { id: string; name: string } | null;
 }
 
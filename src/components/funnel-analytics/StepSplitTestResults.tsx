@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Crown, FlaskConical, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { MIN_VISITORS_PER_VARIANT, type VariantResult } from '@/funnel-builder-v3/lib/split-test';
+import {
+  useFunnelSplitTests,
+  usePromoteStepVariant,
+  type StepSplitTestReport,
+} from '@/hooks/useFunnelSplitTests';
+
+interface StepSplitTestResultsProps {
+  funnelId: string;
+}
+
+function formatPercent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatLift(lift: number | null) {
+  if (lift === null) return '—';
+  return `${lift >= 0 ? '+' : ''}${(lift * 100).toFixed(1)}%`;
+}
+
+function confidenceLabel(variant: VariantResult) {
+  if (variant.pValue === null) return 'Baseline';
+  return `${Math.max(0, (1 - variant.pValue) * 100).toFixed(1)}%`;
+}
+
+function SplitTestCard({
+  report,
+  onPromote,
+}: {
+  report: StepSplitTestReport;
+  onPromote: (variant: VariantResult) => void;
+}) {
+  const { results } = report;
+  const winner = results.variants.find(v => v.variantId === results.winnerId);
+
+  return (
+    <div className="bg-card border rounded-lg overflow-hidden">
+      <div className="p-4 border-b flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <FlaskConical className="h-4 w-4 text-muted-foreground" />
+            {report.stepName}
+          </h3>
+          <p className="text-sm text-muted-foreground mt-1">
+            {winner
+              ? `${winner.name} is the winner`
+              : results.hasEnoughData
+                ? 'No significant difference yet'
+                : `Collecting data — each variant needs ${MIN_VISITORS_PER_VARIANT} visitors`}
+          </p>
+        </div>
+        {winner && (
+          <Button size="sm" onClick={() => onPromote(winner)}>
+            <Crown className="h-4 w-4 mr-2" />
+            Promote {winner.name}
+          </Button>
+        )}
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Variant</TableHead>
+            <TableHead className="text-right">Visitors</TableHead>
+            <TableHead className="text-right">Conversions</TableHead>
+            <TableHead className="text-right">Rate (95% CI)</TableHead>
+            <TableHead className="text-right">Lift</TableHead>
+            <TableHead className="text-right">Confidence</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {results.variants.map(variant => (
+            <TableRow
+              key={variant.variantId}
+              className={cn(variant.variantId === results.winnerId && 'bg-emerald-500/5')}
+            >
+              <TableCell className="font-medium">
+                <span className="flex items-center gap-2">
+                  {variant.name}
+                  {variant.isControl && <Badge variant="outline" className="text-[10px]">Control</Badge>}
+                  {variant.variantId === results.winnerId && (
+                    <Badge className="text-[10px] bg-emerald-600 hover:bg-emerald-600">Winner</Badge>
+                  )}
+                </span>
+              </TableCell>
+              <TableCell className="text-right">{variant.visitors}</TableCell>
+              <TableCell className="text-right">{variant.conversions}</TableCell>
+              <TableCell className="text-right">
+                {formatPercent(variant.rate)}
+                <span className="text-xs text-muted-foreground ml-1">
+                  ({formatPercent(variant.interval.low)}–{formatPercent(variant.interval.high)})
+                </span>
+              </TableCell>
+              <TableCell
+                className={cn(
+                  'text-right',
+                  variant.significant && variant.lift !== null && (variant.lift >= 0 ? 'text-emerald-600' : 'text-destructive')
+                )}
+              >
+                {formatLift(variant.lift)}
+              </TableCell>
+              <TableCell className="text-right">{confidenceLabel(variant)}</TableCell>
+              <TableCell className="text-right">
+                {variant.variantId !== results.winnerId && (
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onPromote(variant)}>
+                    Promote
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/** Per-variant conversion for every split-tested step of a published v3 funnel */
+export function StepSplitTestResults({ funnelId }: StepSplitTestResultsProps) {
+  const { data: reports, isLoading } = useFunnelSplitTests(funnelId);
+  const promote = usePromoteStepVariant();
+  const [pending, setPending] = useState<{ report: StepSplitTestReport; variant: VariantResult } | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="bg-card border rounded-lg p-8 flex justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!reports?.length) return null;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold">Split tests</h2>
+      {reports.map(report => (
+        <SplitTestCard
+          key={report.stepId}
+          report={report}
+          onPromote={variant => setPending({ report, variant })}
+        />
+      ))}
+
+      <AlertDialog open={!!pending} onOpenChange={open => !open && setPending(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Promote {pending?.variant.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every visitor to "{pending?.report.stepName}" will see this variant and the test ends.
+              {pending && pending.variant.variantId !== pending.report.results.winnerId &&
+                ' This variant is not a statistically significant winner.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (!pending) return;
+                promote.mutate({
+                  funnelId,
+                  stepId: pending.report.stepId,
+                  variantId: pending.variant.variantId,
+                });
+                setPending(null);
+              }}
+            >
+              Promote
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -31,6 +31,7 @@ interface FunnelLead {
   utm_source: string | null;
   utm_medium: string | null;
   utm_campaign: string | null;
+  hidden_fields?: Record<string, string> | null;
   funnel?: { id: string; name: string } | null;
 }
 
@@ -43,6 +44,10 @@ export function SubmissionDetailDrawer({ submission, onClose }: SubmissionDetail
   if (!submission) return null;
 
   const isComplete = submission.name && submission.email;
+  // utm_source/medium/campaign are already shown under UTM Tracking
+  const hiddenFields = Object.entries(submission.hidden_fields || {}).filter(
+    ([key]) => !['utm_source', 'utm_medium', 'utm_campaign'].includes(key)
+  );
 
   return (
     <Sheet open={!!submission} onOpenChange={() => onClose()}>
@@ -186,6 +191,24 @@ export function SubmissionDetailDrawer({ submission, onClose }: SubmissionDetail
             </>
           )}
 
+          {/* Hidden fields (click IDs, referrer, custom params) */}
+          {hiddenFields.length > 0 && (
+            <>
+              <Separator />
+              <section>
+                <h3 className="text-sm font-medium text-muted-foreground mb-3">Hidden Fields</h3>
+                <div className="space-y-2">
+                  {hiddenFields.map(([key, value]) => (
+                    <div key={key} className="flex items-start gap-3 text-sm">
+                      <span className="text-muted-foreground font-mono shrink-0">{key}</span>
+                      <span className="break-all">{value}</span>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+
           <Separator />
 
           {/* ID for debugging */}
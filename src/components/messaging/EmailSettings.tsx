@@ -7,10 +7,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
-import { Mail, Plus, CheckCircle, Clock, AlertCircle, Trash2, Globe, Sparkles, Shield } from "lucide-react";
+import { Mail, Plus, CheckCircle, Clock, AlertCircle, Trash2, Globe, Sparkles, Shield, Ban, Search } from "lucide-react";
 import { toast } from "sonner";
 import { AddDomainDialog } from "./AddDomainDialog";
 import { DomainDnsDialog } from "./DomainDnsDialog";
+import { normalizeEmail, SUPPRESSION_REASON_LABELS, type SuppressionReason } from "@/lib/emailSuppression";
 
 interface EmailSettingsProps {
   teamId: string;
@@ -35,11 +36,23 @@ interface SendingDomain {
   last_email_at?: string | null;
 }
 
+interface EmailSuppressionRow {
+  id: string;
+  email: string;
+  reason: SuppressionReason;
+  source: string;
+  created_at: string;
+}
+
+const SUPPRESSION_LIST_LIMIT = 200;
+
 export function EmailSettings({ teamId }: EmailSettingsProps) {
   const queryClient = useQueryClient();
   const [addDomainOpen, setAddDomainOpen] = useState(false);
   const [selectedDomain, setSelectedDomain] = useState<SendingDomain | null>(null);
   const [dnsDialogOpen, setDnsDialogOpen] = useState(false);
+  const [suppressionSearch, setSuppressionSearch] = useState("");
+  const [newSuppression, setNewSuppression] = useState("");
 
   // Fetch team email settings
   const { data: teamSettings, isLoading: settingsLoading } = useQuery({
@@ -113,6 +126,84 @@ export function EmailSettings({ teamId }: EmailSettingsProps) {
     },
   });
 
+  // Fetch suppression list (newest first, filtered server-side)
+  const { data: suppressions, isLoading: suppressionsLoading } = useQuery({
+    queryKey: ["team-email-suppressions", teamId, suppressionSearch],
+    queryFn: async () => {
+      let query = supabase
+        .from("email_suppressions")
+        .select("id, email, reason, source, created_at")
+        .eq("team_id", teamId)
+        .order("created_at", { ascending: false })
+        .limit(SUPPRESSION_LIST_LIMIT);
+
+      if (suppressionSearch.trim()) {
+        query = query.ilike("email", `%${suppressionSearch.trim().toLowerCase()}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as EmailSuppressionRow[];
+    },
+  });
+
+  // Add an address by hand
+  const addSuppression = useMutation({
+    mutationFn: async (email: string) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("email_suppressions")
+        .insert({
+          team_id: teamId,
+          email: normalizeEmail(email),
+          reason: "manual",
+          source: "manual",
+          created_by: user?.id || null,
+        });
+
+      if (error) {
+        if (error.code === "23505") throw new Error("That address is already suppressed");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      setNewSuppression("");
+      queryClient.invalidateQueries({ queryKey: ["team-email-suppressions", teamId] });
+      toast.success("Address suppressed");
+    },
+    onError: (error) => {
+      toast.error("Failed to suppress address: " + error.message);
+    },
+  });
+
+  // Remove an address so it can be emailed again
+  const removeSuppression = useMutation({
+    mutationFn: async (suppressionId: string) => {
+      const { error } = await supabase
+        .from("email_suppressions")
+        .delete()
+        .eq("id", suppressionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["team-email-suppressions", teamId] });
+      toast.success("Address removed from suppression list");
+    },
+    onError: (error) => {
+      toast.error("Failed to remove address: " + error.message);
+    },
+  });
+
+  const handleAddSuppression = () => {
+    const email = newSuppression.trim();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      toast.error("Enter a valid email address");
+      return;
+    }
+    addSuppression.mutate(email);
+  };
+
   const getStatusBadge = (status: SendingDomain["status"]) => {
     switch (status) {
       case "verified":
@@ -360,6 +451,95 @@ export function EmailSettings({ teamId }: EmailSettingsProps) {
         </CardContent>
       </Card>
 
+      {/* Suppression List */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 rounded-xl bg-muted">
+              <Ban className="h-5 w-5 text-muted-foreground" />
+            </div>
+            <div>
+              <CardTitle className="text-lg">Suppression List</CardTitle>
+              <CardDescription>
+                Hard bounces, spam complaints and unsubscribes are added automatically. Emails to these addresses are never sent or charged.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search addresses"
+                value={suppressionSearch}
+                onChange={(e) => setSuppressionSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <div className="flex gap-2 sm:w-1/2">
+              <Input
+                type="email"
+                placeholder="someone@example.com"
+                value={newSuppression}
+                onChange={(e) => setNewSuppression(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddSuppression()}
+              />
+              <Button onClick={handleAddSuppression} disabled={addSuppression.isPending || !newSuppression.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {suppressionsLoading ? (
+            <div className="text-center py-6 text-muted-foreground">Loading suppression list...</div>
+          ) : suppressions && suppressions.length > 0 ? (
+            <div className="divide-y rounded-lg border">
+              {suppressions.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between px-4 py-3">
+                  <div>
+                    <p className="font-mono text-sm">{entry.email}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(entry.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.reason === "manual" ? "secondary" : "outline"}>
+                      {SUPPRESSION_REASON_LABELS[entry.reason] || entry.reason}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => {
+                        const warning = entry.reason === "manual"
+                          ? `Remove ${entry.email} from the suppression list?`
+                          : `${entry.email} was suppressed automatically (${SUPPRESSION_REASON_LABELS[entry.reason]}). Only remove it if the recipient asked to receive emails again. Continue?`;
+                        if (confirm(warning)) {
+                          removeSuppression.mutate(entry.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-6 text-sm text-muted-foreground">
+              {suppressionSearch.trim() ? "No suppressed addresses match your search" : "No suppressed addresses"}
+            </p>
+          )}
+          {suppressions && suppressions.length === SUPPRESSION_LIST_LIMIT && (
+            <p className="text-xs text-muted-foreground">
+              Showing the {SUPPRESSION_LIST_LIMIT} most recent entries. Search to find older ones.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       <AddDomainDialog
         open={addDomainOpen}
         onOpenChange={setAddDomainOpen}
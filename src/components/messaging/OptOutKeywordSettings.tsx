@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_AUTO_REPLIES,
+  DEFAULT_KEYWORDS,
+  SUPPORTED_KEYWORD_LANGUAGES,
+  normalizeKeywordSettings,
+  type KeywordAction,
+  type KeywordSettings,
+} from "@/lib/messagingConsent";
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  pt: "Portuguese",
+};
+
+const ACTIONS: { value: KeywordAction; label: string; description: string }[] = [
+  { value: "stop", label: "Opt-out", description: "Adds DND and blocks all further SMS / WhatsApp" },
+  { value: "start", label: "Opt-in", description: "Lifts an earlier opt-out" },
+  { value: "help", label: "Help", description: "Replies with instructions only" },
+];
+
+interface OptOutKeywordSettingsProps {
+  teamId: string;
+}
+
+export function OptOutKeywordSettings({ teamId }: OptOutKeywordSettingsProps) {
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useState<KeywordSettings>(() => normalizeKeywordSettings(null));
+  const [editingLanguage, setEditingLanguage] = useState("en");
+
+  const { data: savedSettings, isLoading } = useQuery({
+    queryKey: ["messaging-keyword-settings", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("messaging_keyword_settings")
+        .select("languages, custom_keywords, auto_reply_enabled, auto_replies")
+        .eq("team_id", teamId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return normalizeKeywordSettings(data);
+    },
+  });
+
+  useEffect(() => {
+    if (savedSettings) setSettings(savedSettings);
+  }, [savedSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (next: KeywordSettings) => {
+      const { error } = await supabase
+        .from("messaging_keyword_settings")
+        .upsert({ team_id: teamId, ...next }, { onConflict: "team_id" });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Keyword settings saved");
+      queryClient.invalidateQueries({ queryKey: ["messaging-keyword-settings", teamId] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to save keyword settings: " + error.message);
+    },
+  });
+
+  const toggleLanguage = (language: string, enabled: boolean) => {
+    if (!enabled && editingLanguage === language) setEditingLanguage("en");
+    setSettings((prev) => ({
+      ...prev,
+      languages: enabled
+        ? [...prev.languages, language]
+        : prev.languages.filter((l) => l !== language),
+    }));
+  };
+
+  const setCustomKeywords = (action: KeywordAction, value: string) => {
+    // Empty entries are kept while typing and dropped by normalizeKeywordSettings on save
+    const words = value.split(",").map((w) => w.trimStart().toUpperCase());
+    setSettings((prev) => ({
+      ...prev,
+      custom_keywords: {
+        ...prev.custom_keywords,
+        [editingLanguage]: { ...prev.custom_keywords[editingLanguage], [action]: words },
+      },
+    }));
+  };
+
+  const setAutoReply = (action: KeywordAction, value: string) => {
+    setSettings((prev) => ({
+      ...prev,
+      auto_replies: {
+        ...prev.auto_replies,
+        [editingLanguage]: { ...prev.auto_replies[editingLanguage], [action]: value },
+      },
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-emerald-600" />
+          Opt-out Keywords
+        </CardTitle>
+        <CardDescription>
+          Replies that are exactly one of these words opt the sender out of (or back into) SMS and WhatsApp.
+          Every opt-out is recorded and no message is sent to that number until they opt back in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Languages</Label>
+          <div className="flex flex-wrap gap-4">
+            {SUPPORTED_KEYWORD_LANGUAGES.map((language) => (
+              <label key={language} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={language === "en" || settings.languages.includes(language)}
+                  disabled={language === "en"}
+                  onCheckedChange={(checked) => toggleLanguage(language, checked === true)}
+                />
+                {LANGUAGE_LABELS[language] || language}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">English keywords are always recognised.</p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label className="text-sm font-medium">Auto-reply</Label>
+            <p className="text-xs text-muted-foreground">Confirm each keyword with a reply in the sender's language</p>
+          </div>
+          <Switch
+            checked={settings.auto_reply_enabled}
+            onCheckedChange={(checked) => setSettings((prev) => ({ ...prev, auto_reply_enabled: checked }))}
+          />
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Label className="text-sm font-medium">Keywords for</Label>
+            <Select value={editingLanguage} onValueChange={setEditingLanguage}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(new Set(["en", ...settings.languages])).map((language) => (
+                  <SelectItem key={language} value={language}>
+                    {LANGUAGE_LABELS[language] || language}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {ACTIONS.map((action) => (
+            <div key={action.value} className="p-4 rounded-lg border border-border space-y-3">
+              <div>
+                <p className="text-sm font-medium">{action.label}</p>
+                <p className="text-xs text-muted-foreground">{action.description}</p>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {(DEFAULT_KEYWORDS[editingLanguage]?.[action.value] || []).map((word) => (
+                  <Badge key={word} variant="secondary" className="font-mono text-xs">
+                    {word}
+                  </Badge>
+                ))}
+              </div>
+              <div>
+                <Label className="text-xs text-muted-foreground">Extra keywords (comma separated)</Label>
+                <Input
+                  value={(settings.custom_keywords[editingLanguage]?.[action.value] || []).join(",")}
+                  onChange={(e) => setCustomKeywords(action.value, e.target.value)}
+                  placeholder="e.g. NO MORE"
+                />
+              </div>
+              {settings.auto_reply_enabled && (
+                <div>
+                  <Label className="text-xs text-muted-foreground">Auto-reply</Label>
+                  <Textarea
+                    rows={2}
+                    value={settings.auto_replies[editingLanguage]?.[action.value] || ""}
+                    onChange={(e) => setAutoReply(action.value, e.target.value)}
+                    placeholder={DEFAULT_AUTO_REPLIES[editingLanguage]?.[action.value]}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate(normalizeKeywordSettings(settings))}
+            disabled={saveMutation.isPending}
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Keywords
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Phone, Plus, MessageSquare, Volume2, Star, MoreHorizontal, Trash2, Loader2 } from "lucide-react";
 import { PhoneNumberMarketplace } from "./PhoneNumberMarketplace";
+import { OptOutKeywordSettings } from "./OptOutKeywordSettings";
 import { toast } from "sonner";
 
 interface PhoneSettingsProps {
@@ -245,6 +246,8 @@ export function PhoneSettings({ teamId }: PhoneSettingsProps) {
         </CardContent>
       </Card>
 
+      <OptOutKeywordSettings teamId={teamId} />
+
       <PhoneNumberMarketplace
         open={marketplaceOpen}
         onOpenChange={setMarketplaceOpen}
@@ -1,5 +1,6 @@
 // src/components/scheduling/AvailabilitySettings.tsx
-// Weekly availability grid with time pickers, timezone selector, and date overrides
+// Weekly availability grid with time pickers, timezone selector, and date overrides.
+// Each day and override date can have several time windows (e.g. 9-12 and 14-19).
 
 import { useState, useEffect } from "react";
 import { useParams } from "react-router-dom";
@@ -24,10 +25,15 @@ import { Skeleton } from "@/components/ui/skeleton";
 import {
   useAvailabilitySchedules,
   useUpdateAvailability,
+  useAddAvailabilityWindow,
+  useDeleteAvailabilityWindow,
   useAvailabilityOverrides,
   useCreateOverride,
   useDeleteOverride,
   DAY_NAMES,
+  type AvailabilityOverride,
+  type AvailabilitySchedule,
+  type TimeWindow,
 } from "@/hooks/useAvailability";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
@@ -52,30 +58,85 @@ const TIMEZONES = [
   "Pacific/Auckland",
 ];
 
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + (m || 0);
+};
+
+const toTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+/** A window starting an hour after the last one ends, e.g. 09:00-12:00 → 13:00-15:00 */
+function suggestNextWindow(windows: TimeWindow[]): TimeWindow {
+  if (windows.length === 0) return { start_time: "09:00", end_time: "17:00" };
+  const lastEnd = Math.max(...windows.map((w) => toMinutes(w.end_time)));
+  const start = Math.min(lastEnd + 60, 22 * 60);
+  return { start_time: toTime(start), end_time: toTime(Math.min(start + 120, 23 * 60 + 45)) };
+}
+
+const formatWindow = (w: { start_time: string | null; end_time: string | null }) =>
+  `${w.start_time?.slice(0, 5)} - ${w.end_time?.slice(0, 5)}`;
+
 export default function AvailabilitySettings() {
   const { teamId } = useParams();
   const { user } = useAuth();
   const [overrideDate, setOverrideDate] = useState<Date | undefined>();
   const [overrideDialogOpen, setOverrideDialogOpen] = useState(false);
   const [overrideAvailable, setOverrideAvailable] = useState(false);
-  const [overrideStart, setOverrideStart] = useState("09:00");
-  const [overrideEnd, setOverrideEnd] = useState("17:00");
+  const [overrideWindows, setOverrideWindows] = useState<TimeWindow[]>([{ start_time: "09:00", end_time: "17:00" }]);
   const [overrideReason, setOverrideReason] = useState("");
 
   const { data: schedules, isLoading: schedulesLoading } = useAvailabilitySchedules(teamId, true); // teamWide = true
   const { data: overrides, isLoading: overridesLoading } = useAvailabilityOverrides(teamId, true); // teamWide = true
   const updateAvailability = useUpdateAvailability(teamId, true); // teamWide = true
+  const addWindow = useAddAvailabilityWindow(teamId, true); // teamWide = true
+  const deleteWindow = useDeleteAvailabilityWindow(teamId);
   const createOverride = useCreateOverride(teamId, true); // teamWide = true
   const deleteOverride = useDeleteOverride(teamId);
 
-  const handleToggleDay = (schedule: any) => {
-    updateAvailability.mutate({
-      id: schedule.id,
-      is_available: !schedule.is_available,
+  const currentTimezone = schedules?.[0]?.timezone || "America/New_York";
+
+  // One entry per weekday with that day's windows, earliest first
+  const days = DAY_NAMES.map((name, dayOfWeek) => {
+    const windows = (schedules || [])
+      .filter((s) => s.day_of_week === dayOfWeek)
+      .sort((a, b) => a.start_time.localeCompare(b.start_time));
+    return { name, dayOfWeek, windows, isAvailable: windows.some((w) => w.is_available) };
+  });
+
+  // Override rows grouped by date - each row is one window (or the day off)
+  const overrideDates = Object.values(
+    (overrides || []).reduce<Record<string, AvailabilityOverride[]>>((acc, override) => {
+      (acc[override.date] ||= []).push(override);
+      return acc;
+    }, {})
+  ).sort((a, b) => a[0].date.localeCompare(b[0].date));
+
+  const handleToggleDay = (day: (typeof days)[number]) => {
+    if (day.windows.length === 0) {
+      addWindow.mutate({
+        day_of_week: day.dayOfWeek,
+        ...suggestNextWindow([]),
+        is_available: true,
+        timezone: currentTimezone,
+      });
+      return;
+    }
+    day.windows.forEach((w) => {
+      updateAvailability.mutate({ id: w.id, is_available: !day.isAvailable });
     });
   };
 
-  const handleTimeChange = (schedule: any, field: "start_time" | "end_time", value: string) => {
+  const handleAddWindow = (day: (typeof days)[number]) => {
+    addWindow.mutate({
+      day_of_week: day.dayOfWeek,
+      ...suggestNextWindow(day.windows),
+      is_available: true,
+      timezone: currentTimezone,
+    });
+  };
+
+  const handleTimeChange = (schedule: AvailabilitySchedule, field: "start_time" | "end_time", value: string) => {
     updateAvailability.mutate({
       id: schedule.id,
       [field]: value,
@@ -94,21 +155,24 @@ export default function AvailabilitySettings() {
     if (!overrideDate || !teamId) return;
 
     createOverride.mutate({
-      team_id: teamId,
-      user_id: null, // Team-wide override
       date: format(overrideDate, "yyyy-MM-dd"),
       is_available: overrideAvailable,
-      start_time: overrideAvailable ? overrideStart : null,
-      end_time: overrideAvailable ? overrideEnd : null,
+      windows: overrideWindows,
       reason: overrideReason || null,
-    } as any);
+    });
 
     setOverrideDialogOpen(false);
     setOverrideDate(undefined);
     setOverrideReason("");
   };
 
-  const currentTimezone = schedules?.[0]?.timezone || "America/New_York";
+  const updateOverrideWindow = (index: number, field: keyof TimeWindow, value: string) => {
+    setOverrideWindows((windows) => windows.map((w, i) => (i === index ? { ...w, [field]: value } : w)));
+  };
+
+  const overrideWindowsValid =
+    !overrideAvailable ||
+    (overrideWindows.length > 0 && overrideWindows.every((w) => toMinutes(w.end_time) > toMinutes(w.start_time)));
 
   if (schedulesLoading) {
     return (
@@ -160,42 +224,64 @@ export default function AvailabilitySettings() {
           <CardDescription>Set the team's regular working hours for each day of the week. These hours apply to all calendars.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-3">
-          {(schedules || [])
-            .sort((a, b) => a.day_of_week - b.day_of_week)
-            .map((schedule) => (
-              <div
-                key={schedule.id}
-                className="flex items-center gap-4 p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
-              >
-                <Switch
-                  checked={schedule.is_available}
-                  onCheckedChange={() => handleToggleDay(schedule)}
-                />
-                <span className="w-24 font-medium text-sm">
-                  {DAY_NAMES[schedule.day_of_week]}
-                </span>
-
-                {schedule.is_available ? (
-                  <div className="flex items-center gap-2 flex-1">
-                    <Input
-                      type="time"
-                      value={schedule.start_time}
-                      onChange={(e) => handleTimeChange(schedule, "start_time", e.target.value)}
-                      className="w-32 text-sm"
-                    />
-                    <span className="text-muted-foreground text-sm">to</span>
-                    <Input
-                      type="time"
-                      value={schedule.end_time}
-                      onChange={(e) => handleTimeChange(schedule, "end_time", e.target.value)}
-                      className="w-32 text-sm"
-                    />
-                  </div>
-                ) : (
-                  <span className="text-muted-foreground text-sm flex-1">Unavailable</span>
-                )}
-              </div>
-            ))}
+          {days.map((day) => (
+            <div
+              key={day.dayOfWeek}
+              className="flex items-start gap-4 p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+            >
+              <Switch
+                checked={day.isAvailable}
+                onCheckedChange={() => handleToggleDay(day)}
+                className="mt-2"
+              />
+              <span className="w-24 font-medium text-sm mt-2">
+                {day.name}
+              </span>
+
+              {day.isAvailable ? (
+                <div className="flex-1 space-y-2">
+                  {day.windows.map((schedule) => (
+                    <div key={schedule.id} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={schedule.start_time}
+                        onChange={(e) => handleTimeChange(schedule, "start_time", e.target.value)}
+                        className="w-32 text-sm"
+                      />
+                      <span className="text-muted-foreground text-sm">to</span>
+                      <Input
+                        type="time"
+                        value={schedule.end_time}
+                        onChange={(e) => handleTimeChange(schedule, "end_time", e.target.value)}
+                        className="w-32 text-sm"
+                      />
+                      {day.windows.length > 1 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => deleteWindow.mutate(schedule.id)}
+                        >
+                          <Trash2 className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => handleAddWindow(day)}
+                  >
+                    <Plus className="h-3.5 w-3.5 mr-1" />
+                    Add hours
+                  </Button>
+                </div>
+              ) : (
+                <span className="text-muted-foreground text-sm flex-1 mt-2">Unavailable</span>
+              )}
+            </div>
+          ))}
         </CardContent>
       </Card>
 
@@ -212,8 +298,7 @@ export default function AvailabilitySettings() {
               onClick={() => {
                 setOverrideDialogOpen(true);
                 setOverrideAvailable(false);
-                setOverrideStart("09:00");
-                setOverrideEnd("17:00");
+                setOverrideWindows([{ start_time: "09:00", end_time: "17:00" }]);
                 setOverrideReason("");
               }}
             >
@@ -225,44 +310,46 @@ export default function AvailabilitySettings() {
         <CardContent>
           {overridesLoading ? (
             <Skeleton className="h-20 w-full" />
-          ) : !overrides || overrides.length === 0 ? (
+          ) : overrideDates.length === 0 ? (
             <p className="text-sm text-muted-foreground text-center py-6">
               No date overrides set. Add one to block a day off or set custom hours.
             </p>
           ) : (
             <div className="space-y-2">
-              {overrides.map((override) => (
-                <div
-                  key={override.id}
-                  className="flex items-center justify-between p-3 rounded-lg border"
-                >
-                  <div className="flex items-center gap-3">
-                    {override.is_available ? (
-                      <CalendarCheck className="h-4 w-4 text-green-500" />
-                    ) : (
-                      <CalendarOff className="h-4 w-4 text-red-500" />
-                    )}
-                    <div>
-                      <p className="font-medium text-sm">
-                        {format(new Date(override.date + "T00:00:00"), "EEEE, MMMM d, yyyy")}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        {override.is_available
-                          ? `${override.start_time} - ${override.end_time}`
-                          : "Day off"}
-                        {override.reason && ` — ${override.reason}`}
-                      </p>
+              {overrideDates.map((rows) => {
+                const dayOff = rows.some((o) => !o.is_available);
+                const reason = rows.find((o) => o.reason)?.reason;
+                return (
+                  <div
+                    key={rows[0].date}
+                    className="flex items-center justify-between p-3 rounded-lg border"
+                  >
+                    <div className="flex items-center gap-3">
+                      {dayOff ? (
+                        <CalendarOff className="h-4 w-4 text-red-500" />
+                      ) : (
+                        <CalendarCheck className="h-4 w-4 text-green-500" />
+                      )}
+                      <div>
+                        <p className="font-medium text-sm">
+                          {format(new Date(rows[0].date + "T00:00:00"), "EEEE, MMMM d, yyyy")}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {dayOff ? "Day off" : rows.map(formatWindow).join(", ")}
+                          {reason && ` — ${reason}`}
+                        </p>
+                      </div>
                     </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteOverride.mutate(rows.map((o) => o.id))}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => deleteOverride.mutate(override.id)}
-                  >
-                    <Trash2 className="h-4 w-4 text-destructive" />
-                  </Button>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </CardContent>
@@ -298,20 +385,46 @@ export default function AvailabilitySettings() {
             </div>
 
             {overrideAvailable && (
-              <div className="flex items-center gap-2">
-                <Input
-                  type="time"
-                  value={overrideStart}
-                  onChange={(e) => setOverrideStart(e.target.value)}
-                  className="w-32"
-                />
-                <span className="text-muted-foreground text-sm">to</span>
-                <Input
-                  type="time"
-                  value={overrideEnd}
-                  onChange={(e) => setOverrideEnd(e.target.value)}
-                  className="w-32"
-                />
+              <div className="space-y-2">
+                {overrideWindows.map((window, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={window.start_time}
+                      onChange={(e) => updateOverrideWindow(index, "start_time", e.target.value)}
+                      className="w-32"
+                    />
+                    <span className="text-muted-foreground text-sm">to</span>
+                    <Input
+                      type="time"
+                      value={window.end_time}
+                      onChange={(e) => updateOverrideWindow(index, "end_time", e.target.value)}
+                      className="w-32"
+                    />
+                    {overrideWindows.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setOverrideWindows((windows) => windows.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setOverrideWindows((windows) => [...windows, suggestNextWindow(windows)])}
+                >
+                  <Plus className="h-3.5 w-3.5 mr-1" />
+                  Add hours
+                </Button>
+                {!overrideWindowsValid && (
+                  <p className="text-xs text-destructive">Each window must end after it starts.</p>
+                )}
               </div>
             )}
 
@@ -329,7 +442,7 @@ export default function AvailabilitySettings() {
             <Button variant="outline" onClick={() => setOverrideDialogOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleAddOverride} disabled={!overrideDate}>
+            <Button onClick={handleAddOverride} disabled={!overrideDate || !overrideWindowsValid}>
               Save Override
             </Button>
           </DialogFooter>
@@ -1,7 +1,6 @@
 // src/components/scheduling/BookingCalendar.tsx
 // Reusable calendar date picker that shows available/unavailable dates
 
-import { useState, useEffect } from "react";
 import { Calendar } from "@/components/ui/calendar";
 import { addDays, format, isBefore, startOfDay } from "date-fns";
 
@@ -10,6 +9,10 @@ interface BookingCalendarProps {
   onDateSelect: (date: Date) => void;
   maxAdvanceDays?: number;
   accentColor?: string;
+  month?: Date;
+  onMonthChange?: (month: Date) => void;
+  // YYYY-MM-DD dates with open slots (from useMonthSlots). Other days are disabled once loaded.
+  availableDates?: string[];
 }
 
 export default function BookingCalendar({
@@ -17,9 +20,13 @@ export default function BookingCalendar({
   onDateSelect,
   maxAdvanceDays = 60,
   accentColor = "#3B82F6",
+  month,
+  onMonthChange,
+  availableDates,
 }: BookingCalendarProps) {
   const today = startOfDay(new Date());
   const maxDate = addDays(today, maxAdvanceDays);
+  const available = availableDates ? new Set(availableDates) : null;
 
   return (
     <div className="flex justify-center">
@@ -27,7 +34,13 @@ export default function BookingCalendar({
         mode="single"
         selected={selectedDate}
         onSelect={(date) => date && onDateSelect(date)}
-        disabled={(date) => isBefore(date, today) || date > maxDate}
+        month={month}
+        onMonthChange={onMonthChange}
+        disabled={(date) =>
+          isBefore(date, today) ||
+          date > maxDate ||
+          (!!available && !available.has(format(date, "yyyy-MM-dd")))
+        }
         className="rounded-xl border shadow-sm"
         modifiersStyles={{
           selected: {
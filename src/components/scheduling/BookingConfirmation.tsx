@@ -14,6 +14,8 @@ interface BookingConfirmationProps {
   meetingLink?: string | null;
   rescheduleUrl?: string;
   cancelUrl?: string;
+  /** Same UID as the emailed invite, so importing both doesn't duplicate the event */
+  icsUid?: string | null;
   timezone: string;
   accentColor?: string;
 }
@@ -26,6 +28,7 @@ export default function BookingConfirmation({
   meetingLink,
   rescheduleUrl,
   cancelUrl,
+  icsUid,
   timezone,
   accentColor = "#3B82F6",
 }: BookingConfirmationProps) {
@@ -96,7 +99,7 @@ export default function BookingConfirmation({
       "CALSCALE:GREGORIAN",
       "METHOD:REQUEST",
       "BEGIN:VEVENT",
-      `UID:${startDate.getTime()}@booking`,
+      `UID:${icsUid || `${startDate.getTime()}@booking`}`,
       `DTSTAMP:${nowStr}`,
       `DTSTART:${startStr}`,
       `DTEND:${endStr}`,
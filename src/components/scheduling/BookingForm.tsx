@@ -1,5 +1,7 @@
 // src/components/scheduling/BookingForm.tsx
-// Lead information form + custom intake questions for booking confirmation
+// Lead information form + custom intake questions for booking confirmation.
+// With questionsOnly it renders just the intake questions (the routing step that
+// runs before date selection).
 
 import { useState } from "react";
 import { Input } from "@/components/ui/input";
@@ -9,14 +11,7 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Loader2 } from "lucide-react";
-
-interface IntakeQuestion {
-  id: string;
-  label: string;
-  type: "text" | "textarea" | "select" | "checkbox";
-  required: boolean;
-  options?: string[];
-}
+import { type IntakeAnswers, type IntakeQuestion, validateIntakeAnswers } from "@/lib/bookingIntake";
 
 interface BookingFormProps {
   onSubmit: (data: {
@@ -28,6 +23,9 @@ interface BookingFormProps {
   isSubmitting?: boolean;
   questions?: IntakeQuestion[];
   accentColor?: string;
+  initialAnswers?: IntakeAnswers;
+  questionsOnly?: boolean;
+  submitLabel?: string;
   // Prefill from funnel context
   prefillName?: string;
   prefillEmail?: string;
@@ -39,6 +37,9 @@ export default function BookingForm({
   isSubmitting,
   questions = [],
   accentColor = "#3B82F6",
+  initialAnswers = {},
+  questionsOnly = false,
+  submitLabel = "Confirm Booking",
   prefillName = "",
   prefillEmail = "",
   prefillPhone = "",
@@ -46,30 +47,23 @@ export default function BookingForm({
   const [name, setName] = useState(prefillName);
   const [email, setEmail] = useState(prefillEmail);
   const [phone, setPhone] = useState(prefillPhone);
-  const [intakeAnswers, setIntakeAnswers] = useState<Record<string, any>>({});
+  const [intakeAnswers, setIntakeAnswers] = useState<IntakeAnswers>(initialAnswers);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  const validate = () => {
-    const newErrors: Record<string, string> = {};
+  const textAnswer = (questionId: string) => {
+    const answer = intakeAnswers[questionId];
+    return typeof answer === "string" ? answer : "";
+  };
 
-    if (!name.trim()) newErrors.name = "Name is required";
-    if (!email.trim()) newErrors.email = "Email is required";
-    else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) newErrors.email = "Invalid email";
+  const validate = () => {
+    // Same per-question rules create-booking enforces
+    const newErrors: Record<string, string> = validateIntakeAnswers(questions, intakeAnswers);
 
-    questions.forEach((q) => {
-      const answer = intakeAnswers[q.id];
-      if (q.required) {
-        if (q.type === "checkbox") {
-          if (!answer || !Array.isArray(answer) || answer.length === 0) {
-            newErrors[q.id] = `${q.label} is required`;
-          }
-        } else {
-          if (!answer?.toString().trim()) {
-            newErrors[q.id] = `${q.label} is required`;
-          }
-        }
-      }
-    });
+    if (!questionsOnly) {
+      if (!name.trim()) newErrors.name = "Name is required";
+      if (!email.trim()) newErrors.email = "Email is required";
+      else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) newErrors.email = "Invalid email";
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -89,47 +83,51 @@ export default function BookingForm({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
-      <div>
-        <Label htmlFor="booking-name" className="text-sm font-medium">
-          Name <span className="text-destructive">*</span>
-        </Label>
-        <Input
-          id="booking-name"
-          value={name}
-          onChange={(e) => setName(e.target.value)}
-          placeholder="Your full name"
-          className={errors.name ? "border-destructive" : ""}
-        />
-        {errors.name && <p className="text-xs text-destructive mt-1">{errors.name}</p>}
-      </div>
+      {!questionsOnly && (
+        <>
+          <div>
+            <Label htmlFor="booking-name" className="text-sm font-medium">
+              Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="booking-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your full name"
+              className={errors.name ? "border-destructive" : ""}
+            />
+            {errors.name && <p className="text-xs text-destructive mt-1">{errors.name}</p>}
+          </div>
 
-      <div>
-        <Label htmlFor="booking-email" className="text-sm font-medium">
-          Email <span className="text-destructive">*</span>
-        </Label>
-        <Input
-          id="booking-email"
-          type="email"
-          value={email}
-          onChange={(e) => setEmail(e.target.value)}
-          placeholder="you@example.com"
-          className={errors.email ? "border-destructive" : ""}
-        />
-        {errors.email && <p className="text-xs text-destructive mt-1">{errors.email}</p>}
-      </div>
+          <div>
+            <Label htmlFor="booking-email" className="text-sm font-medium">
+              Email <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="booking-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              className={errors.email ? "border-destructive" : ""}
+            />
+            {errors.email && <p className="text-xs text-destructive mt-1">{errors.email}</p>}
+          </div>
 
-      <div>
-        <Label htmlFor="booking-phone" className="text-sm font-medium">
-          Phone
-        </Label>
-        <Input
-          id="booking-phone"
-          type="tel"
-          value={phone}
-          onChange={(e) => setPhone(e.target.value)}
-          placeholder="+1 (555) 000-0000"
-        />
-      </div>
+          <div>
+            <Label htmlFor="booking-phone" className="text-sm font-medium">
+              Phone
+            </Label>
+            <Input
+              id="booking-phone"
+              type="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              placeholder="+1 (555) 000-0000"
+            />
+          </div>
+        </>
+      )}
 
       {/* Custom Intake Questions */}
       {questions.map((q) => (
@@ -139,15 +137,31 @@ export default function BookingForm({
           </Label>
           {q.type === "textarea" ? (
             <Textarea
-              value={intakeAnswers[q.id] || ""}
+              value={textAnswer(q.id)}
               onChange={(e) => setIntakeAnswers((prev) => ({ ...prev, [q.id]: e.target.value }))}
               placeholder={`Enter ${q.label.toLowerCase()}`}
               rows={3}
               className={errors[q.id] ? "border-destructive" : ""}
             />
+          ) : q.type === "budget" ? (
+            <Select
+              value={textAnswer(q.id)}
+              onValueChange={(value) => setIntakeAnswers((prev) => ({ ...prev, [q.id]: value }))}
+            >
+              <SelectTrigger className={errors[q.id] ? "border-destructive" : ""}>
+                <SelectValue placeholder={q.placeholder || "Select a range"} />
+              </SelectTrigger>
+              <SelectContent>
+                {(q.budget_ranges || []).map((range) => (
+                  <SelectItem key={range.label} value={range.label}>
+                    {range.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           ) : q.type === "select" && q.options ? (
             <Select
-              value={intakeAnswers[q.id] || ""}
+              value={textAnswer(q.id)}
               onValueChange={(value) => setIntakeAnswers((prev) => ({ ...prev, [q.id]: value }))}
             >
               <SelectTrigger className={errors[q.id] ? "border-destructive" : ""}>
@@ -191,9 +205,10 @@ export default function BookingForm({
             </div>
           ) : (
             <Input
-              value={intakeAnswers[q.id] || ""}
+              type={q.type === "phone" ? "tel" : "text"}
+              value={textAnswer(q.id)}
               onChange={(e) => setIntakeAnswers((prev) => ({ ...prev, [q.id]: e.target.value }))}
-              placeholder={`Enter ${q.label.toLowerCase()}`}
+              placeholder={q.placeholder || (q.type === "phone" ? "+1 (555) 000-0000" : `Enter ${q.label.toLowerCase()}`)}
               className={errors[q.id] ? "border-destructive" : ""}
             />
           )}
@@ -213,7 +228,7 @@ export default function BookingForm({
             Booking...
           </>
         ) : (
-          "Confirm Booking"
+          submitLabel
         )}
       </Button>
     </form>
@@ -40,11 +40,14 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import {
+  useEventTypes,
   useCreateEventType,
   useUpdateEventType,
   type EventType,
 } from "@/hooks/useEventTypes";
 import AvailabilitySettings from "@/components/scheduling/AvailabilitySettings";
+import ReminderSettings from "@/components/scheduling/ReminderSettings";
+import IntakeSettings from "@/components/scheduling/IntakeSettings";
 
 const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
 const LOCATION_TYPES = [
@@ -72,7 +75,13 @@ const DEFAULT_CALENDAR: Partial<EventType> = {
   is_active: true,
   round_robin_mode: "none",
   round_robin_members: [],
+  seats_per_slot: 1,
   questions: [],
+  routing_rules: [],
+  // Booking automations send reminders by default; built-in ones are opt-in
+  reminder_config: [],
+  waitlist_enabled: false,
+  waitlist_claim_minutes: 30,
 };
 
 interface CalendarEditorProps {
@@ -97,7 +106,9 @@ export default function CalendarEditor({
   const [teamMembers, setTeamMembers] = useState<Array<{ id: string; name: string; role: string }>>([]);
   const [memberAvailability, setMemberAvailability] = useState<Record<string, boolean>>({});
   const [memberGcalStatus, setMemberGcalStatus] = useState<Record<string, boolean>>({});
+  const [memberOutlookStatus, setMemberOutlookStatus] = useState<Record<string, boolean>>({});
   const [hasGoogleCalendar, setHasGoogleCalendar] = useState<boolean>(false);
+  const [hasOutlook, setHasOutlook] = useState<boolean>(false);
   const [hasZoom, setHasZoom] = useState<boolean>(false);
   const isEditing = !!calendar;
 
@@ -159,6 +170,17 @@ export default function CalendarEditor({
             .limit(1);
           gcalMap[member.id] = !!gcal && gcal.length > 0;
         }
+
+        const { data: outlookConns } = await supabase
+          .from("microsoft_calendar_connections")
+          .select("user_id")
+          .eq("team_id", teamId)
+          .eq("sync_enabled", true);
+        const outlookUserIds = new Set((outlookConns || []).map((c) => c.user_id));
+        const outlookMap: Record<string, boolean> = {};
+        members.forEach((m) => {
+          outlookMap[m.id] = outlookUserIds.has(m.id);
+        });
         
         // Set availability status for all members (same since it's team-wide)
         const availMap: Record<string, boolean> = {};
@@ -167,6 +189,7 @@ export default function CalendarEditor({
         });
         setMemberAvailability(availMap);
         setMemberGcalStatus(gcalMap);
+        setMemberOutlookStatus(outlookMap);
 
         // Check current user's connections
         if (user?.id) {
@@ -177,6 +200,7 @@ export default function CalendarEditor({
             .eq("user_id", user.id)
             .maybeSingle() as { data: any; error: any };
           setHasGoogleCalendar(!!gcal && !!gcal.sync_enabled);
+          setHasOutlook(outlookUserIds.has(user.id));
 
           const { data: zoom } = await supabase
             .from("team_integrations")
@@ -187,6 +211,7 @@ export default function CalendarEditor({
           setHasZoom(!!zoom && !!zoom.is_connected);
         } else {
           setHasGoogleCalendar(false);
+          setHasOutlook(false);
           setHasZoom(false);
         }
       } catch (err) {
@@ -197,9 +222,13 @@ export default function CalendarEditor({
     loadTeamMembers();
   }, [teamId, open]);
 
+  const { data: calendars } = useEventTypes(teamId);
   const createCalendar = useCreateEventType(teamId);
   const updateCalendar = useUpdateEventType(teamId);
 
+  // Round robin and collective need someone to rotate between / book together
+  const hasMultipleHosts = (editingCalendar.round_robin_members || []).length > 1;
+
   const updateField = (field: string, value: any) => {
     setEditingCalendar((prev) => ({ ...prev, [field]: value }));
     // Auto-generate slug from name
@@ -256,11 +285,13 @@ export default function CalendarEditor({
           </SheetHeader>
 
           <Tabs defaultValue="basics" className="mt-6">
-            <TabsList className="grid w-full grid-cols-6">
+            <TabsList className="grid w-full grid-cols-7">
               <TabsTrigger value="basics">Basics</TabsTrigger>
               <TabsTrigger value="hosts">Hosts</TabsTrigger>
               <TabsTrigger value="when">When</TabsTrigger>
               <TabsTrigger value="where">Where</TabsTrigger>
+              <TabsTrigger value="questions">Questions</TabsTrigger>
+              <TabsTrigger value="reminders">Reminders</TabsTrigger>
               <TabsTrigger value="advanced">Advanced</TabsTrigger>
             </TabsList>
 
@@ -369,15 +400,18 @@ export default function CalendarEditor({
                     ).includes(member.id);
                     const hasAvail = memberAvailability[member.id];
                     const hasGcal = memberGcalStatus[member.id];
+                    const hasOutlookCal = memberOutlookStatus[member.id];
                     
-                    // Badge shows Google Calendar status (availability is team-wide, shown separately)
+                    // Badge shows calendar sync status (availability is team-wide, shown separately)
                     let badgeVariant: "default" | "secondary" | "destructive" = "secondary";
-                    let badgeText = "No Google Calendar";
+                    let badgeText = "No Calendar Connected";
                     let badgeClass = "bg-yellow-50 text-yellow-700 border-yellow-200";
                     
-                    if (hasGcal) {
+                    if (hasGcal || hasOutlookCal) {
                       badgeVariant = "default";
-                      badgeText = "Google Calendar Connected";
+                      badgeText = hasGcal && hasOutlookCal
+                        ? "Google + Outlook Connected"
+                        : hasGcal ? "Google Calendar Connected" : "Outlook Connected";
                       badgeClass = "bg-green-50 text-green-700 border-green-200";
                     }
                     
@@ -422,7 +456,7 @@ export default function CalendarEditor({
               </div>
 
               {/* Assignment Mode */}
-              {(editingCalendar.round_robin_members || []).length > 1 && (
+              {(editingCalendar.round_robin_members || []).length > 0 && (
                 <div>
                   <Label className="text-sm font-medium">Assignment Mode</Label>
                   <Select
@@ -434,8 +468,10 @@ export default function CalendarEditor({
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="none">Single Host (first selected)</SelectItem>
-                      <SelectItem value="round_robin">Round Robin</SelectItem>
-                      <SelectItem value="availability_based">Availability Based</SelectItem>
+                      <SelectItem value="round_robin" disabled={!hasMultipleHosts}>Round Robin</SelectItem>
+                      <SelectItem value="availability_based" disabled={!hasMultipleHosts}>Availability Based</SelectItem>
+                      <SelectItem value="collective" disabled={!hasMultipleHosts}>Collective (all hosts attend)</SelectItem>
+                      <SelectItem value="group">Group (multiple invitees per slot)</SelectItem>
                     </SelectContent>
                   </Select>
                   <p className="text-xs text-muted-foreground mt-1">
@@ -443,7 +479,30 @@ export default function CalendarEditor({
                       ? "Rotates bookings between hosts in order"
                       : editingCalendar.round_robin_mode === "availability_based"
                         ? "Assigns to the host with the fewest bookings that day"
-                        : "All bookings go to the first selected host"}
+                        : editingCalendar.round_robin_mode === "collective"
+                          ? "Only offers times when every selected host is free; all hosts are booked"
+                          : editingCalendar.round_robin_mode === "group"
+                            ? "Several invitees book the same time until the seats are filled"
+                            : "All bookings go to the first selected host"}
+                  </p>
+                </div>
+              )}
+
+              {editingCalendar.round_robin_mode === "group" && (
+                <div>
+                  <Label className="text-sm font-medium">Seats Per Time Slot</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={500}
+                    value={editingCalendar.seats_per_slot || 1}
+                    onChange={(e) =>
+                      updateField("seats_per_slot", Math.max(1, Number(e.target.value) || 1))
+                    }
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Invitees see how many spots are left on each time
                   </p>
                 </div>
               )}
@@ -466,12 +525,12 @@ export default function CalendarEditor({
             {/* Where Tab */}
             <TabsContent value="where" className="space-y-4 mt-6">
               {/* Prerequisites Warning */}
-              {(!hasGoogleCalendar || (editingCalendar.location_type === "zoom" && !hasZoom)) && (
+              {((!hasGoogleCalendar && !hasOutlook) || (editingCalendar.location_type === "zoom" && !hasZoom)) && (
                 <Alert className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-950/20">
                   <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
                   <AlertDescription className="text-sm">
                     <strong>Recommended:</strong> Connect your integrations for the best experience.
-                    {!hasGoogleCalendar && " Connect Google Calendar to block busy times. "}
+                    {!hasGoogleCalendar && !hasOutlook && " Connect Google Calendar or Outlook to block busy times. "}
                     {editingCalendar.location_type === "zoom" && !hasZoom && " Connect Zoom to generate meeting links automatically. "}
                     Go to the Connections tab to set these up.
                   </AlertDescription>
@@ -523,6 +582,25 @@ export default function CalendarEditor({
               )}
             </TabsContent>
 
+            {/* Reminders Tab */}
+            <TabsContent value="questions" className="mt-6">
+              <IntakeSettings
+                questions={editingCalendar.questions || []}
+                routingRules={editingCalendar.routing_rules || []}
+                onQuestionsChange={(questions) => updateField("questions", questions)}
+                onRoutingRulesChange={(rules) => updateField("routing_rules", rules)}
+                eventTypes={(calendars || []).filter((c) => c.id !== editingCalendar.id)}
+                hosts={teamMembers}
+              />
+            </TabsContent>
+
+            <TabsContent value="reminders" className="mt-6">
+              <ReminderSettings
+                reminders={editingCalendar.reminder_config || []}
+                onChange={(reminders) => updateField("reminder_config", reminders)}
+              />
+            </TabsContent>
+
             {/* Advanced Tab */}
             <TabsContent value="advanced" className="space-y-4 mt-6">
               <div className="grid grid-cols-2 gap-3">
@@ -596,6 +674,39 @@ export default function CalendarEditor({
                 />
               </div>
 
+              <div className="space-y-3 rounded-lg border p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <Label className="text-sm">Waitlist</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Invitees can queue for a fully booked day. Cancelled times are offered to them in order.
+                    </p>
+                  </div>
+                  <Switch
+                    checked={!!editingCalendar.waitlist_enabled}
+                    onCheckedChange={(checked) => updateField("waitlist_enabled", checked)}
+                  />
+                </div>
+                {editingCalendar.waitlist_enabled && (
+                  <div>
+                    <Label className="text-sm">Hold Offered Time For (minutes)</Label>
+                    <Input
+                      type="number"
+                      min={5}
+                      max={1440}
+                      value={editingCalendar.waitlist_claim_minutes || 30}
+                      onChange={(e) =>
+                        updateField("waitlist_claim_minutes", Number(e.target.value))
+                      }
+                      className="mt-1"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      If the claim link isn't used in time, the next person on the waitlist gets the offer.
+                    </p>
+                  </div>
+                )}
+              </div>
+
               <div>
                 <Label className="text-sm">Confirmation Type</Label>
                 <Select
@@ -6,16 +6,23 @@ import { useParams, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { CheckCircle2, AlertCircle, Loader2, ArrowRight, Blocks } from "lucide-react";
+import { CheckCircle2, AlertCircle, Loader2, ArrowRight, Blocks, CalendarDays, Copy, RefreshCw } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
+import {
+  useCalendarFeedToken,
+  useRegenerateCalendarFeedToken,
+  getCalendarFeedUrl,
+  getWebcalUrl,
+} from "@/hooks/useCalendarFeed";
 import { ZoomConfig } from "@/components/ZoomConfig";
 import { FathomConfig } from "@/components/FathomConfig";
 
 // Brand logos
 import zoomLogo from "@/assets/integrations/zoom.svg";
 import fathomLogo from "@/assets/integrations/fathom.svg";
+import outlookLogo from "@/assets/integrations/outlook.svg";
 
 // Google logos from official CDN (matching AppsPortal approach)
 const googleCalendarLogo = "https://www.gstatic.com/images/branding/product/1x/calendar_2020q4_48dp.png";
@@ -27,10 +34,26 @@ export default function ConnectionsSettings() {
   const navigate = useNavigate();
   const [gcalConnected, setGcalConnected] = useState<boolean>(false);
   const [gcalConnecting, setGcalConnecting] = useState(false);
+  const [outlookEmail, setOutlookEmail] = useState<string | null>(null);
+  const [outlookConnecting, setOutlookConnecting] = useState(false);
   const [zoomConnected, setZoomConnected] = useState<boolean>(false);
   const [fathomConnected, setFathomConnected] = useState<boolean>(false);
   const [showZoomConfig, setShowZoomConfig] = useState(false);
   const [showFathomConfig, setShowFathomConfig] = useState(false);
+  const { data: feedToken, isLoading: feedLoading } = useCalendarFeedToken(teamId, user?.id);
+  const regenerateFeed = useRegenerateCalendarFeedToken(teamId, user?.id);
+
+  const handleCopyFeedUrl = async () => {
+    if (!feedToken) return;
+    await navigator.clipboard.writeText(getCalendarFeedUrl(feedToken.token));
+    toast.success("Calendar feed URL copied");
+  };
+
+  const handleRegenerateFeed = () => {
+    regenerateFeed.mutate(undefined, {
+      onSuccess: () => toast.success(feedToken ? "New feed URL created - the old one no longer works" : "Calendar feed created"),
+    });
+  };
 
   // Check connection statuses
   useEffect(() => {
@@ -47,6 +70,16 @@ export default function ConnectionsSettings() {
 
       setGcalConnected(!!gcalData && !!gcalData.sync_enabled);
 
+      // Outlook — per-user table
+      const { data: outlookData } = await supabase
+        .from("microsoft_calendar_connections")
+        .select("sync_enabled, email")
+        .eq("team_id", teamId)
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      setOutlookEmail(outlookData?.sync_enabled ? outlookData.email : null);
+
       // Zoom — team_integrations table
       const { data: zoomData } = await supabase
         .from("team_integrations")
@@ -139,6 +172,71 @@ export default function ConnectionsSettings() {
     }
   };
 
+  const handleConnectOutlook = async () => {
+    if (!teamId || !user) return;
+
+    // Open popup BEFORE async call (prevents popup blocker)
+    const width = 600;
+    const height = 700;
+    const left = window.screenX + (window.outerWidth - width) / 2;
+    const top = window.screenY + (window.outerHeight - height) / 2;
+
+    const popup = window.open(
+      "about:blank",
+      "microsoft-calendar-oauth",
+      `width=${width},height=${height},left=${left},top=${top},resizable=yes,scrollbars=yes`
+    );
+
+    if (!popup) {
+      toast.error("Please allow popups for this site");
+      return;
+    }
+
+    popup.document.write("<html><head><title>Connecting...</title></head><body style='font-family: system-ui; display: flex; align-items: center; justify-content: center; height: 100vh;'><div>Loading Outlook calendar connection...</div></body></html>");
+
+    setOutlookConnecting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("microsoft-oauth-start", {
+        body: { teamId },
+      });
+
+      if (error || !data?.authUrl) {
+        popup.close();
+        toast.error("Failed to start Outlook calendar connection");
+        setOutlookConnecting(false);
+        return;
+      }
+
+      popup.location.href = data.authUrl;
+
+      // Refresh the connection once the popup closes
+      const checkInterval = setInterval(() => {
+        if (popup.closed) {
+          clearInterval(checkInterval);
+          setOutlookConnecting(false);
+          setTimeout(() => {
+            supabase
+              .from("microsoft_calendar_connections")
+              .select("sync_enabled, email")
+              .eq("team_id", teamId)
+              .eq("user_id", user.id)
+              .maybeSingle()
+              .then(({ data }) => {
+                setOutlookEmail(data?.sync_enabled ? data.email : null);
+                if (data?.sync_enabled) {
+                  toast.success("Outlook calendar connected successfully");
+                }
+              });
+          }, 1000);
+        }
+      }, 500);
+    } catch (error) {
+      popup.close();
+      toast.error("Failed to connect Outlook calendar: " + (error instanceof Error ? error.message : "Unknown error"));
+      setOutlookConnecting(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Cross-navigation to Apps Portal */}
@@ -217,6 +315,56 @@ export default function ConnectionsSettings() {
             </CardContent>
           </Card>
 
+          {/* Outlook / Microsoft 365 Calendar */}
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-white dark:bg-gray-800 border">
+                    <img src={outlookLogo} alt="Outlook Calendar" className="h-6 w-6" />
+                  </div>
+                  <div>
+                    <h3 className="font-medium">Outlook Calendar</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {outlookEmail
+                        ? `Blocking busy times and adding bookings to ${outlookEmail}`
+                        : "Microsoft 365 or Outlook.com: block busy times and add bookings"}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  {outlookEmail ? (
+                    <div className="flex items-center gap-2 text-green-600 dark:text-green-400">
+                      <CheckCircle2 className="h-4 w-4" />
+                      <span className="text-sm font-medium">Connected</span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2 text-muted-foreground">
+                        <AlertCircle className="h-4 w-4" />
+                        <span className="text-sm">Not Connected</span>
+                      </div>
+                      <Button
+                        size="sm"
+                        onClick={handleConnectOutlook}
+                        disabled={outlookConnecting}
+                      >
+                        {outlookConnecting ? (
+                          <>
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Connecting...
+                          </>
+                        ) : (
+                          "Connect"
+                        )}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Google Meet */}
           <Card>
             <CardContent className="p-4">
@@ -241,6 +389,62 @@ export default function ConnectionsSettings() {
               </div>
             </CardContent>
           </Card>
+
+          {/* iCal Feed */}
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 rounded-lg bg-white dark:bg-gray-800 border">
+                    <CalendarDays className="h-6 w-6 text-primary" />
+                  </div>
+                  <div>
+                    <h3 className="font-medium">Calendar Feed (iCal)</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Subscribe to your appointments in Apple Calendar, Outlook or any calendar app
+                    </p>
+                  </div>
+                </div>
+                {!feedToken && (
+                  <Button size="sm" onClick={handleRegenerateFeed} disabled={feedLoading || regenerateFeed.isPending}>
+                    {regenerateFeed.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create Feed"}
+                  </Button>
+                )}
+              </div>
+
+              {feedToken && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 truncate rounded bg-muted px-2 py-1.5 text-xs">
+                      {getCalendarFeedUrl(feedToken.token)}
+                    </code>
+                    <Button size="sm" variant="outline" onClick={handleCopyFeedUrl}>
+                      <Copy className="h-3.5 w-3.5 mr-1" />
+                      Copy
+                    </Button>
+                    <Button size="sm" variant="outline" asChild>
+                      <a href={getWebcalUrl(feedToken.token)}>Subscribe</a>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={handleRegenerateFeed}
+                      disabled={regenerateFeed.isPending}
+                      title="Regenerate URL"
+                    >
+                      <RefreshCw className={`h-3.5 w-3.5 ${regenerateFeed.isPending ? "animate-spin" : ""}`} />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Anyone with this URL can see your appointments. Regenerate it if it has been shared.
+                    {feedToken.last_accessed_at && (
+                      <> Last synced {new Date(feedToken.last_accessed_at).toLocaleString()}.</>
+                    )}
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
 
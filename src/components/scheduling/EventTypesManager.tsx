@@ -3,6 +3,7 @@
 
 import { useState } from "react";
 import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
 import {
   Plus, Clock, MapPin, Users, Copy, ExternalLink,
   MoreHorizontal, Pencil, Trash2, ToggleLeft, ToggleRight,
@@ -46,8 +47,10 @@ import {
   useDeleteEventType,
   type EventType,
 } from "@/hooks/useEventTypes";
+import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import IntakeSettings from "@/components/scheduling/IntakeSettings";
 
 const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120];
 
@@ -77,6 +80,7 @@ const DEFAULT_EVENT_TYPE: Partial<EventType> = {
   round_robin_mode: "none",
   round_robin_members: [],
   questions: [],
+  routing_rules: [],
 };
 
 export default function EventTypesManager() {
@@ -92,6 +96,22 @@ export default function EventTypesManager() {
   const updateEventType = useUpdateEventType(teamId);
   const deleteEventType = useDeleteEventType(teamId);
 
+  // Hosts a routing rule can book with
+  const { data: teamMembers = [] } = useQuery({
+    queryKey: ["event-type-hosts", teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("team_members")
+        .select("user_id, profiles!inner(full_name)")
+        .eq("team_id", teamId!)
+        .eq("is_active", true);
+
+      if (error) throw error;
+      return (data || []).map((m) => ({ id: m.user_id, name: m.profiles?.full_name || "Unknown" }));
+    },
+    enabled: !!teamId && editorOpen,
+  });
+
   const handleCreate = () => {
     setEditingType({ ...DEFAULT_EVENT_TYPE });
     setIsEditing(false);
@@ -219,6 +239,8 @@ export default function EventTypesManager() {
                       <span className="flex items-center gap-1">
                         <Users className="h-3 w-3" />
                         {et.round_robin_members?.length || 0} members
+                        {et.round_robin_mode === "collective" && " · collective"}
+                        {et.round_robin_mode === "group" && ` · ${et.seats_per_slot || 1} seats`}
                       </span>
                     )}
                   </div>
@@ -453,6 +475,16 @@ export default function EventTypesManager() {
               )}
             </div>
 
+            {/* Intake Questions & Routing */}
+            <IntakeSettings
+              questions={editingType.questions || []}
+              routingRules={editingType.routing_rules || []}
+              onQuestionsChange={(questions) => updateField("questions", questions)}
+              onRoutingRulesChange={(rules) => updateField("routing_rules", rules)}
+              eventTypes={(eventTypes || []).filter((et) => et.id !== editingType.id)}
+              hosts={teamMembers}
+            />
+
             {/* Confirmation Type */}
             <div className="space-y-3">
               <h4 className="text-sm font-semibold text-foreground">Confirmation</h4>
@@ -0,0 +1,490 @@
+// src/components/scheduling/IntakeSettings.tsx
+// Editor for an event type's intake questions (event_types.questions) and the
+// routing rules that act on the answers (event_types.routing_rules).
+
+import { ArrowDown, ArrowUp, HelpCircle, Plus, Route, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  type BudgetRange,
+  DEFAULT_REJECT_MESSAGE,
+  type IntakeQuestion,
+  type IntakeQuestionType,
+  type IntakeRoutingAction,
+  type IntakeRoutingRule,
+  ROUTING_OPERATORS,
+} from "@/lib/bookingIntake";
+
+const QUESTION_TYPE_LABELS: Record<IntakeQuestionType, string> = {
+  text: "Short text",
+  textarea: "Long text",
+  select: "Dropdown",
+  checkbox: "Checkboxes",
+  phone: "Phone number",
+  budget: "Budget range",
+};
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equals: "is",
+  not_equals: "is not",
+  contains: "contains",
+  not_contains: "does not contain",
+  contains_any: "includes any of",
+  starts_with: "starts with",
+  in: "is one of",
+  not_in: "is not one of",
+  greater_or_equal: "starts at or above",
+  less_than: "starts below",
+  is_empty: "is empty",
+  is_not_empty: "is answered",
+};
+
+/** Operators that take a comma-separated list */
+const LIST_OPERATORS = ["in", "not_in", "contains_any"];
+const VALUELESS_OPERATORS = ["is_empty", "is_not_empty"];
+
+const DEFAULT_BUDGET_RANGES: BudgetRange[] = [
+  { label: "Under $5,000", min: 0, max: 5000 },
+  { label: "$5,000 - $20,000", min: 5000, max: 20000 },
+  { label: "$20,000+", min: 20000, max: null },
+];
+
+function formatBudgetRanges(ranges: BudgetRange[] = []): string {
+  return ranges.map((r) => `${r.label} | ${r.min}${r.max != null ? ` | ${r.max}` : ""}`).join("\n");
+}
+
+/** One range per line: "Label | min | max" (max optional) */
+function parseBudgetRanges(text: string): BudgetRange[] {
+  return text
+    .split("\n")
+    .map((line) => line.split("|").map((part) => part.trim()))
+    .filter(([label]) => !!label)
+    .map(([label, min, max]) => ({
+      label,
+      min: Number(min) || 0,
+      max: max ? Number(max) : null,
+    }));
+}
+
+interface IntakeSettingsProps {
+  questions: IntakeQuestion[];
+  routingRules: IntakeRoutingRule[];
+  onQuestionsChange: (questions: IntakeQuestion[]) => void;
+  onRoutingRulesChange: (rules: IntakeRoutingRule[]) => void;
+  /** Other event types a rule can send the invitee to */
+  eventTypes: Array<{ id: string; name: string }>;
+  hosts: Array<{ id: string; name: string }>;
+}
+
+export default function IntakeSettings({
+  questions,
+  routingRules,
+  onQuestionsChange,
+  onRoutingRulesChange,
+  eventTypes,
+  hosts,
+}: IntakeSettingsProps) {
+  // --- Questions ---
+
+  const updateQuestion = (index: number, updates: Partial<IntakeQuestion>) => {
+    onQuestionsChange(questions.map((q, i) => (i === index ? { ...q, ...updates } : q)));
+  };
+
+  const changeQuestionType = (index: number, type: IntakeQuestionType) => {
+    const question = questions[index];
+    updateQuestion(index, {
+      type,
+      options: type === "select" || type === "checkbox" ? question.options || [] : undefined,
+      budget_ranges: type === "budget" ? question.budget_ranges || DEFAULT_BUDGET_RANGES : undefined,
+    });
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[index], next[target]] = [next[target], next[index]];
+    onQuestionsChange(next);
+  };
+
+  const removeQuestion = (index: number) => {
+    const removedId = questions[index].id;
+    onQuestionsChange(questions.filter((_, i) => i !== index));
+    // Conditions on a deleted question could never match again
+    onRoutingRulesChange(
+      routingRules.map((rule) => ({
+        ...rule,
+        conditions: rule.conditions.filter((c) => c.field !== removedId),
+      }))
+    );
+  };
+
+  const addQuestion = () => {
+    onQuestionsChange([
+      ...questions,
+      { id: `q_${crypto.randomUUID().slice(0, 8)}`, label: "", type: "text", required: false },
+    ]);
+  };
+
+  // --- Routing rules ---
+
+  const updateRule = (index: number, updates: Partial<IntakeRoutingRule>) => {
+    onRoutingRulesChange(routingRules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, updates: Partial<IntakeRoutingRule["conditions"][number]>) => {
+    const rule = routingRules[ruleIndex];
+    updateRule(ruleIndex, {
+      conditions: rule.conditions.map((c, i) => (i === conditionIndex ? { ...c, ...updates } : c)),
+    });
+  };
+
+  const addCondition = (ruleIndex: number) => {
+    const rule = routingRules[ruleIndex];
+    const question = questions[0];
+    if (!question) return;
+    updateRule(ruleIndex, {
+      conditions: [...rule.conditions, { field: question.id, operator: ROUTING_OPERATORS[question.type][0], value: "" }],
+    });
+  };
+
+  const changeActionType = (index: number, type: IntakeRoutingAction["type"]) => {
+    const action: IntakeRoutingAction =
+      type === "route_event_type"
+        ? { type, event_type_id: eventTypes[0]?.id || "" }
+        : type === "route_host"
+          ? { type, user_id: hosts[0]?.id || "" }
+          : { type, message: DEFAULT_REJECT_MESSAGE };
+    updateRule(index, { action });
+  };
+
+  const addRule = () => {
+    onRoutingRulesChange([
+      ...routingRules,
+      {
+        id: `rule_${crypto.randomUUID().slice(0, 8)}`,
+        logic: "AND",
+        conditions: [],
+        action: { type: "reject", message: DEFAULT_REJECT_MESSAGE },
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Questions */}
+      <div className="space-y-4">
+        <div>
+          <Label className="text-sm font-medium">Intake Questions</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Asked on the booking page. Answers are saved on the appointment.
+          </p>
+        </div>
+
+        {questions.length === 0 && (
+          <div className="flex items-center gap-2 rounded-md border border-dashed p-4 text-sm text-muted-foreground">
+            <HelpCircle className="h-4 w-4" />
+            No questions. Invitees only enter their name, email and phone.
+          </div>
+        )}
+
+        {questions.map((question, index) => (
+          <div key={question.id} className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={question.label}
+                onChange={(e) => updateQuestion(index, { label: e.target.value })}
+                placeholder="Question"
+                className="flex-1"
+              />
+              <Select
+                value={question.type}
+                onValueChange={(type) => changeQuestionType(index, type as IntakeQuestionType)}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {(question.type === "select" || question.type === "checkbox") && (
+              <Textarea
+                value={(question.options || []).join("\n")}
+                onChange={(e) => updateQuestion(index, { options: e.target.value.split("\n") })}
+                onBlur={() => updateQuestion(index, { options: (question.options || []).map((o) => o.trim()).filter(Boolean) })}
+                placeholder="One option per line"
+                rows={3}
+              />
+            )}
+
+            {question.type === "budget" && (
+              <div>
+                <Textarea
+                  defaultValue={formatBudgetRanges(question.budget_ranges)}
+                  onBlur={(e) => updateQuestion(index, { budget_ranges: parseBudgetRanges(e.target.value) })}
+                  rows={3}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  One range per line: Label | min | max (leave max off for an open-ended range)
+                </p>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`required-${question.id}`}
+                checked={question.required}
+                onCheckedChange={(required) => updateQuestion(index, { required })}
+              />
+              <Label htmlFor={`required-${question.id}`} className="text-sm font-normal flex-1">
+                Required
+              </Label>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveQuestion(index, -1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveQuestion(index, 1)}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeQuestion(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <Button type="button" variant="outline" size="sm" onClick={addQuestion}>
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Add question
+        </Button>
+      </div>
+
+      {/* Routing rules */}
+      <div className="space-y-4">
+        <div>
+          <Label className="text-sm font-medium">Routing Rules</Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Checked in order once the invitee answers. The first matching rule sends them to another
+            calendar, books a specific host, or turns them away with your message.
+          </p>
+        </div>
+
+        {routingRules.length === 0 && (
+          <div className="flex items-center gap-2 rounded-md border border-dashed p-4 text-sm text-muted-foreground">
+            <Route className="h-4 w-4" />
+            No routing. Everyone who answers can book this calendar.
+          </div>
+        )}
+
+        {routingRules.map((rule, ruleIndex) => (
+          <div key={rule.id} className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Input
+                value={rule.name || ""}
+                onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+                placeholder={`Rule ${ruleIndex + 1}`}
+                className="flex-1"
+              />
+              <Select
+                value={rule.logic || "AND"}
+                onValueChange={(logic) => updateRule(ruleIndex, { logic: logic as IntakeRoutingRule["logic"] })}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="AND">Match all</SelectItem>
+                  <SelectItem value="OR">Match any</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => onRoutingRulesChange(routingRules.filter((_, i) => i !== ruleIndex))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {rule.conditions.map((condition, conditionIndex) => {
+              const question = questions.find((q) => q.id === condition.field);
+              const operators = question ? ROUTING_OPERATORS[question.type] : [];
+              const isList = LIST_OPERATORS.includes(condition.operator);
+
+              return (
+                <div key={conditionIndex} className="flex items-center gap-2">
+                  <Select
+                    value={condition.field}
+                    onValueChange={(field) => {
+                      const next = questions.find((q) => q.id === field);
+                      updateCondition(ruleIndex, conditionIndex, {
+                        field,
+                        operator: next ? ROUTING_OPERATORS[next.type][0] : condition.operator,
+                        value: "",
+                      });
+                    }}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Question" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {questions.map((q) => (
+                        <SelectItem key={q.id} value={q.id}>
+                          {q.label || "Untitled question"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={condition.operator}
+                    onValueChange={(operator) =>
+                      updateCondition(ruleIndex, conditionIndex, {
+                        operator,
+                        value: LIST_OPERATORS.includes(operator) ? [] : "",
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {operators.map((op) => (
+                        <SelectItem key={op} value={op}>
+                          {OPERATOR_LABELS[op] || op}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {!VALUELESS_OPERATORS.includes(condition.operator) && (
+                    <Input
+                      type={question?.type === "budget" ? "number" : "text"}
+                      value={Array.isArray(condition.value) ? condition.value.join(", ") : String(condition.value ?? "")}
+                      onChange={(e) =>
+                        updateCondition(ruleIndex, conditionIndex, {
+                          value: isList
+                            ? e.target.value.split(",").map((v) => v.trim()).filter(Boolean)
+                            : question?.type === "budget"
+                              ? Number(e.target.value)
+                              : e.target.value,
+                        })
+                      }
+                      placeholder={isList ? "a, b, c" : question?.type === "budget" ? "Amount" : "Value"}
+                      className="w-36"
+                    />
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() =>
+                      updateRule(ruleIndex, { conditions: rule.conditions.filter((_, i) => i !== conditionIndex) })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => addCondition(ruleIndex)}
+              disabled={questions.length === 0}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Add condition
+            </Button>
+
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Then</span>
+              <Select
+                value={rule.action.type}
+                onValueChange={(type) => changeActionType(ruleIndex, type as IntakeRoutingAction["type"])}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="route_event_type">Send to calendar</SelectItem>
+                  <SelectItem value="route_host">Book with host</SelectItem>
+                  <SelectItem value="reject">Don't allow booking</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {rule.action.type === "route_event_type" && (
+                <Select
+                  value={rule.action.event_type_id}
+                  onValueChange={(event_type_id) =>
+                    updateRule(ruleIndex, { action: { type: "route_event_type", event_type_id } })
+                  }
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Calendar" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {eventTypes.map((et) => (
+                      <SelectItem key={et.id} value={et.id}>
+                        {et.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
+              {rule.action.type === "route_host" && (
+                <Select
+                  value={rule.action.user_id}
+                  onValueChange={(user_id) => updateRule(ruleIndex, { action: { type: "route_host", user_id } })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Host" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {hosts.map((host) => (
+                      <SelectItem key={host.id} value={host.id}>
+                        {host.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {rule.action.type === "reject" && (
+              <Textarea
+                value={rule.action.message}
+                onChange={(e) => updateRule(ruleIndex, { action: { type: "reject", message: e.target.value } })}
+                placeholder="Message shown instead of the calendar"
+                rows={2}
+              />
+            )}
+
+            {rule.conditions.length === 0 && (
+              <p className="text-xs text-muted-foreground">Rules without conditions are skipped.</p>
+            )}
+          </div>
+        ))}
+
+        <Button type="button" variant="outline" size="sm" onClick={addRule}>
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Add rule
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+// src/components/scheduling/ReminderSettings.tsx
+// Editor for an event type's reminder_config: email / SMS reminders at any offset
+// before the booking, with optional custom copy.
+
+import { Bell, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { EventTypeReminder } from "@/hooks/useEventTypes";
+
+type OffsetUnit = "minutes" | "hours" | "days";
+
+const UNIT_MINUTES: Record<OffsetUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 1440,
+};
+
+const TEMPLATE_VARIABLES = [
+  "{{lead.first_name}}",
+  "{{appointment.event_type_name}}",
+  "{{appointment.start_date}}",
+  "{{appointment.start_time}}",
+  "{{appointment.timezone}}",
+  "{{appointment.host_name}}",
+  "{{appointment.meeting_link}}",
+  "{{appointment.manage_url}}",
+];
+
+/** Largest unit that divides the offset evenly: 1440 → 1 day, 90 → 90 minutes */
+function splitOffset(offsetMinutes: number): { value: number; unit: OffsetUnit } {
+  if (offsetMinutes > 0 && offsetMinutes % UNIT_MINUTES.days === 0) {
+    return { value: offsetMinutes / UNIT_MINUTES.days, unit: "days" };
+  }
+  if (offsetMinutes > 0 && offsetMinutes % UNIT_MINUTES.hours === 0) {
+    return { value: offsetMinutes / UNIT_MINUTES.hours, unit: "hours" };
+  }
+  return { value: offsetMinutes, unit: "minutes" };
+}
+
+interface ReminderSettingsProps {
+  reminders: EventTypeReminder[];
+  onChange: (reminders: EventTypeReminder[]) => void;
+}
+
+export default function ReminderSettings({ reminders, onChange }: ReminderSettingsProps) {
+  const updateReminder = (index: number, updates: Partial<EventTypeReminder>) => {
+    onChange(reminders.map((reminder, i) => (i === index ? { ...reminder, ...updates } : reminder)));
+  };
+
+  const removeReminder = (index: number) => {
+    onChange(reminders.filter((_, i) => i !== index));
+  };
+
+  const addReminder = () => {
+    onChange([...reminders, { type: "email", offset_minutes: 60 }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm font-medium">Booking Reminders</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Sent to the invitee before the meeting. Reminders move with a reschedule and stop on cancel.
+          Leave this empty if an automation already sends reminders for this calendar, or invitees get both.
+        </p>
+      </div>
+
+      {reminders.length === 0 && (
+        <div className="flex items-center gap-2 rounded-md border border-dashed p-4 text-sm text-muted-foreground">
+          <Bell className="h-4 w-4" />
+          No reminders. Invitees only get the messages from your automations.
+        </div>
+      )}
+
+      {reminders.map((reminder, index) => {
+        const { value, unit } = splitOffset(reminder.offset_minutes);
+        return (
+          <div key={index} className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Select
+                value={reminder.type}
+                onValueChange={(type) => updateReminder(index, { type: type as EventTypeReminder["type"] })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="email">Email</SelectItem>
+                  <SelectItem value="sms">SMS</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                value={value}
+                onChange={(e) =>
+                  updateReminder(index, {
+                    offset_minutes: Math.max(0, Number(e.target.value) || 0) * UNIT_MINUTES[unit],
+                  })
+                }
+                className="w-20"
+              />
+              <Select
+                value={unit}
+                onValueChange={(next) =>
+                  updateReminder(index, { offset_minutes: value * UNIT_MINUTES[next as OffsetUnit] })
+                }
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="minutes">minutes</SelectItem>
+                  <SelectItem value="hours">hours</SelectItem>
+                  <SelectItem value="days">days</SelectItem>
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground flex-1">before</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => removeReminder(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {reminder.type === "email" && (
+              <Input
+                value={reminder.subject || ""}
+                onChange={(e) => updateReminder(index, { subject: e.target.value || undefined })}
+                placeholder="Subject (leave empty for the default)"
+              />
+            )}
+            <Textarea
+              value={reminder.body || ""}
+              onChange={(e) => updateReminder(index, { body: e.target.value || undefined })}
+              placeholder="Message (leave empty for the default reminder)"
+              rows={3}
+            />
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={addReminder}>
+        <Plus className="h-3.5 w-3.5 mr-1" />
+        Add reminder
+      </Button>
+
+      <p className="text-xs text-muted-foreground">
+        Variables: {TEMPLATE_VARIABLES.join(", ")}
+      </p>
+    </div>
+  );
+}
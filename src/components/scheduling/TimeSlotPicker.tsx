@@ -1,5 +1,6 @@
 // src/components/scheduling/TimeSlotPicker.tsx
 // Displays available time slots for a selected date
+// Group event types show the spots left on each time
 
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -59,6 +60,8 @@ export default function TimeSlotPicker({
     );
   }
 
+  const formatSpots = (remaining: number) => `${remaining} spot${remaining === 1 ? "" : "s"} left`;
+
   // Convert 24h time to 12h display
   const formatTime = (time: string) => {
     const [h, m] = time.split(":").map(Number);
@@ -71,6 +74,7 @@ export default function TimeSlotPicker({
     <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-[320px] overflow-y-auto pr-1">
       {slots.map((slot) => {
         const isSelected = selectedTime === slot.utc;
+        const hasSeats = slot.seats_remaining !== undefined;
         return (
           <Button
             key={slot.utc}
@@ -78,6 +82,7 @@ export default function TimeSlotPicker({
             size="sm"
             className={cn(
               "h-10 text-sm font-medium transition-all",
+              hasSeats && "h-auto min-h-10 flex-col gap-0 py-1.5",
               isSelected && "ring-2 ring-offset-2"
             )}
             style={
@@ -88,6 +93,11 @@ export default function TimeSlotPicker({
             onClick={() => onTimeSelect(slot)}
           >
             {formatTime(slot.time)}
+            {hasSeats && (
+              <span className={cn("text-[11px] font-normal", !isSelected && "text-muted-foreground")}>
+                {formatSpots(slot.seats_remaining!)}
+              </span>
+            )}
           </Button>
         );
       })}
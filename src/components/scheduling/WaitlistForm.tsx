@@ -0,0 +1,138 @@
+// src/components/scheduling/WaitlistForm.tsx
+// Waitlist sign-up for fully booked event types: a specific full date or the
+// first opening on any date. Freed slots are offered by email / SMS with a claim link.
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+const FIRST_OPENING = "first_opening";
+
+interface WaitlistFormProps {
+  onSubmit: (data: { name: string; email: string; phone: string; preferred_date: string | null }) => void;
+  fullyBookedDates: string[]; // YYYY-MM-DD
+  initialDate?: string | null;
+  isSubmitting?: boolean;
+  accentColor?: string;
+}
+
+export default function WaitlistForm({
+  onSubmit,
+  fullyBookedDates,
+  initialDate = null,
+  isSubmitting,
+  accentColor = "#3B82F6",
+}: WaitlistFormProps) {
+  const [preferredDate, setPreferredDate] = useState<string>(
+    initialDate && fullyBookedDates.includes(initialDate) ? initialDate : FIRST_OPENING
+  );
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: Record<string, string> = {};
+    if (!name.trim()) newErrors.name = "Name is required";
+    if (!email.trim()) newErrors.email = "Email is required";
+    else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) newErrors.email = "Invalid email";
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    onSubmit({
+      name: name.trim(),
+      email: email.trim(),
+      phone: phone.trim(),
+      preferred_date: preferredDate === FIRST_OPENING ? null : preferredDate,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label className="text-sm font-medium">When</Label>
+        <Select value={preferredDate} onValueChange={setPreferredDate}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={FIRST_OPENING}>First available opening</SelectItem>
+            {fullyBookedDates.map((date) => (
+              <SelectItem key={date} value={date}>
+                {format(parseISO(date), "EEEE, MMMM d")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground mt-1">
+          If a time opens up we'll hold it for you and send a link to claim it.
+        </p>
+      </div>
+
+      <div>
+        <Label htmlFor="waitlist-name" className="text-sm font-medium">
+          Name <span className="text-destructive">*</span>
+        </Label>
+        <Input
+          id="waitlist-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Your full name"
+          className={errors.name ? "border-destructive" : ""}
+        />
+        {errors.name && <p className="text-xs text-destructive mt-1">{errors.name}</p>}
+      </div>
+
+      <div>
+        <Label htmlFor="waitlist-email" className="text-sm font-medium">
+          Email <span className="text-destructive">*</span>
+        </Label>
+        <Input
+          id="waitlist-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="you@example.com"
+          className={errors.email ? "border-destructive" : ""}
+        />
+        {errors.email && <p className="text-xs text-destructive mt-1">{errors.email}</p>}
+      </div>
+
+      <div>
+        <Label htmlFor="waitlist-phone" className="text-sm font-medium">
+          Phone
+        </Label>
+        <Input
+          id="waitlist-phone"
+          type="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="+1 (555) 000-0000"
+        />
+        <p className="text-xs text-muted-foreground mt-1">Add a phone number to get offers by text too.</p>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full h-12 text-base font-semibold"
+        style={{ backgroundColor: accentColor }}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Joining...
+          </>
+        ) : (
+          "Join Waitlist"
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  CUSTOM_FIELD_TYPES,
+  DEFAULT_CURRENCY,
+  hasCustomFieldOptions,
+  toCustomFieldKey,
+  validateCustomFieldDefinition,
+  type CustomFieldDefinition,
+  type CustomFieldType,
+} from "@/lib/customFields";
+import {
+  useCustomFields,
+  useDeleteCustomField,
+  useSaveCustomField,
+  type ContactCustomField,
+} from "@/hooks/useCustomFields";
+
+interface CustomFieldSettingsProps {
+  teamId: string;
+}
+
+interface Draft {
+  id?: string;
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  /** One option per line while editing */
+  optionsText: string;
+  currency: string;
+  position: number;
+  keyTouched: boolean;
+}
+
+function toDraft(field: ContactCustomField): Draft {
+  return {
+    id: field.id,
+    key: field.key,
+    label: field.label,
+    field_type: field.field_type,
+    optionsText: (field.options || []).join("\n"),
+    currency: field.currency || DEFAULT_CURRENCY,
+    position: field.position ?? 0,
+    keyTouched: true,
+  };
+}
+
+function toDefinition(draft: Draft): CustomFieldDefinition {
+  const options = hasCustomFieldOptions(draft.field_type)
+    ? draft.optionsText.split("\n").map((option) => option.trim()).filter(Boolean)
+    : [];
+  return {
+    id: draft.id,
+    key: draft.key,
+    label: draft.label.trim(),
+    field_type: draft.field_type,
+    options,
+    currency: draft.field_type === "currency" ? draft.currency.trim().toUpperCase() || DEFAULT_CURRENCY : null,
+    position: draft.position,
+  };
+}
+
+export function CustomFieldSettings({ teamId }: CustomFieldSettingsProps) {
+  const { data: fields = [], isPending } = useCustomFields(teamId);
+  const saveField = useSaveCustomField(teamId);
+  const deleteField = useDeleteCustomField(teamId);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const openNew = () => {
+    setError(null);
+    setDraft({
+      key: "",
+      label: "",
+      field_type: "text",
+      optionsText: "",
+      currency: DEFAULT_CURRENCY,
+      position: fields.length,
+      keyTouched: false,
+    });
+  };
+
+  const openEdit = (field: ContactCustomField) => {
+    setError(null);
+    setDraft(toDraft(field));
+  };
+
+  const updateDraft = (update: Partial<Draft>) => {
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const next = { ...prev, ...update };
+      // Suggest a key from the label until the user edits it (new fields only)
+      if (!next.id && !next.keyTouched && update.label !== undefined) {
+        next.key = toCustomFieldKey(update.label);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const definition = toDefinition(draft);
+    const problem = validateCustomFieldDefinition(definition, fields);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    try {
+      await saveField.mutateAsync(definition);
+      setDraft(null);
+    } catch {
+      // The hook already shows the error
+    }
+  };
+
+  const handleDelete = (field: ContactCustomField) => {
+    if (!confirm(`Delete "${field.label}"? Values already saved on contacts are kept, but lose their type.`)) return;
+    deleteField.mutate(field.id);
+  };
+
+  return (
+    <Card className="overflow-hidden">
+      <CardHeader className="bg-gradient-to-r from-emerald-500 to-teal-600 text-white">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg text-white">Custom Fields</CardTitle>
+            <CardDescription className="text-white/70">
+              Typed contact fields for funnels, workflows and exports
+            </CardDescription>
+          </div>
+          <Button variant="secondary" size="sm" onClick={openNew}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Field
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {isPending ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No custom fields yet. Add one to map funnel answers and compare values by type in workflows.
+          </p>
+        ) : (
+          <div className="divide-y divide-border">
+            {fields.map((field) => (
+              <div key={field.id} className="flex items-center gap-3 py-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{field.label}</span>
+                    <Badge variant="secondary">
+                      {CUSTOM_FIELD_TYPES.find((type) => type.value === field.field_type)?.label}
+                      {field.field_type === "currency" && ` · ${field.currency || DEFAULT_CURRENCY}`}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono truncate">
+                    custom_fields.{field.key}
+                    {hasCustomFieldOptions(field.field_type) && (
+                      <span className="font-sans"> · {(field.options || []).join(", ")}</span>
+                    )}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => openEdit(field)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(field)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? "Edit custom field" : "New custom field"}</DialogTitle>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="cf-label">Label</Label>
+                <Input
+                  id="cf-label"
+                  value={draft.label}
+                  onChange={(e) => updateDraft({ label: e.target.value })}
+                  placeholder="Monthly budget"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="cf-key">Key</Label>
+                <Input
+                  id="cf-key"
+                  value={draft.key}
+                  disabled={!!draft.id}
+                  onChange={(e) => updateDraft({ key: e.target.value.toLowerCase(), keyTouched: true })}
+                  placeholder="monthly_budget"
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                  {draft.id
+                    ? "Keys can't change once created."
+                    : "Used in workflows as {{contact.custom_fields." + (draft.key || "key") + "}}"}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={draft.field_type}
+                  onValueChange={(value) => updateDraft({ field_type: value as CustomFieldType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CUSTOM_FIELD_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {hasCustomFieldOptions(draft.field_type) && (
+                <div className="space-y-2">
+                  <Label htmlFor="cf-options">Options</Label>
+                  <Textarea
+                    id="cf-options"
+                    value={draft.optionsText}
+                    onChange={(e) => updateDraft({ optionsText: e.target.value })}
+                    placeholder="One option per line"
+                    rows={4}
+                  />
+                </div>
+              )}
+
+              {draft.field_type === "currency" && (
+                <div className="space-y-2">
+                  <Label htmlFor="cf-currency">Currency</Label>
+                  <Input
+                    id="cf-currency"
+                    value={draft.currency}
+                    onChange={(e) => updateDraft({ currency: e.target.value.toUpperCase() })}
+                    placeholder="USD"
+                    maxLength={3}
+                    className="w-24 font-mono"
+                  />
+                </div>
+              )}
+
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveField.isPending}>
+              {saveField.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
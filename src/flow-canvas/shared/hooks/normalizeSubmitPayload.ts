@@ -28,6 +28,7 @@ export interface BackendSubmitPayload {
   utm_source?: string | null;
   utm_medium?: string | null;
   utm_campaign?: string | null;
+  hidden_fields?: Record<string, string>;
   
   // Special data
   calendly_booking?: any;
@@ -107,6 +108,7 @@ export function normalizeToBackendPayload(
     utm_source: metadata?.utm_source,
     utm_medium: metadata?.utm_medium,
     utm_campaign: metadata?.utm_campaign,
+    hidden_fields: metadata?.hidden_fields,
     
     // Special data
     calendly_booking: metadata?.calendly_booking,
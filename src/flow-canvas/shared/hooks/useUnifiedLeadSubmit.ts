@@ -45,6 +45,8 @@ export interface LeadMetadata {
   utm_source?: string | null;
   utm_medium?: string | null;
   utm_campaign?: string | null;
+  /** Query param / cookie / referrer values captured on landing, stored on the lead */
+  hidden_fields?: Record<string, string>;
   calendly_booking?: any;
 }
 
@@ -298,6 +300,7 @@ export function useUnifiedLeadSubmit(options: UnifiedLeadSubmitOptions): Unified
           utm_source: payload.metadata?.utm_source ?? utmSource,
           utm_medium: payload.metadata?.utm_medium ?? utmMedium,
           utm_campaign: payload.metadata?.utm_campaign ?? utmCampaign,
+          hidden_fields: payload.metadata?.hidden_fields,
           
           // Calendly booking data
           calendly_booking: payload.metadata?.calendly_booking,
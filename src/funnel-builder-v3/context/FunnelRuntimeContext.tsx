@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useCallback, useMemo, ReactNode, useEffect, useRef } from 'react';
 import { Funnel, FunnelStep } from '@/funnel-builder-v3/types/funnel';
+import { resolveStepRoute, ROUTE_END } from '@/funnel-builder-v3/lib/step-routing';
 
 // Form data collected during funnel execution
 export interface FunnelFormData {
@@ -18,6 +19,8 @@ export interface AccumulatedFunnelData {
   consent?: { agreed: boolean; privacyPolicyUrl?: string };
   visitedStepIds: string[];
   lastStepIndex: number;
+  // URL/cookie/referrer values captured on landing (lib/hidden-fields.ts)
+  hiddenFields: Record<string, string>;
 }
 
 // Validation state reported by form blocks
@@ -82,6 +85,10 @@ interface FunnelRuntimeProviderProps {
   children: ReactNode;
   /** Current lead ID from useUnifiedLeadSubmit - used for booking attribution */
   leadId?: string | null;
+  /** Answers prefilled from the URL - blocks read these as their initial values */
+  initialFormData?: FunnelFormData;
+  /** Hidden field values captured on landing */
+  hiddenFields?: Record<string, string>;
   onStepChange?: (stepId: string, formData: FunnelFormData, selections: FunnelSelections) => void;
   onFormSubmit?: (
     data: FunnelFormData, 
@@ -96,6 +103,8 @@ export function FunnelRuntimeProvider({
   initialStepId,
   children,
   leadId = null,
+  initialFormData,
+  hiddenFields,
   onStepChange,
   onFormSubmit,
   onComplete,
@@ -103,12 +112,12 @@ export function FunnelRuntimeProvider({
   const firstStepId = funnel.steps[0]?.id || '';
   const [currentStepId, setCurrentStepId] = useState(initialStepId || firstStepId);
   const [stepHistory, setStepHistory] = useState<string[]>([initialStepId || firstStepId]);
-  const [formData, setFormData] = useState<FunnelFormData>({});
+  const [formData, setFormData] = useState<FunnelFormData>(() => initialFormData || {});
   const [selections, setSelections] = useState<FunnelSelections>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Use refs to avoid stale closures in callbacks
-  const formDataRef = useRef<FunnelFormData>({});
+  const formDataRef = useRef<FunnelFormData>(initialFormData || {});
   const selectionsRef = useRef<FunnelSelections>({});
   const currentStepIdRef = useRef<string>(initialStepId || firstStepId);
   
@@ -116,6 +125,11 @@ export function FunnelRuntimeProvider({
   // Tracks consent and visited steps throughout funnel journey
   const consentRef = useRef<{ agreed: boolean; privacyPolicyUrl?: string } | undefined>(undefined);
   const visitedStepIdsRef = useRef<Set<string>>(new Set([initialStepId || firstStepId]));
+  const hiddenFieldsRef = useRef<Record<string, string>>(hiddenFields || {});
+  
+  useEffect(() => {
+    hiddenFieldsRef.current = hiddenFields || {};
+  }, [hiddenFields]);
   
   // Sync refs with state
   useEffect(() => {
@@ -221,33 +235,43 @@ export function FunnelRuntimeProvider({
       return;
     }
     
-    const currentIndex = getStepIndex();
     const currentStep = getCurrentStep();
+    if (!currentStep) return;
     
-    // Check if there's a configured next step
-    if (currentStep?.settings.nextStepId) {
-      goToStep(currentStep.settings.nextStepId);
+    // Routing rules → default route → nextStepId → next sequential step
+    // Refs hold answers set in this same tick (e.g. a quiz click right before navigating)
+    const route = resolveStepRoute(
+      currentStep,
+      { formData: formDataRef.current, selections: selectionsRef.current },
+      funnel.steps
+    );
+    
+    if (import.meta.env.DEV && route.reason !== 'sequential') {
+      console.log('[FunnelRuntimeContext] Routed', {
+        from: currentStep.id,
+        to: route.targetStepId,
+        reason: route.reason,
+        ruleId: route.ruleId,
+      });
+    }
+    
+    if (route.targetStepId !== ROUTE_END) {
+      goToStep(route.targetStepId);
       return;
     }
     
-    // Otherwise go to the next sequential step
-    if (currentIndex < funnel.steps.length - 1) {
-      const nextStepId = funnel.steps[currentIndex + 1].id;
-      goToStep(nextStepId);
-    } else {
-      // On last step - call completion callback if provided
-      if (onComplete) {
-        try {
-          // Use refs to get current state
-          onComplete(formDataRef.current, selectionsRef.current);
-        } catch (error) {
-          if (import.meta.env.DEV) {
-            console.error('[FunnelRuntimeContext] onComplete callback error:', error);
-          }
+    // End of funnel - call completion callback if provided
+    if (onComplete) {
+      try {
+        // Use refs to get current state
+        onComplete(formDataRef.current, selectionsRef.current);
+      } catch (error) {
+        if (import.meta.env.DEV) {
+          console.error('[FunnelRuntimeContext] onComplete callback error:', error);
         }
       }
     }
-  }, [funnel.steps, getStepIndex, getCurrentStep, goToStep, onComplete]);
+  }, [funnel.steps, getCurrentStep, goToStep, onComplete]);
 
   const goToPrevStep = useCallback(() => {
     // Navigation guard: prevent concurrent calls
@@ -304,6 +328,7 @@ export function FunnelRuntimeProvider({
       consent: consentRef.current,
       visitedStepIds: Array.from(visitedStepIdsRef.current),
       lastStepIndex: stepIndex >= 0 ? stepIndex : 0,
+      hiddenFields: hiddenFieldsRef.current,
     };
   }, [funnel.steps]);
 
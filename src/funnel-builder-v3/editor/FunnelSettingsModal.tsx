@@ -10,6 +10,7 @@ import {
   CheckCircle2,
   Clock,
   AlertCircle,
+  Link2,
   X
 } from 'lucide-react';
 import {
@@ -34,6 +35,7 @@ import {
 } from '@/components/ui/select';
 import { useFunnel } from '@/funnel-builder-v3/context/FunnelContext';
 import { DomainSetupPanel } from './components/DomainSetupPanel';
+import { HiddenFieldsEditor } from './HiddenFieldsEditor';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 
@@ -48,12 +50,13 @@ interface FunnelSettingsModalProps {
   onNavigateToPublish?: () => void;
 }
 
-type SettingsSection = 'general' | 'domain' | 'appearance' | 'advanced';
+type SettingsSection = 'general' | 'domain' | 'appearance' | 'tracking' | 'advanced';
 
 const sidebarItems: { id: SettingsSection; label: string; icon: React.ElementType }[] = [
   { id: 'general', label: 'General', icon: Settings },
   { id: 'domain', label: 'Custom Domain', icon: Globe },
   { id: 'appearance', label: 'Appearance', icon: Palette },
+  { id: 'tracking', label: 'Tracking', icon: Link2 },
   { id: 'advanced', label: 'Advanced', icon: Webhook },
 ];
 
@@ -558,6 +561,45 @@ export function FunnelSettingsModal({
           </div>
         );
 
+      case 'tracking':
+        return (
+          <div className="space-y-6">
+            <div>
+              <h3 className="text-lg font-semibold mb-4">Tracking</h3>
+              <div className="space-y-4">
+                {/* Hidden Fields */}
+                <div className="space-y-2">
+                  <Label>Hidden Fields</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Captured when a visitor lands and saved on every lead. utm_source, utm_medium
+                    and utm_campaign are always captured.
+                  </p>
+                  <HiddenFieldsEditor
+                    fields={funnel.settings.hiddenFields}
+                    onChange={(fields) => handleUpdateSetting('hiddenFields', fields)}
+                  />
+                </div>
+
+                <Separator />
+
+                {/* URL Prefill */}
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Prefill From URL</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Fill matching fields from links like ?email=jane@example.com&amp;first_name=Jane
+                    </p>
+                  </div>
+                  <Switch
+                    checked={funnel.settings.urlPrefill !== false}
+                    onCheckedChange={(checked) => handleUpdateSetting('urlPrefill', checked)}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+
       case 'advanced':
         return (
           <div className="space-y-6">
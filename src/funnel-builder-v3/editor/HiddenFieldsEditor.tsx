@@ -0,0 +1,108 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { HiddenFieldConfig, HiddenFieldSource } from '@/funnel-builder-v3/types/funnel';
+import { createHiddenField, DEFAULT_HIDDEN_FIELDS } from '@/funnel-builder-v3/lib/hidden-fields';
+
+interface HiddenFieldsEditorProps {
+  fields: HiddenFieldConfig[] | undefined;
+  onChange: (fields: HiddenFieldConfig[] | undefined) => void;
+}
+
+const sourceOptions: { value: HiddenFieldSource; label: string }[] = [
+  { value: 'query', label: 'URL parameter' },
+  { value: 'cookie', label: 'Cookie' },
+  { value: 'referrer', label: 'Referrer' },
+  { value: 'landing_page', label: 'Landing page' },
+];
+
+/**
+ * Editor for Funnel.settings.hiddenFields.
+ * Unset means the defaults (utm_*, fbclid, gclid, ref, referrer); the first edit copies them in.
+ */
+export function HiddenFieldsEditor({ fields, onChange }: HiddenFieldsEditorProps) {
+  const current = fields ?? DEFAULT_HIDDEN_FIELDS;
+
+  const update = (id: string, updates: Partial<HiddenFieldConfig>) =>
+    onChange(current.map(f => (f.id === id ? { ...f, ...updates } : f)));
+
+  return (
+    <div className="space-y-2">
+      {current.map((field) => {
+        const usesParam = field.source === 'query' || field.source === 'cookie';
+        return (
+          <div key={field.id} className="flex items-center gap-2">
+            <Input
+              value={field.key}
+              onChange={(e) => update(field.id, { key: e.target.value })}
+              placeholder="Field key"
+              className="bg-muted border-0 h-9 flex-1 min-w-0 font-mono text-xs"
+            />
+            <Select
+              value={field.source}
+              onValueChange={(source) => update(field.id, { source: source as HiddenFieldSource })}
+            >
+              <SelectTrigger className="bg-muted border-0 h-9 w-36 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sourceOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={usesParam ? field.param || '' : ''}
+              onChange={(e) => update(field.id, { param: e.target.value || undefined })}
+              placeholder={usesParam ? field.key || 'Same as key' : '—'}
+              disabled={!usesParam}
+              className="bg-muted border-0 h-9 w-32 font-mono text-xs"
+            />
+            <Input
+              value={field.defaultValue || ''}
+              onChange={(e) => update(field.id, { defaultValue: e.target.value || undefined })}
+              placeholder="Default"
+              className="bg-muted border-0 h-9 w-24 text-xs"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9 shrink-0"
+              onClick={() => onChange(current.filter(f => f.id !== field.id))}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => onChange([...current, createHiddenField()])}
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Add Hidden Field
+        </Button>
+        {fields !== undefined && (
+          <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => onChange(undefined)}>
+            <RotateCcw className="h-3.5 w-3.5 mr-1" />
+            Reset to Defaults
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
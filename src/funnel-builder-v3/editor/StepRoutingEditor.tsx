@@ -0,0 +1,323 @@
+import React, { useMemo } from 'react';
+import { v4 as uuid } from 'uuid';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  FunnelStep,
+  RoutingCondition,
+  RoutingOperator,
+  StepRouting,
+  StepRoutingRule,
+} from '@/funnel-builder-v3/types/funnel';
+import {
+  collectRoutingSources,
+  ROUTE_END,
+  ROUTING_OPERATORS,
+  RoutingAnswerSource,
+} from '@/funnel-builder-v3/lib/step-routing';
+
+interface StepRoutingEditorProps {
+  step: FunnelStep;
+  steps: FunnelStep[];
+  onChange: (routing: StepRouting | undefined) => void;
+}
+
+const FALLBACK_VALUE = '__fallback__';
+
+function createCondition(sources: RoutingAnswerSource[]): RoutingCondition {
+  return { id: uuid(), sourceKey: sources[0]?.key || '', operator: 'equals', value: '' };
+}
+
+// Target step picker shared by rules and the default route
+function TargetSelect({
+  value,
+  steps,
+  currentStepId,
+  onChange,
+  fallbackLabel,
+}: {
+  value: string | undefined;
+  steps: FunnelStep[];
+  currentStepId: string;
+  onChange: (value: string | undefined) => void;
+  fallbackLabel?: string;
+}) {
+  return (
+    <Select
+      value={value || (fallbackLabel ? FALLBACK_VALUE : undefined)}
+      onValueChange={(v) => onChange(v === FALLBACK_VALUE ? undefined : v)}
+    >
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue placeholder="Choose step" />
+      </SelectTrigger>
+      <SelectContent className="bg-popover">
+        {fallbackLabel && <SelectItem value={FALLBACK_VALUE}>{fallbackLabel}</SelectItem>}
+        <SelectItem value={ROUTE_END}>End Funnel</SelectItem>
+        {steps
+          .filter(s => s.id !== currentStepId)
+          .map(s => (
+            <SelectItem key={s.id} value={s.id}>
+              Go to: {s.name}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function ConditionRow({
+  condition,
+  sources,
+  onChange,
+  onRemove,
+}: {
+  condition: RoutingCondition;
+  sources: RoutingAnswerSource[];
+  onChange: (updates: Partial<RoutingCondition>) => void;
+  onRemove: () => void;
+}) {
+  const source = sources.find(s => s.key === condition.sourceKey);
+  const operator = ROUTING_OPERATORS.find(o => o.value === condition.operator);
+  const showOptionPicker = source?.kind === 'choice'
+    && (condition.operator === 'equals' || condition.operator === 'not_equals');
+
+  // Group answer sources by the step they live on
+  const sourcesByStep = sources.reduce<Record<string, { stepName: string; items: RoutingAnswerSource[] }>>((acc, s) => {
+    if (!acc[s.stepId]) acc[s.stepId] = { stepName: s.stepName, items: [] };
+    acc[s.stepId].items.push(s);
+    return acc;
+  }, {});
+
+  return (
+    <div className="space-y-1.5 rounded-md border border-border/60 p-2">
+      <div className="flex items-center gap-1">
+        <Select
+          value={condition.sourceKey || undefined}
+          onValueChange={(v) => onChange({ sourceKey: v, value: '' })}
+        >
+          <SelectTrigger className="h-8 text-xs flex-1 min-w-0">
+            <SelectValue placeholder="Choose answer" />
+          </SelectTrigger>
+          <SelectContent className="bg-popover">
+            {Object.entries(sourcesByStep).map(([stepId, group]) => (
+              <SelectGroup key={stepId}>
+                <SelectLabel className="text-[10px] uppercase tracking-wider">{group.stepName}</SelectLabel>
+                {group.items.map(s => (
+                  <SelectItem key={s.key} value={s.key}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onRemove}>
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Select
+          value={condition.operator}
+          onValueChange={(v) => onChange({ operator: v as RoutingOperator })}
+        >
+          <SelectTrigger className="h-8 text-xs w-[110px] shrink-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-popover">
+            {ROUTING_OPERATORS.map(o => (
+              <SelectItem key={o.value} value={o.value}>
+                {o.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {operator?.needsValue && (showOptionPicker ? (
+          <Select
+            value={condition.value || undefined}
+            onValueChange={(v) => onChange({ value: v })}
+          >
+            <SelectTrigger className="h-8 text-xs flex-1 min-w-0">
+              <SelectValue placeholder="Choose option" />
+            </SelectTrigger>
+            <SelectContent className="bg-popover">
+              {source?.options?.map(o => (
+                <SelectItem key={o.id} value={o.id}>
+                  {o.label || o.value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            value={condition.value || ''}
+            onChange={(e) => onChange({ value: e.target.value })}
+            placeholder={operator.numeric ? 'e.g. 5000' : 'Value'}
+            className="h-8 text-xs flex-1 min-w-0"
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Visual builder for FunnelStep.settings.routing.
+ * Rules are evaluated top to bottom at runtime (lib/step-routing.ts).
+ */
+export function StepRoutingEditor({ step, steps, onChange }: StepRoutingEditorProps) {
+  const routing: StepRouting = step.settings.routing || { rules: [] };
+  const sources = useMemo(() => collectRoutingSources(steps), [steps]);
+
+  const commit = (next: StepRouting) => {
+    // Drop the routing object entirely once it carries no information
+    onChange(next.rules.length === 0 && !next.defaultStepId ? undefined : next);
+  };
+
+  const updateRule = (ruleId: string, updates: Partial<StepRoutingRule>) => {
+    commit({
+      ...routing,
+      rules: routing.rules.map(r => (r.id === ruleId ? { ...r, ...updates } : r)),
+    });
+  };
+
+  const updateCondition = (rule: StepRoutingRule, conditionId: string, updates: Partial<RoutingCondition>) => {
+    updateRule(rule.id, {
+      conditions: rule.conditions.map(c => (c.id === conditionId ? { ...c, ...updates } : c)),
+    });
+  };
+
+  const addRule = () => {
+    commit({
+      ...routing,
+      rules: [
+        ...routing.rules,
+        { id: uuid(), logic: 'and', conditions: [createCondition(sources)], targetStepId: '' },
+      ],
+    });
+  };
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= routing.rules.length) return;
+    const rules = [...routing.rules];
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    commit({ ...routing, rules });
+  };
+
+  return (
+    <div className="space-y-3">
+      {sources.length === 0 && (
+        <p className="text-[10px] text-muted-foreground">
+          Add a question, dropdown or form field to route on answers
+        </p>
+      )}
+
+      {routing.rules.map((rule, index) => (
+        <div key={rule.id} className="space-y-2 rounded-lg border border-border p-2.5">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">Rule {index + 1}</span>
+            <div className="flex items-center">
+              <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => moveRule(index, -1)}>
+                <ArrowUp className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={index === routing.rules.length - 1}
+                onClick={() => moveRule(index, 1)}
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => commit({ ...routing, rules: routing.rules.filter(r => r.id !== rule.id) })}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label className="text-xs text-muted-foreground">If</Label>
+            <Select
+              value={rule.logic}
+              onValueChange={(v) => updateRule(rule.id, { logic: v as StepRoutingRule['logic'] })}
+            >
+              <SelectTrigger className="h-7 text-xs w-[90px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover">
+                <SelectItem value="and">All match</SelectItem>
+                <SelectItem value="or">Any match</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {rule.conditions.map(condition => (
+            <ConditionRow
+              key={condition.id}
+              condition={condition}
+              sources={sources}
+              onChange={(updates) => updateCondition(rule, condition.id, updates)}
+              onRemove={() => updateRule(rule.id, { conditions: rule.conditions.filter(c => c.id !== condition.id) })}
+            />
+          ))}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs w-full"
+            onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, createCondition(sources)] })}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add Condition
+          </Button>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Then</Label>
+            <TargetSelect
+              value={rule.targetStepId}
+              steps={steps}
+              currentStepId={step.id}
+              onChange={(v) => updateRule(rule.id, { targetStepId: v || '' })}
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" className="h-8 text-xs w-full" onClick={addRule}>
+        <Plus className="h-3 w-3 mr-1" />
+        Add Routing Rule
+      </Button>
+
+      {routing.rules.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Otherwise, Go To</Label>
+          <TargetSelect
+            value={routing.defaultStepId}
+            steps={steps}
+            currentStepId={step.id}
+            onChange={(v) => commit({ ...routing, defaultStepId: v })}
+            fallbackLabel="On Complete setting"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,8 @@ import {
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { StepType } from '@/funnel-builder-v3/types/funnel';
+import { StepRoutingEditor } from '@/funnel-builder-v3/editor/StepRoutingEditor';
+import { StepSplitTestEditor } from '@/funnel-builder-v3/editor/StepSplitTestEditor';
 import { FileInput, ShoppingCart, Calendar, GraduationCap, Trophy } from 'lucide-react';
 
 const stepTypeConfig: Record<StepType, { label: string; icon: React.ComponentType<{ className?: string }>; color: string }> = {
@@ -134,6 +136,32 @@ export function StepSettings() {
             </SelectContent>
           </Select>
         </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs text-muted-foreground">Routing Rules</Label>
+          <p className="text-[10px] text-muted-foreground">
+            Send visitors to different steps based on their earlier answers. First matching rule wins.
+          </p>
+          <StepRoutingEditor
+            step={currentStep}
+            steps={funnel.steps}
+            onChange={(routing) => handleChange('settings.routing', routing)}
+          />
+        </div>
+      </div>
+
+      <Separator />
+
+      {/* A/B Test */}
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground uppercase tracking-wider">A/B Test</Label>
+        <p className="text-[10px] text-muted-foreground">
+          Show visitors different versions of this step. Results appear in funnel analytics.
+        </p>
+        <StepSplitTestEditor
+          step={currentStep}
+          onChange={(updates) => updateStep(currentStep.id, updates)}
+        />
       </div>
 
       <Separator />
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { Crown, Pencil, Plus, Trash2 } from 'lucide-react';
+import { FunnelStep, StepSplitTest, StepVariant } from '@/funnel-builder-v3/types/funnel';
+import {
+  addStepVariant,
+  createSplitTest,
+  promoteStepVariant,
+  removeStepVariant,
+  switchEditingVariant,
+} from '@/funnel-builder-v3/lib/split-test';
+
+interface StepSplitTestEditorProps {
+  step: FunnelStep;
+  onChange: (updates: Partial<FunnelStep>) => void;
+}
+
+/**
+ * Variant manager for FunnelStep.settings.splitTest.
+ * The canvas edits one variant at a time - "Edit" swaps that variant's blocks onto the step.
+ */
+export function StepSplitTestEditor({ step, onChange }: StepSplitTestEditorProps) {
+  const test = step.settings.splitTest;
+
+  const applyStep = (next: FunnelStep) => onChange({ blocks: next.blocks, settings: next.settings });
+  const setTest = (splitTest: StepSplitTest | undefined) =>
+    onChange({ settings: { ...step.settings, splitTest } });
+
+  const updateVariant = (variantId: string, updates: Partial<StepVariant>) => {
+    if (!test) return;
+    setTest({ ...test, variants: test.variants.map(v => (v.id === variantId ? { ...v, ...updates } : v)) });
+  };
+
+  if (!test) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-8 text-xs"
+        onClick={() => setTest(createSplitTest(step))}
+      >
+        <Plus className="h-3.5 w-3.5 mr-1" />
+        Start A/B Test
+      </Button>
+    );
+  }
+
+  const totalWeight = test.variants.reduce((sum, v) => sum + Math.max(0, v.weight || 0), 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs">Running</Label>
+        <Switch
+          checked={test.enabled}
+          onCheckedChange={(enabled) => setTest({ ...test, enabled })}
+        />
+      </div>
+
+      {test.variants.map((variant, index) => {
+        const isEditing = variant.id === test.editingVariantId;
+        const share = totalWeight > 0 ? Math.round((Math.max(0, variant.weight || 0) / totalWeight) * 100) : 0;
+        return (
+          <div
+            key={variant.id}
+            className={cn(
+              'space-y-1.5 rounded-md border p-2',
+              isEditing ? 'border-primary/60 bg-primary/5' : 'border-border/60'
+            )}
+          >
+            <div className="flex items-center gap-1">
+              <Input
+                value={variant.name}
+                onChange={(e) => updateVariant(variant.id, { name: e.target.value })}
+                className="h-8 text-xs flex-1 min-w-0"
+              />
+              {index === 0 && <span className="text-[10px] text-muted-foreground shrink-0 px-1">Control</span>}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                title="Make this the only version and end the test"
+                onClick={() => applyStep(promoteStepVariant(step, variant.id))}
+              >
+                <Crown className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => applyStep(removeStepVariant(step, variant.id))}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={0}
+                value={variant.weight}
+                onChange={(e) => updateVariant(variant.id, { weight: Math.max(0, Number(e.target.value) || 0) })}
+                className="h-8 text-xs w-16"
+              />
+              <span className="text-[10px] text-muted-foreground flex-1">weight · {share}% of traffic</span>
+              <Button
+                variant={isEditing ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 text-xs"
+                disabled={isEditing}
+                onClick={() => applyStep(switchEditingVariant(step, variant.id))}
+              >
+                <Pencil className="h-3 w-3 mr-1" />
+                {isEditing ? 'Editing' : 'Edit'}
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-8 text-xs"
+        onClick={() => setTest(addStepVariant(step))}
+      >
+        <Plus className="h-3.5 w-3.5 mr-1" />
+        Add Variant
+      </Button>
+    </div>
+  );
+}
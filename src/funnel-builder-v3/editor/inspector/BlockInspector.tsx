@@ -40,6 +40,9 @@ import {
 } from 'lucide-react';
 import { v4 as uuid } from 'uuid';
 import { generateTrackingId } from '@/funnel-builder-v3/lib/tracking-ids';
+import { useParams } from 'react-router-dom';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCustomFields } from '@/hooks/useCustomFields';
 
 // Helper function to strip HTML tags for display in inspector inputs
 function stripHtmlTags(html: string): string {
@@ -1904,6 +1907,36 @@ export function CountryCodesInspector({ funnel, onFunnelChange }: CountryCodesIn
   );
 }
 
+// ========== CUSTOM FIELD MAPPING (Form fields) ==========
+const NOT_MAPPED = '__none';
+
+// Saves the answer under a team custom field's key, typed like that field
+function CustomFieldMappingSelect({ value, onChange }: { value?: string; onChange: (key: string | undefined) => void }) {
+  const { teamId } = useParams<{ teamId?: string }>();
+  const { data: customFields = [] } = useCustomFields(teamId);
+
+  if (customFields.length === 0) return null;
+
+  return (
+    <div>
+      <Select value={value || NOT_MAPPED} onValueChange={(key) => onChange(key === NOT_MAPPED ? undefined : key)}>
+        <SelectTrigger className="h-8 text-xs bg-background">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-popover">
+          <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+          {customFields.map((field) => (
+            <SelectItem key={field.key} value={field.key}>
+              {field.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-[9px] text-muted-foreground mt-0.5 px-1">Save to contact field</p>
+    </div>
+  );
+}
+
 // ========== FORM FIELD INSPECTOR (Child Element for Form Block) ==========
 interface FormFieldInspectorProps {
   block: Block;
@@ -1972,6 +2005,11 @@ export function FormFieldInspector({ block, fieldId, onContentChange, setSelecte
         onChange={(checked) => updateField({ required: checked })}
       />
 
+      <CustomFieldMappingSelect
+        value={field.customFieldKey}
+        onChange={(customFieldKey) => updateField({ customFieldKey })}
+      />
+
       {/* Type-specific options */}
       {field.type === 'select' && (
         <>
@@ -2725,6 +2763,10 @@ export function FormInspector({ block, onContentChange, onBlockChange }: BlockIn
               />
               <p className="text-[9px] text-muted-foreground mt-0.5 px-1">Tracking ID</p>
             </div>
+            <CustomFieldMappingSelect
+              value={field.customFieldKey}
+              onChange={(customFieldKey) => updateField(i, { customFieldKey })}
+            />
           </div>
         ))}
       </div>
@@ -3,4 +3,6 @@ export { FunnelProvider, useFunnel, useFunnelOptional, FunnelContext } from './c
 export { FunnelRuntimeProvider, useFunnelRuntime, useFunnelRuntimeOptional } from './context/FunnelRuntimeContext';
 export { blockDefinitions, getBlocksByCategory } from './lib/block-definitions';
 export { createEmptyFunnel, funnelTemplates } from './lib/templates';
+export { resolveStepRoute, collectRoutingSources, ROUTE_END } from './lib/step-routing';
+export { assignStepVariant, applyStepVariants, summarizeSplitTest } from './lib/split-test';
 export type * from './types/funnel';
@@ -0,0 +1,166 @@
+/**
+ * Funnel Hidden Fields & URL Prefill Tests
+ *
+ * Covers:
+ * 1. Capturing hidden fields from query params, cookies, referrer and landing page
+ * 2. utm_source/medium/campaign always captured for lead attribution
+ * 3. ?email=...&first_name=... prefill of capture blocks and form fields
+ * 4. Wiring: runtime → AccumulatedFunnelData → submit-funnel-lead → funnel_leads.hidden_fields
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  captureHiddenFields,
+  DEFAULT_HIDDEN_FIELDS,
+  getHiddenFieldConfigs,
+  getUrlPrefill,
+  MAX_HIDDEN_FIELD_LENGTH,
+  mergeHiddenFieldValues,
+  parseCookies,
+  toParamKey,
+  type VisitorEnvironment,
+} from "@/funnel-builder-v3/lib/hidden-fields";
+import type { FunnelStep } from "@/funnel-builder-v3/types/funnel";
+
+function readSourceFile(relativePath: string): string {
+  return fs.readFileSync(path.resolve(process.cwd(), relativePath), "utf-8");
+}
+
+const env = (overrides: Partial<VisitorEnvironment> = {}): VisitorEnvironment => ({
+  search: "",
+  cookie: "",
+  referrer: "",
+  href: "https://go.example.com/consult",
+  ...overrides,
+});
+
+describe("captureHiddenFields", () => {
+  it("captures the default attribution params and referrer", () => {
+    const values = captureHiddenFields(DEFAULT_HIDDEN_FIELDS, env({
+      search: "?utm_source=facebook&utm_content=video_a&fbclid=IwAR123&gclid=&ref=partner42",
+      referrer: "https://l.facebook.com/",
+    }));
+    expect(values).toEqual({
+      utm_source: "facebook",
+      utm_content: "video_a",
+      fbclid: "IwAR123",
+      ref: "partner42",
+      referrer: "https://l.facebook.com/",
+    });
+  });
+
+  it("reads custom params, cookies and the landing page, with defaults", () => {
+    const values = captureHiddenFields(
+      [
+        { id: "1", key: "affiliate", source: "query", param: "aff" },
+        { id: "2", key: "fbp", source: "cookie", param: "_fbp" },
+        { id: "3", key: "landing", source: "landing_page" },
+        { id: "4", key: "offer", source: "query", defaultValue: "spring" },
+        { id: "5", key: "", source: "query" },
+      ],
+      env({ search: "?aff=jo", cookie: "_ga=GA1.1; _fbp=fb.1.169%2Fx", href: "https://go.example.com/consult?aff=jo" }),
+    );
+    expect(values).toEqual({
+      affiliate: "jo",
+      fbp: "fb.1.169/x",
+      landing: "https://go.example.com/consult",
+      offer: "spring",
+    });
+  });
+
+  it("always captures utm_source/medium/campaign, even when not configured", () => {
+    const values = captureHiddenFields([], env({ search: "?utm_source=google&utm_medium=cpc&utm_campaign=brand" }));
+    expect(values).toEqual({ utm_source: "google", utm_medium: "cpc", utm_campaign: "brand" });
+  });
+
+  it("truncates oversized values", () => {
+    const values = captureHiddenFields([], env({ search: `?utm_source=${"x".repeat(2000)}` }));
+    expect(values.utm_source).toHaveLength(MAX_HIDDEN_FIELD_LENGTH);
+  });
+
+  it("uses defaults until the funnel configures its own list", () => {
+    const settings = { primaryColor: "#000000", fontFamily: "Inter" };
+    expect(getHiddenFieldConfigs({ settings })).toBe(DEFAULT_HIDDEN_FIELDS);
+    expect(getHiddenFieldConfigs({ settings: { ...settings, hiddenFields: [] } })).toEqual([]);
+  });
+
+  it("lets the current page load win over values stored earlier in the session", () => {
+    expect(mergeHiddenFieldValues({ utm_source: "old", gclid: "g1" }, { utm_source: "new" }))
+      .toEqual({ utm_source: "new", gclid: "g1" });
+  });
+
+  it("parses cookies defensively", () => {
+    expect(parseCookies("a=1; bad; b=%E0%A4%A; =x")).toEqual({ a: "1", b: "%E0%A4%A" });
+  });
+});
+
+describe("getUrlPrefill", () => {
+  const steps = [
+    {
+      id: "s1",
+      name: "Capture",
+      type: "capture",
+      settings: {},
+      blocks: [
+        { id: "b1", type: "email-capture", content: {}, styles: {} },
+        {
+          id: "b2",
+          type: "form",
+          styles: {},
+          content: {
+            fields: [
+              { id: "f1", type: "text", label: "First Name" },
+              { id: "f2", type: "email", label: "Work email" },
+              { id: "f3", type: "text", label: "Company", trackingId: "fld_co" },
+              { id: "f4", type: "phone", label: "Mobile number" },
+            ],
+          },
+        },
+      ],
+    },
+  ] as unknown as FunnelStep[];
+
+  it("prefills capture blocks and matching form fields", () => {
+    expect(getUrlPrefill(steps, "?email=jo%40example.com&first_name=Jo&fld_co=Acme&phone=4045551212")).toEqual({
+      email: "jo@example.com",
+      f1: "Jo",
+      f2: "jo@example.com",
+      f3: "Acme",
+      f4: "4045551212",
+    });
+  });
+
+  it("returns nothing without matching params", () => {
+    expect(getUrlPrefill(steps, "?utm_source=google")).toEqual({});
+  });
+
+  it("slugs labels into param keys", () => {
+    expect(toParamKey(" What's your budget? ")).toBe("what_s_your_budget");
+  });
+});
+
+describe("hidden fields wiring", () => {
+  it("carries hidden fields in AccumulatedFunnelData", () => {
+    const source = readSourceFile("src/funnel-builder-v3/context/FunnelRuntimeContext.tsx");
+    expect(source).toContain("hiddenFields: Record<string, string>;");
+    expect(source).toContain("hiddenFields: hiddenFieldsRef.current");
+  });
+
+  it("sends hidden fields and UTM from the v3 runtime", () => {
+    const source = readSourceFile("src/funnel-builder-v3/runtime/FunnelV3Renderer.tsx");
+    expect(source).toContain("hidden_fields: hiddenFields");
+    expect(source).toContain("utm_source: hiddenFields.utm_source");
+    expect(source).toContain("initialFormData={prefill}");
+    expect(readSourceFile("src/flow-canvas/shared/hooks/useUnifiedLeadSubmit.ts"))
+      .toContain("hidden_fields: payload.metadata?.hidden_fields");
+  });
+
+  it("stores hidden fields on the lead and falls back to them for UTM columns", () => {
+    const source = readSourceFile("supabase/functions/submit-funnel-lead/index.ts");
+    expect(source).toContain("sanitizeHiddenFields(body.hidden_fields)");
+    expect(source).toContain("body.utm_source ?? hidden_fields.utm_source");
+    expect(source).toMatch(/hidden_fields: \{ \.\.\.\(existingLead\.hidden_fields \|\| \{\}\), \.\.\.hidden_fields \}/);
+  });
+});
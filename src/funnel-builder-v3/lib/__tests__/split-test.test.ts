@@ -0,0 +1,224 @@
+/**
+ * Funnel Step Split Test Tests
+ *
+ * Covers:
+ * 1. hashToUnit against FNV-1a reference values
+ * 2. assignStepVariant: same session → same variant, steps bucketed
+ *    independently, traffic split by weight, inactive tests skipped
+ * 3. wilsonInterval and twoProportionPValue against known values
+ * 4. summarizeSplitTest winner rules, including the Bonferroni split
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MIN_VISITORS_PER_VARIANT,
+  SIGNIFICANCE_LEVEL,
+  assignStepVariant,
+  hashToUnit,
+  summarizeSplitTest,
+  twoProportionPValue,
+  wilsonInterval,
+  type VariantCounts,
+} from "@/funnel-builder-v3/lib/split-test";
+import type { FunnelStep, StepSplitTest } from "@/funnel-builder-v3/types/funnel";
+
+function splitTest(weights: number[], enabled = true): StepSplitTest {
+  const variants = weights.map((weight, i) => ({
+    id: `v${i}`,
+    name: i === 0 ? "Control" : `Variant ${String.fromCharCode(65 + i)}`,
+    weight,
+  }));
+  return { enabled, variants, editingVariantId: "v0" };
+}
+
+function testedStep(id: string, test: StepSplitTest | undefined): FunnelStep {
+  return { id, name: id, type: "form", slug: id, blocks: [], settings: { splitTest: test } } as unknown as FunnelStep;
+}
+
+function counts(variantId: string, visitors: number, conversions: number): VariantCounts {
+  return { variantId, visitors, conversions };
+}
+
+function shares(step: FunnelStep, sessions: number): Record<string, number> {
+  const tally: Record<string, number> = {};
+  for (let i = 0; i < sessions; i++) {
+    const variantId = assignStepVariant(step, `session-${i}`)!;
+    tally[variantId] = (tally[variantId] || 0) + 1;
+  }
+  return Object.fromEntries(Object.entries(tally).map(([id, n]) => [id, n / sessions]));
+}
+
+describe("hashToUnit", () => {
+  it("maps the 32-bit FNV-1a hash onto [0, 1)", () => {
+    expect(hashToUnit("")).toBe(0x811c9dc5 / 2 ** 32);
+    expect(hashToUnit("a")).toBe(0xe40c292c / 2 ** 32);
+    expect(hashToUnit("foobar")).toBe(0xbf9cf968 / 2 ** 32);
+  });
+
+  it("stays in range", () => {
+    for (let i = 0; i < 1000; i++) {
+      const value = hashToUnit(`session-${i}:step`);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("assignStepVariant", () => {
+  it("gives a session the same variant every time", () => {
+    const step = testedStep("s1", splitTest([50, 50]));
+    for (let i = 0; i < 50; i++) {
+      const first = assignStepVariant(step, `session-${i}`);
+      expect(assignStepVariant(step, `session-${i}`)).toBe(first);
+      expect(assignStepVariant(structuredClone(step), `session-${i}`)).toBe(first);
+    }
+  });
+
+  it("buckets separate steps independently", () => {
+    // Step IDs are UUIDs in saved funnels
+    const a = testedStep("5b0f4e1c-8d2a-4c8e-9a57-0d4f3b6e2a11", splitTest([50, 50]));
+    const b = testedStep("c93a7d20-1f6b-4e42-b8d3-7a9e5c01f4b6", splitTest([50, 50]));
+    let differ = 0;
+    for (let i = 0; i < 1000; i++) {
+      if (assignStepVariant(a, `session-${i}`) !== assignStepVariant(b, `session-${i}`)) differ++;
+    }
+    // Independent 50/50 buckets disagree about half the time
+    expect(differ / 1000).toBeGreaterThan(0.4);
+    expect(differ / 1000).toBeLessThan(0.6);
+  });
+
+  it("splits traffic by relative weight", () => {
+    const even = shares(testedStep("s1", splitTest([50, 50])), 10000);
+    expect(even.v0).toBeCloseTo(0.5, 1);
+    expect(even.v1).toBeCloseTo(0.5, 1);
+
+    const skewed = shares(testedStep("s1", splitTest([8, 2])), 10000);
+    expect(skewed.v0).toBeCloseTo(0.8, 1);
+    expect(skewed.v1).toBeCloseTo(0.2, 1);
+
+    const three = shares(testedStep("s1", splitTest([50, 30, 20])), 10000);
+    expect(three.v0).toBeCloseTo(0.5, 1);
+    expect(three.v1).toBeCloseTo(0.3, 1);
+    expect(three.v2).toBeCloseTo(0.2, 1);
+  });
+
+  it("never assigns a variant with no weight", () => {
+    const split = shares(testedStep("s1", splitTest([0, 1, -5, 1])), 2000);
+    expect(Object.keys(split).sort()).toEqual(["v1", "v3"]);
+  });
+
+  it("returns null when the step is not being tested", () => {
+    expect(assignStepVariant(testedStep("s1", undefined), "session-1")).toBeNull();
+    expect(assignStepVariant(testedStep("s1", splitTest([50, 50], false)), "session-1")).toBeNull();
+    expect(assignStepVariant(testedStep("s1", splitTest([100])), "session-1")).toBeNull();
+    expect(assignStepVariant(testedStep("s1", splitTest([0, 0])), "session-1")).toBeNull();
+  });
+});
+
+describe("wilsonInterval", () => {
+  it("matches known 95% intervals", () => {
+    const eightOfTen = wilsonInterval(8, 10);
+    expect(eightOfTen.low).toBeCloseTo(0.4902, 4);
+    expect(eightOfTen.high).toBeCloseTo(0.9433, 4);
+
+    const half = wilsonInterval(50, 100);
+    expect(half.low).toBeCloseTo(0.4038, 4);
+    expect(half.high).toBeCloseTo(0.5962, 4);
+  });
+
+  it("stays inside [0, 1] at the extremes", () => {
+    const none = wilsonInterval(0, 10);
+    expect(none.low).toBe(0);
+    expect(none.high).toBeCloseTo(0.2775, 4);
+
+    const all = wilsonInterval(10, 10);
+    expect(all.low).toBeCloseTo(0.7225, 4);
+    expect(all.high).toBeCloseTo(1, 10);
+  });
+
+  it("is empty without visitors", () => {
+    expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 0 });
+  });
+});
+
+describe("twoProportionPValue", () => {
+  it("matches the pooled two-sided z-test", () => {
+    // 50% vs 65% of 100: z = 2.1456
+    expect(twoProportionPValue(counts("a", 100, 50), counts("b", 100, 65))).toBeCloseTo(0.0319, 4);
+    // 10% vs 13% of 1000: z = 2.1027
+    expect(twoProportionPValue(counts("a", 1000, 100), counts("b", 1000, 130))).toBeCloseTo(0.0355, 4);
+  });
+
+  it("is symmetric in direction", () => {
+    const a = counts("a", 1000, 100);
+    const b = counts("b", 1000, 60);
+    expect(twoProportionPValue(a, b)).toBeCloseTo(0.00098, 5);
+    expect(twoProportionPValue(b, a)).toBeCloseTo(twoProportionPValue(a, b), 10);
+  });
+
+  it("is 1 when there is nothing to compare", () => {
+    expect(twoProportionPValue(counts("a", 100, 20), counts("b", 100, 20))).toBeCloseTo(1, 6);
+    expect(twoProportionPValue(counts("a", 0, 0), counts("b", 100, 20))).toBe(1);
+    expect(twoProportionPValue(counts("a", 100, 0), counts("b", 100, 0))).toBe(1);
+  });
+});
+
+describe("summarizeSplitTest", () => {
+  it("calls a challenger that beats the control significantly", () => {
+    const results = summarizeSplitTest(splitTest([50, 50]), [counts("v0", 1000, 100), counts("v1", 1000, 130)]);
+    expect(results.alpha).toBe(SIGNIFICANCE_LEVEL);
+    expect(results.hasEnoughData).toBe(true);
+    expect(results.winnerId).toBe("v1");
+
+    const [control, challenger] = results.variants;
+    expect(control).toMatchObject({ isControl: true, rate: 0.1, lift: null, pValue: null, significant: false });
+    expect(challenger.rate).toBeCloseTo(0.13, 10);
+    expect(challenger.lift).toBeCloseTo(0.3, 10);
+    expect(challenger.pValue).toBeCloseTo(0.0355, 4);
+    expect(challenger.significant).toBe(true);
+  });
+
+  it("splits the significance level across challengers", () => {
+    const results = summarizeSplitTest(splitTest([1, 1, 1]), [
+      counts("v0", 1000, 100),
+      counts("v1", 1000, 130),
+      counts("v2", 1000, 100),
+    ]);
+    // p ≈ 0.0355 clears 0.05 but not 0.025
+    expect(results.alpha).toBeCloseTo(SIGNIFICANCE_LEVEL / 2, 10);
+    expect(results.variants[1].significant).toBe(false);
+    expect(results.winnerId).toBeNull();
+  });
+
+  it("picks the best of several significant challengers", () => {
+    const results = summarizeSplitTest(splitTest([1, 1, 1]), [
+      counts("v0", 1000, 100),
+      counts("v1", 1000, 150),
+      counts("v2", 1000, 180),
+    ]);
+    expect(results.variants.every(v => v.isControl || v.significant)).toBe(true);
+    expect(results.winnerId).toBe("v2");
+  });
+
+  it("keeps the control when every challenger is significantly worse", () => {
+    const results = summarizeSplitTest(splitTest([50, 50]), [counts("v0", 1000, 100), counts("v1", 1000, 60)]);
+    expect(results.variants[1].lift).toBeCloseTo(-0.4, 10);
+    expect(results.winnerId).toBe("v0");
+  });
+
+  it("waits for enough visitors on every variant", () => {
+    const results = summarizeSplitTest(splitTest([50, 50]), [
+      counts("v0", MIN_VISITORS_PER_VARIANT - 1, 0),
+      counts("v1", 1000, 900),
+    ]);
+    expect(results.hasEnoughData).toBe(false);
+    expect(results.winnerId).toBeNull();
+  });
+
+  it("treats variants missing from the counts as having no traffic", () => {
+    const results = summarizeSplitTest(splitTest([50, 50]), [counts("v0", 200, 20)]);
+    expect(results.variants[1]).toMatchObject({ visitors: 0, conversions: 0, rate: 0, pValue: 1, significant: false });
+    expect(results.variants[1].interval).toEqual({ low: 0, high: 0 });
+    expect(results.hasEnoughData).toBe(false);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Funnel Step Routing Tests
+ *
+ * Covers:
+ * 1. parseRoutingNumber on budget-style answers ("$5k", "10,000+", ranges, "Under ...")
+ * 2. Each condition operator against choice, dropdown, form and free-text answers
+ * 3. Rule logic: and / or, and rules without conditions never matching
+ * 4. resolveStepRoute order: first matching rule, default, nextStepId, next step, end
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  ROUTE_END,
+  collectRoutingSources,
+  evaluateRoutingCondition,
+  evaluateRoutingRule,
+  parseRoutingNumber,
+  resolveStepRoute,
+  type RoutingAnswers,
+} from "@/funnel-builder-v3/lib/step-routing";
+import type {
+  FunnelStep,
+  RoutingCondition,
+  RoutingOperator,
+  StepRouting,
+  StepRoutingRule,
+} from "@/funnel-builder-v3/types/funnel";
+
+const qualify = {
+  id: "s1",
+  name: "Qualify",
+  type: "form",
+  settings: {},
+  blocks: [
+    {
+      id: "q1",
+      type: "quiz",
+      styles: {},
+      content: {
+        question: "Are you the decision maker?",
+        options: [
+          { id: "o_yes", text: "Yes" },
+          { id: "o_no", text: "No" },
+        ],
+      },
+    },
+    {
+      id: "d1",
+      type: "dropdown",
+      styles: {},
+      content: {
+        label: "Monthly budget",
+        placeholder: "Pick one",
+        options: [
+          { id: "d_high", value: "5000", label: "$5k+" },
+          { id: "d_low", value: "low", label: "Under $5k" },
+        ],
+      },
+    },
+    {
+      id: "f",
+      type: "form",
+      styles: {},
+      content: {
+        fields: [
+          { id: "f_name", type: "text", label: "Name" },
+          { id: "f_budget", type: "text", label: "Budget" },
+          { id: "f_plan", type: "select", label: "Plan", options: ["Basic", "Pro"] },
+        ],
+      },
+    },
+  ],
+};
+
+function buildSteps(settings: FunnelStep["settings"] = {}): FunnelStep[] {
+  return [
+    { ...qualify, settings },
+    { id: "s2", name: "Book a call", type: "appointment", settings: {}, blocks: [] },
+    { id: "s3", name: "Nurture", type: "content", settings: {}, blocks: [] },
+    { id: "s4", name: "Thanks", type: "thank_you", settings: {}, blocks: [] },
+  ] as unknown as FunnelStep[];
+}
+
+const sources = collectRoutingSources(buildSteps());
+
+function answers(
+  formData: RoutingAnswers["formData"] = {},
+  selections: RoutingAnswers["selections"] = {}
+): RoutingAnswers {
+  return { formData, selections };
+}
+
+function condition(sourceKey: string, operator: RoutingOperator, value?: string): RoutingCondition {
+  return { id: `${sourceKey}-${operator}`, sourceKey, operator, value };
+}
+
+function matches(c: RoutingCondition, a: RoutingAnswers): boolean {
+  return evaluateRoutingCondition(c, a, sources);
+}
+
+function rule(id: string, targetStepId: string, conditions: RoutingCondition[], logic: "and" | "or" = "and"): StepRoutingRule {
+  return { id, targetStepId, conditions, logic };
+}
+
+describe("parseRoutingNumber", () => {
+  it("parses plain numbers, thousands separators and k / m suffixes", () => {
+    expect(parseRoutingNumber("42")).toBe(42);
+    expect(parseRoutingNumber("10,000+")).toBe(10000);
+    expect(parseRoutingNumber("$5k")).toBe(5000);
+    expect(parseRoutingNumber("2.5K per month")).toBe(2500);
+    expect(parseRoutingNumber("1.5M")).toBe(1_500_000);
+  });
+
+  it("takes the lower bound of a range", () => {
+    expect(parseRoutingNumber("$5k - $10k")).toBe(5000);
+    expect(parseRoutingNumber("1,000-2,000")).toBe(1000);
+  });
+
+  it("puts 'under' answers just below the number", () => {
+    expect(parseRoutingNumber("Under $5k")).toBeCloseTo(4999.99, 5);
+    expect(parseRoutingNumber("less than 100")).toBeCloseTo(99.99, 5);
+    expect(parseRoutingNumber("< 50")).toBeCloseTo(49.99, 5);
+    expect(parseRoutingNumber("Under $5k")!).toBeLessThan(5000);
+  });
+
+  it("returns null when there is no number", () => {
+    expect(parseRoutingNumber("no budget yet")).toBeNull();
+    expect(parseRoutingNumber("")).toBeNull();
+  });
+});
+
+describe("collectRoutingSources", () => {
+  it("lists quiz, dropdown and form answers in funnel order", () => {
+    expect(sources.map(s => [s.key, s.kind, s.store])).toEqual([
+      ["q1", "choice", "selection"],
+      ["d1", "choice", "formData"],
+      ["f_name", "text", "formData"],
+      ["f_budget", "text", "formData"],
+      ["f_plan", "choice", "formData"],
+    ]);
+  });
+});
+
+describe("evaluateRoutingCondition", () => {
+  it("equals / not_equals match choice answers by option ID or label", () => {
+    const yes = answers({}, { q1: "o_yes" });
+    expect(matches(condition("q1", "equals", "o_yes"), yes)).toBe(true);
+    expect(matches(condition("q1", "equals", "yes"), yes)).toBe(true);
+    expect(matches(condition("q1", "equals", "o_no"), yes)).toBe(false);
+    expect(matches(condition("q1", "not_equals", "o_no"), yes)).toBe(true);
+    expect(matches(condition("q1", "not_equals", "o_yes"), yes)).toBe(false);
+  });
+
+  it("multi-select answers match when any option matches, negations when none do", () => {
+    const both = answers({}, { q1: ["o_yes", "o_no"] });
+    expect(matches(condition("q1", "equals", "o_no"), both)).toBe(true);
+    expect(matches(condition("q1", "not_equals", "o_no"), both)).toBe(false);
+  });
+
+  it("equals on free text ignores case and surrounding whitespace in the rule", () => {
+    const a = answers({ f_plan: "Pro", f_name: "Jane Doe" });
+    expect(matches(condition("f_plan", "equals", " pro "), a)).toBe(true);
+    expect(matches(condition("f_name", "equals", "jane"), a)).toBe(false);
+  });
+
+  it("contains / not_contains do case-insensitive substring matches", () => {
+    const a = answers({ f_name: "Jane Doe" });
+    expect(matches(condition("f_name", "contains", "DOE"), a)).toBe(true);
+    expect(matches(condition("f_name", "contains", "smith"), a)).toBe(false);
+    expect(matches(condition("f_name", "not_contains", "smith"), a)).toBe(true);
+    expect(matches(condition("f_name", "not_contains", "doe"), a)).toBe(false);
+  });
+
+  it("an empty contains value never matches and an empty not_contains always does", () => {
+    const a = answers({ f_name: "Jane Doe" });
+    expect(matches(condition("f_name", "contains", ""), a)).toBe(false);
+    expect(matches(condition("f_name", "not_contains"), a)).toBe(true);
+  });
+
+  it("numeric operators compare parsed free-text answers", () => {
+    const a = answers({ f_budget: "$10k - $20k" });
+    expect(matches(condition("f_budget", "greater_than", "5000"), a)).toBe(true);
+    expect(matches(condition("f_budget", "greater_than_or_equal", "$10k"), a)).toBe(true);
+    expect(matches(condition("f_budget", "greater_than", "$10k"), a)).toBe(false);
+    expect(matches(condition("f_budget", "less_than", "10000"), a)).toBe(false);
+    expect(matches(condition("f_budget", "less_than_or_equal", "10,000"), a)).toBe(true);
+  });
+
+  it("numeric operators read dropdown options by value, then by label", () => {
+    expect(matches(condition("d1", "greater_than_or_equal", "5000"), answers({ d1: "5000" }))).toBe(true);
+    // "low" has no number of its own, so the "Under $5k" label is used
+    expect(matches(condition("d1", "less_than", "5000"), answers({ d1: "low" }))).toBe(true);
+    expect(matches(condition("d1", "greater_than_or_equal", "5000"), answers({ d1: "low" }))).toBe(false);
+  });
+
+  it("numeric operators fail when either side has no number", () => {
+    expect(matches(condition("f_budget", "greater_than", "lots"), answers({ f_budget: "9000" }))).toBe(false);
+    expect(matches(condition("f_budget", "less_than", "5000"), answers({ f_budget: "not sure" }))).toBe(false);
+    expect(matches(condition("f_budget", "less_than", "5000"), answers())).toBe(false);
+  });
+
+  it("is_empty / is_not_empty treat blank and missing answers as empty", () => {
+    expect(matches(condition("f_name", "is_empty"), answers())).toBe(true);
+    expect(matches(condition("f_name", "is_empty"), answers({ f_name: "   " }))).toBe(true);
+    expect(matches(condition("f_name", "is_not_empty"), answers({ f_name: "Jane" }))).toBe(true);
+    expect(matches(condition("q1", "is_not_empty"), answers({}, { q1: [] }))).toBe(false);
+  });
+
+  it("fails closed on an unknown operator", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(matches(condition("f_name", "starts_with" as RoutingOperator, "J"), answers({ f_name: "Jane" }))).toBe(false);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("evaluateRoutingRule", () => {
+  const a = answers({ f_plan: "Pro" }, { q1: "o_no" });
+  const planIsPro = condition("f_plan", "equals", "Pro");
+  const decisionMaker = condition("q1", "equals", "o_yes");
+
+  it("requires every condition with 'and' and any with 'or'", () => {
+    expect(evaluateRoutingRule(rule("r", "s2", [planIsPro, decisionMaker], "and"), a, sources)).toBe(false);
+    expect(evaluateRoutingRule(rule("r", "s2", [planIsPro, decisionMaker], "or"), a, sources)).toBe(true);
+  });
+
+  it("never matches a rule without conditions", () => {
+    expect(evaluateRoutingRule(rule("r", "s2", []), a, sources)).toBe(false);
+    expect(evaluateRoutingRule(rule("r", "s2", [], "or"), a, sources)).toBe(false);
+  });
+});
+
+describe("resolveStepRoute", () => {
+  const highBudget = condition("f_budget", "greater_than_or_equal", "5000");
+  const decisionMaker = condition("q1", "equals", "o_yes");
+  const qualified = answers({ f_budget: "$8k" }, { q1: "o_yes" });
+
+  function route(routing: StepRouting | undefined, a: RoutingAnswers, extra: FunnelStep["settings"] = {}) {
+    const steps = buildSteps({ ...extra, routing });
+    return resolveStepRoute(steps[0], a, steps);
+  }
+
+  it("takes the first matching rule, top to bottom", () => {
+    const decision = route({
+      rules: [
+        rule("r_book", "s2", [highBudget, decisionMaker]),
+        rule("r_nurture", "s3", [highBudget]),
+      ],
+    }, qualified);
+    expect(decision).toEqual({ targetStepId: "s2", ruleId: "r_book", reason: "rule" });
+
+    const notDecisionMaker = answers({ f_budget: "$8k" }, { q1: "o_no" });
+    expect(route({
+      rules: [
+        rule("r_book", "s2", [highBudget, decisionMaker]),
+        rule("r_nurture", "s3", [highBudget]),
+      ],
+    }, notDecisionMaker)).toEqual({ targetStepId: "s3", ruleId: "r_nurture", reason: "rule" });
+  });
+
+  it("routes to the end of the funnel", () => {
+    expect(route({ rules: [rule("r_end", ROUTE_END, [decisionMaker])] }, qualified))
+      .toEqual({ targetStepId: ROUTE_END, ruleId: "r_end", reason: "rule" });
+  });
+
+  it("skips rules whose target step was deleted", () => {
+    expect(route({
+      rules: [
+        rule("r_stale", "deleted-step", [decisionMaker]),
+        rule("r_book", "s2", [decisionMaker]),
+      ],
+    }, qualified)).toEqual({ targetStepId: "s2", ruleId: "r_book", reason: "rule" });
+  });
+
+  it("falls back to the default step when no rule matches", () => {
+    expect(route({ rules: [rule("r_book", "s2", [highBudget])], defaultStepId: "s3" }, answers({ f_budget: "$1k" })))
+      .toEqual({ targetStepId: "s3", reason: "default" });
+  });
+
+  it("falls back to nextStepId when there is no usable default", () => {
+    expect(route({ rules: [], defaultStepId: "deleted-step" }, qualified, { nextStepId: "s4" }))
+      .toEqual({ targetStepId: "s4", reason: "next_step_id" });
+    expect(route(undefined, qualified, { nextStepId: ROUTE_END }))
+      .toEqual({ targetStepId: ROUTE_END, reason: "next_step_id" });
+  });
+
+  it("falls back to the next step in order, then the end of the funnel", () => {
+    expect(route(undefined, qualified, { nextStepId: "deleted-step" }))
+      .toEqual({ targetStepId: "s2", reason: "sequential" });
+
+    const steps = buildSteps();
+    expect(resolveStepRoute(steps[3], qualified, steps)).toEqual({ targetStepId: ROUTE_END, reason: "end" });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Hidden Fields & URL Prefill
+ *
+ * PURE FUNCTIONS that read attribution data from the visitor's landing URL,
+ * cookies and referrer (Funnel.settings.hiddenFields, see types/funnel.ts),
+ * and prefill form answers from query params like ?email=...&first_name=...
+ *
+ * Hidden field values travel with every submission as `hidden_fields` and are
+ * stored on the funnel lead; utm_source/medium/campaign also fill the lead's
+ * attribution columns. They never show up as form answers.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type {
+  FormContent,
+  Funnel,
+  FunnelStep,
+  HiddenFieldConfig,
+  HiddenFieldSource,
+} from '@/funnel-builder-v3/types/funnel';
+
+/** Captured even when a funnel's hidden field list leaves them out - lead attribution depends on them */
+export const ATTRIBUTION_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign'] as const;
+
+/** Values longer than this are cut; query strings can carry arbitrary payloads */
+export const MAX_HIDDEN_FIELD_LENGTH = 500;
+
+const DEFAULT_QUERY_KEYS = [
+  'utm_source',
+  'utm_medium',
+  'utm_campaign',
+  'utm_term',
+  'utm_content',
+  'fbclid',
+  'gclid',
+  'ref',
+];
+
+/** Used while Funnel.settings.hiddenFields is unset */
+export const DEFAULT_HIDDEN_FIELDS: HiddenFieldConfig[] = [
+  ...DEFAULT_QUERY_KEYS.map((key) => ({ id: `default_${key}`, key, source: 'query' as const })),
+  { id: 'default_referrer', key: 'referrer', source: 'referrer' },
+];
+
+export interface VisitorEnvironment {
+  search: string; // location.search
+  cookie: string; // document.cookie
+  referrer: string; // document.referrer
+  href: string; // location.href
+}
+
+export type HiddenFieldValues = Record<string, string>;
+
+export function getHiddenFieldConfigs(funnel: Pick<Funnel, 'settings'>): HiddenFieldConfig[] {
+  const configured = funnel.settings?.hiddenFields;
+  return Array.isArray(configured) ? configured : DEFAULT_HIDDEN_FIELDS;
+}
+
+export function parseCookies(cookie: string): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of cookie.split(';')) {
+    const index = part.indexOf('=');
+    const name = index > 0 ? part.slice(0, index).trim() : '';
+    if (!name) continue;
+    const raw = part.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(raw);
+    } catch {
+      cookies[name] = raw;
+    }
+  }
+  return cookies;
+}
+
+function clean(value: string | null | undefined): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, MAX_HIDDEN_FIELD_LENGTH) : null;
+}
+
+function readSource(
+  source: HiddenFieldSource,
+  name: string,
+  params: URLSearchParams,
+  cookies: Record<string, string>,
+  env: VisitorEnvironment
+): string | null {
+  switch (source) {
+    case 'query':
+      return params.get(name);
+    case 'cookie':
+      return cookies[name] ?? null;
+    case 'referrer':
+      return env.referrer;
+    case 'landing_page':
+      // Without the query string - the params are captured separately
+      return env.href.split('?')[0];
+  }
+}
+
+/** Resolve every hidden field for this visit. Empty fields without a default are omitted. */
+export function captureHiddenFields(
+  configs: HiddenFieldConfig[],
+  env: VisitorEnvironment
+): HiddenFieldValues {
+  const params = new URLSearchParams(env.search);
+  const cookies = parseCookies(env.cookie);
+  const values: HiddenFieldValues = {};
+
+  for (const config of configs) {
+    const key = config.key?.trim();
+    if (!key) continue;
+    const value =
+      clean(readSource(config.source, config.param?.trim() || key, params, cookies, env)) ??
+      clean(config.defaultValue);
+    if (value !== null) values[key] = value;
+  }
+
+  for (const key of ATTRIBUTION_PARAMS) {
+    if (values[key] === undefined) {
+      const value = clean(params.get(key));
+      if (value !== null) values[key] = value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Values from this page load win; earlier captures in the same session fill
+ * the gaps (e.g. a reload that dropped the query string).
+ */
+export function mergeHiddenFieldValues(
+  stored: HiddenFieldValues | null,
+  current: HiddenFieldValues
+): HiddenFieldValues {
+  return { ...(stored || {}), ...current };
+}
+
+// ============ URL PREFILL ============
+
+/** "First Name" → "first_name" */
+export function toParamKey(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+const EMAIL_PARAMS = ['email', 'email_address'];
+const PHONE_PARAMS = ['phone', 'phone_number', 'mobile'];
+
+function firstParam(params: URLSearchParams, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = clean(params.get(key));
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+/**
+ * Form answers to seed from the URL, keyed the way the blocks store them:
+ * 'email' / 'phone' for the capture blocks, field IDs for form fields.
+ * A form field matches a param named after its ID, tracking ID or label;
+ * email and phone fields also accept ?email= / ?phone=.
+ */
+export function getUrlPrefill(steps: FunnelStep[], search: string): Record<string, string> {
+  const params = new URLSearchParams(search);
+  const prefill: Record<string, string> = {};
+  const email = firstParam(params, EMAIL_PARAMS);
+  const phone = firstParam(params, PHONE_PARAMS);
+
+  for (const step of steps) {
+    for (const block of step.blocks || []) {
+      if (block.type === 'email-capture' && email) {
+        prefill.email = email;
+      } else if (block.type === 'phone-capture' && phone) {
+        prefill.phone = phone;
+      } else if (block.type === 'form') {
+        const fields = (block.content as FormContent)?.fields || [];
+        for (const field of fields) {
+          const candidates = [field.id, field.trackingId, field.label && toParamKey(field.label)]
+            .filter((key): key is string => !!key);
+          const value =
+            firstParam(params, candidates) ??
+            (field.type === 'email' ? email : field.type === 'phone' ? phone : null);
+          if (value !== null) prefill[field.id] = value;
+        }
+      }
+    }
+  }
+
+  return prefill;
+}
+
+// ============ EDITING ============
+
+export function createHiddenField(): HiddenFieldConfig {
+  return { id: uuid(), key: '', source: 'query' };
+}
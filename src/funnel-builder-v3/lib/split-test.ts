@@ -0,0 +1,286 @@
+/**
+ * Step Split Testing
+ *
+ * PURE FUNCTIONS for A/B testing a single funnel step. Variants are stored in
+ * FunnelStep.settings.splitTest (see types/funnel.ts); each one is a full copy
+ * of the step's blocks that keeps the original block IDs, so answers, routing
+ * rules and tracking IDs behave the same whichever variant a visitor sees.
+ *
+ * ASSIGNMENT: a visitor's variant is a hash of their funnel session ID and the
+ * step ID, bucketed by variant weight. The same session always sees the same
+ * variant, and separate steps are bucketed independently.
+ *
+ * STATS: per-variant conversion with Wilson score intervals, and a two-sided
+ * two-proportion z-test of every challenger against the control.
+ */
+
+import { v4 as uuid } from 'uuid';
+import type { Block, Funnel, FunnelStep, StepSplitTest, StepVariant } from '@/funnel-builder-v3/types/funnel';
+
+/** Visitors each variant needs before a winner can be called */
+export const MIN_VISITORS_PER_VARIANT = 30;
+
+/** Overall significance level; split across challengers (Bonferroni) */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+const Z_95 = 1.959964;
+
+// ============ ASSIGNMENT ============
+
+/** FNV-1a hash mapped to [0, 1) */
+export function hashToUnit(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/** The step's split test, if it is switched on and has traffic to split */
+export function getActiveSplitTest(step: FunnelStep): StepSplitTest | null {
+  const test = step.settings?.splitTest;
+  if (!test?.enabled || !Array.isArray(test.variants) || test.variants.length < 2) return null;
+  const totalWeight = test.variants.reduce((sum, v) => sum + Math.max(0, v.weight || 0), 0);
+  return totalWeight > 0 ? test : null;
+}
+
+/** Variant this session sees on the step, or null when the step isn't being tested */
+export function assignStepVariant(step: FunnelStep, sessionId: string): string | null {
+  const test = getActiveSplitTest(step);
+  if (!test) return null;
+
+  const weights = test.variants.map(v => Math.max(0, v.weight || 0));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let bucket = hashToUnit(`${sessionId}:${step.id}`) * total;
+
+  for (let i = 0; i < test.variants.length; i++) {
+    if (bucket < weights[i]) return test.variants[i].id;
+    bucket -= weights[i];
+  }
+  // Floating point remainder - fall back to the last weighted variant
+  return test.variants[weights.map(w => w > 0).lastIndexOf(true)].id;
+}
+
+/** Blocks a variant renders. The variant open in the editor keeps its blocks on the step itself. */
+export function getVariantBlocks(step: FunnelStep, variantId: string): Block[] {
+  const test = step.settings?.splitTest;
+  if (!test || variantId === test.editingVariantId) return step.blocks;
+  return test.variants.find(v => v.id === variantId)?.blocks ?? step.blocks;
+}
+
+/**
+ * Resolve every tested step to the variant this session was bucketed into.
+ * Returns a funnel whose steps render the assigned blocks, plus the
+ * assignments (step ID → variant ID) for analytics.
+ */
+export function applyStepVariants(
+  funnel: Funnel,
+  sessionId: string
+): { funnel: Funnel; assignments: Record<string, string> } {
+  const assignments: Record<string, string> = {};
+  const steps = funnel.steps.map(step => {
+    const variantId = assignStepVariant(step, sessionId);
+    if (!variantId) return step;
+    assignments[step.id] = variantId;
+    return { ...step, blocks: getVariantBlocks(step, variantId) };
+  });
+  return { funnel: { ...funnel, steps }, assignments };
+}
+
+// ============ EDITING ============
+
+function cloneBlocks(blocks: Block[]): Block[] {
+  return structuredClone(blocks);
+}
+
+function nextVariantName(variants: StepVariant[]): string {
+  return `Variant ${String.fromCharCode(65 + variants.length)}`;
+}
+
+/** Start a test: the current blocks become the control, plus one copy to edit */
+export function createSplitTest(step: FunnelStep): StepSplitTest {
+  const controlId = uuid();
+  return {
+    enabled: true,
+    editingVariantId: controlId,
+    variants: [
+      { id: controlId, name: 'Control', weight: 50 },
+      { id: uuid(), name: 'Variant B', weight: 50, blocks: cloneBlocks(step.blocks) },
+    ],
+  };
+}
+
+/** Add a variant copied from the blocks currently being edited */
+export function addStepVariant(step: FunnelStep): StepSplitTest | undefined {
+  const test = step.settings.splitTest;
+  if (!test) return undefined;
+  const variant: StepVariant = {
+    id: uuid(),
+    name: nextVariantName(test.variants),
+    weight: 50,
+    blocks: cloneBlocks(step.blocks),
+  };
+  return { ...test, variants: [...test.variants, variant] };
+}
+
+/** Swap another variant's blocks onto the step so the canvas edits that variant */
+export function switchEditingVariant(step: FunnelStep, variantId: string): FunnelStep {
+  const test = step.settings.splitTest;
+  if (!test || test.editingVariantId === variantId) return step;
+  const target = test.variants.find(v => v.id === variantId);
+  if (!target) return step;
+
+  return {
+    ...step,
+    blocks: target.blocks ?? step.blocks,
+    settings: {
+      ...step.settings,
+      splitTest: {
+        ...test,
+        editingVariantId: variantId,
+        variants: test.variants.map(v => {
+          if (v.id === test.editingVariantId) return { ...v, blocks: step.blocks };
+          if (v.id === variantId) return { ...v, blocks: undefined };
+          return v;
+        }),
+      },
+    },
+  };
+}
+
+/** Make a variant the step's only content and end the test */
+export function promoteStepVariant(step: FunnelStep, variantId: string): FunnelStep {
+  return {
+    ...step,
+    blocks: getVariantBlocks(step, variantId),
+    settings: { ...step.settings, splitTest: undefined },
+  };
+}
+
+/** Remove a variant. Dropping below two variants ends the test and keeps the survivor. */
+export function removeStepVariant(step: FunnelStep, variantId: string): FunnelStep {
+  const test = step.settings.splitTest;
+  if (!test) return step;
+  const remaining = test.variants.filter(v => v.id !== variantId);
+  if (remaining.length === test.variants.length) return step;
+  if (remaining.length < 2) return promoteStepVariant(step, remaining[0]?.id ?? test.editingVariantId);
+
+  const editable = test.editingVariantId === variantId ? switchEditingVariant(step, remaining[0].id) : step;
+  const editableTest = editable.settings.splitTest!;
+  return {
+    ...editable,
+    settings: {
+      ...editable.settings,
+      splitTest: { ...editableTest, variants: editableTest.variants.filter(v => v.id !== variantId) },
+    },
+  };
+}
+
+// ============ STATS ============
+
+export interface VariantCounts {
+  variantId: string;
+  visitors: number;
+  conversions: number;
+}
+
+export interface VariantResult extends VariantCounts {
+  name: string;
+  isControl: boolean;
+  rate: number;
+  /** 95% Wilson score interval for the conversion rate */
+  interval: { low: number; high: number };
+  /** Relative change vs the control's rate; null for the control or a 0% control */
+  lift: number | null;
+  /** Two-sided p-value vs the control; null for the control */
+  pValue: number | null;
+  significant: boolean;
+}
+
+export interface SplitTestResults {
+  variants: VariantResult[];
+  /** Variant to promote, null while the test is undecided */
+  winnerId: string | null;
+  /** Per-comparison threshold after the Bonferroni split */
+  alpha: number;
+  hasEnoughData: boolean;
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7) */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export function wilsonInterval(conversions: number, visitors: number, z = Z_95): { low: number; high: number } {
+  if (visitors <= 0) return { low: 0, high: 0 };
+  const p = conversions / visitors;
+  const z2 = z * z;
+  const denominator = 1 + z2 / visitors;
+  const center = (p + z2 / (2 * visitors)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / visitors + z2 / (4 * visitors * visitors))) / denominator;
+  return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+}
+
+/** Two-sided p-value for the difference between two conversion rates (pooled z-test) */
+export function twoProportionPValue(a: VariantCounts, b: VariantCounts): number {
+  if (a.visitors <= 0 || b.visitors <= 0) return 1;
+  const pooled = (a.conversions + b.conversions) / (a.visitors + b.visitors);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / a.visitors + 1 / b.visitors));
+  if (se === 0) return 1;
+  const z = (b.conversions / b.visitors - a.conversions / a.visitors) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Score each variant of a step's test against the control (its first variant).
+ * A challenger wins when it beats the control significantly and has the best
+ * rate among those that do; the control wins when every challenger is
+ * significantly worse. Variants missing from `counts` have no traffic yet.
+ */
+export function summarizeSplitTest(test: StepSplitTest, counts: VariantCounts[]): SplitTestResults {
+  const byId = new Map(counts.map(c => [c.variantId, c]));
+  const alpha = SIGNIFICANCE_LEVEL / Math.max(1, test.variants.length - 1);
+  const control = test.variants[0];
+  const controlCounts = byId.get(control?.id) ?? { variantId: control?.id, visitors: 0, conversions: 0 };
+  const controlRate = controlCounts.visitors > 0 ? controlCounts.conversions / controlCounts.visitors : 0;
+
+  const variants: VariantResult[] = test.variants.map((variant, index) => {
+    const c = byId.get(variant.id) ?? { variantId: variant.id, visitors: 0, conversions: 0 };
+    const rate = c.visitors > 0 ? c.conversions / c.visitors : 0;
+    const isControl = index === 0;
+    const pValue = isControl ? null : twoProportionPValue(controlCounts, c);
+    return {
+      variantId: variant.id,
+      name: variant.name,
+      visitors: c.visitors,
+      conversions: c.conversions,
+      isControl,
+      rate,
+      interval: wilsonInterval(c.conversions, c.visitors),
+      lift: isControl || controlRate === 0 ? null : (rate - controlRate) / controlRate,
+      pValue,
+      significant: pValue !== null && pValue < alpha,
+    };
+  });
+
+  const hasEnoughData = variants.every(v => v.visitors >= MIN_VISITORS_PER_VARIANT);
+  const challengers = variants.filter(v => !v.isControl);
+  let winnerId: string | null = null;
+
+  if (hasEnoughData && challengers.length > 0) {
+    const better = challengers
+      .filter(v => v.significant && v.rate > controlRate)
+      .sort((a, b) => b.rate - a.rate);
+    if (better.length > 0) {
+      winnerId = better[0].variantId;
+    } else if (challengers.every(v => v.significant && v.rate < controlRate)) {
+      winnerId = control.id;
+    }
+  }
+
+  return { variants, winnerId, alpha, hasEnoughData };
+}
@@ -0,0 +1,322 @@
+/**
+ * Step Routing
+ *
+ * PURE FUNCTIONS that decide which step follows the current one, based on
+ * answers collected anywhere earlier in the funnel. Rules are serializable
+ * data stored in FunnelStep.settings.routing (see types/funnel.ts), so the
+ * editor's rule builder and the runtime share one evaluator.
+ *
+ * RESOLUTION ORDER (deterministic):
+ * 1. Routing rules, top to bottom - first match wins
+ * 2. routing.defaultStepId
+ * 3. settings.nextStepId
+ * 4. Next step in order, or the end of the funnel
+ */
+
+import type {
+  Block,
+  DropdownContent,
+  FormContent,
+  FunnelStep,
+  QuizContent,
+  RoutingCondition,
+  RoutingOperator,
+  StepRoutingRule,
+} from '@/funnel-builder-v3/types/funnel';
+
+/** Target meaning "complete the funnel" (shared with settings.nextStepId) */
+export const ROUTE_END = 'end';
+
+export interface RoutingAnswers {
+  formData: Record<string, unknown>;
+  selections: Record<string, string | string[]>;
+}
+
+export interface RoutingOption {
+  id: string;
+  label: string;
+  value: string;
+}
+
+/** An answer that routing conditions can reference */
+export interface RoutingAnswerSource {
+  key: string;
+  label: string;
+  stepId: string;
+  stepName: string;
+  kind: 'choice' | 'text';
+  /** 'selection' answers are option IDs, 'formData' answers are raw values */
+  store: 'selection' | 'formData';
+  options?: RoutingOption[];
+}
+
+export interface RouteDecision {
+  targetStepId: string;
+  /** Rule that matched, undefined when a fallback was used */
+  ruleId?: string;
+  reason: 'rule' | 'default' | 'next_step_id' | 'sequential' | 'end';
+}
+
+export const ROUTING_OPERATORS: { value: RoutingOperator; label: string; needsValue: boolean; numeric?: boolean }[] = [
+  { value: 'equals', label: 'is', needsValue: true },
+  { value: 'not_equals', label: 'is not', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'not_contains', label: 'does not contain', needsValue: true },
+  { value: 'greater_than', label: '>', needsValue: true, numeric: true },
+  { value: 'greater_than_or_equal', label: '≥', needsValue: true, numeric: true },
+  { value: 'less_than', label: '<', needsValue: true, numeric: true },
+  { value: 'less_than_or_equal', label: '≤', needsValue: true, numeric: true },
+  { value: 'is_empty', label: 'is empty', needsValue: false },
+  { value: 'is_not_empty', label: 'is answered', needsValue: false },
+];
+
+// ============ ANSWER SOURCES ============
+
+const CHOICE_BLOCK_TYPES = new Set(['quiz', 'multiple-choice', 'choice', 'image-quiz', 'video-question']);
+
+function blockSources(block: Block, step: FunnelStep): RoutingAnswerSource[] {
+  const base = { stepId: step.id, stepName: step.name };
+
+  if (CHOICE_BLOCK_TYPES.has(block.type)) {
+    const content = block.content as QuizContent;
+    return [{
+      ...base,
+      key: block.id,
+      label: content.question || 'Question',
+      kind: 'choice',
+      store: 'selection',
+      options: (content.options || []).map(o => ({ id: o.id, label: o.text, value: o.text })),
+    }];
+  }
+
+  switch (block.type) {
+    case 'dropdown': {
+      const content = block.content as DropdownContent;
+      return [{
+        ...base,
+        key: block.id,
+        label: content.label || 'Dropdown',
+        kind: 'choice',
+        store: 'formData',
+        options: (content.options || []).map(o => ({ id: o.id, label: o.label, value: o.value })),
+      }];
+    }
+    case 'form':
+    case 'popup-form': {
+      const content = block.content as FormContent;
+      return (content.fields || []).map(field => ({
+        ...base,
+        key: field.id,
+        label: field.label || field.type,
+        kind: field.type === 'select' ? 'choice' as const : 'text' as const,
+        store: 'formData' as const,
+        options: field.type === 'select'
+          ? (field.options || []).map(o => ({ id: o, label: o, value: o }))
+          : undefined,
+      }));
+    }
+    case 'email-capture':
+      return [{ ...base, key: 'email', label: 'Email', kind: 'text', store: 'formData' }];
+    case 'phone-capture':
+      return [{ ...base, key: 'phone', label: 'Phone', kind: 'text', store: 'formData' }];
+    case 'message':
+    case 'date-picker':
+      return [{
+        ...base,
+        key: block.id,
+        label: (block.content as { label?: string }).label || block.type,
+        kind: 'text',
+        store: 'formData',
+      }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * List every answer a routing condition can reference, in funnel order.
+ * Capture blocks share fixed keys, so only the first one is listed.
+ */
+export function collectRoutingSources(steps: FunnelStep[]): RoutingAnswerSource[] {
+  const sources: RoutingAnswerSource[] = [];
+  const seen = new Set<string>();
+
+  for (const step of steps) {
+    for (const block of step.blocks || []) {
+      for (const source of blockSources(block, step)) {
+        if (seen.has(source.key)) continue;
+        seen.add(source.key);
+        sources.push(source);
+      }
+    }
+  }
+
+  return sources;
+}
+
+// ============ CONDITION EVALUATION ============
+
+interface ResolvedAnswer {
+  /** Option IDs matched by the answer (choice sources only) */
+  optionIds: string[];
+  /** Human-readable values: raw input, option labels and option values */
+  values: string[];
+  /** One number per answered value, for numeric operators */
+  numbers: number[];
+}
+
+function resolveAnswer(
+  key: string,
+  answers: RoutingAnswers,
+  source: RoutingAnswerSource | undefined
+): ResolvedAnswer {
+  const raw = key in answers.selections ? answers.selections[key] : answers.formData[key];
+  const rawValues = (Array.isArray(raw) ? raw : [raw])
+    .filter((v): v is string | number => typeof v === 'string' || typeof v === 'number')
+    .map(String)
+    .filter(v => v.trim() !== '');
+
+  const optionIds: string[] = [];
+  const values: string[] = [];
+  const numbers: number[] = [];
+  for (const rawValue of rawValues) {
+    const option = source?.options?.find(o => (source.store === 'selection' ? o.id : o.value) === rawValue);
+    // Options compare on their value first ("5000"), then their label ("$5k+")
+    const candidates = option ? [option.value, option.label] : [rawValue];
+    const number = candidates.map(parseRoutingNumber).find((n): n is number => n !== null);
+    if (number !== undefined) numbers.push(number);
+    if (option) {
+      optionIds.push(option.id);
+      values.push(option.label, option.value);
+    } else {
+      values.push(rawValue);
+    }
+  }
+  return { optionIds, values, numbers };
+}
+
+/**
+ * Parse budget-style answers into numbers: "$5k" → 5000, "10,000+" → 10000,
+ * "$5k - $10k" → 5000 (lower bound of a range), "Under $5k" → just below 5000.
+ */
+export function parseRoutingNumber(value: string): number | null {
+  const match = value.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([kKmM])?\b/);
+  if (!match) return null;
+  let parsed = parseFloat(match[1]);
+  if (Number.isNaN(parsed)) return null;
+  const suffix = match[2]?.toLowerCase();
+  if (suffix === 'k') parsed *= 1_000;
+  if (suffix === 'm') parsed *= 1_000_000;
+  if (/^\s*(under|less than|below|<)/i.test(value)) parsed -= 0.01;
+  return parsed;
+}
+
+function compareNumbers(operator: RoutingOperator, actual: number, expected: number): boolean {
+  switch (operator) {
+    case 'greater_than': return actual > expected;
+    case 'greater_than_or_equal': return actual >= expected;
+    case 'less_than': return actual < expected;
+    case 'less_than_or_equal': return actual <= expected;
+    default: return false;
+  }
+}
+
+/**
+ * Evaluate one condition. Multi-select answers match when ANY selected
+ * option matches (and negated operators when NONE do).
+ */
+export function evaluateRoutingCondition(
+  condition: RoutingCondition,
+  answers: RoutingAnswers,
+  sources: RoutingAnswerSource[] = []
+): boolean {
+  const source = sources.find(s => s.key === condition.sourceKey);
+  const answer = resolveAnswer(condition.sourceKey, answers, source);
+  const expected = (condition.value ?? '').trim();
+  const lower = expected.toLowerCase();
+
+  const isMatch = (value: string) => value.toLowerCase() === lower;
+  const equalsAny = answer.optionIds.includes(expected) || answer.values.some(isMatch);
+  const containsAny = answer.values.some(v => v.toLowerCase().includes(lower));
+
+  switch (condition.operator) {
+    case 'is_empty':
+      return answer.values.length === 0;
+    case 'is_not_empty':
+      return answer.values.length > 0;
+    case 'equals':
+      return equalsAny;
+    case 'not_equals':
+      return !equalsAny;
+    case 'contains':
+      return lower !== '' && containsAny;
+    case 'not_contains':
+      return lower === '' || !containsAny;
+    case 'greater_than':
+    case 'greater_than_or_equal':
+    case 'less_than':
+    case 'less_than_or_equal': {
+      const target = parseRoutingNumber(expected);
+      if (target === null) return false;
+      return answer.numbers.some(actual => compareNumbers(condition.operator, actual, target));
+    }
+    default:
+      // Unknown operator - fail closed
+      console.warn('[StepRouting] Unknown operator:', condition.operator);
+      return false;
+  }
+}
+
+/** A rule with no conditions never matches, so half-built rules can't hijack routing */
+export function evaluateRoutingRule(
+  rule: StepRoutingRule,
+  answers: RoutingAnswers,
+  sources: RoutingAnswerSource[] = []
+): boolean {
+  if (!rule.conditions?.length) return false;
+  const results = rule.conditions.map(c => evaluateRoutingCondition(c, answers, sources));
+  return rule.logic === 'or' ? results.some(Boolean) : results.every(Boolean);
+}
+
+// ============ ROUTE RESOLUTION ============
+
+function isValidTarget(targetStepId: string | undefined, steps: FunnelStep[]): targetStepId is string {
+  if (!targetStepId) return false;
+  return targetStepId === ROUTE_END || steps.some(s => s.id === targetStepId);
+}
+
+/**
+ * Decide where to go after `step`. Targets pointing at deleted steps are
+ * ignored so a stale rule falls through instead of stranding the visitor.
+ */
+export function resolveStepRoute(
+  step: FunnelStep,
+  answers: RoutingAnswers,
+  steps: FunnelStep[]
+): RouteDecision {
+  const routing = step.settings?.routing;
+
+  if (routing?.rules?.length) {
+    const sources = collectRoutingSources(steps);
+    for (const rule of routing.rules) {
+      if (isValidTarget(rule.targetStepId, steps) && evaluateRoutingRule(rule, answers, sources)) {
+        return { targetStepId: rule.targetStepId, ruleId: rule.id, reason: 'rule' };
+      }
+    }
+  }
+
+  if (isValidTarget(routing?.defaultStepId, steps)) {
+    return { targetStepId: routing!.defaultStepId!, reason: 'default' };
+  }
+
+  if (isValidTarget(step.settings?.nextStepId, steps)) {
+    return { targetStepId: step.settings.nextStepId!, reason: 'next_step_id' };
+  }
+
+  const index = steps.findIndex(s => s.id === step.id);
+  if (index >= 0 && index < steps.length - 1) {
+    return { targetStepId: steps[index + 1].id, reason: 'sequential' };
+  }
+
+  return { targetStepId: ROUTE_END, reason: 'end' };
+}
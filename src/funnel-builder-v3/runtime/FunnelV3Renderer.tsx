@@ -2,7 +2,16 @@ import React, { useCallback, useRef, useMemo, memo, useEffect } from 'react';
 import { FunnelRuntimeProvider, FunnelFormData, FunnelSelections, useFunnelRuntime } from '@/funnel-builder-v3/context/FunnelRuntimeContext';
 import { FunnelProvider } from '@/funnel-builder-v3/context/FunnelContext';
 import { BlockRenderer } from '@/funnel-builder-v3/editor/blocks/BlockRenderer';
-import { Funnel, FunnelStep } from '@/funnel-builder-v3/types/funnel';
+import { FormContent, Funnel, FunnelStep } from '@/funnel-builder-v3/types/funnel';
+import { resolveStepRoute, ROUTE_END } from '@/funnel-builder-v3/lib/step-routing';
+import { applyStepVariants } from '@/funnel-builder-v3/lib/split-test';
+import {
+  captureHiddenFields,
+  getHiddenFieldConfigs,
+  getUrlPrefill,
+  mergeHiddenFieldValues,
+  type HiddenFieldValues,
+} from '@/funnel-builder-v3/lib/hidden-fields';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { useUnifiedLeadSubmit, createUnifiedPayload, extractIdentityFromAnswers } from '@/flow-canvas/shared/hooks/useUnifiedLeadSubmit';
@@ -106,6 +115,26 @@ function extractIdentityFromFormBlocks(
   return identity;
 }
 
+// Form answers whose field is mapped to a team custom field, keyed by that field's
+// key. submit-funnel-lead stores them on the contact coerced to the field's type.
+function getMappedCustomFieldAnswers(
+  formData: Record<string, unknown>,
+  steps: FunnelStep[]
+): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+  for (const step of steps) {
+    for (const block of step.blocks || []) {
+      if (block.type !== 'form') continue;
+      for (const field of (block.content as FormContent | undefined)?.fields || []) {
+        if (field.customFieldKey && field.id in formData) {
+          mapped[field.customFieldKey] = formData[field.id];
+        }
+      }
+    }
+  }
+  return mapped;
+}
+
 // Memoized step component - only re-renders when isActive changes
 // This prevents cascade re-renders of all steps when only one step's visibility changes
 const MemoizedStep = memo(function MemoizedStep({ 
@@ -195,10 +224,51 @@ const FunnelV3Content = memo(function FunnelV3Content({
 
 
 export function FunnelV3Renderer({ document, settings, funnelId, teamId }: FunnelV3RendererProps) {
+  // Helper to get or create session ID
+  // CRITICAL: Must be defined BEFORE the funnel memo and useEffects that use it
+  const getOrCreateSessionId = useCallback(() => {
+    const storageKey = `funnel_session_${funnelId}`;
+    let sessionId = sessionStorage.getItem(storageKey);
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      sessionStorage.setItem(storageKey, sessionId);
+    }
+    return sessionId;
+  }, [funnelId]);
+
   // Convert document to Funnel format - memoized to prevent recalculation on every render
-  const funnel = useMemo(() => {
-    return convertDocumentToFunnel(document);
-  }, [document]);
+  // Split-tested steps render the variant this session is bucketed into
+  const { funnel, variantAssignments } = useMemo(() => {
+    const resolved = applyStepVariants(convertDocumentToFunnel(document), getOrCreateSessionId());
+    return { funnel: resolved.funnel, variantAssignments: resolved.assignments };
+  }, [document, getOrCreateSessionId]);
+
+  // Attribution captured on landing. Kept in sessionStorage so a reload that
+  // drops the query string doesn't lose it.
+  const hiddenFields = useMemo((): HiddenFieldValues => {
+    const storageKey = `funnel_hidden_fields_${funnelId}`;
+    const current = captureHiddenFields(getHiddenFieldConfigs(funnel), {
+      search: window.location.search,
+      cookie: window.document.cookie,
+      referrer: window.document.referrer,
+      href: window.location.href,
+    });
+    let stored: HiddenFieldValues | null = null;
+    try {
+      stored = JSON.parse(sessionStorage.getItem(storageKey) || 'null');
+    } catch {
+      stored = null;
+    }
+    const merged = mergeHiddenFieldValues(stored, current);
+    sessionStorage.setItem(storageKey, JSON.stringify(merged));
+    return merged;
+  }, [funnel, funnelId]);
+
+  // ?email=...&first_name=... prefill for capture blocks and form fields
+  const prefill = useMemo(
+    () => (funnel.settings.urlPrefill === false ? {} : getUrlPrefill(funnel.steps, window.location.search)),
+    [funnel]
+  );
 
   // Stable error handler - prevents useUnifiedLeadSubmit from recreating
   // doSubmit/submit on every render, which would cascade to handleFormSubmit
@@ -254,18 +324,6 @@ export function FunnelV3Renderer({ document, settings, funnelId, teamId }: Funne
   // beforeunload handler removed: submit-as-you-go architecture means data is
   // already submitted on every step transition, so no need for last-ditch unload saves.
   
-  // Helper to get or create session ID
-  // CRITICAL: Must be defined BEFORE useEffect that uses it (fixes build error)
-  const getOrCreateSessionId = useCallback(() => {
-    const storageKey = `funnel_session_${funnelId}`;
-    let sessionId = sessionStorage.getItem(storageKey);
-    if (!sessionId) {
-      sessionId = crypto.randomUUID();
-      sessionStorage.setItem(storageKey, sessionId);
-    }
-    return sessionId;
-  }, [funnelId]);
-  
   // Track initial funnel view (create visitor entry)
   const hasTrackedViewRef = useRef(false);
   
@@ -294,6 +352,7 @@ export function FunnelV3Renderer({ document, settings, funnelId, teamId }: Funne
       payload: {
         stepIndex: 0,
         stepName: funnel.steps[0]?.name,
+        variantId: variantAssignments[initialStepId],
       },
     }).catch((error) => {
       // Log errors (dev only - verbose logging blocks main thread in production)
@@ -307,7 +366,7 @@ export function FunnelV3Renderer({ document, settings, funnelId, teamId }: Funne
         });
       }
     });
-  }, [funnelId, teamId, funnel.steps, getOrCreateSessionId]);
+  }, [funnelId, teamId, funnel.steps, variantAssignments, getOrCreateSessionId]);
   
   const handleFormSubmit = useCallback(async (
     data: FunnelFormData, 
@@ -330,12 +389,18 @@ export function FunnelV3Renderer({ document, settings, funnelId, teamId }: Funne
     if (!currentStepId) return;
     
     const stepIndex = funnel.steps.findIndex(s => s.id === currentStepId);
-    const isLastStep = stepIndex === funnel.steps.length - 1;
     
     // Merge with accumulated data for complete lead profile
     const allData = { ...accumulatedFormDataRef.current, ...data };
     const allSelections = { ...accumulatedSelectionsRef.current, ...selections };
     
+    // Evaluate step routing with the merged answers - a rule can end the funnel
+    // early, and a final step can route back into the funnel
+    const currentStep = funnel.steps[stepIndex];
+    const isLastStep = currentStep
+      ? resolveStepRoute(currentStep, { formData: allData, selections: allSelections }, funnel.steps).targetStepId === ROUTE_END
+      : false;
+    
     // Accumulate for next step
     accumulatedFormDataRef.current = allData;
     accumulatedSelectionsRef.current = allSelections;
@@ -367,7 +432,8 @@ export function FunnelV3Renderer({ document, settings, funnelId, teamId }: Funne
     });
     
     // Build payload for this step
-    const payload = createUnifiedPayload({ ...allData, ...allSelections }, {
+    const mappedCustomFields = getMappedCustomFieldAnswers(allData, funnel.steps);
+    const payload = createUnifiedPayload({ ...allData, ...allSelections, ...mappedCustomFields }, {
       funnelId,
       teamId,
       stepId: currentStepId,
@@ -379,6 +445,12 @@ export function FunnelV3Renderer({ document, settings, funnelId, teamId }: Funne
         privacyPolicyUrl: consent.privacyPolicyUrl,
         timestamp: new Date().toISOString(),
       } : undefined,
+      metadata: {
+        utm_source: hiddenFields.utm_source ?? null,
+        utm_medium: hiddenFields.utm_medium ?? null,
+        utm_campaign: hiddenFields.utm_campaign ?? null,
+        hidden_fields: hiddenFields,
+      },
     });
     
     // Override identity from form fields if present
@@ -411,7 +483,26 @@ export function FunnelV3Renderer({ document, settings, funnelId, teamId }: Funne
     if (isLastStep) {
       hasSubmittedFinalRef.current = true;
     }
-  }, [funnelId, teamId, submit, funnel.steps]);
+    
+    // Split-tested steps record a conversion for the variant this visitor saw
+    // (once per session - the dedupe key has no timestamp)
+    const variantId = variantAssignments[currentStepId];
+    if (variantId) {
+      const sessionId = getOrCreateSessionId();
+      recordEvent({
+        funnel_id: funnelId,
+        step_id: currentStepId,
+        event_type: 'step_completed',
+        session_id: sessionId,
+        dedupe_key: `step_completed:${funnelId}:${currentStepId}:${sessionId}`,
+        payload: { stepIndex, variantId, isLastStep },
+      }).catch((error) => {
+        if (import.meta.env.DEV) {
+          console.error('[FunnelV3Renderer] Failed to record step_completed event:', error);
+        }
+      });
+    }
+  }, [funnelId, teamId, submit, funnel.steps, variantAssignments, hiddenFields, getOrCreateSessionId]);
   
   // Track step changes - fire recordEvent() for analytics (page views, time on step, etc.)
   // Form data submissions happen via handleFormSubmit on every step transition
@@ -454,6 +545,7 @@ export function FunnelV3Renderer({ document, settings, funnelId, teamId }: Funne
           stepIndex,
           stepName: currentStep?.name,
           previousStepId,
+          variantId: variantAssignments[stepId],
         },
       }).catch((error) => {
         // Silent fail - analytics are best-effort
@@ -462,13 +554,15 @@ export function FunnelV3Renderer({ document, settings, funnelId, teamId }: Funne
         }
       });
     });
-  }, [funnelId, funnel.steps, getOrCreateSessionId]);
+  }, [funnelId, funnel.steps, variantAssignments, getOrCreateSessionId]);
 
 
   return (
     <FunnelRuntimeProvider 
       funnel={funnel}
       leadId={leadId}
+      initialFormData={prefill}
+      hiddenFields={hiddenFields}
       onFormSubmit={handleFormSubmit}
       onStepChange={handleStepChange}
     >
@@ -176,6 +176,7 @@ export interface FormFieldConfig {
   required?: boolean;
   options?: string[]; // For select fields
   trackingId?: string;
+  customFieldKey?: string; // Team custom field the answer is saved to (contacts.custom_fields)
 }
 
 // Privacy consent settings for forms
@@ -673,9 +674,69 @@ export interface FunnelStep {
     backgroundImage?: string;
     conversionEvent?: string;
     nextStepId?: string;
+    routing?: StepRouting;
+    splitTest?: StepSplitTest;
   };
 }
 
+// Step routing - rules are PURE DATA, evaluated by lib/step-routing.ts
+export type RoutingOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'greater_than_or_equal'
+  | 'less_than'
+  | 'less_than_or_equal'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface RoutingCondition {
+  id: string;
+  /** Answer key: block ID for questions/dropdowns, field ID for form fields, 'email'/'phone' for capture blocks */
+  sourceKey: string;
+  operator: RoutingOperator;
+  value?: string; // Option ID for choice answers, free text or number otherwise
+}
+
+export interface StepRoutingRule {
+  id: string;
+  conditions: RoutingCondition[];
+  logic: 'and' | 'or';
+  targetStepId: string; // Step ID or 'end'
+}
+
+export interface StepRouting {
+  rules: StepRoutingRule[]; // Evaluated in order, first match wins
+  defaultStepId?: string; // Used when no rule matches; falls back to nextStepId / next step
+}
+
+// Step A/B testing - visitors are bucketed per session by lib/split-test.ts
+export interface StepVariant {
+  id: string;
+  name: string;
+  weight: number; // Relative share of traffic
+  blocks?: Block[]; // Unset for the variant being edited - its blocks live in step.blocks
+}
+
+export interface StepSplitTest {
+  enabled: boolean;
+  variants: StepVariant[]; // 2+ variants, the first is the control
+  editingVariantId: string; // Variant whose blocks are currently in step.blocks
+}
+
+// Hidden fields - captured from the visitor's URL, cookies or referrer by lib/hidden-fields.ts
+export type HiddenFieldSource = 'query' | 'cookie' | 'referrer' | 'landing_page';
+
+export interface HiddenFieldConfig {
+  id: string;
+  key: string; // Key stored on the lead, e.g. 'utm_source'
+  source: HiddenFieldSource;
+  param?: string; // Query param or cookie name; defaults to key
+  defaultValue?: string;
+}
+
 export interface Funnel {
   id: string;
   name: string;
@@ -691,6 +752,8 @@ export interface Funnel {
     privacyPolicyUrl?: string;
     metaTitle?: string;
     metaDescription?: string;
+    hiddenFields?: HiddenFieldConfig[]; // Unset = DEFAULT_HIDDEN_FIELDS
+    urlPrefill?: boolean; // Prefill form fields from ?email=...&first_name=... (default on)
     [key: string]: unknown; // Allow additional properties
   };
   // Global phone country codes (shared across all phone inputs)
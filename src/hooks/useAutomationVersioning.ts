@@ -4,6 +4,13 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import type { AutomationDefinition } from "@/lib/automations/types";
 import type { Json } from "@/integrations/supabase/types";
+import {
+  getResumeStepId,
+  planJobMigrations,
+  type InFlightJob,
+  type InFlightPolicy,
+  type StepIdMap,
+} from "@/lib/automations/workflowVersions";
 
 export interface WorkflowVersion {
   id: string;
@@ -15,10 +22,40 @@ export interface WorkflowVersion {
   published_by: string | null;
   is_active: boolean | null;
   team_id: string;
+  in_flight_policy?: string;
+  step_id_map?: Json | null;
 }
 
 export type PublishStatus = "unpublished" | "published" | "has_changes";
 
+export interface InFlightContacts {
+  /** Delayed jobs waiting to resume, with the step each one resumes at */
+  jobs: InFlightJob[];
+  activeEnrollments: number;
+}
+
+export interface PublishVersionInput {
+  definition: AutomationDefinition;
+  /** What to do with contacts mid-flow on older versions; omitted = keep them where they are */
+  inFlight?: { policy: InFlightPolicy; stepMap?: StepIdMap };
+}
+
+async function fetchInFlightJobs(automationId: string): Promise<InFlightJob[]> {
+  const { data, error } = await supabase
+    .from("scheduled_automation_jobs")
+    .select("id, workflow_version_id, context_snapshot")
+    .eq("automation_id", automationId)
+    .in("status", ["pending", "waiting_for_event"]);
+
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    workflowVersionId: row.workflow_version_id,
+    resumeStepId: getResumeStepId(row.context_snapshot as Record<string, unknown> | null),
+  }));
+}
+
 /**
  * Fetch the latest published version for an automation
  */
@@ -74,6 +111,31 @@ export function useVersionHistory(automationId: string | null) {
   });
 }
 
+/**
+ * Contacts currently mid-flow (parked in a delay or still enrolled) — publishing
+ * asks what to do with them when there are any
+ */
+export function useInFlightContacts(automationId: string | null) {
+  return useQuery({
+    queryKey: ["workflow-in-flight", automationId],
+    queryFn: async (): Promise<InFlightContacts> => {
+      if (!automationId) return { jobs: [], activeEnrollments: 0 };
+
+      const [jobs, { count }] = await Promise.all([
+        fetchInFlightJobs(automationId),
+        supabase
+          .from("automation_enrollments")
+          .select("id", { count: "exact", head: true })
+          .eq("automation_id", automationId)
+          .eq("status", "active"),
+      ]);
+
+      return { jobs, activeEnrollments: count || 0 };
+    },
+    enabled: !!automationId && automationId !== "new",
+  });
+}
+
 /**
  * Determine publish status by comparing current definition to latest published version
  */
@@ -114,7 +176,7 @@ export function usePublishVersion(automationId: string | null, teamId: string) {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async (definition: AutomationDefinition) => {
+    mutationFn: async ({ definition, inFlight }: PublishVersionInput) => {
       if (!automationId || automationId === "new") {
         throw new Error("Cannot publish an unsaved automation");
       }
@@ -160,14 +222,46 @@ export function usePublishVersion(automationId: string | null, teamId: string) {
         .eq("id", automationId);
       
       if (updateError) throw updateError;
-      
-      return newVersion;
+
+      if (!inFlight) return { ...newVersion, moved: 0, exited: 0 };
+
+      // Job moves are planned from the jobs waiting right now; any queued after
+      // this point stay on the version that queued them
+      const jobMoves = inFlight.policy === "migrate"
+        ? planJobMigrations(
+            await fetchInFlightJobs(automationId),
+            inFlight.stepMap || {},
+            newVersion.id,
+            definition,
+          )
+        : [];
+
+      const { data: applied, error: applyError } = await supabase.rpc("apply_workflow_version_in_flight", {
+        p_version_id: newVersion.id,
+        p_policy: inFlight.policy,
+        p_step_map: (inFlight.stepMap ?? null) as Json,
+        p_job_moves: jobMoves.map((move) => ({
+          job_id: move.jobId,
+          action: move.action,
+          remaining_steps: move.remainingSteps,
+        })) as Json,
+      });
+
+      if (applyError) throw applyError;
+
+      const result = (applied || {}) as { moved?: number; exited?: number };
+      return { ...newVersion, moved: result.moved || 0, exited: result.exited || 0 };
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["workflow-version-latest", automationId] });
       queryClient.invalidateQueries({ queryKey: ["workflow-versions", automationId] });
+      queryClient.invalidateQueries({ queryKey: ["workflow-in-flight", automationId] });
       queryClient.invalidateQueries({ queryKey: ["automations", teamId] });
-      toast.success(`Published v${data.version_number}`);
+      const inFlightNote = [
+        data.moved > 0 && `${data.moved} moved`,
+        data.exited > 0 && `${data.exited} exited`,
+      ].filter(Boolean).join(", ");
+      toast.success(`Published v${data.version_number}${inFlightNote ? ` (${inFlightNote})` : ""}`);
     },
     onError: (err) => {
       toast.error(err instanceof Error ? err.message : "Failed to publish");
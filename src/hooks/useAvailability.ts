@@ -1,8 +1,10 @@
 // src/hooks/useAvailability.ts
-// Hook for managing availability schedules and overrides
+// Hook for managing availability schedules and overrides.
+// A day (or override date) can have several rows - one per availability window.
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
 
@@ -28,6 +30,18 @@ export interface AvailabilityOverride {
   reason: string | null;
 }
 
+export interface TimeWindow {
+  start_time: string;
+  end_time: string;
+}
+
+export interface DateOverrideInput {
+  date: string;
+  is_available: boolean;
+  windows: TimeWindow[]; // Ignored when the date is blocked
+  reason: string | null;
+}
+
 const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
 const DEFAULT_SCHEDULES: Omit<AvailabilitySchedule, "id" | "team_id" | "user_id">[] = [
@@ -70,7 +84,8 @@ export function useAvailabilitySchedules(teamId?: string, teamWide: boolean = tr
             .select("*")
             .eq("team_id", teamId)
             .is("user_id", null)
-            .order("day_of_week");
+            .order("day_of_week")
+            .order("start_time");
           
           if (error) throw error;
           return (data || []) as unknown as AvailabilitySchedule[];
@@ -83,7 +98,8 @@ export function useAvailabilitySchedules(teamId?: string, teamWide: boolean = tr
         .select("*")
         .eq("team_id", teamId)
         .is("user_id", null)
-        .order("day_of_week");
+        .order("day_of_week")
+        .order("start_time");
 
       if (error) throw error;
 
@@ -142,6 +158,54 @@ export function useUpdateAvailability(teamId?: string, teamWide: boolean = true)
   });
 }
 
+export function useAddAvailabilityWindow(teamId?: string, teamWide: boolean = true) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (window: Omit<AvailabilitySchedule, "id" | "team_id" | "user_id">) => {
+      if (!teamId) throw new Error("No team selected");
+
+      const { error } = await supabase
+        .from("availability_schedules")
+        .insert({
+          ...window,
+          team_id: teamId,
+          user_id: teamWide ? null : user?.id,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["availability-schedules", teamId] });
+    },
+    onError: (err: Error) => {
+      toast.error("Failed to add time window: " + err.message);
+    },
+  });
+}
+
+export function useDeleteAvailabilityWindow(teamId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (scheduleId: string) => {
+      const { error } = await supabase
+        .from("availability_schedules")
+        .delete()
+        .eq("id", scheduleId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["availability-schedules", teamId] });
+    },
+    onError: (err: Error) => {
+      toast.error("Failed to remove time window: " + err.message);
+    },
+  });
+}
+
 export function useAvailabilityOverrides(teamId?: string, teamWide: boolean = true) {
   const { user } = useAuth();
 
@@ -157,7 +221,8 @@ export function useAvailabilityOverrides(teamId?: string, teamWide: boolean = tr
         .is("user_id", teamWide ? null : undefined)
         .eq("user_id", teamWide ? undefined : user?.id || "")
         .gte("date", new Date().toISOString().split("T")[0])
-        .order("date");
+        .order("date")
+        .order("start_time");
 
       if (error) throw error;
       return (data || []) as unknown as AvailabilityOverride[];
@@ -166,29 +231,32 @@ export function useAvailabilityOverrides(teamId?: string, teamWide: boolean = tr
   });
 }
 
+/**
+ * Save all windows for one override date. Existing rows for the date are
+ * replaced in one transaction: one row per window, or a single unavailable row
+ * for a day off.
+ */
 export function useCreateOverride(teamId?: string, teamWide: boolean = true) {
   const queryClient = useQueryClient();
   const { user } = useAuth();
 
   return useMutation({
-    mutationFn: async (override: Omit<AvailabilityOverride, "id">) => {
-      // Ensure user_id is null for team-wide overrides
-      const overrideData = teamWide 
-        ? { ...override, user_id: null }
-        : override;
-      
-      const conflictColumns = teamWide 
-        ? "team_id,date" 
-        : "team_id,user_id,date";
-      
-      const { data, error } = await supabase
-        .from("availability_overrides" as any)
-        .upsert(overrideData, { onConflict: conflictColumns })
-        .select()
-        .single();
+    mutationFn: async (override: DateOverrideInput) => {
+      if (!teamId) throw new Error("No team selected");
+      const userId = teamWide ? null : user?.id;
+      if (!teamWide && !userId) throw new Error("Not signed in");
+
+      const { data, error } = await supabase.rpc("replace_availability_override", {
+        p_team_id: teamId,
+        p_user_id: userId,
+        p_date: override.date,
+        p_is_available: override.is_available,
+        p_windows: (override.is_available ? override.windows : []) as unknown as Json,
+        p_reason: override.reason,
+      });
 
       if (error) throw error;
-      return data;
+      return data as unknown as AvailabilityOverride[];
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["availability-overrides", teamId] });
@@ -202,19 +270,19 @@ export function useCreateOverride(teamId?: string, teamWide: boolean = true) {
 
 export function useDeleteOverride(teamId?: string) {
   const queryClient = useQueryClient();
-  const { user } = useAuth();
 
   return useMutation({
-    mutationFn: async (overrideId: string) => {
+    // All rows (windows) of one override date
+    mutationFn: async (overrideIds: string[]) => {
       const { error } = await supabase
         .from("availability_overrides" as any)
         .delete()
-        .eq("id", overrideId);
+        .in("id", overrideIds);
 
       if (error) throw error;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["availability-overrides", teamId, user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["availability-overrides", teamId] });
       toast.success("Date override removed");
     },
     onError: (err: any) => {
@@ -9,6 +9,8 @@ export interface TimeSlot {
   time: string; // HH:mm in requester's timezone
   utc: string;  // ISO 8601 UTC
   available: boolean;
+  seats_total?: number;     // group event types only
+  seats_remaining?: number; // group event types only
 }
 
 export interface SlotsResponse {
@@ -23,10 +25,26 @@ export interface SlotsResponse {
     duration_minutes: number;
     location_type: string;
     color: string;
+    round_robin_mode?: string;
+    seats_per_slot?: number | null;
   };
   reason?: string;
 }
 
+export interface DaySlots {
+  slots: TimeSlot[];
+  reason?: string | null; // Why the day is empty, e.g. "beyond_max_advance"
+}
+
+export interface SlotsRangeResponse {
+  start_date: string;
+  end_date: string;
+  timezone: string;
+  days: Record<string, DaySlots>;
+  available_dates: string[];
+  event_type: SlotsResponse["event_type"];
+}
+
 export interface BookingConfirmation {
   success: boolean;
   appointment: {
@@ -40,6 +58,7 @@ export interface BookingConfirmation {
     booking_token: string;
     host_name: string | null;
     host_email: string | null;
+    ics_uid?: string | null;
   };
 }
 
@@ -74,6 +93,34 @@ export function useAvailableSlots(eventTypeId?: string, date?: string, timezone?
   });
 }
 
+/**
+ * Slots for every day of a month (YYYY-MM) in one request.
+ * available_dates lets the booking calendar grey out days without slots.
+ */
+/** hostId narrows slots to the host an intake routing rule picked */
+export function useMonthSlots(eventTypeId?: string, month?: string, timezone?: string, hostId?: string | null) {
+  return useQuery({
+    queryKey: ["available-slots-month", eventTypeId, month, timezone, hostId],
+    queryFn: async (): Promise<SlotsRangeResponse> => {
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+      const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+      const url = `${supabaseUrl}/functions/v1/get-available-slots?event_type_id=${eventTypeId}&month=${month}&timezone=${encodeURIComponent(timezone || "America/New_York")}${hostId ? `&host_id=${hostId}` : ""}`;
+
+      const response = await fetch(url, {
+        headers: { apikey: supabaseKey },
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch available slots");
+      }
+
+      return response.json();
+    },
+    enabled: !!eventTypeId && !!month,
+    staleTime: 30000, // 30s cache to avoid hammering the API
+  });
+}
+
 export function useCreateBooking() {
   return useMutation({
     mutationFn: async (booking: {
@@ -142,3 +189,82 @@ export function useRescheduleBooking() {
     },
   });
 }
+
+export interface WaitlistJoinResult {
+  success: boolean;
+  waitlist_id: string;
+  position: number;
+  already_joined: boolean;
+}
+
+export interface WaitlistOffer {
+  status: "pending" | "claiming" | "claimed" | "expired" | "superseded";
+  slot_start_utc: string;
+  expires_at: string;
+  timezone: string;
+  name: string;
+  event_type: { name: string; duration_minutes: number; location_type: string } | null;
+  appointment_id: string | null;
+}
+
+/** Days of a month response that are empty because max_bookings_per_day is reached */
+export function getFullyBookedDates(days?: Record<string, DaySlots>): string[] {
+  return Object.entries(days || {})
+    .filter(([, day]) => day.slots.length === 0 && day.reason === "max_bookings_reached")
+    .map(([date]) => date)
+    .sort();
+}
+
+/** Public waitlist endpoints answer with { error } bodies that the UI shows as-is */
+async function callWaitlistFunction<T>(path: string, init?: RequestInit): Promise<T> {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+  const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/${path}`, {
+    ...init,
+    headers: { apikey: supabaseKey, "Content-Type": "application/json" },
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || "Something went wrong. Please try again.");
+  }
+  return body as T;
+}
+
+export function useJoinWaitlist() {
+  return useMutation({
+    mutationFn: (entry: {
+      event_type_id: string;
+      name: string;
+      email: string;
+      phone?: string;
+      timezone: string;
+      preferred_date: string | null; // null = first opening
+    }) =>
+      callWaitlistFunction<WaitlistJoinResult>("join-waitlist", {
+        method: "POST",
+        body: JSON.stringify(entry),
+      }),
+  });
+}
+
+export function useWaitlistOffer(token?: string) {
+  return useQuery({
+    queryKey: ["waitlist-offer", token],
+    queryFn: async () =>
+      (await callWaitlistFunction<{ offer: WaitlistOffer }>(`claim-waitlist-offer?token=${encodeURIComponent(token!)}`)).offer,
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+export function useClaimWaitlistOffer() {
+  return useMutation({
+    mutationFn: (token: string) =>
+      callWaitlistFunction<BookingConfirmation>("claim-waitlist-offer", {
+        method: "POST",
+        body: JSON.stringify({ token }),
+      }),
+  });
+}
@@ -0,0 +1,79 @@
+// src/hooks/useCalendarFeed.ts
+// Per-user iCal feed token (calendar_feed_tokens) for subscribing to appointments
+// in Apple Calendar, Outlook or Google Calendar via the calendar-feed function.
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export interface CalendarFeedToken {
+  id: string;
+  team_id: string;
+  user_id: string;
+  token: string;
+  last_accessed_at: string | null;
+  created_at: string;
+}
+
+export function getCalendarFeedUrl(token: string): string {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || "https://your-project.supabase.co";
+  return `${supabaseUrl}/functions/v1/calendar-feed?token=${token}`;
+}
+
+/** webcal:// opens the subscribe dialog in Apple Calendar and Outlook */
+export function getWebcalUrl(token: string): string {
+  return getCalendarFeedUrl(token).replace(/^https?:\/\//, "webcal://");
+}
+
+export function useCalendarFeedToken(teamId?: string, userId?: string) {
+  return useQuery({
+    queryKey: ["calendar-feed-token", teamId, userId],
+    queryFn: async (): Promise<CalendarFeedToken | null> => {
+      if (!teamId || !userId) return null;
+      const { data, error } = await supabase
+        .from("calendar_feed_tokens")
+        .select("id, team_id, user_id, token, last_accessed_at, created_at")
+        .eq("team_id", teamId)
+        .eq("user_id", userId)
+        .is("revoked_at", null)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data || null;
+    },
+    enabled: !!teamId && !!userId,
+  });
+}
+
+/** Create the feed token, revoking the current one first (old URLs stop working) */
+export function useRegenerateCalendarFeedToken(teamId?: string, userId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<CalendarFeedToken> => {
+      if (!teamId || !userId) throw new Error("Missing team or user");
+
+      const { error: revokeError } = await supabase
+        .from("calendar_feed_tokens")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("team_id", teamId)
+        .eq("user_id", userId)
+        .is("revoked_at", null);
+      if (revokeError) throw revokeError;
+
+      const { data, error } = await supabase
+        .from("calendar_feed_tokens")
+        .insert({ team_id: teamId, user_id: userId })
+        .select("id, team_id, user_id, token, last_accessed_at, created_at")
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["calendar-feed-token", teamId, userId] });
+    },
+    onError: (err: Error) => {
+      toast.error("Failed to create calendar feed: " + err.message);
+    },
+  });
+}
@@ -0,0 +1,227 @@
+// src/hooks/useContactSegments.ts
+// Hooks for saved contact segments, their live evaluation through
+// evaluate-segment, and the bulk action jobs run on them
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import type {
+  SegmentAction,
+  SegmentActionType,
+  SegmentContact,
+  SegmentDefinition,
+} from "@/lib/contactSegments";
+
+export type ContactSegment = SegmentDefinition & {
+  id: string;
+  team_id: string;
+  description: string | null;
+  last_count: number | null;
+  last_counted_at: string | null;
+  updated_at: string;
+};
+
+export interface ContactSegmentJob {
+  id: string;
+  segment_id: string | null;
+  segment_snapshot: SegmentDefinition;
+  action_type: SegmentActionType;
+  action_config: Omit<SegmentAction, "type">;
+  status: "pending" | "running" | "completed" | "failed" | "cancelled";
+  scanned_count: number;
+  matched_count: number;
+  applied_count: number;
+  skipped_count: number;
+  failed_count: number;
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface SegmentPageResult {
+  contacts: SegmentContact[];
+  nextCursor: string | null;
+}
+
+/** Either a saved segment or the editor's unsaved draft */
+export type SegmentSource = { segmentId: string } | { segment: SegmentDefinition };
+
+async function invokeEvaluateSegment(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke("evaluate-segment", { body });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || "Segment could not be evaluated");
+  return data;
+}
+
+export async function fetchSegmentPage(
+  teamId: string,
+  source: SegmentSource,
+  cursor: string | null,
+): Promise<SegmentPageResult> {
+  const data = await invokeEvaluateSegment({ teamId, mode: "page", cursor, ...source });
+  return { contacts: data.contacts || [], nextCursor: data.nextCursor ?? null };
+}
+
+export function useContactSegments(teamId?: string) {
+  return useQuery({
+    queryKey: ["contact-segments", teamId],
+    queryFn: async () => {
+      if (!teamId) return [];
+
+      const { data, error } = await supabase
+        .from("contact_segments")
+        .select("id, team_id, name, description, conditions, condition_logic, last_count, last_counted_at, updated_at")
+        .eq("team_id", teamId)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as unknown as ContactSegment[];
+    },
+    enabled: !!teamId,
+  });
+}
+
+export function useSaveContactSegment(teamId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...segment }: SegmentDefinition & { id?: string; description?: string | null }) => {
+      // Conditions changed, so the stored count no longer applies
+      const values = {
+        ...segment,
+        conditions: segment.conditions as unknown as Json,
+        last_count: null,
+        last_counted_at: null,
+      };
+      if (id) {
+        const { data, error } = await supabase.from("contact_segments").update(values).eq("id", id).select().single();
+        if (error) throw error;
+        return data as unknown as ContactSegment;
+      }
+
+      if (!teamId) throw new Error("No team selected");
+      const { data, error } = await supabase
+        .from("contact_segments")
+        .insert({ ...values, team_id: teamId })
+        .select()
+        .single();
+      if (error) throw error;
+      return data as unknown as ContactSegment;
+    },
+    onSuccess: (_data, segment) => {
+      queryClient.invalidateQueries({ queryKey: ["contact-segments", teamId] });
+      toast.success(segment.id ? "Segment updated" : "Segment saved");
+    },
+    onError: (err: Error) => {
+      if (err.message?.includes("duplicate key")) {
+        toast.error("A segment with that name already exists");
+      } else {
+        toast.error("Failed to save segment: " + err.message);
+      }
+    },
+  });
+}
+
+export function useDeleteContactSegment(teamId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (segmentId: string) => {
+      const { error } = await supabase
+        .from("contact_segments")
+        .delete()
+        .eq("id", segmentId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contact-segments", teamId] });
+      toast.success("Segment deleted");
+    },
+    onError: (err: Error) => {
+      toast.error("Failed to delete segment: " + err.message);
+    },
+  });
+}
+
+export function useCountContactSegment(teamId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (segmentId: string) => {
+      const data = await invokeEvaluateSegment({ teamId, mode: "count", segmentId });
+      return { count: data.count as number, capped: !!data.capped };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contact-segments", teamId] });
+    },
+    onError: (err: Error) => {
+      toast.error("Failed to count segment: " + err.message);
+    },
+  });
+}
+
+export function useContactSegmentJobs(teamId?: string, enabled = true) {
+  return useQuery({
+    queryKey: ["contact-segment-jobs", teamId],
+    queryFn: async () => {
+      if (!teamId) return [];
+
+      const { data, error } = await supabase
+        .from("contact_segment_jobs")
+        .select("id, segment_id, segment_snapshot, action_type, action_config, status, scanned_count, matched_count, applied_count, skipped_count, failed_count, error_message, created_at, completed_at")
+        .eq("team_id", teamId)
+        .order("created_at", { ascending: false })
+        .limit(25);
+
+      if (error) throw error;
+      return (data || []) as unknown as ContactSegmentJob[];
+    },
+    enabled: !!teamId && enabled,
+    // Jobs advance once a minute; poll while any is still going
+    refetchInterval: (query) =>
+      (query.state.data || []).some((job) => job.status === "pending" || job.status === "running") ? 10000 : false,
+  });
+}
+
+export function useStartSegmentJob(teamId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ segmentId, action }: { segmentId: string; action: SegmentAction }) => {
+      const data = await invokeEvaluateSegment({ teamId, mode: "bulk", segmentId, action });
+      return data.jobId as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contact-segment-jobs", teamId] });
+      toast.success("Bulk action queued", { description: "It runs in the background, a page of contacts a minute." });
+    },
+    onError: (err: Error) => {
+      toast.error("Failed to start bulk action: " + err.message);
+    },
+  });
+}
+
+export function useCancelSegmentJob(teamId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (jobId: string) => {
+      const { error } = await supabase
+        .from("contact_segment_jobs")
+        .update({ status: "cancelled", completed_at: new Date().toISOString() })
+        .eq("id", jobId)
+        .in("status", ["pending", "running"]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contact-segment-jobs", teamId] });
+      toast.success("Bulk action cancelled");
+    },
+    onError: (err: Error) => {
+      toast.error("Failed to cancel bulk action: " + err.message);
+    },
+  });
+}
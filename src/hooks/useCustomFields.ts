@@ -0,0 +1,79 @@
+// src/hooks/useCustomFields.ts
+// Hooks for the team's typed contact custom field definitions
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { sortCustomFields, type CustomFieldDefinition } from "@/lib/customFields";
+
+export type ContactCustomField = CustomFieldDefinition & { id: string; team_id: string };
+
+export function useCustomFields(teamId?: string) {
+  return useQuery({
+    queryKey: ["contact-custom-fields", teamId],
+    queryFn: async () => {
+      if (!teamId) return [];
+
+      const { data, error } = await supabase
+        .from("contact_custom_fields")
+        .select("id, team_id, key, label, field_type, options, currency, position")
+        .eq("team_id", teamId);
+
+      if (error) throw error;
+      return sortCustomFields((data || []) as ContactCustomField[]);
+    },
+    enabled: !!teamId,
+  });
+}
+
+export function useSaveCustomField(teamId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (field: CustomFieldDefinition) => {
+      if (!teamId) throw new Error("No team selected");
+      const { id, key, ...rest } = field;
+      const updates = { ...rest, options: rest.options ?? [] };
+      // The key is fixed once created: stored values and workflows refer to it
+      const { data, error } = id
+        ? await supabase.from("contact_custom_fields").update(updates).eq("id", id).select().single()
+        : await supabase.from("contact_custom_fields").insert({ ...updates, key, team_id: teamId }).select().single();
+
+      if (error) throw error;
+      return data as ContactCustomField;
+    },
+    onSuccess: (_data, field) => {
+      queryClient.invalidateQueries({ queryKey: ["contact-custom-fields", teamId] });
+      toast.success(field.id ? "Custom field updated" : "Custom field created");
+    },
+    onError: (err: Error) => {
+      if (err.message?.includes("duplicate key")) {
+        toast.error("A custom field with that key already exists");
+      } else {
+        toast.error("Failed to save custom field: " + err.message);
+      }
+    },
+  });
+}
+
+export function useDeleteCustomField(teamId?: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (fieldId: string) => {
+      const { error } = await supabase
+        .from("contact_custom_fields")
+        .delete()
+        .eq("id", fieldId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contact-custom-fields", teamId] });
+      toast.success("Custom field deleted");
+    },
+    onError: (err: Error) => {
+      toast.error("Failed to delete custom field: " + err.message);
+    },
+  });
+}
@@ -4,6 +4,9 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import type { IntakeQuestion, IntakeRoutingRule } from "@/lib/bookingIntake";
+
+export type { IntakeQuestion, IntakeRoutingRule };
 
 export interface EventType {
   id: string;
@@ -22,22 +25,28 @@ export interface EventType {
   location_value: string | null;
   confirmation_type: string;
   is_active: boolean;
-  round_robin_mode: string;
+  round_robin_mode: string; // none | round_robin | availability_based | collective | group
   round_robin_members: string[];
+  seats_per_slot?: number; // invitees per slot in group mode
   last_assigned_index: number;
   questions: IntakeQuestion[];
+  routing_rules?: IntakeRoutingRule[];
+  reminder_config?: EventTypeReminder[];
+  waitlist_enabled?: boolean;
+  waitlist_claim_minutes?: number; // how long an offered slot is held (5-1440)
   availability_mode?: string;
   google_calendar_mode?: string;
   created_at: string;
   updated_at: string;
 }
 
-export interface IntakeQuestion {
-  id: string;
-  label: string;
-  type: "text" | "textarea" | "select" | "checkbox";
-  required: boolean;
-  options?: string[];
+/** Reminder sent before a booking (send-booking-reminders); subject/body override the built-in copy */
+export interface EventTypeReminder {
+  type: "email" | "sms";
+  offset_minutes: number;
+  template?: string;
+  subject?: string;
+  body?: string;
 }
 
 export function useEventTypes(teamId?: string) {
@@ -0,0 +1,139 @@
+// src/hooks/useFunnelSplitTests.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import type { FunnelStep, StepSplitTest } from "@/funnel-builder-v3/types/funnel";
+import {
+  getActiveSplitTest,
+  promoteStepVariant,
+  summarizeSplitTest,
+  type SplitTestResults,
+} from "@/funnel-builder-v3/lib/split-test";
+
+export interface StepSplitTestReport {
+  stepId: string;
+  stepName: string;
+  test: StepSplitTest;
+  results: SplitTestResults;
+}
+
+interface FunnelDocuments {
+  builder_document: Json | null;
+  published_document_snapshot: Json | null;
+}
+
+/** Steps of a v3 document: `steps` in the builder document, `pages` in the published snapshot */
+function documentSteps(document: Json | null, key: "steps" | "pages"): FunnelStep[] {
+  const steps = (document as Record<string, unknown> | null)?.[key];
+  return Array.isArray(steps) ? steps : [];
+}
+
+async function fetchFunnelDocuments(funnelId: string): Promise<FunnelDocuments> {
+  const { data, error } = await supabase
+    .from("funnels")
+    .select("builder_document, published_document_snapshot")
+    .eq("id", funnelId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Live split tests on a funnel's published steps, with per-variant conversion
+ * and significance. Empty for funnels that aren't running a test.
+ */
+export function useFunnelSplitTests(funnelId: string | undefined) {
+  return useQuery({
+    queryKey: ["funnel-split-tests", funnelId],
+    queryFn: async (): Promise<StepSplitTestReport[]> => {
+      if (!funnelId) return [];
+
+      const documents = await fetchFunnelDocuments(funnelId);
+      const tested = documentSteps(documents.published_document_snapshot, "pages")
+        .map((step) => ({ step, test: getActiveSplitTest(step) }))
+        .filter((entry): entry is { step: FunnelStep; test: StepSplitTest } => !!entry.test);
+
+      if (tested.length === 0) return [];
+
+      const { data, error } = await supabase.rpc("get_funnel_split_test_stats", {
+        p_funnel_id: funnelId,
+      });
+      if (error) throw error;
+
+      return tested.map(({ step, test }) => ({
+        stepId: step.id,
+        stepName: step.name,
+        test,
+        results: summarizeSplitTest(
+          test,
+          (data || [])
+            .filter((row) => row.step_id === step.id)
+            .map((row) => ({
+              variantId: row.variant_id,
+              visitors: Number(row.visitors),
+              conversions: Number(row.conversions),
+            })),
+        ),
+      }));
+    },
+    enabled: !!funnelId && funnelId !== "all",
+  });
+}
+
+/**
+ * Promote a variant: it becomes the step's only content in both the draft and
+ * the live funnel, which ends the test.
+ */
+export function usePromoteStepVariant() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      funnelId,
+      stepId,
+      variantId,
+    }: {
+      funnelId: string;
+      stepId: string;
+      variantId: string;
+    }) => {
+      const documents = await fetchFunnelDocuments(funnelId);
+
+      // The draft may have been edited since publishing; only touch it if it still runs this variant
+      const promote = (steps: FunnelStep[]) =>
+        steps.map((step) =>
+          step.id === stepId && step.settings?.splitTest?.variants.some((v) => v.id === variantId)
+            ? promoteStepVariant(step, variantId)
+            : step,
+        );
+
+      const builder = documents.builder_document as Record<string, unknown> | null;
+      const published = documents.published_document_snapshot as Record<string, unknown> | null;
+
+      const { error } = await supabase
+        .from("funnels")
+        .update({
+          builder_document: builder
+            ? ({ ...builder, steps: promote(documentSteps(documents.builder_document, "steps")) } as unknown as Json)
+            : null,
+          published_document_snapshot: published
+            ? ({ ...published, pages: promote(documentSteps(documents.published_document_snapshot, "pages")) } as unknown as Json)
+            : null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", funnelId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { funnelId }) => {
+      toast.success("Winner promoted — the test has ended");
+      queryClient.invalidateQueries({ queryKey: ["funnel-split-tests", funnelId] });
+      queryClient.invalidateQueries({ queryKey: ["funnel-v3", funnelId] });
+    },
+    onError: (error: Error) => {
+      toast.error(`Failed to promote variant: ${error.message}`);
+    },
+  });
+}
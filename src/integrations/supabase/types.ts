@@ -291,6 +291,7 @@ export type Database = {
           status: string
           team_id: string
           updated_at: string
+          workflow_version_id: string | null
         }
         Insert: {
           appointment_id?: string | null
@@ -307,6 +308,7 @@ export type Database = {
           status?: string
           team_id: string
           updated_at?: string
+          workflow_version_id?: string | null
         }
         Update: {
           appointment_id?: string | null
@@ -323,6 +325,7 @@ export type Database = {
           status?: string
           team_id?: string
           updated_at?: string
+          workflow_version_id?: string | null
         }
         Relationships: [
           {
@@ -353,6 +356,13 @@ export type Database = {
             referencedRelation: "teams"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "automation_enrollments_workflow_version_id_fkey"
+            columns: ["workflow_version_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       automation_folders: {
@@ -521,6 +531,7 @@ export type Database = {
           duration_ms: number | null
           error_message: string | null
           id: string
+          is_dry_run: boolean
           replay_of_run_id: string | null
           status: string
           steps_executed: Json
@@ -535,6 +546,7 @@ export type Database = {
           duration_ms?: number | null
           error_message?: string | null
           id?: string
+          is_dry_run?: boolean
           replay_of_run_id?: string | null
           status: string
           steps_executed?: Json
@@ -549,6 +561,7 @@ export type Database = {
           duration_ms?: number | null
           error_message?: string | null
           id?: string
+          is_dry_run?: boolean
           replay_of_run_id?: string | null
           status?: string
           steps_executed?: Json
@@ -584,6 +597,8 @@ export type Database = {
         Row: {
           action_type: string
           completed_at: string | null
+          context_after: Json | null
+          context_before: Json | null
           created_at: string | null
           duration_ms: number | null
           error_message: string | null
@@ -600,6 +615,8 @@ export type Database = {
         Insert: {
           action_type: string
           completed_at?: string | null
+          context_after?: Json | null
+          context_before?: Json | null
           created_at?: string | null
           duration_ms?: number | null
           error_message?: string | null
@@ -616,6 +633,8 @@ export type Database = {
         Update: {
           action_type?: string
           completed_at?: string | null
+          context_after?: Json | null
+          context_before?: Json | null
           created_at?: string | null
           duration_ms?: number | null
           error_message?: string | null
@@ -764,6 +783,69 @@ export type Database = {
           },
         ]
       }
+      availability_schedules: {
+        Row: {
+          day_of_week: number
+          end_time: string
+          id: string
+          is_available: boolean | null
+          start_time: string
+          team_id: string
+          timezone: string | null
+          user_id: string | null
+        }
+        Insert: {
+          day_of_week: number
+          end_time?: string
+          id?: string
+          is_available?: boolean | null
+          start_time?: string
+          team_id: string
+          timezone?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          day_of_week?: number
+          end_time?: string
+          id?: string
+          is_available?: boolean | null
+          start_time?: string
+          team_id?: string
+          timezone?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          last_accessed_at: string | null
+          revoked_at: string | null
+          team_id: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          team_id: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          team_id?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       channel_pricing: {
         Row: {
           channel: string
@@ -1169,6 +1251,213 @@ export type Database = {
           },
         ]
       }
+      contact_custom_fields: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          field_type: string
+          id: string
+          key: string
+          label: string
+          options: string[]
+          position: number
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          field_type: string
+          id?: string
+          key: string
+          label: string
+          options?: string[]
+          position?: number
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          field_type?: string
+          id?: string
+          key?: string
+          label?: string
+          options?: string[]
+          position?: number
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      contact_merges: {
+        Row: {
+          applied_values: Json
+          created_at: string
+          duplicate_id: string
+          duplicate_snapshot: Json
+          id: string
+          match_reasons: string[]
+          match_score: number | null
+          merged_by: string | null
+          repointed: Json
+          survivor_before: Json
+          survivor_id: string
+          team_id: string
+          undone_at: string | null
+          undone_by: string | null
+        }
+        Insert: {
+          applied_values: Json
+          created_at?: string
+          duplicate_id: string
+          duplicate_snapshot: Json
+          id?: string
+          match_reasons?: string[]
+          match_score?: number | null
+          merged_by?: string | null
+          repointed?: Json
+          survivor_before: Json
+          survivor_id: string
+          team_id: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Update: {
+          applied_values?: Json
+          created_at?: string
+          duplicate_id?: string
+          duplicate_snapshot?: Json
+          id?: string
+          match_reasons?: string[]
+          match_score?: number | null
+          merged_by?: string | null
+          repointed?: Json
+          survivor_before?: Json
+          survivor_id?: string
+          team_id?: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Relationships: []
+      }
+      contact_segment_jobs: {
+        Row: {
+          action_config: Json
+          action_type: string
+          applied_count: number
+          completed_at: string | null
+          created_at: string
+          cursor: string | null
+          error_message: string | null
+          failed_count: number
+          id: string
+          locked_by: string | null
+          locked_until: string | null
+          matched_count: number
+          requested_by: string | null
+          scanned_count: number
+          segment_id: string | null
+          segment_snapshot: Json
+          skipped_count: number
+          started_at: string | null
+          status: string
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          action_config?: Json
+          action_type: string
+          applied_count?: number
+          completed_at?: string | null
+          created_at?: string
+          cursor?: string | null
+          error_message?: string | null
+          failed_count?: number
+          id?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          matched_count?: number
+          requested_by?: string | null
+          scanned_count?: number
+          segment_id?: string | null
+          segment_snapshot: Json
+          skipped_count?: number
+          started_at?: string | null
+          status?: string
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          action_config?: Json
+          action_type?: string
+          applied_count?: number
+          completed_at?: string | null
+          created_at?: string
+          cursor?: string | null
+          error_message?: string | null
+          failed_count?: number
+          id?: string
+          locked_by?: string | null
+          locked_until?: string | null
+          matched_count?: number
+          requested_by?: string | null
+          scanned_count?: number
+          segment_id?: string | null
+          segment_snapshot?: Json
+          skipped_count?: number
+          started_at?: string | null
+          status?: string
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      contact_segments: {
+        Row: {
+          condition_logic: string
+          conditions: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          last_count: number | null
+          last_counted_at: string | null
+          name: string
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          condition_logic?: string
+          conditions?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          last_count?: number | null
+          last_counted_at?: string | null
+          name: string
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          condition_logic?: string
+          conditions?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          last_count?: number | null
+          last_counted_at?: string | null
+          name?: string
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       contacts: {
         Row: {
           address_1: string | null
@@ -1298,6 +1587,65 @@ export type Database = {
           },
         ]
       }
+      conversations: {
+        Row: {
+          assigned_to: string | null
+          contact_id: string
+          created_at: string
+          id: string
+          last_inbound_at: string | null
+          last_message_at: string | null
+          last_message_channel: string | null
+          last_message_direction: string | null
+          last_message_preview: string | null
+          last_read_at: string | null
+          last_read_by: string | null
+          team_id: string
+          unread_count: number
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          contact_id: string
+          created_at?: string
+          id?: string
+          last_inbound_at?: string | null
+          last_message_at?: string | null
+          last_message_channel?: string | null
+          last_message_direction?: string | null
+          last_message_preview?: string | null
+          last_read_at?: string | null
+          last_read_by?: string | null
+          team_id: string
+          unread_count?: number
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          contact_id?: string
+          created_at?: string
+          id?: string
+          last_inbound_at?: string | null
+          last_message_at?: string | null
+          last_message_channel?: string | null
+          last_message_direction?: string | null
+          last_message_preview?: string | null
+          last_read_at?: string | null
+          last_read_by?: string | null
+          team_id?: string
+          unread_count?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       creator_codes: {
         Row: {
           code: string
@@ -1468,6 +1816,48 @@ export type Database = {
         }
         Relationships: []
       }
+      email_suppressions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          details: Json | null
+          email: string
+          id: string
+          provider: string | null
+          provider_message_id: string | null
+          reason: string
+          source: string
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          details?: Json | null
+          email: string
+          id?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          reason: string
+          source: string
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          details?: Json | null
+          email?: string
+          id?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          reason?: string
+          source?: string
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       error_logs: {
         Row: {
           created_at: string
@@ -1506,6 +1896,102 @@ export type Database = {
           },
         ]
       }
+      event_types: {
+        Row: {
+          availability_mode: string | null
+          buffer_after_minutes: number | null
+          buffer_before_minutes: number | null
+          color: string | null
+          confirmation_type: string | null
+          created_at: string | null
+          description: string | null
+          duration_minutes: number
+          google_calendar_mode: string | null
+          id: string
+          is_active: boolean | null
+          last_assigned_index: number | null
+          location_type: string | null
+          location_value: string | null
+          max_advance_days: number | null
+          max_bookings_per_day: number | null
+          min_notice_hours: number | null
+          name: string
+          questions: Json | null
+          reminder_config: Json
+          round_robin_members: string[] | null
+          round_robin_mode: string | null
+          routing_rules: Json
+          seats_per_slot: number
+          slug: string
+          team_id: string
+          updated_at: string | null
+          waitlist_claim_minutes: number
+          waitlist_enabled: boolean
+        }
+        Insert: {
+          availability_mode?: string | null
+          buffer_after_minutes?: number | null
+          buffer_before_minutes?: number | null
+          color?: string | null
+          confirmation_type?: string | null
+          created_at?: string | null
+          description?: string | null
+          duration_minutes?: number
+          google_calendar_mode?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_assigned_index?: number | null
+          location_type?: string | null
+          location_value?: string | null
+          max_advance_days?: number | null
+          max_bookings_per_day?: number | null
+          min_notice_hours?: number | null
+          name: string
+          questions?: Json | null
+          reminder_config?: Json
+          round_robin_members?: string[] | null
+          round_robin_mode?: string | null
+          routing_rules?: Json
+          seats_per_slot?: number
+          slug: string
+          team_id: string
+          updated_at?: string | null
+          waitlist_claim_minutes?: number
+          waitlist_enabled?: boolean
+        }
+        Update: {
+          availability_mode?: string | null
+          buffer_after_minutes?: number | null
+          buffer_before_minutes?: number | null
+          color?: string | null
+          confirmation_type?: string | null
+          created_at?: string | null
+          description?: string | null
+          duration_minutes?: number
+          google_calendar_mode?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_assigned_index?: number | null
+          location_type?: string | null
+          location_value?: string | null
+          max_advance_days?: number | null
+          max_bookings_per_day?: number | null
+          min_notice_hours?: number | null
+          name?: string
+          questions?: Json | null
+          reminder_config?: Json
+          round_robin_members?: string[] | null
+          round_robin_mode?: string | null
+          routing_rules?: Json
+          seats_per_slot?: number
+          slug?: string
+          team_id?: string
+          updated_at?: string | null
+          waitlist_claim_minutes?: number
+          waitlist_enabled?: boolean
+        }
+        Relationships: []
+      }
       events: {
         Row: {
           created_at: string
@@ -1534,19 +2020,83 @@ export type Database = {
           step_id: string
         }
         Update: {
-          created_at?: string
-          dedupe_key?: string
-          element_id?: string | null
-          event_type?: string
+          created_at?: string
+          dedupe_key?: string
+          element_id?: string | null
+          event_type?: string
+          funnel_id?: string
+          id?: string
+          lead_id?: string | null
+          occurred_at?: string
+          payload?: Json
+          session_id?: string
+          step_id?: string
+        }
+        Relationships: []
+      }
+      funnel_abandonment_fires: {
+        Row: {
+          automation_id: string
+          created_at: string | null
+          error_message: string | null
+          fired_at: string | null
+          funnel_id: string
+          funnel_lead_id: string
+          id: string
+          last_activity_at: string
+          recovered_at: string | null
+          status: string
+          team_id: string
+        }
+        Insert: {
+          automation_id: string
+          created_at?: string | null
+          error_message?: string | null
+          fired_at?: string | null
+          funnel_id: string
+          funnel_lead_id: string
+          id?: string
+          last_activity_at: string
+          recovered_at?: string | null
+          status?: string
+          team_id: string
+        }
+        Update: {
+          automation_id?: string
+          created_at?: string | null
+          error_message?: string | null
+          fired_at?: string | null
           funnel_id?: string
+          funnel_lead_id?: string
           id?: string
-          lead_id?: string | null
-          occurred_at?: string
-          payload?: Json
-          session_id?: string
-          step_id?: string
+          last_activity_at?: string
+          recovered_at?: string | null
+          status?: string
+          team_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "funnel_abandonment_fires_automation_id_fkey"
+            columns: ["automation_id"]
+            isOneToOne: false
+            referencedRelation: "automations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "funnel_abandonment_fires_funnel_lead_id_fkey"
+            columns: ["funnel_lead_id"]
+            isOneToOne: false
+            referencedRelation: "funnel_leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "funnel_abandonment_fires_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       funnel_domains: {
         Row: {
@@ -1630,7 +2180,9 @@ export type Database = {
           email: string | null
           funnel_id: string
           ghl_synced_at: string | null
+          hidden_fields: Json
           id: string
+          last_activity_at: string | null
           last_step_index: number | null
           name: string | null
           opt_in_status: boolean | null
@@ -1650,7 +2202,9 @@ export type Database = {
           email?: string | null
           funnel_id: string
           ghl_synced_at?: string | null
+          hidden_fields?: Json
           id?: string
+          last_activity_at?: string | null
           last_step_index?: number | null
           name?: string | null
           opt_in_status?: boolean | null
@@ -1670,7 +2224,9 @@ export type Database = {
           email?: string | null
           funnel_id?: string
           ghl_synced_at?: string | null
+          hidden_fields?: Json
           id?: string
+          last_activity_at?: string | null
           last_step_index?: number | null
           name?: string | null
           opt_in_status?: boolean | null
@@ -1815,9 +2371,11 @@ export type Database = {
           automation_id: string | null
           channel: string
           clicked_at: string | null
+          contact_id: string | null
           created_at: string
           delivered_at: string | null
           delivery_status: string | null
+          direction: string
           error_message: string | null
           from_address: string | null
           id: string
@@ -1836,9 +2394,11 @@ export type Database = {
           automation_id?: string | null
           channel: string
           clicked_at?: string | null
+          contact_id?: string | null
           created_at?: string
           delivered_at?: string | null
           delivery_status?: string | null
+          direction?: string
           error_message?: string | null
           from_address?: string | null
           id?: string
@@ -1857,9 +2417,11 @@ export type Database = {
           automation_id?: string | null
           channel?: string
           clicked_at?: string | null
+          contact_id?: string | null
           created_at?: string
           delivered_at?: string | null
           delivery_status?: string | null
+          direction?: string
           error_message?: string | null
           from_address?: string | null
           id?: string
@@ -1882,6 +2444,13 @@ export type Database = {
             referencedRelation: "automations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "message_logs_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "message_logs_team_id_fkey"
             columns: ["team_id"]
@@ -1891,6 +2460,36 @@ export type Database = {
           },
         ]
       }
+      messaging_keyword_settings: {
+        Row: {
+          auto_replies: Json
+          auto_reply_enabled: boolean
+          created_at: string
+          custom_keywords: Json
+          languages: string[]
+          team_id: string
+          updated_at: string
+        }
+        Insert: {
+          auto_replies?: Json
+          auto_reply_enabled?: boolean
+          created_at?: string
+          custom_keywords?: Json
+          languages?: string[]
+          team_id: string
+          updated_at?: string
+        }
+        Update: {
+          auto_replies?: Json
+          auto_reply_enabled?: boolean
+          created_at?: string
+          custom_keywords?: Json
+          languages?: string[]
+          team_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       messaging_pricing: {
         Row: {
           channel: string
@@ -1927,6 +2526,54 @@ export type Database = {
         }
         Relationships: []
       }
+      microsoft_calendar_connections: {
+        Row: {
+          access_token: string | null
+          calendar_id: string | null
+          connected_at: string | null
+          created_at: string | null
+          email: string | null
+          id: string
+          oauth_state: string | null
+          refresh_token: string | null
+          sync_enabled: boolean
+          team_id: string
+          token_expires_at: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          access_token?: string | null
+          calendar_id?: string | null
+          connected_at?: string | null
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          oauth_state?: string | null
+          refresh_token?: string | null
+          sync_enabled?: boolean
+          team_id: string
+          token_expires_at?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          access_token?: string | null
+          calendar_id?: string | null
+          connected_at?: string | null
+          created_at?: string | null
+          email?: string | null
+          id?: string
+          oauth_state?: string | null
+          refresh_token?: string | null
+          sync_enabled?: boolean
+          team_id?: string
+          token_expires_at?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       mrr_commissions: {
         Row: {
           appointment_id: string | null
@@ -2482,43 +3129,67 @@ export type Database = {
       }
       scheduled_automation_jobs: {
         Row: {
+          attempts: number
           automation_id: string
           context_snapshot: Json
           created_at: string | null
+          dead_lettered_at: string | null
           error_message: string | null
           id: string
+          last_attempt_at: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
           processed_at: string | null
           resume_at: string
           run_id: string | null
           status: string
           step_id: string | null
           team_id: string
+          updated_at: string
+          workflow_version_id: string | null
         }
         Insert: {
+          attempts?: number
           automation_id: string
           context_snapshot?: Json
           created_at?: string | null
+          dead_lettered_at?: string | null
           error_message?: string | null
           id?: string
+          last_attempt_at?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
           processed_at?: string | null
           resume_at: string
           run_id?: string | null
           status?: string
           step_id?: string | null
           team_id: string
+          updated_at?: string
+          workflow_version_id?: string | null
         }
         Update: {
+          attempts?: number
           automation_id?: string
           context_snapshot?: Json
           created_at?: string | null
+          dead_lettered_at?: string | null
           error_message?: string | null
           id?: string
+          last_attempt_at?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
           processed_at?: string | null
           resume_at?: string
           run_id?: string | null
           status?: string
           step_id?: string | null
           team_id?: string
+          updated_at?: string
+          workflow_version_id?: string | null
         }
         Relationships: [
           {
@@ -2542,6 +3213,67 @@ export type Database = {
             referencedRelation: "teams"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "scheduled_automation_jobs_workflow_version_id_fkey"
+            columns: ["workflow_version_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_trigger_fires: {
+        Row: {
+          automation_id: string
+          created_at: string | null
+          cron_expression: string
+          error_message: string | null
+          fired_at: string | null
+          id: string
+          scheduled_for: string
+          status: string
+          team_id: string
+          timezone: string
+        }
+        Insert: {
+          automation_id: string
+          created_at?: string | null
+          cron_expression: string
+          error_message?: string | null
+          fired_at?: string | null
+          id?: string
+          scheduled_for: string
+          status?: string
+          team_id: string
+          timezone: string
+        }
+        Update: {
+          automation_id?: string
+          created_at?: string | null
+          cron_expression?: string
+          error_message?: string | null
+          fired_at?: string | null
+          id?: string
+          scheduled_for?: string
+          status?: string
+          team_id?: string
+          timezone?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_trigger_fires_automation_id_fkey"
+            columns: ["automation_id"]
+            isOneToOne: false
+            referencedRelation: "automations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_trigger_fires_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
         ]
       }
       setter_rotation_settings: {
@@ -3471,8 +4203,9 @@ export type Database = {
           event_type: string
           id: string
           received_at: string
+          source: string | null
           status: string
-          team_id: string
+          team_id: string | null
         }
         Insert: {
           created_at?: string
@@ -3480,8 +4213,9 @@ export type Database = {
           event_type: string
           id?: string
           received_at?: string
+          source?: string | null
           status: string
-          team_id: string
+          team_id?: string | null
         }
         Update: {
           created_at?: string
@@ -3489,8 +4223,9 @@ export type Database = {
           event_type?: string
           id?: string
           received_at?: string
+          source?: string | null
           status?: string
-          team_id?: string
+          team_id?: string | null
         }
         Relationships: []
       }
@@ -3500,9 +4235,11 @@ export type Database = {
           created_at: string | null
           definition_json: Json
           id: string
+          in_flight_policy: string
           is_active: boolean | null
           published_at: string
           published_by: string | null
+          step_id_map: Json | null
           team_id: string
           trigger_type: string
           version_number: number
@@ -3512,9 +4249,11 @@ export type Database = {
           created_at?: string | null
           definition_json: Json
           id?: string
+          in_flight_policy?: string
           is_active?: boolean | null
           published_at?: string
           published_by?: string | null
+          step_id_map?: Json | null
           team_id: string
           trigger_type: string
           version_number: number
@@ -3524,9 +4263,11 @@ export type Database = {
           created_at?: string | null
           definition_json?: Json
           id?: string
+          in_flight_policy?: string
           is_active?: boolean | null
           published_at?: string
           published_by?: string | null
+          step_id_map?: Json | null
           team_id?: string
           trigger_type?: string
           version_number?: number
@@ -3550,6 +4291,40 @@ export type Database = {
       }
     }
     Views: {
+      scheduled_automation_jobs_dead_letter: {
+        Row: {
+          attempts: number | null
+          automation_id: string | null
+          automation_name: string | null
+          created_at: string | null
+          dead_lettered_at: string | null
+          error_message: string | null
+          id: string | null
+          last_attempt_at: string | null
+          max_attempts: number | null
+          resume_at: string | null
+          run_id: string | null
+          status: string | null
+          step_id: string | null
+          team_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_automation_jobs_automation_id_fkey"
+            columns: ["automation_id"]
+            isOneToOne: false
+            referencedRelation: "automations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_automation_jobs_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_integrations_public: {
         Row: {
           config_safe: Json | null
@@ -3614,6 +4389,15 @@ export type Database = {
         }
         Returns: Json
       }
+      apply_workflow_version_in_flight: {
+        Args: {
+          p_job_moves?: Json
+          p_policy: string
+          p_step_map?: Json
+          p_version_id: string
+        }
+        Returns: Json
+      }
       auto_assign_unassigned_tasks: { Args: never; Returns: undefined }
       auto_return_expired_tasks: { Args: never; Returns: undefined }
       calculate_completion_percentage: {
@@ -3621,6 +4405,10 @@ export type Database = {
         Returns: number
       }
       can_create_teams: { Args: { _user_id: string }; Returns: boolean }
+      cancel_funnel_abandonment: {
+        Args: { p_funnel_lead_id: string }
+        Returns: number
+      }
       check_active_triggers: {
         Args: never
         Returns: {
@@ -3638,6 +4426,39 @@ export type Database = {
         }[]
       }
       check_overdue_tasks: { Args: never; Returns: undefined }
+      claim_scheduled_automation_jobs: {
+        Args: {
+          p_lease_seconds?: number
+          p_limit?: number
+          p_worker_id: string
+        }
+        Returns: {
+          attempts: number
+          automation_id: string
+          context_snapshot: Json
+          created_at: string | null
+          dead_lettered_at: string | null
+          error_message: string | null
+          id: string
+          last_attempt_at: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          processed_at: string | null
+          resume_at: string
+          run_id: string | null
+          status: string
+          step_id: string | null
+          team_id: string
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "scheduled_automation_jobs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       cleanup_appointment_tasks: {
         Args: { appt_id: string }
         Returns: undefined
@@ -3694,6 +4515,16 @@ export type Database = {
         }
         Returns: Json
       }
+      find_duplicate_contact_candidates: {
+        Args: { p_team_id: string }
+        Returns: Database["public"]["Tables"]["contacts"]["Row"][]
+        SetofOptions: {
+          from: "*"
+          to: "contacts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       fire_automation_event: {
         Args: {
           p_event_id?: string
@@ -3707,6 +4538,15 @@ export type Database = {
         Args: { contact_row: Database["public"]["Tables"]["contacts"]["Row"] }
         Returns: string
       }
+      get_funnel_split_test_stats: {
+        Args: { p_funnel_id: string }
+        Returns: {
+          conversions: number
+          step_id: string
+          variant_id: string
+          visitors: number
+        }[]
+      }
       get_funnel_team_id: { Args: { p_funnel_id: string }; Returns: string }
       get_team_role: {
         Args: { _team_id: string; _user_id: string }
@@ -3801,6 +4641,25 @@ export type Database = {
         Args: { _team_id: string; _user_id: string }
         Returns: boolean
       }
+      merge_contacts: {
+        Args: {
+          p_duplicate_id: string
+          p_match_reasons?: string[]
+          p_match_score?: number
+          p_survivor_id: string
+          p_team_id: string
+          p_values: Json
+        }
+        Returns: string
+      }
+      normalize_contact_email: {
+        Args: { p_email: string }
+        Returns: string
+      }
+      normalize_contact_phone: {
+        Args: { p_phone: string }
+        Returns: string
+      }
       recalculate_team_commissions: {
         Args: {
           p_closer_percentage: number
@@ -3812,6 +4671,30 @@ export type Database = {
           updated_count: number
         }[]
       }
+      replace_availability_override: {
+        Args: {
+          p_date: string
+          p_is_available: boolean
+          p_reason?: string
+          p_team_id: string
+          p_user_id: string
+          p_windows?: Json
+        }
+        Returns: {
+          date: string
+          end_time: string | null
+          id: string
+          is_available: boolean | null
+          reason: string | null
+          start_time: string | null
+          team_id: string
+          user_id: string | null
+        }[]
+      }
+      undo_contact_merge: {
+        Args: { p_merge_id: string }
+        Returns: undefined
+      }
       validate_creator_code: { Args: { p_code: string }; Returns: boolean }
     }
     Enums: {
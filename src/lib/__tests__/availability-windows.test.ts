@@ -0,0 +1,243 @@
+/**
+ * Availability Windows Tests
+ *
+ * Covers:
+ * 1. Several windows per weekday and per override date (e.g. 9-12 and 14-19)
+ * 2. Overrides replacing the weekly schedule, day-off overrides, weekday defaults
+ * 3. Windows → UTC intervals in the host's timezone, including DST days
+ * 4. Merging overlapping / back-to-back windows and generating slots from them
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DEFAULT_WINDOWS,
+  generateSlotStarts,
+  mergeIntervals,
+  parseTimeToMinutes,
+  resolveDayWindows,
+  windowsToUtcIntervals,
+  type OverrideRow,
+  type ScheduleRow,
+} from "../../../supabase/functions/get-available-slots/windows";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const schedule = (overrides: Partial<ScheduleRow> = {}): ScheduleRow => ({
+  user_id: null,
+  day_of_week: 2,
+  start_time: "09:00:00",
+  end_time: "12:00:00",
+  is_available: true,
+  timezone: "America/New_York",
+  ...overrides,
+});
+
+const override = (overrides: Partial<OverrideRow> = {}): OverrideRow => ({
+  user_id: null,
+  date: "2026-03-10",
+  start_time: null,
+  end_time: null,
+  is_available: false,
+  ...overrides,
+});
+
+const iso = (dates: Date[]) => dates.map((d) => d.toISOString());
+
+describe("parseTimeToMinutes", () => {
+  it("parses Postgres TIME values", () => {
+    expect(parseTimeToMinutes("09:30")).toBe(570);
+    expect(parseTimeToMinutes("14:00:00")).toBe(840);
+    expect(parseTimeToMinutes("24:00")).toBe(1440);
+  });
+
+  it("rejects malformed times", () => {
+    expect(parseTimeToMinutes("24:30")).toBeNull();
+    expect(parseTimeToMinutes("9am")).toBeNull();
+    expect(parseTimeToMinutes(null)).toBeNull();
+  });
+});
+
+describe("resolveDayWindows", () => {
+  const lunchBreak = [
+    schedule(),
+    schedule({ start_time: "14:00:00", end_time: "19:00:00" }),
+    schedule({ day_of_week: 3, timezone: "Europe/Paris" }),
+  ];
+
+  it("returns every available window of the weekday", () => {
+    expect(resolveDayWindows(lunchBreak, [], 2)).toEqual({
+      windows: [
+        { start: "09:00:00", end: "12:00:00" },
+        { start: "14:00:00", end: "19:00:00" },
+      ],
+      timezone: "America/New_York",
+      source: "schedule",
+    });
+  });
+
+  it("skips unavailable and inverted windows", () => {
+    const rows = [schedule({ is_available: false }), schedule({ start_time: "18:00", end_time: "17:00" })];
+    expect(resolveDayWindows(rows, [], 2).windows).toEqual([]);
+  });
+
+  it("replaces the weekly hours with the override windows for that date", () => {
+    const result = resolveDayWindows(lunchBreak, [
+      override({ is_available: true, start_time: "10:00", end_time: "11:00" }),
+      override({ is_available: true, start_time: "15:00", end_time: "16:30" }),
+    ], 2);
+    expect(result.source).toBe("override");
+    expect(result.windows).toEqual([
+      { start: "10:00", end: "11:00" },
+      { start: "15:00", end: "16:30" },
+    ]);
+    expect(result.timezone).toBe("America/New_York");
+  });
+
+  it("blocks the day when any override row is a day off", () => {
+    const result = resolveDayWindows(lunchBreak, [
+      override({ is_available: true, start_time: "10:00", end_time: "11:00" }),
+      override(),
+    ], 2);
+    expect(result.windows).toEqual([]);
+  });
+
+  it("falls back to 9-5 on weekdays only when no schedule exists at all", () => {
+    expect(resolveDayWindows([], [], 1)).toMatchObject({ windows: DEFAULT_WINDOWS, source: "default" });
+    expect(resolveDayWindows([], [], 6).windows).toEqual([]);
+    expect(resolveDayWindows(lunchBreak, [], 1)).toMatchObject({ windows: [], source: "none" });
+  });
+
+  it("takes the timezone from other weekdays when the day has no rows", () => {
+    expect(resolveDayWindows([schedule({ day_of_week: 3, timezone: "Asia/Tokyo" })], [], 5).timezone)
+      .toBe("Asia/Tokyo");
+  });
+});
+
+describe("windowsToUtcIntervals", () => {
+  const lunchBreak = [
+    { start: "09:00", end: "12:00" },
+    { start: "14:00", end: "19:00" },
+  ];
+
+  it("places each window on the date in the host timezone", () => {
+    const intervals = windowsToUtcIntervals("2026-03-10", lunchBreak, "America/New_York");
+    expect(intervals.map((i) => [new Date(i.start).toISOString(), new Date(i.end).toISOString()])).toEqual([
+      ["2026-03-10T13:00:00.000Z", "2026-03-10T16:00:00.000Z"],
+      ["2026-03-10T18:00:00.000Z", "2026-03-10T23:00:00.000Z"],
+    ]);
+  });
+
+  it("can land on the previous UTC day for hosts east of UTC", () => {
+    const [morning] = windowsToUtcIntervals("2026-03-10", lunchBreak, "Asia/Tokyo");
+    expect(new Date(morning.start).toISOString()).toBe("2026-03-10T00:00:00.000Z");
+    const [early] = windowsToUtcIntervals("2026-03-10", [{ start: "07:00", end: "08:00" }], "Asia/Tokyo");
+    expect(new Date(early.start).toISOString()).toBe("2026-03-09T22:00:00.000Z");
+  });
+
+  it("keeps wall-clock bounds across a DST change", () => {
+    // US clocks jump 02:00 → 03:00 on 2026-03-08: 01:00 EST to 05:00 EDT is 3 real hours
+    const [interval] = windowsToUtcIntervals("2026-03-08", [{ start: "01:00", end: "05:00" }], "America/New_York");
+    expect(new Date(interval.start).toISOString()).toBe("2026-03-08T06:00:00.000Z");
+    expect(new Date(interval.end).toISOString()).toBe("2026-03-08T09:00:00.000Z");
+  });
+
+  it("drops invalid windows", () => {
+    expect(windowsToUtcIntervals("2026-03-10", [{ start: "12:00", end: "09:00" }], "UTC")).toEqual([]);
+  });
+});
+
+describe("mergeIntervals", () => {
+  it("merges overlapping and touching intervals, keeping gaps", () => {
+    expect(mergeIntervals([
+      { start: 50, end: 60 },
+      { start: 0, end: 10 },
+      { start: 10, end: 20 },
+      { start: 15, end: 30 },
+    ])).toEqual([
+      { start: 0, end: 30 },
+      { start: 50, end: 60 },
+    ]);
+  });
+});
+
+describe("generateSlotStarts", () => {
+  it("never offers slots in the lunch break", () => {
+    const intervals = windowsToUtcIntervals("2026-03-10", [
+      { start: "09:00", end: "12:00" },
+      { start: "14:00", end: "19:00" },
+    ], "UTC");
+    const slots = iso(generateSlotStarts(intervals, 60));
+
+    expect(slots[0]).toBe("2026-03-10T09:00:00.000Z");
+    expect(slots).toContain("2026-03-10T11:00:00.000Z");
+    expect(slots).not.toContain("2026-03-10T11:15:00.000Z");
+    expect(slots.some((s) => s >= "2026-03-10T12:00" && s < "2026-03-10T14:00")).toBe(false);
+    expect(slots[slots.length - 1]).toBe("2026-03-10T18:00:00.000Z");
+    expect(slots).toHaveLength(9 + 17);
+  });
+
+  it("lets a slot span back-to-back windows", () => {
+    const intervals = windowsToUtcIntervals("2026-03-10", [
+      { start: "09:00", end: "10:00" },
+      { start: "10:00", end: "11:00" },
+    ], "UTC");
+    expect(iso(generateSlotStarts(intervals, 60))).toContain("2026-03-10T09:30:00.000Z");
+  });
+
+  it("does not duplicate slots from overlapping windows", () => {
+    const intervals = windowsToUtcIntervals("2026-03-10", [
+      { start: "09:00", end: "11:00" },
+      { start: "10:00", end: "11:00" },
+    ], "UTC");
+    const slots = iso(generateSlotStarts(intervals, 30));
+    expect(new Set(slots).size).toBe(slots.length);
+    expect(slots).toHaveLength(7);
+  });
+});
+
+describe("multiple windows wiring", () => {
+  it("drops the one-row-per-day unique indexes", () => {
+    const migration = readRepoFile("supabase/migrations/20260219100000_availability_multiple_windows.sql");
+    expect(migration).toContain("DROP INDEX IF EXISTS public.availability_schedules_team_day_unique");
+    expect(migration).toContain("DROP INDEX IF EXISTS public.availability_overrides_user_date_unique");
+  });
+
+  it("keeps one row per start time so default seeding can't duplicate a day", () => {
+    const migration = readRepoFile("supabase/migrations/20260219100000_availability_multiple_windows.sql");
+    expect(migration).toContain("ON public.availability_schedules(team_id, day_of_week, start_time)");
+    expect(migration).toContain("ON public.availability_schedules(team_id, user_id, day_of_week, start_time)");
+
+    // Days switched off are rows too; seeding only runs when a team has none at all
+    for (const file of [
+      "src/pages/Calendars.tsx",
+      "src/components/scheduling/CalendarWizard.tsx",
+      "src/components/scheduling/FirstCalendarWizard.tsx",
+    ]) {
+      const source = readRepoFile(file);
+      const check = source.slice(source.indexOf('.from("availability_schedules" as any)'));
+      expect(check.slice(0, check.indexOf(".limit(1)"))).not.toContain("is_available");
+    }
+  });
+
+  it("builds slots from the merged windows of every host", () => {
+    const source = readRepoFile("supabase/functions/get-available-slots/index.ts");
+    expect(source).toContain("resolveDayWindows(userSchedules, userOverrides, dayOfWeek)");
+    expect(source).toContain("generateSlotStarts(hostIntervals, duration_minutes)");
+  });
+
+  it("replaces an override date's windows in one transaction", () => {
+    const source = readRepoFile("src/hooks/useAvailability.ts");
+    expect(source).not.toContain("onConflict");
+    expect(source).toContain('supabase.rpc("replace_availability_override"');
+    expect(source).not.toContain('.from("availability_overrides" as any)\n        .delete()\n        .eq("team_id"');
+
+    const migration = readRepoFile("supabase/migrations/20260219100000_availability_multiple_windows.sql");
+    const fn = migration.slice(migration.indexOf("FUNCTION public.replace_availability_override("));
+    expect(fn).toContain("SECURITY INVOKER");
+    expect(fn.indexOf("DELETE FROM availability_overrides")).toBeLessThan(fn.indexOf("INSERT INTO availability_overrides"));
+    expect(fn).toContain("FROM jsonb_array_elements(p_windows) AS w");
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Native Booking Reminder Tests
+ *
+ * Covers:
+ * 1. event_types.reminder_config parsing (email/SMS, hours or minutes offsets)
+ * 2. booking_reminders rows built on booking (past send times and missing addresses skipped)
+ * 3. Rendering: times in the booking timezone, meeting link and manage-booking URL
+ * 4. Send outcome / retry policy
+ * 5. Wiring: create/reschedule/cancel-booking and the send-booking-reminders cron
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildReminderRows,
+  classifySendResponse,
+  decideReminderFailure,
+  describeOffset,
+  getReminderSkipReason,
+  MAX_REMINDER_ATTEMPTS,
+  normalizeReminderConfig,
+  renderReminder,
+  renderReminderTemplate,
+  type ReminderAppointment,
+} from "../../../supabase/functions/_shared/booking-reminders";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const appointment = (overrides: Partial<ReminderAppointment> = {}): ReminderAppointment => ({
+  id: "appt-1",
+  team_id: "team-1",
+  event_type_id: "et-1",
+  start_at_utc: "2026-03-10T18:00:00.000Z",
+  duration_minutes: 30,
+  status: "NEW",
+  lead_name: "Jordan Lee",
+  lead_email: "jordan@example.com",
+  lead_phone: "+15551234567",
+  event_type_name: "Discovery Call",
+  closer_name: "Sam Host",
+  meeting_link: "https://zoom.us/j/123",
+  reschedule_url: "https://app.example.com/booking/tok/manage",
+  cancel_url: "https://app.example.com/booking/tok/manage",
+  appointment_timezone: "America/New_York",
+  ...overrides,
+});
+
+describe("normalizeReminderConfig", () => {
+  it("accepts the original hours-based default and minute offsets", () => {
+    expect(normalizeReminderConfig([
+      { type: "email", template: "1h_before", offset_hours: 1 },
+      { type: "email", template: "24h_before", offset_hours: 24 },
+      { channel: "sms", offset_minutes: 15 },
+    ])).toEqual([
+      { type: "email", offset_minutes: 1440, template: "24h_before", subject: null, body: null },
+      { type: "email", offset_minutes: 60, template: "1h_before", subject: null, body: null },
+      { type: "sms", offset_minutes: 15, template: null, subject: null, body: null },
+    ]);
+  });
+
+  it("drops invalid, disabled and duplicate entries", () => {
+    expect(normalizeReminderConfig([
+      { type: "whatsapp", offset_minutes: 60 },
+      { type: "email", offset_minutes: -5 },
+      { type: "email" },
+      { type: "sms", offset_minutes: 60, enabled: false },
+      { type: "sms", offset_minutes: 60 },
+      { type: "sms", offset_hours: 1 },
+    ])).toHaveLength(1);
+    expect(normalizeReminderConfig(null)).toEqual([]);
+  });
+});
+
+describe("buildReminderRows", () => {
+  const config = normalizeReminderConfig([
+    { type: "email", offset_minutes: 1440 },
+    { type: "sms", offset_minutes: 60 },
+  ]);
+
+  it("schedules each reminder at start minus offset", () => {
+    const rows = buildReminderRows(appointment(), config, new Date("2026-03-01T00:00:00Z"));
+    expect(rows.map((r) => [r.reminder_key, r.scheduled_for])).toEqual([
+      ["email:1440", "2026-03-09T18:00:00.000Z"],
+      ["sms:60", "2026-03-10T17:00:00.000Z"],
+    ]);
+    expect(rows[0]).toMatchObject({ appointment_id: "appt-1", team_id: "team-1", event_type_id: "et-1", status: "pending" });
+  });
+
+  it("skips reminders whose time has passed and channels without an address", () => {
+    const lastMinute = buildReminderRows(appointment(), config, new Date("2026-03-10T12:00:00Z"));
+    expect(lastMinute.map((r) => r.reminder_key)).toEqual(["sms:60"]);
+    expect(buildReminderRows(appointment({ lead_phone: null }), config, new Date("2026-03-01T00:00:00Z"))
+      .map((r) => r.type)).toEqual(["email"]);
+  });
+});
+
+describe("renderReminder", () => {
+  it("renders the default email in the booking timezone with links", () => {
+    const message = renderReminder({ type: "email", subject: null, body: null, offset_minutes: 1440 }, appointment());
+    expect(message?.to).toBe("jordan@example.com");
+    expect(message?.subject).toBe("Reminder: Discovery Call in 24 hours");
+    expect(message?.body).toContain("Hi Jordan,");
+    expect(message?.body).toContain("Tuesday, March 10, 2026 at 2:00 PM (America/New_York)");
+    expect(message?.body).toContain("https://zoom.us/j/123");
+    expect(message?.body).toContain("Need to reschedule or cancel? https://app.example.com/booking/tok/manage");
+  });
+
+  it("leaves out the join line without a meeting link", () => {
+    const sms = renderReminder({ type: "sms", subject: null, body: null, offset_minutes: 60 }, appointment({ meeting_link: null }));
+    expect(sms?.to).toBe("+15551234567");
+    expect(sms?.subject).toBeNull();
+    expect(sms?.body).not.toContain("Join");
+    expect(sms?.body).toContain("Reschedule/cancel: https://app.example.com/booking/tok/manage");
+  });
+
+  it("uses custom copy and returns null without an address", () => {
+    const custom = renderReminder(
+      { type: "sms", subject: null, body: "See you {{reminder.starts_in}}: {{appointment.meeting_link}}", offset_minutes: 30 },
+      appointment(),
+    );
+    expect(custom?.body).toBe("See you in 30 minutes: https://zoom.us/j/123");
+    expect(renderReminder({ type: "sms", subject: null, body: null, offset_minutes: 30 }, appointment({ lead_phone: "" }))).toBeNull();
+  });
+
+  it("renders unknown variables as empty", () => {
+    expect(renderReminderTemplate("Hi {{ lead.name }}{{nope}}!", { "lead.name": "Jo" })).toBe("Hi Jo!");
+    expect(describeOffset(1)).toBe("in 1 minute");
+  });
+});
+
+describe("sending policy", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+
+  it("skips cancelled, rescheduled and already started appointments", () => {
+    expect(getReminderSkipReason(appointment({ status: "CANCELLED" }), now)).toMatch(/cancelled/);
+    expect(getReminderSkipReason(appointment({ status: "RESCHEDULED" }), now)).toMatch(/rescheduled/);
+    expect(getReminderSkipReason(appointment({ start_at_utc: "2026-03-10T11:59:00Z" }), now)).toMatch(/started/);
+    expect(getReminderSkipReason(null, now)).toMatch(/not found/);
+    expect(getReminderSkipReason(appointment(), now)).toBeNull();
+  });
+
+  it("treats opt-outs as skipped rather than failures", () => {
+    expect(classifySendResponse(200, { success: true, messageId: "m1" })).toEqual({ outcome: "sent", messageId: "m1" });
+    expect(classifySendResponse(200, { success: false, code: "DND_SMS", error: "opted out" }).outcome).toBe("skipped");
+    expect(classifySendResponse(402, { success: false, code: "INSUFFICIENT_BALANCE" }).outcome).toBe("error");
+    expect(classifySendResponse(500, null)).toEqual({ outcome: "error", error: "HTTP 500" });
+  });
+
+  it("retries with backoff until attempts run out or the meeting starts", () => {
+    const start = "2026-03-10T18:00:00Z";
+    expect(decideReminderFailure({ attempts: 1 }, start, now)).toEqual({
+      status: "pending",
+      scheduledFor: "2026-03-10T12:05:00.000Z",
+    });
+    expect(decideReminderFailure({ attempts: 2 }, start, now)).toEqual({
+      status: "pending",
+      scheduledFor: "2026-03-10T12:10:00.000Z",
+    });
+    expect(decideReminderFailure({ attempts: MAX_REMINDER_ATTEMPTS }, start, now)).toEqual({ status: "failed" });
+    expect(decideReminderFailure({ attempts: 1 }, "2026-03-10T12:03:00Z", now)).toEqual({ status: "failed" });
+  });
+});
+
+describe("booking reminder wiring", () => {
+  it("schedules reminders on booking and moves them on reschedule", () => {
+    expect(readRepoFile("supabase/functions/create-booking/index.ts"))
+      .toContain("scheduleBookingReminders(supabase, appointment, eventType.reminder_config)");
+
+    const reschedule = readRepoFile("supabase/functions/reschedule-booking/index.ts");
+    expect(reschedule).toContain("cancelBookingReminders(supabase, original.id");
+    expect(reschedule).toContain("scheduleBookingReminders(supabase, newAppointment");
+  });
+
+  it("cancels reminders on cancel", () => {
+    expect(readRepoFile("supabase/functions/cancel-booking/index.ts"))
+      .toContain("cancelBookingReminders(supabase, appointment.id");
+  });
+
+  it("claims due reminders with a lease and runs the worker every minute", () => {
+    const migration = readRepoFile("supabase/migrations/20260220100000_booking_reminders.sql");
+    expect(migration).toContain("FOR UPDATE SKIP LOCKED");
+    expect(migration).toContain("UNIQUE (appointment_id, reminder_key)");
+    expect(migration).toContain("url := public.edge_function_url('send-booking-reminders')");
+    expect(readRepoFile("supabase/functions/send-booking-reminders/index.ts"))
+      .toContain('supabase.rpc("claim_booking_reminders"');
+  });
+
+  it("leaves built-in reminders off unless a calendar opts in", () => {
+    const migration = readRepoFile("supabase/migrations/20260220100000_booking_reminders.sql");
+    expect(migration).toContain("ALTER COLUMN reminder_config SET DEFAULT '[]'::jsonb");
+    expect(migration).not.toContain("24h_before");
+    expect(readRepoFile("src/components/scheduling/CalendarEditor.tsx")).toContain("reminder_config: [],");
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Collective and Group Event Type Tests
+ *
+ * Covers:
+ * 1. Seat capacity per host mode
+ * 2. Collective hosts: all-free intersection and closer / co-host assignment
+ * 3. Group sessions: seats taken per start, cancelled seats freed
+ * 4. Co-hosts count as busy
+ * 5. Wiring: slots, create-booking, cancel/reschedule leave shared meetings alone
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  assignCollectiveHosts,
+  countSessionSeats,
+  getSeatCapacity,
+  getSeatsRemaining,
+  hostAppointmentsFilter,
+  intersectHostSlots,
+  isHostOnAppointment,
+  MAX_SEATS_PER_SLOT,
+  type HostedAppointment,
+} from "../../../supabase/functions/_shared/booking-seats";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const booking = (overrides: Partial<HostedAppointment> = {}): HostedAppointment => ({
+  start_at_utc: "2026-03-10T18:00:00+00:00",
+  duration_minutes: 30,
+  closer_id: "host-a",
+  assigned_user_id: "host-a",
+  additional_host_ids: [],
+  event_type_id: "et-group",
+  status: "NEW",
+  ...overrides,
+});
+
+describe("getSeatCapacity", () => {
+  it("uses seats_per_slot only for group event types", () => {
+    expect(getSeatCapacity({ id: "et", round_robin_mode: "group", seats_per_slot: 8 })).toBe(8);
+    expect(getSeatCapacity({ id: "et", round_robin_mode: "collective", seats_per_slot: 8 })).toBe(1);
+    expect(getSeatCapacity({ id: "et", round_robin_mode: "none" })).toBe(1);
+  });
+
+  it("clamps missing or out-of-range seat counts", () => {
+    expect(getSeatCapacity({ id: "et", round_robin_mode: "group", seats_per_slot: null })).toBe(1);
+    expect(getSeatCapacity({ id: "et", round_robin_mode: "group", seats_per_slot: 0 })).toBe(1);
+    expect(getSeatCapacity({ id: "et", round_robin_mode: "group", seats_per_slot: 10_000 })).toBe(MAX_SEATS_PER_SLOT);
+  });
+});
+
+describe("collective hosts", () => {
+  it("keeps only slots every host has open", () => {
+    const a = ["2026-03-10T14:00:00.000Z", "2026-03-10T14:15:00.000Z", "2026-03-10T14:30:00.000Z"];
+    const b = ["2026-03-10T14:15:00.000Z", "2026-03-10T14:30:00.000Z", "2026-03-10T15:00:00.000Z"];
+    expect(intersectHostSlots([a, b])).toEqual(["2026-03-10T14:15:00.000Z", "2026-03-10T14:30:00.000Z"]);
+  });
+
+  it("offers nothing when one host has no availability that day", () => {
+    expect(intersectHostSlots([["2026-03-10T14:00:00.000Z"], []])).toEqual([]);
+    expect(intersectHostSlots([])).toEqual([]);
+  });
+
+  it("books the first member as closer and the rest as co-hosts", () => {
+    expect(assignCollectiveHosts(["closer", "setter"], () => true)).toEqual({
+      closerId: "closer",
+      additionalHostIds: ["setter"],
+    });
+  });
+
+  it("refuses the slot when any member is busy", () => {
+    expect(assignCollectiveHosts(["closer", "setter"], (id) => id !== "setter")).toBeNull();
+    expect(assignCollectiveHosts([], () => true)).toBeNull();
+  });
+
+  it("treats co-hosts as busy for their other bookings", () => {
+    const appointment = booking({ additional_host_ids: ["setter"] });
+    expect(isHostOnAppointment(appointment, "setter")).toBe(true);
+    expect(isHostOnAppointment(appointment, "host-a")).toBe(true);
+    expect(isHostOnAppointment(appointment, "someone-else")).toBe(false);
+    expect(hostAppointmentsFilter("u1")).toBe("closer_id.eq.u1,assigned_user_id.eq.u1,additional_host_ids.cs.{u1}");
+  });
+});
+
+describe("group seats", () => {
+  it("counts active seats per session start for the event type", () => {
+    const seats = countSessionSeats(
+      [
+        booking(),
+        booking({ start_at_utc: "2026-03-10T18:00:00.000Z" }),
+        booking({ status: "CANCELLED" }),
+        booking({ status: "RESCHEDULED" }),
+        booking({ event_type_id: "et-other" }),
+        booking({ start_at_utc: "2026-03-10T19:00:00Z" }),
+      ],
+      "et-group",
+    );
+
+    expect(seats.get("2026-03-10T18:00:00.000Z")).toBe(2);
+    expect(seats.get("2026-03-10T19:00:00.000Z")).toBe(1);
+    expect(seats.size).toBe(2);
+  });
+
+  it("never reports negative remaining seats", () => {
+    expect(getSeatsRemaining(5, 2)).toBe(3);
+    expect(getSeatsRemaining(5, 7)).toBe(0);
+  });
+});
+
+describe("collective and group wiring", () => {
+  it("get-available-slots intersects collective hosts and reports seats", () => {
+    const slots = readRepoFile("supabase/functions/get-available-slots/index.ts");
+    expect(slots).toContain("collectiveMode ? intersectHostSlots(hostSlotKeys) : hostSlotKeys.flat()");
+    expect(slots).toContain("seats_remaining: getSeatsRemaining(seatCapacity, sessionSeats.get(slotKey) || 0)");
+    expect(slots).toContain("isHostOnAppointment(a, userId)");
+  });
+
+  it("create-booking checks every collective host and fills group sessions", () => {
+    const createBooking = readRepoFile("supabase/functions/create-booking/index.ts");
+    expect(createBooking).toContain("assignCollectiveHosts(round_robin_members");
+    expect(createBooking).toContain("additional_host_ids: additionalHostIds");
+    expect(createBooking).toContain("(sessionAppointments || []).length >= capacity");
+  });
+
+  it("cancel and reschedule leave meetings shared with other invitees alone", () => {
+    const cancel = readRepoFile("supabase/functions/cancel-booking/index.ts");
+    expect(cancel).toContain('isSharedWithOtherBookings(supabase, appointment, "meeting_link")');
+    expect(cancel).toContain('isSharedWithOtherBookings(supabase, appointment, "google_calendar_event_id")');
+
+    const reschedule = readRepoFile("supabase/functions/reschedule-booking/index.ts");
+    expect(reschedule).toContain('isSharedWithOtherBookings(supabase, original, "google_calendar_event_id")');
+  });
+
+  it("the booking page shows remaining spots", () => {
+    expect(readRepoFile("src/components/scheduling/TimeSlotPicker.tsx")).toContain("formatSpots(slot.seats_remaining!)");
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Booking Waitlist Tests
+ *
+ * Covers:
+ * 1. Claim window and offer expiry (cut short by min notice)
+ * 2. Eligibility: first opening vs a date in the entry's timezone, FIFO order
+ * 3. Offer copy and the waitlist_updated payload
+ * 4. offerFreedSlot: holds the slot for the oldest eligible entry, sends the
+ *    offer, skips held / booked slots and disabled waitlists
+ * 5. Wiring: held slots in get-available-slots / create-booking, cancel and
+ *    reschedule backfill, trigger registration, cron and function config
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildClaimUrl,
+  buildWaitlistTriggerPayload,
+  DEFAULT_WAITLIST_CLAIM_MINUTES,
+  getClaimMinutes,
+  getOfferExpiry,
+  getPendingSlotOffer,
+  isEligibleForSlot,
+  offerFreedSlot,
+  pickNextCandidate,
+  renderOfferMessage,
+  toLocalDateTime,
+  type WaitlistEntry,
+} from "../../../supabase/functions/_shared/booking-waitlist";
+import type { DbClient } from "../../../supabase/functions/_shared/db";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const NOW = new Date("2026-03-09T15:00:00Z");
+// Tuesday 10 March 2026, 2pm in New York
+const SLOT = "2026-03-10T18:00:00.000Z";
+
+const entry = (overrides: Partial<WaitlistEntry> = {}): WaitlistEntry => ({
+  id: "w1",
+  team_id: "team-1",
+  event_type_id: "et-1",
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+  phone: null,
+  timezone: "America/New_York",
+  preferred_date: null,
+  status: "waiting",
+  created_at: "2026-03-01T10:00:00Z",
+  ...overrides,
+});
+
+// --- In-memory supabase fake: enough of the query builder for offerFreedSlot ---
+
+type Row = Record<string, unknown>;
+
+function createFakeSupabase(seed: Record<string, object[]>) {
+  const tables = seed as Record<string, Row[]>;
+  const invocations: { name: string; body: Record<string, unknown> }[] = [];
+  let nextId = 1;
+
+  const from = (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let mode: "select" | "update" | "insert" = "select";
+    let payload: Row | null = null;
+    let countMode = false;
+
+    const rows = () => (tables[table] ||= []);
+    const matching = () => rows().filter((row) => filters.every((f) => f(row)));
+
+    const run = (single: boolean) => {
+      if (mode === "insert") {
+        if (table === "booking_waitlist_offers" &&
+            rows().some((o) => ["pending", "claiming"].includes(o.status as string) && o.event_type_id === payload!.event_type_id &&
+              o.slot_start_utc === payload!.slot_start_utc)) {
+          return { data: null, error: { message: "duplicate key value violates unique constraint" } };
+        }
+        const row = { id: `row-${nextId++}`, claim_token: `token-${nextId}`, status: "pending", ...payload };
+        rows().push(row);
+        return { data: row, error: null };
+      }
+      const found = matching();
+      if (mode === "update") found.forEach((row) => Object.assign(row, payload));
+      if (countMode) return { count: found.length, data: null, error: null };
+      return { data: single ? found[0] || null : found, error: null };
+    };
+
+    const builder: Record<string, unknown> = {
+      select: (_cols?: string, opts?: { count?: string }) => {
+        countMode = !!opts?.count;
+        return builder;
+      },
+      update: (values: Row) => { mode = "update"; payload = values; return builder; },
+      insert: (values: Row) => { mode = "insert"; payload = values; return builder; },
+      eq: (col: string, value: unknown) => { filters.push((r) => r[col] === value); return builder; },
+      gt: (col: string, value: string) => { filters.push((r) => String(r[col]) > value); return builder; },
+      in: (col: string, values: unknown[]) => { filters.push((r) => values.includes(r[col])); return builder; },
+      not: (col: string, _op: string, list: string) => {
+        filters.push((r) => !list.replace(/[()]/g, "").split(",").includes(String(r[col])));
+        return builder;
+      },
+      order: () => builder,
+      returns: () => builder,
+      maybeSingle: async () => run(true),
+      single: async () => run(true),
+      then: (resolve: (v: unknown) => void, reject: (e: unknown) => void) => Promise.resolve(run(false)).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  return {
+    tables,
+    invocations,
+    client: {
+      from,
+      functions: {
+        invoke: async (name: string, { body }: { body: Record<string, unknown> }) => {
+          invocations.push({ name, body });
+          return { data: {}, error: null };
+        },
+      },
+    } as unknown as DbClient,
+  };
+}
+
+const eventTypeRow = (overrides: Row = {}) => ({
+  id: "et-1",
+  name: "Strategy Call",
+  is_active: true,
+  round_robin_mode: "none",
+  waitlist_enabled: true,
+  waitlist_claim_minutes: 30,
+  min_notice_hours: 1,
+  ...overrides,
+});
+
+const freedSlot = {
+  team_id: "team-1",
+  event_type_id: "et-1",
+  start_at_utc: SLOT,
+  host_id: "host-a",
+  freed_appointment_id: "appt-1",
+};
+
+// --- Tests ---
+
+describe("claim window", () => {
+  it("defaults and clamps waitlist_claim_minutes", () => {
+    expect(getClaimMinutes({})).toBe(DEFAULT_WAITLIST_CLAIM_MINUTES);
+    expect(getClaimMinutes({ waitlist_claim_minutes: 0 })).toBe(DEFAULT_WAITLIST_CLAIM_MINUTES);
+    expect(getClaimMinutes({ waitlist_claim_minutes: 2 })).toBe(5);
+    expect(getClaimMinutes({ waitlist_claim_minutes: 90 })).toBe(90);
+    expect(getClaimMinutes({ waitlist_claim_minutes: 5000 })).toBe(1440);
+  });
+
+  it("expires after the claim window when the slot is far off", () => {
+    expect(getOfferExpiry(SLOT, 30, 1, NOW)?.toISOString()).toBe("2026-03-09T15:30:00.000Z");
+  });
+
+  it("cuts the window short so the invitee can still book before min notice", () => {
+    const soon = "2026-03-09T16:20:00.000Z";
+    expect(getOfferExpiry(soon, 30, 1, NOW)?.toISOString()).toBe("2026-03-09T15:20:00.000Z");
+  });
+
+  it("gives up when less than 5 minutes would be left", () => {
+    expect(getOfferExpiry("2026-03-09T16:03:00.000Z", 30, 1, NOW)).toBeNull();
+  });
+});
+
+describe("eligibility and order", () => {
+  it("converts a UTC start to the entry's local date and time", () => {
+    expect(toLocalDateTime(SLOT, "America/New_York")).toEqual({ date: "2026-03-10", time: "14:00" });
+    expect(toLocalDateTime("2026-03-10T23:30:00Z", "Asia/Tokyo")).toEqual({ date: "2026-03-11", time: "08:30" });
+    expect(toLocalDateTime(SLOT, "Not/AZone")).toEqual({ date: "2026-03-10", time: "18:00" });
+  });
+
+  it("matches first-opening entries and entries for the slot's local date", () => {
+    expect(isEligibleForSlot(entry(), SLOT)).toBe(true);
+    expect(isEligibleForSlot(entry({ preferred_date: "2026-03-10" }), SLOT)).toBe(true);
+    expect(isEligibleForSlot(entry({ preferred_date: "2026-03-11" }), SLOT)).toBe(false);
+    expect(isEligibleForSlot(entry({ preferred_date: "2026-03-11", timezone: "Asia/Tokyo" }), "2026-03-10T23:30:00Z")).toBe(true);
+  });
+
+  it("picks the oldest eligible waiting entry, skipping ones already offered", () => {
+    const entries = [
+      entry({ id: "late", created_at: "2026-03-05T10:00:00Z" }),
+      entry({ id: "other-day", preferred_date: "2026-03-12", created_at: "2026-02-01T10:00:00Z" }),
+      entry({ id: "offered", status: "offered", created_at: "2026-02-02T10:00:00Z" }),
+      entry({ id: "early", preferred_date: "2026-03-10", created_at: "2026-03-02T10:00:00Z" }),
+    ];
+
+    expect(pickNextCandidate(entries, SLOT)?.id).toBe("early");
+    expect(pickNextCandidate(entries, SLOT, ["early"])?.id).toBe("late");
+    expect(pickNextCandidate(entries, SLOT, ["early", "late"])).toBeNull();
+  });
+});
+
+describe("offer copy and trigger payload", () => {
+  it("renders the slot and expiry in the entry's timezone with the claim link", () => {
+    const url = buildClaimUrl("https://app.example.com/", "tok-1");
+    expect(url).toBe("https://app.example.com/waitlist/tok-1");
+
+    const message = renderOfferMessage(entry(), "Strategy Call", SLOT, new Date("2026-03-09T15:30:00Z"), url);
+    expect(message.subject).toBe("A spot opened up: Strategy Call");
+    expect(message.emailBody).toContain("Hi Ada,");
+    expect(message.emailBody).toContain("Tuesday, March 10 at 2:00 PM");
+    expect(message.emailBody).toContain("until 11:30 AM");
+    expect(message.smsBody).toContain(url);
+  });
+
+  it("puts the waitlist event and details in meta", () => {
+    const payload = buildWaitlistTriggerPayload("offered", entry({ phone: "+15550001111" }), {
+      slotStartUtc: SLOT,
+      claimUrl: "https://app.example.com/waitlist/tok-1",
+    });
+
+    expect(payload.lead).toEqual({ name: "Ada Lovelace", email: "ada@example.com", phone: "+15550001111" });
+    expect(payload.meta.waitlistEvent).toBe("offered");
+    expect(payload.meta.waitlist).toMatchObject({
+      id: "w1",
+      event_type_id: "et-1",
+      slot_start_utc: SLOT,
+      claim_url: "https://app.example.com/waitlist/tok-1",
+    });
+  });
+});
+
+describe("offerFreedSlot", () => {
+  it("holds the slot for the oldest eligible entry and sends the offer", async () => {
+    const fake = createFakeSupabase({
+      event_types: [eventTypeRow()],
+      appointments: [],
+      booking_waitlist_offers: [],
+      booking_waitlist: [
+        entry({ id: "second", created_at: "2026-03-03T10:00:00Z", phone: "+15550001111" }),
+        entry({ id: "first", email: "first@example.com", created_at: "2026-03-02T10:00:00Z", phone: "+15550002222" }),
+      ],
+    });
+
+    const offer = await offerFreedSlot(fake.client, freedSlot, "https://app.example.com", [], NOW);
+
+    expect(offer).toMatchObject({ waitlist_id: "first", host_id: "host-a", slot_start_utc: SLOT, status: "pending" });
+    expect(offer!.expires_at).toBe("2026-03-09T15:30:00.000Z");
+    expect(fake.tables.booking_waitlist.find((e) => e.id === "first")!.status).toBe("offered");
+    expect(fake.tables.booking_waitlist.find((e) => e.id === "second")!.status).toBe("waiting");
+
+    const names = fake.invocations.map((i) => i.name);
+    expect(names).toEqual(["send-email", "send-sms", "automation-trigger"]);
+    expect(fake.invocations[0].body.to).toBe("first@example.com");
+    expect(fake.invocations[0].body.body).toContain(`https://app.example.com/waitlist/${offer!.claim_token}`);
+    expect(fake.invocations[2].body).toMatchObject({
+      triggerType: "waitlist_updated",
+      eventPayload: { meta: { waitlistEvent: "offered" } },
+    });
+  });
+
+  it("does nothing while another offer holds the slot", async () => {
+    const fake = createFakeSupabase({
+      event_types: [eventTypeRow()],
+      appointments: [],
+      booking_waitlist_offers: [
+        { id: "held", event_type_id: "et-1", slot_start_utc: SLOT, status: "pending", expires_at: "2026-03-09T15:20:00.000Z" },
+      ],
+      booking_waitlist: [entry()],
+    });
+
+    expect(await offerFreedSlot(fake.client, freedSlot, "https://app.example.com", [], NOW)).toBeNull();
+    expect(fake.tables.booking_waitlist[0].status).toBe("waiting");
+    expect(fake.invocations).toHaveLength(0);
+  });
+
+  it("keeps holding the slot while its claim link is booking it", async () => {
+    const fake = createFakeSupabase({
+      event_types: [eventTypeRow()],
+      appointments: [],
+      booking_waitlist_offers: [
+        { id: "held", event_type_id: "et-1", slot_start_utc: SLOT, status: "claiming", expires_at: "2026-03-09T15:20:00.000Z" },
+      ],
+      booking_waitlist: [entry()],
+    });
+
+    expect((await getPendingSlotOffer(fake.client, "et-1", SLOT, NOW))?.id).toBe("held");
+    expect(await offerFreedSlot(fake.client, freedSlot, "https://app.example.com", [], NOW)).toBeNull();
+
+    fake.tables.booking_waitlist_offers[0].status = "claimed";
+    expect(await getPendingSlotOffer(fake.client, "et-1", SLOT, NOW)).toBeNull();
+  });
+
+  it("skips slots that were booked again and event types without a waitlist", async () => {
+    const booked = createFakeSupabase({
+      event_types: [eventTypeRow()],
+      appointments: [{ id: "appt-2", event_type_id: "et-1", start_at_utc: SLOT, status: "NEW" }],
+      booking_waitlist_offers: [],
+      booking_waitlist: [entry()],
+    });
+    expect(await offerFreedSlot(booked.client, freedSlot, "https://app.example.com", [], NOW)).toBeNull();
+
+    const disabled = createFakeSupabase({
+      event_types: [eventTypeRow({ waitlist_enabled: false })],
+      booking_waitlist: [entry()],
+    });
+    expect(await offerFreedSlot(disabled.client, freedSlot, "https://app.example.com", [], NOW)).toBeNull();
+    expect(disabled.tables.booking_waitlist[0].status).toBe("waiting");
+  });
+
+  it("passes over entries that already had the slot", async () => {
+    const fake = createFakeSupabase({
+      event_types: [eventTypeRow()],
+      appointments: [],
+      booking_waitlist_offers: [],
+      booking_waitlist: [
+        entry({ id: "first", created_at: "2026-03-02T10:00:00Z" }),
+        entry({ id: "second", created_at: "2026-03-03T10:00:00Z" }),
+      ],
+    });
+
+    const offer = await offerFreedSlot(fake.client, freedSlot, "https://app.example.com", ["first"], NOW);
+    expect(offer?.waitlist_id).toBe("second");
+  });
+});
+
+describe("waitlist wiring", () => {
+  it("get-available-slots leaves held slots out and counts them toward the daily max", () => {
+    const source = readRepoFile("supabase/functions/get-available-slots/index.ts");
+    expect(source).toContain("getHeldSlotKeys(supabase, eventType.id, rangeStart, rangeEnd)");
+    expect(source).toContain("todayBookings + todayHeld >= max_bookings_per_day");
+    expect(source).toContain("heldSlotKeys.has(slotKey)");
+  });
+
+  it("create-booking only lets the claim token book a held slot", () => {
+    const source = readRepoFile("supabase/functions/create-booking/index.ts");
+    expect(source).toContain("getPendingSlotOffer(supabase, event_type_id, startAtUtc.toISOString())");
+    expect(source).toContain("heldOffer.claim_token !== waitlist_claim_token");
+    expect(source.indexOf("const heldOffer")).toBeGreaterThan(source.indexOf("const slotTakenResponse"));
+  });
+
+  it("cancel-booking and reschedule-booking offer the freed slot", () => {
+    for (const fn of ["cancel-booking", "reschedule-booking"]) {
+      const source = readRepoFile(`supabase/functions/${fn}/index.ts`);
+      expect(source).toContain("await offerFreedSlot(supabase, {");
+    }
+  });
+
+  it("claim-waitlist-offer books through create-booking with the claim token", () => {
+    const source = readRepoFile("supabase/functions/claim-waitlist-offer/index.ts");
+    expect(source).toContain("/functions/v1/create-booking");
+    expect(source).toContain("waitlist_claim_token: offer.claim_token");
+  });
+
+  it("claim-waitlist-offer claims the offer before booking and releases it on failure", () => {
+    const source = readRepoFile("supabase/functions/claim-waitlist-offer/index.ts");
+    const claim = source.indexOf('.update({ status: "claiming" })');
+    expect(claim).toBeGreaterThan(-1);
+    expect(source.slice(claim, source.indexOf(".select(", claim))).toContain('.eq("status", "pending")');
+    expect(claim).toBeLessThan(source.indexOf("/functions/v1/create-booking"));
+    expect(source).toContain('.update({ status: "pending" })');
+    expect(source).toContain('.update({ status: "superseded" })');
+  });
+
+  it("registers the waitlist_updated trigger on both sides", () => {
+    expect(readRepoFile("src/lib/automations/types.ts")).toContain("waitlist_updated: { type: 'waitlist_updated'");
+    expect(readRepoFile("supabase/functions/automation-trigger/types.ts")).toContain('| "waitlist_updated"');
+    expect(readRepoFile("supabase/functions/automation-trigger/index.ts")).toContain(
+      'context.meta?.waitlistEvent !== config.waitlistEvent'
+    );
+  });
+
+  it("schedules process-waitlist-offers and exposes the public functions", () => {
+    const migration = readRepoFile("supabase/migrations/20260225100000_booking_waitlist.sql");
+    expect(migration).toContain("url := public.edge_function_url('process-waitlist-offers')");
+    expect(migration).toContain("WHERE status = 'pending'");
+    expect(migration).toContain("WHERE status IN ('pending', 'claiming')");
+    expect(migration).not.toContain("inbvluddkutyfhsxfqco");
+
+    const functionsConfig = readRepoFile("supabase/config.toml");
+    for (const fn of ["join-waitlist", "claim-waitlist-offer", "process-waitlist-offers"]) {
+      expect(functionsConfig).toContain(`[functions.${fn}]`);
+    }
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Contact Dedupe Tests
+ *
+ * Covers:
+ * 1. Email, phone and name normalization
+ * 2. Pair scoring, the conflicting-email penalty and survivor choice
+ * 3. Finding candidate pairs across email and phone buckets
+ * 4. Merge planning: default picks, conflicts, combined tags / custom fields / DND
+ * 5. Wiring: merge_contacts() accepts exactly MERGE_COLUMNS, the contact
+ *    automation triggers are quiet during merges, undo and the contacts UI
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildMergedValues,
+  defaultMergeSelection,
+  DUPLICATE_SCORE_THRESHOLD,
+  findDuplicatePairs,
+  getConflictingFields,
+  MERGE_COLUMNS,
+  normalizeContactEmail,
+  normalizeContactName,
+  normalizeContactPhone,
+  pickSurvivor,
+  scoreContactPair,
+  type DedupeContact,
+} from "../../../supabase/functions/_shared/contact-dedupe";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const MIGRATION = "supabase/migrations/20260302100000_contact_merges.sql";
+
+function contact(id: string, fields: Partial<DedupeContact> = {}): DedupeContact {
+  return { id, created_at: "2026-01-01T00:00:00Z", ...fields };
+}
+
+describe("normalization", () => {
+  it("lowercases and trims emails, rejecting non-addresses", () => {
+    expect(normalizeContactEmail("  Jane@Example.COM ")).toBe("jane@example.com");
+    expect(normalizeContactEmail("not an email")).toBeNull();
+    expect(normalizeContactEmail(null)).toBeNull();
+  });
+
+  it("compares phones by digits and drops a leading NANP country code", () => {
+    expect(normalizeContactPhone("+1 (555) 123-4567")).toBe("5551234567");
+    expect(normalizeContactPhone("555.123.4567")).toBe("5551234567");
+    expect(normalizeContactPhone("whatsapp:+15551234567")).toBe("5551234567");
+    expect(normalizeContactPhone("+44 20 7946 0958")).toBe("442079460958");
+    expect(normalizeContactPhone("12345")).toBeNull();
+  });
+
+  it("ignores case, accents, punctuation and word order in names", () => {
+    expect(normalizeContactName({ name: "José O'Neil" })).toBe("jose oneil");
+    expect(normalizeContactName({ first_name: "Doe,", last_name: "Jane" })).toBe(normalizeContactName({ name: "jane doe" }));
+    expect(normalizeContactName({ name: "  " })).toBeNull();
+  });
+});
+
+describe("scoreContactPair", () => {
+  it("scores email, phone and name matches and caps at 100", () => {
+    const a = contact("a", { name: "Jane Doe", email: "jane@example.com", phone: "+15551234567" });
+    const b = contact("b", { name: "jane doe", email: "JANE@example.com", phone: "555-123-4567" });
+    expect(scoreContactPair(a, b)).toEqual({ score: 100, reasons: ["email", "phone", "name"] });
+  });
+
+  it("keeps a shared email alone above the threshold", () => {
+    const { score, reasons } = scoreContactPair(
+      contact("a", { email: "jane@example.com" }),
+      contact("b", { email: "jane@example.com", name: "J" }),
+    );
+    expect(reasons).toEqual(["email"]);
+    expect(score).toBeGreaterThanOrEqual(DUPLICATE_SCORE_THRESHOLD);
+  });
+
+  it("drops a shared phone below the threshold when the emails differ", () => {
+    const { score } = scoreContactPair(
+      contact("a", { phone: "5551234567", email: "jane@example.com" }),
+      contact("b", { phone: "5551234567", email: "john@example.com" }),
+    );
+    expect(score).toBeLessThan(DUPLICATE_SCORE_THRESHOLD);
+  });
+
+  it("does not treat a matching name alone as a duplicate", () => {
+    const { score, reasons } = scoreContactPair(contact("a", { name: "Sam Lee" }), contact("b", { name: "Sam Lee" }));
+    expect(reasons).toEqual(["name"]);
+    expect(score).toBeLessThan(DUPLICATE_SCORE_THRESHOLD);
+  });
+});
+
+describe("pickSurvivor", () => {
+  it("keeps the contact created first", () => {
+    const older = contact("z", { created_at: "2025-06-01T00:00:00Z" });
+    const newer = contact("a", { created_at: "2026-02-01T00:00:00Z" });
+    expect(pickSurvivor(newer, older)).toEqual([older, newer]);
+  });
+
+  it("breaks ties on id so the order is stable", () => {
+    const [survivor] = pickSurvivor(contact("b"), contact("a"));
+    expect(survivor.id).toBe("a");
+  });
+});
+
+describe("findDuplicatePairs", () => {
+  it("pairs contacts sharing an email or phone, best first", () => {
+    const pairs = findDuplicatePairs([
+      contact("1", { email: "jane@example.com", phone: "5551234567", name: "Jane Doe", created_at: "2025-01-01T00:00:00Z" }),
+      contact("2", { email: "jane@example.com", phone: "+1 555 123 4567", name: "Jane Doe", created_at: "2025-02-01T00:00:00Z" }),
+      contact("3", { phone: "5559990000", created_at: "2025-01-01T00:00:00Z" }),
+      contact("4", { phone: "(555) 999-0000", created_at: "2025-03-01T00:00:00Z" }),
+      contact("5", { email: "other@example.com" }),
+    ]);
+
+    expect(pairs.map((p) => [p.survivor.id, p.duplicate.id, p.score])).toEqual([
+      ["1", "2", 100],
+      ["3", "4", 50],
+    ]);
+  });
+
+  it("reports a pair once even when both email and phone match", () => {
+    const pairs = findDuplicatePairs([
+      contact("1", { email: "a@example.com", phone: "5551234567" }),
+      contact("2", { email: "a@example.com", phone: "5551234567" }),
+    ]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].reasons).toEqual(["email", "phone"]);
+  });
+
+  it("respects a custom threshold", () => {
+    const contacts = [contact("1", { phone: "5551234567" }), contact("2", { phone: "5551234567" })];
+    expect(findDuplicatePairs(contacts, 60)).toHaveLength(0);
+    expect(findDuplicatePairs(contacts, 50)).toHaveLength(1);
+  });
+});
+
+describe("merge planning", () => {
+  const survivor = contact("s", {
+    name: "Jane Doe",
+    email: "jane@example.com",
+    phone: null,
+    city: "Austin",
+    tags: ["lead", "vip"],
+    custom_fields: { plan: "pro", source_form: "a" },
+    dnd_sms: false,
+    opt_in: false,
+    calendly_booked_at: "2026-02-01T00:00:00Z",
+    last_activity_at: "2026-01-01T00:00:00Z",
+    engagement_score: 10,
+  });
+  const duplicate = contact("d", {
+    name: "Jane D.",
+    email: "jane@example.com",
+    phone: "+15551234567",
+    city: "Dallas",
+    tags: ["vip", "typeform"],
+    custom_fields: { plan: "basic", budget: "5k" },
+    dnd_sms: true,
+    opt_in: true,
+    calendly_booked_at: "2026-01-15T00:00:00Z",
+    last_activity_at: "2026-03-01T00:00:00Z",
+    engagement_score: 40,
+  });
+
+  it("keeps the survivor's values and fills its gaps from the duplicate", () => {
+    const selection = defaultMergeSelection(survivor, duplicate);
+    expect(selection.name).toBe("survivor");
+    expect(selection.city).toBe("survivor");
+    expect(selection.phone).toBe("duplicate");
+  });
+
+  it("lists only fields where both records disagree", () => {
+    expect(getConflictingFields(survivor, duplicate)).toEqual(["name", "city"]);
+  });
+
+  it("applies picks and combines the rest", () => {
+    const values = buildMergedValues(survivor, duplicate, {
+      ...defaultMergeSelection(survivor, duplicate),
+      city: "duplicate",
+    });
+
+    expect(values.name).toBe("Jane Doe");
+    expect(values.phone).toBe("+15551234567");
+    expect(values.city).toBe("Dallas");
+    expect(values.tags).toEqual(["lead", "vip", "typeform"]);
+    expect(values.custom_fields).toEqual({ plan: "pro", source_form: "a", budget: "5k" });
+    expect(values.dnd_sms).toBe(true);
+    expect(values.opt_in).toBe(true);
+    expect(values.calendly_booked_at).toBe("2026-01-15T00:00:00Z");
+    expect(values.last_activity_at).toBe("2026-03-01T00:00:00Z");
+    expect(values.engagement_score).toBe(40);
+  });
+
+  it("returns exactly the columns merge_contacts() accepts", () => {
+    expect(Object.keys(buildMergedValues(survivor, duplicate)).sort()).toEqual([...MERGE_COLUMNS].sort());
+  });
+});
+
+describe("wiring", () => {
+  const sql = readRepoFile(MIGRATION);
+
+  it("merge_contacts() allows and writes every merge column", () => {
+    const allowed = sql.match(/v_allowed TEXT\[\] := ARRAY\[([\s\S]*?)\];/)?.[1] || "";
+    const allowedColumns = [...allowed.matchAll(/'([a-z_0-9]+)'/g)].map((m) => m[1]).sort();
+    expect(allowedColumns).toEqual([...MERGE_COLUMNS].sort());
+
+    const setter = sql.slice(sql.indexOf("FUNCTION public.set_contact_merge_fields"), sql.indexOf("WHERE id = p_contact.id"));
+    for (const column of MERGE_COLUMNS) {
+      expect(setter).toContain(`${column} = p_contact.${column}`);
+    }
+  });
+
+  it("merge_contacts() checks admin rights and re-points the contact's history", () => {
+    expect(sql).toContain("public.is_team_admin(auth.uid(), p_team_id)");
+    expect(sql).toContain("UPDATE public.message_logs SET contact_id = p_survivor_id");
+    expect(sql).toContain("UPDATE public.automation_enrollments SET contact_id = p_survivor_id");
+    expect(sql).toMatch(/UPDATE public\.appointments a SET\s+lead_name/);
+    expect(sql).toMatch(/UPDATE public\.funnel_leads l SET\s+name/);
+    expect(sql).toContain("INSERT INTO public.activity_logs");
+    expect(sql).toContain("INSERT INTO public.contact_merges");
+  });
+
+  it("undo restores the duplicate and marks the merge undone", () => {
+    const undo = sql.slice(sql.indexOf("FUNCTION public.undo_contact_merge"));
+    expect(undo).toContain("This merge was already undone");
+    expect(undo).toContain("INSERT INTO public.contacts SELECT v_duplicate.*");
+    expect(undo).toContain("DELETE FROM public.activity_logs WHERE id = ANY(v_activity_ids)");
+    expect(undo).toContain("SET undone_at = now(), undone_by = auth.uid()");
+  });
+
+  it("contact automation triggers are skipped while a merge runs", () => {
+    for (const trigger of [
+      "on_contact_insert_automation",
+      "on_contact_tag_change_automation",
+      "on_contact_dnd_automation",
+      "on_contact_changed_automation",
+    ]) {
+      const definition = sql.slice(sql.indexOf(`CREATE TRIGGER ${trigger}`));
+      expect(definition.slice(0, definition.indexOf("EXECUTE FUNCTION"))).toContain("NOT public.contact_merge_in_progress()");
+    }
+    expect(sql.match(/set_config\('app\.contact_merge', 'on', true\)/g)).toHaveLength(2);
+  });
+
+  it("internal helpers are not callable by clients", () => {
+    expect(sql).toContain("REVOKE ALL ON FUNCTION public.set_contact_merge_fields(public.contacts) FROM PUBLIC, anon, authenticated");
+    expect(sql).toContain("REVOKE ALL ON FUNCTION public.refresh_contact_conversation(UUID, UUID) FROM PUBLIC, anon, authenticated");
+  });
+
+  it("the database matches contacts with the same keys as the finder", () => {
+    expect(sql).toContain("WHEN length(d) = 11 AND left(d, 1) = '1' THEN substr(d, 2)");
+    expect(sql).toContain("WHEN length(d) >= 7 THEN d");
+    expect(sql).toContain("SELECT CASE WHEN strpos(e, '@') > 0 THEN e END");
+
+    const merge = sql.slice(sql.indexOf("FUNCTION public.merge_contacts"), sql.indexOf("FUNCTION public.undo_contact_merge"));
+    expect(merge).not.toContain("regexp_replace");
+    expect(merge).toContain("public.normalize_contact_phone(a.lead_phone) = ANY(v_phones)");
+    expect(merge).toContain("public.normalize_contact_phone(l.phone) = ANY(v_phones)");
+    expect(merge).toContain("public.normalize_contact_email(a.lead_email) = ANY(v_emails)");
+    expect(merge).toContain("public.normalize_contact_email(l.email) = ANY(v_emails)");
+  });
+
+  it("the finder loads candidates server-side and pages past the row cap", () => {
+    const candidates = sql.slice(sql.indexOf("FUNCTION public.find_duplicate_contact_candidates"));
+    expect(candidates).toContain("SECURITY INVOKER");
+    expect(candidates).toContain("HAVING count(*) > 1");
+    expect(candidates).toContain("GRANT EXECUTE ON FUNCTION public.find_duplicate_contact_candidates(UUID) TO authenticated");
+
+    const dialog = readRepoFile("src/components/funnel-analytics/ContactDuplicatesDialog.tsx");
+    expect(dialog).toContain(".rpc('find_duplicate_contact_candidates', { p_team_id: teamId })");
+    expect(dialog).toContain(".range(from, from + CANDIDATE_PAGE_SIZE - 1)");
+    expect(dialog).not.toContain(".limit(5000)");
+  });
+
+  it("the contacts tab opens the duplicate finder for admins", () => {
+    const page = readRepoFile("src/pages/FunnelList.tsx");
+    expect(page).toContain("<ContactDuplicatesDialog");
+    expect(page).toContain("setDuplicatesOpen(true)");
+  });
+});
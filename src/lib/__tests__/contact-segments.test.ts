@@ -0,0 +1,292 @@
+/**
+ * Contact Segment Tests
+ *
+ * Covers:
+ * 1. Segment fields (built-in and typed custom fields) and validation
+ * 2. Matching with automation condition operators: tags, custom fields,
+ *    last activity, pipeline stage from the latest appointment, AND/OR
+ * 3. Keyset pages: limits, cursors and scanning across batches
+ * 4. Bulk action validation and tag changes
+ * 5. Wiring: migration, evaluate-segment access checks, process-scheduled-jobs
+ *    segment jobs and the contacts tab entry
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  applySegmentTagAction,
+  collectSegmentPage,
+  getSegmentEngineOptions,
+  getSegmentFields,
+  getSegmentJobPageSize,
+  indexLatestDeals,
+  matchesSegment,
+  buildSegmentContext,
+  normalizeSegment,
+  scanSegment,
+  validateSegment,
+  validateSegmentAction,
+  SEGMENT_ENROLL_PAGE_SIZE,
+  SEGMENT_SCAN_BATCH_SIZE,
+  type SegmentContact,
+  type SegmentDeal,
+  type SegmentDefinition,
+} from "../../../supabase/functions/_shared/contact-segments";
+import type { CustomFieldDefinition } from "../../../supabase/functions/_shared/custom-fields";
+import type { DbClient } from "../../../supabase/functions/_shared/db";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const NOW = new Date("2026-03-10T12:00:00Z").getTime();
+const CUSTOM_FIELDS: CustomFieldDefinition[] = [
+  { key: "budget", label: "Budget", field_type: "currency", position: 1 },
+  { key: "plan", label: "Plan", field_type: "dropdown", options: ["Basic", "Pro"], position: 0 },
+];
+const OPTIONS = getSegmentEngineOptions(CUSTOM_FIELDS, () => NOW);
+
+const segment = (conditions: SegmentDefinition["conditions"], logic: "AND" | "OR" = "AND"): SegmentDefinition => ({
+  name: "Test",
+  conditions,
+  condition_logic: logic,
+});
+
+const contact = (id: string, fields: Partial<SegmentContact> = {}): SegmentContact => ({
+  id,
+  email: `${id}@example.com`,
+  tags: [],
+  custom_fields: {},
+  last_activity_at: "2026-03-09T12:00:00Z",
+  ...fields,
+});
+
+const matches = (def: SegmentDefinition, c: SegmentContact, deal?: SegmentDeal) =>
+  matchesSegment(def, buildSegmentContext(c, deal, new Date(NOW)), OPTIONS);
+
+describe("segment fields", () => {
+  it("lists built-in fields, then custom fields by position with their condition type", () => {
+    const fields = getSegmentFields(CUSTOM_FIELDS);
+    expect(fields.find((f) => f.key === "lead.tags")?.type).toBe("array");
+    expect(fields.find((f) => f.key === "deal.pipeline_stage")?.group).toBe("Pipeline");
+    expect(fields.slice(-2).map((f) => [f.key, f.type])).toEqual([
+      ["lead.custom_fields.plan", "string"],
+      ["lead.custom_fields.budget", "number"],
+    ]);
+  });
+});
+
+describe("validateSegment", () => {
+  it("accepts a complete segment", () => {
+    expect(validateSegment(segment([{ field: "lead.tags", operator: "contains", value: "vip" }]))).toBeNull();
+    expect(validateSegment(segment([{ field: "lead.email", operator: "is_set", value: null }]))).toBeNull();
+  });
+
+  it("names the condition that is incomplete", () => {
+    expect(validateSegment({ ...segment([]), name: " " })).toBe("Name is required");
+    expect(validateSegment(segment([]))).toBe("Add at least one condition");
+    expect(validateSegment(segment([{ field: "", operator: "equals", value: "x" }]))).toBe("Condition 1 needs a field");
+    expect(
+      validateSegment(segment([
+        { field: "lead.tags", operator: "contains", value: "vip" },
+        { field: "lead.source", operator: "equals", value: " " },
+      ])),
+    ).toBe("Condition 2 needs a value");
+    expect(validateSegment(segment([{ field: "lead.custom_fields.budget", operator: "between", value: ["1000"] }])))
+      .toContain("needs two values");
+  });
+
+  it("normalizes stored rows and drafts", () => {
+    expect(normalizeSegment({ name: " VIPs ", conditions: [{ id: "c1", field: "lead.tags", operator: "contains", value: "vip" }] }))
+      .toEqual({
+        name: "VIPs",
+        conditions: [{ field: "lead.tags", operator: "contains", value: "vip" }],
+        condition_logic: "AND",
+      });
+    expect(normalizeSegment({ condition_logic: "OR" }).condition_logic).toBe("OR");
+    expect(normalizeSegment({ condition_logic: "XOR" }).condition_logic).toBe("AND");
+  });
+});
+
+describe("matching", () => {
+  it("filters on tags", () => {
+    const vip = segment([{ field: "lead.tags", operator: "contains", value: "vip" }]);
+    expect(matches(vip, contact("a", { tags: ["vip", "webinar"] }))).toBe(true);
+    expect(matches(vip, contact("b", { tags: ["webinar"] }))).toBe(false);
+  });
+
+  it("compares typed custom fields by type", () => {
+    const highBudget = segment([{ field: "lead.custom_fields.budget", operator: "greater_than", value: "5000" }]);
+    expect(matches(highBudget, contact("a", { custom_fields: { budget: "$6,000" } }))).toBe(true);
+    expect(matches(highBudget, contact("b", { custom_fields: { budget: "900" } }))).toBe(false);
+  });
+
+  it("filters on last activity relative to now", () => {
+    const quiet = segment([{ field: "lead.last_activity_at", operator: "date_past_days", value: 30 }]);
+    expect(matches(quiet, contact("a", { last_activity_at: "2026-01-01T00:00:00Z" }))).toBe(true);
+    expect(matches(quiet, contact("b"))).toBe(false);
+  });
+
+  it("reads the pipeline stage from the latest appointment by email", () => {
+    const deals = indexLatestDeals([
+      { id: "d1", lead_email: "A@example.com", pipeline_stage: "qualified", status: "confirmed", start_at_utc: "2026-03-01T10:00:00Z" },
+      { id: "d2", lead_email: "a@example.com", pipeline_stage: "won", status: "completed", start_at_utc: "2026-03-05T10:00:00Z" },
+    ]);
+    const won = segment([{ field: "deal.pipeline_stage", operator: "equals", value: "won" }]);
+    expect(deals.get("a@example.com")?.id).toBe("d2");
+    expect(matches(won, contact("a"), deals.get("a@example.com"))).toBe(true);
+    expect(matches(won, contact("b"))).toBe(false);
+  });
+
+  it("combines conditions with AND or OR", () => {
+    const conditions = [
+      { field: "lead.tags", operator: "contains", value: "vip" },
+      { field: "lead.custom_fields.plan", operator: "equals", value: "pro" },
+    ];
+    const c = contact("a", { tags: ["vip"], custom_fields: { plan: "Basic" } });
+    expect(matches(segment(conditions, "AND"), c)).toBe(false);
+    expect(matches(segment(conditions, "OR"), c)).toBe(true);
+  });
+
+  it("never matches everyone with an empty condition list", () => {
+    expect(matches(segment([]), contact("a"))).toBe(false);
+  });
+});
+
+describe("paging", () => {
+  const vip = segment([{ field: "lead.tags", operator: "contains", value: "vip" }]);
+  const contacts = ["a", "b", "c", "d", "e"].map((id) =>
+    contact(id, { tags: ["a", "c", "d", "e"].includes(id) ? ["vip"] : [] }),
+  );
+
+  it("stops at the limit with the cursor on the last contact evaluated", () => {
+    const page = collectSegmentPage(contacts, vip, 2, undefined, OPTIONS);
+    expect(page.matches.map((c) => c.id)).toEqual(["a", "c"]);
+    expect(page.cursor).toBe("c");
+    expect(page.scanned).toBe(3);
+  });
+
+  it("continues from the cursor without repeats or gaps", () => {
+    const rest = contacts.filter((c) => c.id > "c");
+    const page = collectSegmentPage(rest, vip, 2, undefined, OPTIONS);
+    expect(page.matches.map((c) => c.id)).toEqual(["d", "e"]);
+  });
+
+  // Minimal stand-in for the supabase query builder: contacts in id order after the cursor
+  const fakeClient = (rows: SegmentContact[]) => {
+    const queries: Array<{ cursor: string | null; limit: number }> = [];
+    const client = {
+      queries,
+      from: () => {
+        const state = { cursor: null as string | null, limit: Infinity };
+        const builder: Record<string, unknown> = {
+          select: () => builder,
+          eq: () => builder,
+          order: () => builder,
+          limit: (n: number) => ((state.limit = n), builder),
+          gt: (_column: string, value: string) => ((state.cursor = value), builder),
+          then: (resolve: (result: unknown) => void) => {
+            queries.push({ ...state });
+            const data = rows.filter((row) => !state.cursor || row.id > state.cursor).slice(0, state.limit);
+            resolve({ data, error: null });
+          },
+        };
+        return builder;
+      },
+    };
+    return client as unknown as DbClient & { queries: typeof queries };
+  };
+
+  const many = Array.from({ length: SEGMENT_SCAN_BATCH_SIZE + 20 }, (_, i) =>
+    contact(`c${String(i).padStart(4, "0")}`, { tags: i % 100 === 0 ? ["vip"] : [] }),
+  );
+
+  it("scans across batches until the page fills", async () => {
+    const client = fakeClient(many);
+    const result = await scanSegment(client, "team-1", vip, { limit: 6, maxScan: 5000, engineOptions: OPTIONS });
+    expect(result.matches.map((c) => c.id)).toEqual(["c0000", "c0100", "c0200", "c0300", "c0400", "c0500"]);
+    expect(result.nextCursor).toBe("c0500");
+    expect(client.queries.map((q) => q.cursor)).toEqual([null, "c0499"]);
+  });
+
+  it("reports no next cursor once the last batch is read to the end", async () => {
+    const result = await scanSegment(fakeClient(many), "team-1", vip, {
+      cursor: "c0500",
+      limit: 10,
+      maxScan: 5000,
+      engineOptions: OPTIONS,
+    });
+    expect(result.matches).toEqual([]);
+    expect(result.scanned).toBe(19);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it("returns a short page with a cursor when the scan budget runs out", async () => {
+    const result = await scanSegment(fakeClient(many), "team-1", vip, { limit: 10, maxScan: 150, engineOptions: OPTIONS });
+    expect(result.matches.map((c) => c.id)).toEqual(["c0000", "c0100"]);
+    expect(result.nextCursor).toBe("c0149");
+  });
+
+  it("tallies without collecting for counts", async () => {
+    const result = await scanSegment(fakeClient(many), "team-1", vip, {
+      limit: Infinity,
+      maxScan: 50000,
+      collect: false,
+      engineOptions: OPTIONS,
+    });
+    expect(result.matched).toBe(6);
+    expect(result.matches).toEqual([]);
+    expect(result.nextCursor).toBeNull();
+  });
+});
+
+describe("bulk actions", () => {
+  it("validates the action", () => {
+    expect(validateSegmentAction({ type: "add_tag", tag: " " })).toBe("Enter a tag");
+    expect(validateSegmentAction({ type: "enroll" })).toBe("Pick a workflow");
+    expect(validateSegmentAction({ type: "enroll", automationId: "wf-1" })).toBeNull();
+  });
+
+  it("changes tags only when needed", () => {
+    expect(applySegmentTagAction(["a"], { type: "add_tag", tag: "vip" })).toEqual(["a", "vip"]);
+    expect(applySegmentTagAction(["vip"], { type: "add_tag", tag: "vip" })).toBeNull();
+    expect(applySegmentTagAction(["a", "vip"], { type: "remove_tag", tag: "vip" })).toEqual(["a"]);
+    expect(applySegmentTagAction(null, { type: "remove_tag", tag: "vip" })).toBeNull();
+  });
+
+  it("enrolls fewer contacts per tick than it tags", () => {
+    expect(getSegmentJobPageSize({ type: "enroll", automationId: "wf-1" })).toBe(SEGMENT_ENROLL_PAGE_SIZE);
+    expect(getSegmentJobPageSize({ type: "add_tag", tag: "x" })).toBeGreaterThan(SEGMENT_ENROLL_PAGE_SIZE);
+  });
+});
+
+describe("wiring", () => {
+  it("migration stores conditions and bulk jobs per team", () => {
+    const sql = readRepoFile("supabase/migrations/20260304100000_contact_segments.sql");
+    expect(sql).toContain("CREATE TABLE IF NOT EXISTS public.contact_segments");
+    expect(sql).toContain("condition_logic IN ('AND', 'OR')");
+    expect(sql).toContain("CREATE TABLE IF NOT EXISTS public.contact_segment_jobs");
+    expect(sql).toContain("action_type IN ('add_tag', 'remove_tag', 'enroll')");
+    expect(sql).toContain("public.is_team_admin(auth.uid(), team_id) AND status = 'cancelled'");
+  });
+
+  it("evaluate-segment checks access and needs an admin for bulk actions", () => {
+    const src = readRepoFile("supabase/functions/evaluate-segment/index.ts");
+    expect(src).toContain('mode === "bulk" ? "is_team_admin" : "can_access_workspace"');
+    expect(src).toContain("SEGMENT_MAX_SCAN_PER_REQUEST");
+    expect(src).toContain('.from("contact_segment_jobs")');
+  });
+
+  it("process-scheduled-jobs advances segment jobs and enrolls through manual_trigger", () => {
+    const src = readRepoFile("supabase/functions/process-scheduled-jobs/index.ts");
+    expect(src).toContain("await advanceSegmentJobs(supabase, workerId, new Date())");
+    expect(src).toContain('triggerType: "manual_trigger"');
+    expect(src).toContain("eventId: `segment_job:${job.id}:${contact.id}`");
+  });
+
+  it("contacts tab opens the segments dialog", () => {
+    const src = readRepoFile("src/pages/FunnelList.tsx");
+    expect(src).toContain("<ContactSegmentsDialog");
+    expect(src).toContain("setSegmentsOpen(true)");
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Conversations Inbox Tests
+ *
+ * Covers:
+ * 1. Shaping message_logs rows into thread entries (direction, email subjects,
+ *    delivery status, automated sends)
+ * 2. Contact display names and the channels a contact can be replied on
+ * 3. Reply validation and the send function / payload a reply goes through
+ * 4. Wiring: migration, send-conversation-reply access checks, send-email
+ *    storing bodies, inbound-sms linking contacts, route and sidebar entry
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildReplyRequest,
+  getContactDisplayName,
+  getReplyChannels,
+  MAX_TEXT_REPLY_LENGTH,
+  toConversationMessage,
+  validateReply,
+  type ConversationChannel,
+  type ConversationContact,
+} from "../../../supabase/functions/_shared/conversations";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const CONTACT: ConversationContact = {
+  id: "contact-1",
+  name: "Jane Doe",
+  email: "jane@example.com",
+  phone: "+15551234567",
+};
+
+describe("toConversationMessage", () => {
+  it("maps an inbound SMS", () => {
+    const message = toConversationMessage({
+      id: "m1",
+      channel: "sms",
+      direction: "inbound",
+      payload: { from: "+15551234567", body: "Is 3pm still ok?" },
+      status: "received",
+      created_at: "2026-03-01T10:00:00Z",
+    });
+
+    expect(message).toEqual({
+      id: "m1",
+      channel: "sms",
+      direction: "inbound",
+      body: "Is 3pm still ok?",
+      subject: null,
+      status: "received",
+      error: null,
+      automated: false,
+      createdAt: "2026-03-01T10:00:00Z",
+    });
+  });
+
+  it("treats rows without a direction as outbound", () => {
+    const message = toConversationMessage({
+      id: "m2",
+      channel: "whatsapp",
+      payload: { body: "Reminder" },
+      status: "sent",
+      created_at: "2026-03-01T10:00:00Z",
+    });
+    expect(message.direction).toBe("outbound");
+  });
+
+  it("keeps the subject for email only", () => {
+    const email = toConversationMessage({
+      id: "m3",
+      channel: "email",
+      payload: { subject: "Your booking", body: "See you soon" },
+      status: "sent",
+      created_at: "2026-03-01T10:00:00Z",
+    });
+    const sms = toConversationMessage({
+      id: "m4",
+      channel: "sms",
+      payload: { subject: "ignored", body: "Hi" },
+      status: "sent",
+      created_at: "2026-03-01T10:00:00Z",
+    });
+
+    expect(email.subject).toBe("Your booking");
+    expect(email.body).toBe("See you soon");
+    expect(sms.subject).toBeNull();
+  });
+
+  it("shows an empty body for emails logged before bodies were stored", () => {
+    const message = toConversationMessage({
+      id: "m5",
+      channel: "email",
+      payload: { subject: "Old email", hasHtml: true },
+      status: "sent",
+      created_at: "2026-03-01T10:00:00Z",
+    });
+    expect(message.body).toBe("");
+    expect(message.subject).toBe("Old email");
+  });
+
+  it("prefers the delivery status and surfaces errors", () => {
+    const message = toConversationMessage({
+      id: "m6",
+      channel: "sms",
+      payload: { body: "Hi" },
+      status: "sent",
+      delivery_status: "undelivered",
+      error_message: "Carrier rejected",
+      created_at: "2026-03-01T10:00:00Z",
+    });
+    expect(message.status).toBe("undelivered");
+    expect(message.error).toBe("Carrier rejected");
+  });
+
+  it("marks workflow sends as automated", () => {
+    const message = toConversationMessage({
+      id: "m7",
+      channel: "sms",
+      automation_id: "auto-1",
+      payload: { body: "Thanks for booking" },
+      status: "sent",
+      created_at: "2026-03-01T10:00:00Z",
+    });
+    expect(message.automated).toBe(true);
+  });
+});
+
+describe("getContactDisplayName", () => {
+  it("prefers the name, then first and last name, then email or phone", () => {
+    expect(getContactDisplayName(CONTACT)).toBe("Jane Doe");
+    expect(getContactDisplayName({ id: "c", first_name: "Sam", last_name: "Lee" })).toBe("Sam Lee");
+    expect(getContactDisplayName({ id: "c", email: "x@example.com", phone: "+1555" })).toBe("x@example.com");
+    expect(getContactDisplayName({ id: "c", phone: "+1555" })).toBe("+1555");
+    expect(getContactDisplayName({ id: "c" })).toBe("Unknown contact");
+  });
+});
+
+describe("getReplyChannels", () => {
+  it("offers SMS and WhatsApp for a phone and email for an address", () => {
+    expect(getReplyChannels(CONTACT)).toEqual(["sms", "whatsapp", "email"]);
+    expect(getReplyChannels({ id: "c", phone: "+1555" })).toEqual(["sms", "whatsapp"]);
+    expect(getReplyChannels({ id: "c", email: "x@example.com" })).toEqual(["email"]);
+  });
+
+  it("ignores blank addresses", () => {
+    expect(getReplyChannels({ id: "c", email: "  ", phone: "" })).toEqual([]);
+  });
+});
+
+describe("validateReply", () => {
+  const base = { teamId: "team-1", contact: CONTACT };
+
+  it("accepts a text reply and an email with a subject", () => {
+    expect(validateReply({ ...base, channel: "sms", body: "On my way" })).toBeNull();
+    expect(validateReply({ ...base, channel: "email", body: "Hello", subject: "Re: booking" })).toBeNull();
+  });
+
+  it("rejects unknown channels", () => {
+    expect(validateReply({ ...base, channel: "fax" as unknown as ConversationChannel, body: "Hi" })).toBe("Unsupported channel");
+  });
+
+  it("rejects a channel the contact can't be reached on", () => {
+    expect(validateReply({ ...base, contact: { id: "c", email: "x@example.com" }, channel: "sms", body: "Hi" }))
+      .toBe("Contact has no phone number");
+    expect(validateReply({ ...base, contact: { id: "c", phone: "+1555" }, channel: "email", body: "Hi", subject: "S" }))
+      .toBe("Contact has no email address");
+  });
+
+  it("rejects empty bodies and emails without a subject", () => {
+    expect(validateReply({ ...base, channel: "whatsapp", body: "   " })).toBe("Message is empty");
+    expect(validateReply({ ...base, channel: "email", body: "Hello", subject: " " })).toBe("Email needs a subject");
+  });
+
+  it("caps text replies but not email", () => {
+    const long = "x".repeat(MAX_TEXT_REPLY_LENGTH + 1);
+    expect(validateReply({ ...base, channel: "sms", body: long })).toContain(`${MAX_TEXT_REPLY_LENGTH}`);
+    expect(validateReply({ ...base, channel: "email", body: long, subject: "S" })).toBeNull();
+  });
+});
+
+describe("buildReplyRequest", () => {
+  it("sends SMS and WhatsApp to the phone with the contact as lead", () => {
+    expect(buildReplyRequest({ teamId: "team-1", contact: CONTACT, channel: "sms", body: " Hi " })).toEqual({
+      functionName: "send-sms",
+      payload: { to: "+15551234567", body: "Hi", teamId: "team-1", leadId: "contact-1" },
+    });
+    expect(buildReplyRequest({ teamId: "team-1", contact: CONTACT, channel: "whatsapp", body: "Hi" }).functionName)
+      .toBe("send-whatsapp");
+  });
+
+  it("sends email to the address with a subject", () => {
+    expect(
+      buildReplyRequest({ teamId: "team-1", contact: CONTACT, channel: "email", body: "Hello", subject: " Re: booking " }),
+    ).toEqual({
+      functionName: "send-email",
+      payload: { to: "jane@example.com", body: "Hello", subject: "Re: booking", teamId: "team-1", leadId: "contact-1" },
+    });
+  });
+});
+
+describe("wiring", () => {
+  it("migration adds direction, allows received logs and rolls messages into conversations", () => {
+    const sql = readRepoFile("supabase/migrations/20260301100000_conversations_inbox.sql");
+    expect(sql).toContain("ADD COLUMN IF NOT EXISTS direction TEXT");
+    expect(sql).toMatch(/message_logs_status_check CHECK \(status IN \([^)]*'received'/);
+    expect(sql).toContain("CREATE TABLE IF NOT EXISTS public.conversations");
+    expect(sql).toContain("UNIQUE (team_id, contact_id)");
+    expect(sql).toContain("CREATE TRIGGER message_logs_set_contact");
+    expect(sql).toContain("CREATE TRIGGER message_logs_bump_conversation");
+    expect(sql).toContain("ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations");
+  });
+
+  it("send-conversation-reply checks workspace access and sends through the channel functions", () => {
+    const src = readRepoFile("supabase/functions/send-conversation-reply/index.ts");
+    expect(src).toContain("auth.getUser(token)");
+    expect(src).toContain('rpc("can_access_workspace"');
+    expect(src).toContain("validateReply(reply)");
+    expect(src).toContain("buildReplyRequest(reply)");
+    expect(src).toContain("/functions/v1/${functionName}");
+  });
+
+  it("send-email logs the plain-text body", () => {
+    const src = readRepoFile("supabase/functions/send-email/index.ts");
+    expect(src).toMatch(/body: body \|\| ""/);
+  });
+
+  it("inbound-sms links logs to the contact", () => {
+    const src = readRepoFile("supabase/functions/inbound-sms/index.ts");
+    expect(src.match(/contact_id: contact\?\.id \|\| null/g)?.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it("the inbox is routed and in the sidebar", () => {
+    expect(readRepoFile("src/App.tsx")).toContain('<Route path="conversations" element={<Conversations />} />');
+    expect(readRepoFile("src/components/TeamSidebar.tsx")).toContain('path: "/conversations"');
+  });
+});
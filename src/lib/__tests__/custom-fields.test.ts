@@ -0,0 +1,250 @@
+/**
+ * Typed Custom Field Tests
+ *
+ * Covers:
+ * 1. Definition validation and key suggestions
+ * 2. Coercing raw values to each field type, and batch coercion keeping
+ *    values that don't fit
+ * 3. Typed conditions: "budget > 5000" and equals compare numbers, dates by day,
+ *    checkboxes and multi-selects by value
+ * 4. Variables, update_contact paths and CSV export columns
+ * 5. Wiring: migration, automation-trigger, submit-funnel-lead, funnel form
+ *    mapping and team settings
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  coerceCustomFieldValue,
+  coerceCustomFieldValues,
+  findCustomFieldForPath,
+  formatCustomFieldValue,
+  getCustomFieldConditionTypes,
+  getCustomFieldExportColumns,
+  toCustomFieldKey,
+  validateCustomFieldDefinition,
+  type CustomFieldDefinition,
+} from "../../../supabase/functions/_shared/custom-fields";
+import { evaluateCondition } from "../../../supabase/functions/_shared/automation-engine";
+import { getCustomFieldVariables, getOperatorsForType } from "../automations/variableSchema";
+import { generateCSV } from "../csvExport";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const BUDGET: CustomFieldDefinition = { key: "budget", label: "Budget", field_type: "currency", currency: "USD" };
+const SEATS: CustomFieldDefinition = { key: "seats", label: "Seats", field_type: "number" };
+const START: CustomFieldDefinition = { key: "start_date", label: "Start date", field_type: "date" };
+const PLAN: CustomFieldDefinition = { key: "plan", label: "Plan", field_type: "dropdown", options: ["Basic", "Pro"] };
+const CHANNELS: CustomFieldDefinition = {
+  key: "channels",
+  label: "Channels",
+  field_type: "multi_select",
+  options: ["SMS", "Email", "Phone"],
+};
+const VIP: CustomFieldDefinition = { key: "vip", label: "VIP", field_type: "checkbox" };
+const NOTES: CustomFieldDefinition = { key: "notes", label: "Notes", field_type: "text" };
+const FIELDS = [BUDGET, SEATS, START, PLAN, CHANNELS, VIP, NOTES];
+
+describe("definitions", () => {
+  it("suggests a key from the label", () => {
+    expect(toCustomFieldKey("Monthly Budget ($)")).toBe("monthly_budget");
+    expect(toCustomFieldKey("Área de interés")).toBe("area_de_interes");
+    expect(toCustomFieldKey("2nd phone")).toBe("nd_phone");
+  });
+
+  it("accepts a valid definition", () => {
+    expect(validateCustomFieldDefinition(PLAN, FIELDS)).toBeNull();
+  });
+
+  it("rejects bad keys, duplicates and missing labels", () => {
+    expect(validateCustomFieldDefinition({ ...NOTES, key: "Notes" })).toContain("lowercase");
+    expect(validateCustomFieldDefinition({ ...NOTES, id: "new" }, [{ ...NOTES, id: "old" }])).toContain("already exists");
+    expect(validateCustomFieldDefinition({ ...NOTES, label: " " })).toBe("Label is required");
+  });
+
+  it("requires unique options for dropdowns and multi-selects", () => {
+    expect(validateCustomFieldDefinition({ ...PLAN, options: [] })).toContain("at least one option");
+    expect(validateCustomFieldDefinition({ ...PLAN, options: ["Pro", "pro"] })).toBe("Options must be unique");
+  });
+
+  it("checks the currency code", () => {
+    expect(validateCustomFieldDefinition({ ...BUDGET, currency: "dollars" })).toContain("three-letter");
+  });
+});
+
+describe("coerceCustomFieldValue", () => {
+  it("parses numbers and rounds currency to cents", () => {
+    expect(coerceCustomFieldValue(SEATS, "12")).toEqual({ value: 12, error: null });
+    expect(coerceCustomFieldValue(BUDGET, "$5,000.499").value).toBe(5000.5);
+    expect(coerceCustomFieldValue(BUDGET, "5000 USD").value).toBe(5000);
+    expect(coerceCustomFieldValue(SEATS, "a dozen").error).toBe("Seats must be a number");
+  });
+
+  it("stores dates as calendar days", () => {
+    expect(coerceCustomFieldValue(START, "2026-04-01").value).toBe("2026-04-01");
+    expect(coerceCustomFieldValue(START, "2026-04-01T15:30:00Z").value).toBe("2026-04-01");
+    expect(coerceCustomFieldValue(START, "2026-02-30").error).toBe("Start date must be a date");
+  });
+
+  it("matches dropdown options case-insensitively", () => {
+    expect(coerceCustomFieldValue(PLAN, " pro ").value).toBe("Pro");
+    expect(coerceCustomFieldValue(PLAN, "Enterprise").error).toBe("Plan must be one of: Basic, Pro");
+  });
+
+  it("accepts multi-select lists or comma-separated text", () => {
+    expect(coerceCustomFieldValue(CHANNELS, "sms, Email, SMS").value).toEqual(["SMS", "Email"]);
+    expect(coerceCustomFieldValue(CHANNELS, ["Phone"]).value).toEqual(["Phone"]);
+    expect(coerceCustomFieldValue(CHANNELS, "Fax").error).toContain('"Fax" is not an option');
+  });
+
+  it("reads checkboxes from booleans and yes/no text", () => {
+    expect(coerceCustomFieldValue(VIP, "yes").value).toBe(true);
+    expect(coerceCustomFieldValue(VIP, false).value).toBe(false);
+    expect(coerceCustomFieldValue(VIP, "maybe").error).toBe("VIP must be yes or no");
+  });
+
+  it("clears the field on blank values", () => {
+    for (const field of FIELDS) {
+      expect(coerceCustomFieldValue(field, "  ")).toEqual({ value: null, error: null });
+    }
+  });
+});
+
+describe("coerceCustomFieldValues", () => {
+  it("coerces defined keys, passes others through and keeps values that don't fit", () => {
+    const { values, errors } = coerceCustomFieldValues(FIELDS, {
+      budget: "$7,500",
+      plan: "Enterprise",
+      favourite_color: "blue",
+    });
+    expect(values).toEqual({ budget: 7500, plan: "Enterprise", favourite_color: "blue" });
+    expect(errors).toEqual(["Plan must be one of: Basic, Pro"]);
+  });
+});
+
+describe("typed conditions", () => {
+  const fieldTypes = getCustomFieldConditionTypes(FIELDS);
+  const context = {
+    lead: {
+      custom_fields: {
+        budget: "6000",
+        seats: 12,
+        start_date: "2026-04-01",
+        channels: ["SMS", "Email"],
+        vip: "yes",
+      },
+    },
+  };
+  const check = (field: string, operator: string, value?: unknown) =>
+    evaluateCondition({ field: `lead.custom_fields.${field}`, operator, value }, context, { fieldTypes });
+
+  it("compares currency as numbers, not strings", () => {
+    expect(check("budget", "greater_than", "5000")).toBe(true);
+    expect(check("budget", "greater_than", "$10,000")).toBe(false);
+    // As strings "6000" < "10000" would be false
+    expect(check("budget", "less_than", "10000")).toBe(true);
+    expect(check("budget", "between", ["5000", "7000"])).toBe(true);
+  });
+
+  it("treats a stored string and a typed number as equal", () => {
+    expect(check("budget", "equals", 6000)).toBe(true);
+    expect(check("seats", "equals", "12")).toBe(true);
+    expect(check("seats", "not_equals", "12")).toBe(false);
+  });
+
+  it("compares dates by day", () => {
+    expect(check("start_date", "equals", "2026-04-01T18:00:00Z")).toBe(true);
+    expect(check("start_date", "after", "2026-03-15")).toBe(true);
+  });
+
+  it("checks multi-selects and checkboxes by value", () => {
+    expect(check("channels", "contains", "SMS")).toBe(true);
+    expect(check("channels", "contains_any", "Phone, Email")).toBe(true);
+    expect(check("channels", "contains_all", "SMS, Phone")).toBe(false);
+    expect(check("vip", "is_true")).toBe(true);
+  });
+
+  it("fails number comparisons on values that aren't numbers", () => {
+    const ctx = { lead: { custom_fields: { budget: "5k" } } };
+    const condition = { field: "lead.custom_fields.budget", operator: "less_than", value: "10000" };
+    expect(evaluateCondition(condition, ctx, { fieldTypes })).toBe(false);
+  });
+
+  it("leaves untyped fields alone", () => {
+    const ctx = { lead: { custom_fields: { other: "5000" } } };
+    expect(evaluateCondition({ field: "lead.custom_fields.other", operator: "equals", value: 5000 }, ctx, { fieldTypes }))
+      .toBe(false);
+  });
+});
+
+describe("variables, paths and exports", () => {
+  it("exposes fields as typed variables with matching operators", () => {
+    const variables = getCustomFieldVariables([BUDGET, VIP], "lead");
+    expect(variables.map((v) => [v.key, v.type])).toEqual([
+      ["lead.custom_fields.budget", "number"],
+      ["lead.custom_fields.vip", "boolean"],
+    ]);
+    expect(getOperatorsForType(variables[0].type).map((op) => op.value)).toContain("greater_than");
+  });
+
+  it("finds the definition behind an update_contact field", () => {
+    expect(findCustomFieldForPath(FIELDS, "custom_fields.plan")).toBe(PLAN);
+    expect(findCustomFieldForPath(FIELDS, "lead.custom_fields.vip")).toBe(VIP);
+    expect(findCustomFieldForPath(FIELDS, "custom_fields.unknown")).toBeUndefined();
+    expect(findCustomFieldForPath(FIELDS, "name")).toBeUndefined();
+  });
+
+  it("exports custom field columns from the nested jsonb", () => {
+    const csv = generateCSV(
+      [{ name: "Jane", custom_fields: { budget: 5000, channels: ["SMS", "Email"], vip: true } }],
+      [{ key: "name", label: "Name" }, ...getCustomFieldExportColumns([BUDGET, CHANNELS, VIP])],
+    );
+    expect(csv).toBe("Name,Budget,Channels,VIP\nJane,5000,SMS; Email,Yes");
+  });
+
+  it("formats values for display", () => {
+    expect(formatCustomFieldValue(BUDGET, 5000)).toBe("5000.00 USD");
+    expect(formatCustomFieldValue(VIP, false)).toBe("No");
+    expect(formatCustomFieldValue(CHANNELS, ["SMS"])).toBe("SMS");
+  });
+});
+
+describe("wiring", () => {
+  it("migration creates team-scoped definitions with admin-only writes", () => {
+    const sql = readRepoFile("supabase/migrations/20260303100000_contact_custom_fields.sql");
+    expect(sql).toContain("CREATE TABLE IF NOT EXISTS public.contact_custom_fields");
+    expect(sql).toContain("UNIQUE (team_id, key)");
+    expect(sql).toMatch(/field_type IN \('text', 'number', 'date', 'dropdown', 'multi_select', 'checkbox', 'currency'\)/);
+    expect(sql).toContain("public.is_team_admin(auth.uid(), team_id)");
+  });
+
+  it("automation-trigger types conditions and validates update_contact values", () => {
+    const src = readRepoFile("supabase/functions/automation-trigger/index.ts");
+    expect(src).toContain("fieldTypes: getCustomFieldConditionTypes(customFields)");
+    expect(src).toContain("getStepSkipReason(step, context, engineOptions)");
+    expect(src).toContain("resolveConditionBranch(step, context, engineOptions)");
+    expect(src).toContain("executeUpdateContact(step.config, context, actionClient, customFields)");
+
+    const crm = readRepoFile("supabase/functions/automation-trigger/actions/crm-actions.ts");
+    expect(crm).toContain("coerceCustomFieldValue(definition, value)");
+  });
+
+  it("submit-funnel-lead stores mapped answers coerced", () => {
+    const src = readRepoFile("supabase/functions/submit-funnel-lead/index.ts");
+    expect(src).toContain("coerceCustomFieldValues(definitions, raw)");
+    expect(src.match(/await getContactCustomFields\(\)/g)).toHaveLength(2);
+  });
+
+  it("funnel form fields can be mapped to a custom field", () => {
+    expect(readRepoFile("src/funnel-builder-v3/types/funnel.ts")).toContain("customFieldKey?: string");
+    const renderer = readRepoFile("src/funnel-builder-v3/runtime/FunnelV3Renderer.tsx");
+    expect(renderer).toContain("mapped[field.customFieldKey] = formData[field.id]");
+    expect(renderer).toContain("getMappedCustomFieldAnswers(allData, funnel.steps)");
+  });
+
+  it("team settings has a custom fields tab", () => {
+    expect(readRepoFile("src/pages/TeamSettings.tsx")).toContain("<CustomFieldSettings teamId={teamId!} />");
+  });
+});
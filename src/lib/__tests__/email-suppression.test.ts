@@ -0,0 +1,226 @@
+/**
+ * Email Suppression Tests
+ *
+ * Covers:
+ * 1. Which email-webhook events suppress (hard vs soft bounces, complaints,
+ *    Mailgun unsubscribes and rejections)
+ * 2. Signed unsubscribe tokens: round trip, tampering, malformed input
+ * 3. Unsubscribe links, List-Unsubscribe headers and the email footer
+ * 4. Lookups and upserts against the suppression list
+ * 5. Wiring: send-email checks before billing and adds headers, email-webhook
+ *    suppresses, reminder / send_message handling, migration and config
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  appendUnsubscribeFooter,
+  buildListUnsubscribeHeaders,
+  buildOneClickUnsubscribeUrl,
+  buildUnsubscribePageUrl,
+  createUnsubscribeToken,
+  getSuppressionReasonForEvent,
+  isEmailSuppressed,
+  suppressEmail,
+  SUPPRESSED_CODE,
+  verifyUnsubscribeToken,
+} from "../../../supabase/functions/_shared/email-suppression";
+import { classifySendResponse } from "../../../supabase/functions/_shared/booking-reminders";
+import type { DbClient } from "../../../supabase/functions/_shared/db";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const SECRET = "test-unsubscribe-secret";
+
+/** Records every call on a table so the helpers' queries can be asserted */
+function fakeSupabase(rows: Record<string, unknown>[] = [], opts: { error?: string } = {}) {
+  const calls: { table: string; op: string; args: unknown[] }[] = [];
+  const client = {
+    from: (table: string) => {
+      const filters: Record<string, unknown> = {};
+      const query: Record<string, unknown> = {
+        select: () => query,
+        eq: (col: string, val: unknown) => {
+          filters[col] = val;
+          return query;
+        },
+        ilike: (...args: unknown[]) => {
+          calls.push({ table, op: "ilike", args });
+          return query;
+        },
+        limit: () => query,
+        maybeSingle: async () => {
+          if (opts.error) return { data: null, error: { message: opts.error } };
+          const match = rows.find((r) => Object.entries(filters).every(([k, v]) => r[k] === v));
+          return { data: match ?? null, error: null };
+        },
+        upsert: async (...args: unknown[]) => {
+          calls.push({ table, op: "upsert", args });
+          return { error: null };
+        },
+        update: (...args: unknown[]) => {
+          calls.push({ table, op: "update", args });
+          return query;
+        },
+      };
+      return query;
+    },
+  };
+  return { supabase: client as unknown as DbClient, calls };
+}
+
+describe("suppression reasons", () => {
+  it("suppresses hard bounces and complaints", () => {
+    expect(getSuppressionReasonForEvent({ eventType: "bounced", bounceType: "Permanent" })).toBe("hard_bounce");
+    expect(getSuppressionReasonForEvent({ eventType: "bounced" })).toBe("hard_bounce");
+    expect(getSuppressionReasonForEvent({ eventType: "bounced", providerEvent: "failed", severity: "permanent" })).toBe(
+      "hard_bounce",
+    );
+    expect(getSuppressionReasonForEvent({ eventType: "complained", providerEvent: "complained" })).toBe("complaint");
+  });
+
+  it("skips soft bounces, delays and Mailgun rejections", () => {
+    expect(getSuppressionReasonForEvent({ eventType: "bounced", bounceType: "Transient" })).toBeNull();
+    expect(getSuppressionReasonForEvent({ eventType: "bounced", providerEvent: "failed", severity: "temporary" })).toBeNull();
+    expect(getSuppressionReasonForEvent({ eventType: "bounced", providerEvent: "rejected" })).toBeNull();
+    expect(getSuppressionReasonForEvent({ eventType: "failed" })).toBeNull();
+    expect(getSuppressionReasonForEvent({ eventType: "opened" })).toBeNull();
+  });
+
+  it("records Mailgun unsubscribes as unsubscribes, not complaints", () => {
+    expect(getSuppressionReasonForEvent({ eventType: "complained", providerEvent: "unsubscribed" })).toBe("unsubscribe");
+  });
+});
+
+describe("unsubscribe tokens", () => {
+  it("round-trips the team and normalized address", async () => {
+    const token = await createUnsubscribeToken({ teamId: "team-1", email: " Jane@Example.com " }, SECRET);
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(await verifyUnsubscribeToken(token, SECRET)).toEqual({ teamId: "team-1", email: "jane@example.com" });
+  });
+
+  it("rejects a token signed with another secret or edited", async () => {
+    const token = await createUnsubscribeToken({ teamId: "team-1", email: "jane@example.com" }, SECRET);
+    expect(await verifyUnsubscribeToken(token, "other-secret")).toBeNull();
+
+    const [, signature] = token.split(".");
+    const forgedBody = Buffer.from(JSON.stringify({ t: "team-2", e: "jane@example.com" }))
+      .toString("base64url");
+    expect(await verifyUnsubscribeToken(`${forgedBody}.${signature}`, SECRET)).toBeNull();
+  });
+
+  it("rejects malformed tokens", async () => {
+    expect(await verifyUnsubscribeToken("", SECRET)).toBeNull();
+    expect(await verifyUnsubscribeToken("no-dot", SECRET)).toBeNull();
+    expect(await verifyUnsubscribeToken("!!.??", SECRET)).toBeNull();
+  });
+});
+
+describe("unsubscribe links", () => {
+  it("builds the page link and the one-click endpoint", () => {
+    expect(buildUnsubscribePageUrl("https://app.example.com/", "abc.def")).toBe(
+      "https://app.example.com/unsubscribe/abc.def",
+    );
+    expect(buildOneClickUnsubscribeUrl("https://x.supabase.co", "abc.def")).toBe(
+      "https://x.supabase.co/functions/v1/email-unsubscribe?token=abc.def",
+    );
+  });
+
+  it("builds RFC 8058 headers", () => {
+    expect(buildListUnsubscribeHeaders("https://x.supabase.co/functions/v1/email-unsubscribe?token=t")).toEqual({
+      "List-Unsubscribe": "<https://x.supabase.co/functions/v1/email-unsubscribe?token=t>",
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    });
+  });
+
+  it("adds the footer inside <body> when there is one", () => {
+    const url = "https://app.example.com/unsubscribe/t";
+    const full = appendUnsubscribeFooter("<html><body><p>Hi</p></body></html>", "Hi", url);
+    expect(full.html).toMatch(/Unsubscribe<\/a><\/p><\/body><\/html>$/);
+    expect(full.text).toBe(`Hi\n\nUnsubscribe: ${url}`);
+
+    const fragment = appendUnsubscribeFooter("<p>Hi</p>", "Hi", url);
+    expect(fragment.html.startsWith("<p>Hi</p><p")).toBe(true);
+    expect(fragment.html).toContain(`href="${url}"`);
+  });
+});
+
+describe("suppression list", () => {
+  it("looks addresses up case-insensitively per team", async () => {
+    const { supabase } = fakeSupabase([{ id: "s1", team_id: "team-1", email: "jane@example.com" }]);
+    expect(await isEmailSuppressed(supabase, "team-1", "Jane@Example.com")).toBe(true);
+    expect(await isEmailSuppressed(supabase, "team-2", "jane@example.com")).toBe(false);
+  });
+
+  it("throws when the lookup fails so send-email doesn't send", async () => {
+    const { supabase } = fakeSupabase([], { error: "timeout" });
+    await expect(isEmailSuppressed(supabase, "team-1", "jane@example.com")).rejects.toThrow("timeout");
+  });
+
+  it("upserts without overwriting and sets DND for unsubscribes", async () => {
+    const { supabase, calls } = fakeSupabase();
+    await suppressEmail(supabase, {
+      team_id: "team-1",
+      email: "Jane_Doe@Example.com",
+      reason: "unsubscribe",
+      source: "list_unsubscribe",
+    });
+
+    const upsert = calls.find((c) => c.op === "upsert")!;
+    expect(upsert.table).toBe("email_suppressions");
+    expect(upsert.args[0]).toMatchObject({ email: "jane_doe@example.com", reason: "unsubscribe" });
+    expect(upsert.args[1]).toEqual({ onConflict: "team_id,email", ignoreDuplicates: true });
+
+    expect(calls.find((c) => c.op === "update")?.args[0]).toEqual({ dnd_email: true });
+    // "_" is a LIKE wildcard
+    expect(calls.find((c) => c.op === "ilike")?.args).toEqual(["email", "jane\\_doe@example.com"]);
+  });
+
+  it("leaves contact DND alone for bounces", async () => {
+    const { supabase, calls } = fakeSupabase();
+    await suppressEmail(supabase, {
+      team_id: "team-1",
+      email: "jane@example.com",
+      reason: "hard_bounce",
+      source: "email_webhook",
+    });
+    expect(calls.some((c) => c.op === "update")).toBe(false);
+  });
+
+  it("treats a suppressed reminder as skipped", () => {
+    expect(classifySendResponse(200, { success: false, code: SUPPRESSED_CODE }).outcome).toBe("skipped");
+  });
+});
+
+describe("suppression wiring", () => {
+  it("send-email checks the list before billing and sends List-Unsubscribe headers", () => {
+    const source = readRepoFile("supabase/functions/send-email/index.ts");
+    expect(source).toContain("isEmailSuppressed(supabase, teamId, to)");
+    expect(source.indexOf("isEmailSuppressed(")).toBeLessThan(source.indexOf("deductFromWallet(supabase"));
+    expect(source).toContain('code: "SUPPRESSION_CHECK_FAILED"');
+    expect(source).toContain("headers: payload.headers");
+    expect(source).toContain("formData.append(`h:${name}`, value)");
+    expect(source.match(/headers: unsubscribeHeaders/g)).toHaveLength(2);
+  });
+
+  it("email-webhook suppresses for the team that sent the message", () => {
+    const source = readRepoFile("supabase/functions/email-webhook/index.ts");
+    expect(source).toContain("getSuppressionReasonForEvent({ eventType: event.eventType, ...event.metadata })");
+    expect(source).toContain('source: "email_webhook"');
+  });
+
+  it("send_message reports suppressed recipients as skipped", () => {
+    const source = readRepoFile("supabase/functions/automation-trigger/actions/send-message.ts");
+    expect(source).toContain("result.code === SUPPRESSED_CODE");
+  });
+
+  it("registers the table, the public function and the page route", () => {
+    const migration = readRepoFile("supabase/migrations/20260227100000_email_suppressions.sql");
+    expect(migration).toContain("CREATE TABLE IF NOT EXISTS public.email_suppressions");
+    expect(migration).toContain("UNIQUE (team_id, email)");
+    expect(readRepoFile("supabase/config.toml")).toContain("[functions.email-unsubscribe]\nverify_jwt = false");
+    expect(readRepoFile("src/App.tsx")).toContain('<Route path="/unsubscribe/:token" element={<UnsubscribePage />} />');
+  });
+});
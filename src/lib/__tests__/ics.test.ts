@@ -0,0 +1,188 @@
+/**
+ * ICS Invite and Calendar Feed Tests
+ *
+ * Covers:
+ * 1. RFC 5545 formatting: UTC date-times, TEXT escaping, 75-octet line folding, CRLF
+ * 2. Appointment invites: stable UID across reschedules, SEQUENCE, REQUEST vs CANCEL
+ * 3. Which automation triggers attach an invite
+ * 4. Wiring: booking functions carry ics_uid / ics_sequence, send-email attachments, feed function
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  appointmentToIcsEvent,
+  buildAppointmentInvite,
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsDateTime,
+  getAppointmentIcsUid,
+  getInviteMethodForTrigger,
+  ICS_UID_DOMAIN,
+  type IcsAppointment,
+} from "../../../supabase/functions/_shared/ics";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const appointment = (overrides: Partial<IcsAppointment> = {}): IcsAppointment => ({
+  id: "appt-1",
+  ics_uid: "abc@usestackit.co",
+  ics_sequence: 0,
+  start_at_utc: "2026-03-10T18:00:00.000Z",
+  duration_minutes: 45,
+  status: "NEW",
+  event_type_name: "Discovery Call",
+  lead_name: "Jordan Lee",
+  lead_email: "jordan@example.com",
+  closer_name: "Sam Host",
+  meeting_link: "https://zoom.us/j/123",
+  reschedule_url: "https://app.example.com/booking/tok/manage",
+  ...overrides,
+});
+
+/** Unfold continuation lines and split into content lines */
+const contentLines = (ics: string) => ics.replace(/\r\n /g, "").split("\r\n");
+
+describe("ICS formatting", () => {
+  it("formats UTC date-times without separators or milliseconds", () => {
+    expect(formatIcsDateTime(new Date("2026-03-10T18:05:09.123Z"))).toBe("20260310T180509Z");
+  });
+
+  it("escapes TEXT values", () => {
+    expect(escapeIcsText("Call; intro, notes\\done\nline 2")).toBe("Call\\; intro\\, notes\\\\done\\nline 2");
+  });
+
+  it("escapes lone carriage returns and drops other control characters", () => {
+    expect(escapeIcsText("a\rb\r\nc\u0000d")).toBe("a\\nb\\ncd");
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const line = `DESCRIPTION:${"é".repeat(100)}`;
+    const folded = foldIcsLine(line);
+    const parts = folded.split("\r\n");
+    expect(parts.length).toBeGreaterThan(1);
+    for (const [index, part] of parts.entries()) {
+      expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(75);
+      if (index > 0) expect(part.startsWith(" ")).toBe(true);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(line);
+    expect(foldIcsLine("SHORT:line")).toBe("SHORT:line");
+  });
+
+  it("builds a CRLF calendar with method and name", () => {
+    const ics = buildIcsCalendar([appointmentToIcsEvent(appointment())], { method: "PUBLISH", name: "Acme appointments" });
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).not.toMatch(/[^\r]\n/);
+    expect(contentLines(ics)).toContain("METHOD:PUBLISH");
+    expect(contentLines(ics)).toContain("X-WR-CALNAME:Acme appointments");
+  });
+});
+
+describe("appointment invites", () => {
+  it("creates a REQUEST with the stored UID, times and attendee", () => {
+    const invite = buildAppointmentInvite(appointment(), "REQUEST");
+    const lines = contentLines(invite.content);
+
+    expect(invite.filename).toBe("invite.ics");
+    expect(invite.contentType).toBe("text/calendar; charset=utf-8; method=REQUEST");
+    expect(lines).toContain("METHOD:REQUEST");
+    expect(lines).toContain("UID:abc@usestackit.co");
+    expect(lines).toContain("SEQUENCE:0");
+    expect(lines).toContain("DTSTART:20260310T180000Z");
+    expect(lines).toContain("DTEND:20260310T184500Z");
+    expect(lines).toContain("SUMMARY:Discovery Call with Sam Host");
+    expect(lines).toContain("STATUS:CONFIRMED");
+    expect(lines).toContain("ATTENDEE;CN=Jordan Lee;ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:jordan@example.com");
+    expect(lines.some((l) => l.startsWith("DESCRIPTION:") && l.includes("https://app.example.com/booking/tok/manage"))).toBe(true);
+  });
+
+  it("can't be given extra content lines through the lead's name or email", () => {
+    const invite = buildAppointmentInvite(
+      appointment({
+        lead_name: "Eve\r\nATTENDEE:mailto:attacker@example.com\nX-INJECTED:1",
+        lead_email: "eve@example.com\r\nX-INJECTED:2",
+      }),
+      "REQUEST",
+    );
+    const lines = contentLines(invite.content);
+
+    expect(invite.content).not.toMatch(/\r(?!\n)|[^\r]\n/);
+    expect(lines.some((l) => l.startsWith("X-INJECTED"))).toBe(false);
+    expect(lines.filter((l) => l.startsWith("ATTENDEE"))).toEqual([
+      'ATTENDEE;CN="Eve ATTENDEE:mailto:attacker@example.com X-INJECTED:1";ROLE=REQ-PARTICIPANT;RSVP=FALSE:mailto:eve@example.comX-INJECTED:2',
+    ]);
+  });
+
+  it("keeps the UID and raises SEQUENCE for a reschedule", () => {
+    const moved = buildAppointmentInvite(
+      appointment({ id: "appt-2", ics_sequence: 1, start_at_utc: "2026-03-12T15:00:00.000Z" }),
+      "REQUEST",
+    );
+    const lines = contentLines(moved.content);
+    expect(lines).toContain("UID:abc@usestackit.co");
+    expect(lines).toContain("SEQUENCE:1");
+    expect(lines).toContain("DTSTART:20260312T150000Z");
+  });
+
+  it("cancels with METHOD:CANCEL and STATUS:CANCELLED", () => {
+    const cancel = buildAppointmentInvite(appointment({ ics_sequence: 2 }), "CANCEL");
+    const lines = contentLines(cancel.content);
+    expect(cancel.filename).toBe("cancel.ics");
+    expect(lines).toContain("METHOD:CANCEL");
+    expect(lines).toContain("STATUS:CANCELLED");
+    expect(lines).toContain("SEQUENCE:2");
+  });
+
+  it("derives a UID for appointments booked before ics_uid existed", () => {
+    expect(getAppointmentIcsUid({ id: "legacy-1", ics_uid: null })).toBe(`legacy-1@${ICS_UID_DOMAIN}`);
+  });
+
+  it("titles feed entries after the lead", () => {
+    expect(appointmentToIcsEvent(appointment()).summary).toBe("Discovery Call - Jordan Lee");
+  });
+});
+
+describe("getInviteMethodForTrigger", () => {
+  it("maps appointment triggers to invite methods", () => {
+    expect(getInviteMethodForTrigger("appointment_booked")).toBe("REQUEST");
+    expect(getInviteMethodForTrigger("appointment_rescheduled")).toBe("REQUEST");
+    expect(getInviteMethodForTrigger("appointment_canceled")).toBe("CANCEL");
+    expect(getInviteMethodForTrigger("lead_created")).toBeNull();
+  });
+});
+
+describe("ICS wiring", () => {
+  it("booking functions keep one UID per booking and bump SEQUENCE", () => {
+    expect(readRepoFile("supabase/functions/create-booking/index.ts")).toContain("ics_uid: generateIcsUid()");
+
+    const reschedule = readRepoFile("supabase/functions/reschedule-booking/index.ts");
+    expect(reschedule).toContain("ics_uid: getAppointmentIcsUid(original)");
+    expect(reschedule).toContain("ics_sequence: (original.ics_sequence || 0) + 1");
+
+    expect(readRepoFile("supabase/functions/cancel-booking/index.ts"))
+      .toContain("ics_sequence: (appointment.ics_sequence || 0) + 1");
+  });
+
+  it("send_email attaches the invite and send-email forwards attachments", () => {
+    const sendMessage = readRepoFile("supabase/functions/automation-trigger/actions/send-message.ts");
+    expect(sendMessage).toContain("payload.attachments = [calendarInvite]");
+
+    const sendEmail = readRepoFile("supabase/functions/send-email/index.ts");
+    expect(sendEmail).toContain("content: toBase64(attachment.content)");
+    expect(sendEmail).toContain('formData.append("attachment"');
+  });
+
+  it("the feed looks up revocable tokens and skips replaced appointments", () => {
+    const feed = readRepoFile("supabase/functions/calendar-feed/index.ts");
+    expect(feed).toContain('.is("revoked_at", null)');
+    // Tokens of removed members stop working
+    expect(feed).toContain('.from("team_members")');
+    expect(feed.indexOf('.from("team_members")')).toBeLessThan(feed.indexOf('.from("appointments")'));
+    expect(feed).toContain("(CANCELLED,CANCELED,RESCHEDULED)");
+    expect(feed).toContain('method: "PUBLISH"');
+  });
+});
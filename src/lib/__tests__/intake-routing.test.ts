@@ -0,0 +1,166 @@
+/**
+ * Booking Intake Routing Tests
+ *
+ * Covers:
+ * 1. Typed answer validation: required, select/checkbox options, phone, budget ranges
+ * 2. Routing: first matching rule wins, budget comparisons, AND / OR, empty rules skipped
+ * 3. Answer formatting for appointment notes
+ * 4. Wiring: create-booking enforces rules, the booking page routes before date selection
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildRoutingContext,
+  DEFAULT_REJECT_MESSAGE,
+  evaluateIntakeRouting,
+  formatIntakeAnswers,
+  getRejectMessage,
+  normalizeIntakeQuestions,
+  normalizeRoutingRules,
+  validateIntakeAnswers,
+  type IntakeQuestion,
+  type IntakeRoutingRule,
+} from "../../../supabase/functions/_shared/intake-routing";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const questions: IntakeQuestion[] = [
+  { id: "company", label: "Company", type: "text", required: true },
+  { id: "role", label: "Role", type: "select", required: false, options: ["Founder", "Marketer", "Student"] },
+  { id: "channels", label: "Channels", type: "checkbox", required: false, options: ["Ads", "SEO", "Email"] },
+  { id: "mobile", label: "Mobile", type: "phone", required: false },
+  {
+    id: "budget",
+    label: "Monthly budget",
+    type: "budget",
+    required: true,
+    budget_ranges: [
+      { label: "Under $5k", min: 0, max: 5000 },
+      { label: "$5k - $20k", min: 5000, max: 20000 },
+      { label: "$20k+", min: 20000, max: null },
+    ],
+  },
+];
+
+const rules: IntakeRoutingRule[] = [
+  {
+    id: "students",
+    conditions: [{ field: "role", operator: "equals", value: "Student" }],
+    action: { type: "reject", message: "We only work with businesses." },
+  },
+  {
+    id: "small-budget",
+    conditions: [{ field: "budget", operator: "less_than", value: 5000 }],
+    action: { type: "route_event_type", event_type_id: "et-group-demo" },
+  },
+  {
+    id: "enterprise",
+    logic: "OR",
+    conditions: [
+      { field: "budget", operator: "greater_or_equal", value: 20000 },
+      { field: "channels", operator: "contains", value: "Ads" },
+    ],
+    action: { type: "route_host", user_id: "senior-closer" },
+  },
+];
+
+const answers = (overrides: Record<string, unknown> = {}) => ({
+  company: "Acme",
+  role: "Founder",
+  channels: ["SEO"],
+  budget: "$5k - $20k",
+  ...overrides,
+});
+
+describe("validateIntakeAnswers", () => {
+  it("accepts valid answers", () => {
+    expect(validateIntakeAnswers(questions, answers({ mobile: "+1 (555) 010-2030" }))).toEqual({});
+  });
+
+  it("requires required questions", () => {
+    const errors = validateIntakeAnswers(questions, answers({ company: "  ", budget: undefined }));
+    expect(errors.company).toBe("Company is required");
+    expect(errors.budget).toBe("Monthly budget is required");
+  });
+
+  it("rejects answers outside the configured choices", () => {
+    const errors = validateIntakeAnswers(questions, answers({ role: "CEO", channels: ["TV"], budget: "$1M" }));
+    expect(Object.keys(errors).sort()).toEqual(["budget", "channels", "role"]);
+  });
+
+  it("checks phone numbers", () => {
+    expect(validateIntakeAnswers(questions, answers({ mobile: "call me" })).mobile).toBe("Enter a valid phone number");
+  });
+});
+
+describe("evaluateIntakeRouting", () => {
+  it("books as normal when no rule matches", () => {
+    expect(evaluateIntakeRouting(rules, questions, answers())).toBeNull();
+  });
+
+  it("returns the first matching rule", () => {
+    const result = evaluateIntakeRouting(rules, questions, answers({ role: "Student", budget: "$20k+" }));
+    expect(result?.rule_id).toBe("students");
+    expect(getRejectMessage(result!.action)).toBe("We only work with businesses.");
+  });
+
+  it("compares budgets by the chosen range's lower bound", () => {
+    expect(buildRoutingContext(questions, answers({ budget: "$20k+" })).budget).toBe(20000);
+    expect(evaluateIntakeRouting(rules, questions, answers({ budget: "Under $5k" }))?.action)
+      .toEqual({ type: "route_event_type", event_type_id: "et-group-demo" });
+    expect(evaluateIntakeRouting(rules, questions, answers({ budget: "$20k+" }))?.action)
+      .toEqual({ type: "route_host", user_id: "senior-closer" });
+  });
+
+  it("matches OR rules on any condition", () => {
+    expect(evaluateIntakeRouting(rules, questions, answers({ channels: ["Ads"] }))?.rule_id).toBe("enterprise");
+  });
+
+  it("skips rules without conditions", () => {
+    const catchAll: IntakeRoutingRule = { id: "empty", conditions: [], action: { type: "reject", message: "" } };
+    expect(evaluateIntakeRouting([catchAll], questions, answers())).toBeNull();
+    expect(getRejectMessage(catchAll.action)).toBe(DEFAULT_REJECT_MESSAGE);
+  });
+});
+
+describe("stored questions and rules", () => {
+  it("normalizes legacy and malformed entries", () => {
+    expect(normalizeIntakeQuestions([
+      { id: "a", label: "A", type: "dropdown" },
+      { label: "no id" },
+      null,
+    ])).toEqual([{ id: "a", label: "A", type: "text", required: false }]);
+    expect(normalizeIntakeQuestions("nope")).toEqual([]);
+    expect(normalizeRoutingRules([{ id: "x", conditions: [] }, ...rules])).toHaveLength(3);
+  });
+
+  it("formats answers with question labels for appointment notes", () => {
+    expect(formatIntakeAnswers(questions, { company: "Acme", channels: ["Ads", "SEO"], mobile: "", extra: "1" }))
+      .toBe("Company: Acme\nChannels: Ads, SEO\nextra: 1");
+    expect(formatIntakeAnswers(questions, {})).toBeNull();
+  });
+});
+
+describe("intake routing wiring", () => {
+  it("create-booking validates answers and applies rules before picking a host", () => {
+    const createBooking = readRepoFile("supabase/functions/create-booking/index.ts");
+    expect(createBooking).toContain("const answers = intake_answers ?? {};");
+    expect(createBooking).toContain("validateIntakeAnswers(questions, answers)");
+    expect(createBooking).toContain("evaluateIntakeRouting(routingRules, questions, answers)");
+    // Leaving the answers out must not skip validation or reject rules
+    expect(createBooking).not.toContain("if (intake_answers) {");
+    expect(createBooking).toContain('code: "intake_rejected"');
+    expect(createBooking.indexOf("evaluateIntakeRouting(")).toBeLessThan(createBooking.indexOf("const slotTakenResponse"));
+  });
+
+  it("the booking page asks routed questions first and narrows slots to the routed host", () => {
+    const page = readRepoFile("src/pages/PublicBookingPage.tsx");
+    expect(page).toContain('step === "intake"');
+    expect(page).toContain("evaluateIntakeRouting(");
+    expect(page).toContain("routedHostId\n  );");
+    expect(readRepoFile("supabase/functions/get-available-slots/index.ts")).toContain('url.searchParams.get("host_id")');
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Messaging Consent Tests
+ *
+ * Covers:
+ * 1. Keyword detection: whole-message match, punctuation / case / accents,
+ *    team languages and custom keywords, STOP winning over START
+ * 2. Auto-replies: per-language overrides, fallbacks, disabled replies
+ * 3. Settings normalization and TwiML escaping
+ * 4. Ledger lookups: latest row wins, lookup errors throw
+ * 5. Wiring: inbound-sms keyword handling, send-sms / send-whatsapp /
+ *    send_message refusal, reminder opt-out code, append-only migration
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildTwimlResponse,
+  DEFAULT_AUTO_REPLIES,
+  detectKeyword,
+  getAutoReply,
+  getConsentStatus,
+  getConsentStatusForAction,
+  isOptedOut,
+  normalizeConsentAddress,
+  normalizeKeywordSettings,
+  OPTED_OUT_CODE,
+  recordConsentEvent,
+} from "../../../supabase/functions/_shared/messaging-consent";
+import { classifySendResponse } from "../../../supabase/functions/_shared/booking-reminders";
+import type { DbClient } from "../../../supabase/functions/_shared/db";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const defaults = normalizeKeywordSettings(null);
+
+/** Ledger reads: filters by eq(), newest first; inserts are captured */
+function fakeLedger(rows: ({ created_at: string } & Record<string, unknown>)[], opts: { error?: string } = {}) {
+  const inserted: Record<string, unknown>[] = [];
+  const client = {
+    from: (table: string) => {
+      expect(table).toBe("messaging_consent_ledger");
+      const filters: Record<string, unknown> = {};
+      const query: Record<string, unknown> = {
+        select: () => query,
+        eq: (col: string, val: unknown) => {
+          filters[col] = val;
+          return query;
+        },
+        order: () => query,
+        limit: () => query,
+        maybeSingle: async () => {
+          if (opts.error) return { data: null, error: { message: opts.error } };
+          const matches = rows
+            .filter((r) => Object.entries(filters).every(([k, v]) => r[k] === v))
+            .sort((a, b) => b.created_at.localeCompare(a.created_at));
+          return { data: matches[0] ?? null, error: null };
+        },
+        insert: async (row: Record<string, unknown>) => {
+          inserted.push(row);
+          return { error: null };
+        },
+      };
+      return query;
+    },
+  };
+  return { supabase: client as unknown as DbClient, inserted };
+}
+
+describe("keyword detection", () => {
+  it("matches standard keywords regardless of case and punctuation", () => {
+    expect(detectKeyword("STOP", defaults)).toEqual({ action: "stop", keyword: "STOP", language: "en" });
+    expect(detectKeyword("  stop.  ", defaults)?.action).toBe("stop");
+    expect(detectKeyword("Unsubscribe!", defaults)?.action).toBe("stop");
+    expect(detectKeyword("start", defaults)?.action).toBe("start");
+    expect(detectKeyword("Help?", defaults)?.action).toBe("help");
+  });
+
+  it("only matches a message that is entirely a keyword", () => {
+    expect(detectKeyword("please don't stop", defaults)).toBeNull();
+    expect(detectKeyword("stop texting me", defaults)).toBeNull();
+    expect(detectKeyword("yes", defaults)).toBeNull();
+    expect(detectKeyword("", defaults)).toBeNull();
+    expect(detectKeyword(null, defaults)).toBeNull();
+  });
+
+  it("recognises other languages only when the team enables them", () => {
+    expect(detectKeyword("parar", defaults)).toBeNull();
+
+    const spanish = normalizeKeywordSettings({ languages: ["es"] });
+    expect(detectKeyword("parar", spanish)).toEqual({ action: "stop", keyword: "PARAR", language: "es" });
+    expect(detectKeyword("Ayuda", spanish)?.language).toBe("es");
+    // English stays on
+    expect(detectKeyword("STOP", spanish)?.language).toBe("en");
+  });
+
+  it("strips accents before matching", () => {
+    const french = normalizeKeywordSettings({ languages: ["fr"] });
+    expect(detectKeyword("Arrêt", french)).toEqual({ action: "stop", keyword: "ARRET", language: "fr" });
+  });
+
+  it("adds custom keywords under their language", () => {
+    const settings = normalizeKeywordSettings({
+      languages: ["en"],
+      custom_keywords: { en: { stop: ["no more", "  remove me "] }, es: { help: ["info por favor"] } },
+    });
+    expect(detectKeyword("No more", settings)?.action).toBe("stop");
+    expect(detectKeyword("remove me", settings)?.action).toBe("stop");
+    expect(detectKeyword("info por favor", settings)).toEqual({
+      action: "help",
+      keyword: "INFO POR FAVOR",
+      language: "es",
+    });
+  });
+
+  it("treats a word listed as both STOP and START as an opt-out", () => {
+    const settings = normalizeKeywordSettings({ custom_keywords: { en: { start: ["STOP"] } } });
+    expect(detectKeyword("stop", settings)?.action).toBe("stop");
+  });
+
+  it("maps actions to ledger statuses", () => {
+    expect(getConsentStatusForAction("stop")).toBe("opted_out");
+    expect(getConsentStatusForAction("start")).toBe("opted_in");
+    expect(getConsentStatusForAction("help")).toBeNull();
+  });
+});
+
+describe("auto-replies", () => {
+  it("replies in the keyword's language", () => {
+    const settings = normalizeKeywordSettings({ languages: ["en", "es"] });
+    expect(getAutoReply(detectKeyword("PARAR", settings)!, settings)).toBe(DEFAULT_AUTO_REPLIES.es.stop);
+    expect(getAutoReply(detectKeyword("STOP", settings)!, settings)).toBe(DEFAULT_AUTO_REPLIES.en.stop);
+  });
+
+  it("uses team overrides and falls back per action", () => {
+    const settings = normalizeKeywordSettings({
+      auto_replies: { en: { stop: "  Bye from Acme. Reply START to come back.  " } },
+    });
+    expect(getAutoReply({ action: "stop", keyword: "STOP", language: "en" }, settings)).toBe(
+      "Bye from Acme. Reply START to come back.",
+    );
+    expect(getAutoReply({ action: "help", keyword: "HELP", language: "en" }, settings)).toBe(
+      DEFAULT_AUTO_REPLIES.en.help,
+    );
+  });
+
+  it("falls back to the team's first language for custom-language keywords", () => {
+    const settings = normalizeKeywordSettings({ languages: ["es"], custom_keywords: { xx: { stop: ["NEIN"] } } });
+    expect(getAutoReply(detectKeyword("nein", settings)!, settings)).toBe(DEFAULT_AUTO_REPLIES.es.stop);
+  });
+
+  it("returns null when auto-replies are off", () => {
+    const settings = normalizeKeywordSettings({ auto_reply_enabled: false });
+    expect(getAutoReply({ action: "stop", keyword: "STOP", language: "en" }, settings)).toBeNull();
+  });
+});
+
+describe("settings and TwiML", () => {
+  it("drops unknown languages and defaults to English", () => {
+    expect(normalizeKeywordSettings({ languages: ["klingon"] }).languages).toEqual(["en"]);
+    expect(normalizeKeywordSettings({ languages: ["es", "es", "de"] }).languages).toEqual(["es", "de"]);
+  });
+
+  it("drops empty custom keywords and replies", () => {
+    const settings = normalizeKeywordSettings({
+      custom_keywords: { en: { stop: ["", "  ", 3] } },
+      auto_replies: { en: { stop: "   " } },
+    });
+    expect(settings.custom_keywords).toEqual({});
+    expect(settings.auto_replies).toEqual({});
+  });
+
+  it("escapes the reply in TwiML", () => {
+    expect(buildTwimlResponse()).toBe('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+    expect(buildTwimlResponse("Msg & data <rates>")).toContain(
+      "<Message>Msg &amp; data &lt;rates&gt;</Message>",
+    );
+  });
+
+  it("keys addresses on E.164 so SMS and WhatsApp formats match", () => {
+    expect(normalizeConsentAddress("whatsapp:+15550102000")).toBe("+15550102000");
+    expect(normalizeConsentAddress("+1 (555) 010-2000")).toBe("+15550102000");
+  });
+
+  it("adds the default country code to numbers written without one", () => {
+    for (const phone of ["5550102000", "(555) 010-2000", "555-010-2000", "15550102000", "1 555 010 2000"]) {
+      expect(normalizeConsentAddress(phone)).toBe("+15550102000");
+    }
+    expect(normalizeConsentAddress("+44 20 7946 0018")).toBe("+442079460018");
+    expect(normalizeConsentAddress("0044 20 7946 0018")).toBe("+442079460018");
+    expect(normalizeConsentAddress("020 7946 0018", "44")).toBe("+4402079460018");
+    expect(normalizeConsentAddress("")).toBe("");
+  });
+});
+
+describe("consent ledger", () => {
+  const rows = [
+    { team_id: "t1", channel: "sms", address: "+15550102000", status: "opted_out", created_at: "2026-03-01T10:00:00Z" },
+    { team_id: "t1", channel: "sms", address: "+15550102000", status: "opted_in", created_at: "2026-03-02T10:00:00Z" },
+    { team_id: "t1", channel: "whatsapp", address: "+15550102000", status: "opted_out", created_at: "2026-03-01T10:00:00Z" },
+    { team_id: "t2", channel: "sms", address: "+15550103000", status: "opted_out", created_at: "2026-03-01T10:00:00Z" },
+  ];
+
+  it("uses the latest row for the address and channel", async () => {
+    const { supabase } = fakeLedger(rows);
+    expect(await getConsentStatus(supabase, "t1", "sms", "+15550102000")).toBe("opted_in");
+    expect(await isOptedOut(supabase, "t1", "sms", "+15550102000")).toBe(false);
+    expect(await isOptedOut(supabase, "t1", "whatsapp", "whatsapp:+15550102000")).toBe(true);
+  });
+
+  it("is scoped to the team", async () => {
+    const { supabase } = fakeLedger(rows);
+    expect(await getConsentStatus(supabase, "t1", "sms", "+15550103000")).toBeNull();
+    expect(await isOptedOut(supabase, "t2", "sms", "+15550103000")).toBe(true);
+  });
+
+  it("matches an inbound STOP to sends written in another format", async () => {
+    const { supabase, inserted } = fakeLedger([]);
+    await recordConsentEvent(supabase, {
+      team_id: "t1",
+      contact_id: null,
+      channel: "sms",
+      address: "+15551234567",
+      status: "opted_out",
+      source: "inbound_keyword",
+      keyword: "STOP",
+      raw_message: "STOP",
+    });
+
+    const ledger = fakeLedger(inserted.map((row) => ({ ...row, created_at: "2026-03-01T10:00:00Z" }))).supabase;
+    for (const phone of ["5551234567", "(555) 123-4567", "1-555-123-4567", "+1 555 123 4567"]) {
+      expect(await isOptedOut(ledger, "t1", "sms", phone)).toBe(true);
+    }
+  });
+
+  it("throws when the lookup fails so callers don't send", async () => {
+    const { supabase } = fakeLedger(rows, { error: "connection reset" });
+    await expect(isOptedOut(supabase, "t1", "sms", "+15550102000")).rejects.toThrow("connection reset");
+  });
+
+  it("records the normalized address", async () => {
+    const { supabase, inserted } = fakeLedger([]);
+    await recordConsentEvent(supabase, {
+      team_id: "t1",
+      contact_id: "c1",
+      channel: "whatsapp",
+      address: "whatsapp:+15550102000",
+      status: "opted_out",
+      source: "inbound_keyword",
+      keyword: "STOP",
+      raw_message: "Stop!",
+    });
+    expect(inserted).toEqual([
+      expect.objectContaining({ address: "+15550102000", status: "opted_out", raw_message: "Stop!" }),
+    ]);
+  });
+
+  it("treats the ledger opt-out code as a skipped reminder", () => {
+    expect(
+      classifySendResponse(200, { success: false, code: OPTED_OUT_CODE, error: "opted out" }).outcome,
+    ).toBe("skipped");
+  });
+});
+
+describe("consent wiring", () => {
+  it("inbound-sms records keywords and replies instead of firing customer_replied", () => {
+    const source = readRepoFile("supabase/functions/inbound-sms/index.ts");
+    const keywordBranch = source.indexOf("if (keyword) {");
+    expect(source).toContain("detectKeyword(body, keywordSettings)");
+    expect(source).toContain('source: "inbound_keyword"');
+    expect(source).toContain(".update({ dnd_sms: dnd })");
+    expect(keywordBranch).toBeGreaterThan(-1);
+    expect(keywordBranch).toBeLessThan(source.indexOf('triggerType: "customer_replied"'));
+    expect(source).toContain("buildTwimlResponse(reply)");
+  });
+
+  it("send-sms and send-whatsapp refuse opted-out recipients and fail closed", () => {
+    const sms = readRepoFile("supabase/functions/send-sms/index.ts");
+    expect(sms).toContain('isOptedOut(supabase, teamId, "sms", to)');
+    expect(sms.indexOf("isOptedOut(")).toBeLessThan(sms.indexOf('rpc("deduct_credits"'));
+    expect(sms).toContain('code: "CONSENT_CHECK_FAILED"');
+
+    const whatsapp = readRepoFile("supabase/functions/send-whatsapp/index.ts");
+    expect(whatsapp).toContain('isOptedOut(supabase, teamId, "whatsapp", to)');
+    expect(whatsapp.indexOf("isOptedOut(")).toBeLessThan(whatsapp.indexOf("deductFromWallet(supabase"));
+    expect(whatsapp).toContain('code: "CONSENT_CHECK_FAILED"');
+  });
+
+  it("send_message skips opted-out recipients before calling the provider", () => {
+    const source = readRepoFile("supabase/functions/automation-trigger/actions/send-message.ts");
+    expect(source).toContain("isOptedOut(supabase, context.teamId, channel, toAddress)");
+    expect(source.indexOf("isOptedOut(")).toBeLessThan(source.indexOf("outboundFetch(supabase, endpoint"));
+    expect(source).toContain('log.skipReason = "recipient_opted_out"');
+  });
+
+  it("migration makes the ledger append-only", () => {
+    const migration = readRepoFile("supabase/migrations/20260226100000_messaging_consent.sql");
+    expect(migration).toContain("CREATE TABLE IF NOT EXISTS public.messaging_consent_ledger");
+    expect(migration).toContain("BEFORE UPDATE OR DELETE ON public.messaging_consent_ledger");
+    expect(migration).toContain("CREATE TABLE IF NOT EXISTS public.messaging_keyword_settings");
+  });
+});
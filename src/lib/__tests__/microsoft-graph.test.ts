@@ -0,0 +1,303 @@
+/**
+ * Microsoft 365 / Outlook Calendar Tests
+ *
+ * Runs the Graph helpers against a local stub of the Graph and login endpoints.
+ *
+ * Covers:
+ * 1. OAuth: authorize URL, code exchange, refresh with token rotation
+ * 2. Busy times from getSchedule (free / working elsewhere don't block)
+ * 3. Event create / move / delete for bookings
+ * 4. Wiring: slots merge Outlook busy times, booking functions sync events
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import {
+  buildMicrosoftAuthUrl,
+  createMicrosoftEvent,
+  deleteMicrosoftEvent,
+  exchangeMicrosoftCode,
+  fetchMicrosoftBusyTimes,
+  fetchMicrosoftProfile,
+  getMicrosoftAccessToken,
+  isTokenExpired,
+  microsoftConfigFromEnv,
+  parseGraphDateTime,
+  updateMicrosoftEventTime,
+  type MicrosoftGraphConfig,
+} from "../../../supabase/functions/_shared/microsoft-graph";
+import type { DbClient } from "../../../supabase/functions/_shared/db";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+// --- Local Graph stub ---
+
+interface StubRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let config: MicrosoftGraphConfig;
+let requests: StubRequest[] = [];
+const events = new Map<string, Record<string, unknown>>();
+
+function json(res: http.ServerResponse, status: number, body?: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function handle(req: StubRequest, res: http.ServerResponse) {
+  const url = new URL(req.url, "http://stub");
+
+  if (url.pathname === "/login/common/oauth2/v2.0/token") {
+    const form = new URLSearchParams(req.body);
+    if (form.get("client_secret") !== "secret") return json(res, 401, { error: "invalid_client" });
+    if (form.get("grant_type") === "authorization_code" && form.get("code") === "good-code") {
+      return json(res, 200, { access_token: "access-1", refresh_token: "refresh-1", expires_in: 3600 });
+    }
+    if (form.get("grant_type") === "refresh_token" && form.get("refresh_token") === "refresh-1") {
+      return json(res, 200, { access_token: "access-2", refresh_token: "refresh-2", expires_in: 3600 });
+    }
+    return json(res, 400, { error: "invalid_grant" });
+  }
+
+  if (!String(req.headers.authorization).startsWith("Bearer access-")) {
+    return json(res, 401, { error: { code: "InvalidAuthenticationToken" } });
+  }
+
+  if (req.method === "GET" && url.pathname === "/graph/me") {
+    return json(res, 200, { mail: null, userPrincipalName: "closer@contoso.com", displayName: "Casey Closer" });
+  }
+
+  if (req.method === "POST" && url.pathname === "/graph/me/calendar/getSchedule") {
+    return json(res, 200, {
+      value: [{
+        scheduleId: JSON.parse(req.body).schedules[0],
+        scheduleItems: [
+          { status: "busy", start: { dateTime: "2026-03-10T15:00:00.0000000", timeZone: "UTC" }, end: { dateTime: "2026-03-10T16:00:00.0000000", timeZone: "UTC" } },
+          { status: "free", start: { dateTime: "2026-03-10T17:00:00.0000000", timeZone: "UTC" }, end: { dateTime: "2026-03-10T18:00:00.0000000", timeZone: "UTC" } },
+          { status: "oof", start: { dateTime: "2026-03-11T00:00:00.0000000", timeZone: "UTC" }, end: { dateTime: "2026-03-12T00:00:00.0000000", timeZone: "UTC" } },
+          { status: "workingElsewhere", start: { dateTime: "2026-03-12T09:00:00.0000000", timeZone: "UTC" }, end: { dateTime: "2026-03-12T17:00:00.0000000", timeZone: "UTC" } },
+        ],
+      }],
+    });
+  }
+
+  const eventMatch = url.pathname.match(/^\/graph\/me\/(?:calendars\/([^/]+)\/)?events(?:\/([^/]+))?$/);
+  if (eventMatch) {
+    const [, calendarId, eventId] = eventMatch;
+    if (req.method === "POST" && !eventId) {
+      const id = `evt-${events.size + 1}`;
+      events.set(id, { ...JSON.parse(req.body), calendarId });
+      return json(res, 201, { id, webLink: `https://outlook.office.com/calendar/item/${id}` });
+    }
+    const id = decodeURIComponent(eventId || "");
+    if (!events.has(id)) return json(res, 404, { error: { code: "ErrorItemNotFound" } });
+    if (req.method === "PATCH") {
+      events.set(id, { ...events.get(id), ...JSON.parse(req.body) });
+      return json(res, 200, { id });
+    }
+    if (req.method === "DELETE") {
+      events.delete(id);
+      res.writeHead(204);
+      return res.end();
+    }
+  }
+
+  json(res, 404, { error: { code: "NotFound" } });
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const stubRequest = { method: req.method || "GET", url: req.url || "/", headers: req.headers, body };
+      requests.push(stubRequest);
+      handle(stubRequest, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const env: Record<string, string> = {
+    MICROSOFT_CLIENT_ID: "client",
+    MICROSOFT_CLIENT_SECRET: "secret",
+    MICROSOFT_GRAPH_BASE_URL: `http://127.0.0.1:${port}/graph/`,
+    MICROSOFT_LOGIN_BASE_URL: `http://127.0.0.1:${port}/login`,
+  };
+  config = microsoftConfigFromEnv((key) => env[key]);
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  events.clear();
+});
+
+// A supabase stub that records connection updates
+function connectionStore() {
+  const updates: { table: string; id: string; values: Record<string, unknown> }[] = [];
+  const client = {
+    from: (table: string) => ({
+      update: (values: Record<string, unknown>) => ({
+        eq: async (_column: string, id: string) => {
+          updates.push({ table, id, values });
+          return { error: null };
+        },
+      }),
+    }),
+  };
+  return { supabase: client as unknown as DbClient, updates };
+}
+
+describe("Microsoft OAuth", () => {
+  it("builds the authorize URL with offline access and calendar scopes", () => {
+    const url = new URL(buildMicrosoftAuthUrl(config, "https://fn/microsoft-oauth-callback", "state-1"));
+    expect(url.pathname).toBe("/login/common/oauth2/v2.0/authorize");
+    expect(url.searchParams.get("client_id")).toBe("client");
+    expect(url.searchParams.get("scope")).toContain("offline_access");
+    expect(url.searchParams.get("scope")).toContain("Calendars.ReadWrite");
+    expect(url.searchParams.get("state")).toBe("state-1");
+  });
+
+  it("exchanges the code and reads the account from /me", async () => {
+    const tokens = await exchangeMicrosoftCode(config, "good-code", "https://fn/microsoft-oauth-callback");
+    expect(tokens).toMatchObject({ access_token: "access-1", refresh_token: "refresh-1" });
+    expect(new URLSearchParams(requests[0].body).get("redirect_uri")).toBe("https://fn/microsoft-oauth-callback");
+
+    expect(await fetchMicrosoftProfile(config, tokens!.access_token)).toEqual({
+      email: "closer@contoso.com",
+      name: "Casey Closer",
+    });
+    expect(await exchangeMicrosoftCode(config, "bad-code", "https://fn")).toBeNull();
+  });
+
+  it("refreshes expired tokens and stores the rotated refresh token", async () => {
+    const { supabase, updates } = connectionStore();
+    const conn = { id: "conn-1", access_token: "access-1", refresh_token: "refresh-1", token_expires_at: "2020-01-01T00:00:00Z" };
+
+    expect(await getMicrosoftAccessToken(supabase, conn, config)).toBe("access-2");
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({
+      table: "microsoft_calendar_connections",
+      id: "conn-1",
+      values: { access_token: "access-2", refresh_token: "refresh-2" },
+    });
+  });
+
+  it("reuses valid tokens and gives up without a refresh token", async () => {
+    const { supabase, updates } = connectionStore();
+    const future = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+
+    expect(await getMicrosoftAccessToken(supabase, { id: "c", access_token: "access-1", token_expires_at: future }, config)).toBe("access-1");
+    expect(await getMicrosoftAccessToken(supabase, { id: "c", access_token: null, refresh_token: null }, config)).toBeNull();
+    expect(requests).toHaveLength(0);
+    expect(updates).toHaveLength(0);
+  });
+
+  it("treats tokens about to expire as expired", () => {
+    const now = new Date("2026-03-10T12:00:00Z");
+    expect(isTokenExpired("2026-03-10T12:00:30Z", now)).toBe(true);
+    expect(isTokenExpired("2026-03-10T12:05:00Z", now)).toBe(false);
+    expect(isTokenExpired(null, now)).toBe(false);
+  });
+});
+
+describe("Outlook busy times", () => {
+  it("returns busy, tentative and out-of-office blocks only", async () => {
+    const busy = await fetchMicrosoftBusyTimes(config, "access-1", "closer@contoso.com", "2026-03-10T00:00:00Z", "2026-03-13T00:00:00Z");
+
+    expect(busy?.map((b) => [b.start.toISOString(), b.end.toISOString()])).toEqual([
+      ["2026-03-10T15:00:00.000Z", "2026-03-10T16:00:00.000Z"],
+      ["2026-03-11T00:00:00.000Z", "2026-03-12T00:00:00.000Z"],
+    ]);
+
+    const body = JSON.parse(requests[0].body);
+    expect(body.schedules).toEqual(["closer@contoso.com"]);
+    expect(body.startTime).toEqual({ dateTime: "2026-03-10T00:00:00.000", timeZone: "UTC" });
+  });
+
+  it("returns null when Graph rejects the request", async () => {
+    expect(await fetchMicrosoftBusyTimes(config, "expired", "a@b.com", "2026-03-10T00:00:00Z", "2026-03-11T00:00:00Z")).toBeNull();
+  });
+
+  it("parses Graph date times with and without offsets as UTC", () => {
+    expect(parseGraphDateTime({ dateTime: "2026-03-10T15:00:00.0000000", timeZone: "UTC" }).toISOString()).toBe("2026-03-10T15:00:00.000Z");
+    expect(parseGraphDateTime({ dateTime: "2026-03-10T15:00:00+02:00" }).toISOString()).toBe("2026-03-10T13:00:00.000Z");
+  });
+});
+
+describe("Outlook booking events", () => {
+  it("creates, moves and deletes the booking's event", async () => {
+    const created = await createMicrosoftEvent(config, "access-1", {
+      subject: "Discovery Call - Jane",
+      startTime: "2026-03-10T18:00:00.000Z",
+      duration: 30,
+      attendeeEmails: ["setter@contoso.com"],
+      description: "Booked by Jane (jane@example.com)",
+      location: "https://zoom.us/j/123",
+    });
+    expect(created?.eventId).toBe("evt-1");
+
+    const stored = events.get("evt-1");
+    expect(stored?.start).toEqual({ dateTime: "2026-03-10T18:00:00.000", timeZone: "UTC" });
+    expect(stored?.end).toEqual({ dateTime: "2026-03-10T18:30:00.000", timeZone: "UTC" });
+    expect(stored?.attendees).toEqual([{ emailAddress: { address: "setter@contoso.com" }, type: "required" }]);
+    expect(stored?.location).toEqual({ displayName: "https://zoom.us/j/123" });
+
+    expect(await updateMicrosoftEventTime(config, "access-1", "evt-1", "2026-03-11T14:00:00.000Z", 45)).toBe(true);
+    expect(events.get("evt-1")?.end).toEqual({ dateTime: "2026-03-11T14:45:00.000", timeZone: "UTC" });
+
+    expect(await deleteMicrosoftEvent(config, "access-1", "evt-1")).toBe(true);
+    expect(events.has("evt-1")).toBe(false);
+  });
+
+  it("creates events on a chosen calendar", async () => {
+    await createMicrosoftEvent(config, "access-1", { subject: "Call", startTime: "2026-03-10T18:00:00Z", duration: 15, attendeeEmails: [] }, "cal/sales");
+    expect(requests[0].url).toBe("/graph/me/calendars/cal%2Fsales/events");
+  });
+
+  it("treats an already-deleted event as deleted but reports failed moves", async () => {
+    expect(await deleteMicrosoftEvent(config, "access-1", "gone")).toBe(true);
+    expect(await updateMicrosoftEventTime(config, "access-1", "gone", "2026-03-11T14:00:00Z", 30)).toBe(false);
+  });
+});
+
+describe("Outlook calendar wiring", () => {
+  it("get-available-slots merges Outlook busy times for each host", () => {
+    const slots = readRepoFile("supabase/functions/get-available-slots/index.ts");
+    expect(slots).toContain("fetchMicrosoftBusyTimes(microsoftConfig, accessToken, outlookConn.email, rangeStart, rangeEnd)");
+    expect(slots).toContain("fetchGoogleBusyTimes(supabase, gcalConn, rangeStart, rangeEnd)");
+  });
+
+  it("booking, reschedule and cancel create, move and delete the Outlook event", () => {
+    const createBooking = readRepoFile("supabase/functions/create-booking/index.ts");
+    expect(createBooking).toContain("createMicrosoftEvent(");
+    expect(createBooking).toContain("outlook_event_id: outlookEventId");
+
+    const reschedule = readRepoFile("supabase/functions/reschedule-booking/index.ts");
+    expect(reschedule).toContain("updateMicrosoftEventTime(");
+    expect(reschedule).toContain('isSharedWithOtherBookings(supabase, original, "outlook_event_id")');
+
+    const cancel = readRepoFile("supabase/functions/cancel-booking/index.ts");
+    expect(cancel).toContain("deleteMicrosoftEvent(microsoftConfig, accessToken, appointment.outlook_event_id)");
+  });
+
+  it("the OAuth pair is registered without gateway JWT checks", () => {
+    const functionsConfig = readRepoFile("supabase/config.toml");
+    expect(functionsConfig).toContain("[functions.microsoft-oauth-start]");
+    expect(functionsConfig).toContain("[functions.microsoft-oauth-callback]");
+    expect(functionsConfig).toContain("[functions.refresh-microsoft-token]");
+  });
+});
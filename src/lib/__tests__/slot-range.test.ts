@@ -0,0 +1,112 @@
+/**
+ * Multi-day Slot Availability Tests
+ *
+ * Covers:
+ * 1. get-available-slots query parsing: date, month, start_date/end_date, limits
+ * 2. Slot conflict checks: min notice, appointments / busy times with buffers
+ * 3. The "days with availability" summary
+ * 4. Wiring: data loaded once per range, booking pages fetch a month at a time
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  addDaysToDateStr,
+  getAvailableDates,
+  isSlotOpen,
+  MAX_RANGE_DAYS,
+  parseSlotRange,
+  type SlotRules,
+} from "../../../supabase/functions/get-available-slots/slots";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const parse = (query: string) => parseSlotRange(new URLSearchParams(query));
+
+describe("parseSlotRange", () => {
+  it("keeps single-date requests", () => {
+    expect(parse("date=2026-03-10")).toEqual({ range: { mode: "day", dates: ["2026-03-10"] } });
+  });
+
+  it("expands a month, including leap days", () => {
+    const result = parse("month=2028-02");
+    expect("range" in result && result.range.dates).toHaveLength(29);
+    expect("range" in result && result.range.dates[28]).toBe("2028-02-29");
+  });
+
+  it("expands an inclusive start/end range", () => {
+    expect(parse("start_date=2026-03-30&end_date=2026-04-02")).toEqual({
+      range: { mode: "range", dates: ["2026-03-30", "2026-03-31", "2026-04-01", "2026-04-02"] },
+    });
+  });
+
+  it("rejects bad input", () => {
+    expect(parse("")).toHaveProperty("error");
+    expect(parse("date=2026-02-30")).toHaveProperty("error");
+    expect(parse("month=2026-13")).toHaveProperty("error");
+    expect(parse("start_date=2026-03-10")).toHaveProperty("error");
+    expect(parse("start_date=2026-03-10&end_date=2026-03-09")).toHaveProperty("error");
+  });
+
+  it("caps the range length", () => {
+    const end = addDaysToDateStr("2026-01-01", MAX_RANGE_DAYS);
+    expect(parse(`start_date=2026-01-01&end_date=${end}`)).toHaveProperty("error");
+    expect(parse(`start_date=2026-01-01&end_date=${addDaysToDateStr(end, -1)}`)).toHaveProperty("range");
+  });
+});
+
+describe("isSlotOpen", () => {
+  const now = new Date("2026-03-10T08:00:00Z");
+  const rules: SlotRules = { durationMinutes: 30, bufferBeforeMinutes: 0, bufferAfterMinutes: 0, minNoticeHours: 2 };
+  const at = (time: string) => new Date(`2026-03-10T${time}:00Z`);
+  const appointment = { start: at("12:00").getTime(), end: at("12:30").getTime() };
+
+  it("enforces min notice", () => {
+    expect(isSlotOpen(at("09:45"), [], rules, now)).toBe(false);
+    expect(isSlotOpen(at("10:00"), [], rules, now)).toBe(true);
+  });
+
+  it("blocks overlapping busy periods but allows back-to-back", () => {
+    expect(isSlotOpen(at("12:15"), [appointment], rules, now)).toBe(false);
+    expect(isSlotOpen(at("11:30"), [appointment], rules, now)).toBe(true);
+    expect(isSlotOpen(at("12:30"), [appointment], rules, now)).toBe(true);
+  });
+
+  it("applies buffers on both sides", () => {
+    const buffered = { ...rules, bufferBeforeMinutes: 15, bufferAfterMinutes: 15 };
+    expect(isSlotOpen(at("11:30"), [appointment], buffered, now)).toBe(false);
+    expect(isSlotOpen(at("12:30"), [appointment], buffered, now)).toBe(false);
+    expect(isSlotOpen(at("12:45"), [appointment], buffered, now)).toBe(true);
+  });
+});
+
+describe("getAvailableDates", () => {
+  it("lists days with at least one slot, in order", () => {
+    const slot = { time: "09:00", utc: "2026-03-11T14:00:00.000Z", available: true };
+    expect(getAvailableDates({
+      "2026-03-12": { slots: [slot] },
+      "2026-03-10": { slots: [] },
+      "2026-03-11": { slots: [slot] },
+    })).toEqual(["2026-03-11", "2026-03-12"]);
+  });
+});
+
+describe("slot range wiring", () => {
+  it("loads overrides and appointments once for the whole range", () => {
+    const source = readRepoFile("supabase/functions/get-available-slots/index.ts");
+    expect(source).toContain('.gte("date", firstDate)');
+    expect(source).toContain("fetchGoogleBusyTimes(supabase, gcalConn, rangeStart, rangeEnd)");
+    expect(source).toContain("available_dates: getAvailableDates(days)");
+  });
+
+  it("booking pages fetch a month at a time and grey out empty days", () => {
+    for (const page of ["src/pages/PublicBookingPage.tsx", "src/pages/ManageBookingPage.tsx"]) {
+      const source = readRepoFile(page);
+      expect(source).toContain("useMonthSlots(");
+      expect(source).toContain("availableDates={monthSlots?.available_dates}");
+      expect(source).not.toContain("&date=");
+    }
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Webhook Signature Tests
+ *
+ * Covers:
+ * 1. Twilio X-Twilio-Signature over the URL and sorted form params
+ * 2. Resend / Whop Svix signatures, key rotation and the replay window
+ * 3. Mailgun timestamp + token signatures
+ * 4. Stripe-style and TikTok timestamped headers
+ * 5. Generic HMAC for webhook_received secrets and which secrets apply
+ * 6. Rejection audit rows
+ * 7. Wiring: every receiving function verifies before acting, webhook
+ *    triggers are scoped to their webhook id, migration
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { createHmac } from "crypto";
+import {
+  buildPublicFunctionUrl,
+  generateWebhookSecret,
+  getWebhookTriggerSecrets,
+  recordWebhookRejection,
+  signWebhookPayload,
+  timingSafeEqual,
+  verifyHmacSignature,
+  verifyMailgunSignature,
+  verifySvixSignature,
+  verifyTimestampedSignature,
+  verifyTwilioSignature,
+  verifyWithoutSecret,
+} from "../../../supabase/functions/_shared/webhook-signature";
+import type { DbClient } from "../../../supabase/functions/_shared/db";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../..", relative), "utf-8");
+
+const NOW = 1_760_000_000;
+const BODY = JSON.stringify({ type: "email.bounced", data: { email_id: "e1" } });
+
+const hmacOf = (algorithm: "sha1" | "sha256", key: string | Buffer, data: string, encoding: "hex" | "base64") =>
+  createHmac(algorithm, key).update(data).digest(encoding);
+
+describe("Twilio signatures", () => {
+  const url = "https://x.supabase.co/functions/v1/inbound-sms";
+  const params = new URLSearchParams({ To: "+15550001111", From: "+15552223333", Body: "Hi", MessageSid: "SM1" });
+  // Params sorted by key, each key directly followed by its value
+  const signature = hmacOf("sha1", "auth-token", `${url}BodyHiFrom+15552223333MessageSidSM1To+15550001111`, "base64");
+
+  it("accepts the signature Twilio computes", async () => {
+    expect(await verifyTwilioSignature("auth-token", url, params, signature)).toEqual({ ok: true });
+  });
+
+  it("rejects a changed param, URL or token", async () => {
+    const edited = new URLSearchParams(params);
+    edited.set("Body", "STOP");
+    expect(await verifyTwilioSignature("auth-token", url, edited, signature)).toEqual({
+      ok: false,
+      reason: "invalid_signature",
+    });
+    expect((await verifyTwilioSignature("auth-token", `${url}?x=1`, params, signature)).ok).toBe(false);
+    expect((await verifyTwilioSignature("other-token", url, params, signature)).ok).toBe(false);
+  });
+
+  it("reports a missing header", async () => {
+    expect(await verifyTwilioSignature("auth-token", url, params, null)).toEqual({
+      ok: false,
+      reason: "missing_signature",
+    });
+  });
+
+  it("rebuilds the public URL from SUPABASE_URL, keeping the query string", () => {
+    expect(buildPublicFunctionUrl("https://x.supabase.co/", "inbound-sms", "http://edge-runtime:9000/inbound-sms?a=1")).toBe(
+      "https://x.supabase.co/functions/v1/inbound-sms?a=1",
+    );
+  });
+});
+
+describe("Svix signatures", () => {
+  const key = Buffer.from("svix-test-key-material");
+  const secret = `whsec_${key.toString("base64")}`;
+  const headers = (signature: string, timestamp = String(NOW)) => ({ id: "msg_1", timestamp, signature });
+  const sign = (timestamp = String(NOW)) => hmacOf("sha256", key, `msg_1.${timestamp}.${BODY}`, "base64");
+
+  it("accepts a valid v1 signature, including alongside a rotated one", async () => {
+    expect(await verifySvixSignature(secret, BODY, headers(`v1,${sign()}`), { now: NOW })).toEqual({ ok: true });
+    expect(
+      (await verifySvixSignature(secret, BODY, headers(`v1,b2xkLXNpZw== v1,${sign()}`), { now: NOW })).ok,
+    ).toBe(true);
+  });
+
+  it("uses a secret without the whsec_ prefix as raw key bytes (Whop)", async () => {
+    const signature = hmacOf("sha256", "whop-secret", `msg_1.${NOW}.${BODY}`, "base64");
+    expect((await verifySvixSignature("whop-secret", BODY, headers(`v1,${signature}`), { now: NOW })).ok).toBe(true);
+  });
+
+  it("rejects a tampered body and stale timestamps", async () => {
+    expect(await verifySvixSignature(secret, `${BODY} `, headers(`v1,${sign()}`), { now: NOW })).toEqual({
+      ok: false,
+      reason: "invalid_signature",
+    });
+    const old = String(NOW - 301);
+    expect(await verifySvixSignature(secret, BODY, headers(`v1,${sign(old)}`, old), { now: NOW })).toEqual({
+      ok: false,
+      reason: "expired",
+    });
+  });
+
+  it("treats missing ids or unknown versions as malformed", async () => {
+    expect(
+      await verifySvixSignature(secret, BODY, { id: null, timestamp: String(NOW), signature: `v1,${sign()}` }, { now: NOW }),
+    ).toEqual({ ok: false, reason: "malformed" });
+    expect(await verifySvixSignature(secret, BODY, headers(`v2,${sign()}`), { now: NOW })).toEqual({
+      ok: false,
+      reason: "malformed",
+    });
+  });
+});
+
+describe("Mailgun signatures", () => {
+  const block = (timestamp: number) => ({
+    timestamp: String(timestamp),
+    token: "tok-1",
+    signature: hmacOf("sha256", "mg-key", `${timestamp}tok-1`, "hex"),
+  });
+
+  it("accepts the body's signature block", async () => {
+    expect(await verifyMailgunSignature("mg-key", block(NOW), { now: NOW })).toEqual({ ok: true });
+  });
+
+  it("rejects another key, old timestamps and missing blocks", async () => {
+    expect((await verifyMailgunSignature("other", block(NOW), { now: NOW })).ok).toBe(false);
+    expect(await verifyMailgunSignature("mg-key", block(NOW - 600), { now: NOW })).toEqual({
+      ok: false,
+      reason: "expired",
+    });
+    expect(await verifyMailgunSignature("mg-key", undefined, { now: NOW })).toEqual({
+      ok: false,
+      reason: "missing_signature",
+    });
+  });
+});
+
+describe("timestamped signatures", () => {
+  const sign = (timestamp: number, secret = "whop-secret") => hmacOf("sha256", secret, `${timestamp}.${BODY}`, "hex");
+
+  it("accepts Stripe-style v1 and TikTok s= headers", async () => {
+    expect(await verifyTimestampedSignature("whop-secret", BODY, `t=${NOW},v1=${sign(NOW)}`, { now: NOW })).toEqual({
+      ok: true,
+    });
+    expect(
+      (await verifyTimestampedSignature("app-secret", BODY, `t=${NOW},s=${sign(NOW, "app-secret")}`, { now: NOW })).ok,
+    ).toBe(true);
+  });
+
+  it("rejects replays outside the window and headers without a timestamp", async () => {
+    expect(
+      await verifyTimestampedSignature("whop-secret", BODY, `t=${NOW - 400},v1=${sign(NOW - 400)}`, { now: NOW }),
+    ).toEqual({ ok: false, reason: "expired" });
+    expect(
+      (await verifyTimestampedSignature("whop-secret", BODY, `t=${NOW - 400},v1=${sign(NOW - 400)}`, {
+        now: NOW,
+        toleranceSeconds: 600,
+      })).ok,
+    ).toBe(true);
+    expect(await verifyTimestampedSignature("whop-secret", BODY, `v1=${sign(NOW)}`, { now: NOW })).toEqual({
+      ok: false,
+      reason: "malformed",
+    });
+  });
+});
+
+describe("generic HMAC for webhook triggers", () => {
+  it("round-trips signWebhookPayload and accepts base64 too", async () => {
+    const signature = await signWebhookPayload("trigger-secret", BODY, String(NOW));
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(await verifyHmacSignature("trigger-secret", BODY, signature, String(NOW), { now: NOW })).toEqual({ ok: true });
+
+    const base64 = hmacOf("sha256", "trigger-secret", `${NOW}.${BODY}`, "base64");
+    expect((await verifyHmacSignature("trigger-secret", BODY, base64, String(NOW), { now: NOW })).ok).toBe(true);
+  });
+
+  it("requires a recent timestamp", async () => {
+    const signature = await signWebhookPayload("trigger-secret", BODY, String(NOW));
+    expect(await verifyHmacSignature("trigger-secret", BODY, signature, null, { now: NOW })).toEqual({
+      ok: false,
+      reason: "malformed",
+    });
+    expect(await verifyHmacSignature("trigger-secret", BODY, signature, String(NOW), { now: NOW + 301 })).toEqual({
+      ok: false,
+      reason: "expired",
+    });
+  });
+
+  it("picks the secrets of the automations the webhook will run", () => {
+    const automation = (config: Record<string, unknown>) => ({ definition: { trigger: { config } } });
+    const automations = [
+      automation({ webhookId: "wh-1", secret: "s1" }),
+      automation({ webhookId: "wh-2", secret: "s2" }),
+      automation({ secret: "unbound" }),
+      automation({ webhookId: "wh-1" }),
+      { definition: null },
+    ];
+    expect(getWebhookTriggerSecrets(automations, "wh-1")).toEqual(["s1", "unbound"]);
+    expect(getWebhookTriggerSecrets(automations, null)).toEqual(["unbound"]);
+    expect(getWebhookTriggerSecrets([automation({ webhookId: "wh-3" })], "wh-3")).toEqual([]);
+  });
+
+  it("generates distinct 256-bit secrets", () => {
+    const secret = generateWebhookSecret();
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+
+  it("compares signatures exactly", () => {
+    expect(timingSafeEqual("abc", "abc")).toBe(true);
+    expect(timingSafeEqual("abc", "abd")).toBe(false);
+    expect(timingSafeEqual("abc", "abcd")).toBe(false);
+  });
+});
+
+describe("webhooks without a configured secret", () => {
+  it("are rejected unless unsigned webhooks are explicitly allowed", () => {
+    expect(verifyWithoutSecret(undefined)).toEqual({ ok: false, reason: "missing_secret" });
+    expect(verifyWithoutSecret("")).toEqual({ ok: false, reason: "missing_secret" });
+    expect(verifyWithoutSecret("1")).toEqual({ ok: false, reason: "missing_secret" });
+    expect(verifyWithoutSecret("TRUE")).toEqual({ ok: false, reason: "missing_secret" });
+    expect(verifyWithoutSecret("true")).toEqual({ ok: true });
+  });
+});
+
+describe("rejection audit", () => {
+  it("writes a webhook_audit_logs row without a team when none is known", async () => {
+    const inserts: { table: string; row: Record<string, unknown> }[] = [];
+    const supabase = {
+      from: (table: string) => ({
+        insert: async (row: Record<string, unknown>) => {
+          inserts.push({ table, row });
+          return { error: null };
+        },
+      }),
+    } as unknown as DbClient;
+
+    await recordWebhookRejection(supabase, { source: "inbound-sms", provider: "twilio", reason: "invalid_signature" });
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0].table).toBe("webhook_audit_logs");
+    expect(inserts[0].row).toMatchObject({
+      team_id: null,
+      source: "inbound-sms",
+      event_type: "signature_verification_failed",
+      status: "error",
+      details: { reason: "invalid_signature", provider: "twilio" },
+    });
+  });
+
+  it("swallows insert errors", async () => {
+    const supabase = { from: () => ({ insert: async () => ({ error: { message: "down" } }) }) } as unknown as DbClient;
+    await expect(
+      recordWebhookRejection(supabase, { source: "whop-webhook", teamId: "team-1", reason: "expired" }),
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe("verification wiring", () => {
+  const functions = [
+    ["email-webhook", "verifySvixSignature("],
+    ["email-webhook", "verifyMailgunSignature("],
+    ["inbound-sms", "verifyTwilioSignature("],
+    ["twilio-status-callback", "verifyTwilioSignature("],
+    ["whop-webhook", "verifyTimestampedSignature("],
+    ["tiktok-webhook", "verifyTimestampedSignature("],
+    ["webhook-receiver", "verifyHmacSignature("],
+  ];
+
+  it.each(functions)("%s calls %s and audits rejections", (name, verifier) => {
+    const source = readRepoFile(`supabase/functions/${name}/index.ts`);
+    expect(source).toContain(verifier);
+    expect(source).toContain(`source: "${name}"`);
+  });
+
+  it.each(["email-webhook", "inbound-sms", "twilio-status-callback", "whop-webhook", "tiktok-webhook"])(
+    "%s refuses and audits requests while its secret is missing",
+    (name) => {
+      const source = readRepoFile(`supabase/functions/${name}/index.ts`);
+      expect(source).toContain("verifyWithoutSecret(Deno.env.get(ALLOW_UNSIGNED_WEBHOOKS_ENV))");
+      expect(source).not.toContain("skipping signature verification");
+      expect(source.indexOf("verifyWithoutSecret(")).toBeLessThan(source.indexOf("recordWebhookRejection(supabase"));
+    },
+  );
+
+  it("verifies before touching data", () => {
+    const inbound = readRepoFile("supabase/functions/inbound-sms/index.ts");
+    expect(inbound.indexOf("verifyTwilioSignature(")).toBeLessThan(inbound.indexOf('.from("team_phone_numbers")'));
+
+    const whop = readRepoFile("supabase/functions/whop-webhook/index.ts");
+    expect(whop.indexOf("verifyWhopSignature(req")).toBeLessThan(whop.indexOf('.from("payment_events")'));
+
+    const receiver = readRepoFile("supabase/functions/webhook-receiver/index.ts");
+    expect(receiver.indexOf("verifyHmacSignature(")).toBeLessThan(receiver.indexOf("functions/v1/automation-trigger"));
+  });
+
+  it("drops replayed inbound messages by MessageSid", () => {
+    const inbound = readRepoFile("supabase/functions/inbound-sms/index.ts");
+    expect(inbound).toContain('.eq("provider_message_id", messageSid)');
+  });
+
+  it("scopes webhook_received automations to their webhook id", () => {
+    const trigger = readRepoFile("supabase/functions/automation-trigger/index.ts");
+    expect(trigger).toContain("context.meta?._webhook?.id");
+  });
+
+  it("lets rejections be audited before the team is known", () => {
+    const migration = readRepoFile("supabase/migrations/20260228100000_webhook_signature_audit.sql");
+    expect(migration).toContain("ALTER COLUMN team_id DROP NOT NULL");
+    expect(migration).toContain("ADD COLUMN IF NOT EXISTS source TEXT");
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Dry-run Sandbox Tests
+ *
+ * Covers:
+ * 1. outboundFetch: recorded vs. sent requests, simulated responses, secret redaction
+ * 2. The sandboxed Supabase client: reads pass through, writes and RPCs are recorded
+ * 3. A real action handler running against the sandbox (stripe)
+ * 4. The structured dry-run report
+ * 5. automation-trigger wiring: no idempotency, enrollment or rate-limit side effects
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  createSandbox,
+  createSandboxClient,
+  outboundFetch,
+  buildDryRunReport,
+} from "../../../../supabase/functions/automation-trigger/sandbox";
+import { executeChargePayment } from "../../../../supabase/functions/automation-trigger/actions/stripe-actions";
+import type { AutomationContext } from "../../../../supabase/functions/automation-trigger/types";
+import type { DbClient } from "../../../../supabase/functions/_shared/db";
+
+const readSourceFile = (relativePath: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../../..", relativePath), "utf-8");
+
+/** Minimal stand-in for a Supabase client: every read resolves to `rows[table]` */
+function fakeSupabase(rows: Record<string, unknown> = {}): DbClient & { writes: string[]; rpcs: string[] } {
+  const writes: string[] = [];
+  const rpcs: string[] = [];
+  const query = (table: string) => {
+    const result = { data: rows[table] ?? null, error: null };
+    const builder: Record<string, unknown> = {
+      select: () => builder,
+      eq: () => builder,
+      limit: () => builder,
+      single: () => Promise.resolve(result),
+      maybeSingle: () => Promise.resolve(result),
+      then: (resolve: (value: typeof result) => unknown) => Promise.resolve(result).then(resolve),
+      insert: () => (writes.push(`insert:${table}`), builder),
+      update: () => (writes.push(`update:${table}`), builder),
+      delete: () => (writes.push(`delete:${table}`), builder),
+    };
+    return builder;
+  };
+  const client = {
+    writes,
+    rpcs,
+    from: query,
+    rpc: (fn: string) => (rpcs.push(fn), Promise.resolve({ data: { allowed: true }, error: null })),
+  };
+  return client as unknown as DbClient & typeof client;
+}
+
+const context: AutomationContext = {
+  teamId: "team-1",
+  triggerType: "manual_trigger",
+  now: "2025-01-01T00:00:00.000Z",
+  lead: { id: "lead-1", first_name: "Ana", phone: "+15550001111", email: "ana@example.com" },
+};
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: [] }), { status: 200 }));
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("outboundFetch", () => {
+  it("sends normally with a real client", async () => {
+    await outboundFetch(fakeSupabase(), "https://hooks.example.com", { method: "POST", body: "{}" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("records writes and returns the simulated response in a sandbox", async () => {
+    const sandbox = createSandbox();
+    sandbox.currentStepId = "s1";
+    const client = createSandboxClient(fakeSupabase(), sandbox);
+
+    const response = await outboundFetch(
+      client,
+      "https://graph.facebook.com/v18.0/px/events?access_token=abc",
+      { method: "POST", body: JSON.stringify({ access_token: "abc", data: [{ event_name: "Lead" }] }) },
+      { simulatedResponse: { events_received: 1 } },
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(await response.json()).toEqual({ events_received: 1 });
+    expect(sandbox.effects).toEqual([
+      {
+        stepId: "s1",
+        kind: "http",
+        method: "POST",
+        target: "https://graph.facebook.com/v18.0/px/events?access_token=%5Bredacted%5D",
+        payload: { access_token: "[redacted]", data: [{ event_name: "Lead" }] },
+      },
+    ]);
+  });
+
+  it("lets lookups through unless the caller opts out", async () => {
+    const sandbox = createSandbox();
+    const client = createSandboxClient(fakeSupabase(), sandbox);
+
+    await outboundFetch(client, "https://api.stripe.com/v1/customers?email=a");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await outboundFetch(client, "https://hooks.example.com/ping", { method: "GET" }, { sendReads: false });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sandbox.effects.map((e) => `${e.method} ${e.target}`)).toEqual(["GET https://hooks.example.com/ping"]);
+  });
+
+  it("decodes form bodies", async () => {
+    const sandbox = createSandbox();
+    await outboundFetch(createSandboxClient(fakeSupabase(), sandbox), "https://api.stripe.com/v1/payment_intents", {
+      method: "POST",
+      body: new URLSearchParams({ amount: "5000", currency: "usd" }),
+    });
+    expect(sandbox.effects[0].payload).toEqual({ amount: "5000", currency: "usd" });
+  });
+});
+
+describe("createSandboxClient", () => {
+  it("passes reads through to the real client", async () => {
+    const real = fakeSupabase({ contacts: { id: "lead-1" } });
+    const client = createSandboxClient(real, createSandbox());
+    const { data } = await client.from("contacts").select("*").eq("id", "lead-1").maybeSingle();
+    expect(data).toEqual({ id: "lead-1" });
+  });
+
+  it("records inserts and hands back a placeholder row", async () => {
+    const real = fakeSupabase();
+    const sandbox = createSandbox();
+    const client = createSandboxClient(real, sandbox);
+
+    const { data, error } = await client
+      .from("tasks")
+      .insert({ title: "Call Ana" })
+      .select("id")
+      .single<{ id: string; title: string }>();
+
+    expect(error).toBeNull();
+    expect(data.title).toBe("Call Ana");
+    expect(data.id).toMatch(/^dry-run-/);
+    expect(real.writes).toEqual([]);
+    expect(sandbox.effects[0]).toMatchObject({ kind: "db_write", method: "insert", target: "tasks" });
+  });
+
+  it("records the rows an update or delete was scoped to", async () => {
+    const real = fakeSupabase();
+    const sandbox = createSandbox();
+    const client = createSandboxClient(real, sandbox);
+
+    await client.from("contacts").update({ dnd: true }).eq("id", "lead-1").eq("team_id", "team-1");
+    await client.from("appointments").delete().eq("id", "appt-1");
+
+    expect(real.writes).toEqual([]);
+    expect(sandbox.effects.map(({ method, target, filters }) => ({ method, target, filters }))).toEqual([
+      { method: "update", target: "contacts", filters: { id: "lead-1", team_id: "team-1" } },
+      { method: "delete", target: "appointments", filters: { id: "appt-1" } },
+    ]);
+  });
+
+  it("does not consume rate limits", async () => {
+    const real = fakeSupabase();
+    const sandbox = createSandbox();
+    const { data } = await createSandboxClient(real, sandbox).rpc("check_and_increment_rate_limit", {
+      p_team_id: "team-1",
+      p_channel: "sms",
+    });
+
+    expect(data).toMatchObject({ allowed: true });
+    expect(real.rpcs).toEqual([]);
+    expect(sandbox.effects[0]).toMatchObject({ kind: "rpc", target: "check_and_increment_rate_limit" });
+  });
+});
+
+describe("action handlers in a sandbox", () => {
+  it("stripe looks the customer up for real but only records the charge", async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(
+        JSON.stringify({ data: [{ id: "cus_1", invoice_settings: { default_payment_method: "pm_1" } }] }),
+        { status: 200 },
+      ),
+    );
+    const sandbox = createSandbox();
+    const client = createSandboxClient(
+      fakeSupabase({ team_integrations: { config: { access_token: "sk_live", stripe_account_id: "acct_1" } } }),
+      sandbox,
+    );
+
+    const log = await executeChargePayment({ amount: 50, description: "Deposit" }, context, client);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(log.status).toBe("success");
+    expect(log.output).toMatchObject({ paymentId: "pi_dry_run", customerId: "cus_1", amount: 50 });
+    expect(sandbox.effects).toEqual([
+      expect.objectContaining({
+        target: "https://api.stripe.com/v1/payment_intents",
+        payload: expect.objectContaining({ amount: "5000", customer: "cus_1", payment_method: "pm_1" }),
+      }),
+    ]);
+  });
+});
+
+describe("buildDryRunReport", () => {
+  it("attaches each step's effects and totals them", () => {
+    const sandbox = createSandbox();
+    sandbox.effects.push(
+      { stepId: "sms", kind: "http", method: "POST", target: "send-sms" },
+      { stepId: "tag", kind: "db_write", method: "update", target: "contacts" },
+      { stepId: "sms", kind: "rpc", method: "rpc", target: "check_and_increment_rate_limit" },
+    );
+
+    const report = buildDryRunReport(
+      { id: "auto-1", name: "Welcome" },
+      "run-1",
+      [
+        { stepId: "sms", actionType: "send_sms", status: "success", channel: "sms", to: "+1", renderedBody: "Hi" },
+        { stepId: "tag", actionType: "add_tag", status: "success" },
+        { stepId: "wait", actionType: "time_delay", skipped: true, skipReason: "conditions_not_met" },
+      ],
+      sandbox,
+    );
+
+    expect(report.totals).toEqual({ steps: 3, http: 1, dbWrites: 1, rpc: 1 });
+    expect(report.steps[0]).toMatchObject({ category: "messaging", renderedBody: "Hi", effects: [{}, {}] });
+    expect(report.steps[1]).toMatchObject({ category: null, effects: [{ target: "contacts" }] });
+    expect(report.steps[2]).toMatchObject({ category: "delay", status: "skipped", effects: [] });
+  });
+});
+
+describe("automation-trigger dry-run wiring", () => {
+  const source = readSourceFile("supabase/functions/automation-trigger/index.ts");
+
+  it("requires team access for dry runs", () => {
+    expect(source).toContain("if (dryRun && !(await canDebugTeam(");
+  });
+
+  it("skips idempotency and enrollment and never completes enrollments", () => {
+    expect(source).toContain("const idempotencyResult = dryRun");
+    expect(source).toContain("const enrollmentCheck = dryRun");
+    expect(source).toContain('if (!exitedByGoal && !parked && status === "success" && !dryRun)');
+  });
+
+  it("runs action handlers against the sandboxed client", () => {
+    expect(source).toContain("createSandboxClient(supabase, runMode.sandbox)");
+    expect(source).toContain("checkRateLimit(actionClient,");
+    expect(source).not.toMatch(/executeSendMessage\([^)]*, supabase,/);
+    expect(source).toContain("dryRunReports.push(buildDryRunReport(");
+  });
+
+  it("leaves no unrecorded writes in action handlers", () => {
+    const actionsDir = path.resolve(__dirname, "../../../../supabase/functions/automation-trigger/actions");
+    for (const file of fs.readdirSync(actionsDir)) {
+      const code = fs.readFileSync(path.join(actionsDir, file), "utf-8");
+      for (const match of code.matchAll(/await fetch\(/g)) {
+        const call = code.slice(match.index!, match.index! + 400);
+        expect(call, `${file} sends a non-GET request with fetch()`).not.toMatch(/method:/);
+      }
+    }
+  });
+});
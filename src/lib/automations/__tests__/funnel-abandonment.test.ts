@@ -0,0 +1,163 @@
+/**
+ * Funnel Abandonment Trigger Tests
+ *
+ * Covers:
+ * 1. Idle-time config and the last-activity window that counts as abandoned
+ * 2. Abandonment context: partial answers, last step reached, progress
+ * 3. The lead the recovery automation runs against (contact or typed details)
+ * 4. Wiring: trigger registered, claimed once per lead, cancelled on submit
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import { TRIGGER_META } from "../types";
+import {
+  ABANDONMENT_LOOKBACK_MS,
+  buildAbandonedLead,
+  buildAbandonmentMeta,
+  DEFAULT_ABANDON_IDLE_MINUTES,
+  getAbandonmentWindow,
+  getIdleMinutes,
+  MIN_ABANDON_IDLE_MINUTES,
+  type PartialFunnelLead,
+} from "../../../../supabase/functions/process-scheduled-jobs/abandonment";
+
+const readRepoFile = (relative: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../../..", relative), "utf-8");
+
+const partialLead = (overrides: Partial<PartialFunnelLead> = {}): PartialFunnelLead => ({
+  id: "lead-1",
+  funnel_id: "funnel-1",
+  team_id: "team-1",
+  answers: { email: "jo@example.com", budget: "5k" },
+  email: "jo@example.com",
+  phone: "+14045551212",
+  name: "Jo Ann Smith",
+  last_step_index: 2,
+  last_activity_at: "2025-03-10T08:15:00.000Z",
+  ...overrides,
+});
+
+describe("getIdleMinutes", () => {
+  it("defaults when unset or invalid", () => {
+    expect(getIdleMinutes(undefined)).toBe(DEFAULT_ABANDON_IDLE_MINUTES);
+    expect(getIdleMinutes({ idleMinutes: 0 })).toBe(DEFAULT_ABANDON_IDLE_MINUTES);
+    expect(getIdleMinutes({ idleMinutes: Number.NaN })).toBe(DEFAULT_ABANDON_IDLE_MINUTES);
+  });
+
+  it("enforces the minimum and rounds", () => {
+    expect(getIdleMinutes({ idleMinutes: 1 })).toBe(MIN_ABANDON_IDLE_MINUTES);
+    expect(getIdleMinutes({ idleMinutes: 44.6 })).toBe(45);
+  });
+});
+
+describe("getAbandonmentWindow", () => {
+  const now = new Date("2025-03-10T09:00:00Z");
+
+  it("only counts leads idle past the threshold, within the lookback", () => {
+    const window = getAbandonmentWindow({ idleMinutes: 60 }, now, "2024-01-01T00:00:00Z");
+    expect(window.idleBefore).toBe("2025-03-10T08:00:00.000Z");
+    expect(new Date(window.idleBefore).getTime() - new Date(window.activeAfter).getTime())
+      .toBe(ABANDONMENT_LOOKBACK_MS);
+  });
+
+  it("never reaches back before the automation existed", () => {
+    const window = getAbandonmentWindow({}, now, "2025-03-10T07:00:00Z");
+    expect(window.activeAfter).toBe("2025-03-10T07:00:00.000Z");
+  });
+});
+
+describe("buildAbandonmentMeta", () => {
+  const now = new Date("2025-03-10T09:00:00Z");
+  const funnel = {
+    id: "funnel-1",
+    name: "Free Consult",
+    published_document_snapshot: {
+      pages: [
+        { id: "s1", name: "Intro" },
+        { id: "s2", name: "Budget" },
+        { id: "s3", name: "Contact" },
+        { id: "s4", name: "Book" },
+      ],
+    },
+  };
+
+  it("includes answers, last step reached and progress", () => {
+    const meta = buildAbandonmentMeta(partialLead(), funnel, 30, now);
+    expect(meta).toMatchObject({
+      funnelId: "funnel-1",
+      funnelName: "Free Consult",
+      funnelLeadId: "lead-1",
+      answers: { budget: "5k" },
+      lastStepIndex: 2,
+      lastStepId: "s3",
+      lastStepName: "Contact",
+      totalSteps: 4,
+      progressPercent: 50,
+      idleMinutes: 30,
+      abandonedAt: "2025-03-10T09:00:00.000Z",
+    });
+  });
+
+  it("reads flow-canvas steps and tolerates an unpublished snapshot", () => {
+    const flow = { ...funnel, published_document_snapshot: { steps: [{ id: "a" }, { id: "b" }] } };
+    expect(buildAbandonmentMeta(partialLead({ last_step_index: 1 }), flow, 30, now).lastStepId).toBe("b");
+
+    const empty = buildAbandonmentMeta(partialLead(), { ...funnel, published_document_snapshot: null }, 30, now);
+    expect(empty.totalSteps).toBe(0);
+    expect(empty.progressPercent).toBe(0);
+    expect(empty.lastStepId).toBeNull();
+  });
+});
+
+describe("buildAbandonedLead", () => {
+  it("uses the linked contact when there is one", () => {
+    const contact = { id: "contact-1", email: "jo@example.com" };
+    expect(buildAbandonedLead(partialLead(), contact)).toBe(contact);
+  });
+
+  it("falls back to the typed details without an id", () => {
+    const lead = buildAbandonedLead(partialLead(), null);
+    expect(lead).toEqual({
+      name: "Jo Ann Smith",
+      first_name: "Jo",
+      last_name: "Ann Smith",
+      email: "jo@example.com",
+      phone: "+14045551212",
+    });
+    expect(lead.id).toBeUndefined();
+  });
+});
+
+describe("funnel_abandoned wiring", () => {
+  it("is a form trigger", () => {
+    expect(TRIGGER_META.funnel_abandoned.category).toBe("form");
+    expect(readRepoFile("supabase/functions/automation-trigger/types.ts")).toContain('| "funnel_abandoned"');
+  });
+
+  it("claims each lead once per automation before firing", () => {
+    const source = readRepoFile("supabase/functions/process-scheduled-jobs/index.ts");
+    expect(source).toMatch(/from\("funnel_abandonment_fires"\)\s*\.insert/);
+    expect(source).toContain("eventId: `funnel_abandoned:${automation.id}:${lead.id}`");
+  });
+
+  it("tracks activity and cancels recovery when the lead submits", () => {
+    const source = readRepoFile("supabase/functions/submit-funnel-lead/index.ts");
+    expect(source).toContain("last_activity_at: new Date().toISOString()");
+    expect(source).toContain('rpc("cancel_funnel_abandonment", { p_funnel_lead_id: lead.id })');
+    const cancel = source.slice(source.indexOf('rpc("cancel_funnel_abandonment"'));
+    expect(cancel.slice(0, cancel.indexOf("} else {"))).toContain(".catch(");
+  });
+
+  it("stops recovery jobs a worker has already claimed", () => {
+    const migration = readRepoFile("supabase/migrations/20260217100000_funnel_abandonment_trigger.sql");
+    expect(migration).toContain("AND status IN ('pending', 'waiting_for_event', 'processing')");
+
+    const worker = readRepoFile("supabase/functions/process-scheduled-jobs/index.ts");
+    const processJob = worker.slice(worker.indexOf("async function processJob"));
+    expect(processJob.indexOf("isRecoveredAbandonment(supabase, job)")).toBeGreaterThan(-1);
+    expect(processJob.indexOf("isRecoveredAbandonment(supabase, job)"))
+      .toBeLessThan(processJob.indexOf("invokeAutomationTrigger("));
+  });
+});
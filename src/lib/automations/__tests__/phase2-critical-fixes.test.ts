@@ -240,12 +240,12 @@ describe("Fix 3: Cancellation Support - AbortController", () => {
       expect(signalCount).toBeGreaterThanOrEqual(20);
     });
 
-    it("should break from main loop when aborted", () => {
+    it("should stop the step walk when aborted", () => {
       const abortSection = indexSource.substring(
         indexSource.indexOf("abortController.signal.aborted"),
         indexSource.indexOf("abortController.signal.aborted") + 200,
       );
-      expect(abortSection).toContain("break");
+      expect(abortSection).toContain("return { stop: true }");
     });
   });
 });
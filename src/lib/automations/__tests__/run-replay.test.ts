@@ -0,0 +1,168 @@
+/**
+ * Run Replay / Debugger Tests
+ *
+ * Covers:
+ * 1. Context diffing between a step's before/after snapshots
+ * 2. Timeline construction from automation_step_logs rows
+ * 3. Dry-run simulation of outbound actions (automation-trigger/replay.ts)
+ * 4. automation-trigger wiring: snapshots on step logs, replay entry point,
+ *    and no enrollment / scheduling side effects during replays
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { diffContext, buildRunTimeline, type DebuggerStepLog } from "../runReplay";
+import {
+  getSimulatedActionCategory,
+  simulateAction,
+} from "../../../../supabase/functions/automation-trigger/replay";
+import { snapshotContext, MAX_CONTEXT_SNAPSHOT_BYTES } from "../../../../supabase/functions/automation-trigger/step-logger";
+import type { AutomationContext } from "../../../../supabase/functions/automation-trigger/types";
+
+const readSourceFile = (relativePath: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../../..", relativePath), "utf-8");
+
+const stepLog = (overrides: Partial<DebuggerStepLog>): DebuggerStepLog => ({
+  id: "log",
+  stepId: "step",
+  actionType: "add_tag",
+  status: "success",
+  startedAt: "2025-01-01T00:00:00.000Z",
+  durationMs: 5,
+  errorMessage: null,
+  skipReason: null,
+  input: null,
+  output: null,
+  contextBefore: null,
+  contextAfter: null,
+  ...overrides,
+});
+
+describe("diffContext", () => {
+  it("reports added, removed and changed leaf paths", () => {
+    const before = { lead: { first_name: "Ana", tags: ["a"], phone: "+1" }, meta: { source: "ads" } };
+    const after = {
+      lead: { first_name: "Ana", tags: ["a", "vip"], email: "ana@x.com" },
+      meta: { source: "ads" },
+      stepOutputs: { s1: { ok: true } },
+    };
+
+    expect(diffContext(before, after)).toEqual([
+      { path: "lead.email", kind: "added", after: "ana@x.com" },
+      { path: "lead.phone", kind: "removed", before: "+1" },
+      { path: "lead.tags", kind: "changed", before: ["a"], after: ["a", "vip"] },
+      { path: "stepOutputs", kind: "added", after: { s1: { ok: true } } },
+    ]);
+  });
+
+  it("ignores the per-run clock", () => {
+    expect(diffContext({ now: "2025-01-01" }, { now: "2025-01-02" })).toEqual([]);
+  });
+
+  it("handles missing snapshots", () => {
+    expect(diffContext(null, { a: 1 })).toEqual([{ path: "a", kind: "added", after: 1 }]);
+    expect(diffContext(null, null)).toEqual([]);
+  });
+});
+
+describe("buildRunTimeline", () => {
+  it("orders by start time and drops running rows that were settled", () => {
+    const timeline = buildRunTimeline([
+      stepLog({ id: "2", stepId: "b", startedAt: "2025-01-01T00:00:02.000Z" }),
+      stepLog({ id: "1r", stepId: "a", status: "running", startedAt: "2025-01-01T00:00:01.000Z" }),
+      stepLog({ id: "1", stepId: "a", startedAt: "2025-01-01T00:00:01.500Z" }),
+      stepLog({ id: "3", stepId: "c", status: "running", startedAt: "2025-01-01T00:00:03.000Z" }),
+    ]);
+    expect(timeline.map((l) => l.id)).toEqual(["1", "2", "3"]);
+  });
+});
+
+describe("Dry-run simulation", () => {
+  const context: AutomationContext = {
+    teamId: "team-1",
+    triggerType: "lead_created",
+    now: "2025-01-01T00:00:00.000Z",
+    lead: { first_name: "Ana", phone: "+15550001111" },
+  };
+
+  it("classifies messaging, payment, webhook and delay actions only", () => {
+    expect(getSimulatedActionCategory("send_sms")).toBe("messaging");
+    expect(getSimulatedActionCategory("charge_payment")).toBe("payment");
+    expect(getSimulatedActionCategory("custom_webhook")).toBe("webhook");
+    expect(getSimulatedActionCategory("time_delay")).toBe("delay");
+    expect(getSimulatedActionCategory("add_tag")).toBeNull();
+    expect(getSimulatedActionCategory("condition")).toBeNull();
+  });
+
+  it("renders templated config so the debugger shows what would be sent", () => {
+    const log = simulateAction(
+      { id: "s1", order: 1, type: "send_sms", config: { body: "Hi {{contact.first_name}}!", channel: "sms" } },
+      context,
+    );
+    expect(log.simulated).toBe(true);
+    expect(log.status).toBe("success");
+    expect(log.output).toEqual({
+      simulated: true,
+      category: "messaging",
+      config: { body: "Hi Ana!", channel: "sms" },
+    });
+  });
+
+  it("surfaces template warnings from the simulated render", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const log = simulateAction(
+      { id: "s1", order: 1, type: "send_email", config: { subject: "{{contact.nickname}}" } },
+      context,
+    );
+    expect(log.templateWarnings).toEqual(['Unknown variable "contact.nickname"']);
+    vi.restoreAllMocks();
+  });
+});
+
+describe("snapshotContext", () => {
+  it("returns a JSON-safe copy", () => {
+    const ctx = { lead: { id: "1" }, when: new Date("2025-01-01T00:00:00Z") };
+    const snap = snapshotContext(ctx);
+    expect(snap).toEqual({ lead: { id: "1" }, when: "2025-01-01T00:00:00.000Z" });
+    expect(snap.lead).not.toBe(ctx.lead);
+  });
+
+  it("truncates oversized contexts to a key listing", () => {
+    const ctx = { lead: { id: "1" }, meta: { blob: "x".repeat(MAX_CONTEXT_SNAPSHOT_BYTES) } };
+    expect(snapshotContext(ctx)).toMatchObject({ _truncated: true, keys: ["lead", "meta"] });
+  });
+});
+
+describe("automation-trigger replay wiring", () => {
+  const source = readSourceFile("supabase/functions/automation-trigger/index.ts");
+
+  it("stores context before and after each step", () => {
+    expect(source).toContain("contextBefore,");
+    expect(source).toContain("contextAfter: snapshotContext(context)");
+  });
+
+  it("fast-forwards delays in dry runs", () => {
+    expect(source).toContain('getSimulatedActionCategory(step.type) === "delay"');
+    expect(source).toContain("switch (simulated ? SIMULATED_STEP : step.type)");
+  });
+
+  it("handles replay requests before normal trigger validation", () => {
+    const replayIndex = source.indexOf("if (body.replay?.runId)");
+    const validationIndex = source.indexOf('"Missing triggerType or teamId"');
+    expect(replayIndex).toBeGreaterThan(-1);
+    expect(replayIndex).toBeLessThan(validationIndex);
+  });
+
+  it("records replays as dry runs linked to the original run", () => {
+    expect(source).toContain("replayOfRunId: source.runId,\n      isDryRun: true");
+    expect(source).toContain("replay_of_run_id: params.replayOfRunId ?? null");
+  });
+
+  it("does not exit enrollments from a replay", () => {
+    expect(source).toMatch(/if \(!runMode\.dryRun\) \{\s*await exitEnrollment/);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Scheduled Jobs & Cron Trigger Tests
+ *
+ * Covers:
+ * 1. Cron parsing (_shared/cron.ts) including names, steps and DOM/DOW semantics
+ * 2. Next-occurrence computation across timezones and DST transitions
+ * 3. Schedule config → cron expression and catch-up slot selection
+ * 4. Queue retry backoff and dead-letter decisions (process-scheduled-jobs/queue.ts)
+ * 5. process-scheduled-jobs claims atomically and settles under its lease
+ * 6. The cron job's URL fallback and hand-over from the old job
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  parseCronExpression,
+  isValidCronExpression,
+  getNextCronOccurrence,
+  getLatestDueCronSlot,
+  buildCronExpression,
+  CronParseError,
+} from "../cron";
+import {
+  decideJobFailure,
+  getJobRetryDelayMs,
+  JOB_RETRY_MAX_DELAY_MS,
+} from "../../../../supabase/functions/process-scheduled-jobs/queue";
+
+const iso = (d: Date | null) => (d ? d.toISOString() : null);
+
+describe("parseCronExpression", () => {
+  it("expands lists, ranges, steps and names", () => {
+    const cron = parseCronExpression("*/15 9-17/4 1,15 jan-mar mon-fri");
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCronExpression("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCronExpression("0 9 * *")).toThrow(CronParseError);
+    expect(isValidCronExpression("60 * * * *")).toBe(false);
+    expect(isValidCronExpression("0 9 * * funday")).toBe(false);
+    expect(isValidCronExpression("*/0 * * * *")).toBe(false);
+  });
+});
+
+describe("getNextCronOccurrence", () => {
+  it("finds the next slot strictly after the given instant", () => {
+    const after = new Date("2025-03-10T09:00:00Z");
+    expect(iso(getNextCronOccurrence("0 9 * * *", after))).toBe("2025-03-11T09:00:00.000Z");
+    expect(iso(getNextCronOccurrence("*/15 * * * *", new Date("2025-03-10T09:07:30Z")))).toBe(
+      "2025-03-10T09:15:00.000Z",
+    );
+  });
+
+  it("evaluates wall-clock time in the schedule's timezone", () => {
+    // 9am in New York is 14:00 UTC in winter, 13:00 UTC in summer
+    expect(iso(getNextCronOccurrence("0 9 * * *", new Date("2025-01-15T00:00:00Z"), "America/New_York"))).toBe(
+      "2025-01-15T14:00:00.000Z",
+    );
+    expect(iso(getNextCronOccurrence("0 9 * * *", new Date("2025-07-15T00:00:00Z"), "America/New_York"))).toBe(
+      "2025-07-15T13:00:00.000Z",
+    );
+  });
+
+  it("keeps local time across a DST change", () => {
+    // US DST starts Sunday 2025-03-09
+    const before = getNextCronOccurrence("0 9 * * *", new Date("2025-03-08T15:00:00Z"), "America/New_York");
+    const after = getNextCronOccurrence("0 9 * * *", before!, "America/New_York");
+    expect(iso(before)).toBe("2025-03-09T13:00:00.000Z");
+    expect(iso(after)).toBe("2025-03-10T13:00:00.000Z");
+  });
+
+  it("skips a wall-clock time that doesn't exist on spring-forward day", () => {
+    // 02:30 never happens in New York on 2025-03-09
+    expect(iso(getNextCronOccurrence("30 2 * * *", new Date("2025-03-08T12:00:00Z"), "America/New_York"))).toBe(
+      "2025-03-10T06:30:00.000Z",
+    );
+  });
+
+  it("matches either day-of-month or day-of-week when both are restricted", () => {
+    // 2025-06-01 is a Sunday; next 1st-of-month OR Friday after it is Friday 06-06
+    const next = getNextCronOccurrence("0 12 1 * 5", new Date("2025-06-01T13:00:00Z"));
+    expect(iso(next)).toBe("2025-06-06T12:00:00.000Z");
+  });
+
+  it("returns null for schedules that never occur", () => {
+    expect(getNextCronOccurrence("0 0 31 2 *", new Date("2025-01-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("buildCronExpression", () => {
+  it("converts daily / weekly / monthly configs", () => {
+    expect(buildCronExpression({ schedule: "daily", time: "08:30" })).toBe("30 8 * * *");
+    expect(buildCronExpression({ schedule: "weekly", time: "17:00", dayOfWeek: 0 })).toBe("0 17 * * 0");
+    expect(buildCronExpression({ schedule: "monthly", dayOfMonth: 15 })).toBe("0 9 15 * *");
+  });
+
+  it("defaults to daily at 09:00", () => {
+    expect(buildCronExpression({})).toBe("0 9 * * *");
+  });
+
+  it("validates custom expressions and times", () => {
+    expect(buildCronExpression({ schedule: "custom", cronExpression: " 0 9 * * 1-5 " })).toBe("0 9 * * 1-5");
+    expect(() => buildCronExpression({ schedule: "custom", cronExpression: "every day" })).toThrow(CronParseError);
+    expect(() => buildCronExpression({ schedule: "daily", time: "25:00" })).toThrow(CronParseError);
+  });
+});
+
+describe("getLatestDueCronSlot", () => {
+  it("returns the most recent slot inside the catch-up window", () => {
+    const slot = getLatestDueCronSlot(
+      "*/5 * * * *",
+      new Date("2025-03-10T09:00:00Z"),
+      new Date("2025-03-10T09:12:00Z"),
+    );
+    expect(iso(slot)).toBe("2025-03-10T09:10:00.000Z");
+  });
+
+  it("excludes the window start and returns null when nothing is due", () => {
+    expect(
+      getLatestDueCronSlot("0 9 * * *", new Date("2025-03-10T09:00:00Z"), new Date("2025-03-10T09:14:00Z")),
+    ).toBeNull();
+  });
+});
+
+describe("Job retry policy", () => {
+  it("backs off exponentially with a cap", () => {
+    expect(getJobRetryDelayMs(1)).toBe(60_000);
+    expect(getJobRetryDelayMs(2)).toBe(120_000);
+    expect(getJobRetryDelayMs(3)).toBe(240_000);
+    expect(getJobRetryDelayMs(20)).toBe(JOB_RETRY_MAX_DELAY_MS);
+  });
+
+  it("reschedules until max_attempts, then dead-letters", () => {
+    const now = new Date("2025-03-10T09:00:00Z");
+    expect(decideJobFailure({ attempts: 2, max_attempts: 5 }, now)).toEqual({
+      status: "pending",
+      resumeAt: "2025-03-10T09:02:00.000Z",
+      delayMs: 120_000,
+    });
+    expect(decideJobFailure({ attempts: 5, max_attempts: 5 }, now)).toEqual({ status: "dead_letter" });
+  });
+});
+
+describe("process-scheduled-jobs worker", () => {
+  const source = fs.readFileSync(
+    path.resolve(__dirname, "../../../../supabase/functions/process-scheduled-jobs/index.ts"),
+    "utf-8",
+  );
+
+  it("claims jobs through the leasing RPC instead of select-then-update", () => {
+    expect(source).toContain('rpc("claim_scheduled_automation_jobs"');
+    expect(source).not.toMatch(/\.eq\("status", "pending"\)/);
+  });
+
+  it("only settles jobs it still holds the lease for", () => {
+    expect(source).toContain('.eq("locked_by", workerId)');
+  });
+
+  it("resumes the specific automation that scheduled the job", () => {
+    expect(source).toContain("automationId: job.automation_id");
+  });
+
+  it("claims each scheduled trigger slot before firing it", () => {
+    expect(source).toMatch(/from\("scheduled_trigger_fires"\)\s*\.insert/);
+    expect(source).toContain("23505");
+  });
+});
+
+describe("process-scheduled-jobs cron job", () => {
+  const migration = fs.readFileSync(
+    path.resolve(__dirname, "../../../../supabase/migrations/20260213100000_scheduled_job_queue_and_cron_triggers.sql"),
+    "utf-8",
+  );
+
+  it("falls back to the project URL when supabase.url is unset", () => {
+    const helper = migration.slice(migration.indexOf("FUNCTION public.edge_function_url"));
+    expect(helper).toContain("IF v_supabase_url IS NULL OR v_supabase_url = '' THEN");
+    expect(migration).toContain("url := public.edge_function_url('process-scheduled-jobs')");
+    expect(migration).not.toContain("url := current_setting('supabase.url', true) ||");
+  });
+
+  it("only drops the old job once the new one is scheduled", () => {
+    const schedule = migration.indexOf("SELECT cron.schedule(\n  'process-scheduled-jobs'");
+    const dropOld = migration.indexOf("SELECT cron.unschedule('process-scheduled-automation-jobs')");
+    expect(schedule).toBeGreaterThan(-1);
+    expect(dropOld).toBeGreaterThan(schedule);
+    expect(migration.slice(dropOld)).toContain("WHERE jobname = 'process-scheduled-jobs' AND active");
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Shared Automation Engine Tests
+ *
+ * Exercises supabase/functions/_shared/automation-engine.ts — the same module
+ * the automation-trigger edge function imports — through the browser entry point.
+ *
+ * 1. Condition operators (string, number, date, array, existence, legacy tags)
+ * 2. Step skipping (disabled steps, unmet step conditions)
+ * 3. If/Else branching
+ * 4. Split test variant selection
+ * 5. go_to target validation
+ * 6. Goal redirect bookkeeping
+ * 7. Step graph walking (ordering, jumps, loops, resume, step budget)
+ * 8. Edge function wiring
+ */
+
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  evaluateCondition,
+  evaluateConditions,
+  evaluateGoalConditions,
+  getFieldValue,
+  getStepSkipReason,
+  resolveConditionBranch,
+  selectSplitTestVariant,
+  getSplitTestVariants,
+  resolveGoTo,
+  createGoalTracker,
+  decideGoalAction,
+  walkStepGraph,
+  MAX_GOAL_REDIRECTS,
+  type EngineContext,
+  type EngineStep,
+} from "../sharedEngine";
+
+const NOW = Date.parse("2026-03-10T12:00:00.000Z");
+const fixedClock = { now: () => NOW };
+
+function step(id: string, order: number, extra: Partial<EngineStep> = {}): EngineStep {
+  return { id, order, type: "add_tag", config: {}, ...extra };
+}
+
+// ============================================================
+// 1. CONDITION OPERATORS
+// ============================================================
+
+describe("Condition operators", () => {
+  const context = {
+    lead: {
+      first_name: "Dana",
+      email: "Dana@Example.com",
+      tags: ["vip", "webinar"],
+      budget: "7500",
+      opted_in: "true",
+      company: "",
+      created_at: "2026-03-10T11:30:00.000Z",
+    },
+  };
+
+  it("string operators are case-insensitive where GHL is", () => {
+    expect(evaluateCondition({ field: "lead.email", operator: "contains", value: "example" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.email", operator: "starts_with", value: "dana" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.email", operator: "ends_with", value: ".COM" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.email", operator: "not_contains", value: "gmail" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.first_name", operator: "equals", value: "Dana" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.first_name", operator: "regex", value: "^D.n" }, context)).toBe(true);
+  });
+
+  it("invalid regex fails closed", () => {
+    expect(evaluateCondition({ field: "lead.first_name", operator: "regex", value: "([" }, context)).toBe(false);
+  });
+
+  it("number operators coerce strings and support aliases", () => {
+    expect(evaluateCondition({ field: "lead.budget", operator: "gt", value: 5000 }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.budget", operator: "greater_or_equal", value: "7500" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.budget", operator: "lt", value: 5000 }, context)).toBe(false);
+    expect(evaluateCondition({ field: "lead.budget", operator: "between", value: [5000, 10000] }, context)).toBe(true);
+  });
+
+  it("relative date operators use the injected clock", () => {
+    expect(
+      evaluateCondition({ field: "lead.created_at", operator: "within_last_hours", value: 1 }, context, fixedClock),
+    ).toBe(true);
+    expect(
+      evaluateCondition({ field: "lead.created_at", operator: "within_last_minutes", value: 10 }, context, fixedClock),
+    ).toBe(false);
+    expect(
+      evaluateCondition({ field: "lead.created_at", operator: "date_within_days", value: 1 }, context, fixedClock),
+    ).toBe(true);
+  });
+
+  it("array and tag operators", () => {
+    expect(evaluateCondition({ field: "lead.tags", operator: "contains_any", value: ["vip", "x"] }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.tags", operator: "contains_all", value: ["vip", "x"] }, context)).toBe(false);
+    expect(evaluateCondition({ field: "lead.tags", operator: "tag_present", value: "webinar" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.tags", operator: "tag_absent", value: "webinar" }, context)).toBe(false);
+    expect(evaluateCondition({ field: "lead.first_name", operator: "in", value: ["Dana", "Sam"] }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.first_name", operator: "not_in", value: ["Sam"] }, context)).toBe(true);
+  });
+
+  it("existence and boolean operators", () => {
+    expect(evaluateCondition({ field: "lead.company", operator: "is_empty" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.company", operator: "not_exists" }, context)).toBe(false);
+    expect(evaluateCondition({ field: "lead.missing", operator: "is_not_set" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.tags", operator: "is_not_empty" }, context)).toBe(true);
+    expect(evaluateCondition({ field: "lead.opted_in", operator: "is_true" }, context)).toBe(true);
+  });
+
+  it("unknown operators fail closed", () => {
+    expect(evaluateCondition({ field: "lead.first_name", operator: "sounds_like", value: "Dan" }, context)).toBe(false);
+  });
+
+  it("uses an injected field resolver for aliases", () => {
+    const resolveField = (ctx: EngineContext, p: string) =>
+      p === "contact.first_name" ? getFieldValue(ctx, "lead.first_name") : undefined;
+    expect(
+      evaluateCondition({ field: "contact.first_name", operator: "equals", value: "Dana" }, context, { resolveField }),
+    ).toBe(true);
+  });
+
+  it("AND / OR logic, empty list passes", () => {
+    const conditions = [
+      { field: "lead.first_name", operator: "equals", value: "Dana" },
+      { field: "lead.budget", operator: "lt", value: 100 },
+    ];
+    expect(evaluateConditions(conditions, context, "AND")).toBe(false);
+    expect(evaluateConditions(conditions, context, "OR")).toBe(true);
+    expect(evaluateConditions([], context)).toBe(true);
+  });
+
+  it("goal conditions never fire without conditions", () => {
+    expect(evaluateGoalConditions([], context)).toBe(false);
+    expect(evaluateGoalConditions([{ field: "lead.first_name", operator: "exists" }], context)).toBe(true);
+  });
+});
+
+// ============================================================
+// 2. STEP SKIPPING
+// ============================================================
+
+describe("Step skipping", () => {
+  it("skips disabled steps", () => {
+    expect(getStepSkipReason(step("a", 0, { enabled: false }), {})).toBe("step_disabled");
+  });
+
+  it("skips steps whose conditions are not met", () => {
+    const s = step("a", 0, { conditions: [{ field: "lead.id", operator: "exists" }] });
+    expect(getStepSkipReason(s, {})).toBe("conditions_not_met");
+    expect(getStepSkipReason(s, { lead: { id: "1" } })).toBeNull();
+  });
+
+  it("never filters condition nodes by their own conditions", () => {
+    const s = step("a", 0, { type: "condition", conditions: [{ field: "lead.id", operator: "exists" }] });
+    expect(getStepSkipReason(s, {})).toBeNull();
+  });
+});
+
+// ============================================================
+// 3. IF/ELSE BRANCHING
+// ============================================================
+
+describe("If/Else branching", () => {
+  const branchStep = step("if", 0, {
+    type: "condition",
+    conditions: [{ field: "lead.score", operator: "gte", value: 50 }],
+    trueBranchStepId: "hot",
+    falseBranchStepId: "cold",
+  });
+
+  it("follows the true branch", () => {
+    expect(resolveConditionBranch(branchStep, { lead: { score: 80 } })).toMatchObject({
+      conditionsMet: true,
+      branch: "true",
+      nextStepId: "hot",
+    });
+  });
+
+  it("follows the false branch", () => {
+    expect(resolveConditionBranch(branchStep, { lead: { score: 10 } })).toMatchObject({
+      branch: "false",
+      nextStepId: "cold",
+    });
+  });
+
+  it("continues by order when the branch is not configured", () => {
+    const noBranches = { ...branchStep, trueBranchStepId: undefined, falseBranchStepId: undefined };
+    expect(resolveConditionBranch(noBranches, { lead: { score: 80 } })).toMatchObject({
+      branch: "true_no_branch",
+      nextStepId: null,
+    });
+  });
+});
+
+// ============================================================
+// 4. SPLIT TESTS
+// ============================================================
+
+describe("Split test variant selection", () => {
+  const variants = [
+    { id: "A", percentage: 30, nextStepId: "a" },
+    { id: "B", percentage: 70, nextStepId: "b" },
+  ];
+
+  it("picks variants by cumulative percentage", () => {
+    expect(selectSplitTestVariant(variants, 10)?.variant.id).toBe("A");
+    expect(selectSplitTestVariant(variants, 30)?.variant.id).toBe("A");
+    expect(selectSplitTestVariant(variants, 30.1)?.variant.id).toBe("B");
+  });
+
+  it("falls back to the first variant when percentages do not add up", () => {
+    expect(selectSplitTestVariant([{ id: "A", percentage: 10 }], 99)?.variant.id).toBe("A");
+  });
+
+  it("returns null without variants", () => {
+    expect(selectSplitTestVariant([], 10)).toBeNull();
+  });
+
+  it("reads variants from the step or from legacy config", () => {
+    expect(getSplitTestVariants(step("s", 0, { variants }))).toHaveLength(2);
+    expect(getSplitTestVariants(step("s", 0, { config: { variants } }))).toHaveLength(2);
+  });
+});
+
+// ============================================================
+// 5. GO_TO
+// ============================================================
+
+describe("go_to target validation", () => {
+  const steps = [step("a", 0), step("b", 1)];
+
+  it("jumps to existing steps", () => {
+    expect(resolveGoTo({ targetStepId: "b" }, steps)).toEqual({ status: "jump", jumpTo: "b" });
+  });
+
+  it("reports unknown targets", () => {
+    expect(resolveGoTo({ targetStepId: "zzz" }, steps)).toEqual({ status: "unknown_target", jumpTo: "zzz" });
+  });
+
+  it("reports a missing target", () => {
+    expect(resolveGoTo({}, steps)).toEqual({ status: "missing_target" });
+  });
+});
+
+// ============================================================
+// 6. GOALS
+// ============================================================
+
+describe("Goal redirect bookkeeping", () => {
+  it("redirects once per goal", () => {
+    const tracker = createGoalTracker();
+    const goal = { id: "g1", name: "Booked", goToStepId: "thanks" };
+    expect(decideGoalAction(goal, tracker)).toEqual({ action: "redirect", stepId: "thanks", redirectCount: 1 });
+    expect(decideGoalAction(goal, tracker)).toEqual({ action: "none" });
+  });
+
+  it("stops once the redirect limit is exceeded", () => {
+    const tracker = createGoalTracker();
+    tracker.redirectCounts.set("g1", MAX_GOAL_REDIRECTS);
+    const decision = decideGoalAction({ id: "g1", name: "Booked", goToStepId: "thanks" }, tracker);
+    expect(decision.action).toBe("redirect_limit");
+    expect(tracker.closed).toBe(true);
+  });
+
+  it("exit goals close the tracker", () => {
+    const tracker = createGoalTracker();
+    expect(decideGoalAction({ id: "g2", name: "Paid", exitOnGoal: true }, tracker)).toEqual({ action: "exit" });
+    expect(decideGoalAction({ id: "g3", name: "Other", exitOnGoal: true }, tracker)).toEqual({ action: "none" });
+  });
+});
+
+// ============================================================
+// 7. STEP GRAPH WALKING
+// ============================================================
+
+describe("Step graph walking", () => {
+  it("visits steps by order regardless of array order", async () => {
+    const seen: string[] = [];
+    const result = await walkStepGraph([step("c", 2), step("a", 0), step("b", 1)], (s) => {
+      seen.push(s.id);
+      return {};
+    });
+    expect(seen).toEqual(["a", "b", "c"]);
+    expect(result.haltReason).toBe("completed");
+  });
+
+  it("follows explicit jumps and stops on request", async () => {
+    const seen: string[] = [];
+    const result = await walkStepGraph([step("a", 0), step("b", 1), step("c", 2)], (s) => {
+      seen.push(s.id);
+      if (s.id === "a") return { nextStepId: "c" };
+      if (s.id === "c") return { stop: true };
+      return {};
+    });
+    expect(seen).toEqual(["a", "c"]);
+    expect(result.haltReason).toBe("stopped");
+  });
+
+  it("detects loops", async () => {
+    const result = await walkStepGraph([step("a", 0), step("b", 1)], (s) =>
+      s.id === "b" ? { nextStepId: "a" } : {},
+    );
+    expect(result).toMatchObject({ haltReason: "loop_detected", haltStepId: "a" });
+  });
+
+  it("allows intentional revisits", async () => {
+    let redirected = false;
+    const seen: string[] = [];
+    await walkStepGraph([step("a", 0), step("b", 1)], (s) => {
+      seen.push(s.id);
+      if (s.id === "b" && !redirected) {
+        redirected = true;
+        return { nextStepId: "a", revisit: true };
+      }
+      return {};
+    });
+    expect(seen).toEqual(["a", "b", "a"]);
+  });
+
+  it("halts on unknown steps", async () => {
+    const result = await walkStepGraph([step("a", 0)], () => ({ nextStepId: "ghost" }));
+    expect(result).toMatchObject({ haltReason: "step_not_found", haltStepId: "ghost" });
+  });
+
+  it("resumes from a given step", async () => {
+    const seen: string[] = [];
+    await walkStepGraph(
+      [step("a", 0), step("b", 1), step("c", 2)],
+      (s) => {
+        seen.push(s.id);
+        return {};
+      },
+      { startStepId: "b" },
+    );
+    expect(seen).toEqual(["b", "c"]);
+  });
+
+  it("enforces the step budget", async () => {
+    const result = await walkStepGraph([step("a", 0), step("b", 1), step("c", 2)], () => ({}), { maxSteps: 2 });
+    expect(result.haltReason).toBe("max_steps");
+    expect(result.visitedStepIds).toEqual(["a", "b"]);
+  });
+});
+
+// ============================================================
+// 8. EDGE FUNCTION WIRING
+// ============================================================
+
+describe("automation-trigger uses the shared engine", () => {
+  const indexSource = fs.readFileSync(
+    path.resolve(__dirname, "../../../../supabase/functions/automation-trigger/index.ts"),
+    "utf-8",
+  );
+
+  it("imports the shared engine", () => {
+    expect(indexSource).toContain('from "../_shared/automation-engine.ts"');
+  });
+
+  it("no longer carries its own operator switch", () => {
+    expect(indexSource).not.toMatch(/function evaluateCondition\(/);
+    expect(indexSource).not.toContain('case "within_last_hours":');
+  });
+
+  it("walks steps through walkStepGraph", () => {
+    expect(indexSource).toContain("walkStepGraph(steps, visitStep");
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Template Engine Control Flow Tests
+ *
+ * Covers supabase/functions/automation-trigger/template-engine.ts:
+ * 1. {{#if}} / {{else if}} / {{else}} blocks
+ * 2. Comparison helpers (eq, gt, contains, ...)
+ * 3. {{#each}} loops with this / @index
+ * 4. Warnings for unknown variables, helpers and malformed blocks
+ * 5. extractTemplateVariables reporting variables inside blocks
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  renderTemplate,
+  renderTemplateWithWarnings,
+  extractTemplateVariables,
+  listTemplateVariables,
+} from "../../../../supabase/functions/automation-trigger/template-engine";
+import type { AutomationContext } from "../../../../supabase/functions/automation-trigger/types";
+
+const baseContext = (overrides: Partial<AutomationContext> = {}): AutomationContext => ({
+  teamId: "team-1",
+  triggerType: "lead_created",
+  now: "2025-01-01T00:00:00.000Z",
+  lead: {
+    first_name: "Ana",
+    last_name: "Silva",
+    company_name: "Acme",
+    status: "active",
+    tags: ["vip", "webinar"],
+  },
+  appointment: {
+    start_at_utc: "2025-01-02T15:00:00.000Z",
+    attendees: [
+      { name: "Ana", email: "ana@acme.com" },
+      { name: "Bruno", email: "bruno@acme.com" },
+    ],
+  },
+  deal: { value: 5000 },
+  ...overrides,
+});
+
+describe("{{#if}} blocks", () => {
+  it("renders the then-branch for truthy values", () => {
+    const out = renderTemplate("Hi{{#if contact.company_name}} from {{contact.company_name}}{{/if}}!", baseContext());
+    expect(out).toBe("Hi from Acme!");
+  });
+
+  it("renders the else-branch for missing values", () => {
+    const ctx = baseContext({ lead: { first_name: "Ana", company_name: null } });
+    const out = renderTemplate("{{#if contact.company_name}}Acme{{else}}no company{{/if}}", ctx);
+    expect(out).toBe("no company");
+  });
+
+  it("treats empty arrays as falsy", () => {
+    const ctx = baseContext({ lead: { tags: [] } });
+    expect(renderTemplate("{{#if contact.tags}}tagged{{else}}untagged{{/if}}", ctx)).toBe("untagged");
+  });
+
+  it("supports {{else if}} chains closed by a single {{/if}}", () => {
+    const template = '{{#if eq contact.status "lost"}}L{{else if eq contact.status "active"}}A{{else}}O{{/if}}';
+    expect(renderTemplate(template, baseContext())).toBe("A");
+  });
+
+  it("supports nested blocks", () => {
+    const template = "{{#if contact.first_name}}{{#if contact.company_name}}both{{/if}}{{/if}}";
+    expect(renderTemplate(template, baseContext())).toBe("both");
+  });
+});
+
+describe("Comparison helpers", () => {
+  it("eq / neq compare loosely as strings", () => {
+    expect(renderTemplate('{{#if eq deal.value "5000"}}yes{{/if}}', baseContext())).toBe("yes");
+    expect(renderTemplate('{{#if neq contact.status "active"}}yes{{else}}no{{/if}}', baseContext())).toBe("no");
+  });
+
+  it("gt / lt compare numerically", () => {
+    expect(renderTemplate("{{#if gt deal.value 1000}}big{{/if}}", baseContext())).toBe("big");
+    expect(renderTemplate("{{#if lt deal.value 1000}}small{{else}}not small{{/if}}", baseContext())).toBe("not small");
+  });
+
+  it("contains checks arrays and strings", () => {
+    expect(renderTemplate('{{#if contains contact.tags "vip"}}VIP{{/if}}', baseContext())).toBe("VIP");
+    expect(renderTemplate('{{#if contains contact.company_name "acm"}}match{{/if}}', baseContext())).toBe("match");
+  });
+});
+
+describe("{{#each}} loops", () => {
+  it("iterates arrays with this, item fields and @index", () => {
+    const template = "{{#each appointment.attendees}}{{@number}}. {{this.name}} <{{email}}>{{#if @last}}{{else}}, {{/if}}{{/each}}";
+    expect(renderTemplate(template, baseContext())).toBe("1. Ana <ana@acme.com>, 2. Bruno <bruno@acme.com>");
+  });
+
+  it("falls back to root paths inside the loop", () => {
+    const template = "{{#each appointment.attendees}}{{contact.company_name}}:{{name}} {{/each}}";
+    expect(renderTemplate(template, baseContext())).toBe("Acme:Ana Acme:Bruno ");
+  });
+
+  it("renders the else-branch for empty lists", () => {
+    const ctx = baseContext({ appointment: { attendees: [] } });
+    expect(renderTemplate("{{#each appointment.attendees}}x{{else}}nobody{{/each}}", ctx)).toBe("nobody");
+  });
+});
+
+describe("Warnings", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reports unknown variables but still renders", () => {
+    const result = renderTemplateWithWarnings("Hi {{contact.nickname}}!", baseContext());
+    expect(result.output).toBe("Hi !");
+    expect(result.warnings).toEqual([
+      { type: "unknown_variable", message: 'Unknown variable "contact.nickname"', path: "contact.nickname" },
+    ]);
+  });
+
+  it("does not warn when a default pipe is given", () => {
+    const result = renderTemplateWithWarnings('Hi {{contact.nickname | default:"there"}}', baseContext());
+    expect(result.output).toBe("Hi there");
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it("does not warn for null values that exist on the record", () => {
+    const ctx = baseContext({ lead: { first_name: "Ana", company_name: null } });
+    expect(renderTemplateWithWarnings("{{contact.company_name}}", ctx).warnings).toHaveLength(0);
+  });
+
+  it("reports unknown helpers and pipes", () => {
+    const result = renderTemplateWithWarnings("{{#if bigger deal.value 1}}x{{/if}}{{contact.first_name | shout}}", baseContext());
+    expect(result.warnings.map((w) => w.type)).toEqual(["unknown_helper", "unknown_pipe"]);
+  });
+
+  it("reports unclosed and stray block tags", () => {
+    expect(renderTemplateWithWarnings("{{#if contact.first_name}}x", baseContext()).warnings[0].type).toBe("syntax");
+    expect(renderTemplateWithWarnings("x{{/each}}", baseContext()).warnings[0].type).toBe("syntax");
+  });
+
+  it("renderTemplate logs warnings to the console", () => {
+    renderTemplate("{{contact.nickname}}", baseContext());
+    expect(console.warn).toHaveBeenCalledWith("[Template Engine] Rendered with warnings:", [
+      'Unknown variable "contact.nickname"',
+    ]);
+  });
+});
+
+describe("extractTemplateVariables", () => {
+  const template = [
+    "{{#if contact.company_name}}{{contact.company_name}}{{else}}{{contact.first_name}}{{/if}}",
+    '{{#if gt deal.value 100}}{{deal.value | currency}}{{/if}}',
+    "{{#each appointment.attendees}}{{this.name}} {{email}} {{@index}}{{/each}}",
+  ].join("\n");
+
+  it("reports variables in conditions, both branches and loop bodies", () => {
+    const vars = extractTemplateVariables(template, baseContext());
+    expect(Object.keys(vars).sort()).toEqual([
+      "appointment.attendees",
+      "appointment.attendees.email",
+      "appointment.attendees.name",
+      "contact.company_name",
+      "contact.first_name",
+      "deal.value",
+    ]);
+    expect(vars["appointment.attendees.name"]).toEqual(["Ana", "Bruno"]);
+    expect(vars["contact.first_name"]).toBe("Ana");
+  });
+
+  it("lists variables without a context for editor validation", () => {
+    expect(listTemplateVariables(template)).toContain("appointment.attendees.name");
+    expect(listTemplateVariables(template)).not.toContain("gt");
+  });
+});
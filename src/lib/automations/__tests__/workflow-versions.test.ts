@@ -0,0 +1,190 @@
+/**
+ * Workflow Version Pinning Tests
+ *
+ * Covers:
+ * 1. Structural diff between two published versions (steps, configs, trigger)
+ * 2. Step-id mapping and per-job plans for moving in-flight contacts on publish
+ * 3. Runtime wiring: enrollments and delayed jobs record their version, and
+ *    scheduled resumes run on the pinned version instead of the latest publish
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import {
+  diffWorkflowVersions,
+  getResumeStepId,
+  getUnmappedResumeSteps,
+  planJobMigrations,
+  resolveMappedStep,
+  type InFlightJob,
+  type VersionDefinition,
+} from "../workflowVersions";
+import type { AutomationStep } from "../types";
+
+const readSourceFile = (relativePath: string) =>
+  fs.readFileSync(path.resolve(__dirname, "../../../..", relativePath), "utf-8");
+
+const step = (id: string, order: number, overrides: Partial<AutomationStep> = {}): AutomationStep => ({
+  id,
+  order,
+  type: "send_sms",
+  config: {},
+  ...overrides,
+});
+
+const v1: VersionDefinition = {
+  trigger: { type: "lead_created", config: { source: "funnel" } },
+  steps: [
+    step("sms-1", 1, { config: { body: "Hi {{lead.first_name}}" } }),
+    step("wait", 2, { type: "time_delay", config: { duration: 3, unit: "days" } }),
+    step("sms-2", 3, { config: { body: "Still there?" } }),
+  ],
+};
+
+const v2: VersionDefinition = {
+  trigger: { type: "lead_created", config: { source: "any" } },
+  steps: [
+    step("sms-1", 1, { config: { body: "Hey {{lead.first_name}}!" } }),
+    step("wait", 2, { type: "time_delay", config: { duration: 3, unit: "days" } }),
+    step("email-1", 3, { type: "send_email", config: { subject: "Checking in" } }),
+    step("tag", 4, { type: "add_tag", config: { tag: "nurtured" } }),
+  ],
+};
+
+describe("diffWorkflowVersions", () => {
+  const diff = diffWorkflowVersions(v1, v2);
+
+  it("classifies steps by id in the newer version's order, removed steps last", () => {
+    expect(diff.steps.map((s) => [s.stepId, s.kind])).toEqual([
+      ["sms-1", "changed"],
+      ["wait", "unchanged"],
+      ["email-1", "added"],
+      ["tag", "added"],
+      ["sms-2", "removed"],
+    ]);
+    expect(diff.summary).toEqual({ added: 2, removed: 1, changed: 1 });
+  });
+
+  it("reports field-level config changes", () => {
+    expect(diff.steps[0].changes).toEqual([
+      { path: "config.body", kind: "changed", before: "Hi {{lead.first_name}}", after: "Hey {{lead.first_name}}!" },
+    ]);
+  });
+
+  it("reports reorders and type changes on a kept step id", () => {
+    const moved = diffWorkflowVersions(
+      { steps: [step("a", 1), step("b", 2)] },
+      { steps: [step("b", 1), step("a", 2, { type: "send_email" })] },
+    );
+    expect(moved.steps.find((s) => s.stepId === "a")?.changes.map((c) => c.path)).toEqual(["order", "type"]);
+    expect(moved.steps.find((s) => s.stepId === "b")?.changes.map((c) => c.path)).toEqual(["order"]);
+  });
+
+  it("diffs the trigger type and config", () => {
+    expect(diff.trigger).toEqual({
+      typeChanged: false,
+      before: "lead_created",
+      after: "lead_created",
+      changes: [{ path: "config.source", kind: "changed", before: "funnel", after: "any" }],
+    });
+
+    const retriggered = diffWorkflowVersions(v1, { ...v1, trigger: { type: "appointment_booked" } });
+    expect(retriggered.trigger.typeChanged).toBe(true);
+    expect(retriggered.trigger.changes).toEqual([{ path: "config.source", kind: "removed", before: "funnel" }]);
+  });
+
+  it("treats a missing side as empty", () => {
+    const fromNothing = diffWorkflowVersions(null, v1);
+    expect(fromNothing.summary).toEqual({ added: 3, removed: 0, changed: 0 });
+  });
+});
+
+describe("in-flight migration", () => {
+  const newSteps = v2.steps!;
+  const jobs: InFlightJob[] = [
+    { id: "job-same", workflowVersionId: "v1", resumeStepId: "wait" },
+    { id: "job-removed", workflowVersionId: "v1", resumeStepId: "sms-2" },
+    { id: "job-done", workflowVersionId: "v1", resumeStepId: null },
+    { id: "job-current", workflowVersionId: "v2", resumeStepId: "email-1" },
+  ];
+
+  it("reads the resume step from the job's context snapshot", () => {
+    expect(getResumeStepId({ remainingSteps: ["sms-2", "tag"] })).toBe("sms-2");
+    expect(getResumeStepId({ remainingSteps: [] })).toBeNull();
+    expect(getResumeStepId(null)).toBeNull();
+  });
+
+  it("keeps step ids that still exist and follows the map for the rest", () => {
+    expect(resolveMappedStep("wait", {}, newSteps)).toBe("wait");
+    expect(resolveMappedStep("sms-2", {}, newSteps)).toBeNull();
+    expect(resolveMappedStep("sms-2", { "sms-2": "email-1" }, newSteps)).toBe("email-1");
+    expect(resolveMappedStep("wait", { wait: null }, newSteps)).toBeNull();
+    expect(resolveMappedStep("sms-2", { "sms-2": "deleted" }, newSteps)).toBeNull();
+  });
+
+  it("lists only the removed steps contacts are waiting at", () => {
+    expect(getUnmappedResumeSteps(jobs, newSteps)).toEqual(["sms-2"]);
+  });
+
+  it("plans moves onto the new version's remaining steps", () => {
+    const plan = planJobMigrations(jobs, { "sms-2": "email-1" }, "v2", v2);
+    expect(plan).toEqual([
+      { jobId: "job-same", action: "move", remainingSteps: ["wait", "email-1", "tag"] },
+      { jobId: "job-removed", action: "move", remainingSteps: ["email-1", "tag"] },
+      { jobId: "job-done", action: "move", remainingSteps: [] },
+    ]);
+  });
+
+  it("exits contacts waiting at an unmapped step", () => {
+    const plan = planJobMigrations(jobs, {}, "v2", v2);
+    expect(plan.find((m) => m.jobId === "job-removed")).toEqual({
+      jobId: "job-removed",
+      action: "exit",
+      remainingSteps: [],
+    });
+  });
+});
+
+describe("version pinning wiring", () => {
+  const trigger = readSourceFile("supabase/functions/automation-trigger/index.ts");
+  const enrollment = readSourceFile("supabase/functions/automation-trigger/enrollment.ts");
+  const timeDelay = readSourceFile("supabase/functions/automation-trigger/actions/time-delay.ts");
+  const scheduler = readSourceFile("supabase/functions/process-scheduled-jobs/index.ts");
+  const migration = readSourceFile("supabase/migrations/20260215100000_workflow_version_pinning.sql");
+
+  it("records the version on enrollments and every delayed job", () => {
+    expect(enrollment).toContain("workflow_version_id: workflowVersionId");
+    expect(timeDelay.match(/workflow_version_id: context\.workflowVersionId \?\? null/g)).toHaveLength(3);
+    expect(trigger).toContain("workflow_version_id: context.workflowVersionId ?? null");
+    expect(trigger).toContain("workflowVersionId: automation.versionId ?? null");
+  });
+
+  it("resumes scheduled jobs on the pinned version", () => {
+    expect(scheduler).toContain("loadJobDefinition(supabase, automation, job)");
+    expect(scheduler).toContain("workflowVersionId: job.workflow_version_id");
+    expect(trigger).toContain("isScheduledResume ? (eventPayload as any)?.workflowVersionId : null");
+  });
+
+  it("keeps the enrollment active while a run is parked in a delay", () => {
+    expect(trigger).toContain("const enrollmentCheck = dryRun || isScheduledResume");
+    expect(trigger).toContain("if (!exitedByGoal && !parked && status === \"success\" && !dryRun)");
+    expect(scheduler).toContain('settleEnrollment(supabase, job, { status: "completed", completed_at: now })');
+  });
+
+  it("applies the publish policy in one transaction scoped to the caller's team", () => {
+    expect(migration).toContain("FUNCTION public.apply_workflow_version_in_flight(");
+    expect(migration).toContain("public.is_team_member(auth.uid(), v_version.team_id)");
+    expect(migration).toContain("workflow_version_id IS DISTINCT FROM p_version_id");
+  });
+
+  it("only moves enrollments whose jobs were moved on migrate", () => {
+    const migrate = migration.slice(migration.indexOf("ELSIF p_policy = 'migrate'"));
+    const enrollmentUpdate = migrate.slice(migrate.lastIndexOf("UPDATE automation_enrollments"));
+    expect(migrate).toContain("v_moved_contacts := array_append(v_moved_contacts, v_contact_id::uuid)");
+    expect(enrollmentUpdate).toContain("AND contact_id = ANY(v_moved_contacts)");
+  });
+});
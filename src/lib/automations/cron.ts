@@ -0,0 +1,2 @@
+// src/lib/automations/cron.ts
+export * from "../../../supabase/functions/_shared/cron.ts";
@@ -1,7 +1,7 @@
 // src/lib/automations/devRunner.ts
 
 import { buildAutomationContext } from "./contextBuilder";
-import { evaluateConditions } from "./conditions";
+import { executeAutomation } from "./engine";
 import { sampleWorkflows } from "../workflows/sampleTemplates";
 import type {
   AutomationDefinition,
@@ -63,43 +63,36 @@ export async function runSampleAutomationDev(): Promise<void> {
 }
 
 /**
- * Minimal "runner" that just logs what would happen for each step.
+ * Dev "runner" that walks the step graph with the shared engine
+ * (branches, split tests, go_to) but only logs what each action would do.
  * It intentionally DOES NOT send real SMS/email/etc.
  */
 async function runAutomationDefinitionDev(
   automation: AutomationDefinition,
   context: Record<string, any>,
 ): Promise<void> {
-  const steps: AutomationStep[] = automation.steps ?? [];
-
-  if (!steps.length) {
+  if (!automation.steps?.length) {
     console.log("[Automation DEV] No steps in automation.");
     return;
   }
 
-  for (const step of steps) {
-    const conditions: AutomationCondition[] | undefined = step.conditions ?? undefined;
-
-    const shouldRun = evaluateConditions(conditions ?? [], context, step.conditionLogic || "AND");
-
-    if (!shouldRun) {
+  const { trace, walk } = await executeAutomation(automation, context, {
+    executeAction: async (step) => {
       console.log(
-        `[Automation DEV] Skipping step ${step.id} (${step.type}) – conditions not met.`,
+        `[Automation DEV] Would run step ${step.id} (${step.type}) with config:`,
+        step.config,
       );
-      continue;
-    }
-
-    console.log(
-      `[Automation DEV] Would run step ${step.id} (${step.type}) with config:`,
-      step.config,
-    );
+      return { simulated: true };
+    },
+  });
 
-    // In the future, this is where we call the real executeAction(...)
-    // For now we just simulate with a tiny delay.
-    await new Promise((resolve) => setTimeout(resolve, 10));
+  for (const entry of trace) {
+    if (entry.status === "skipped") {
+      console.log(`[Automation DEV] Skipped step ${entry.stepId} (${entry.type}) – ${entry.skipReason}.`);
+    }
   }
 
-  console.log("[Automation DEV] Finished running automation.");
+  console.log("[Automation DEV] Finished running automation.", { haltReason: walk.haltReason });
 }
 
 // --- Helper to flatten the workflow into an AutomationDefinition --- //
@@ -1,6 +1,22 @@
 // src/lib/automations/engine.ts
-import { type AutomationDefinition, type AutomationCondition, type TriggerType } from "./types";
+import { supabase } from "@/integrations/supabase/client";
+import { type AutomationDefinition, type AutomationStep, type TriggerType } from "./types";
 import { runAction } from "./actions";
+import {
+  evaluateConditions,
+  getSplitTestVariants,
+  resolveConditionBranch,
+  resolveGoTo,
+  selectSplitTestVariant,
+  getStepSkipReason,
+  walkStepGraph,
+  type EngineContext,
+  type StepOutcome,
+  type WalkResult,
+} from "./sharedEngine";
+
+/** The part of an automation's definition JSON this loader reads */
+type StoredDefinition = Partial<Pick<AutomationDefinition, "trigger" | "steps">>;
 
 interface RunAutomationsParams {
   teamId: string;
@@ -8,6 +24,27 @@ interface RunAutomationsParams {
   eventPayload: Record<string, any>;
 }
 
+export interface StepTraceEntry {
+  stepId: string;
+  type: string;
+  status: "success" | "skipped" | "error";
+  skipReason?: string;
+  output?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ExecuteAutomationOptions {
+  /** Runs a non flow-control step. Dev runners pass a logger instead of real side effects. */
+  executeAction: (step: AutomationStep) => Promise<Record<string, unknown> | void>;
+  /** Resume point, defaults to the first step */
+  startStepId?: string | null;
+}
+
+export interface ExecuteAutomationResult {
+  trace: StepTraceEntry[];
+  walk: WalkResult;
+}
+
 /**
  * Call this whenever something happens
  * (lead created, appointment booked, payment received, etc.).
@@ -27,21 +64,22 @@ export async function runAutomationsForTrigger({ teamId, triggerType, eventPaylo
     for (const automation of automations) {
       if (!automation.isActive) continue;
 
-      // Get conditions from automation (legacy or from steps)
-      const conditions = automation.conditions ?? [];
-      const passed = evaluateConditions(conditions, eventPayload ?? {});
+      // Legacy automation-level conditions gate the whole run
+      const passed = evaluateConditions(automation.conditions ?? [], eventPayload ?? {});
       if (!passed) continue;
 
       // Execute steps (new structure) or legacy actions
       if (automation.steps && automation.steps.length > 0) {
-        for (const step of automation.steps) {
-          await runAction({
-            teamId,
-            automationId: automation.id,
-            actionConfig: { type: step.type, params: step.config },
-            eventPayload,
-          });
-        }
+        await executeAutomation(automation, eventPayload ?? {}, {
+          executeAction: async (step) => {
+            await runAction({
+              teamId,
+              automationId: automation.id,
+              actionConfig: { type: step.type, params: step.config },
+              eventPayload,
+            });
+          },
+        });
       } else if (automation.actions) {
         for (const action of automation.actions) {
           await runAction({
@@ -63,69 +101,143 @@ export async function runAutomationsForTrigger({ teamId, triggerType, eventPaylo
 }
 
 /**
- * TEMP: dev-only hard-coded automation so we can verify the engine.
- * Later this will load from Supabase.
+ * Walk an automation's step graph with the shared engine.
+ * Flow control (If/Else, split tests, go_to, stop) is resolved here exactly
+ * like automation-trigger does; every other step goes to `executeAction`.
+ */
+export async function executeAutomation(
+  automation: AutomationDefinition,
+  context: EngineContext,
+  { executeAction, startStepId }: ExecuteAutomationOptions,
+): Promise<ExecuteAutomationResult> {
+  const trace: StepTraceEntry[] = [];
+
+  const visitStep = async (step: AutomationStep): Promise<StepOutcome> => {
+    const skipReason = getStepSkipReason(step, context);
+    if (skipReason) {
+      trace.push({ stepId: step.id, type: step.type, status: "skipped", skipReason });
+      return {};
+    }
+
+    switch (step.type) {
+      case "condition": {
+        const branch = resolveConditionBranch(step, context);
+        trace.push({
+          stepId: step.id,
+          type: step.type,
+          status: "success",
+          output: { conditionsMet: branch.conditionsMet, branch: branch.branch },
+        });
+        return { nextStepId: branch.nextStepId };
+      }
+
+      case "split_test": {
+        const split = selectSplitTestVariant(getSplitTestVariants(step));
+        if (!split) {
+          trace.push({ stepId: step.id, type: step.type, status: "skipped", skipReason: "no_variants_configured" });
+          return {};
+        }
+        trace.push({
+          stepId: step.id,
+          type: step.type,
+          status: "success",
+          output: { selectedVariant: split.variant.id, random: split.random },
+        });
+        return { nextStepId: split.variant.nextStepId };
+      }
+
+      case "go_to": {
+        const result = resolveGoTo(step.config, automation.steps);
+        if (result.status === "jump") {
+          trace.push({ stepId: step.id, type: step.type, status: "success", output: { jumpTo: result.jumpTo } });
+          return { nextStepId: result.jumpTo };
+        }
+        if (result.status === "unknown_target") {
+          trace.push({
+            stepId: step.id,
+            type: step.type,
+            status: "error",
+            error: `go_to target step "${result.jumpTo}" not found in automation`,
+          });
+          return {};
+        }
+        trace.push({ stepId: step.id, type: step.type, status: "skipped", skipReason: "no_target_step" });
+        return {};
+      }
+
+      case "stop_workflow":
+        trace.push({ stepId: step.id, type: step.type, status: "success" });
+        return { stop: true };
+
+      default:
+        try {
+          const output = await executeAction(step);
+          trace.push({ stepId: step.id, type: step.type, status: "success", output: output || undefined });
+        } catch (error) {
+          trace.push({
+            stepId: step.id,
+            type: step.type,
+            status: "error",
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+        }
+        return {};
+    }
+  };
+
+  const walk = await walkStepGraph(automation.steps ?? [], visitStep, { startStepId });
+  return { trace, walk };
+}
+
+/**
+ * Load active automations for a trigger, preferring the published
+ * workflow version over the draft definition (same rule as automation-trigger).
  */
 async function fetchAutomationsForTeamAndTrigger(
   teamId: string,
   triggerType: TriggerType,
 ): Promise<AutomationDefinition[]> {
-  // Dev test automation: runs whenever triggerType === 'appointment_booked'
-  if (triggerType === "appointment_booked") {
-    const devAutomation: AutomationDefinition = {
-      id: "dev-test-appointment-booked",
-      teamId,
-      name: "Dev Test – Appointment booked",
-      isActive: true,
-      trigger: {
-        type: triggerType,
-        config: {},
-      },
-      steps: [
-        {
-          id: "step-1",
-          order: 0,
-          type: "send_message",
-          config: {
-            channel: "sms",
-            text: "Dev test: appointment_booked automation fired.",
-          },
-        },
-      ],
-    };
+  const { data: rows, error } = await supabase
+    .from("automations")
+    .select("id, team_id, name, description, is_active, trigger_type, current_version_id, definition")
+    .eq("team_id", teamId)
+    .eq("trigger_type", triggerType)
+    .eq("is_active", true);
 
-    return [devAutomation];
+  if (error) {
+    console.error("[automations] failed to load automations", { teamId, triggerType, error });
+    return [];
   }
 
-  console.warn("[automations] fetchAutomationsForTeamAndTrigger not implemented yet", { teamId, triggerType });
-  return [];
-}
+  const results: AutomationDefinition[] = [];
 
-function evaluateConditions(conditions: AutomationCondition[], payload: Record<string, any>): boolean {
-  if (!conditions.length) return true;
-
-  return conditions.every((cond) => {
-    const value = get(payload, cond.field);
-
-    switch (cond.operator) {
-      case "equals":
-        return value === cond.value;
-      case "not_equals":
-        return value !== cond.value;
-      case "contains":
-        return typeof value === "string" && String(value).includes(String(cond.value));
-      case "gt":
-        return Number(value) > Number(cond.value);
-      case "lt":
-        return Number(value) < Number(cond.value);
-      case "in":
-        return Array.isArray(cond.value) && cond.value.includes(value);
-      default:
-        return false;
+  for (const row of rows ?? []) {
+    let definition = (row.definition as StoredDefinition | null) || {};
+
+    if (row.current_version_id) {
+      const { data: version } = await supabase
+        .from("workflow_versions")
+        .select("definition_json")
+        .eq("id", row.current_version_id)
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (version?.definition_json) {
+        definition = version.definition_json as StoredDefinition;
+      }
     }
-  });
-}
 
-function get(obj: any, path: string): any {
-  return path.split(".").reduce((acc, key) => (acc != null ? acc[key] : undefined), obj);
+    results.push({
+      id: row.id,
+      teamId: row.team_id,
+      name: row.name,
+      description: row.description || "",
+      isActive: row.is_active,
+      trigger: definition.trigger || { type: row.trigger_type as TriggerType, config: {} },
+      triggerType: row.trigger_type as TriggerType,
+      steps: definition.steps || [],
+    });
+  }
+
+  return results;
 }
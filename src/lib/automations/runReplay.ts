@@ -0,0 +1,182 @@
+// src/lib/automations/runReplay.ts
+// Data + helpers for the run debugger: load a past run's step logs with their
+// context snapshots, diff the context across a step, and replay from a step.
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DebuggerRun {
+  id: string;
+  triggerType: string;
+  status: string;
+  errorMessage: string | null;
+  createdAt: string;
+  isDryRun: boolean;
+  replayOfRunId: string | null;
+}
+
+export interface DebuggerStepLog {
+  id: string;
+  stepId: string;
+  actionType: string;
+  status: string;
+  startedAt: string;
+  durationMs: number | null;
+  errorMessage: string | null;
+  skipReason: string | null;
+  input: Record<string, unknown> | null;
+  output: Record<string, unknown> | null;
+  contextBefore: Record<string, unknown> | null;
+  contextAfter: Record<string, unknown> | null;
+}
+
+export type ContextChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ContextChange {
+  path: string;
+  kind: ContextChangeKind;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ReplayResult {
+  replayRunId: string;
+  replayOfRunId: string;
+  fromStepId: string | null;
+  /** step_snapshot = exact context at that step; run_snapshot = trigger context (run predates snapshots) */
+  contextSource: 'step_snapshot' | 'run_snapshot';
+  runStatus: 'success' | 'error';
+  error?: string;
+}
+
+// Recomputed every run, so it always differs and only adds noise to a diff
+const IGNORED_CONTEXT_PATHS = new Set(['now']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Leaf-level diff of two context snapshots, as dot paths. Arrays are compared
+ * as whole values: a tag list that changed is one change, not N index changes.
+ */
+export function diffContext(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  prefix = '',
+): ContextChange[] {
+  const changes: ContextChange[] = [];
+  const a = before || {};
+  const b = after || {};
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])).sort();
+
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (IGNORED_CONTEXT_PATHS.has(path)) continue;
+
+    const inBefore = key in a && a[key] !== undefined;
+    const inAfter = key in b && b[key] !== undefined;
+
+    if (inBefore && inAfter && isPlainObject(a[key]) && isPlainObject(b[key])) {
+      changes.push(...diffContext(a[key], b[key], path));
+    } else if (!inBefore && inAfter) {
+      changes.push({ path, kind: 'added', after: b[key] });
+    } else if (inBefore && !inAfter) {
+      changes.push({ path, kind: 'removed', before: a[key] });
+    } else if (inBefore && JSON.stringify(a[key]) !== JSON.stringify(b[key])) {
+      changes.push({ path, kind: 'changed', before: a[key], after: b[key] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Step logs in execution order. Steps logged through executeWithLogging leave
+ * a 'running' row that is later completed; a leftover 'running' row is only
+ * kept when nothing else was logged for that step (the run died mid-step).
+ */
+export function buildRunTimeline(logs: DebuggerStepLog[]): DebuggerStepLog[] {
+  const settledSteps = new Set(logs.filter((l) => l.status !== 'running').map((l) => l.stepId));
+  return [...logs]
+    .filter((l) => l.status !== 'running' || !settledSteps.has(l.stepId))
+    .sort((x, y) => x.startedAt.localeCompare(y.startedAt));
+}
+
+export async function fetchDebuggerRuns(automationId: string, limit = 25): Promise<DebuggerRun[]> {
+  const { data, error } = await supabase
+    .from('automation_runs')
+    .select('id, trigger_type, status, error_message, created_at, is_dry_run, replay_of_run_id')
+    .eq('automation_id', automationId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('[runReplay] failed to load runs', error);
+    throw error;
+  }
+
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    triggerType: row.trigger_type,
+    status: row.status,
+    errorMessage: row.error_message,
+    createdAt: row.created_at,
+    isDryRun: row.is_dry_run,
+    replayOfRunId: row.replay_of_run_id,
+  }));
+}
+
+export async function fetchRunStepLogs(runId: string): Promise<DebuggerStepLog[]> {
+  const { data, error } = await supabase
+    .from('automation_step_logs')
+    .select(
+      'id, step_id, action_type, status, started_at, duration_ms, error_message, skip_reason, input_snapshot, output_snapshot, context_before, context_after',
+    )
+    .eq('run_id', runId)
+    .order('started_at', { ascending: true });
+
+  if (error) {
+    console.error('[runReplay] failed to load step logs', error);
+    throw error;
+  }
+
+  return buildRunTimeline(
+    (data ?? []).map((row) => ({
+      id: row.id,
+      stepId: row.step_id,
+      actionType: row.action_type,
+      status: row.status,
+      startedAt: row.started_at,
+      durationMs: row.duration_ms,
+      errorMessage: row.error_message,
+      skipReason: row.skip_reason,
+      input: row.input_snapshot as Record<string, unknown> | null,
+      output: row.output_snapshot as Record<string, unknown> | null,
+      contextBefore: row.context_before as Record<string, unknown> | null,
+      contextAfter: row.context_after as Record<string, unknown> | null,
+    })),
+  );
+}
+
+/**
+ * Re-execute a run from a step as a dry run. Messages, payments, webhooks and
+ * delays are simulated; the replay is stored as a new run linked to the original.
+ */
+export async function replayRun(runId: string, fromStepId?: string): Promise<ReplayResult> {
+  const { data, error } = await supabase.functions.invoke('automation-trigger', {
+    body: { replay: { runId, fromStepId } },
+  });
+
+  if (error) throw error;
+  if (data?.status !== 'ok') {
+    throw new Error(data?.error || 'Replay failed');
+  }
+
+  return {
+    replayRunId: data.replayRunId,
+    replayOfRunId: data.replayOfRunId,
+    fromStepId: data.fromStepId,
+    contextSource: data.contextSource,
+    runStatus: data.runStatus,
+    error: data.error,
+  };
+}
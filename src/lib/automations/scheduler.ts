@@ -1,36 +1,107 @@
 // src/lib/automations/scheduler.ts
-import type { TriggerType } from './types';
-import { runAutomationsForTrigger } from './engine';
+import { supabase } from '@/integrations/supabase/client';
 
-export interface ScheduledAutomationJob {
+export type ScheduledJobStatus =
+  | 'pending'
+  | 'processing'
+  | 'waiting_for_event'
+  | 'completed'
+  | 'cancelled'
+  | 'failed'
+  | 'dead_letter';
+
+export interface DeadLetterJob {
   id: string;
   teamId: string;
-  triggerType: TriggerType;
-  runAt: string; // ISO
-  payload: Record<string, any>;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  automationId: string;
+  automationName: string | null;
+  stepId: string | null;
+  status: ScheduledJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  errorMessage: string | null;
+  lastAttemptAt: string | null;
+  deadLetteredAt: string | null;
+  createdAt: string;
+}
+
+export interface ProcessScheduledJobsSummary {
+  processed: number;
+  successful: number;
+  retrying: number;
+  deadLettered: number;
+  scheduledTriggers: number;
 }
 
 /**
- * Time-based / delayed automations.
- * Later this will query a scheduled_automation_jobs table.
+ * Time-based / delayed automations run server-side in process-scheduled-jobs
+ * (pg_cron, every minute). This kicks a run manually, e.g. from an admin tool.
  */
-export async function processDueAutomationJobs() {
-  console.warn('[scheduler] processDueAutomationJobs stub called');
-
-  const jobs: ScheduledAutomationJob[] = [];
-
-  for (const job of jobs) {
-    try {
-      await runAutomationsForTrigger({
-        teamId: job.teamId,
-        triggerType: job.triggerType,
-        eventPayload: job.payload,
-      });
-      // TODO: mark job as completed
-    } catch (error) {
-      console.error('[scheduler] job failed', { jobId: job.id, error });
-      // TODO: mark job as failed
-    }
+export async function processDueAutomationJobs(): Promise<ProcessScheduledJobsSummary> {
+  const { data, error } = await supabase.functions.invoke('process-scheduled-jobs', { body: {} });
+
+  if (error) {
+    console.error('[scheduler] process-scheduled-jobs failed', error);
+    throw error;
+  }
+
+  return {
+    processed: data?.processed ?? 0,
+    successful: data?.successful ?? 0,
+    retrying: data?.retrying ?? 0,
+    deadLettered: data?.deadLettered ?? 0,
+    scheduledTriggers: data?.scheduledTriggers?.length ?? 0,
+  };
+}
+
+export async function fetchDeadLetterJobs(teamId: string, limit = 50): Promise<DeadLetterJob[]> {
+  const { data, error } = await supabase
+    .from('scheduled_automation_jobs_dead_letter')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('[scheduler] failed to load dead-letter jobs', error);
+    throw error;
+  }
+
+  return (data ?? []).map((row) => ({
+    id: row.id!,
+    teamId: row.team_id!,
+    automationId: row.automation_id!,
+    automationName: row.automation_name,
+    stepId: row.step_id,
+    status: row.status as ScheduledJobStatus,
+    attempts: row.attempts ?? 0,
+    maxAttempts: row.max_attempts ?? 0,
+    errorMessage: row.error_message,
+    lastAttemptAt: row.last_attempt_at,
+    deadLetteredAt: row.dead_lettered_at,
+    createdAt: row.created_at!,
+  }));
+}
+
+/** Put a dead-lettered job back on the queue with a fresh attempt budget */
+export async function retryDeadLetterJob(jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('scheduled_automation_jobs')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      resume_at: new Date().toISOString(),
+      error_message: null,
+      dead_lettered_at: null,
+      processed_at: null,
+      locked_by: null,
+      locked_until: null,
+    })
+    .eq('id', jobId)
+    .in('status', ['dead_letter', 'failed']);
+
+  if (error) {
+    console.error('[scheduler] failed to retry job', { jobId, error });
+    throw error;
   }
 }
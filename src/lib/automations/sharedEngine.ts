@@ -0,0 +1,2 @@
+// src/lib/automations/sharedEngine.ts
+export * from "../../../supabase/functions/_shared/automation-engine.ts";
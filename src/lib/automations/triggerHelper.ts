@@ -24,11 +24,44 @@ export interface StepExecutionLog {
   skipReason?: string;
 }
 
+/** A write or outbound call a dry run recorded instead of performing */
+export interface DryRunEffect {
+  stepId: string | null;
+  kind: "http" | "db_write" | "rpc";
+  method: string;
+  target: string;
+  payload?: unknown;
+  filters?: Record<string, unknown>;
+}
+
+export interface DryRunStepReport {
+  stepId: string;
+  actionType: string;
+  category: "messaging" | "payment" | "webhook" | "delay" | "workflow" | null;
+  status: "success" | "error" | "skipped";
+  skipReason?: string;
+  error?: string;
+  channel?: string;
+  to?: string;
+  renderedBody?: string;
+  templateWarnings?: string[];
+  effects: DryRunEffect[];
+}
+
+export interface DryRunReport {
+  automationId: string;
+  automationName: string;
+  runId: string;
+  steps: DryRunStepReport[];
+  totals: { steps: number; http: number; dbWrites: number; rpc: number };
+}
+
 export interface AutomationTriggerResponse {
   status: "ok" | "error";
   triggerType: TriggerType;
   automationsRun: string[];
   stepsExecuted: StepExecutionLog[];
+  dryRunReports?: DryRunReport[];
   error?: string;
 }
 
@@ -100,13 +133,22 @@ export async function runAutomationsForEvent(
  * @param teamId - The team that owns the automation
  * @param contactId - Optional contact ID to run the automation against
  * @param appointmentId - Optional appointment ID for appointment-based context
+ * @param options.dryRun - Run against real data without sending or writing anything;
+ *   the result carries a report of what each step would have done
  */
 export async function runAutomationManually(
   automationId: string,
   teamId: string,
   contactId?: string,
   appointmentId?: string,
-): Promise<{ success: boolean; automationsRun?: string[]; runId?: string; error?: string }> {
+  options: { dryRun?: boolean } = {},
+): Promise<{
+  success: boolean;
+  automationsRun?: string[];
+  runId?: string;
+  dryRunReports?: DryRunReport[];
+  error?: string;
+}> {
   try {
     // Build event payload with contact and/or appointment data
     const eventPayload: Record<string, any> = {
@@ -154,6 +196,7 @@ export async function runAutomationManually(
         teamId,
         eventPayload,
         automationId, // Target specific automation
+        dryRun: options.dryRun === true,
       },
     });
 
@@ -165,6 +208,7 @@ export async function runAutomationManually(
     return {
       success: response.status === "ok",
       automationsRun: response.automationsRun,
+      dryRunReports: response.dryRunReports,
       error: response.error,
     };
   } catch (err) {
@@ -20,6 +20,7 @@ export type TriggerType =
   | 'survey_submitted'
   | 'quiz_submitted'
   | 'funnel_page_view'
+  | 'funnel_abandoned'
   | 'trigger_link_clicked'
   // Appointment triggers
   | 'appointment_booked'
@@ -27,6 +28,7 @@ export type TriggerType =
   | 'appointment_no_show'
   | 'appointment_completed'
   | 'appointment_canceled'
+  | 'waitlist_updated'
   // Task triggers
   | 'task_added'
   | 'task_reminder'
@@ -428,6 +430,7 @@ export interface AutomationStep {
   falseBranchStepId?: string;
   // For split testing
   variantStepIds?: Record<string, string>;
+  variants?: SplitTestConfig['variants'];
 }
 
 export interface AutomationDefinition {
@@ -515,6 +518,7 @@ export const TRIGGER_META: Record<TriggerType, TriggerMeta> = {
   survey_submitted: { type: 'survey_submitted', label: 'Survey Submitted', description: 'When a survey is completed', icon: 'ClipboardCheck', category: 'form' },
   quiz_submitted: { type: 'quiz_submitted', label: 'Quiz Submitted', description: 'When a quiz is completed', icon: 'HelpCircle', category: 'form' },
   funnel_page_view: { type: 'funnel_page_view', label: 'Page Viewed', description: 'When a funnel page is viewed', icon: 'Eye', category: 'form' },
+  funnel_abandoned: { type: 'funnel_abandoned', label: 'Funnel Abandoned', description: 'When a partial lead goes idle before submitting', icon: 'UserMinus', category: 'form' },
   trigger_link_clicked: { type: 'trigger_link_clicked', label: 'Trigger Link Clicked', description: 'When a tracked link is clicked', icon: 'MousePointerClick', category: 'form' },
   
   // Appointment triggers
@@ -523,6 +527,7 @@ export const TRIGGER_META: Record<TriggerType, TriggerMeta> = {
   appointment_no_show: { type: 'appointment_no_show', label: 'No Show', description: 'When lead misses appointment', icon: 'UserX', category: 'appointment' },
   appointment_completed: { type: 'appointment_completed', label: 'Appointment Completed', description: 'When appointment is marked complete', icon: 'CalendarCheck', category: 'appointment' },
   appointment_canceled: { type: 'appointment_canceled', label: 'Appointment Canceled', description: 'When appointment is canceled', icon: 'CalendarX', category: 'appointment' },
+  waitlist_updated: { type: 'waitlist_updated', label: 'Waitlist Updated', description: 'When someone joins a waitlist, is offered a slot, claims it or lets it expire', icon: 'ListPlus', category: 'appointment' },
   
   // Task triggers
   task_added: { type: 'task_added', label: 'Task Added', description: 'When a task is created', icon: 'ListPlus', category: 'task' },
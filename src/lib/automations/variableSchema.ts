@@ -1,6 +1,13 @@
 // src/lib/automations/variableSchema.ts
 // GHL-grade variable schema for template pickers
 
+import {
+  CUSTOM_FIELD_TYPES,
+  getConditionValueType,
+  sortCustomFields,
+  type CustomFieldDefinition,
+} from "@/lib/customFields";
+
 export interface VariableDefinition {
   key: string;
   label: string;
@@ -159,6 +166,21 @@ export function getVariableByKey(key: string): VariableDefinition | undefined {
   return getAllVariables().find((v) => v.key === key);
 }
 
+// --- Team custom fields ---
+// Typed definitions from team settings. Templates reach them through
+// "contact.", conditions evaluate against the raw context and use "lead.".
+export function getCustomFieldVariables(
+  definitions: CustomFieldDefinition[],
+  prefix: "contact" | "lead" = "contact",
+): VariableDefinition[] {
+  return sortCustomFields(definitions).map((definition) => ({
+    key: `${prefix}.custom_fields.${definition.key}`,
+    label: definition.label,
+    description: CUSTOM_FIELD_TYPES.find((type) => type.value === definition.field_type)?.label,
+    type: getConditionValueType(definition.field_type),
+  }));
+}
+
 // --- Condition Operators by Type ---
 export interface OperatorDefinition {
   value: string;
@@ -199,6 +221,7 @@ export const DATE_OPERATORS: OperatorDefinition[] = [
   { value: "within_last_minutes", label: "Within last X minutes", requiresValue: true, valueType: "number" },
   { value: "within_last_hours", label: "Within last X hours", requiresValue: true, valueType: "number" },
   { value: "within_last_days", label: "Within last X days", requiresValue: true, valueType: "number" },
+  { value: "date_past_days", label: "More than X days ago", requiresValue: true, valueType: "number" },
   { value: "after_now_minutes", label: "More than X minutes from now", requiresValue: true, valueType: "number" },
   { value: "day_of_week_is", label: "Day of week is", requiresValue: true, valueType: "string" },
   { value: "month_is", label: "Month is", requiresValue: true, valueType: "number" },
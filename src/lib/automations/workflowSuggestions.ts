@@ -33,11 +33,21 @@ const TRIGGER_SUGGESTIONS: Partial<Record<TriggerType, SuggestedAction[]>> = {
     { type: "add_task", label: "Create Follow-Up Task", description: "Assign team member to reach out", priority: 2 },
     { type: "send_message", label: "Win-Back Message", description: "Try to re-engage", priority: 3 },
   ],
+  waitlist_updated: [
+    { type: "send_message", label: "Confirm Waitlist Spot", description: "Let them know they're in line", priority: 1 },
+    { type: "add_tag", label: "Tag Waitlisted", description: "Track waitlisted contacts", priority: 2 },
+    { type: "notify_team", label: "Alert Team", description: "Flag demand for more availability", priority: 3 },
+  ],
   form_submitted: [
     { type: "send_message", label: "Welcome Message", description: "Thank them for submitting", priority: 1 },
     { type: "add_tag", label: "Tag New Lead", description: "Categorize the lead", priority: 2 },
     { type: "notify_team", label: "Alert Team", description: "Notify about new submission", priority: 3 },
   ],
+  funnel_abandoned: [
+    { type: "send_message", label: "Recovery SMS", description: "Invite them back to finish", priority: 1 },
+    { type: "time_delay", label: "Wait Before Follow-Up", description: "Space out the recovery sequence", priority: 2 },
+    { type: "send_email", label: "Recovery Email", description: "Remind them what they started", priority: 3 },
+  ],
   lead_created: [
     { type: "send_message", label: "Welcome SMS", description: "First touch with the lead", priority: 1 },
     { type: "add_tag", label: "Add Source Tag", description: "Track lead origin", priority: 2 },
@@ -0,0 +1,182 @@
+// src/lib/automations/workflowVersions.ts
+// Structural diff between two published workflow versions, and the plan for
+// moving contacts that are mid-flow on an older version onto a new one.
+import { diffContext, type ContextChange } from './runReplay';
+import type { ActionType, AutomationStep } from './types';
+
+/** The part of workflow_versions.definition_json the diff and migration care about */
+export interface VersionDefinition {
+  trigger?: { type: string; config?: Record<string, unknown> };
+  steps?: AutomationStep[];
+}
+
+export type StepChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface StepDiff {
+  stepId: string;
+  kind: StepChangeKind;
+  type: ActionType;
+  before?: AutomationStep;
+  after?: AutomationStep;
+  /** Field-level changes (config.body, order, conditions ...) for 'changed' steps */
+  changes: ContextChange[];
+}
+
+export interface WorkflowVersionDiff {
+  trigger: {
+    typeChanged: boolean;
+    before?: string;
+    after?: string;
+    changes: ContextChange[];
+  };
+  steps: StepDiff[];
+  summary: { added: number; removed: number; changed: number };
+}
+
+function sortedSteps(definition: VersionDefinition | null | undefined): AutomationStep[] {
+  return [...(definition?.steps || [])].sort((a, b) => a.order - b.order);
+}
+
+/** A step without its id, so the diff paths read as fields (config.body, order ...) */
+function stepFields(step: AutomationStep): Record<string, unknown> {
+  const { id: _id, ...fields } = step;
+  return fields;
+}
+
+/**
+ * Diff two version definitions. Steps are matched by id: a step whose id only
+ * exists on one side is added/removed, even if an equivalent step replaced it.
+ * Steps come back in the newer version's order, with removed steps last.
+ */
+export function diffWorkflowVersions(
+  before: VersionDefinition | null | undefined,
+  after: VersionDefinition | null | undefined,
+): WorkflowVersionDiff {
+  const beforeSteps = sortedSteps(before);
+  const afterSteps = sortedSteps(after);
+  const beforeById = new Map(beforeSteps.map((s) => [s.id, s]));
+  const afterIds = new Set(afterSteps.map((s) => s.id));
+
+  const steps: StepDiff[] = afterSteps.map((step) => {
+    const previous = beforeById.get(step.id);
+    if (!previous) {
+      return { stepId: step.id, kind: 'added', type: step.type, after: step, changes: [] };
+    }
+    const changes = diffContext(stepFields(previous), stepFields(step));
+    return {
+      stepId: step.id,
+      kind: changes.length > 0 ? 'changed' : 'unchanged',
+      type: step.type,
+      before: previous,
+      after: step,
+      changes,
+    };
+  });
+
+  for (const step of beforeSteps) {
+    if (!afterIds.has(step.id)) {
+      steps.push({ stepId: step.id, kind: 'removed', type: step.type, before: step, changes: [] });
+    }
+  }
+
+  const triggerBefore = before?.trigger?.type;
+  const triggerAfter = after?.trigger?.type;
+
+  return {
+    trigger: {
+      typeChanged: triggerBefore !== triggerAfter,
+      before: triggerBefore,
+      after: triggerAfter,
+      changes: diffContext(before?.trigger?.config, after?.trigger?.config, 'config'),
+    },
+    steps,
+    summary: {
+      added: steps.filter((s) => s.kind === 'added').length,
+      removed: steps.filter((s) => s.kind === 'removed').length,
+      changed: steps.filter((s) => s.kind === 'changed').length,
+    },
+  };
+}
+
+// ============================================
+// IN-FLIGHT MIGRATION
+// ============================================
+
+/** What publishing does with contacts mid-flow on an older version */
+export type InFlightPolicy = 'keep' | 'migrate' | 'exit';
+
+/** Old step id → step id on the new version; null exits contacts waiting at that step */
+export type StepIdMap = Record<string, string | null>;
+
+/** A delayed job still waiting to resume, as the editor sees it */
+export interface InFlightJob {
+  id: string;
+  workflowVersionId: string | null;
+  /** First step the job will run when it resumes (null = nothing left to run) */
+  resumeStepId: string | null;
+}
+
+export interface JobMigration {
+  jobId: string;
+  action: 'move' | 'exit';
+  /** Step ids on the new version from the resume step onward (what the job runs next) */
+  remainingSteps: string[];
+}
+
+/** Resume step recorded in a job's context_snapshot by the delay that scheduled it */
+export function getResumeStepId(contextSnapshot: Record<string, unknown> | null | undefined): string | null {
+  const remaining = contextSnapshot?.remainingSteps;
+  return Array.isArray(remaining) && remaining.length > 0 ? remaining[0] : null;
+}
+
+/**
+ * Where a contact waiting at `stepId` lands on the new version: the mapped step
+ * if the map has an entry, otherwise the same id if it still exists. Null means
+ * there is nowhere to put them and they exit.
+ */
+export function resolveMappedStep(
+  stepId: string,
+  stepMap: StepIdMap,
+  newSteps: AutomationStep[],
+): string | null {
+  const target = stepId in stepMap ? stepMap[stepId] : stepId;
+  if (!target) return null;
+  return newSteps.some((s) => s.id === target) ? target : null;
+}
+
+/** Steps contacts are waiting at that don't exist on the new version (the ones that need a mapping) */
+export function getUnmappedResumeSteps(jobs: InFlightJob[], newSteps: AutomationStep[]): string[] {
+  const newIds = new Set(newSteps.map((s) => s.id));
+  const missing = new Set<string>();
+  for (const job of jobs) {
+    if (job.resumeStepId && !newIds.has(job.resumeStepId)) missing.add(job.resumeStepId);
+  }
+  return Array.from(missing);
+}
+
+/**
+ * Per-job moves for the 'migrate' policy. Jobs already on the new version are
+ * left alone; jobs with nothing left to run move over as-is.
+ */
+export function planJobMigrations(
+  jobs: InFlightJob[],
+  stepMap: StepIdMap,
+  newVersionId: string,
+  newDefinition: VersionDefinition,
+): JobMigration[] {
+  const newSteps = sortedSteps(newDefinition);
+
+  return jobs
+    .filter((job) => job.workflowVersionId !== newVersionId)
+    .map((job) => {
+      if (!job.resumeStepId) {
+        return { jobId: job.id, action: 'move', remainingSteps: [] };
+      }
+      const target = resolveMappedStep(job.resumeStepId, stepMap, newSteps);
+      if (!target) {
+        return { jobId: job.id, action: 'exit', remainingSteps: [] };
+      }
+      const index = newSteps.findIndex((s) => s.id === target);
+      return { jobId: job.id, action: 'move', remainingSteps: newSteps.slice(index).map((s) => s.id) };
+    });
+}
@@ -0,0 +1,2 @@
+// src/lib/bookingIntake.ts
+export * from "../../supabase/functions/_shared/intake-routing.ts";
@@ -0,0 +1,2 @@
+// src/lib/contactDedupe.ts
+export * from "../../supabase/functions/_shared/contact-dedupe.ts";
@@ -0,0 +1,2 @@
+// src/lib/contactSegments.ts
+export * from "../../supabase/functions/_shared/contact-segments.ts";
@@ -0,0 +1,2 @@
+// src/lib/conversations.ts
+export * from "../../supabase/functions/_shared/conversations.ts";
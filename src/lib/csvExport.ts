@@ -4,10 +4,19 @@
  */
 
 export interface ExportColumn {
+  /** Row property; dot paths like "custom_fields.budget" read nested values */
   key: string;
   label: string;
 }
 
+function readColumn(row: unknown, key: string): unknown {
+  const record = (row ?? {}) as Record<string, unknown>;
+  if (key in record) return record[key];
+  return key
+    .split(".")
+    .reduce<unknown>((value, part) => (value == null ? undefined : (value as Record<string, unknown>)[part]), row);
+}
+
 export function generateCSV(data: any[], columns: ExportColumn[]): string {
   if (data.length === 0) return "";
 
@@ -17,7 +26,7 @@ export function generateCSV(data: any[], columns: ExportColumn[]): string {
   // Create data rows
   const rows = data.map(row => {
     return columns.map(col => {
-      const value = row[col.key];
+      const value = readColumn(row, col.key);
       return escapeCSVValue(formatValue(value));
     }).join(",");
   });
@@ -41,6 +50,7 @@ function formatValue(value: any): string {
   if (typeof value === "boolean") return value ? "Yes" : "No";
   if (value instanceof Date) return value.toISOString();
   if (typeof value === "number") return value.toString();
+  if (Array.isArray(value)) return value.map(formatValue).join("; ");
   return String(value);
 }
 
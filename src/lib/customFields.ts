@@ -0,0 +1,2 @@
+// src/lib/customFields.ts
+export * from "../../supabase/functions/_shared/custom-fields.ts";
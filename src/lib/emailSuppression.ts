@@ -0,0 +1,2 @@
+// src/lib/emailSuppression.ts
+export * from "../../supabase/functions/_shared/email-suppression.ts";
@@ -0,0 +1,2 @@
+// src/lib/messagingConsent.ts
+export * from "../../supabase/functions/_shared/messaging-consent.ts";
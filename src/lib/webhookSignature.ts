@@ -0,0 +1,2 @@
+// src/lib/webhookSignature.ts
+export * from "../../supabase/functions/_shared/webhook-signature.ts";
@@ -4,13 +4,17 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { AutomationEditorShell } from "@/components/automations/editor/AutomationEditorShell";
+import { PublishVersionDialog } from "@/components/automations/editor/PublishVersionDialog";
 import type { AutomationDefinition, TriggerType } from "@/lib/automations/types";
 import { Loader2 } from "lucide-react";
 import {
   useLatestVersion,
+  useVersionHistory,
+  useInFlightContacts,
   usePublishVersion,
   getPublishStatus,
 } from "@/hooks/useAutomationVersioning";
+import type { InFlightPolicy, StepIdMap } from "@/lib/automations/workflowVersions";
 
 const DEFAULT_DEFINITION: AutomationDefinition = {
   id: "",
@@ -33,6 +37,7 @@ export default function AutomationEditor() {
 
   const [name, setName] = useState("");
   const [definition, setDefinition] = useState<AutomationDefinition>(DEFAULT_DEFINITION);
+  const [publishDialogOpen, setPublishDialogOpen] = useState(false);
 
   // Fetch existing automation
   const { data: automation, isLoading } = useQuery({
@@ -53,6 +58,10 @@ export default function AutomationEditor() {
   // Fetch latest published version
   const { data: latestVersion } = useLatestVersion(isNew ? null : automationId || null);
   
+  // Contacts mid-flow on the current version(s) — publishing asks what to do with them
+  const { data: versions = [] } = useVersionHistory(isNew ? null : automationId || null);
+  const { data: inFlight } = useInFlightContacts(isNew ? null : automationId || null);
+
   // Publish mutation
   const publishMutation = usePublishVersion(isNew ? null : automationId || null, teamId || "");
 
@@ -148,6 +157,12 @@ export default function AutomationEditor() {
     saveMutation.mutate();
   };
 
+  const getFinalDefinition = (): AutomationDefinition => ({
+    ...definition,
+    teamId: teamId || "",
+    name,
+  });
+
   const handlePublish = async () => {
     if (!name.trim()) {
       toast.error("Name is required");
@@ -164,12 +179,19 @@ export default function AutomationEditor() {
     }
     // Ensure we save latest changes before publishing
     await saveMutation.mutateAsync();
-    const finalDefinition: AutomationDefinition = {
-      ...definition,
-      teamId: teamId || "",
-      name,
-    };
-    publishMutation.mutate(finalDefinition);
+    // Only an update to a live workflow can have contacts mid-flow on an older version
+    if (latestVersion && inFlight && (inFlight.jobs.length > 0 || inFlight.activeEnrollments > 0)) {
+      setPublishDialogOpen(true);
+      return;
+    }
+    publishMutation.mutate({ definition: getFinalDefinition() });
+  };
+
+  const handleConfirmPublish = (choice: { policy: InFlightPolicy; stepMap?: StepIdMap }) => {
+    publishMutation.mutate(
+      { definition: getFinalDefinition(), inFlight: choice },
+      { onSettled: () => setPublishDialogOpen(false) },
+    );
   };
 
   const handleBack = () => {
@@ -185,22 +207,35 @@ export default function AutomationEditor() {
   }
 
   return (
-    <AutomationEditorShell
-      teamId={teamId || ""}
-      definition={definition}
-      onChange={setDefinition}
-      name={name}
-      onNameChange={setName}
-      onSave={handleSave}
-      onPublish={handlePublish}
-      onBack={handleBack}
-      isSaving={saveMutation.isPending}
-      isPublishing={publishMutation.isPending}
-      isNew={isNew}
-      automationId={isNew ? null : automationId || null}
-      publishStatus={publishStatus}
-      currentVersionNumber={latestVersion?.version_number || null}
-      currentVersionId={automation?.current_version_id || null}
-    />
+    <>
+      <AutomationEditorShell
+        teamId={teamId || ""}
+        definition={definition}
+        onChange={setDefinition}
+        name={name}
+        onNameChange={setName}
+        onSave={handleSave}
+        onPublish={handlePublish}
+        onBack={handleBack}
+        isSaving={saveMutation.isPending}
+        isPublishing={publishMutation.isPending}
+        isNew={isNew}
+        automationId={isNew ? null : automationId || null}
+        publishStatus={publishStatus}
+        currentVersionNumber={latestVersion?.version_number || null}
+        currentVersionId={automation?.current_version_id || null}
+      />
+      {inFlight && (
+        <PublishVersionDialog
+          open={publishDialogOpen}
+          onOpenChange={setPublishDialogOpen}
+          definition={getFinalDefinition()}
+          inFlight={inFlight}
+          versions={versions}
+          isPublishing={publishMutation.isPending}
+          onConfirm={handleConfirmPublish}
+        />
+      )}
+    </>
   );
 }
@@ -153,13 +153,13 @@ export default function Calendars() {
           .eq("id", calendar.id);
       }
 
-      // 3. Seed default availability if none exists
+      // 3. Seed default availability if none exists. Days switched off are rows
+      // too, so any row means the team already has a schedule.
       const { data: avail } = await supabase
         .from("availability_schedules" as any)
         .select("id")
         .eq("team_id", teamId)
         .is("user_id", null)
-        .eq("is_available", true)
         .limit(1);
 
       if (!avail || avail.length === 0) {
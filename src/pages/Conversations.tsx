@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Loader2, Inbox } from "lucide-react";
+import {
+  ConversationList,
+  type Conversation,
+  type ConversationFilter,
+  type ConversationMember,
+} from "@/components/conversations/ConversationList";
+import { ConversationThread } from "@/components/conversations/ConversationThread";
+import { getContactDisplayName } from "@/lib/conversations";
+
+export default function Conversations() {
+  const { teamId } = useParams();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ConversationFilter>("all");
+  const [search, setSearch] = useState("");
+
+  const { data: conversations = [], isLoading } = useQuery({
+    queryKey: ["conversations", teamId],
+    enabled: !!teamId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("conversations")
+        .select("*, contacts(id, name, first_name, last_name, email, phone)")
+        .eq("team_id", teamId!)
+        .order("last_message_at", { ascending: false, nullsFirst: false })
+        .limit(500);
+
+      if (error) throw error;
+      return ((data || []) as unknown as Conversation[]).filter((c) => c.contacts);
+    },
+  });
+
+  const { data: members = [] } = useQuery({
+    queryKey: ["conversation-members", teamId],
+    enabled: !!teamId,
+    queryFn: async () => {
+      const { data: teamMembers, error } = await supabase
+        .from("team_members")
+        .select("user_id")
+        .eq("team_id", teamId!);
+      if (error) throw error;
+
+      const userIds = (teamMembers || []).map((m) => m.user_id);
+      if (userIds.length === 0) return [];
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("id, full_name, email")
+        .in("id", userIds);
+      if (profilesError) throw profilesError;
+
+      return userIds.map((id): ConversationMember => {
+        const profile = profiles?.find((p) => p.id === id);
+        return { id, name: profile?.full_name || profile?.email || "Unknown" };
+      });
+    },
+  });
+
+  // New inbound messages and assignment changes from other setters
+  useEffect(() => {
+    if (!teamId) return;
+    const channel = supabase
+      .channel(`conversations-${teamId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "conversations", filter: `team_id=eq.${teamId}` },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["conversations", teamId] });
+          queryClient.invalidateQueries({ queryKey: ["conversation-messages", teamId] });
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [teamId, queryClient]);
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return conversations.filter((conversation) => {
+      if (filter === "unread" && conversation.unread_count === 0) return false;
+      if (filter === "mine" && conversation.assigned_to !== user?.id) return false;
+      if (filter === "unassigned" && conversation.assigned_to) return false;
+      if (!term) return true;
+      const contact = conversation.contacts;
+      return [getContactDisplayName(contact), contact.email, contact.phone]
+        .some((value) => value?.toLowerCase().includes(term));
+    });
+  }, [conversations, filter, search, user?.id]);
+
+  const selected = conversations.find((c) => c.id === selectedId) || null;
+
+  if (!teamId) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <p className="text-muted-foreground">No team selected</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-[calc(100vh-4rem)] flex border-t border-border">
+      <div className="w-80 shrink-0 border-r border-border flex flex-col">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ConversationList
+            conversations={visible}
+            members={members}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+            filter={filter}
+            onFilterChange={setFilter}
+            search={search}
+            onSearchChange={setSearch}
+          />
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        {selected ? (
+          <ConversationThread key={selected.id} teamId={teamId} conversation={selected} members={members} />
+        ) : (
+          <div className="h-full flex flex-col items-center justify-center gap-2 text-muted-foreground">
+            <Inbox className="h-10 w-10" />
+            <p className="text-sm">Select a conversation</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import {
   LayoutGrid, List, Link2, MoreHorizontal, Star, BarChart3,
   MessageSquare, Calendar, Download, TrendingUp, TrendingDown,
   Phone, Mail, CheckCircle, ArrowLeft, Globe, Settings,
-  ChevronRight, Archive, FolderInput, Loader2, RefreshCw
+  ChevronRight, Archive, FolderInput, Loader2, RefreshCw, Filter
 } from 'lucide-react';
 import { DomainsSection } from '@/components/funnel-builder/DomainsSection';
 import { FunnelSettingsDialog } from '@/components/funnel-builder/FunnelSettingsDialog';
@@ -21,9 +21,14 @@ import { useTeamRole } from '@/hooks/useTeamRole';
 import { format, formatDistanceToNow, subDays, startOfDay } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { generateCSV, downloadCSV, FUNNEL_LEAD_COLUMNS, CONTACT_COLUMNS } from '@/lib/csvExport';
+import { getCustomFieldExportColumns } from '@/lib/customFields';
+import { useCustomFields } from '@/hooks/useCustomFields';
 import { FunnelDropOffChart } from '@/components/funnel-analytics/FunnelDropOffChart';
 import { LeadsVsVisitorsChart } from '@/components/funnel-analytics/LeadsVsVisitorsChart';
+import { StepSplitTestResults } from '@/components/funnel-analytics/StepSplitTestResults';
 import { ContactDetailDrawer } from '@/components/funnel-analytics/ContactDetailDrawer';
+import { ContactDuplicatesDialog } from '@/components/funnel-analytics/ContactDuplicatesDialog';
+import { ContactSegmentsDialog } from '@/components/funnel-analytics/ContactSegmentsDialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -174,6 +179,7 @@ export default function FunnelList() {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const { isAdmin } = useTeamRole(teamId);
+  const { data: customFields = [] } = useCustomFields(teamId);
   
   const [activeTab, setActiveTab] = useState<TabType>('funnels');
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
@@ -183,6 +189,8 @@ export default function FunnelList() {
   const [selectedFunnelId, setSelectedFunnelId] = useState<string>('all');
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [contactToDelete, setContactToDelete] = useState<Contact | null>(null);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [segmentsOpen, setSegmentsOpen] = useState(false);
   const [settingsFunnel, setSettingsFunnel] = useState<Funnel | null>(null);
   const [renameFunnel, setRenameFunnel] = useState<Funnel | null>(null);
   const [renameValue, setRenameValue] = useState('');
@@ -804,7 +812,7 @@ export default function FunnelList() {
 
   const exportContacts = () => {
     if (!contacts?.length) return;
-    const csv = generateCSV(contacts, CONTACT_COLUMNS);
+    const csv = generateCSV(contacts, [...CONTACT_COLUMNS, ...getCustomFieldExportColumns(customFields)]);
     downloadCSV(csv, `contacts-${format(now, 'yyyy-MM-dd')}.csv`);
     toast({ title: 'Contacts exported' });
   };
@@ -1442,6 +1450,13 @@ export default function FunnelList() {
                 }
               />
             </div>
+
+            {/* Step split tests (v3 funnels) */}
+            {selectedFunnelId !== 'all' && (
+              <div className="mb-8">
+                <StepSplitTestResults funnelId={selectedFunnelId} />
+              </div>
+            )}
               </>
             )}
 
@@ -1480,6 +1495,18 @@ export default function FunnelList() {
                     </>
                   )}
                 </Button>
+                {isAdmin && (
+                  <Button variant="outline" onClick={() => setSegmentsOpen(true)}>
+                    <Filter className="h-4 w-4 mr-2" />
+                    Segments
+                  </Button>
+                )}
+                {isAdmin && (
+                  <Button variant="outline" onClick={() => setDuplicatesOpen(true)}>
+                    <Users className="h-4 w-4 mr-2" />
+                    Find duplicates
+                  </Button>
+                )}
                 {isAdmin && (
                   <Button variant="outline" onClick={exportContacts} disabled={!contacts?.length}>
                     <Download className="h-4 w-4 mr-2" />
@@ -1694,6 +1721,22 @@ export default function FunnelList() {
           teamId={teamId}
         />
 
+        {isAdmin && teamId && (
+          <ContactDuplicatesDialog
+            open={duplicatesOpen}
+            onOpenChange={setDuplicatesOpen}
+            teamId={teamId}
+          />
+        )}
+
+        {isAdmin && teamId && (
+          <ContactSegmentsDialog
+            open={segmentsOpen}
+            onOpenChange={setSegmentsOpen}
+            teamId={teamId}
+          />
+        )}
+
         {/* Domains Tab */}
         {activeTab === 'domains' && (
           <DomainsSection teamId={teamId!} />
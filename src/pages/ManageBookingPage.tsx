@@ -23,7 +23,8 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import BookingCalendar from "@/components/scheduling/BookingCalendar";
 import TimeSlotPicker from "@/components/scheduling/TimeSlotPicker";
-import type { TimeSlot, SlotsResponse } from "@/hooks/useBookingSlots";
+import { useMonthSlots } from "@/hooks/useBookingSlots";
+import type { TimeSlot } from "@/hooks/useBookingSlots";
 
 type ManageStep = "view" | "reschedule-date" | "reschedule-time" | "cancelled" | "rescheduled";
 
@@ -39,11 +40,19 @@ export default function ManageBookingPage() {
 
   // Reschedule state
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
-  const [slots, setSlots] = useState<TimeSlot[]>([]);
-  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [visibleMonth, setVisibleMonth] = useState<Date>(new Date());
 
   const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
+  // Slots for the whole visible month in one request
+  const { data: monthSlots, isLoading: slotsLoading } = useMonthSlots(
+    step === "reschedule-date" || step === "reschedule-time" ? appointment?.appointment_type_id : undefined,
+    format(visibleMonth, "yyyy-MM"),
+    timezone
+  );
+  const selectedDay = selectedDate ? monthSlots?.days[format(selectedDate, "yyyy-MM-dd")] : undefined;
+  const slots = selectedDay?.slots || [];
+
   // Load appointment by token
   useEffect(() => {
     async function load() {
@@ -74,39 +83,6 @@ export default function ManageBookingPage() {
     if (token) load();
   }, [token]);
 
-  // Fetch slots when date selected for reschedule
-  useEffect(() => {
-    if (!selectedDate || !appointment?.appointment_type_id) return;
-
-    async function fetchSlots() {
-      setSlotsLoading(true);
-      try {
-        const dateStr = format(selectedDate!, "yyyy-MM-dd");
-        const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-        const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-
-        const url = `${supabaseUrl}/functions/v1/get-available-slots?event_type_id=${appointment.appointment_type_id}&date=${dateStr}&timezone=${encodeURIComponent(timezone)}`;
-
-        const response = await fetch(url, {
-          headers: { apikey: supabaseKey },
-        });
-
-        if (response.ok) {
-          const data: SlotsResponse = await response.json();
-          setSlots(data.slots || []);
-        } else {
-          setSlots([]);
-        }
-      } catch {
-        setSlots([]);
-      } finally {
-        setSlotsLoading(false);
-      }
-    }
-
-    fetchSlots();
-  }, [selectedDate, appointment]);
-
   const handleCancel = async () => {
     setCancelling(true);
     try {
@@ -299,8 +275,12 @@ export default function ManageBookingPage() {
                 selectedDate={selectedDate}
                 onDateSelect={(date) => {
                   setSelectedDate(date);
+                  setVisibleMonth(date);
                   setStep("reschedule-time");
                 }}
+                month={visibleMonth}
+                onMonthChange={setVisibleMonth}
+                availableDates={monthSlots?.available_dates}
               />
             </div>
           )}
@@ -328,6 +308,7 @@ export default function ManageBookingPage() {
                 slots={slots}
                 onTimeSelect={(slot) => handleReschedule(slot)}
                 isLoading={slotsLoading || rescheduling}
+                debugInfo={selectedDay}
               />
             </div>
           )}
@@ -1,11 +1,14 @@
 // src/pages/PublicBookingPage.tsx
 // Public booking page at /book/:teamSlug/:eventSlug
 // No auth required — clean, minimal, mobile-first booking experience
+// Event types with routing rules ask their intake questions first, then route the
+// invitee to another event type, a specific host, or a polite rejection.
+// Event types with a waitlist let invitees queue for a fully booked date or the first opening.
 
 import { useState, useEffect } from "react";
-import { useParams } from "react-router-dom";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import { format } from "date-fns";
-import { ArrowLeft, Clock, MapPin, Loader2, AlertCircle, CalendarX2 } from "lucide-react";
+import { ArrowLeft, Clock, MapPin, Loader2, AlertCircle, CalendarX2, Users, Info, ListPlus, CheckCircle2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -17,9 +20,18 @@ import BookingCalendar from "@/components/scheduling/BookingCalendar";
 import TimeSlotPicker from "@/components/scheduling/TimeSlotPicker";
 import BookingForm from "@/components/scheduling/BookingForm";
 import BookingConfirmation from "@/components/scheduling/BookingConfirmation";
-import type { TimeSlot, SlotsResponse, BookingConfirmation as BookingConfirmationType } from "@/hooks/useBookingSlots";
-
-type BookingStep = "date" | "time" | "form" | "confirmed";
+import WaitlistForm from "@/components/scheduling/WaitlistForm";
+import { getFullyBookedDates, useJoinWaitlist, useMonthSlots } from "@/hooks/useBookingSlots";
+import type { TimeSlot, BookingConfirmation as BookingConfirmationType } from "@/hooks/useBookingSlots";
+import {
+  evaluateIntakeRouting,
+  getRejectMessage,
+  type IntakeAnswers,
+  normalizeIntakeQuestions,
+  normalizeRoutingRules,
+} from "@/lib/bookingIntake";
+
+type BookingStep = "intake" | "date" | "time" | "form" | "confirmed" | "rejected" | "waitlist" | "waitlisted";
 
 const LOCATION_LABELS: Record<string, string> = {
   zoom: "Zoom Meeting",
@@ -31,6 +43,10 @@ const LOCATION_LABELS: Record<string, string> = {
 
 export default function PublicBookingPage() {
   const { teamSlug, eventSlug } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Answers carried over when a routing rule sent the invitee here from another event type
+  const carriedAnswers = (location.state as { intakeAnswers?: IntakeAnswers } | null)?.intakeAnswers;
   const [step, setStep] = useState<BookingStep>("date");
   const [eventType, setEventType] = useState<any>(null);
   const [teamName, setTeamName] = useState<string>("");
@@ -38,19 +54,36 @@ export default function PublicBookingPage() {
   const [error, setError] = useState<string | null>(null);
 
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
-  const [slots, setSlots] = useState<TimeSlot[]>([]);
-  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [visibleMonth, setVisibleMonth] = useState<Date>(new Date());
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [confirmation, setConfirmation] = useState<BookingConfirmationType | null>(null);
   const [bookingError, setBookingError] = useState<string | null>(null);
+  const [intakeAnswers, setIntakeAnswers] = useState<IntakeAnswers>({});
+  const [intakeDone, setIntakeDone] = useState(false);
+  const [routedHostId, setRoutedHostId] = useState<string | null>(null);
+  const [rejectMessage, setRejectMessage] = useState<string | null>(null);
+  const [routing, setRouting] = useState(false);
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+  const joinWaitlist = useJoinWaitlist();
   const [selectedTimezone, setSelectedTimezone] = useState<string>(
     Intl.DateTimeFormat().resolvedOptions().timeZone
   );
-  const [slotsDebugInfo, setSlotsDebugInfo] = useState<any>(null);
 
   const timezone = selectedTimezone;
 
+  // One request per visible month: per-day slots plus the days that have any
+  const { data: monthSlots, isLoading: slotsLoading } = useMonthSlots(
+    eventType?.id,
+    format(visibleMonth, "yyyy-MM"),
+    timezone,
+    routedHostId
+  );
+  const selectedDay = selectedDate ? monthSlots?.days[format(selectedDate, "yyyy-MM-dd")] : undefined;
+  const slots = selectedDay?.slots || [];
+  const fullyBookedDates = getFullyBookedDates(monthSlots?.days);
+  const canJoinWaitlist = !!eventType?.waitlist_enabled;
+
   // Load event type on mount
   useEffect(() => {
     async function loadEventType() {
@@ -95,6 +128,15 @@ export default function PublicBookingPage() {
         }
 
         setEventType(et);
+        // Reset the flow (a routing rule may have navigated here from another event type)
+        setIntakeAnswers(carriedAnswers || {});
+        setIntakeDone(false);
+        setRoutedHostId(null);
+        setSelectedDate(undefined);
+        setSelectedSlot(null);
+        setBookingError(null);
+        setWaitlistPosition(null);
+        setStep(normalizeRoutingRules(et.routing_rules).length > 0 ? "intake" : "date");
       } catch (err: any) {
         setError(err.message);
       } finally {
@@ -105,46 +147,49 @@ export default function PublicBookingPage() {
     loadEventType();
   }, [teamSlug, eventSlug]);
 
-  // Fetch slots when date is selected
-  useEffect(() => {
-    if (!selectedDate || !eventType) return;
-
-    async function fetchSlots() {
-      setSlotsLoading(true);
-      try {
-        const dateStr = format(selectedDate!, "yyyy-MM-dd");
-        const supabaseUrl = (supabase as any).supabaseUrl || import.meta.env.VITE_SUPABASE_URL;
-        const supabaseKey = (supabase as any).supabaseKey || import.meta.env.VITE_SUPABASE_ANON_KEY;
+  const handleIntakeSubmit = async ({ intake_answers }: { intake_answers: IntakeAnswers }) => {
+    setIntakeAnswers(intake_answers);
+    setBookingError(null);
 
-        const url = `${supabaseUrl}/functions/v1/get-available-slots?event_type_id=${eventType.id}&date=${dateStr}&timezone=${encodeURIComponent(timezone)}`;
+    const result = evaluateIntakeRouting(
+      normalizeRoutingRules(eventType.routing_rules),
+      normalizeIntakeQuestions(eventType.questions),
+      intake_answers
+    );
+    const action = result?.action;
 
-        const response = await fetch(url, {
-          headers: { apikey: supabaseKey },
-        });
+    if (action?.type === "reject") {
+      setRejectMessage(getRejectMessage(action));
+      setStep("rejected");
+      return;
+    }
 
-        if (response.ok) {
-          const data: SlotsResponse = await response.json();
-          setSlots(data.slots || []);
-          
-          // Store debug info if no slots
-          if ((data.slots || []).length === 0 && (data as any).debug) {
-            // Debug info will be used in the UI below
-          }
-        } else {
-          setSlots([]);
-        }
-      } catch {
-        setSlots([]);
-      } finally {
-        setSlotsLoading(false);
+    if (action?.type === "route_event_type" && action.event_type_id !== eventType.id) {
+      setRouting(true);
+      const { data: target } = await supabase
+        .from("event_types")
+        .select("slug")
+        .eq("id", action.event_type_id)
+        .eq("is_active", true)
+        .maybeSingle();
+      setRouting(false);
+
+      if (!target) {
+        setBookingError("This booking option isn't available right now. Please contact the team.");
+        return;
       }
+      navigate(`/book/${teamSlug}/${target.slug}`, { state: { intakeAnswers: intake_answers } });
+      return;
     }
 
-    fetchSlots();
-  }, [selectedDate, eventType, timezone]);
+    setRoutedHostId(action?.type === "route_host" ? action.user_id : null);
+    setIntakeDone(true);
+    setStep("date");
+  };
 
   const handleDateSelect = (date: Date) => {
     setSelectedDate(date);
+    setVisibleMonth(date);
     setSelectedSlot(null);
     setStep("time");
   };
@@ -174,7 +219,9 @@ export default function PublicBookingPage() {
           name: formData.name,
           email: formData.email,
           phone: formData.phone,
-          intake_answers: Object.keys(formData.intake_answers).length > 0 ? formData.intake_answers : undefined,
+          intake_answers: intakeDone
+            ? intakeAnswers
+            : Object.keys(formData.intake_answers).length > 0 ? formData.intake_answers : undefined,
         },
       });
 
@@ -264,9 +311,33 @@ export default function PublicBookingPage() {
     }
   };
 
+  const handleWaitlistSubmit = async (entry: {
+    name: string;
+    email: string;
+    phone: string;
+    preferred_date: string | null;
+  }) => {
+    if (!eventType) return;
+
+    setBookingError(null);
+    try {
+      const result = await joinWaitlist.mutateAsync({
+        event_type_id: eventType.id,
+        ...entry,
+        timezone,
+      });
+      setWaitlistPosition(result.position);
+      setStep("waitlisted");
+    } catch (err) {
+      setBookingError((err instanceof Error && err.message) || "Failed to join the waitlist. Please try again.");
+    }
+  };
+
   const goBack = () => {
-    if (step === "form") setStep("time");
+    if (step === "waitlist") setStep(selectedDate ? "time" : "date");
+    else if (step === "form") setStep("time");
     else if (step === "time") setStep("date");
+    else if (step === "date" && intakeDone) setStep("intake");
   };
 
   // Loading state
@@ -315,7 +386,7 @@ export default function PublicBookingPage() {
         <CardContent className="p-6 sm:p-8">
           {/* Header */}
           <div className="mb-6">
-            {step !== "date" && step !== "confirmed" && (
+            {(step === "time" || step === "form" || step === "waitlist" || (step === "date" && intakeDone)) && (
               <button
                 onClick={goBack}
                 className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-4 transition-colors"
@@ -343,15 +414,26 @@ export default function PublicBookingPage() {
                 <MapPin className="h-4 w-4" />
                 {LOCATION_LABELS[eventType.location_type] || eventType.location_type}
               </span>
+              {eventType.round_robin_mode === "group" && (
+                <span className="flex items-center gap-1">
+                  <Users className="h-4 w-4" />
+                  Group session · {eventType.seats_per_slot || 1} spots
+                </span>
+              )}
             </div>
 
             {/* Selected date/time summary */}
-            {selectedDate && step !== "date" && step !== "confirmed" && (
+            {selectedDate && (step === "time" || step === "form") && (
               <div className="mt-3 p-3 bg-muted/50 rounded-lg">
                 <p className="text-sm font-medium">
                   {format(selectedDate, "EEEE, MMMM d, yyyy")}
                   {selectedSlot && ` at ${formatTime12(selectedSlot.time)}`}
                 </p>
+                {selectedSlot?.seats_remaining !== undefined && (
+                  <p className="text-xs text-muted-foreground">
+                    {selectedSlot.seats_remaining} of {selectedSlot.seats_total} spots left
+                  </p>
+                )}
                 <p className="text-xs text-muted-foreground">{timezone.replace(/_/g, " ")}</p>
               </div>
             )}
@@ -368,6 +450,30 @@ export default function PublicBookingPage() {
           )}
 
           {/* Step Content */}
+          {step === "intake" && (
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-foreground">A Few Questions First</h3>
+              <BookingForm
+                onSubmit={handleIntakeSubmit}
+                isSubmitting={routing}
+                questions={normalizeIntakeQuestions(eventType.questions)}
+                initialAnswers={intakeAnswers}
+                questionsOnly
+                submitLabel="Continue"
+                accentColor={eventType.color}
+              />
+            </div>
+          )}
+
+          {step === "rejected" && (
+            <div className="text-center py-8">
+              <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-muted flex items-center justify-center">
+                <Info className="h-6 w-6 text-muted-foreground" />
+              </div>
+              <p className="text-sm text-muted-foreground">{rejectMessage}</p>
+            </div>
+          )}
+
           {step === "date" && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
@@ -395,7 +501,16 @@ export default function PublicBookingPage() {
                 onDateSelect={handleDateSelect}
                 maxAdvanceDays={eventType.max_advance_days}
                 accentColor={eventType.color}
+                month={visibleMonth}
+                onMonthChange={setVisibleMonth}
+                availableDates={monthSlots?.available_dates}
               />
+              {canJoinWaitlist && (
+                <Button variant="outline" className="w-full" onClick={() => setStep("waitlist")}>
+                  <ListPlus className="h-4 w-4 mr-2" />
+                  {fullyBookedDates.length > 0 ? "Fully booked? Join the waitlist" : "Join the waitlist"}
+                </Button>
+              )}
             </div>
           )}
 
@@ -408,8 +523,40 @@ export default function PublicBookingPage() {
                 onTimeSelect={handleTimeSelect}
                 isLoading={slotsLoading}
                 accentColor={eventType.color}
-                debugInfo={slotsDebugInfo}
+                debugInfo={selectedDay}
               />
+              {canJoinWaitlist && selectedDay?.reason === "max_bookings_reached" && (
+                <Button variant="outline" className="w-full" onClick={() => setStep("waitlist")}>
+                  <ListPlus className="h-4 w-4 mr-2" />
+                  Join the waitlist for this day
+                </Button>
+              )}
+            </div>
+          )}
+
+          {step === "waitlist" && (
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-foreground">Join the Waitlist</h3>
+              <WaitlistForm
+                onSubmit={handleWaitlistSubmit}
+                fullyBookedDates={fullyBookedDates}
+                initialDate={selectedDate ? format(selectedDate, "yyyy-MM-dd") : null}
+                isSubmitting={joinWaitlist.isPending}
+                accentColor={eventType.color}
+              />
+            </div>
+          )}
+
+          {step === "waitlisted" && (
+            <div className="text-center py-8">
+              <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-muted flex items-center justify-center">
+                <CheckCircle2 className="h-6 w-6 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-semibold text-foreground mb-1">You're on the waitlist</h3>
+              <p className="text-sm text-muted-foreground">
+                {waitlistPosition ? `You're number ${waitlistPosition} in line. ` : ""}
+                When a time opens up we'll hold it for you and send a link to claim it.
+              </p>
             </div>
           )}
 
@@ -419,7 +566,9 @@ export default function PublicBookingPage() {
               <BookingForm
                 onSubmit={handleBookingSubmit}
                 isSubmitting={submitting}
-                questions={eventType.questions || []}
+                // Answered in the intake step already
+                questions={intakeDone ? [] : normalizeIntakeQuestions(eventType.questions)}
+                initialAnswers={intakeAnswers}
                 accentColor={eventType.color}
               />
             </div>
@@ -434,6 +583,7 @@ export default function PublicBookingPage() {
               meetingLink={confirmation.appointment.meeting_link}
               rescheduleUrl={confirmation.appointment.reschedule_url}
               cancelUrl={confirmation.appointment.cancel_url}
+              icsUid={confirmation.appointment.ics_uid}
               timezone={timezone}
               accentColor={eventType.color}
             />
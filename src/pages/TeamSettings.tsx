@@ -10,11 +10,12 @@ import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Users, Settings, DollarSign, Trash2, Loader2, Upload, UserPlus, Mail, AlertTriangle, Type, Layers, Link2, CheckCircle2 } from "lucide-react";
+import { Users, Settings, DollarSign, Trash2, Loader2, Upload, UserPlus, Mail, AlertTriangle, Type, Layers, Link2, CheckCircle2, ListChecks } from "lucide-react";
 import { toast } from "sonner";
 import { CommissionSettings } from "@/components/CommissionSettings";
 import { ClearTeamData } from "@/components/ClearTeamData";
 import { TerminologySettings } from "@/components/settings/TerminologySettings";
+import { CustomFieldSettings } from "@/components/settings/CustomFieldSettings";
 import { useTeamLabels } from "@/contexts/TeamLabelsContext";
 import { cn } from "@/lib/utils";
 import { SubaccountsList } from "@/components/workspace/SubaccountsList";
@@ -328,6 +329,10 @@ export default function TeamSettings() {
             <Type className="h-4 w-4" />
             Terminology
           </TabsTrigger>
+          <TabsTrigger value="custom-fields" className="gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-emerald-500/10 data-[state=active]:to-teal-500/10">
+            <ListChecks className="h-4 w-4" />
+            Custom Fields
+          </TabsTrigger>
           <TabsTrigger value="members" className="gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-teal-500/10 data-[state=active]:to-cyan-500/10">
             <Users className="h-4 w-4" />
             Members
@@ -591,6 +596,11 @@ export default function TeamSettings() {
           <TerminologySettings />
         </TabsContent>
 
+        {/* Custom Fields Tab */}
+        <TabsContent value="custom-fields">
+          <CustomFieldSettings teamId={teamId!} />
+        </TabsContent>
+
         {/* Commissions Tab */}
         <TabsContent value="commissions">
           <CommissionSettings teamId={teamId!} />
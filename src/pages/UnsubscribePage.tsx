@@ -0,0 +1,67 @@
+// src/pages/UnsubscribePage.tsx
+// Email unsubscribe page at /unsubscribe/:token, linked from every team email's footer.
+// No auth required — the token is signed by send-email. Opening the link unsubscribes,
+// so it stays a single click from the inbox.
+
+import { useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
+import { MailCheck, MailX, Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+
+export default function UnsubscribePage() {
+  const { token } = useParams();
+
+  const unsubscribe = useMutation({
+    mutationFn: async (unsubscribeToken: string) => {
+      const { data, error } = await supabase.functions.invoke("email-unsubscribe", {
+        body: { token: unsubscribeToken },
+      });
+      if (error || !data?.success) {
+        throw new Error(data?.error || error?.message || "Failed to unsubscribe");
+      }
+      return data as { email: string; teamName: string | null };
+    },
+  });
+
+  const { mutate } = unsubscribe;
+  useEffect(() => {
+    if (token) mutate(token);
+  }, [token, mutate]);
+
+  const done = unsubscribe.data;
+  const failed = unsubscribe.isError || !token;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/30 flex items-center justify-center p-4">
+      <Card className="max-w-md w-full shadow-lg">
+        <CardContent className="text-center py-12 px-6">
+          {done ? (
+            <>
+              <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-emerald-500/10 flex items-center justify-center">
+                <MailCheck className="h-6 w-6 text-emerald-600" />
+              </div>
+              <h2 className="text-xl font-bold text-foreground mb-2">You're Unsubscribed</h2>
+              <p className="text-muted-foreground text-sm">
+                {done.email} will no longer receive emails{done.teamName ? ` from ${done.teamName}` : ""}.
+              </p>
+            </>
+          ) : failed ? (
+            <>
+              <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-muted flex items-center justify-center">
+                <MailX className="h-6 w-6 text-muted-foreground" />
+              </div>
+              <h2 className="text-xl font-bold text-foreground mb-2">Link Not Valid</h2>
+              <p className="text-muted-foreground text-sm">
+                {(unsubscribe.error as Error)?.message || "This unsubscribe link is invalid. Please use the link in the email you received."}
+              </p>
+            </>
+          ) : (
+            <Loader2 className="h-8 w-8 mx-auto animate-spin text-muted-foreground" />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
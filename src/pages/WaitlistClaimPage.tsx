@@ -0,0 +1,141 @@
+// src/pages/WaitlistClaimPage.tsx
+// Waitlist claim page at /waitlist/:token
+// No auth required — validated by the offer's claim token. The slot is held until
+// the offer expires; claiming books it through claim-waitlist-offer.
+
+import { useParams } from "react-router-dom";
+import { CalendarClock, CalendarX2, Clock, Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import BookingConfirmation from "@/components/scheduling/BookingConfirmation";
+import { useClaimWaitlistOffer, useWaitlistOffer } from "@/hooks/useBookingSlots";
+
+export default function WaitlistClaimPage() {
+  const { token } = useParams();
+  const { data: offer, isLoading, error } = useWaitlistOffer(token);
+  const claim = useClaimWaitlistOffer();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const timezone = offer?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const booked = claim.data?.appointment;
+
+  if (booked) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-muted/30 flex items-start justify-center p-4 pt-8 sm:pt-16">
+        <Card className="max-w-lg w-full shadow-lg border-0 sm:border">
+          <CardContent className="p-6 sm:p-8">
+            <BookingConfirmation
+              eventTypeName={booked.event_type_name}
+              startTime={booked.start_at_utc}
+              durationMinutes={booked.duration_minutes}
+              hostName={booked.host_name}
+              meetingLink={booked.meeting_link}
+              rescheduleUrl={booked.reschedule_url}
+              cancelUrl={booked.cancel_url}
+              icsUid={booked.ics_uid}
+              timezone={timezone}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (error || !offer || offer.status !== "pending") {
+    const claimed = offer?.status === "claimed" || offer?.status === "claiming";
+    const title = claimed ? "Already Claimed" : offer ? "Offer Expired" : "Offer Not Found";
+    const description = claimed
+      ? "This time has already been booked."
+      : offer
+        ? "This time is no longer held for you. You're still on the waitlist, and we'll let you know if another time opens up."
+        : "This link is invalid. Please check the message you received.";
+
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-muted/30 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full shadow-lg">
+          <CardContent className="text-center py-12 px-6">
+            <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-muted flex items-center justify-center">
+              <CalendarX2 className="h-6 w-6 text-muted-foreground" />
+            </div>
+            <h2 className="text-xl font-bold text-foreground mb-2">{title}</h2>
+            <p className="text-muted-foreground text-sm">{description}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const start = new Date(offer.slot_start_utc);
+  const slotLabel = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(start);
+  const expiryLabel = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(new Date(offer.expires_at));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted/30 flex items-start justify-center p-4 pt-8 sm:pt-16">
+      <Card className="max-w-lg w-full shadow-lg border-0 sm:border">
+        <CardContent className="p-6 sm:p-8 space-y-6">
+          <div>
+            <p className="text-sm text-muted-foreground mb-1">A spot opened up for you, {offer.name.split(" ")[0]}</p>
+            <h1 className="text-xl font-bold text-foreground">{offer.event_type?.name || "Appointment"}</h1>
+          </div>
+
+          <div className="p-4 bg-muted/50 rounded-lg space-y-2">
+            <p className="flex items-center gap-2 text-sm font-medium">
+              <CalendarClock className="h-4 w-4" />
+              {slotLabel}
+            </p>
+            {offer.event_type?.duration_minutes && (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Clock className="h-4 w-4" />
+                {offer.event_type.duration_minutes} min
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">{timezone.replace(/_/g, " ")}</p>
+          </div>
+
+          {claim.error && (
+            <Alert variant="destructive">
+              <AlertDescription className="text-sm">{(claim.error as Error).message}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Button
+              className="w-full h-12 text-base font-semibold"
+              onClick={() => claim.mutate(token!)}
+              disabled={claim.isPending}
+            >
+              {claim.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Booking...
+                </>
+              ) : (
+                "Claim This Time"
+              )}
+            </Button>
+            <p className="text-xs text-muted-foreground text-center">Held for you until {expiryLabel}</p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
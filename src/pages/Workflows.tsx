@@ -10,6 +10,7 @@ import { FolderHeader } from "@/components/automations/FolderHeader";
 import { AutomationsGrid } from "@/components/automations/AutomationsGrid";
 import { CreateFolderDialog } from "@/components/automations/CreateFolderDialog";
 import AutomationRunsList from "@/components/automations/AutomationRunsList";
+import DeadLetterJobsList from "@/components/automations/DeadLetterJobsList";
 import { MessageLogsList } from "@/components/automations/MessageLogsList";
 import { TaskFlowBuilder } from "@/components/TaskFlowBuilder";
 import { FollowUpSettings } from "@/components/FollowUpSettings";
@@ -192,6 +193,13 @@ export default function Workflows() {
                 </h3>
                 <AutomationRunsList teamId={teamId} />
               </div>
+              <div className="space-y-3">
+                <h3 className="text-sm font-medium flex items-center gap-2">
+                  <span className="h-2 w-2 rounded-full bg-red-500" />
+                  Failed Scheduled Jobs
+                </h3>
+                <DeadLetterJobsList teamId={teamId} />
+              </div>
               <div className="space-y-3">
                 <h3 className="text-sm font-medium flex items-center gap-2">
                   <span className="h-2 w-2 rounded-full bg-teal-500" />
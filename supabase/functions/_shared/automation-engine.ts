@@ -0,0 +1,618 @@
+// supabase/functions/_shared/automation-engine.ts
+// Platform-neutral automation engine: conditions, step graph walking,
+// branching, split tests, go_to and goal redirects.
+//
+// This module is imported by BOTH the automation-trigger edge function (Deno)
+// and the browser dev runner (src/lib/automations), so it must stay pure:
+// no Deno globals, no esm.sh imports, no Supabase client, no DOM.
+// Anything environment-specific (field aliases, the clock, randomness) is
+// injected through EngineOptions.
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ConditionLogic = "AND" | "OR";
+
+/** Whatever a run is evaluated against (lead, appointment, meta, step outputs...) */
+export type EngineContext = object;
+
+export interface EngineCondition {
+  field: string;
+  operator: string;
+  value?: unknown;
+}
+
+export interface EngineSplitVariant {
+  id: string;
+  name?: string;
+  percentage: number;
+  nextStepId?: string;
+}
+
+/**
+ * Minimal structural shape of a step. Both the edge `AutomationStep` and the
+ * browser `AutomationStep` satisfy it.
+ */
+export interface EngineStep {
+  id: string;
+  order: number;
+  type: string;
+  config: Record<string, unknown>;
+  conditions?: EngineCondition[];
+  conditionLogic?: ConditionLogic;
+  enabled?: boolean;
+  trueBranchStepId?: string;
+  falseBranchStepId?: string;
+  variants?: EngineSplitVariant[];
+}
+
+/** What a field's value is compared as */
+export type ConditionValueType = "string" | "number" | "date" | "boolean" | "array";
+
+export interface EngineOptions {
+  /** Resolves a dot-notation path against the context (edge passes its alias-aware resolver) */
+  resolveField?: (context: EngineContext, path: string) => unknown;
+  /** Clock used by relative date operators; defaults to Date.now() */
+  now?: () => number;
+  /**
+   * Declared types by field path (typed contact custom fields). Both sides of a
+   * condition on a typed field are coerced first, so "5000" equals 5000.
+   */
+  fieldTypes?: Record<string, ConditionValueType>;
+}
+
+// ============================================
+// FIELD RESOLUTION
+// ============================================
+
+/**
+ * Safely pulls a nested value from the context using dot notation.
+ * Example: getFieldValue(ctx, "lead.first_name")
+ */
+export function getFieldValue(context: EngineContext, path?: string | null): unknown {
+  if (!path) return undefined;
+  const keys = path.split(".");
+  let value: unknown = context;
+
+  for (const key of keys) {
+    if (value == null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+}
+
+// ============================================
+// TYPED VALUES
+// ============================================
+
+/** 5000, "5000", "$5,000.00" and "5000 USD" all parse; anything else is undefined */
+export function toConditionNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== "string") return undefined;
+  const cleaned = value
+    .trim()
+    .replace(/^([A-Za-z]{3}\s*|[^\w\s.+-]\s*)/, "")
+    .replace(/(\s*[A-Za-z]{3}|\s*[^\w\s.])$/, "")
+    .replace(/[,\s]/g, "");
+  if (!cleaned) return undefined;
+  const num = Number(cleaned);
+  return Number.isFinite(num) ? num : undefined;
+}
+
+const TRUE_VALUES = ["true", "yes", "y", "1", "on", "checked"];
+const FALSE_VALUES = ["false", "no", "n", "0", "off", "unchecked"];
+
+export function toConditionBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value === 1 ? true : value === 0 ? false : undefined;
+  if (typeof value !== "string") return undefined;
+  const normalized = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(normalized)) return true;
+  if (FALSE_VALUES.includes(normalized)) return false;
+  return undefined;
+}
+
+/** Calendar day as YYYY-MM-DD; plain dates are kept as written so no timezone shifts them */
+export function toConditionDate(value: unknown): string | undefined {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    const day = value.trim();
+    const parsed = new Date(`${day}T00:00:00Z`);
+    return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(day) ? day : undefined;
+  }
+  if (typeof value !== "string" && typeof value !== "number" && !(value instanceof Date)) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+}
+
+/** Lists are kept; a comma-separated string is split */
+export function toConditionArray(value: unknown): unknown[] | undefined {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined || value === "") return undefined;
+  return String(value)
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export function coerceConditionValue(value: unknown, type: ConditionValueType): unknown {
+  switch (type) {
+    case "number":
+      return toConditionNumber(value);
+    case "boolean":
+      return toConditionBoolean(value);
+    case "date":
+      return toConditionDate(value);
+    case "array":
+      return toConditionArray(value);
+    default:
+      return value;
+  }
+}
+
+/** Operators whose expected value is itself a value of the field (or a list of them) */
+const TYPED_VALUE_OPERATORS = new Set([
+  "equals", "not_equals",
+  "gt", "greater_than", "gte", "greater_or_equal", "lt", "less_than", "lte", "less_or_equal", "between",
+  "before", "date_before", "after", "date_after",
+  "in", "not_in",
+]);
+const LIST_OPERATORS = new Set(["contains_any", "contains_all", "not_contains_any"]);
+
+function coerceExpectedValue(operator: string, expected: unknown, type: ConditionValueType): unknown {
+  if (type === "array") {
+    return LIST_OPERATORS.has(operator) ? toConditionArray(expected) : expected;
+  }
+  if (!TYPED_VALUE_OPERATORS.has(operator)) return expected;
+  if (Array.isArray(expected)) return expected.map((item) => coerceConditionValue(item, type));
+  return coerceConditionValue(expected, type);
+}
+
+// ============================================
+// CONDITION EVALUATION (GHL-grade operators)
+// ============================================
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/** Same as `new Date(value)`: missing or unparseable values give an invalid date, so the operator fails */
+function toDate(value: unknown): Date {
+  return new Date(value as string | number | Date);
+}
+
+export function evaluateCondition(
+  condition: EngineCondition,
+  context: EngineContext,
+  options: EngineOptions = {},
+): boolean {
+  const resolve = options.resolveField ?? getFieldValue;
+  const nowMs = options.now ? options.now() : Date.now();
+  let actual = resolve(context, condition.field);
+  let expected = condition.value;
+
+  const fieldType = options.fieldTypes?.[condition.field];
+  if (fieldType) {
+    actual = coerceConditionValue(actual, fieldType);
+    expected = coerceExpectedValue(condition.operator, expected, fieldType);
+  }
+
+  switch (condition.operator) {
+    // === STRING OPERATORS ===
+    case "equals":
+      return actual === expected;
+    case "not_equals":
+      return actual !== expected;
+    case "contains":
+      if (typeof actual === "string") {
+        return actual.toLowerCase().includes(String(expected).toLowerCase());
+      }
+      if (Array.isArray(actual)) {
+        return actual.includes(expected);
+      }
+      return false;
+    case "not_contains":
+      if (typeof actual === "string") {
+        return !actual.toLowerCase().includes(String(expected).toLowerCase());
+      }
+      if (Array.isArray(actual)) {
+        return !actual.includes(expected);
+      }
+      return true;
+    case "starts_with":
+      return typeof actual === "string" && actual.toLowerCase().startsWith(String(expected).toLowerCase());
+    case "ends_with":
+      return typeof actual === "string" && actual.toLowerCase().endsWith(String(expected).toLowerCase());
+    case "regex":
+      try {
+        return typeof actual === "string" && new RegExp(String(expected)).test(actual);
+      } catch {
+        return false;
+      }
+
+    // === NUMBER OPERATORS ===
+    case "gt":
+    case "greater_than":
+      return Number(actual) > Number(expected);
+    case "gte":
+    case "greater_or_equal":
+      return Number(actual) >= Number(expected);
+    case "lt":
+    case "less_than":
+      return Number(actual) < Number(expected);
+    case "lte":
+    case "less_or_equal":
+      return Number(actual) <= Number(expected);
+    case "between":
+      if (Array.isArray(expected) && expected.length === 2) {
+        const num = Number(actual);
+        return num >= Number(expected[0]) && num <= Number(expected[1]);
+      }
+      return false;
+
+    // === DATE OPERATORS ===
+    case "before":
+    case "date_before":
+      return toDate(actual) < new Date(String(expected));
+    case "after":
+    case "date_after":
+      return toDate(actual) > new Date(String(expected));
+    case "within_last_minutes":
+      return toDate(actual).getTime() >= nowMs - Number(expected) * MINUTE_MS;
+    case "within_last_hours":
+      return toDate(actual).getTime() >= nowMs - Number(expected) * HOUR_MS;
+    case "within_last_days":
+      return toDate(actual).getTime() >= nowMs - Number(expected) * DAY_MS;
+    case "after_now_minutes":
+      return toDate(actual).getTime() > nowMs + Number(expected) * MINUTE_MS;
+    case "day_of_week_is":
+      return DAY_NAMES[toDate(actual).getDay()] === String(expected).toLowerCase();
+    case "month_is":
+      return toDate(actual).getMonth() + 1 === Number(expected);
+    case "date_within_days": {
+      const time = toDate(actual).getTime();
+      return time >= nowMs - Number(expected) * DAY_MS && time <= nowMs;
+    }
+    case "date_past_days":
+      return toDate(actual).getTime() < nowMs - Number(expected) * DAY_MS;
+
+    // === BOOLEAN OPERATORS ===
+    case "is_true":
+      return actual === true || actual === "true" || actual === 1;
+    case "is_false":
+      return actual === false || actual === "false" || actual === 0;
+
+    // === ARRAY OPERATORS ===
+    case "contains_any":
+      return Array.isArray(actual) && Array.isArray(expected) && expected.some((e) => actual.includes(e));
+    case "contains_all":
+      return Array.isArray(actual) && Array.isArray(expected) && expected.every((e) => actual.includes(e));
+    case "not_contains_any":
+      return Array.isArray(actual) && Array.isArray(expected) && !expected.some((e) => actual.includes(e));
+    case "in":
+      return Array.isArray(expected) && expected.includes(actual);
+    case "not_in":
+      return Array.isArray(expected) && !expected.includes(actual);
+
+    // === EXISTENCE OPERATORS ===
+    case "is_set":
+    case "exists":
+      return actual !== null && actual !== undefined && actual !== "";
+    case "is_not_set":
+    case "is_empty":
+      return actual === null || actual === undefined || actual === "";
+    case "not_exists":
+      return actual === null || actual === undefined;
+    case "is_not_empty":
+      if (Array.isArray(actual)) return actual.length > 0;
+      return actual !== null && actual !== undefined && actual !== "";
+
+    // === TAG OPERATORS (legacy) ===
+    case "tag_present":
+      if (Array.isArray(actual)) return actual.includes(expected);
+      if (typeof actual === "string") {
+        return actual.toLowerCase().includes(String(expected).toLowerCase());
+      }
+      return false;
+    case "tag_absent":
+      if (Array.isArray(actual)) return !actual.includes(expected);
+      if (typeof actual === "string") {
+        return !actual.toLowerCase().includes(String(expected).toLowerCase());
+      }
+      return true;
+
+    default:
+      // Unknown operator – fail closed instead of blowing up the run
+      console.warn(`[Automation Engine] Unknown operator: ${condition.operator}`);
+      return false;
+  }
+}
+
+/**
+ * Evaluates a list of conditions with the given logic.
+ * No conditions means no filter, so the result is true.
+ */
+export function evaluateConditions(
+  conditions: EngineCondition[] | undefined | null,
+  context: EngineContext,
+  logic: ConditionLogic = "AND",
+  options: EngineOptions = {},
+): boolean {
+  if (!conditions || conditions.length === 0) return true;
+  if (logic === "AND") {
+    return conditions.every((c) => evaluateCondition(c, context, options));
+  }
+  return conditions.some((c) => evaluateCondition(c, context, options));
+}
+
+// ============================================
+// STEP ORDERING & SKIPPING
+// ============================================
+
+/** Returns a copy of the steps sorted by `order` */
+export function sortSteps<S extends EngineStep>(steps: S[]): S[] {
+  return [...steps].sort((a, b) => a.order - b.order);
+}
+
+/** Get the id of the first step after `currentOrder`, or null at the end of the flow */
+export function getNextStepByOrder(steps: EngineStep[], currentOrder: number): string | null {
+  const nextStep = sortSteps(steps).find((s) => s.order > currentOrder);
+  return nextStep?.id || null;
+}
+
+export type StepSkipReason = "step_disabled" | "conditions_not_met";
+
+/**
+ * Decide whether a step should be skipped before it executes.
+ * Condition steps are never filtered here – their conditions pick a branch instead.
+ */
+export function getStepSkipReason(
+  step: EngineStep,
+  context: EngineContext,
+  options: EngineOptions = {},
+): StepSkipReason | null {
+  if (step.enabled === false) return "step_disabled";
+  if (step.type !== "condition" && step.conditions && step.conditions.length > 0) {
+    if (!evaluateConditions(step.conditions, context, step.conditionLogic || "AND", options)) {
+      return "conditions_not_met";
+    }
+  }
+  return null;
+}
+
+// ============================================
+// FLOW CONTROL (branching, split tests, go_to)
+// ============================================
+
+export interface BranchResult {
+  conditionsMet: boolean;
+  evaluatedConditions: number;
+  branch: "true" | "false" | "true_no_branch" | "false_no_branch";
+  /** Branch target, or null to continue by order */
+  nextStepId: string | null;
+}
+
+/** Evaluate an If/Else step and pick the branch to follow */
+export function resolveConditionBranch(
+  step: EngineStep,
+  context: EngineContext,
+  options: EngineOptions = {},
+): BranchResult {
+  const conditions = step.conditions || [];
+  const conditionsMet = evaluateConditions(conditions, context, step.conditionLogic || "AND", options);
+
+  if (conditionsMet && step.trueBranchStepId) {
+    return { conditionsMet, evaluatedConditions: conditions.length, branch: "true", nextStepId: step.trueBranchStepId };
+  }
+  if (!conditionsMet && step.falseBranchStepId) {
+    return { conditionsMet, evaluatedConditions: conditions.length, branch: "false", nextStepId: step.falseBranchStepId };
+  }
+  return {
+    conditionsMet,
+    evaluatedConditions: conditions.length,
+    branch: conditionsMet ? "true_no_branch" : "false_no_branch",
+    nextStepId: null,
+  };
+}
+
+export interface SplitTestResult {
+  variant: EngineSplitVariant;
+  random: number;
+}
+
+/**
+ * Pick an A/B/n variant by cumulative percentage.
+ * `random` is a number in [0, 100); pass a fixed value for deterministic tests.
+ */
+export function selectSplitTestVariant(
+  variants: EngineSplitVariant[] | undefined | null,
+  random: number = Math.random() * 100,
+): SplitTestResult | null {
+  if (!variants || variants.length === 0) return null;
+
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += Number(variant.percentage) || 0;
+    if (random <= cumulative) {
+      return { variant, random };
+    }
+  }
+  return { variant: variants[0], random };
+}
+
+/** Variants live on the step for new definitions and in config for older ones */
+export function getSplitTestVariants(step: EngineStep): EngineSplitVariant[] {
+  return step.variants || (step.config?.variants as EngineSplitVariant[] | undefined) || [];
+}
+
+export type GoToResult =
+  | { status: "jump"; jumpTo: string }
+  | { status: "missing_target" }
+  | { status: "unknown_target"; jumpTo: string };
+
+/** Validate a go_to target against the automation's steps */
+export function resolveGoTo(config: Record<string, unknown>, steps: EngineStep[]): GoToResult {
+  const targetStepId = config?.targetStepId as string | undefined;
+  if (!targetStepId) return { status: "missing_target" };
+  if (!steps.some((s) => s.id === targetStepId)) {
+    return { status: "unknown_target", jumpTo: targetStepId };
+  }
+  return { status: "jump", jumpTo: targetStepId };
+}
+
+// ============================================
+// GOALS
+// ============================================
+
+export const MAX_GOAL_REDIRECTS = 5;
+
+export interface EngineGoal {
+  id: string;
+  name: string;
+  exitOnGoal?: boolean;
+  goToStepId?: string | null;
+}
+
+/**
+ * Per-run goal bookkeeping. Tracks which goals already fired so a goal whose
+ * condition stays true after a redirect cannot loop forever.
+ */
+export interface GoalTracker {
+  triggeredGoalIds: Set<string>;
+  redirectCounts: Map<string, number>;
+  /** Set once a goal exits the run or hits the redirect limit */
+  closed: boolean;
+}
+
+export function createGoalTracker(): GoalTracker {
+  return { triggeredGoalIds: new Set(), redirectCounts: new Map(), closed: false };
+}
+
+export type GoalDecision =
+  | { action: "none" }
+  | { action: "redirect"; stepId: string; redirectCount: number }
+  | { action: "redirect_limit"; redirectCount: number }
+  | { action: "exit" };
+
+/** Decide what a met goal does to the run, updating the tracker */
+export function decideGoalAction(
+  goal: EngineGoal | null | undefined,
+  tracker: GoalTracker,
+  maxRedirects: number = MAX_GOAL_REDIRECTS,
+): GoalDecision {
+  if (!goal || tracker.closed || tracker.triggeredGoalIds.has(goal.id)) {
+    return { action: "none" };
+  }
+  tracker.triggeredGoalIds.add(goal.id);
+
+  if (goal.goToStepId) {
+    const redirectCount = (tracker.redirectCounts.get(goal.id) || 0) + 1;
+    tracker.redirectCounts.set(goal.id, redirectCount);
+    if (redirectCount > maxRedirects) {
+      tracker.closed = true;
+      return { action: "redirect_limit", redirectCount };
+    }
+    return { action: "redirect", stepId: goal.goToStepId, redirectCount };
+  }
+
+  if (goal.exitOnGoal) {
+    tracker.closed = true;
+    return { action: "exit" };
+  }
+
+  return { action: "none" };
+}
+
+/** Goals require every condition to be met; a goal without conditions never fires */
+export function evaluateGoalConditions(
+  conditions: EngineCondition[] | undefined | null,
+  context: EngineContext,
+  options: EngineOptions = {},
+): boolean {
+  if (!conditions || conditions.length === 0) return false;
+  return evaluateConditions(conditions, context, "AND", options);
+}
+
+// ============================================
+// STEP GRAPH WALKING
+// ============================================
+
+export const DEFAULT_MAX_STEPS = 100;
+
+export interface StepOutcome {
+  /** Explicit jump target (branch, split variant, go_to, goal redirect). Omit to continue by order */
+  nextStepId?: string | null;
+  /** Halt the run after this step */
+  stop?: boolean;
+  /** Allow `nextStepId` to run again even if already visited (intentional goal redirects) */
+  revisit?: boolean;
+}
+
+export type WalkHaltReason = "completed" | "stopped" | "loop_detected" | "step_not_found" | "max_steps";
+
+export interface WalkResult {
+  visitedStepIds: string[];
+  haltReason: WalkHaltReason;
+  /** The step that caused a loop / not-found halt, if any */
+  haltStepId?: string;
+}
+
+export interface WalkOptions {
+  /** Resume point (scheduled resumes, replays). Defaults to the first step by order */
+  startStepId?: string | null;
+  maxSteps?: number;
+}
+
+/**
+ * Walk the step graph, calling `visit` for each step. The visitor performs the
+ * step (or simulates it) and reports where to go next; the walker owns ordering,
+ * loop detection and the step budget so every runtime follows the same graph.
+ */
+export async function walkStepGraph<S extends EngineStep>(
+  steps: S[],
+  visit: (step: S) => Promise<StepOutcome> | StepOutcome,
+  options: WalkOptions = {},
+): Promise<WalkResult> {
+  const ordered = sortSteps(steps);
+  const stepMap = new Map(ordered.map((s) => [s.id, s]));
+  const visited = new Set<string>();
+  const visitedStepIds: string[] = [];
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+
+  let currentStepId: string | null = options.startStepId || ordered[0]?.id || null;
+
+  while (currentStepId) {
+    if (visitedStepIds.length >= maxSteps) {
+      return { visitedStepIds, haltReason: "max_steps", haltStepId: currentStepId };
+    }
+    if (visited.has(currentStepId)) {
+      console.warn(`[Automation Engine] Loop detected at step ${currentStepId}, breaking`);
+      return { visitedStepIds, haltReason: "loop_detected", haltStepId: currentStepId };
+    }
+
+    const step = stepMap.get(currentStepId);
+    if (!step) {
+      console.warn(`[Automation Engine] Step ${currentStepId} not found`);
+      return { visitedStepIds, haltReason: "step_not_found", haltStepId: currentStepId };
+    }
+
+    visited.add(currentStepId);
+    visitedStepIds.push(currentStepId);
+
+    const outcome = (await visit(step)) || {};
+    if (outcome.stop) {
+      return { visitedStepIds, haltReason: "stopped", haltStepId: step.id };
+    }
+
+    if (outcome.nextStepId) {
+      if (outcome.revisit) visited.delete(outcome.nextStepId);
+      currentStepId = outcome.nextStepId;
+    } else {
+      currentStepId = getNextStepByOrder(ordered, step.order);
+    }
+  }
+
+  return { visitedStepIds, haltReason: "completed" };
+}
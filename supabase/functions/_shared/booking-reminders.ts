@@ -0,0 +1,383 @@
+// supabase/functions/_shared/booking-reminders.ts
+// Native booking reminders: event_types.reminder_config → booking_reminders rows,
+// message rendering and retry policy for send-booking-reminders.
+//
+// Pure module (no Deno / esm.sh imports) so create-booking, reschedule-booking,
+// cancel-booking and the worker share it and it can be unit tested.
+
+import type { DbClient } from "./db.ts";
+import { SUPPRESSED_CODE } from "./email-suppression.ts";
+import { OPTED_OUT_CODE } from "./messaging-consent.ts";
+
+// --- Types ---
+
+export type ReminderChannel = "email" | "sms";
+
+export interface ReminderConfigEntry {
+  type: ReminderChannel;
+  offset_minutes: number;
+  template: string | null;
+  subject: string | null;
+  body: string | null;
+}
+
+/** The appointment fields reminders are scheduled and rendered from */
+export interface ReminderAppointment {
+  id: string;
+  team_id: string;
+  event_type_id?: string | null;
+  appointment_type_id?: string | null;
+  start_at_utc: string;
+  duration_minutes?: number | null;
+  status?: string | null;
+  lead_name?: string | null;
+  lead_email?: string | null;
+  lead_phone?: string | null;
+  event_type_name?: string | null;
+  closer_name?: string | null;
+  meeting_link?: string | null;
+  reschedule_url?: string | null;
+  cancel_url?: string | null;
+  appointment_timezone?: string | null;
+}
+
+export interface BookingReminderRow {
+  appointment_id: string;
+  team_id: string;
+  event_type_id: string | null;
+  type: ReminderChannel;
+  template: string | null;
+  subject: string | null;
+  body: string | null;
+  offset_minutes: number;
+  reminder_key: string;
+  scheduled_for: string;
+  status: "pending";
+}
+
+export interface ClaimedReminder {
+  id: string;
+  appointment_id: string;
+  team_id: string;
+  type: ReminderChannel;
+  template: string | null;
+  subject: string | null;
+  body: string | null;
+  offset_minutes: number;
+  attempts: number;
+}
+
+export interface RenderedReminder {
+  to: string;
+  subject: string | null;
+  body: string;
+}
+
+/** The JSON body send-email / send-sms respond with */
+export interface SendResponseBody {
+  success?: boolean;
+  messageId?: string | null;
+  code?: string;
+  error?: string;
+}
+
+export type ReminderFailureDecision =
+  | { status: "pending"; scheduledFor: string }
+  | { status: "failed" };
+
+// --- Constants ---
+
+/** Matches the attempts cap in claim_booking_reminders() */
+export const MAX_REMINDER_ATTEMPTS = 3;
+export const REMINDER_CLAIM_BATCH_SIZE = 50;
+export const REMINDER_LEASE_SECONDS = 120;
+/** Retry backoff: 5m, then 10m */
+export const REMINDER_RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+/** Offsets past a month ahead are almost certainly a typo (hours entered as minutes) */
+const MAX_OFFSET_MINUTES = 30 * 24 * 60;
+
+/** send-email / send-sms codes for contacts that opted out - never retried */
+const OPT_OUT_CODES = new Set(["DND_EMAIL", "DND_SMS", OPTED_OUT_CODE, SUPPRESSED_CODE]);
+
+const DEFAULT_TIMEZONE = "America/New_York";
+
+// --- Config ---
+
+/**
+ * Parse event_types.reminder_config. Accepts `type` or `channel`, and
+ * `offset_minutes` or `offset_hours` (the original 24h/1h default used hours).
+ * Invalid entries are dropped; duplicates of the same channel + offset collapse.
+ */
+export function normalizeReminderConfig(raw: unknown): ReminderConfigEntry[] {
+  if (!Array.isArray(raw)) return [];
+
+  const entries: ReminderConfigEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const entry = item as Record<string, unknown>;
+    if (entry.enabled === false) continue;
+
+    const type = entry.type ?? entry.channel;
+    if (type !== "email" && type !== "sms") continue;
+
+    const offsetMinutes =
+      typeof entry.offset_minutes === "number"
+        ? entry.offset_minutes
+        : typeof entry.offset_hours === "number"
+          ? entry.offset_hours * 60
+          : NaN;
+    if (!Number.isFinite(offsetMinutes) || offsetMinutes < 0 || offsetMinutes > MAX_OFFSET_MINUTES) continue;
+
+    const offset = Math.round(offsetMinutes);
+    const key = getReminderKey(type, offset);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    entries.push({
+      type,
+      offset_minutes: offset,
+      template: typeof entry.template === "string" ? entry.template : null,
+      subject: typeof entry.subject === "string" && entry.subject.trim() ? entry.subject : null,
+      body: typeof entry.body === "string" && entry.body.trim() ? entry.body : null,
+    });
+  }
+
+  return entries.sort((a, b) => b.offset_minutes - a.offset_minutes);
+}
+
+export function getReminderKey(type: ReminderChannel, offsetMinutes: number): string {
+  return `${type}:${offsetMinutes}`;
+}
+
+/**
+ * booking_reminders rows for an appointment. Reminders whose send time has
+ * already passed (booked less than the offset ahead) and channels the lead
+ * gave no address for are left out.
+ */
+export function buildReminderRows(
+  appointment: ReminderAppointment,
+  config: ReminderConfigEntry[],
+  now: Date = new Date(),
+): BookingReminderRow[] {
+  const startMs = new Date(appointment.start_at_utc).getTime();
+  if (isNaN(startMs)) return [];
+
+  return config
+    .filter((entry) => (entry.type === "email" ? !!appointment.lead_email : !!appointment.lead_phone))
+    .map((entry) => ({ entry, scheduledFor: startMs - entry.offset_minutes * 60 * 1000 }))
+    .filter(({ scheduledFor }) => scheduledFor > now.getTime())
+    .map(({ entry, scheduledFor }) => ({
+      appointment_id: appointment.id,
+      team_id: appointment.team_id,
+      event_type_id: appointment.event_type_id || appointment.appointment_type_id || null,
+      type: entry.type,
+      template: entry.template,
+      subject: entry.subject,
+      body: entry.body,
+      offset_minutes: entry.offset_minutes,
+      reminder_key: getReminderKey(entry.type, entry.offset_minutes),
+      scheduled_for: new Date(scheduledFor).toISOString(),
+      status: "pending" as const,
+    }));
+}
+
+// --- Rendering ---
+
+const DEFAULT_EMAIL_SUBJECT =
+  "Reminder: {{appointment.event_type_name}} {{reminder.starts_in}}";
+
+const DEFAULT_EMAIL_BODY = [
+  "Hi {{lead.first_name}},",
+  "",
+  "This is a reminder that your {{appointment.event_type_name}} with {{appointment.host_name}} starts {{reminder.starts_in}}, on {{appointment.start_date}} at {{appointment.start_time}} ({{appointment.timezone}}).",
+  "",
+  "Join the meeting: {{appointment.meeting_link}}",
+  "",
+  "Need to reschedule or cancel? {{appointment.manage_url}}",
+].join("\n");
+
+const DEFAULT_SMS_BODY =
+  "Reminder: {{appointment.event_type_name}} {{reminder.starts_in}} ({{appointment.start_time}} {{appointment.timezone}}). Join: {{appointment.meeting_link}} Reschedule/cancel: {{appointment.manage_url}}";
+
+function formatInTimezone(date: Date, timezone: string, options: Intl.DateTimeFormatOptions): string {
+  try {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: timezone }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" }).format(date);
+  }
+}
+
+/** 1440 → "in 24 hours", 60 → "in 1 hour", 30 → "in 30 minutes", 0 → "now" */
+export function describeOffset(offsetMinutes: number): string {
+  if (offsetMinutes <= 0) return "now";
+  if (offsetMinutes % 60 === 0) {
+    const hours = offsetMinutes / 60;
+    return `in ${hours} hour${hours === 1 ? "" : "s"}`;
+  }
+  return `in ${offsetMinutes} minute${offsetMinutes === 1 ? "" : "s"}`;
+}
+
+/**
+ * Template variables for a reminder. Dates and times are in the timezone the
+ * lead booked in; manage_url is the page where they reschedule or cancel.
+ */
+export function buildReminderVariables(
+  appointment: ReminderAppointment,
+  offsetMinutes: number,
+): Record<string, string> {
+  const timezone = appointment.appointment_timezone || DEFAULT_TIMEZONE;
+  const start = new Date(appointment.start_at_utc);
+  const name = appointment.lead_name || "";
+
+  return {
+    "lead.name": name,
+    "lead.first_name": name.split(" ")[0] || "there",
+    "lead.email": appointment.lead_email || "",
+    "lead.phone": appointment.lead_phone || "",
+    "appointment.event_type_name": appointment.event_type_name || "appointment",
+    "appointment.host_name": appointment.closer_name || "your host",
+    "appointment.start_date": formatInTimezone(start, timezone, {
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+      year: "numeric",
+    }),
+    "appointment.start_time": formatInTimezone(start, timezone, { hour: "numeric", minute: "2-digit" }),
+    "appointment.timezone": timezone,
+    "appointment.duration_minutes": String(appointment.duration_minutes ?? ""),
+    "appointment.meeting_link": appointment.meeting_link || "",
+    "appointment.manage_url": appointment.reschedule_url || appointment.cancel_url || "",
+    "appointment.reschedule_url": appointment.reschedule_url || "",
+    "appointment.cancel_url": appointment.cancel_url || appointment.reschedule_url || "",
+    "reminder.starts_in": describeOffset(offsetMinutes),
+  };
+}
+
+/** Replace `{{path}}` placeholders; unknown variables render empty */
+export function renderReminderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => variables[key] ?? "");
+}
+
+/**
+ * Subject/body for a claimed reminder. The built-in templates drop the join
+ * line when the appointment has no meeting link (phone / in-person).
+ */
+export function renderReminder(
+  reminder: Pick<ClaimedReminder, "type" | "subject" | "body" | "offset_minutes">,
+  appointment: ReminderAppointment,
+): RenderedReminder | null {
+  const to = reminder.type === "email" ? appointment.lead_email : appointment.lead_phone;
+  if (!to) return null;
+
+  const variables = buildReminderVariables(appointment, reminder.offset_minutes);
+  const hasMeetingLink = !!variables["appointment.meeting_link"];
+
+  let body = reminder.body;
+  if (!body) {
+    body = reminder.type === "email" ? DEFAULT_EMAIL_BODY : DEFAULT_SMS_BODY;
+    if (!hasMeetingLink) {
+      body = reminder.type === "email"
+        ? body.replace("Join the meeting: {{appointment.meeting_link}}\n\n", "")
+        : body.replace(" Join: {{appointment.meeting_link}}", "");
+    }
+  }
+
+  return {
+    to,
+    subject: reminder.type === "email"
+      ? renderReminderTemplate(reminder.subject || DEFAULT_EMAIL_SUBJECT, variables)
+      : null,
+    body: renderReminderTemplate(body, variables),
+  };
+}
+
+// --- Sending ---
+
+/**
+ * Why a claimed reminder should not be sent, or null to send it. Cancelled /
+ * rescheduled appointments normally have their reminders cancelled already;
+ * this covers status changes made elsewhere (e.g. the CRM).
+ */
+export function getReminderSkipReason(appointment: ReminderAppointment | null, now: Date = new Date()): string | null {
+  if (!appointment) return "Appointment not found";
+  const status = (appointment.status || "").toUpperCase();
+  if (["CANCELLED", "CANCELED", "RESCHEDULED"].includes(status)) {
+    return `Appointment is ${status.toLowerCase()}`;
+  }
+  if (new Date(appointment.start_at_utc).getTime() <= now.getTime()) {
+    return "Appointment already started";
+  }
+  return null;
+}
+
+/** Map a send-email / send-sms response to the reminder's outcome */
+export function classifySendResponse(
+  httpStatus: number,
+  result: SendResponseBody | null,
+): { outcome: "sent"; messageId: string | null } | { outcome: "skipped" | "error"; error: string } {
+  if (result?.code && OPT_OUT_CODES.has(result.code)) {
+    return { outcome: "skipped", error: result.error || "Contact opted out" };
+  }
+  if (httpStatus >= 200 && httpStatus < 300 && result?.success) {
+    return { outcome: "sent", messageId: result.messageId || null };
+  }
+  return { outcome: "error", error: result?.error || `HTTP ${httpStatus}` };
+}
+
+/**
+ * Decide what happens to a reminder whose send just failed. `attempts` already
+ * includes the failed attempt (incremented at claim time). A retry that would
+ * land after the appointment starts is pointless, so it fails instead.
+ */
+export function decideReminderFailure(
+  reminder: Pick<ClaimedReminder, "attempts">,
+  appointmentStartUtc: string,
+  now: Date = new Date(),
+): ReminderFailureDecision {
+  if (reminder.attempts >= MAX_REMINDER_ATTEMPTS) return { status: "failed" };
+  const delayMs = REMINDER_RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, reminder.attempts - 1));
+  const retryAt = now.getTime() + delayMs;
+  if (retryAt >= new Date(appointmentStartUtc).getTime()) return { status: "failed" };
+  return { status: "pending", scheduledFor: new Date(retryAt).toISOString() };
+}
+
+// --- Database helpers ---
+
+/**
+ * Insert reminder rows for a new appointment from its event type's
+ * reminder_config. Existing rows (same appointment + channel + offset) are kept.
+ */
+export async function scheduleBookingReminders(
+  supabase: DbClient,
+  appointment: ReminderAppointment,
+  reminderConfig: unknown,
+  now: Date = new Date(),
+): Promise<number> {
+  const rows = buildReminderRows(appointment, normalizeReminderConfig(reminderConfig), now);
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase
+    .from("booking_reminders")
+    .upsert(rows, { onConflict: "appointment_id,reminder_key", ignoreDuplicates: true });
+
+  if (error) throw new Error(`Failed to schedule booking reminders: ${error.message}`);
+  return rows.length;
+}
+
+/** Cancel an appointment's unsent reminders */
+export async function cancelBookingReminders(
+  supabase: DbClient,
+  appointmentId: string,
+  reason: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("booking_reminders")
+    .update({ status: "cancelled", last_error: reason, locked_until: null })
+    .eq("appointment_id", appointmentId)
+    .eq("status", "pending");
+
+  if (error) throw new Error(`Failed to cancel booking reminders: ${error.message}`);
+}
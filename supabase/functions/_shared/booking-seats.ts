@@ -0,0 +1,148 @@
+// supabase/functions/_shared/booking-seats.ts
+// Host and seat rules for multi-host event types, shared by get-available-slots,
+// create-booking, reschedule-booking and cancel-booking.
+//
+// round_robin_mode:
+// - none / round_robin / availability_based: one host per booking, one booking per slot
+// - collective: every selected host attends; a slot is open only when all are free.
+//   The first member is the closer, the rest go in appointments.additional_host_ids
+// - group: one host runs a session that up to seats_per_slot invitees book into.
+//   Each invitee gets their own appointment at the same start_at_utc; together they
+//   are the session
+//
+// Pure module apart from the DB helpers at the bottom, which take the caller's client.
+
+import type { DbClient } from "./db.ts";
+
+// --- Types ---
+
+export interface SeatEventType {
+  id: string;
+  round_robin_mode?: string | null;
+  seats_per_slot?: number | null;
+}
+
+/** The appointment columns needed to work out who is busy and which seats are taken */
+export interface HostedAppointment {
+  start_at_utc: string;
+  duration_minutes?: number | null;
+  closer_id?: string | null;
+  assigned_user_id?: string | null;
+  additional_host_ids?: string[] | null;
+  event_type_id?: string | null;
+  status?: string | null;
+}
+
+// --- Constants ---
+
+/** Statuses that no longer hold a host's time or a seat */
+export const INACTIVE_BOOKING_STATUSES = ["CANCELLED", "CANCELED", "RESCHEDULED"];
+
+export const MAX_SEATS_PER_SLOT = 500;
+
+// --- Modes ---
+
+export function isCollectiveMode(mode: string | null | undefined): boolean {
+  return mode === "collective";
+}
+
+export function isGroupMode(mode: string | null | undefined): boolean {
+  return mode === "group";
+}
+
+/** Invitees per slot: seats_per_slot for group event types, otherwise 1 */
+export function getSeatCapacity(eventType: SeatEventType): number {
+  if (!isGroupMode(eventType.round_robin_mode)) return 1;
+  const seats = Math.floor(Number(eventType.seats_per_slot) || 1);
+  return Math.min(Math.max(seats, 1), MAX_SEATS_PER_SLOT);
+}
+
+// --- Hosts ---
+
+/** PostgREST .or() filter for appointments a user hosts, as closer, assignee or co-host */
+export function hostAppointmentsFilter(userId: string): string {
+  return `closer_id.eq.${userId},assigned_user_id.eq.${userId},additional_host_ids.cs.{${userId}}`;
+}
+
+export function isHostOnAppointment(appointment: HostedAppointment, userId: string): boolean {
+  return appointment.closer_id === userId ||
+    appointment.assigned_user_id === userId ||
+    (appointment.additional_host_ids || []).includes(userId);
+}
+
+export function isActiveBooking(appointment: Pick<HostedAppointment, "status">): boolean {
+  return !INACTIVE_BOOKING_STATUSES.includes((appointment.status || "").toUpperCase());
+}
+
+/**
+ * Collective hosts for a booking: the first member becomes the closer and the
+ * others co-hosts. Null when any member is busy, since everyone has to attend.
+ */
+export function assignCollectiveHosts(
+  members: string[],
+  isFree: (userId: string) => boolean,
+): { closerId: string; additionalHostIds: string[] } | null {
+  if (members.length === 0 || !members.every(isFree)) return null;
+  const [closerId, ...additionalHostIds] = members;
+  return { closerId, additionalHostIds };
+}
+
+/** Slot keys every host has open, in the first host's order */
+export function intersectHostSlots(slotKeysByHost: string[][]): string[] {
+  if (slotKeysByHost.length === 0) return [];
+  const [first, ...rest] = slotKeysByHost;
+  const others = rest.map((keys) => new Set(keys));
+  return first.filter((key) => others.every((keys) => keys.has(key)));
+}
+
+// --- Seats ---
+
+/** Normalise a timestamp to the ISO key slots are reported under */
+export function toSlotKey(value: string | Date): string {
+  return new Date(value).toISOString();
+}
+
+/** Seats taken per session start (ISO key) for one group event type */
+export function countSessionSeats(appointments: HostedAppointment[], eventTypeId: string): Map<string, number> {
+  const seats = new Map<string, number>();
+  for (const appointment of appointments) {
+    if (appointment.event_type_id !== eventTypeId || !isActiveBooking(appointment)) continue;
+    const key = toSlotKey(appointment.start_at_utc);
+    seats.set(key, (seats.get(key) || 0) + 1);
+  }
+  return seats;
+}
+
+export function getSeatsRemaining(capacity: number, taken: number): number {
+  return Math.max(capacity - taken, 0);
+}
+
+// --- DB helpers ---
+
+/**
+ * Whether other active appointments share this one's Zoom link or Google / Outlook
+ * calendar event (the other invitees of a group session). Cancel and reschedule leave shared
+ * meetings and events alone.
+ */
+export async function isSharedWithOtherBookings(
+  supabase: DbClient,
+  appointment: {
+    id: string;
+    meeting_link?: string | null;
+    google_calendar_event_id?: string | null;
+    outlook_event_id?: string | null;
+  },
+  column: "meeting_link" | "google_calendar_event_id" | "outlook_event_id",
+): Promise<boolean> {
+  const value = appointment[column];
+  if (!value) return false;
+
+  const { count } = await supabase
+    .from("appointments")
+    .select("id", { count: "exact", head: true })
+    .eq(column, value)
+    .neq("id", appointment.id)
+    .not("status", "in", `(${INACTIVE_BOOKING_STATUSES.join(",")})`);
+
+  return (count || 0) > 0;
+}
@@ -0,0 +1,417 @@
+// supabase/functions/_shared/booking-waitlist.ts
+// Waitlist for fully booked native event types, shared by join-waitlist,
+// claim-waitlist-offer, process-waitlist-offers, create-booking,
+// get-available-slots, cancel-booking and reschedule-booking.
+//
+// An invitee joins for one date (preferred_date) or for the first opening (NULL).
+// When a booking is cancelled or moved, the freed slot is offered to the oldest
+// eligible entry by email / SMS with a claim link. While the offer is pending (or
+// claiming, while its claim link books it) the slot is held: it drops out of
+// get-available-slots and create-booking only accepts it with the offer's claim
+// token. Expired offers pass to the next entry.
+//
+// Pure module apart from the DB helpers at the bottom, which take the caller's client.
+
+import { INACTIVE_BOOKING_STATUSES, isGroupMode } from "./booking-seats.ts";
+import type { DbClient } from "./db.ts";
+
+// --- Types ---
+
+export type WaitlistStatus = "waiting" | "offered" | "booked" | "expired" | "cancelled";
+export type WaitlistOfferStatus = "pending" | "claiming" | "claimed" | "expired" | "superseded";
+
+/** Value of meta.waitlistEvent on the waitlist_updated automation trigger */
+export type WaitlistEvent = "joined" | "offered" | "claimed" | "offer_expired";
+
+export interface WaitlistEntry {
+  id: string;
+  team_id: string;
+  event_type_id: string;
+  name: string;
+  email: string;
+  phone?: string | null;
+  timezone?: string | null;
+  preferred_date?: string | null; // YYYY-MM-DD in the entry's timezone; null = first opening
+  status: WaitlistStatus;
+  created_at: string;
+}
+
+export interface WaitlistOffer {
+  id: string;
+  team_id: string;
+  waitlist_id: string;
+  event_type_id: string;
+  slot_start_utc: string;
+  host_id?: string | null;
+  claim_token: string;
+  status: WaitlistOfferStatus;
+  expires_at: string;
+}
+
+/** The event type columns offerFreedSlot reads */
+interface OfferEventType {
+  id: string;
+  name: string;
+  is_active: boolean | null;
+  round_robin_mode: string | null;
+  waitlist_enabled: boolean;
+  waitlist_claim_minutes: number | null;
+  min_notice_hours: number | null;
+}
+
+/** A slot a cancellation or reschedule just gave back */
+export interface FreedSlot {
+  team_id: string;
+  event_type_id: string;
+  start_at_utc: string;
+  host_id?: string | null;
+  freed_appointment_id?: string | null;
+}
+
+export interface OfferMessage {
+  subject: string;
+  emailBody: string;
+  smsBody: string;
+}
+
+// --- Constants ---
+
+export const WAITLIST_EVENTS: WaitlistEvent[] = ["joined", "offered", "claimed", "offer_expired"];
+
+export const DEFAULT_WAITLIST_CLAIM_MINUTES = 30;
+export const MIN_WAITLIST_CLAIM_MINUTES = 5;
+export const MAX_WAITLIST_CLAIM_MINUTES = 1440;
+
+/** Entries still in line for a slot */
+export const OPEN_WAITLIST_STATUSES: WaitlistStatus[] = ["waiting", "offered"];
+
+/** Offers holding their slot: unclaimed, or mid-booking through the claim link */
+export const HELD_OFFER_STATUSES: WaitlistOfferStatus[] = ["pending", "claiming"];
+
+/** A claim still in flight after this long died mid-booking, and its offer expires */
+export const WAITLIST_CLAIM_STALE_MINUTES = 10;
+
+const DEFAULT_TIMEZONE = "America/New_York";
+
+// --- Helpers ---
+
+/** Claim window from event_types.waitlist_claim_minutes, clamped to 5 minutes .. 24 hours */
+export function getClaimMinutes(eventType: { waitlist_claim_minutes?: number | null }): number {
+  const minutes = Number(eventType.waitlist_claim_minutes);
+  if (!Number.isFinite(minutes) || minutes <= 0) return DEFAULT_WAITLIST_CLAIM_MINUTES;
+  return Math.min(MAX_WAITLIST_CLAIM_MINUTES, Math.max(MIN_WAITLIST_CLAIM_MINUTES, Math.round(minutes)));
+}
+
+/** Local date (YYYY-MM-DD) and 24h time (HH:mm) of a UTC instant in a timezone */
+export function toLocalDateTime(isoUtc: string, timezone: string | null | undefined): { date: string; time: string } {
+  const format = (tz: string) => {
+    const parts = new Intl.DateTimeFormat("en-CA", {
+      timeZone: tz,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(new Date(isoUtc));
+    const get = (type: string) => parts.find((p) => p.type === type)?.value || "00";
+    return { date: `${get("year")}-${get("month")}-${get("day")}`, time: `${get("hour")}:${get("minute")}` };
+  };
+
+  try {
+    return format(timezone || DEFAULT_TIMEZONE);
+  } catch {
+    return format("UTC");
+  }
+}
+
+/** An entry fits a slot when it waits for the first opening or for the slot's date in its own timezone */
+export function isEligibleForSlot(entry: Pick<WaitlistEntry, "preferred_date" | "timezone">, slotStartUtc: string): boolean {
+  if (!entry.preferred_date) return true;
+  return toLocalDateTime(slotStartUtc, entry.timezone).date === entry.preferred_date;
+}
+
+/**
+ * Next entry to offer a slot to: the oldest waiting entry that fits it and hasn't
+ * already been offered this slot.
+ */
+export function pickNextCandidate<T extends Pick<WaitlistEntry, "id" | "status" | "preferred_date" | "timezone" | "created_at">>(
+  entries: T[],
+  slotStartUtc: string,
+  alreadyOfferedIds: Iterable<string> = [],
+): T | null {
+  const skip = new Set(alreadyOfferedIds);
+  const candidates = entries
+    .filter((e) => e.status === "waiting" && !skip.has(e.id) && isEligibleForSlot(e, slotStartUtc))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return candidates[0] || null;
+}
+
+/**
+ * When an offer stops holding the slot: the claim window, cut short so the
+ * invitee can still book before the event type's minimum notice. Null when
+ * there's no usable window left.
+ */
+export function getOfferExpiry(
+  slotStartUtc: string,
+  claimMinutes: number,
+  minNoticeHours: number,
+  now: Date = new Date(),
+): Date | null {
+  const claimEnd = now.getTime() + claimMinutes * 60 * 1000;
+  const bookingDeadline = new Date(slotStartUtc).getTime() - minNoticeHours * 60 * 60 * 1000;
+  const expiresAt = Math.min(claimEnd, bookingDeadline);
+  if (expiresAt - now.getTime() < MIN_WAITLIST_CLAIM_MINUTES * 60 * 1000) return null;
+  return new Date(expiresAt);
+}
+
+export function buildClaimUrl(appUrl: string, claimToken: string): string {
+  return `${appUrl.replace(/\/+$/, "")}/waitlist/${claimToken}`;
+}
+
+function formatInTimezone(date: Date, timezone: string, options: Intl.DateTimeFormatOptions): string {
+  try {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: timezone }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" }).format(date);
+  }
+}
+
+/** Email and SMS copy for a slot offer, with times in the entry's timezone */
+export function renderOfferMessage(
+  entry: Pick<WaitlistEntry, "name" | "timezone">,
+  eventTypeName: string,
+  slotStartUtc: string,
+  expiresAt: Date,
+  claimUrl: string,
+): OfferMessage {
+  const timezone = entry.timezone || DEFAULT_TIMEZONE;
+  const firstName = (entry.name || "").split(" ")[0] || "there";
+  const slotLabel = formatInTimezone(new Date(slotStartUtc), timezone, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  const expiryLabel = formatInTimezone(expiresAt, timezone, { hour: "numeric", minute: "2-digit" });
+
+  return {
+    subject: `A spot opened up: ${eventTypeName}`,
+    emailBody: [
+      `Hi ${firstName},`,
+      `A time just opened up for ${eventTypeName} on ${slotLabel} (${timezone}).`,
+      `It's held for you until ${expiryLabel}. Claim it here: ${claimUrl}`,
+      "If it doesn't suit you, just ignore this message and we'll offer it to the next person.",
+    ].join("\n\n"),
+    smsBody: `A spot opened up for ${eventTypeName} on ${slotLabel}. Held for you until ${expiryLabel}: ${claimUrl}`,
+  };
+}
+
+/** eventPayload for the waitlist_updated automation trigger */
+export function buildWaitlistTriggerPayload(
+  event: WaitlistEvent,
+  entry: Pick<WaitlistEntry, "id" | "event_type_id" | "name" | "email" | "phone" | "preferred_date">,
+  extra: { slotStartUtc?: string; expiresAt?: string; claimUrl?: string; appointmentId?: string } = {},
+) {
+  return {
+    lead: {
+      name: entry.name,
+      email: entry.email,
+      phone: entry.phone || null,
+    },
+    meta: {
+      waitlistEvent: event,
+      waitlist: {
+        id: entry.id,
+        event_type_id: entry.event_type_id,
+        preferred_date: entry.preferred_date || null,
+        slot_start_utc: extra.slotStartUtc || null,
+        expires_at: extra.expiresAt || null,
+        claim_url: extra.claimUrl || null,
+        appointment_id: extra.appointmentId || null,
+      },
+    },
+  };
+}
+
+// --- DB helpers ---
+
+/** The unexpired offer holding a slot, if any */
+export async function getPendingSlotOffer(
+  supabase: DbClient,
+  eventTypeId: string,
+  slotStartUtc: string,
+  now: Date = new Date(),
+): Promise<WaitlistOffer | null> {
+  const { data } = await supabase
+    .from("booking_waitlist_offers")
+    .select("*")
+    .eq("event_type_id", eventTypeId)
+    .eq("slot_start_utc", slotStartUtc)
+    .in("status", HELD_OFFER_STATUSES)
+    .gt("expires_at", now.toISOString())
+    .maybeSingle<WaitlistOffer>();
+
+  return data || null;
+}
+
+/** Start times (ISO) of slots held by unexpired offers in a range */
+export async function getHeldSlotKeys(
+  supabase: DbClient,
+  eventTypeId: string,
+  rangeStart: string,
+  rangeEnd: string,
+  now: Date = new Date(),
+): Promise<Set<string>> {
+  const { data } = await supabase
+    .from("booking_waitlist_offers")
+    .select("slot_start_utc")
+    .eq("event_type_id", eventTypeId)
+    .in("status", HELD_OFFER_STATUSES)
+    .gt("expires_at", now.toISOString())
+    .gte("slot_start_utc", rangeStart)
+    .lte("slot_start_utc", rangeEnd)
+    .returns<{ slot_start_utc: string }[]>();
+
+  return new Set((data || []).map((o) => new Date(o.slot_start_utc).toISOString()));
+}
+
+export async function fireWaitlistTrigger(
+  supabase: DbClient,
+  teamId: string,
+  event: WaitlistEvent,
+  entry: Pick<WaitlistEntry, "id" | "event_type_id" | "name" | "email" | "phone" | "preferred_date">,
+  extra: Parameters<typeof buildWaitlistTriggerPayload>[2] = {},
+): Promise<void> {
+  try {
+    await supabase.functions.invoke("automation-trigger", {
+      body: {
+        triggerType: "waitlist_updated",
+        teamId,
+        eventPayload: buildWaitlistTriggerPayload(event, entry, extra),
+      },
+    });
+  } catch (err) {
+    console.error(`[booking-waitlist] waitlist_updated (${event}) trigger error:`, err);
+  }
+}
+
+/**
+ * Offer a freed slot to the next eligible waitlist entry. Returns the offer, or
+ * null when the event type has no waitlist, nobody fits, the slot is already held
+ * or it is too close to start. Entries in excludeWaitlistIds (already offered this
+ * slot) are skipped.
+ */
+export async function offerFreedSlot(
+  supabase: DbClient,
+  slot: FreedSlot,
+  appUrl: string,
+  excludeWaitlistIds: string[] = [],
+  now: Date = new Date(),
+): Promise<WaitlistOffer | null> {
+  const slotStartUtc = new Date(slot.start_at_utc).toISOString();
+
+  const { data: eventType } = await supabase
+    .from("event_types")
+    .select("id, name, is_active, round_robin_mode, waitlist_enabled, waitlist_claim_minutes, min_notice_hours")
+    .eq("id", slot.event_type_id)
+    .maybeSingle<OfferEventType>();
+
+  if (!eventType?.is_active || !eventType.waitlist_enabled) return null;
+
+  const expiresAt = getOfferExpiry(slotStartUtc, getClaimMinutes(eventType), eventType.min_notice_hours || 1, now);
+  if (!expiresAt) return null;
+
+  if (await getPendingSlotOffer(supabase, slot.event_type_id, slotStartUtc, now)) return null;
+
+  // Someone may have booked it between the hold lapsing and this offer (group sessions keep taking seats)
+  if (!isGroupMode(eventType.round_robin_mode)) {
+    const { count: booked } = await supabase
+      .from("appointments")
+      .select("id", { count: "exact", head: true })
+      .eq("event_type_id", slot.event_type_id)
+      .eq("start_at_utc", slotStartUtc)
+      .not("status", "in", `(${INACTIVE_BOOKING_STATUSES.join(",")})`);
+    if ((booked || 0) > 0) return null;
+  }
+
+  const { data: entries } = await supabase
+    .from("booking_waitlist")
+    .select("id, team_id, event_type_id, name, email, phone, timezone, preferred_date, status, created_at")
+    .eq("event_type_id", slot.event_type_id)
+    .eq("status", "waiting")
+    .order("created_at", { ascending: true })
+    .returns<WaitlistEntry[]>();
+
+  const skip = new Set(excludeWaitlistIds);
+  for (;;) {
+    const entry = pickNextCandidate(entries || [], slotStartUtc, skip);
+    if (!entry) return null;
+    skip.add(entry.id);
+
+    // Take the entry out of the queue; a concurrent offer may have got there first
+    const { data: taken } = await supabase
+      .from("booking_waitlist")
+      .update({ status: "offered", updated_at: now.toISOString() })
+      .eq("id", entry.id)
+      .eq("status", "waiting")
+      .select("id")
+      .maybeSingle();
+    if (!taken) continue;
+
+    const { data: offer, error: offerError } = await supabase
+      .from("booking_waitlist_offers")
+      .insert({
+        team_id: slot.team_id,
+        waitlist_id: entry.id,
+        event_type_id: slot.event_type_id,
+        slot_start_utc: slotStartUtc,
+        host_id: slot.host_id || null,
+        freed_appointment_id: slot.freed_appointment_id || null,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select()
+      .single<WaitlistOffer>();
+
+    if (offerError || !offer) {
+      // Another run already holds this slot (one pending offer per slot): put the entry back
+      await supabase
+        .from("booking_waitlist")
+        .update({ status: "waiting", updated_at: now.toISOString() })
+        .eq("id", entry.id)
+        .eq("status", "offered");
+      return null;
+    }
+
+    const claimUrl = buildClaimUrl(appUrl, offer.claim_token);
+    const message = renderOfferMessage(entry, eventType.name, slotStartUtc, expiresAt, claimUrl);
+
+    try {
+      await supabase.functions.invoke("send-email", {
+        body: {
+          to: entry.email,
+          subject: message.subject,
+          body: message.emailBody,
+          teamId: slot.team_id,
+          template: "waitlist_offer",
+        },
+      });
+      if (entry.phone) {
+        await supabase.functions.invoke("send-sms", {
+          body: { to: entry.phone, body: message.smsBody, teamId: slot.team_id },
+        });
+      }
+    } catch (sendErr) {
+      console.error(`[booking-waitlist] Failed to send offer ${offer.id}:`, sendErr);
+    }
+
+    await fireWaitlistTrigger(supabase, slot.team_id, "offered", entry, {
+      slotStartUtc,
+      expiresAt: offer.expires_at,
+      claimUrl,
+    });
+
+    return offer;
+  }
+}
@@ -0,0 +1,314 @@
+// supabase/functions/_shared/contact-dedupe.ts
+// Duplicate contact detection and merge planning, shared by the contacts
+// duplicate finder and its tests.
+//
+// Candidate pairs come from contacts sharing a normalized email or phone; the
+// name only adds confidence. The merge itself runs in the merge_contacts()
+// database function, which applies the values built here, re-points the
+// duplicate's history to the survivor and records everything undo needs.
+
+// --- Types ---
+
+export interface DedupeContact {
+  id: string;
+  name?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  company_name?: string | null;
+  website?: string | null;
+  address_1?: string | null;
+  address_2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postal_code?: string | null;
+  country?: string | null;
+  timezone?: string | null;
+  date_of_birth?: string | null;
+  source?: string | null;
+  contact_type?: string | null;
+  owner_user_id?: string | null;
+  funnel_lead_id?: string | null;
+  tags?: string[] | null;
+  custom_fields?: Record<string, unknown> | null;
+  dnd_sms?: boolean | null;
+  dnd_email?: boolean | null;
+  dnd_voice?: boolean | null;
+  opt_in?: boolean | null;
+  calendly_booked_at?: string | null;
+  last_activity_at?: string | null;
+  engagement_score?: number | null;
+  created_at: string;
+}
+
+export type DuplicateMatchReason = "email" | "phone" | "name";
+
+export interface DuplicatePair {
+  /** Suggested survivor: the contact seen first */
+  survivor: DedupeContact;
+  duplicate: DedupeContact;
+  score: number;
+  reasons: DuplicateMatchReason[];
+}
+
+export type MergeFieldKey =
+  | "name"
+  | "first_name"
+  | "last_name"
+  | "email"
+  | "phone"
+  | "company_name"
+  | "website"
+  | "address_1"
+  | "address_2"
+  | "city"
+  | "state"
+  | "postal_code"
+  | "country"
+  | "timezone"
+  | "date_of_birth"
+  | "source"
+  | "contact_type";
+
+/** Which record each picked field's value comes from */
+export type MergeSelection = Partial<Record<MergeFieldKey, "survivor" | "duplicate">>;
+
+// --- Constants ---
+
+export const MATCH_WEIGHTS: Record<DuplicateMatchReason, number> = {
+  email: 60,
+  phone: 50,
+  name: 25,
+};
+
+/** Taken off when both records have an email and they differ: shared phones are common in households */
+export const EMAIL_CONFLICT_PENALTY = 20;
+
+/** Lowest score shown in the duplicate finder */
+export const DUPLICATE_SCORE_THRESHOLD = 50;
+
+/** Fields the merge UI lets you pick, in display order */
+export const MERGE_FIELDS: { key: MergeFieldKey; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "first_name", label: "First name" },
+  { key: "last_name", label: "Last name" },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone" },
+  { key: "company_name", label: "Company" },
+  { key: "website", label: "Website" },
+  { key: "address_1", label: "Address" },
+  { key: "address_2", label: "Address line 2" },
+  { key: "city", label: "City" },
+  { key: "state", label: "State" },
+  { key: "postal_code", label: "Postal code" },
+  { key: "country", label: "Country" },
+  { key: "timezone", label: "Timezone" },
+  { key: "date_of_birth", label: "Date of birth" },
+  { key: "source", label: "Source" },
+  { key: "contact_type", label: "Type" },
+];
+
+/** Columns merge_contacts() accepts: the picked fields plus those combined automatically */
+export const MERGE_COLUMNS = [
+  ...MERGE_FIELDS.map((field) => field.key),
+  "owner_user_id",
+  "funnel_lead_id",
+  "tags",
+  "custom_fields",
+  "dnd_sms",
+  "dnd_email",
+  "dnd_voice",
+  "opt_in",
+  "calendly_booked_at",
+  "last_activity_at",
+  "engagement_score",
+] as const;
+
+// --- Normalization ---
+// normalize_contact_email() / normalize_contact_phone() in the contact merges
+// migration mirror these; change both together.
+
+export function normalizeContactEmail(email: string | null | undefined): string | null {
+  const normalized = email?.trim().toLowerCase();
+  return normalized && normalized.includes("@") ? normalized : null;
+}
+
+/**
+ * Digits only, so "+1 (555) 123-4567", "5551234567" and "whatsapp:+15551234567"
+ * compare equal. A leading NANP country code is dropped.
+ */
+export function normalizeContactPhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+  let digits = phone.replace(/^whatsapp:/i, "").replace(/\D/g, "");
+  if (digits.length === 11 && digits.startsWith("1")) digits = digits.slice(1);
+  return digits.length >= 7 ? digits : null;
+}
+
+/** Lowercase, accents and punctuation stripped, word order ignored */
+export function normalizeContactName(contact: Pick<DedupeContact, "name" | "first_name" | "last_name">): string | null {
+  const raw = contact.name?.trim() || `${contact.first_name || ""} ${contact.last_name || ""}`.trim();
+  if (!raw) return null;
+  const words = raw
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  return words.length > 0 ? words.sort().join(" ") : null;
+}
+
+// --- Scoring ---
+
+/** Confidence (0-100) that two contacts are the same person, with what matched */
+export function scoreContactPair(
+  a: DedupeContact,
+  b: DedupeContact,
+): { score: number; reasons: DuplicateMatchReason[] } {
+  const reasons: DuplicateMatchReason[] = [];
+  let score = 0;
+
+  const emailA = normalizeContactEmail(a.email);
+  const emailB = normalizeContactEmail(b.email);
+  if (emailA && emailA === emailB) {
+    reasons.push("email");
+    score += MATCH_WEIGHTS.email;
+  } else if (emailA && emailB) {
+    score -= EMAIL_CONFLICT_PENALTY;
+  }
+
+  const phoneA = normalizeContactPhone(a.phone);
+  if (phoneA && phoneA === normalizeContactPhone(b.phone)) {
+    reasons.push("phone");
+    score += MATCH_WEIGHTS.phone;
+  }
+
+  const nameA = normalizeContactName(a);
+  if (nameA && nameA === normalizeContactName(b)) {
+    reasons.push("name");
+    score += MATCH_WEIGHTS.name;
+  }
+
+  return { score: Math.max(0, Math.min(100, score)), reasons };
+}
+
+/** The record seen first survives by default; its id is what older links already use */
+export function pickSurvivor(a: DedupeContact, b: DedupeContact): [DedupeContact, DedupeContact] {
+  const aTime = Date.parse(a.created_at);
+  const bTime = Date.parse(b.created_at);
+  if (aTime !== bTime) return aTime < bTime ? [a, b] : [b, a];
+  return a.id < b.id ? [a, b] : [b, a];
+}
+
+/**
+ * Candidate pairs at or above the threshold, best first. Only contacts sharing
+ * an email or phone are compared, so large lists stay cheap.
+ */
+export function findDuplicatePairs(
+  contacts: DedupeContact[],
+  threshold = DUPLICATE_SCORE_THRESHOLD,
+): DuplicatePair[] {
+  const buckets = new Map<string, DedupeContact[]>();
+  const addToBucket = (key: string, contact: DedupeContact) => {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(contact);
+    else buckets.set(key, [contact]);
+  };
+
+  for (const contact of contacts) {
+    const email = normalizeContactEmail(contact.email);
+    const phone = normalizeContactPhone(contact.phone);
+    if (email) addToBucket(`email:${email}`, contact);
+    if (phone) addToBucket(`phone:${phone}`, contact);
+  }
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [survivor, duplicate] = pickSurvivor(bucket[i], bucket[j]);
+        if (survivor.id === duplicate.id) continue;
+        const key = `${survivor.id}:${duplicate.id}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const { score, reasons } = scoreContactPair(survivor, duplicate);
+        if (score >= threshold) pairs.push({ survivor, duplicate, score, reasons });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score || Date.parse(b.duplicate.created_at) - Date.parse(a.duplicate.created_at));
+}
+
+// --- Merge planning ---
+
+function hasValue(value: unknown): boolean {
+  return value !== null && value !== undefined && String(value).trim() !== "";
+}
+
+/** Keep the survivor's value unless it's empty and the duplicate has one */
+export function defaultMergeSelection(survivor: DedupeContact, duplicate: DedupeContact): MergeSelection {
+  const selection: MergeSelection = {};
+  for (const { key } of MERGE_FIELDS) {
+    selection[key] = !hasValue(survivor[key]) && hasValue(duplicate[key]) ? "duplicate" : "survivor";
+  }
+  return selection;
+}
+
+/** Picked fields where both records have a value and the values differ */
+export function getConflictingFields(survivor: DedupeContact, duplicate: DedupeContact): MergeFieldKey[] {
+  return MERGE_FIELDS.map((field) => field.key).filter(
+    (key) => hasValue(survivor[key]) && hasValue(duplicate[key]) && String(survivor[key]).trim() !== String(duplicate[key]).trim(),
+  );
+}
+
+function laterOf(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a || !b) return a || b || null;
+  return Date.parse(a) >= Date.parse(b) ? a : b;
+}
+
+function earlierOf(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a || !b) return a || b || null;
+  return Date.parse(a) <= Date.parse(b) ? a : b;
+}
+
+/**
+ * The survivor's values after the merge. Picked fields follow the selection;
+ * tags are combined, custom fields merged with the survivor winning per key, and
+ * a do-not-disturb flag on either record is kept.
+ */
+export function buildMergedValues(
+  survivor: DedupeContact,
+  duplicate: DedupeContact,
+  selection: MergeSelection = defaultMergeSelection(survivor, duplicate),
+): Record<(typeof MERGE_COLUMNS)[number], unknown> {
+  const picked = {} as Record<MergeFieldKey, unknown>;
+  for (const { key } of MERGE_FIELDS) {
+    const source = selection[key] === "duplicate" ? duplicate : survivor;
+    picked[key] = source[key] ?? null;
+  }
+
+  const tags = [...new Set([...(survivor.tags || []), ...(duplicate.tags || [])])];
+
+  return {
+    ...picked,
+    owner_user_id: survivor.owner_user_id || duplicate.owner_user_id || null,
+    funnel_lead_id: survivor.funnel_lead_id || duplicate.funnel_lead_id || null,
+    tags,
+    custom_fields: { ...(duplicate.custom_fields || {}), ...(survivor.custom_fields || {}) },
+    dnd_sms: !!(survivor.dnd_sms || duplicate.dnd_sms),
+    dnd_email: !!(survivor.dnd_email || duplicate.dnd_email),
+    dnd_voice: !!(survivor.dnd_voice || duplicate.dnd_voice),
+    opt_in: !!(survivor.opt_in || duplicate.opt_in),
+    calendly_booked_at: earlierOf(survivor.calendly_booked_at, duplicate.calendly_booked_at),
+    last_activity_at: laterOf(survivor.last_activity_at, duplicate.last_activity_at),
+    engagement_score:
+      survivor.engagement_score == null && duplicate.engagement_score == null
+        ? null
+        : Math.max(survivor.engagement_score ?? 0, duplicate.engagement_score ?? 0),
+  };
+}
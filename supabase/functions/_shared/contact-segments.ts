@@ -0,0 +1,426 @@
+// supabase/functions/_shared/contact-segments.ts
+// Saved contact segments: the fields a segment can filter on, validation, and
+// paging through a team's contacts with the shared condition engine. Shared by
+// evaluate-segment, the segment bulk jobs in process-scheduled-jobs and the
+// segments dialog.
+//
+// A segment is the condition list automation steps use, checked per contact
+// against { lead: contact, deal: latest appointment }. Pages are keyset on
+// contacts.id: a page reports the last contact it evaluated and the next page
+// starts after it, so matches never shift between pages as contacts change.
+//
+// Pure module apart from the DB helpers at the bottom, which take the caller's client.
+
+import {
+  evaluateConditions,
+  type ConditionLogic,
+  type ConditionValueType,
+  type EngineCondition,
+  type EngineOptions,
+} from "./automation-engine.ts";
+import {
+  getConditionValueType,
+  getCustomFieldConditionTypes,
+  sortCustomFields,
+  type CustomFieldDefinition,
+} from "./custom-fields.ts";
+import type { DbClient } from "./db.ts";
+
+// --- Types ---
+
+export interface SegmentDefinition {
+  name: string;
+  conditions: EngineCondition[];
+  condition_logic: ConditionLogic;
+}
+
+export interface SegmentField {
+  /** Condition path, e.g. lead.tags or lead.custom_fields.budget */
+  key: string;
+  label: string;
+  type: ConditionValueType;
+  group: string;
+}
+
+export interface SegmentContact {
+  id: string;
+  email?: string | null;
+  tags?: string[] | null;
+  custom_fields?: Record<string, unknown> | null;
+  [column: string]: unknown;
+}
+
+/** The contact's latest appointment, matched by email; `deal.*` conditions read it */
+export interface SegmentDeal {
+  id: string;
+  lead_email: string;
+  pipeline_stage: string | null;
+  status: string | null;
+  start_at_utc: string | null;
+}
+
+export type SegmentActionType = "add_tag" | "remove_tag" | "enroll";
+
+export interface SegmentAction {
+  type: SegmentActionType;
+  tag?: string;
+  automationId?: string;
+  automationName?: string;
+}
+
+export interface SegmentScanOptions {
+  cursor?: string | null;
+  /** Stop once this many contacts matched */
+  limit: number;
+  /** Stop once this many contacts were evaluated, matched or not */
+  maxScan: number;
+  /** false for counts: only tally matches instead of returning them */
+  collect?: boolean;
+  engineOptions?: EngineOptions;
+}
+
+export interface SegmentScanResult {
+  matches: SegmentContact[];
+  matched: number;
+  scanned: number;
+  /** Where the next page starts; null once every contact has been evaluated */
+  nextCursor: string | null;
+}
+
+export interface SegmentPage<C extends SegmentContact = SegmentContact> {
+  matches: C[];
+  /** Id of the last contact evaluated; null when there was nothing to evaluate */
+  cursor: string | null;
+  scanned: number;
+}
+
+// --- Constants ---
+
+export const SEGMENT_PAGE_SIZE = 50;
+export const MAX_SEGMENT_PAGE_SIZE = 200;
+
+/** Contacts read from the database per query while paging */
+export const SEGMENT_SCAN_BATCH_SIZE = 500;
+
+/** Contacts one preview request evaluates before returning a short page */
+export const SEGMENT_MAX_SCAN_PER_REQUEST = 5000;
+
+/** Contacts a count evaluates before giving up and reporting a lower bound */
+export const SEGMENT_COUNT_SCAN_LIMIT = 50000;
+
+/** Matched contacts a tag job updates per process-scheduled-jobs tick */
+export const SEGMENT_JOB_PAGE_SIZE = 200;
+
+/** Enrollments run the workflow inline, so an enroll job takes fewer per tick */
+export const SEGMENT_ENROLL_PAGE_SIZE = 25;
+
+/** Bulk jobs advanced per tick, oldest first */
+export const SEGMENT_JOBS_PER_TICK = 3;
+
+/** How long a claimed bulk job stays invisible to other workers */
+export const SEGMENT_JOB_LEASE_SECONDS = 240;
+
+export const SEGMENT_CONTACT_COLUMNS =
+  "id, team_id, name, first_name, last_name, email, phone, company_name, timezone, tags, custom_fields, " +
+  "source, contact_type, owner_user_id, engagement_score, dnd_sms, dnd_email, dnd_voice, opt_in, " +
+  "created_at, updated_at, last_activity_at";
+
+export const SEGMENT_FIELDS: SegmentField[] = [
+  { key: "lead.tags", label: "Tags", type: "array", group: "Contact" },
+  { key: "lead.name", label: "Name", type: "string", group: "Contact" },
+  { key: "lead.email", label: "Email", type: "string", group: "Contact" },
+  { key: "lead.phone", label: "Phone", type: "string", group: "Contact" },
+  { key: "lead.source", label: "Source", type: "string", group: "Contact" },
+  { key: "lead.contact_type", label: "Contact Type", type: "string", group: "Contact" },
+  { key: "lead.engagement_score", label: "Engagement Score", type: "number", group: "Contact" },
+  { key: "lead.created_at", label: "Created", type: "date", group: "Contact" },
+  { key: "lead.last_activity_at", label: "Last Activity", type: "date", group: "Contact" },
+  { key: "lead.opt_in", label: "Opted In", type: "boolean", group: "Contact" },
+  { key: "lead.dnd_sms", label: "DND SMS", type: "boolean", group: "Contact" },
+  { key: "lead.dnd_email", label: "DND Email", type: "boolean", group: "Contact" },
+  { key: "deal.pipeline_stage", label: "Pipeline Stage", type: "string", group: "Pipeline" },
+  { key: "deal.status", label: "Latest Appointment Status", type: "string", group: "Pipeline" },
+  { key: "deal.start_at_utc", label: "Latest Appointment Date", type: "date", group: "Pipeline" },
+];
+
+/** Operators that test the field alone */
+const VALUELESS_OPERATORS = new Set([
+  "is_set",
+  "is_not_set",
+  "is_empty",
+  "is_not_empty",
+  "exists",
+  "not_exists",
+  "is_true",
+  "is_false",
+]);
+
+// --- Fields ---
+
+/** Built-in fields followed by the team's typed custom fields */
+export function getSegmentFields(customFields: CustomFieldDefinition[] = []): SegmentField[] {
+  return [
+    ...SEGMENT_FIELDS,
+    ...sortCustomFields(customFields).map((field) => ({
+      key: `lead.custom_fields.${field.key}`,
+      label: field.label,
+      type: getConditionValueType(field.field_type),
+      group: "Custom Fields",
+    })),
+  ];
+}
+
+// --- Definitions ---
+
+/** Trims a stored or submitted segment into the shape the engine reads */
+export function normalizeSegment(raw: Record<string, unknown>): SegmentDefinition {
+  const conditions: Array<Partial<EngineCondition> | null> = Array.isArray(raw?.conditions) ? raw.conditions : [];
+  return {
+    name: String(raw?.name ?? "").trim(),
+    conditions: conditions.map((condition) => ({
+      field: String(condition?.field ?? "").trim(),
+      operator: String(condition?.operator ?? "").trim(),
+      value: condition?.value ?? null,
+    })),
+    condition_logic: raw?.condition_logic === "OR" ? "OR" : "AND",
+  };
+}
+
+export function conditionNeedsValue(operator: string): boolean {
+  return !VALUELESS_OPERATORS.has(operator);
+}
+
+function isBlankValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0 || value.some(isBlankValue);
+  return value === null || value === undefined || String(value).trim() === "";
+}
+
+/** Returns an error message, or null when the segment can be saved */
+export function validateSegment(segment: SegmentDefinition): string | null {
+  if (!segment.name.trim()) return "Name is required";
+  if (segment.conditions.length === 0) return "Add at least one condition";
+
+  for (const [index, condition] of segment.conditions.entries()) {
+    const label = `Condition ${index + 1}`;
+    if (!condition.field) return `${label} needs a field`;
+    if (!condition.operator) return `${label} needs an operator`;
+    if (!conditionNeedsValue(condition.operator)) continue;
+    if (isBlankValue(condition.value)) return `${label} needs a value`;
+    if (condition.operator === "between" && (!Array.isArray(condition.value) || condition.value.length !== 2)) {
+      return `${label} needs two values, e.g. 1000, 5000`;
+    }
+  }
+  return null;
+}
+
+// --- Evaluation ---
+
+/** Only segments filtering on deal.* need appointments loaded */
+export function needsSegmentDeals(segment: SegmentDefinition): boolean {
+  return segment.conditions.some((condition) => condition.field.startsWith("deal."));
+}
+
+/** Latest appointment per lowercased email */
+export function indexLatestDeals(deals: SegmentDeal[]): Map<string, SegmentDeal> {
+  const latest = new Map<string, SegmentDeal>();
+  for (const deal of deals) {
+    const email = deal.lead_email?.trim().toLowerCase();
+    if (!email) continue;
+    const current = latest.get(email);
+    if (!current || (deal.start_at_utc ?? "") > (current.start_at_utc ?? "")) {
+      latest.set(email, deal);
+    }
+  }
+  return latest;
+}
+
+export function buildSegmentContext(
+  contact: SegmentContact,
+  deal: SegmentDeal | null | undefined,
+  now: Date = new Date(),
+): Record<string, unknown> {
+  return {
+    now: now.toISOString(),
+    lead: contact,
+    deal: deal ?? null,
+  };
+}
+
+/** Typed custom fields compare by type, as they do in automation conditions */
+export function getSegmentEngineOptions(customFields: CustomFieldDefinition[] = [], now?: () => number): EngineOptions {
+  return { fieldTypes: getCustomFieldConditionTypes(customFields), now };
+}
+
+export function matchesSegment(
+  segment: SegmentDefinition,
+  context: Record<string, unknown>,
+  options: EngineOptions = {},
+): boolean {
+  // evaluateConditions treats an empty list as "everyone"; a saved segment never does
+  if (segment.conditions.length === 0) return false;
+  return evaluateConditions(segment.conditions, context, segment.condition_logic, options);
+}
+
+/**
+ * Evaluates contacts (already in id order) until `limit` match. The returned
+ * cursor is the last contact evaluated, so the next page resumes right after
+ * it without skipping or repeating anyone.
+ */
+export function collectSegmentPage<C extends SegmentContact>(
+  contacts: C[],
+  segment: SegmentDefinition,
+  limit: number,
+  deals: Map<string, SegmentDeal> = new Map(),
+  options: EngineOptions = {},
+): SegmentPage<C> {
+  const matches: C[] = [];
+  let cursor: string | null = null;
+  let scanned = 0;
+  const now = options.now ? new Date(options.now()) : new Date();
+
+  for (const contact of contacts) {
+    if (matches.length >= limit) break;
+    scanned++;
+    cursor = contact.id;
+    const deal = contact.email ? deals.get(contact.email.trim().toLowerCase()) : undefined;
+    if (matchesSegment(segment, buildSegmentContext(contact, deal, now), options)) {
+      matches.push(contact);
+    }
+  }
+
+  return { matches, cursor, scanned };
+}
+
+export function clampSegmentPageSize(limit: unknown): number {
+  const size = Math.floor(Number(limit));
+  if (!Number.isFinite(size) || size <= 0) return SEGMENT_PAGE_SIZE;
+  return Math.min(size, MAX_SEGMENT_PAGE_SIZE);
+}
+
+// --- Bulk actions ---
+
+export function validateSegmentAction(action: SegmentAction | null | undefined): string | null {
+  switch (action?.type) {
+    case "add_tag":
+    case "remove_tag":
+      return action.tag?.trim() ? null : "Enter a tag";
+    case "enroll":
+      return action.automationId ? null : "Pick a workflow";
+    default:
+      return "Unknown bulk action";
+  }
+}
+
+/** The contact's tags after a tag action, or null when nothing changes */
+export function applySegmentTagAction(tags: string[] | null | undefined, action: SegmentAction): string[] | null {
+  const current = tags || [];
+  const tag = action.tag?.trim() || "";
+  if (!tag) return null;
+
+  if (action.type === "add_tag") {
+    return current.includes(tag) ? null : [...current, tag];
+  }
+  if (action.type === "remove_tag") {
+    return current.includes(tag) ? current.filter((existing) => existing !== tag) : null;
+  }
+  return null;
+}
+
+export function getSegmentJobPageSize(action: SegmentAction): number {
+  return action.type === "enroll" ? SEGMENT_ENROLL_PAGE_SIZE : SEGMENT_JOB_PAGE_SIZE;
+}
+
+export function describeSegmentAction(action: SegmentAction): string {
+  switch (action.type) {
+    case "add_tag":
+      return `Add tag "${action.tag}"`;
+    case "remove_tag":
+      return `Remove tag "${action.tag}"`;
+    case "enroll":
+      return `Enroll in ${action.automationName ? `"${action.automationName}"` : "workflow"}`;
+    default:
+      return "Bulk action";
+  }
+}
+
+// --- DB helpers ---
+
+export async function loadSegmentEngineOptions(supabase: DbClient, teamId: string): Promise<EngineOptions> {
+  const { data, error } = await supabase
+    .from("contact_custom_fields")
+    .select("key, label, field_type, options, currency, position")
+    .eq("team_id", teamId);
+
+  if (error) throw new Error(`Custom field lookup failed: ${error.message}`);
+  return getSegmentEngineOptions((data || []) as CustomFieldDefinition[]);
+}
+
+/** Latest appointment for each contact's email, in either case as stored */
+export async function loadSegmentDeals(
+  supabase: DbClient,
+  teamId: string,
+  contacts: SegmentContact[],
+): Promise<Map<string, SegmentDeal>> {
+  const emails = new Set<string>();
+  for (const contact of contacts) {
+    const email = contact.email?.trim();
+    if (!email) continue;
+    emails.add(email);
+    emails.add(email.toLowerCase());
+  }
+  if (emails.size === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from("appointments")
+    .select("id, lead_email, pipeline_stage, status, start_at_utc")
+    .eq("team_id", teamId)
+    .in("lead_email", [...emails]);
+
+  if (error) throw new Error(`Appointment lookup failed: ${error.message}`);
+  return indexLatestDeals((data || []) as SegmentDeal[]);
+}
+
+/** Reads the team's contacts in id order from the cursor and evaluates them in batches */
+export async function scanSegment(
+  supabase: DbClient,
+  teamId: string,
+  segment: SegmentDefinition,
+  scan: SegmentScanOptions,
+): Promise<SegmentScanResult> {
+  const matches: SegmentContact[] = [];
+  const withDeals = needsSegmentDeals(segment);
+  let cursor = scan.cursor ?? null;
+  let matched = 0;
+  let scanned = 0;
+
+  while (matched < scan.limit && scanned < scan.maxScan) {
+    const batchSize = Math.min(SEGMENT_SCAN_BATCH_SIZE, scan.maxScan - scanned);
+    let query = supabase
+      .from("contacts")
+      .select(SEGMENT_CONTACT_COLUMNS)
+      .eq("team_id", teamId)
+      .order("id", { ascending: true })
+      .limit(batchSize);
+    if (cursor) query = query.gt("id", cursor);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Contact lookup failed: ${error.message}`);
+
+    const contacts = (data || []) as SegmentContact[];
+    if (contacts.length === 0) return { matches, matched, scanned, nextCursor: null };
+
+    const deals = withDeals ? await loadSegmentDeals(supabase, teamId, contacts) : undefined;
+    const page = collectSegmentPage(contacts, segment, scan.limit - matched, deals, scan.engineOptions);
+    if (scan.collect !== false) matches.push(...page.matches);
+    matched += page.matches.length;
+    scanned += page.scanned;
+    cursor = page.cursor;
+
+    // A short batch evaluated to its end was the last one
+    if (contacts.length < batchSize && page.scanned === contacts.length) {
+      return { matches, matched, scanned, nextCursor: null };
+    }
+  }
+
+  return { matches, matched, scanned, nextCursor: cursor };
+}
@@ -0,0 +1,150 @@
+// supabase/functions/_shared/conversations.ts
+// Per-contact conversation threads over message_logs, shared by the inbox page
+// and send-conversation-reply.
+//
+// message_logs rows are linked to contacts and rolled up into `conversations`
+// by database triggers; this module only shapes rows for display and builds the
+// request a reply sends through send-sms / send-whatsapp / send-email, so
+// replies are billed and consent-checked exactly like automation messages.
+
+// --- Types ---
+
+export type ConversationChannel = "sms" | "whatsapp" | "email";
+export type MessageDirection = "inbound" | "outbound";
+
+export interface ConversationContact {
+  id: string;
+  name?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+/** The message_logs columns a thread needs */
+export interface MessageLogRow {
+  id: string;
+  channel: string;
+  direction?: string | null;
+  automation_id?: string | null;
+  payload?: Record<string, unknown> | null;
+  status: string;
+  delivery_status?: string | null;
+  error_message?: string | null;
+  created_at: string;
+}
+
+export interface ConversationMessage {
+  id: string;
+  channel: ConversationChannel;
+  direction: MessageDirection;
+  body: string;
+  subject: string | null;
+  status: string;
+  error: string | null;
+  /** Sent by a workflow rather than typed by a person */
+  automated: boolean;
+  createdAt: string;
+}
+
+export interface ReplyInput {
+  teamId: string;
+  contact: ConversationContact;
+  channel: ConversationChannel;
+  body: string;
+  subject?: string | null;
+}
+
+export interface ReplyRequest {
+  functionName: "send-sms" | "send-whatsapp" | "send-email";
+  payload: Record<string, unknown>;
+}
+
+// --- Constants ---
+
+export const CONVERSATION_CHANNELS: ConversationChannel[] = ["sms", "whatsapp", "email"];
+
+export const CHANNEL_LABELS: Record<ConversationChannel, string> = {
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+  email: "Email",
+};
+
+/** Longest SMS / WhatsApp reply accepted: ten concatenated segments */
+export const MAX_TEXT_REPLY_LENGTH = 1600;
+
+const REPLY_FUNCTIONS: Record<ConversationChannel, ReplyRequest["functionName"]> = {
+  sms: "send-sms",
+  whatsapp: "send-whatsapp",
+  email: "send-email",
+};
+
+// --- Pure helpers ---
+
+export function isConversationChannel(value: unknown): value is ConversationChannel {
+  return CONVERSATION_CHANNELS.includes(value as ConversationChannel);
+}
+
+export function getContactDisplayName(contact: ConversationContact): string {
+  const fullName = `${contact.first_name || ""} ${contact.last_name || ""}`.trim();
+  return contact.name || fullName || contact.email || contact.phone || "Unknown contact";
+}
+
+/** Channels the contact can be replied on: a phone for SMS / WhatsApp, an address for email */
+export function getReplyChannels(contact: ConversationContact): ConversationChannel[] {
+  return CONVERSATION_CHANNELS.filter((channel) => !!getReplyAddress(contact, channel));
+}
+
+export function getReplyAddress(contact: ConversationContact, channel: ConversationChannel): string | null {
+  const address = channel === "email" ? contact.email : contact.phone;
+  return address?.trim() || null;
+}
+
+/**
+ * A message_logs row as a thread entry. Email logs written before bodies were
+ * stored only have a subject.
+ */
+export function toConversationMessage(row: MessageLogRow): ConversationMessage {
+  const payload = row.payload || {};
+  const channel = isConversationChannel(row.channel) ? row.channel : "sms";
+  return {
+    id: row.id,
+    channel,
+    direction: row.direction === "inbound" ? "inbound" : "outbound",
+    body: typeof payload.body === "string" ? payload.body : "",
+    subject: channel === "email" && typeof payload.subject === "string" ? payload.subject : null,
+    status: row.delivery_status || row.status,
+    error: row.error_message || null,
+    automated: !!row.automation_id,
+    createdAt: row.created_at,
+  };
+}
+
+/** The reason a reply can't be sent, or null when it can */
+export function validateReply(input: ReplyInput): string | null {
+  if (!isConversationChannel(input.channel)) return "Unsupported channel";
+  if (!getReplyAddress(input.contact, input.channel)) {
+    return input.channel === "email" ? "Contact has no email address" : "Contact has no phone number";
+  }
+
+  const body = input.body?.trim() || "";
+  if (!body) return "Message is empty";
+  if (input.channel === "email") {
+    if (!input.subject?.trim()) return "Email needs a subject";
+  } else if (body.length > MAX_TEXT_REPLY_LENGTH) {
+    return `Message is longer than ${MAX_TEXT_REPLY_LENGTH} characters`;
+  }
+  return null;
+}
+
+/** The send function and body for a validated reply */
+export function buildReplyRequest(input: ReplyInput): ReplyRequest {
+  const payload: Record<string, unknown> = {
+    to: getReplyAddress(input.contact, input.channel),
+    body: input.body.trim(),
+    teamId: input.teamId,
+    leadId: input.contact.id,
+  };
+  if (input.channel === "email") payload.subject = input.subject?.trim();
+  return { functionName: REPLY_FUNCTIONS[input.channel], payload };
+}
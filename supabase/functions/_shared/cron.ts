@@ -0,0 +1,297 @@
+// supabase/functions/_shared/cron.ts
+// Timezone-aware cron evaluator for scheduled_trigger automations.
+//
+// Pure module (no Deno / DOM APIs beyond Intl) so process-scheduled-jobs and the
+// browser (trigger inspector "next run" preview) evaluate schedules identically.
+//
+// Supports standard 5-field expressions: minute hour day-of-month month day-of-week
+// with `*`, lists (1,15), ranges (1-5), steps (*/15, 9-17/2) and month/day names.
+// Like Vixie cron, when both day-of-month and day-of-week are restricted a
+// date matches if EITHER field matches.
+
+// --- Types ---
+
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** True when day-of-month was "*" */
+  anyDayOfMonth: boolean;
+  /** True when day-of-week was "*" */
+  anyDayOfWeek: boolean;
+}
+
+export interface ScheduleConfig {
+  schedule?: "daily" | "weekly" | "monthly" | "custom";
+  time?: string; // HH:MM
+  dayOfWeek?: number; // 0-6
+  dayOfMonth?: number; // 1-31
+  cronExpression?: string;
+  timezone?: string;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CronParseError";
+  }
+}
+
+export const DEFAULT_SCHEDULE_TIMEZONE = "UTC";
+
+const MINUTE_MS = 60 * 1000;
+// Enough to reach Feb 29 of the next leap year from any start point
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// --- Parsing ---
+
+function parseValue(token: string, names: string[] | null, offset: number): number {
+  const lower = token.toLowerCase();
+  if (names) {
+    const index = names.indexOf(lower);
+    if (index >= 0) return index + offset;
+  }
+  if (!/^\d+$/.test(token)) throw new CronParseError(`Invalid value "${token}"`);
+  return Number(token);
+}
+
+function parseField(field: string, min: number, max: number, names: string[] | null = null, nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw new CronParseError(`Invalid step in "${part}"`);
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = min;
+      end = max;
+    } else if (rangePart.includes("-")) {
+      const [a, b] = rangePart.split("-");
+      start = parseValue(a, names, nameOffset);
+      end = parseValue(b, names, nameOffset);
+    } else {
+      start = parseValue(rangePart, names, nameOffset);
+      // "5/15" means "from 5 every 15"
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new CronParseError(`Value out of range in "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = (expression || "").trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronParseError(`Expected 5 fields, got ${fields[0] === "" ? 0 : fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES, 0);
+  // 7 is an alias for Sunday
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === "*",
+    anyDayOfWeek: dayOfWeek === "*",
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// --- Timezone Helpers ---
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock fields of an instant in the given IANA timezone */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase().slice(0, 3)),
+  };
+}
+
+// --- Matching ---
+
+function matchesDay(cron: ParsedCron, parts: ZonedParts): boolean {
+  if (!cron.months.has(parts.month)) return false;
+  const domMatch = cron.daysOfMonth.has(parts.day);
+  const dowMatch = cron.daysOfWeek.has(parts.weekday);
+  if (cron.anyDayOfMonth && cron.anyDayOfWeek) return true;
+  if (cron.anyDayOfMonth) return dowMatch;
+  if (cron.anyDayOfWeek) return domMatch;
+  return domMatch || dowMatch;
+}
+
+export function matchesCron(cron: ParsedCron, date: Date, timeZone: string = DEFAULT_SCHEDULE_TIMEZONE): boolean {
+  const parts = getZonedParts(date, timeZone);
+  return matchesDay(cron, parts) && cron.hours.has(parts.hour) && cron.minutes.has(parts.minute);
+}
+
+function floorToMinute(date: Date): number {
+  return Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+}
+
+/**
+ * First occurrence strictly after `after`, or null if none within ~5 years
+ * (e.g. "0 0 31 2 *"). Walks UTC minutes and skips whole local days/hours
+ * that can't match, so DST shifts are handled by the timezone lookup itself.
+ */
+export function getNextCronOccurrence(
+  expression: string | ParsedCron,
+  after: Date,
+  timeZone: string = DEFAULT_SCHEDULE_TIMEZONE,
+): Date | null {
+  const cron = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  let cursor = floorToMinute(after) + MINUTE_MS;
+  let searched = 0;
+
+  while (searched < MAX_SEARCH_MINUTES) {
+    const parts = getZonedParts(new Date(cursor), timeZone);
+    let skip = 1;
+
+    if (!matchesDay(cron, parts)) {
+      const minutesToMidnight = (24 - parts.hour) * 60 - parts.minute;
+      // Keep an hour of slack so a 23-hour DST day can't jump past local midnight
+      skip = minutesToMidnight > 60 ? minutesToMidnight - 60 : 60 - parts.minute;
+    } else if (!cron.hours.has(parts.hour)) {
+      skip = 60 - parts.minute;
+    } else if (cron.minutes.has(parts.minute)) {
+      return new Date(cursor);
+    }
+
+    cursor += skip * MINUTE_MS;
+    searched += skip;
+  }
+
+  return null;
+}
+
+/**
+ * Latest occurrence in (windowStart, now], or null. The scheduler calls this
+ * every minute with a catch-up window so a late or skipped tick still fires
+ * the most recent slot exactly once (slots are deduplicated by the caller).
+ */
+export function getLatestDueCronSlot(
+  expression: string | ParsedCron,
+  windowStart: Date,
+  now: Date,
+  timeZone: string = DEFAULT_SCHEDULE_TIMEZONE,
+): Date | null {
+  const cron = typeof expression === "string" ? parseCronExpression(expression) : expression;
+  let latest: Date | null = null;
+  let cursor: Date | null = getNextCronOccurrence(cron, windowStart, timeZone);
+
+  while (cursor && cursor.getTime() <= now.getTime()) {
+    latest = cursor;
+    cursor = getNextCronOccurrence(cron, cursor, timeZone);
+  }
+
+  return latest;
+}
+
+// --- Schedule Config → Cron ---
+
+function parseTime(time: string | undefined): { hour: number; minute: number } {
+  const match = (time || "09:00").match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) throw new CronParseError(`Invalid time "${time}" (expected HH:MM)`);
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) throw new CronParseError(`Invalid time "${time}"`);
+  return { hour, minute };
+}
+
+/** Convert a ScheduledTriggerConfig (daily/weekly/monthly/custom) to a cron expression */
+export function buildCronExpression(config: ScheduleConfig): string {
+  const schedule = config.schedule || "daily";
+
+  if (schedule === "custom") {
+    const expression = (config.cronExpression || "").trim();
+    parseCronExpression(expression);
+    return expression;
+  }
+
+  const { hour, minute } = parseTime(config.time);
+
+  switch (schedule) {
+    case "weekly":
+      return `${minute} ${hour} * * ${config.dayOfWeek ?? 1}`;
+    case "monthly":
+      return `${minute} ${hour} ${config.dayOfMonth ?? 1} * *`;
+    case "daily":
+    default:
+      return `${minute} ${hour} * * *`;
+  }
+}
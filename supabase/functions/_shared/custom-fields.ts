@@ -0,0 +1,259 @@
+// supabase/functions/_shared/custom-fields.ts
+// Typed contact custom fields: the team's definitions for keys in
+// contacts.custom_fields, value validation and what each type means to
+// conditions, variables and exports.
+//
+// Values are stored coerced (numbers as numbers, dates as YYYY-MM-DD,
+// multi-selects as arrays, checkboxes as booleans). Keys without a definition
+// stay free-form, as funnel answers always have been.
+
+import {
+  type ConditionValueType,
+  toConditionBoolean,
+  toConditionDate,
+  toConditionNumber,
+} from "./automation-engine.ts";
+
+// --- Types ---
+
+export type CustomFieldType = "text" | "number" | "date" | "dropdown" | "multi_select" | "checkbox" | "currency";
+
+export interface CustomFieldDefinition {
+  id?: string;
+  team_id?: string;
+  key: string;
+  label: string;
+  field_type: CustomFieldType;
+  /** Allowed values for dropdown and multi-select */
+  options?: string[] | null;
+  /** ISO 4217 code for currency fields */
+  currency?: string | null;
+  position?: number;
+}
+
+export type CustomFieldValue = string | number | boolean | string[] | null;
+
+/** A value in its stored form, or why it doesn't fit the field (value is then null) */
+export interface CustomFieldCoercion {
+  value: CustomFieldValue;
+  error: string | null;
+}
+
+// --- Constants ---
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "currency", label: "Currency" },
+  { value: "date", label: "Date" },
+  { value: "dropdown", label: "Dropdown" },
+  { value: "multi_select", label: "Multi-select" },
+  { value: "checkbox", label: "Checkbox" },
+];
+
+/** Same rule as the contact_custom_fields.key check constraint */
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+export const DEFAULT_CURRENCY = "USD";
+
+/** Where conditions and templates can reach a contact's custom fields */
+const CUSTOM_FIELD_PATH_PREFIXES = ["lead.custom_fields.", "contact.custom_fields."];
+
+// --- Definitions ---
+
+/** "Monthly Budget ($)" -> "monthly_budget" */
+export function toCustomFieldKey(label: string): string {
+  return label
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+/, "")
+    .slice(0, 40)
+    .replace(/_+$/, "");
+}
+
+export function hasCustomFieldOptions(type: CustomFieldType): boolean {
+  return type === "dropdown" || type === "multi_select";
+}
+
+/** Problem with a definition about to be saved, or null when it's fine */
+export function validateCustomFieldDefinition(
+  definition: CustomFieldDefinition,
+  existing: CustomFieldDefinition[] = [],
+): string | null {
+  if (!definition.label?.trim()) return "Label is required";
+  if (!CUSTOM_FIELD_KEY_PATTERN.test(definition.key)) {
+    return "Key must start with a letter and use only lowercase letters, numbers and underscores";
+  }
+  if (!CUSTOM_FIELD_TYPES.some((type) => type.value === definition.field_type)) return "Unknown field type";
+  if (existing.some((other) => other.key === definition.key && other.id !== definition.id)) {
+    return `A field with the key "${definition.key}" already exists`;
+  }
+
+  if (hasCustomFieldOptions(definition.field_type)) {
+    const options = (definition.options || []).map((option) => option.trim());
+    if (options.length === 0 || options.some((option) => !option)) return "Add at least one option and remove blank ones";
+    const lowered = options.map((option) => option.toLowerCase());
+    if (new Set(lowered).size !== lowered.length) return "Options must be unique";
+  }
+
+  if (definition.field_type === "currency" && definition.currency && !/^[A-Z]{3}$/.test(definition.currency)) {
+    return "Currency must be a three-letter code like USD";
+  }
+
+  return null;
+}
+
+// --- Values ---
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function matchOption(definition: CustomFieldDefinition, value: unknown): string | undefined {
+  const wanted = String(value).trim().toLowerCase();
+  return (definition.options || []).find((option) => option.toLowerCase() === wanted);
+}
+
+/**
+ * Converts a raw value (form answer, rendered template, CSV cell) to the
+ * field's stored form. Blank values clear the field.
+ */
+export function coerceCustomFieldValue(definition: CustomFieldDefinition, raw: unknown): CustomFieldCoercion {
+  if (isBlank(raw)) return { error: null, value: null };
+  const label = definition.label || definition.key;
+
+  switch (definition.field_type) {
+    case "number":
+    case "currency": {
+      const num = Array.isArray(raw) ? undefined : toConditionNumber(raw);
+      if (num === undefined) return { value: null, error: `${label} must be a number` };
+      return { error: null, value: definition.field_type === "currency" ? Math.round(num * 100) / 100 : num };
+    }
+    case "date": {
+      const date = Array.isArray(raw) ? undefined : toConditionDate(raw);
+      if (!date) return { value: null, error: `${label} must be a date` };
+      return { error: null, value: date };
+    }
+    case "checkbox": {
+      const checked = toConditionBoolean(raw);
+      if (checked === undefined) return { value: null, error: `${label} must be yes or no` };
+      return { error: null, value: checked };
+    }
+    case "dropdown": {
+      const option = Array.isArray(raw) ? undefined : matchOption(definition, raw);
+      if (!option) return { value: null, error: `${label} must be one of: ${(definition.options || []).join(", ")}` };
+      return { error: null, value: option };
+    }
+    case "multi_select": {
+      const items = Array.isArray(raw) ? raw : String(raw).split(",");
+      const picked: string[] = [];
+      for (const item of items) {
+        if (isBlank(item)) continue;
+        const option = matchOption(definition, item);
+        if (!option) return { value: null, error: `"${String(item).trim()}" is not an option for ${label}` };
+        if (!picked.includes(option)) picked.push(option);
+      }
+      return { error: null, value: picked.length > 0 ? picked : null };
+    }
+    default:
+      return { error: null, value: Array.isArray(raw) ? raw.join(", ") : String(raw).trim() };
+  }
+}
+
+/**
+ * Coerces the defined keys in a batch of values. Keys without a definition pass
+ * through; values that don't fit their type are kept as given and reported, so
+ * a lead's answer is never lost.
+ */
+export function coerceCustomFieldValues(
+  definitions: CustomFieldDefinition[],
+  values: Record<string, unknown>,
+): { values: Record<string, unknown>; errors: string[] } {
+  const byKey = new Map(definitions.map((definition) => [definition.key, definition]));
+  const result: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [key, raw] of Object.entries(values)) {
+    const definition = byKey.get(key);
+    if (!definition) {
+      result[key] = raw;
+      continue;
+    }
+    const coerced = coerceCustomFieldValue(definition, raw);
+    if (coerced.error) {
+      result[key] = raw;
+      errors.push(coerced.error);
+    } else {
+      result[key] = coerced.value;
+    }
+  }
+
+  return { values: result, errors };
+}
+
+/** Display text for a stored value: lists joined, checkboxes as Yes / No, currency with its code */
+export function formatCustomFieldValue(definition: CustomFieldDefinition, value: unknown): string {
+  if (isBlank(value)) return "";
+  if (Array.isArray(value)) return value.join("; ");
+  if (definition.field_type === "checkbox") {
+    const checked = toConditionBoolean(value);
+    return checked === undefined ? String(value) : checked ? "Yes" : "No";
+  }
+  if (definition.field_type === "currency") {
+    const amount = toConditionNumber(value);
+    if (amount !== undefined) return `${amount.toFixed(2)} ${definition.currency || DEFAULT_CURRENCY}`;
+  }
+  return String(value);
+}
+
+// --- Conditions, variables and exports ---
+
+export function getConditionValueType(type: CustomFieldType): ConditionValueType {
+  switch (type) {
+    case "number":
+    case "currency":
+      return "number";
+    case "date":
+      return "date";
+    case "checkbox":
+      return "boolean";
+    case "multi_select":
+      return "array";
+    default:
+      return "string";
+  }
+}
+
+/** EngineOptions.fieldTypes for a team: every path a condition can use to reach each field */
+export function getCustomFieldConditionTypes(
+  definitions: CustomFieldDefinition[],
+): Record<string, ConditionValueType> {
+  const types: Record<string, ConditionValueType> = {};
+  for (const definition of definitions) {
+    for (const prefix of CUSTOM_FIELD_PATH_PREFIXES) {
+      types[`${prefix}${definition.key}`] = getConditionValueType(definition.field_type);
+    }
+  }
+  return types;
+}
+
+/** The definition behind an update_contact field like "custom_fields.budget" */
+export function findCustomFieldForPath(
+  definitions: CustomFieldDefinition[],
+  path: string,
+): CustomFieldDefinition | undefined {
+  const match = path.match(/(?:^|\.)custom_fields\.([a-z0-9_]+)$/);
+  return match ? definitions.find((definition) => definition.key === match[1]) : undefined;
+}
+
+/** CSV columns for the contacts export, reading the nested custom_fields value */
+export function getCustomFieldExportColumns(definitions: CustomFieldDefinition[]): { key: string; label: string }[] {
+  return definitions.map((definition) => ({ key: `custom_fields.${definition.key}`, label: definition.label }));
+}
+
+export function sortCustomFields<T extends CustomFieldDefinition>(definitions: T[]): T[] {
+  return [...definitions].sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || a.label.localeCompare(b.label));
+}
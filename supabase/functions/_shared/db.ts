@@ -0,0 +1,52 @@
+// supabase/functions/_shared/db.ts
+// The slice of the supabase-js client used by modules the browser app and the
+// tests also import.
+//
+// Those modules can't import from esm.sh, so they take a DbClient instead of
+// SupabaseClient. A real client satisfies it. Rows come back untyped; read
+// them with maybeSingle<Row>(), single<Row>() or returns<Row[]>() like you
+// would with supabase-js.
+
+export interface DbError {
+  message: string;
+  code?: string;
+}
+
+export interface DbResult<T> {
+  data: T | null;
+  error: DbError | null;
+  count?: number | null;
+}
+
+/** A query or filter builder: chain filters, then await it */
+export interface DbQuery<Result = unknown[]> extends PromiseLike<DbResult<Result>> {
+  select(columns?: string, options?: { count?: "exact" | "planned" | "estimated"; head?: boolean }): DbQuery;
+  insert(values: object | object[]): DbQuery;
+  update(values: object): DbQuery;
+  upsert(values: object | object[], options?: { onConflict?: string; ignoreDuplicates?: boolean }): DbQuery;
+  delete(): DbQuery;
+  eq(column: string, value: unknown): DbQuery<Result>;
+  neq(column: string, value: unknown): DbQuery<Result>;
+  in(column: string, values: readonly unknown[]): DbQuery<Result>;
+  is(column: string, value: boolean | null): DbQuery<Result>;
+  gt(column: string, value: unknown): DbQuery<Result>;
+  gte(column: string, value: unknown): DbQuery<Result>;
+  lt(column: string, value: unknown): DbQuery<Result>;
+  lte(column: string, value: unknown): DbQuery<Result>;
+  ilike(column: string, pattern: string): DbQuery<Result>;
+  not(column: string, operator: string, value: unknown): DbQuery<Result>;
+  or(filters: string): DbQuery<Result>;
+  order(column: string, options?: { ascending?: boolean }): DbQuery<Result>;
+  limit(count: number): DbQuery<Result>;
+  returns<R>(): DbQuery<R>;
+  maybeSingle<R = unknown>(): PromiseLike<DbResult<R>>;
+  single<R = unknown>(): PromiseLike<DbResult<R>>;
+}
+
+export interface DbClient {
+  from(table: string): DbQuery;
+  rpc(fn: string, args?: object): DbQuery;
+  functions: {
+    invoke(name: string, options?: { body?: unknown }): Promise<{ data: unknown; error: unknown }>;
+  };
+}
@@ -0,0 +1,195 @@
+// supabase/functions/_shared/email-suppression.ts
+// Per-team email suppression list, shared by send-email, email-webhook and
+// email-unsubscribe.
+//
+// An address lands on the list from a hard bounce or spam complaint (email-webhook),
+// an unsubscribe (the footer link or the List-Unsubscribe one-click POST) or a team
+// member adding it by hand. send-email refuses suppressed addresses before billing.
+// Unsubscribe links carry an HMAC-signed token, so no per-email state is stored.
+//
+// Pure module apart from the DB helpers at the bottom, which take the caller's client.
+
+import type { DbClient } from "./db.ts";
+
+// --- Types ---
+
+export type SuppressionReason = "hard_bounce" | "complaint" | "unsubscribe" | "manual";
+export type SuppressionSource = "email_webhook" | "unsubscribe_link" | "list_unsubscribe" | "manual";
+
+export interface EmailSuppression {
+  team_id: string;
+  email: string;
+  reason: SuppressionReason;
+  source: SuppressionSource;
+  provider?: string | null;
+  provider_message_id?: string | null;
+  details?: Record<string, unknown> | null;
+  created_by?: string | null;
+}
+
+/** The email-webhook event fields the suppression decision needs */
+export interface SuppressibleEmailEvent {
+  eventType: string;
+  /** Raw provider event name (Mailgun reports unsubscribes and complaints separately) */
+  providerEvent?: string | null;
+  /** Resend bounce.type: Permanent / Transient / Undetermined */
+  bounceType?: string | null;
+  /** Mailgun failure severity: permanent / temporary */
+  severity?: string | null;
+}
+
+export interface UnsubscribeTokenPayload {
+  teamId: string;
+  email: string;
+}
+
+// --- Constants ---
+
+/** Response code send-email returns for a suppressed recipient */
+export const SUPPRESSED_CODE = "EMAIL_SUPPRESSED";
+
+export const SUPPRESSION_REASON_LABELS: Record<SuppressionReason, string> = {
+  hard_bounce: "Hard bounce",
+  complaint: "Spam complaint",
+  unsubscribe: "Unsubscribed",
+  manual: "Added manually",
+};
+
+// --- Pure helpers ---
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Whether a normalized email-webhook event should suppress the recipient.
+ * Soft bounces and delivery delays don't; a bounce of unknown type does,
+ * since Resend only reports permanent bounces as email.bounced by default.
+ */
+export function getSuppressionReasonForEvent(event: SuppressibleEmailEvent): SuppressionReason | null {
+  if (event.eventType === "complained") {
+    return event.providerEvent === "unsubscribed" ? "unsubscribe" : "complaint";
+  }
+  if (event.eventType !== "bounced") return null;
+
+  // Mailgun "rejected" is Mailgun refusing the send, not the recipient's server
+  if (event.providerEvent === "rejected") return null;
+  if (event.severity && event.severity.toLowerCase() !== "permanent") return null;
+  if (event.bounceType && event.bounceType.toLowerCase() === "transient") return null;
+  return "hard_bounce";
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0)).buffer;
+}
+
+async function hmacKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+/** `<payload>.<signature>`, both base64url; the payload is the team id and address */
+export async function createUnsubscribeToken(payload: UnsubscribeTokenPayload, secret: string): Promise<string> {
+  const body = new TextEncoder().encode(JSON.stringify({ t: payload.teamId, e: normalizeEmail(payload.email) }));
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(secret), body);
+  return `${toBase64Url(body)}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** The token's team and address, or null when it is malformed or the signature doesn't match */
+export async function verifyUnsubscribeToken(token: string, secret: string): Promise<UnsubscribeTokenPayload | null> {
+  const [encodedBody, encodedSignature] = (token || "").split(".");
+  if (!encodedBody || !encodedSignature) return null;
+
+  try {
+    const body = fromBase64Url(encodedBody);
+    const valid = await crypto.subtle.verify("HMAC", await hmacKey(secret), fromBase64Url(encodedSignature), body);
+    if (!valid) return null;
+
+    const parsed = JSON.parse(new TextDecoder().decode(body));
+    if (typeof parsed?.t !== "string" || typeof parsed?.e !== "string") return null;
+    return { teamId: parsed.t, email: parsed.e };
+  } catch {
+    return null;
+  }
+}
+
+/** Footer link target: the public unsubscribe page */
+export function buildUnsubscribePageUrl(appUrl: string, token: string): string {
+  return `${appUrl.replace(/\/$/, "")}/unsubscribe/${encodeURIComponent(token)}`;
+}
+
+/** List-Unsubscribe target: email-unsubscribe itself, which accepts the RFC 8058 one-click POST */
+export function buildOneClickUnsubscribeUrl(supabaseUrl: string, token: string): string {
+  return `${supabaseUrl.replace(/\/$/, "")}/functions/v1/email-unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+export function buildListUnsubscribeHeaders(oneClickUrl: string): Record<string, string> {
+  return {
+    "List-Unsubscribe": `<${oneClickUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+/** Append the unsubscribe footer to the HTML and plain-text bodies */
+export function appendUnsubscribeFooter(html: string, text: string, pageUrl: string): { html: string; text: string } {
+  const footer =
+    `<p style="margin-top:24px;font-size:12px;color:#6b7280;">` +
+    `Don't want these emails? <a href="${pageUrl}" style="color:#6b7280;">Unsubscribe</a></p>`;
+  const htmlWithFooter = /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${footer}</body>`) : `${html}${footer}`;
+  return {
+    html: htmlWithFooter,
+    text: `${text}\n\nUnsubscribe: ${pageUrl}`,
+  };
+}
+
+// --- DB helpers ---
+
+/** Throws on a lookup error - callers must not send when the list can't be read */
+export async function isEmailSuppressed(supabase: DbClient, teamId: string, email: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("email_suppressions")
+    .select("id")
+    .eq("team_id", teamId)
+    .eq("email", normalizeEmail(email))
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Suppression lookup failed: ${error.message}`);
+  return !!data;
+}
+
+/**
+ * Add an address to the team's list. An address already on it keeps its
+ * original reason. Unsubscribes and complaints also set dnd_email on the
+ * team's matching contacts.
+ */
+export async function suppressEmail(supabase: DbClient, entry: EmailSuppression): Promise<void> {
+  const email = normalizeEmail(entry.email);
+  const { error } = await supabase
+    .from("email_suppressions")
+    .upsert({ ...entry, email }, { onConflict: "team_id,email", ignoreDuplicates: true });
+
+  if (error) throw new Error(`Failed to suppress email: ${error.message}`);
+
+  if (entry.reason === "unsubscribe" || entry.reason === "complaint") {
+    const { error: dndError } = await supabase
+      .from("contacts")
+      .update({ dnd_email: true })
+      .eq("team_id", entry.team_id)
+      .ilike("email", email.replace(/[%_\\]/g, "\\$&"));
+    if (dndError) console.error("[email-suppression] Failed to set contact DND:", dndError);
+  }
+}
@@ -0,0 +1,262 @@
+// supabase/functions/_shared/ics.ts
+// RFC 5545 iCalendar builder for appointment invites (email attachments) and
+// per-user subscription feeds (calendar-feed).
+//
+// Pure module (no Deno / esm.sh imports) so send-message, calendar-feed and the
+// unit tests build identical calendars.
+//
+// Every appointment in a reschedule chain shares one UID (appointments.ics_uid)
+// and bumps ics_sequence, so calendar apps update the original event in place.
+
+// --- Types ---
+
+export type IcsMethod = "REQUEST" | "CANCEL" | "PUBLISH";
+
+export type IcsEventStatus = "CONFIRMED" | "CANCELLED";
+
+export interface IcsPerson {
+  name?: string | null;
+  email: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status: IcsEventStatus;
+  organizer?: IcsPerson | null;
+  attendees?: IcsPerson[];
+  /** DTSTAMP; defaults to now */
+  stamp?: Date;
+}
+
+export interface IcsCalendarOptions {
+  method?: IcsMethod;
+  /** X-WR-CALNAME shown by subscribing apps */
+  name?: string;
+}
+
+export interface IcsAttachment {
+  filename: string;
+  content: string;
+  contentType: string;
+}
+
+/** The appointment columns an invite or feed entry is built from */
+export interface IcsAppointment {
+  id: string;
+  ics_uid?: string | null;
+  ics_sequence?: number | null;
+  start_at_utc: string;
+  duration_minutes?: number | null;
+  status?: string | null;
+  event_type_name?: string | null;
+  lead_name?: string | null;
+  lead_email?: string | null;
+  closer_name?: string | null;
+  meeting_link?: string | null;
+  reschedule_url?: string | null;
+  cancel_url?: string | null;
+  appointment_notes?: string | null;
+}
+
+// --- Constants ---
+
+export const ICS_PRODUCT_ID = "-//Stackit//Bookings//EN";
+export const ICS_UID_DOMAIN = "usestackit.co";
+export const DEFAULT_ORGANIZER_EMAIL = "noreply@notifications.usestackit.co";
+
+const CANCELLED_STATUSES = new Set(["CANCELLED", "CANCELED"]);
+
+// --- Formatting ---
+
+/** 2026-03-10T18:00:00.000Z → 20260310T180000Z */
+export function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Escape a TEXT value: backslash, semicolon, comma and line breaks; other control characters are dropped */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n")
+    .replace(/\p{Cc}/gu, (char) => (char === "\t" ? char : ""));
+}
+
+/** Control characters (CR / LF included) replaced with a space, so a value can't start a new content line */
+export function stripIcsControlChars(value: string): string {
+  return value.replace(/\p{Cc}+/gu, " ").trim();
+}
+
+/** Quote a parameter value (CN=...) when it contains separators; quotes and control characters aren't allowed */
+function formatParamValue(value: string): string {
+  const cleaned = stripIcsControlChars(value).replace(/"/g, "'");
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Fold a content line at 75 octets (RFC 5545 §3.1): continuation lines start
+ * with a single space. Splits on UTF-8 byte length without breaking characters.
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  let limit = 75;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      // Continuation lines lose one octet to the leading space
+      limit = 74;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function personLine(property: "ORGANIZER" | "ATTENDEE", person: IcsPerson, extraParams: string[] = []): string {
+  const params = [...(person.name ? [`CN=${formatParamValue(person.name)}`] : []), ...extraParams];
+  return `${property}${params.map((p) => `;${p}`).join("")}:mailto:${stripIcsControlChars(person.email).replace(/\s/g, "")}`;
+}
+
+export function buildIcsEvent(event: IcsEvent): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcsDateTime(event.stamp || new Date())}`,
+    `DTSTART:${formatIcsDateTime(event.start)}`,
+    `DTEND:${formatIcsDateTime(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${stripIcsControlChars(event.url)}`);
+  if (event.organizer) lines.push(personLine("ORGANIZER", event.organizer));
+  for (const attendee of event.attendees || []) {
+    lines.push(personLine("ATTENDEE", attendee, ["ROLE=REQ-PARTICIPANT", "RSVP=FALSE"]));
+  }
+  lines.push(`STATUS:${event.status}`, "TRANSP:OPAQUE", "END:VEVENT");
+
+  return lines;
+}
+
+/** A complete VCALENDAR with CRLF line endings and folded lines */
+export function buildIcsCalendar(events: IcsEvent[], options: IcsCalendarOptions = {}): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    ...(options.method ? [`METHOD:${options.method}`] : []),
+    ...(options.name ? [`X-WR-CALNAME:${escapeIcsText(options.name)}`] : []),
+    ...events.flatMap(buildIcsEvent),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+// --- Appointments ---
+
+/** Stored UID, or one derived from the id for appointments booked before ics_uid existed */
+export function getAppointmentIcsUid(appointment: Pick<IcsAppointment, "id" | "ics_uid">): string {
+  return appointment.ics_uid || `${appointment.id}@${ICS_UID_DOMAIN}`;
+}
+
+export function generateIcsUid(): string {
+  return `${crypto.randomUUID()}@${ICS_UID_DOMAIN}`;
+}
+
+export function isCancelledAppointment(appointment: Pick<IcsAppointment, "status">): boolean {
+  return CANCELLED_STATUSES.has((appointment.status || "").toUpperCase());
+}
+
+export function appointmentToIcsEvent(
+  appointment: IcsAppointment,
+  options: { organizer?: IcsPerson | null; includeAttendee?: boolean; stamp?: Date } = {},
+): IcsEvent {
+  const start = new Date(appointment.start_at_utc);
+  const end = new Date(start.getTime() + (appointment.duration_minutes || 30) * 60 * 1000);
+  const title = appointment.event_type_name || "Appointment";
+  const manageUrl = appointment.reschedule_url || appointment.cancel_url || null;
+
+  const description = [
+    appointment.meeting_link ? `Join: ${appointment.meeting_link}` : null,
+    manageUrl ? `Reschedule or cancel: ${manageUrl}` : null,
+    appointment.appointment_notes || null,
+  ].filter(Boolean).join("\n\n");
+
+  return {
+    uid: getAppointmentIcsUid(appointment),
+    sequence: appointment.ics_sequence || 0,
+    start,
+    end,
+    summary: appointment.lead_name ? `${title} - ${appointment.lead_name}` : title,
+    description: description || null,
+    location: appointment.meeting_link || null,
+    url: manageUrl,
+    status: isCancelledAppointment(appointment) ? "CANCELLED" : "CONFIRMED",
+    organizer: options.organizer ?? null,
+    attendees: options.includeAttendee && appointment.lead_email
+      ? [{ name: appointment.lead_name, email: appointment.lead_email }]
+      : [],
+    stamp: options.stamp,
+  };
+}
+
+/**
+ * Invite method for an appointment trigger's emails: booked and rescheduled
+ * emails carry a REQUEST (same UID, higher SEQUENCE on reschedule), cancelled
+ * ones a CANCEL. Other triggers get no invite.
+ */
+export function getInviteMethodForTrigger(triggerType: string | null | undefined): "REQUEST" | "CANCEL" | null {
+  switch (triggerType) {
+    case "appointment_booked":
+    case "appointment_rescheduled":
+      return "REQUEST";
+    case "appointment_canceled":
+      return "CANCEL";
+    default:
+      return null;
+  }
+}
+
+/** The .ics email attachment for an appointment invite or cancellation */
+export function buildAppointmentInvite(
+  appointment: IcsAppointment,
+  method: "REQUEST" | "CANCEL",
+  organizer: IcsPerson = { name: appointment.closer_name, email: DEFAULT_ORGANIZER_EMAIL },
+): IcsAttachment {
+  const event = appointmentToIcsEvent(
+    method === "CANCEL" ? { ...appointment, status: "CANCELLED" } : appointment,
+    { organizer, includeAttendee: true },
+  );
+  // The attendee's copy is titled after the host, not after themselves
+  const title = appointment.event_type_name || "Appointment";
+  event.summary = appointment.closer_name ? `${title} with ${appointment.closer_name}` : title;
+
+  return {
+    filename: method === "CANCEL" ? "cancel.ics" : "invite.ics",
+    content: buildIcsCalendar([event], { method }),
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+  };
+}
@@ -0,0 +1,196 @@
+// supabase/functions/_shared/intake-routing.ts
+// Typed booking intake questions (event_types.questions) and the routing rules
+// that act on the answers (event_types.routing_rules).
+//
+// Pure module: imported by create-booking and, through src/lib/bookingIntake.ts,
+// by the public booking page, so the page routes invitees the same way the server
+// enforces it. Conditions reuse the automation engine's operators.
+
+import { type ConditionLogic, type EngineCondition, evaluateConditions } from "./automation-engine.ts";
+
+// --- Types ---
+
+export type IntakeQuestionType = "text" | "textarea" | "select" | "checkbox" | "phone" | "budget";
+
+export interface BudgetRange {
+  label: string;
+  min: number;
+  max?: number | null;
+}
+
+export interface IntakeQuestion {
+  id: string;
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  /** select / checkbox choices */
+  options?: string[];
+  /** budget choices; the answer is the range label */
+  budget_ranges?: BudgetRange[];
+  placeholder?: string;
+}
+
+export type IntakeRoutingAction =
+  | { type: "route_event_type"; event_type_id: string }
+  | { type: "route_host"; user_id: string }
+  | { type: "reject"; message: string };
+
+export interface IntakeRoutingRule {
+  id: string;
+  name?: string;
+  /** field = question id; operator and value as in automation conditions */
+  conditions: EngineCondition[];
+  logic?: ConditionLogic;
+  action: IntakeRoutingAction;
+}
+
+export interface IntakeRoutingResult {
+  rule_id: string;
+  action: IntakeRoutingAction;
+}
+
+export type IntakeAnswers = Record<string, unknown>;
+
+// --- Constants ---
+
+export const INTAKE_QUESTION_TYPES: IntakeQuestionType[] = ["text", "textarea", "select", "checkbox", "phone", "budget"];
+
+/** Operators offered per question type in the routing editor */
+export const ROUTING_OPERATORS: Record<IntakeQuestionType, string[]> = {
+  text: ["equals", "not_equals", "contains", "not_contains", "is_empty", "is_not_empty"],
+  textarea: ["contains", "not_contains", "is_empty", "is_not_empty"],
+  phone: ["starts_with", "is_empty", "is_not_empty"],
+  select: ["equals", "not_equals", "in", "not_in", "is_empty"],
+  checkbox: ["contains", "not_contains", "contains_any", "is_empty"],
+  // Budget answers are compared by the chosen range's lower bound
+  budget: ["greater_or_equal", "less_than", "is_empty"],
+};
+
+export const DEFAULT_REJECT_MESSAGE = "Thanks for your interest. We're not able to book a call based on your answers.";
+
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+
+// --- Questions ---
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isBlank(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  return value === null || value === undefined || String(value).trim() === "";
+}
+
+/** Drops malformed entries and unknown types (treated as text) from stored questions */
+export function normalizeIntakeQuestions(raw: unknown): IntakeQuestion[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((q: unknown): q is IntakeQuestion =>
+      isPlainObject(q) && typeof q.id === "string" && typeof q.label === "string"
+    )
+    .map((q) => ({
+      ...q,
+      type: INTAKE_QUESTION_TYPES.includes(q.type) ? q.type : "text",
+      required: !!q.required,
+    }));
+}
+
+export function normalizeRoutingRules(raw: unknown): IntakeRoutingRule[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((rule: unknown): rule is IntakeRoutingRule =>
+    isPlainObject(rule) &&
+    typeof rule.id === "string" &&
+    Array.isArray(rule.conditions) &&
+    isPlainObject(rule.action) &&
+    !!rule.action.type
+  );
+}
+
+export function findBudgetRange(question: IntakeQuestion, answer: unknown): BudgetRange | null {
+  return (question.budget_ranges || []).find((range) => range.label === answer) || null;
+}
+
+/** Per-question error messages; an empty object means the answers are valid */
+export function validateIntakeAnswers(questions: IntakeQuestion[], answers: IntakeAnswers = {}): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  for (const question of questions) {
+    const answer = answers[question.id];
+    if (isBlank(answer)) {
+      if (question.required) errors[question.id] = `${question.label} is required`;
+      continue;
+    }
+
+    switch (question.type) {
+      case "select":
+        if (question.options?.length && !question.options.includes(String(answer))) {
+          errors[question.id] = `Choose one of the options for ${question.label}`;
+        }
+        break;
+      case "checkbox":
+        if (!Array.isArray(answer) || answer.some((a) => question.options?.length && !question.options.includes(a))) {
+          errors[question.id] = `Choose from the options for ${question.label}`;
+        }
+        break;
+      case "phone":
+        if (!PHONE_PATTERN.test(String(answer).trim())) {
+          errors[question.id] = "Enter a valid phone number";
+        }
+        break;
+      case "budget":
+        if (!findBudgetRange(question, answer)) {
+          errors[question.id] = `Choose a range for ${question.label}`;
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
+
+/** Human-readable answers for appointment_notes: "Label: answer" per line */
+export function formatIntakeAnswers(questions: IntakeQuestion[], answers: IntakeAnswers = {}): string | null {
+  const labels = new Map(questions.map((q) => [q.id, q.label]));
+  const lines = Object.entries(answers)
+    .filter(([, value]) => !isBlank(value))
+    .map(([id, value]) => `${labels.get(id) || id}: ${Array.isArray(value) ? value.join(", ") : value}`);
+  return lines.length > 0 ? lines.join("\n") : null;
+}
+
+// --- Routing ---
+
+/** Answers keyed by question id, with budget answers as their range's lower bound */
+export function buildRoutingContext(questions: IntakeQuestion[], answers: IntakeAnswers = {}): Record<string, unknown> {
+  const context: Record<string, unknown> = { ...answers };
+  for (const question of questions) {
+    if (question.type !== "budget") continue;
+    const range = findBudgetRange(question, answers[question.id]);
+    context[question.id] = range ? range.min : null;
+  }
+  return context;
+}
+
+/**
+ * The first rule whose conditions match, or null to book as normal. Rules without
+ * conditions never match, so a half-built rule can't reject everyone.
+ */
+export function evaluateIntakeRouting(
+  rules: IntakeRoutingRule[],
+  questions: IntakeQuestion[],
+  answers: IntakeAnswers = {},
+): IntakeRoutingResult | null {
+  const context = buildRoutingContext(questions, answers);
+
+  for (const rule of rules) {
+    if (!rule.conditions?.length) continue;
+    if (evaluateConditions(rule.conditions, context, rule.logic || "AND")) {
+      return { rule_id: rule.id, action: rule.action };
+    }
+  }
+
+  return null;
+}
+
+export function getRejectMessage(action: IntakeRoutingAction): string {
+  return action.type === "reject" && action.message?.trim() ? action.message : DEFAULT_REJECT_MESSAGE;
+}
@@ -0,0 +1,337 @@
+// supabase/functions/_shared/messaging-consent.ts
+// SMS / WhatsApp opt-out keywords and the consent ledger, shared by inbound-sms,
+// send-sms, send-whatsapp and the automation send_message action.
+//
+// An inbound message that is exactly a keyword (STOP, UNSUBSCRIBE, START, HELP and
+// their equivalents in the team's languages) is a compliance command: STOP / START
+// append an opted_out / opted_in row to messaging_consent_ledger and flip the
+// contact's dnd_sms, and every keyword gets an auto-reply. The latest ledger row
+// for an address + channel is authoritative - outbound sends refuse while it says
+// opted_out, whatever the contact's DND flag says.
+//
+// Pure module apart from the DB helpers at the bottom, which take the caller's client.
+
+import type { DbClient } from "./db.ts";
+
+// --- Types ---
+
+export type ConsentChannel = "sms" | "whatsapp";
+export type ConsentStatus = "opted_in" | "opted_out";
+export type ConsentSource = "inbound_keyword" | "manual" | "api";
+export type KeywordAction = "stop" | "start" | "help";
+
+export type KeywordLists = Partial<Record<KeywordAction, string[]>>;
+export type AutoReplies = Partial<Record<KeywordAction, string>>;
+
+/** A row of messaging_keyword_settings, normalized. Keyword handling itself can't be switched off. */
+export interface KeywordSettings {
+  /** Languages whose built-in keywords are recognised; the first one is the reply fallback */
+  languages: string[];
+  /** Extra keywords per language, on top of the built-in lists */
+  custom_keywords: Record<string, KeywordLists>;
+  auto_reply_enabled: boolean;
+  /** Reply overrides per language */
+  auto_replies: Record<string, AutoReplies>;
+}
+
+export interface KeywordMatch {
+  action: KeywordAction;
+  keyword: string;
+  language: string;
+}
+
+export interface ConsentLedgerEntry {
+  team_id: string;
+  contact_id?: string | null;
+  channel: ConsentChannel;
+  address: string;
+  status: ConsentStatus;
+  source: ConsentSource;
+  keyword?: string | null;
+  raw_message?: string | null;
+  provider_message_id?: string | null;
+}
+
+// --- Constants ---
+
+export const CONSENT_CHANNELS: ConsentChannel[] = ["sms", "whatsapp"];
+
+/** Response code send-sms / send-whatsapp return for an opted-out recipient */
+export const OPTED_OUT_CODE = "CONSENT_OPTED_OUT";
+
+/** Country code for consent addresses written without one (NANP) */
+export const DEFAULT_COUNTRY_CODE = "1";
+
+/** Checked in this order, so a word listed under both STOP and START opts out */
+const KEYWORD_ACTIONS: KeywordAction[] = ["stop", "start", "help"];
+
+/**
+ * Built-in keywords per language. STOP / START / HELP are recognised in every
+ * language since carriers require the English set regardless of locale.
+ */
+export const DEFAULT_KEYWORDS: Record<string, Required<KeywordLists>> = {
+  en: {
+    stop: ["STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT", "OPTOUT", "REVOKE"],
+    start: ["START", "UNSTOP", "SUBSCRIBE"],
+    help: ["HELP", "INFO"],
+  },
+  es: {
+    stop: ["PARAR", "ALTO", "DETENER", "CANCELAR", "BAJA"],
+    start: ["COMENZAR", "INICIAR", "SUSCRIBIR"],
+    help: ["AYUDA"],
+  },
+  fr: {
+    stop: ["ARRET", "ARRETER", "DESABONNER"],
+    start: ["DEMARRER", "ABONNER"],
+    help: ["AIDE"],
+  },
+  de: {
+    stop: ["STOPP", "ABMELDEN", "BEENDEN"],
+    start: ["ANMELDEN"],
+    help: ["HILFE"],
+  },
+  pt: {
+    stop: ["PARE", "SAIR", "CANCELAR"],
+    start: ["INICIAR", "VOLTAR"],
+    help: ["AJUDA"],
+  },
+};
+
+export const SUPPORTED_KEYWORD_LANGUAGES = Object.keys(DEFAULT_KEYWORDS);
+
+export const DEFAULT_AUTO_REPLIES: Record<string, Required<AutoReplies>> = {
+  en: {
+    stop: "You have been unsubscribed and will receive no further messages. Reply START to resubscribe.",
+    start: "You have been resubscribed. Reply STOP to unsubscribe or HELP for help.",
+    help: "Reply STOP to unsubscribe or START to resubscribe. Msg & data rates may apply.",
+  },
+  es: {
+    stop: "Se ha dado de baja y no recibirá más mensajes. Responda COMENZAR para volver a suscribirse.",
+    start: "Se ha vuelto a suscribir. Responda PARAR para darse de baja o AYUDA para obtener ayuda.",
+    help: "Responda PARAR para darse de baja o COMENZAR para volver a suscribirse. Pueden aplicarse tarifas.",
+  },
+  fr: {
+    stop: "Vous êtes désabonné et ne recevrez plus de messages. Répondez DEMARRER pour vous réabonner.",
+    start: "Vous êtes réabonné. Répondez ARRET pour vous désabonner ou AIDE pour obtenir de l'aide.",
+    help: "Répondez ARRET pour vous désabonner ou DEMARRER pour vous réabonner. Des frais peuvent s'appliquer.",
+  },
+  de: {
+    stop: "Sie wurden abgemeldet und erhalten keine weiteren Nachrichten. Antworten Sie START, um sich wieder anzumelden.",
+    start: "Sie sind wieder angemeldet. Antworten Sie STOPP zum Abmelden oder HILFE für Hilfe.",
+    help: "Antworten Sie STOPP zum Abmelden oder START zum Anmelden. Es können Gebühren anfallen.",
+  },
+  pt: {
+    stop: "Você cancelou a inscrição e não receberá mais mensagens. Responda INICIAR para se inscrever novamente.",
+    start: "Você se inscreveu novamente. Responda PARE para cancelar ou AJUDA para obter ajuda.",
+    help: "Responda PARE para cancelar ou INICIAR para se inscrever novamente. Podem ser cobradas tarifas.",
+  },
+};
+
+export const DEFAULT_KEYWORD_SETTINGS: KeywordSettings = {
+  languages: ["en"],
+  custom_keywords: {},
+  auto_reply_enabled: true,
+  auto_replies: {},
+};
+
+// --- Settings ---
+
+function normalizeKeywordLists(raw: unknown): KeywordLists {
+  if (!raw || typeof raw !== "object") return {};
+  const lists: KeywordLists = {};
+  for (const action of KEYWORD_ACTIONS) {
+    const words = (raw as Record<string, unknown>)[action];
+    if (!Array.isArray(words)) continue;
+    const normalized = words
+      .filter((w): w is string => typeof w === "string")
+      .map(normalizeKeywordText)
+      .filter(Boolean);
+    if (normalized.length > 0) lists[action] = Array.from(new Set(normalized));
+  }
+  return lists;
+}
+
+function normalizeAutoReplies(raw: unknown): AutoReplies {
+  if (!raw || typeof raw !== "object") return {};
+  const replies: AutoReplies = {};
+  for (const action of KEYWORD_ACTIONS) {
+    const text = (raw as Record<string, unknown>)[action];
+    if (typeof text === "string" && text.trim()) replies[action] = text.trim();
+  }
+  return replies;
+}
+
+/**
+ * Normalize a messaging_keyword_settings row (or null for a team without one).
+ * Unknown languages are dropped; English is used when none remain.
+ */
+export function normalizeKeywordSettings(settings: object | null | undefined): KeywordSettings {
+  if (!settings) return { ...DEFAULT_KEYWORD_SETTINGS };
+  const raw = settings as Record<string, unknown>;
+
+  const languages = Array.isArray(raw.languages)
+    ? raw.languages.filter((l: unknown): l is string => typeof l === "string" && l in DEFAULT_KEYWORDS)
+    : [];
+
+  const customKeywords: Record<string, KeywordLists> = {};
+  for (const [language, lists] of Object.entries((raw.custom_keywords || {}) as Record<string, unknown>)) {
+    const normalized = normalizeKeywordLists(lists);
+    if (Object.keys(normalized).length > 0) customKeywords[language] = normalized;
+  }
+
+  const autoReplies: Record<string, AutoReplies> = {};
+  for (const [language, replies] of Object.entries((raw.auto_replies || {}) as Record<string, unknown>)) {
+    const normalized = normalizeAutoReplies(replies);
+    if (Object.keys(normalized).length > 0) autoReplies[language] = normalized;
+  }
+
+  return {
+    languages: languages.length > 0 ? Array.from(new Set(languages)) : ["en"],
+    custom_keywords: customKeywords,
+    auto_reply_enabled: raw.auto_reply_enabled !== false,
+    auto_replies: autoReplies,
+  };
+}
+
+// --- Keyword detection ---
+
+/** Uppercase, strip accents, surrounding whitespace and punctuation ("Stop." -> "STOP") */
+export function normalizeKeywordText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .replace(/^[\s\p{P}]+|[\s\p{P}]+$/gu, "")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Match an inbound body against the team's keywords. Only a message that is
+ * entirely a keyword counts - "please don't stop" is a reply, not an opt-out.
+ * English is always checked; custom keywords take the language they're listed under.
+ */
+export function detectKeyword(body: string | null | undefined, settings: KeywordSettings): KeywordMatch | null {
+  if (!body) return null;
+  const text = normalizeKeywordText(body);
+  if (!text) return null;
+
+  const languages = Array.from(new Set([...settings.languages, "en", ...Object.keys(settings.custom_keywords)]));
+
+  for (const action of KEYWORD_ACTIONS) {
+    for (const language of languages) {
+      const words = [
+        ...(settings.languages.includes(language) || language === "en" ? DEFAULT_KEYWORDS[language]?.[action] || [] : []),
+        ...(settings.custom_keywords[language]?.[action] || []),
+      ];
+      if (words.includes(text)) {
+        return { action, keyword: text, language };
+      }
+    }
+  }
+  return null;
+}
+
+/** Auto-reply for a matched keyword, or null when replies are off */
+export function getAutoReply(match: KeywordMatch, settings: KeywordSettings): string | null {
+  if (!settings.auto_reply_enabled) return null;
+  const fallback = settings.languages[0] || "en";
+  for (const language of [match.language, fallback, "en"]) {
+    const reply = settings.auto_replies[language]?.[match.action] || DEFAULT_AUTO_REPLIES[language]?.[match.action];
+    if (reply) return reply;
+  }
+  return null;
+}
+
+/** The ledger status a keyword records; HELP doesn't change consent */
+export function getConsentStatusForAction(action: KeywordAction): ConsentStatus | null {
+  if (action === "stop") return "opted_out";
+  if (action === "start") return "opted_in";
+  return null;
+}
+
+// --- Addresses ---
+
+/**
+ * Ledger key for a phone number in E.164, so "+15550102000", "whatsapp:+15550102000",
+ * "5550102000" and "(555) 010-2000" all match. Numbers written without a country
+ * code get the default one; an 11-digit NANP number with its leading 1 keeps it.
+ */
+export function normalizeConsentAddress(phone: string, defaultCountryCode = DEFAULT_COUNTRY_CODE): string {
+  const raw = phone.replace(/^whatsapp:/i, "").trim();
+  const digits = raw.replace(/\D/g, "");
+  if (!digits) return "";
+  if (raw.startsWith("+")) return `+${digits}`;
+  if (digits.startsWith("00")) return `+${digits.slice(2)}`;
+  if (defaultCountryCode === "1" && digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
+  return `+${defaultCountryCode}${digits}`;
+}
+
+/** Empty TwiML, or a single <Message> reply */
+export function buildTwimlResponse(message?: string | null): string {
+  if (!message) return '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+  const escaped = message
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+  return `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escaped}</Message></Response>`;
+}
+
+// --- DB helpers ---
+
+export async function getKeywordSettings(supabase: DbClient, teamId: string): Promise<KeywordSettings> {
+  const { data, error } = await supabase
+    .from("messaging_keyword_settings")
+    .select("languages, custom_keywords, auto_reply_enabled, auto_replies")
+    .eq("team_id", teamId)
+    .maybeSingle<object>();
+
+  if (error) {
+    console.error("[messaging-consent] Failed to load keyword settings, using defaults:", error);
+  }
+  return normalizeKeywordSettings(data);
+}
+
+/**
+ * Latest ledger status for an address on a channel, or null when it has never
+ * opted in or out. Throws on a lookup error - callers must not send when
+ * consent can't be established.
+ */
+export async function getConsentStatus(
+  supabase: DbClient,
+  teamId: string,
+  channel: ConsentChannel,
+  phone: string,
+): Promise<ConsentStatus | null> {
+  const { data, error } = await supabase
+    .from("messaging_consent_ledger")
+    .select("status")
+    .eq("team_id", teamId)
+    .eq("channel", channel)
+    .eq("address", normalizeConsentAddress(phone))
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(1)
+    .maybeSingle<{ status: ConsentStatus }>();
+
+  if (error) throw new Error(`Consent lookup failed: ${error.message}`);
+  return data?.status ?? null;
+}
+
+export async function isOptedOut(
+  supabase: DbClient,
+  teamId: string,
+  channel: ConsentChannel,
+  phone: string,
+): Promise<boolean> {
+  return (await getConsentStatus(supabase, teamId, channel, phone)) === "opted_out";
+}
+
+export async function recordConsentEvent(supabase: DbClient, entry: ConsentLedgerEntry): Promise<void> {
+  const { error } = await supabase.from("messaging_consent_ledger").insert({
+    ...entry,
+    address: normalizeConsentAddress(entry.address),
+  });
+  if (error) throw new Error(`Failed to record consent: ${error.message}`);
+}
@@ -0,0 +1,338 @@
+// supabase/functions/_shared/microsoft-graph.ts
+// Microsoft 365 / Outlook calendar over Microsoft Graph: OAuth (authorization code
+// and refresh), busy times for slot calculation and event create / move / delete
+// for native bookings. Connections live in microsoft_calendar_connections.
+//
+// Pure module (no Deno / esm.sh imports): edge functions pass in config built from
+// Deno.env, and the Graph / login base URLs can point at a local stub in tests.
+
+import type { DbClient } from "./db.ts";
+
+// --- Types ---
+
+export interface MicrosoftGraphConfig {
+  clientId?: string;
+  clientSecret?: string;
+  /** Azure AD tenant; "common" accepts work, school and personal accounts */
+  tenant: string;
+  graphBaseUrl: string;
+  loginBaseUrl: string;
+  fetch?: typeof fetch;
+}
+
+export interface MicrosoftTokens {
+  access_token: string;
+  /** Microsoft rotates refresh tokens; store the new one when present */
+  refresh_token?: string;
+  expires_in: number;
+  scope?: string;
+}
+
+/** The microsoft_calendar_connections columns the helpers read */
+export interface MicrosoftCalendarConnection {
+  id: string;
+  email?: string | null;
+  access_token: string | null;
+  refresh_token?: string | null;
+  token_expires_at?: string | null;
+  calendar_id?: string | null;
+}
+
+export interface MicrosoftEventInput {
+  subject: string;
+  startTime: string;
+  duration: number;
+  attendeeEmails: string[];
+  description?: string;
+  location?: string;
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+// --- Constants ---
+
+export const MICROSOFT_GRAPH_BASE_URL = "https://graph.microsoft.com/v1.0";
+export const MICROSOFT_LOGIN_BASE_URL = "https://login.microsoftonline.com";
+
+export const MICROSOFT_CALENDAR_SCOPES = ["openid", "email", "offline_access", "User.Read", "Calendars.ReadWrite"];
+
+/** getSchedule statuses that block a slot ("free" and "workingElsewhere" don't) */
+export const MICROSOFT_BUSY_STATUSES = ["busy", "tentative", "oof"];
+
+/** Refresh this long before expiry so a token doesn't lapse mid-request */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// --- Config ---
+
+export function microsoftConfigFromEnv(getEnv: (key: string) => string | undefined): MicrosoftGraphConfig {
+  return {
+    clientId: getEnv("MICROSOFT_CLIENT_ID"),
+    clientSecret: getEnv("MICROSOFT_CLIENT_SECRET"),
+    tenant: getEnv("MICROSOFT_TENANT") || "common",
+    graphBaseUrl: (getEnv("MICROSOFT_GRAPH_BASE_URL") || MICROSOFT_GRAPH_BASE_URL).replace(/\/$/, ""),
+    loginBaseUrl: (getEnv("MICROSOFT_LOGIN_BASE_URL") || MICROSOFT_LOGIN_BASE_URL).replace(/\/$/, ""),
+  };
+}
+
+function graphFetch(config: MicrosoftGraphConfig): typeof fetch {
+  return config.fetch || fetch;
+}
+
+function oauthUrl(config: MicrosoftGraphConfig, endpoint: "authorize" | "token"): string {
+  return `${config.loginBaseUrl}/${config.tenant}/oauth2/v2.0/${endpoint}`;
+}
+
+// --- OAuth ---
+
+export function buildMicrosoftAuthUrl(config: MicrosoftGraphConfig, redirectUri: string, state: string): string {
+  const url = new URL(oauthUrl(config, "authorize"));
+  url.searchParams.set("client_id", config.clientId || "");
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("response_mode", "query");
+  url.searchParams.set("scope", MICROSOFT_CALENDAR_SCOPES.join(" "));
+  url.searchParams.set("state", state);
+  url.searchParams.set("prompt", "select_account");
+  return url.toString();
+}
+
+async function requestTokens(config: MicrosoftGraphConfig, params: Record<string, string>): Promise<MicrosoftTokens | null> {
+  if (!config.clientId || !config.clientSecret) return null;
+
+  const response = await graphFetch(config)(oauthUrl(config, "token"), {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      scope: MICROSOFT_CALENDAR_SCOPES.join(" "),
+      ...params,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error("[microsoft-graph] Token request failed:", await response.text());
+    return null;
+  }
+
+  return await response.json();
+}
+
+export function exchangeMicrosoftCode(
+  config: MicrosoftGraphConfig,
+  code: string,
+  redirectUri: string,
+): Promise<MicrosoftTokens | null> {
+  return requestTokens(config, { code, redirect_uri: redirectUri, grant_type: "authorization_code" });
+}
+
+export function refreshMicrosoftTokens(config: MicrosoftGraphConfig, refreshToken: string): Promise<MicrosoftTokens | null> {
+  return requestTokens(config, { refresh_token: refreshToken, grant_type: "refresh_token" });
+}
+
+export function getTokenExpiresAt(expiresIn: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + expiresIn * 1000).toISOString();
+}
+
+export function isTokenExpired(tokenExpiresAt: string | null | undefined, now: Date = new Date()): boolean {
+  if (!tokenExpiresAt) return false;
+  return new Date(tokenExpiresAt).getTime() - TOKEN_EXPIRY_MARGIN_MS <= now.getTime();
+}
+
+/** The signed-in account; personal accounts have no `mail`, so fall back to the UPN */
+export async function fetchMicrosoftProfile(
+  config: MicrosoftGraphConfig,
+  accessToken: string,
+): Promise<{ email: string; name: string } | null> {
+  const response = await graphFetch(config)(`${config.graphBaseUrl}/me?$select=mail,userPrincipalName,displayName`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!response.ok) return null;
+
+  const profile = await response.json();
+  return { email: profile.mail || profile.userPrincipalName || "", name: profile.displayName || "" };
+}
+
+// --- Connections ---
+
+/** A working access token for the connection, refreshing (and storing) it when expired */
+export async function getMicrosoftAccessToken(
+  supabase: DbClient,
+  conn: MicrosoftCalendarConnection,
+  config: MicrosoftGraphConfig,
+): Promise<string | null> {
+  if (conn.access_token && !isTokenExpired(conn.token_expires_at)) return conn.access_token;
+  if (!conn.refresh_token) return null;
+
+  const tokens = await refreshMicrosoftTokens(config, conn.refresh_token);
+  if (!tokens) return null;
+
+  await supabase
+    .from("microsoft_calendar_connections")
+    .update({
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token || conn.refresh_token,
+      token_expires_at: getTokenExpiresAt(tokens.expires_in),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", conn.id);
+
+  return tokens.access_token;
+}
+
+export async function getMicrosoftConnection(
+  supabase: DbClient,
+  teamId: string,
+  userId: string,
+): Promise<MicrosoftCalendarConnection | null> {
+  const { data } = await supabase
+    .from("microsoft_calendar_connections")
+    .select("*")
+    .eq("team_id", teamId)
+    .eq("user_id", userId)
+    .eq("sync_enabled", true)
+    .not("refresh_token", "is", null)
+    .maybeSingle<MicrosoftCalendarConnection>();
+
+  return data || null;
+}
+
+// --- Calendar ---
+
+/** Graph dateTimeTimeZone values in UTC come back without an offset */
+export function parseGraphDateTime(value: { dateTime: string; timeZone?: string }): Date {
+  const hasOffset = /(Z|[+-]\d{2}:\d{2})$/.test(value.dateTime);
+  return new Date(hasOffset ? value.dateTime : `${value.dateTime}Z`);
+}
+
+function toGraphDateTime(date: Date): { dateTime: string; timeZone: string } {
+  return { dateTime: date.toISOString().replace("Z", ""), timeZone: "UTC" };
+}
+
+function eventsUrl(config: MicrosoftGraphConfig, calendarId?: string | null): string {
+  return calendarId
+    ? `${config.graphBaseUrl}/me/calendars/${encodeURIComponent(calendarId)}/events`
+    : `${config.graphBaseUrl}/me/events`;
+}
+
+function eventUrl(config: MicrosoftGraphConfig, eventId: string): string {
+  return `${config.graphBaseUrl}/me/events/${encodeURIComponent(eventId)}`;
+}
+
+function jsonHeaders(accessToken: string): Record<string, string> {
+  return {
+    Authorization: `Bearer ${accessToken}`,
+    "Content-Type": "application/json",
+    Prefer: 'outlook.timezone="UTC"',
+  };
+}
+
+/** Busy, tentative and out-of-office blocks from the user's calendar, or null on error */
+export async function fetchMicrosoftBusyTimes(
+  config: MicrosoftGraphConfig,
+  accessToken: string,
+  email: string,
+  timeMin: string,
+  timeMax: string,
+): Promise<BusyInterval[] | null> {
+  const response = await graphFetch(config)(`${config.graphBaseUrl}/me/calendar/getSchedule`, {
+    method: "POST",
+    headers: jsonHeaders(accessToken),
+    body: JSON.stringify({
+      schedules: [email],
+      startTime: toGraphDateTime(new Date(timeMin)),
+      endTime: toGraphDateTime(new Date(timeMax)),
+      availabilityViewInterval: 15,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error("[microsoft-graph] getSchedule error:", await response.text());
+    return null;
+  }
+
+  const data = await response.json();
+  const busyTimes: BusyInterval[] = [];
+  for (const schedule of data.value || []) {
+    for (const item of schedule.scheduleItems || []) {
+      if (!MICROSOFT_BUSY_STATUSES.includes(item.status)) continue;
+      busyTimes.push({ start: parseGraphDateTime(item.start), end: parseGraphDateTime(item.end) });
+    }
+  }
+  return busyTimes;
+}
+
+export async function createMicrosoftEvent(
+  config: MicrosoftGraphConfig,
+  accessToken: string,
+  event: MicrosoftEventInput,
+  calendarId?: string | null,
+): Promise<{ eventId: string; webLink?: string } | null> {
+  const start = new Date(event.startTime);
+  const end = new Date(start.getTime() + event.duration * 60 * 1000);
+
+  const response = await graphFetch(config)(eventsUrl(config, calendarId), {
+    method: "POST",
+    headers: jsonHeaders(accessToken),
+    body: JSON.stringify({
+      subject: event.subject,
+      body: { contentType: "text", content: event.description || "" },
+      start: toGraphDateTime(start),
+      end: toGraphDateTime(end),
+      location: event.location ? { displayName: event.location } : undefined,
+      attendees: event.attendeeEmails.map((address) => ({ emailAddress: { address }, type: "required" })),
+      isReminderOn: false,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error("[microsoft-graph] Event creation error:", await response.text());
+    return null;
+  }
+
+  const created = await response.json();
+  return { eventId: created.id, webLink: created.webLink };
+}
+
+export async function updateMicrosoftEventTime(
+  config: MicrosoftGraphConfig,
+  accessToken: string,
+  eventId: string,
+  startTime: string,
+  duration: number,
+): Promise<boolean> {
+  const start = new Date(startTime);
+  const end = new Date(start.getTime() + duration * 60 * 1000);
+
+  const response = await graphFetch(config)(eventUrl(config, eventId), {
+    method: "PATCH",
+    headers: jsonHeaders(accessToken),
+    body: JSON.stringify({ start: toGraphDateTime(start), end: toGraphDateTime(end) }),
+  });
+
+  if (!response.ok) {
+    console.error("[microsoft-graph] Event update error:", await response.text());
+  }
+  return response.ok;
+}
+
+/** Deleting an event that is already gone counts as success */
+export async function deleteMicrosoftEvent(
+  config: MicrosoftGraphConfig,
+  accessToken: string,
+  eventId: string,
+): Promise<boolean> {
+  const response = await graphFetch(config)(eventUrl(config, eventId), {
+    method: "DELETE",
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok && response.status !== 404) {
+    console.error("[microsoft-graph] Event delete error:", await response.text());
+    return false;
+  }
+  return true;
+}
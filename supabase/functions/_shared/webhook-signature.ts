@@ -0,0 +1,315 @@
+// supabase/functions/_shared/webhook-signature.ts
+// Signature verification for inbound provider webhooks, shared by email-webhook,
+// inbound-sms, twilio-status-callback, whop-webhook, tiktok-webhook and
+// webhook-receiver.
+//
+// Each verifier takes the raw request body (or Twilio's form params) exactly as
+// received and returns a result rather than throwing, so the caller decides the
+// response. Schemes that sign a timestamp are checked against a replay window.
+// Twilio signs no timestamp; its callbacks are deduplicated by MessageSid instead.
+// A provider webhook whose secret isn't configured is rejected as missing_secret
+// unless ALLOW_UNSIGNED_WEBHOOKS=true is set on the functions.
+//
+// Pure module apart from recordWebhookRejection, which takes the caller's client.
+
+import type { DbClient } from "./db.ts";
+
+// --- Types ---
+
+export type WebhookSource =
+  | "email-webhook"
+  | "inbound-sms"
+  | "twilio-status-callback"
+  | "whop-webhook"
+  | "tiktok-webhook"
+  | "webhook-receiver";
+
+export type VerificationFailure =
+  | "missing_signature"
+  | "invalid_signature"
+  | "expired"
+  | "malformed"
+  | "missing_secret";
+
+export type VerificationResult = { ok: true } | { ok: false; reason: VerificationFailure };
+
+export interface VerifyOptions {
+  /** Seconds a signed timestamp may differ from now, in either direction */
+  toleranceSeconds?: number;
+  /** Current time in seconds; tests pass a fixed clock */
+  now?: number;
+}
+
+/** Svix / Standard Webhooks headers (Resend sends svix-*, Whop sends webhook-*) */
+export interface SvixHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+/** The signature block Mailgun puts in the webhook body */
+export interface MailgunSignature {
+  timestamp?: string | number | null;
+  token?: string | null;
+  signature?: string | null;
+}
+
+export interface WebhookRejection {
+  source: WebhookSource;
+  reason: VerificationFailure;
+  teamId?: string | null;
+  provider?: string | null;
+  details?: Record<string, unknown>;
+}
+
+// --- Constants ---
+
+export const DEFAULT_REPLAY_WINDOW_SECONDS = 300;
+
+/** Header webhook-receiver expects for automations with a secret, and the timestamp it signs */
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-webhook-timestamp";
+
+/** Env flag that lets provider webhooks through unsigned while their secret isn't set */
+export const ALLOW_UNSIGNED_WEBHOOKS_ENV = "ALLOW_UNSIGNED_WEBHOOKS";
+
+const VALID: VerificationResult = { ok: true };
+const fail = (reason: VerificationFailure): VerificationResult => ({ ok: false, reason });
+
+// --- Encoding helpers ---
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+async function hmac(hash: "SHA-1" | "SHA-256", key: Uint8Array | string, message: string): Promise<Uint8Array> {
+  const keyBytes = typeof key === "string" ? encoder.encode(key) : key;
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    keyBytes.buffer.slice(keyBytes.byteOffset, keyBytes.byteOffset + keyBytes.byteLength) as ArrayBuffer,
+    { name: "HMAC", hash },
+    false,
+    ["sign"],
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(message)));
+}
+
+/** Compares every character so the time taken doesn't leak how much of a guess was right */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+function checkTimestamp(timestamp: string | number | null | undefined, options: VerifyOptions): VerificationResult {
+  const seconds = Number(timestamp);
+  if (timestamp === null || timestamp === undefined || timestamp === "" || !Number.isFinite(seconds)) {
+    return fail("malformed");
+  }
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_REPLAY_WINDOW_SECONDS;
+  return Math.abs(now - seconds) > tolerance ? fail("expired") : VALID;
+}
+
+// --- Verifiers ---
+
+/**
+ * X-Twilio-Signature: base64 HMAC-SHA1, keyed with the account auth token, of the
+ * full callback URL followed by every POST param as key + value, sorted by key.
+ * `url` must be the public URL Twilio called, query string included.
+ */
+export async function verifyTwilioSignature(
+  authToken: string,
+  url: string,
+  params: URLSearchParams,
+  signature: string | null,
+): Promise<VerificationResult> {
+  if (!signature) return fail("missing_signature");
+
+  const sorted = Array.from(params.entries()).sort(([a, av], [b, bv]) =>
+    a === b ? (av < bv ? -1 : av > bv ? 1 : 0) : a < b ? -1 : 1
+  );
+  const data = url + sorted.map(([key, value]) => key + value).join("");
+  const expected = toBase64(await hmac("SHA-1", authToken, data));
+  return timingSafeEqual(expected, signature) ? VALID : fail("invalid_signature");
+}
+
+/**
+ * Svix / Standard Webhooks (Resend, Whop): base64 HMAC-SHA256 of
+ * `${id}.${timestamp}.${body}`. A `whsec_` secret is base64 key material;
+ * any other secret is used as-is. The signature header is a space-separated
+ * list of `v1,<sig>` entries so keys can be rotated.
+ */
+export async function verifySvixSignature(
+  secret: string,
+  body: string,
+  headers: SvixHeaders,
+  options: VerifyOptions = {},
+): Promise<VerificationResult> {
+  if (!headers.signature) return fail("missing_signature");
+  if (!headers.id || !headers.timestamp) return fail("malformed");
+
+  const window = checkTimestamp(headers.timestamp, options);
+  if (!window.ok) return window;
+
+  let key: Uint8Array;
+  try {
+    key = secret.startsWith("whsec_") ? fromBase64(secret.slice("whsec_".length)) : encoder.encode(secret);
+  } catch {
+    return fail("malformed");
+  }
+
+  const expected = toBase64(await hmac("SHA-256", key, `${headers.id}.${headers.timestamp}.${body}`));
+  const candidates = headers.signature
+    .split(" ")
+    .map((entry) => entry.split(","))
+    .filter(([version, value]) => version === "v1" && value)
+    .map(([, value]) => value);
+
+  if (candidates.length === 0) return fail("malformed");
+  return candidates.some((candidate) => timingSafeEqual(expected, candidate)) ? VALID : fail("invalid_signature");
+}
+
+/** Mailgun: hex HMAC-SHA256 of timestamp + token, keyed with the webhook signing key */
+export async function verifyMailgunSignature(
+  signingKey: string,
+  signature: MailgunSignature | null | undefined,
+  options: VerifyOptions = {},
+): Promise<VerificationResult> {
+  if (!signature?.signature) return fail("missing_signature");
+  if (!signature.token) return fail("malformed");
+
+  const window = checkTimestamp(signature.timestamp, options);
+  if (!window.ok) return window;
+
+  const expected = toHex(await hmac("SHA-256", signingKey, `${signature.timestamp}${signature.token}`));
+  return timingSafeEqual(expected, signature.signature.toLowerCase()) ? VALID : fail("invalid_signature");
+}
+
+/**
+ * Stripe-style `t=<unix>,v1=<hex>` header: hex HMAC-SHA256 of `${t}.${body}`.
+ * TikTok sends the same scheme with `s=` in place of `v1=`.
+ */
+export async function verifyTimestampedSignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  options: VerifyOptions = {},
+): Promise<VerificationResult> {
+  if (!header) return fail("missing_signature");
+
+  let timestamp: string | null = null;
+  const candidates: string[] = [];
+  for (const part of header.split(",")) {
+    const [name, ...rest] = part.trim().split("=");
+    const value = rest.join("=");
+    if (name === "t") timestamp = value;
+    else if ((name === "v1" || name === "s") && value) candidates.push(value.toLowerCase());
+  }
+  if (!timestamp || candidates.length === 0) return fail("malformed");
+
+  const window = checkTimestamp(timestamp, options);
+  if (!window.ok) return window;
+
+  const expected = toHex(await hmac("SHA-256", secret, `${timestamp}.${body}`));
+  return candidates.some((candidate) => timingSafeEqual(expected, candidate)) ? VALID : fail("invalid_signature");
+}
+
+/**
+ * Generic HMAC-SHA256 for `WebhookTriggerConfig.secret`: the signature header is
+ * hex or base64 of `${timestamp}.${body}`, optionally prefixed `sha256=`, and the
+ * timestamp header (unix seconds) must fall inside the replay window.
+ */
+export async function verifyHmacSignature(
+  secret: string,
+  body: string,
+  signature: string | null,
+  timestamp: string | null,
+  options: VerifyOptions = {},
+): Promise<VerificationResult> {
+  if (!signature) return fail("missing_signature");
+
+  const window = checkTimestamp(timestamp, options);
+  if (!window.ok) return window;
+
+  const value = signature.trim().replace(/^sha256=/i, "");
+  if (!value) return fail("malformed");
+
+  const digest = await hmac("SHA-256", secret, `${timestamp}.${body}`);
+  const matches = timingSafeEqual(toHex(digest), value.toLowerCase()) || timingSafeEqual(toBase64(digest), value);
+  return matches ? VALID : fail("invalid_signature");
+}
+
+/** A random 256-bit secret, hex encoded, for a webhook_received trigger */
+export function generateWebhookSecret(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/** Sign a webhook-receiver request the way verifyHmacSignature checks it */
+export async function signWebhookPayload(secret: string, body: string, timestamp: string): Promise<string> {
+  return `sha256=${toHex(await hmac("SHA-256", secret, `${timestamp}.${body}`))}`;
+}
+
+/**
+ * Secrets of the webhook_received automations a webhook-receiver request will
+ * run: those bound to its webhook id, plus any not bound to one.
+ */
+export function getWebhookTriggerSecrets(
+  automations: { definition?: { trigger?: { config?: Record<string, unknown> } } | null }[],
+  webhookId: string | null,
+): string[] {
+  const secrets = new Set<string>();
+  for (const automation of automations) {
+    const config = automation.definition?.trigger?.config || {};
+    const boundId = typeof config.webhookId === "string" ? config.webhookId.trim() : "";
+    if (boundId && boundId !== webhookId) continue;
+    if (typeof config.secret === "string" && config.secret.trim()) secrets.add(config.secret.trim());
+  }
+  return Array.from(secrets);
+}
+
+/**
+ * Result for a webhook whose signing secret isn't configured: rejected, unless
+ * the ALLOW_UNSIGNED_WEBHOOKS env flag (passed in as read) is exactly "true".
+ */
+export function verifyWithoutSecret(allowUnsignedFlag: string | null | undefined): VerificationResult {
+  return allowUnsignedFlag === "true" ? VALID : fail("missing_secret");
+}
+
+/**
+ * The URL a provider called. Edge functions see an internal request URL, so
+ * the public host comes from SUPABASE_URL; the query string is kept because
+ * Twilio signs it.
+ */
+export function buildPublicFunctionUrl(supabaseUrl: string, functionName: string, requestUrl: string): string {
+  const { search } = new URL(requestUrl);
+  return `${supabaseUrl.replace(/\/$/, "")}/functions/v1/${functionName}${search}`;
+}
+
+// --- DB helpers ---
+
+/** Audit a rejected delivery. Never throws - the caller is already returning 401. */
+export async function recordWebhookRejection(supabase: DbClient, rejection: WebhookRejection): Promise<void> {
+  const { error } = await supabase.from("webhook_audit_logs").insert({
+    team_id: rejection.teamId || null,
+    source: rejection.source,
+    event_type: "signature_verification_failed",
+    status: "error",
+    details: { reason: rejection.reason, provider: rejection.provider || null, ...rejection.details },
+    received_at: new Date().toISOString(),
+  });
+  if (error) console.error(`[${rejection.source}] Failed to audit rejected webhook:`, error);
+}
@@ -3,6 +3,7 @@
 
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 type FlexibleConfig = Record<string, unknown>;
 
@@ -54,7 +55,7 @@ export async function executeBookAppointment(
     }
 
     // Call the create-booking edge function
-    const response = await fetch(`${supabaseUrl}/functions/v1/create-booking`, {
+    const response = await outboundFetch(supabase, `${supabaseUrl}/functions/v1/create-booking`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -73,7 +74,7 @@ export async function executeBookAppointment(
         // Revenue attribution: pass funnel_lead_id for campaign tracking
         funnel_lead_id: funnelLeadId,
       }),
-    });
+    }, { simulatedResponse: { appointment: { id: "dry-run-appointment" } } });
 
     const result = await response.json();
 
@@ -165,7 +166,7 @@ export async function executeUpdateAppointment(
         // Send email if available
         if (attendeeEmail) {
           try {
-            await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+            await outboundFetch(supabase, `${supabaseUrl}/functions/v1/send-email`, {
               method: "POST",
               headers: {
                 "Content-Type": "application/json",
@@ -177,7 +178,7 @@ export async function executeUpdateAppointment(
                 body: message || "Your appointment has been updated.",
                 teamId: context.teamId,
               }),
-            });
+            }, { simulatedResponse: { success: true } });
           } catch (emailErr) {
             console.error("[UpdateAppointment] Failed to send email notification:", emailErr);
           }
@@ -186,7 +187,7 @@ export async function executeUpdateAppointment(
         // Send SMS if available and no email
         if (attendeePhone && !attendeeEmail) {
           try {
-            await fetch(`${supabaseUrl}/functions/v1/send-sms`, {
+            await outboundFetch(supabase, `${supabaseUrl}/functions/v1/send-sms`, {
               method: "POST",
               headers: {
                 "Content-Type": "application/json",
@@ -197,7 +198,7 @@ export async function executeUpdateAppointment(
                 body: message || "Your appointment has been updated.",
                 teamId: context.teamId,
               }),
-            });
+            }, { simulatedResponse: { success: true } });
           } catch (smsErr) {
             console.error("[UpdateAppointment] Failed to send SMS notification:", smsErr);
           }
@@ -261,7 +262,7 @@ export async function executeCancelAppointment(
 
     // Try to use the cancel-booking edge function for full cancellation flow
     // (includes Google Calendar sync, notifications, etc.)
-    const response = await fetch(`${supabaseUrl}/functions/v1/cancel-booking`, {
+    const response = await outboundFetch(supabase, `${supabaseUrl}/functions/v1/cancel-booking`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -270,7 +271,7 @@ export async function executeCancelAppointment(
       body: JSON.stringify({
         booking_token: appointment.booking_token,
       }),
-    });
+    }, { simulatedResponse: { success: true } });
 
     const result = await response.json();
 
@@ -2,6 +2,11 @@
 
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import {
+  coerceCustomFieldValue,
+  findCustomFieldForPath,
+  type CustomFieldDefinition,
+} from "../../_shared/custom-fields.ts";
 
 // Flexible config types to allow Record<string, any> from step.config
 type FlexibleConfig = Record<string, unknown>;
@@ -173,11 +178,20 @@ export async function executeUpdateContact(
   config: FlexibleConfig,
   context: AutomationContext,
   supabase: any,
+  customFields: CustomFieldDefinition[] = [],
 ): Promise<StepExecutionLog> {
   const log: StepExecutionLog = { status: "success" };
-  const field = config.field as string;
-  // Render template variables in the value (e.g., "{{appointment.event_type_name}}")
-  const value = renderTemplate((config.value as string) || "", context);
+  // The builder saves a list of { field, value }; older steps have a single field/value
+  const updates = (Array.isArray(config.fields) ? config.fields : [{ field: config.field, value: config.value }])
+    .filter((update: unknown): update is { field: string; value?: unknown } => {
+      const field = (update as { field?: unknown } | null)?.field;
+      return typeof field === "string" && field.trim() !== "";
+    })
+    .map((update) => ({
+      field: update.field.trim(),
+      // Render template variables in the value (e.g., "{{appointment.event_type_name}}")
+      value: renderTemplate((update.value as string) || "", context),
+    }));
 
   const leadId = context.lead?.id;
   if (!leadId) {
@@ -186,16 +200,39 @@ export async function executeUpdateContact(
     return log;
   }
 
-  if (!field) {
+  if (updates.length === 0) {
     log.status = "skipped";
     log.skipReason = "no_field_specified";
     return log;
   }
 
+  // Typed custom fields are validated up front so a bad value doesn't half-apply the step
+  const standardFields: Record<string, unknown> = {};
+  const customFieldValues: Record<string, unknown> = {};
+  for (const { field, value } of updates) {
+    if (!field.startsWith("custom_fields.")) {
+      standardFields[field] = value;
+      continue;
+    }
+    const definition = findCustomFieldForPath(customFields, field);
+    if (!definition) {
+      customFieldValues[field.replace("custom_fields.", "")] = value;
+      continue;
+    }
+    const coerced = coerceCustomFieldValue(definition, value);
+    if (coerced.error) {
+      log.status = "error";
+      log.error = coerced.error;
+      return log;
+    }
+    customFieldValues[definition.key] = coerced.value;
+  }
+
   try {
-    // Handle custom fields separately
-    if (field.startsWith("custom_fields.")) {
-      const customFieldKey = field.replace("custom_fields.", "");
+    const contactUpdate: Record<string, unknown> = { ...standardFields };
+
+    // Custom fields merge into the existing jsonb
+    if (Object.keys(customFieldValues).length > 0) {
       const { data: contact, error: fetchError } = await supabase
         .from("contacts")
         .select("custom_fields")
@@ -208,29 +245,17 @@ export async function executeUpdateContact(
         return log;
       }
 
-      const customFields = contact?.custom_fields || {};
-      customFields[customFieldKey] = value;
-
-      const { error: updateError } = await supabase
-        .from("contacts")
-        .update({ custom_fields: customFields })
-        .eq("id", leadId);
+      contactUpdate.custom_fields = { ...(contact?.custom_fields || {}), ...customFieldValues };
+    }
 
-      if (updateError) {
-        log.status = "error";
-        log.error = updateError.message;
-      }
-    } else {
-      // Standard field update
-      const { error } = await supabase
-        .from("contacts")
-        .update({ [field]: value })
-        .eq("id", leadId);
+    const { error } = await supabase
+      .from("contacts")
+      .update(contactUpdate)
+      .eq("id", leadId);
 
-      if (error) {
-        log.status = "error";
-        log.error = error.message;
-      }
+    if (error) {
+      log.status = "error";
+      log.error = error.message;
     }
   } catch (err) {
     log.status = "error";
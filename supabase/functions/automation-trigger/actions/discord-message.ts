@@ -2,6 +2,7 @@
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 interface DiscordMessageConfig {
   channel_id: string;
@@ -88,7 +89,8 @@ export async function executeDiscordMessage(
     console.log("[Discord] Sending message to channel:", discordConfig.channel_id);
 
     // Call Discord API
-    const response = await fetch(
+    const response = await outboundFetch(
+      supabase,
       `https://discord.com/api/v10/channels/${discordConfig.channel_id}/messages`,
       {
         method: "POST",
@@ -97,7 +99,8 @@ export async function executeDiscordMessage(
           "Content-Type": "application/json",
         },
         body: JSON.stringify(payload),
-      }
+      },
+      { simulatedResponse: { id: "dry-run", channel_id: discordConfig.channel_id } }
     );
 
     const data = await response.json();
@@ -2,6 +2,7 @@
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 interface GoogleAdsConversionConfig {
   conversion_action: string;   // e.g. "customers/1234567890/conversionActions/9876543210"
@@ -27,7 +28,7 @@ async function refreshAccessToken(
   }
 
   try {
-    const response = await fetch("https://oauth2.googleapis.com/token", {
+    const response = await outboundFetch(supabase, "https://oauth2.googleapis.com/token", {
       method: "POST",
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
       body: new URLSearchParams({
@@ -36,7 +37,7 @@ async function refreshAccessToken(
         refresh_token: refreshToken,
         grant_type: "refresh_token",
       }),
-    });
+    }, { simulatedResponse: { access_token: "dry-run", expires_in: 3600 } });
 
     const data = await response.json();
     if (!data.access_token) {
@@ -153,7 +154,8 @@ export async function executeGoogleAdsConversion(
     console.log("[Google Ads] Uploading conversion for customer:", customerId);
 
     // Use Google Ads API v16 to upload the offline conversion
-    const response = await fetch(
+    const response = await outboundFetch(
+      supabase,
       `https://googleads.googleapis.com/v16/customers/${customerId}:uploadClickConversions`,
       {
         method: "POST",
@@ -1,6 +1,7 @@
 import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate, enrichContext } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 interface ColumnMapping {
   column: string;
@@ -48,7 +49,7 @@ async function ensureValidToken(
       }
 
       try {
-        const tokenResponse = await fetch("https://oauth2.googleapis.com/token", {
+        const tokenResponse = await outboundFetch(supabase, "https://oauth2.googleapis.com/token", {
           method: "POST",
           headers: { "Content-Type": "application/x-www-form-urlencoded" },
           body: new URLSearchParams({
@@ -57,7 +58,7 @@ async function ensureValidToken(
             client_secret: clientSecret,
             grant_type: "refresh_token",
           }),
-        });
+        }, { simulatedResponse: { access_token: "dry-run", expires_in: 3600 } });
 
         if (!tokenResponse.ok) {
           const errorText = await tokenResponse.text();
@@ -215,7 +216,7 @@ export async function executeGoogleSheets(
     // Call Google Sheets API
     const apiUrl = `https://sheets.googleapis.com/v4/spreadsheets/${encodeURIComponent(actionConfig.spreadsheetId)}/values/${encodeURIComponent(range)}:append`;
     
-    const response = await fetch(`${apiUrl}?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`, {
+    const response = await outboundFetch(supabase, `${apiUrl}?valueInputOption=USER_ENTERED&insertDataOption=INSERT_ROWS`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${access_token}`,
@@ -224,7 +225,7 @@ export async function executeGoogleSheets(
       body: JSON.stringify({
         values: [rowData],
       }),
-    });
+    }, { simulatedResponse: { updates: { updatedRows: 1 } } });
 
     if (!response.ok) {
       const errorBody = await response.text();
@@ -3,6 +3,7 @@
 
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 type FlexibleConfig = Record<string, unknown>;
 
@@ -84,14 +85,14 @@ export async function executeSendReviewRequest(
           appointmentId: context.appointment?.id,
         };
 
-    const response = await fetch(endpoint, {
+    const response = await outboundFetch(supabase, endpoint, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "Authorization": `Bearer ${supabaseServiceKey}`,
       },
       body: JSON.stringify(payload),
-    });
+    }, { simulatedResponse: { success: true, provider: "dry_run" } });
 
     const result = await response.json();
 
@@ -203,14 +204,14 @@ export async function executeReplyInComments(
         return log;
     }
 
-    const response = await fetch(apiUrl, {
+    const response = await outboundFetch(supabase, apiUrl, {
       method: platform === "google" ? "PUT" : "POST",
       headers: {
         "Content-Type": "application/json",
         ...(platform === "google" ? { "Authorization": `Bearer ${accessToken}` } : {}),
       },
       body: JSON.stringify(apiPayload),
-    });
+    }, { simulatedResponse: { id: "dry-run" } });
 
     const result = await response.json();
 
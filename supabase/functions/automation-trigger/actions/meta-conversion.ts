@@ -2,6 +2,7 @@
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 interface MetaConversionConfig {
   pixel_id: string;           // Facebook Pixel ID
@@ -190,7 +191,8 @@ export async function executeMetaConversion(
     console.log("[Meta] Sending conversion event:", metaConfig.event_name, "to pixel:", metaConfig.pixel_id);
 
     // Call Facebook Conversions API
-    const response = await fetch(
+    const response = await outboundFetch(
+      supabase,
       `https://graph.facebook.com/v18.0/${metaConfig.pixel_id}/events`,
       {
         method: "POST",
@@ -201,7 +203,8 @@ export async function executeMetaConversion(
           access_token: accessToken,
           data: [eventPayload],
         }),
-      }
+      },
+      { simulatedResponse: { events_received: 1 } }
     );
 
     const data = await response.json();
@@ -1,7 +1,11 @@
 // supabase/functions/automation-trigger/actions/send-message.ts
 
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
-import { renderTemplate, extractTemplateVariables, getFieldValue } from "../template-engine.ts";
+import { renderTemplateWithWarnings, extractTemplateVariables, getFieldValue } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
+import { buildAppointmentInvite, getInviteMethodForTrigger, type IcsAppointment } from "../../_shared/ics.ts";
+import { SUPPRESSED_CODE } from "../../_shared/email-suppression.ts";
+import { isOptedOut, OPTED_OUT_CODE } from "../../_shared/messaging-consent.ts";
 
 /**
  * Check if Twilio is configured (via environment variables)
@@ -26,9 +30,31 @@ interface SendMessageConfig {
   fromEmail?: string;
   replyTo?: string;
   mediaUrl?: string;
+  /** Attach a .ics invite to appointment emails sent to the attendee (default on) */
+  attachCalendarInvite?: boolean;
   [key: string]: unknown;
 }
 
+/**
+ * Calendar invite for booked / rescheduled / cancelled appointment emails.
+ * Only emails to the attendee get one - an internal notification carrying a
+ * REQUEST would put the lead's meeting on whoever receives it.
+ */
+function getCalendarInvite(config: SendMessageConfig, context: AutomationContext, toAddress: string) {
+  const method = getInviteMethodForTrigger(context.triggerType);
+  const appointment = context.appointment;
+  if (!method || !appointment?.id || !appointment.start_at_utc) return null;
+  if (config.attachCalendarInvite === false) return null;
+
+  const attendeeEmail = appointment.lead_email || context.lead?.email || "";
+  if (!attendeeEmail || attendeeEmail.toLowerCase() !== toAddress.toLowerCase()) return null;
+
+  return buildAppointmentInvite(
+    { ...appointment, lead_email: attendeeEmail, lead_name: appointment.lead_name || context.lead?.name } as IcsAppointment,
+    method,
+  );
+}
+
 export async function executeSendMessage(
   config: SendMessageConfig,
   context: AutomationContext,
@@ -57,8 +83,11 @@ export async function executeSendMessage(
   }
 
   // Render template
-  const renderedBody = renderTemplate(template, context);
-  const renderedSubject = config.subject ? renderTemplate(config.subject, context) : undefined;
+  const body = renderTemplateWithWarnings(template, context);
+  const subject = config.subject ? renderTemplateWithWarnings(config.subject, context) : undefined;
+  const renderedBody = body.output;
+  const renderedSubject = subject?.output;
+  const templateWarnings = [...body.warnings, ...(subject?.warnings ?? [])].map((w) => w.message);
 
   const log: StepExecutionLog = {
     channel,
@@ -68,6 +97,11 @@ export async function executeSendMessage(
     status: "pending",
   };
 
+  if (templateWarnings.length > 0) {
+    console.warn("[Automation] send_message template warnings:", templateWarnings);
+    log.templateWarnings = templateWarnings;
+  }
+
   try {
     // Check integration configuration before calling edge functions
     if (channel === "sms" || channel === "whatsapp" || channel === "voice") {
@@ -77,6 +111,14 @@ export async function executeSendMessage(
         return log;
       }
     }
+    // Recipients who texted STOP are skipped before the send, so the run log says why
+    if (channel === "sms" || channel === "whatsapp") {
+      if (await isOptedOut(supabase, context.teamId, channel, toAddress)) {
+        log.status = "skipped";
+        log.skipReason = "recipient_opted_out";
+        return log;
+      }
+    }
     // Note: Email channel uses Resend/Mailgun which may be configured via env vars or team settings
     // We don't check email integration here as it's more complex and edge function handles stub mode
 
@@ -85,6 +127,7 @@ export async function executeSendMessage(
 
     let endpoint: string;
     let payload: Record<string, any>;
+    const calendarInvite = channel === "email" ? getCalendarInvite(config, context, toAddress) : null;
 
     switch (channel) {
       case "sms":
@@ -116,6 +159,10 @@ export async function executeSendMessage(
           appointmentId: context.appointment?.id,
           template: config.template,
         };
+        if (calendarInvite) {
+          payload.attachments = [calendarInvite];
+          log.attachments = [calendarInvite.filename];
+        }
         break;
 
       case "voice":
@@ -151,14 +198,14 @@ export async function executeSendMessage(
         return log;
     }
 
-    const response = await fetch(endpoint, {
+    const response = await outboundFetch(supabase, endpoint, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "Authorization": `Bearer ${supabaseServiceKey}`,
       },
       body: JSON.stringify(payload),
-    });
+    }, { simulatedResponse: { success: true, provider: "dry_run" } });
 
     const result = await response.json();
 
@@ -166,6 +213,12 @@ export async function executeSendMessage(
       log.status = "success";
       log.provider = result.provider;
       log.messageId = result.messageId || result.callId;
+    } else if (result.code === OPTED_OUT_CODE) {
+      log.status = "skipped";
+      log.skipReason = "recipient_opted_out";
+    } else if (result.code === SUPPRESSED_CODE) {
+      log.status = "skipped";
+      log.skipReason = "recipient_suppressed";
     } else {
       log.status = "error";
       log.error = result.error || "Unknown error";
@@ -179,4 +232,4 @@ export async function executeSendMessage(
   return log;
 }
 
-// renderTemplate, extractTemplateVariables, getFieldValue imported from ../template-engine.ts
+// renderTemplateWithWarnings, extractTemplateVariables, getFieldValue imported from ../template-engine.ts
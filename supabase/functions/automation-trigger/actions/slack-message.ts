@@ -2,6 +2,7 @@
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 interface SlackMessageConfig {
   channel: string;
@@ -75,14 +76,14 @@ export async function executeSlackMessage(
     console.log("[Slack] Sending message to channel:", slackConfig.channel);
 
     // Call Slack API directly with the team's access token
-    const response = await fetch("https://slack.com/api/chat.postMessage", {
+    const response = await outboundFetch(supabase, "https://slack.com/api/chat.postMessage", {
       method: "POST",
       headers: {
         "Authorization": `Bearer ${accessToken}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify(payload),
-    });
+    }, { simulatedResponse: { ok: true, channel: slackConfig.channel, ts: "dry-run" } });
 
     const data = await response.json();
 
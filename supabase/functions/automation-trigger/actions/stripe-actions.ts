@@ -3,6 +3,7 @@
 
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 type FlexibleConfig = Record<string, unknown>;
 
@@ -87,7 +88,7 @@ export async function executeSendInvoice(
       customerId = customerData.data[0].id;
     } else {
       // Create new customer
-      const createCustomerResponse = await fetch("https://api.stripe.com/v1/customers", {
+      const createCustomerResponse = await outboundFetch(supabase, "https://api.stripe.com/v1/customers", {
         method: "POST",
         headers: {
           Authorization: `Bearer ${credentials.accessToken}`,
@@ -97,7 +98,7 @@ export async function executeSendInvoice(
           email: customerEmail,
           name: context.lead?.name || "",
         }),
-      });
+      }, { simulatedResponse: { id: "cus_dry_run" } });
       const newCustomer = await createCustomerResponse.json();
       
       if (newCustomer.error) {
@@ -110,7 +111,7 @@ export async function executeSendInvoice(
     }
 
     // Create invoice
-    const invoiceResponse = await fetch("https://api.stripe.com/v1/invoices", {
+    const invoiceResponse = await outboundFetch(supabase, "https://api.stripe.com/v1/invoices", {
       method: "POST",
       headers: {
         Authorization: `Bearer ${credentials.accessToken}`,
@@ -122,7 +123,7 @@ export async function executeSendInvoice(
         days_until_due: String(daysUntilDue),
         auto_advance: "true",
       }),
-    });
+    }, { simulatedResponse: { id: "in_dry_run" } });
     const invoice = await invoiceResponse.json();
 
     if (invoice.error) {
@@ -132,7 +133,7 @@ export async function executeSendInvoice(
     }
 
     // Add invoice item
-    await fetch("https://api.stripe.com/v1/invoiceitems", {
+    await outboundFetch(supabase, "https://api.stripe.com/v1/invoiceitems", {
       method: "POST",
       headers: {
         Authorization: `Bearer ${credentials.accessToken}`,
@@ -148,19 +149,21 @@ export async function executeSendInvoice(
     });
 
     // Finalize and send invoice
-    const finalizeResponse = await fetch(
+    const finalizeResponse = await outboundFetch(
+      supabase,
       `https://api.stripe.com/v1/invoices/${invoice.id}/finalize`,
       {
         method: "POST",
         headers: {
           Authorization: `Bearer ${credentials.accessToken}`,
         },
-      }
+      },
+      { simulatedResponse: { id: "in_dry_run" } }
     );
     const finalizedInvoice = await finalizeResponse.json();
 
     // Send the invoice
-    await fetch(`https://api.stripe.com/v1/invoices/${invoice.id}/send`, {
+    await outboundFetch(supabase, `https://api.stripe.com/v1/invoices/${invoice.id}/send`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${credentials.accessToken}`,
@@ -248,7 +251,7 @@ export async function executeChargePayment(
     }
 
     // Create and confirm payment intent
-    const paymentResponse = await fetch("https://api.stripe.com/v1/payment_intents", {
+    const paymentResponse = await outboundFetch(supabase, "https://api.stripe.com/v1/payment_intents", {
       method: "POST",
       headers: {
         Authorization: `Bearer ${credentials.accessToken}`,
@@ -263,7 +266,7 @@ export async function executeChargePayment(
         confirm: "true",
         description: description,
       }),
-    });
+    }, { simulatedResponse: { id: "pi_dry_run", status: "succeeded" } });
     const payment = await paymentResponse.json();
 
     if (payment.error) {
@@ -339,7 +342,7 @@ export async function executeCreateSubscription(
     if (customerData.data?.length > 0) {
       customerId = customerData.data[0].id;
     } else {
-      const createCustomerResponse = await fetch("https://api.stripe.com/v1/customers", {
+      const createCustomerResponse = await outboundFetch(supabase, "https://api.stripe.com/v1/customers", {
         method: "POST",
         headers: {
           Authorization: `Bearer ${credentials.accessToken}`,
@@ -349,7 +352,7 @@ export async function executeCreateSubscription(
           email: customerEmail,
           name: context.lead?.name || "",
         }),
-      });
+      }, { simulatedResponse: { id: "cus_dry_run" } });
       const newCustomer = await createCustomerResponse.json();
       
       if (newCustomer.error) {
@@ -371,14 +374,14 @@ export async function executeCreateSubscription(
       params.set("trial_period_days", String(config.trialDays));
     }
 
-    const subscriptionResponse = await fetch("https://api.stripe.com/v1/subscriptions", {
+    const subscriptionResponse = await outboundFetch(supabase, "https://api.stripe.com/v1/subscriptions", {
       method: "POST",
       headers: {
         Authorization: `Bearer ${credentials.accessToken}`,
         "Content-Type": "application/x-www-form-urlencoded",
       },
       body: params,
-    });
+    }, { simulatedResponse: { id: "sub_dry_run", status: "active" } });
     const subscription = await subscriptionResponse.json();
 
     if (subscription.error) {
@@ -434,7 +437,8 @@ export async function executeCancelSubscription(
     let response;
     if (cancelAtPeriodEnd) {
       // Schedule cancellation at period end
-      response = await fetch(
+      response = await outboundFetch(
+        supabase,
         `https://api.stripe.com/v1/subscriptions/${subscriptionId}`,
         {
           method: "POST",
@@ -445,18 +449,21 @@ export async function executeCancelSubscription(
           body: new URLSearchParams({
             cancel_at_period_end: "true",
           }),
-        }
+        },
+        { simulatedResponse: { id: subscriptionId, status: "active" } }
       );
     } else {
       // Cancel immediately
-      response = await fetch(
+      response = await outboundFetch(
+        supabase,
         `https://api.stripe.com/v1/subscriptions/${subscriptionId}`,
         {
           method: "DELETE",
           headers: {
             Authorization: `Bearer ${credentials.accessToken}`,
           },
-        }
+        },
+        { simulatedResponse: { id: subscriptionId, status: "canceled" } }
       );
     }
 
@@ -2,6 +2,7 @@
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 interface TikTokEventConfig {
   event_type: string;      // e.g. "CompletePayment", "SubmitForm", "Contact"
@@ -109,7 +110,8 @@ export async function executeTikTokEvent(
     console.log("[TikTok] Sending event:", tiktokConfig.event_type, "pixel:", tiktokConfig.pixel_code);
 
     // Call TikTok Events API
-    const response = await fetch(
+    const response = await outboundFetch(
+      supabase,
       "https://business-api.tiktok.com/open_api/v1.3/event/track/",
       {
         method: "POST",
@@ -120,7 +122,8 @@ export async function executeTikTokEvent(
         body: JSON.stringify({
           batch: [eventPayload],
         }),
-      }
+      },
+      { simulatedResponse: { code: 0 } }
     );
 
     const data = await response.json();
@@ -220,6 +220,7 @@ export async function executeTimeDelay(
           step_id: currentStepId,
           resume_at: resumeAt.toISOString(),
           status: "pending",
+          workflow_version_id: context.workflowVersionId ?? null,
           context_snapshot: {
             ...context,
             remainingSteps: remainingSteps.map((s) => s.id),
@@ -370,6 +371,7 @@ export async function executeWaitUntil(
           step_id: currentStepId,
           resume_at: resumeAt.toISOString(),
           status: waitingForEvent ? "waiting_for_event" : "pending",
+          workflow_version_id: context.workflowVersionId ?? null,
           context_snapshot: {
             ...context,
             remainingSteps: remainingSteps.map((s) => s.id),
@@ -442,6 +444,7 @@ export async function executeBusinessHours(
           step_id: currentStepId,
           resume_at: resumeAt.toISOString(),
           status: "pending",
+          workflow_version_id: context.workflowVersionId ?? null,
           context_snapshot: {
             ...context,
             remainingSteps: remainingSteps.map((s) => s.id),
@@ -3,12 +3,16 @@
 
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
+import { coerceCustomFieldValue, type CustomFieldType } from "../../_shared/custom-fields.ts";
 
 type FlexibleConfig = Record<string, unknown>;
 
 /**
  * Set Variable - store a value in context for downstream steps
- * Supports template rendering and simple expressions
+ * Supports template rendering and simple expressions. An optional `type`
+ * (number, currency, date, checkbox) stores the value coerced, the same way
+ * typed contact custom fields are, and makes conditions on it compare by type.
  * 
  * Access patterns for downstream steps:
  *   {{stepOutputs.variables.myVar}}  — clean named access
@@ -22,6 +26,7 @@ export async function executeSetVariable(
 
   const variableName = config.name as string;
   const rawValue = (config.value as string) || "";
+  const type = (config.type as CustomFieldType | undefined) || "text";
 
   if (!variableName) {
     log.status = "skipped";
@@ -30,9 +35,20 @@ export async function executeSetVariable(
   }
 
   // Render template variables in the value
-  const value = renderTemplate(rawValue, context);
+  const rendered = renderTemplate(rawValue, context);
+  if (type === "text") {
+    log.output = { name: variableName, value: rendered };
+    return log;
+  }
+
+  const coerced = coerceCustomFieldValue({ key: variableName, label: variableName, field_type: type }, rendered);
+  if (coerced.error) {
+    log.status = "error";
+    log.error = coerced.error;
+    return log;
+  }
 
-  log.output = { name: variableName, value };
+  log.output = { name: variableName, value: coerced.value, type };
 
   return log;
 }
@@ -78,7 +94,7 @@ export async function executeAddToWorkflow(
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
-    const response = await fetch(`${supabaseUrl}/functions/v1/automation-trigger`, {
+    const response = await outboundFetch(supabase, `${supabaseUrl}/functions/v1/automation-trigger`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -95,7 +111,7 @@ export async function executeAddToWorkflow(
         },
         eventId: `add_to_workflow:${workflowId}:${context.lead?.id || "unknown"}:${Date.now()}`,
       }),
-    });
+    }, { simulatedResponse: { status: "ok" } });
 
     if (!response.ok) {
       log.status = "error";
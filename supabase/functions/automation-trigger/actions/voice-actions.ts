@@ -3,6 +3,7 @@
 
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
 
 type FlexibleConfig = Record<string, unknown>;
 
@@ -67,7 +68,7 @@ export async function executeSendVoicemail(
     }
 
     // Use the make-call function with machine detection set to voicemail
-    const response = await fetch(`${supabaseUrl}/functions/v1/make-call`, {
+    const response = await outboundFetch(supabase, `${supabaseUrl}/functions/v1/make-call`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -81,7 +82,7 @@ export async function executeSendVoicemail(
         leadId: context.lead?.id,
         appointmentId: context.appointment?.id,
       }),
-    });
+    }, { simulatedResponse: { success: true, provider: "dry_run" } });
 
     const result = await response.json();
 
@@ -153,7 +154,7 @@ export async function executeMakeCall(
       twiml = `<Response><Say voice="Polly.Matthew">${escapedWhisper}</Say><Pause length="1"/><Say voice="Polly.Matthew">${escapedScript}</Say></Response>`;
     }
 
-    const response = await fetch(`${supabaseUrl}/functions/v1/make-call`, {
+    const response = await outboundFetch(supabase, `${supabaseUrl}/functions/v1/make-call`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -170,7 +171,7 @@ export async function executeMakeCall(
         appointmentId: context.appointment?.id,
         script,
       }),
-    });
+    }, { simulatedResponse: { success: true, provider: "dry_run" } });
 
     const result = await response.json();
 
@@ -2,6 +2,8 @@
 // ElevenLabs Voice AI integration for automated calls
 
 import type { AutomationContext } from "../types.ts";
+import { outboundFetch } from "../sandbox.ts";
+import type { DbClient } from "../../_shared/db.ts";
 
 interface VoiceAIConfig {
   channel: "voice";
@@ -42,7 +44,7 @@ export async function executeVoiceCall(
     
     // If using ElevenLabs AI, get conversation token and build streaming TwiML
     if (config.useElevenLabsAI && config.agentId) {
-      const tokenResult = await getElevenLabsToken(supabaseUrl, supabaseServiceKey, config.agentId);
+      const tokenResult = await getElevenLabsToken(supabase, supabaseUrl, supabaseServiceKey, config.agentId);
       
       if (tokenResult.error) {
         console.warn("[VoiceAI] ElevenLabs token failed, falling back to TTS:", tokenResult.error);
@@ -58,7 +60,7 @@ export async function executeVoiceCall(
     }
     
     // Call the make-call edge function
-    const response = await fetch(`${supabaseUrl}/functions/v1/make-call`, {
+    const response = await outboundFetch(supabase, `${supabaseUrl}/functions/v1/make-call`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -75,7 +77,7 @@ export async function executeVoiceCall(
         mode: config.mode || "immediate",
         script: config.script,
       }),
-    });
+    }, { simulatedResponse: { success: true, provider: "dry_run" } });
     
     const result = await response.json();
     
@@ -106,12 +108,14 @@ export async function executeVoiceCall(
  * Get ElevenLabs conversation token
  */
 async function getElevenLabsToken(
+  supabase: DbClient,
   supabaseUrl: string,
   serviceKey: string,
   agentId: string,
 ): Promise<{ token?: string; error?: string }> {
   try {
-    const response = await fetch(
+    const response = await outboundFetch(
+      supabase,
       `${supabaseUrl}/functions/v1/elevenlabs-conversation-token`,
       {
         method: "POST",
@@ -121,6 +125,7 @@ async function getElevenLabsToken(
         },
         body: JSON.stringify({ agentId }),
       },
+      { simulatedResponse: { token: "dry-run" } },
     );
     
     const data = await response.json();
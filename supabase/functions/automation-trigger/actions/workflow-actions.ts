@@ -2,6 +2,8 @@
 
 import type { AutomationContext, StepExecutionLog } from "../types.ts";
 import { renderTemplate, getFieldValue } from "../template-engine.ts";
+import { outboundFetch } from "../sandbox.ts";
+import type { DbClient } from "../../_shared/db.ts";
 
 // Flexible config type to allow Record<string, any> from step.config
 type FlexibleConfig = Record<string, unknown>;
@@ -147,7 +149,7 @@ export async function executeNotifyTeam(
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
 
     const emailPromises = emailAddresses.map(async (email: string) => {
-      const emailResponse = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+      const emailResponse = await outboundFetch(supabase, `${supabaseUrl}/functions/v1/send-email`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -161,7 +163,7 @@ export async function executeNotifyTeam(
           automationId,
           runId,
         }),
-      });
+      }, { simulatedResponse: { success: true } });
 
       if (!emailResponse.ok) {
         const errorText = await emailResponse.text();
@@ -218,6 +220,7 @@ export async function executeNotifyTeam(
 export async function executeCustomWebhook(
   config: FlexibleConfig,
   context: AutomationContext,
+  supabase: DbClient,
 ): Promise<StepExecutionLog> {
   const log: StepExecutionLog = { status: "success" };
   const rawUrl = config.url as string | undefined;
@@ -256,14 +259,15 @@ export async function executeCustomWebhook(
 
     const method = (config.method as string) || "POST";
     const headers = config.headers as Record<string, string> | undefined;
-    const response = await fetch(url, {
+    // User-configured webhooks may act on GET too, so a dry run records every method
+    const response = await outboundFetch(supabase, url, {
       method,
       headers: {
         "Content-Type": "application/json",
         ...headers,
       },
       body,
-    });
+    }, { sendReads: false });
 
     if (!response.ok) {
       log.status = "error";
@@ -313,7 +317,7 @@ export async function executeRunWorkflow(
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
-    const response = await fetch(`${supabaseUrl}/functions/v1/automation-trigger`, {
+    const response = await outboundFetch(supabase, `${supabaseUrl}/functions/v1/automation-trigger`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -331,7 +335,7 @@ export async function executeRunWorkflow(
         },
         eventId: `run_workflow:${workflowId}:${Date.now()}`,
       }),
-    });
+    }, { simulatedResponse: { status: "ok" } });
 
     if (!response.ok) {
       log.status = "error";
@@ -361,15 +365,6 @@ export function executeStopWorkflow(
   };
 }
 
-// Go To (jump to another step)
-export function executeGoTo(
-  config: FlexibleConfig,
-): { jumpTo: string } | null {
-  const targetStepId = config.targetStepId as string | undefined;
-  if (!targetStepId) {
-    return null;
-  }
-  return { jumpTo: targetStepId };
-}
+// Go To is resolved by resolveGoTo in ../../_shared/automation-engine.ts
 
 // getFieldValue imported from ../template-engine.ts
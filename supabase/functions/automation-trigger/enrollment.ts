@@ -2,6 +2,7 @@
 // Enrollment tracking and goal evaluation for automations
 
 import type { AutomationContext } from "./types.ts";
+import { evaluateGoalConditions } from "../_shared/automation-engine.ts";
 
 interface EnrollmentCheckResult {
   shouldRun: boolean;
@@ -26,12 +27,16 @@ interface GoalCheckResult {
  * - 'after_exit': Re-enroll after contact has exited the automation
  * - 'after_complete': Re-enroll after contact has completed the automation
  * - 'always': Always allow re-enrollment (with cooldown)
+ *
+ * The enrollment is pinned to `workflowVersionId` (the published version the run
+ * uses), so contacts parked in a delay resume on that version after later publishes.
  */
 export async function checkAndCreateEnrollment(
   supabase: any,
   automationId: string,
   teamId: string,
   context: AutomationContext,
+  workflowVersionId: string | null = null,
 ): Promise<EnrollmentCheckResult> {
   // Determine the contact identifier (contact_id or appointment_id)
   const contactId = context.lead?.id || null;
@@ -212,6 +217,7 @@ export async function checkAndCreateEnrollment(
         enrolled_at: new Date().toISOString(),
         context_snapshot: context,
         reenrollment_count: reenrollmentCount,
+        workflow_version_id: workflowVersionId,
       })
       .select("id")
       .single();
@@ -342,53 +348,3 @@ export async function checkGoals(
     return { goalMet: false };
   }
 }
-
-/**
- * Evaluate goal conditions against context
- */
-function evaluateGoalConditions(
-  conditions: Array<{ field: string; operator: string; value: any }>,
-  context: AutomationContext,
-): boolean {
-  if (!conditions || conditions.length === 0) return false;
-  
-  // All conditions must be met (AND logic)
-  return conditions.every((condition) => {
-    const actual = getFieldValue(context, condition.field);
-    const expected = condition.value;
-    
-    switch (condition.operator) {
-      case "equals":
-        return actual === expected;
-      case "not_equals":
-        return actual !== expected;
-      case "contains":
-        return typeof actual === "string" && actual.includes(String(expected));
-      case "gt":
-        return typeof actual === "number" && actual > Number(expected);
-      case "lt":
-        return typeof actual === "number" && actual < Number(expected);
-      case "in":
-        return Array.isArray(expected) && expected.includes(actual);
-      case "exists":
-        return actual !== undefined && actual !== null;
-      case "not_exists":
-        return actual === undefined || actual === null;
-      default:
-        return false;
-    }
-  });
-}
-
-/**
- * Get field value from context using dot notation path
- */
-function getFieldValue(context: Record<string, any>, path: string): any {
-  const keys = path.split(".");
-  let value: any = context;
-  for (const key of keys) {
-    if (value == null) return undefined;
-    value = value[key];
-  }
-  return value;
-}
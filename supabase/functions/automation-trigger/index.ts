@@ -9,8 +9,14 @@ import type {
   StepExecutionLog,
   TriggerRequest,
   TriggerResponse,
+  RunMode,
+  ReplayRequest,
+  DryRunReport,
 } from "./types.ts";
 import { logStepExecution, executeWithRetry } from "./step-logger.ts";
+import { snapshotContext } from "./step-logger.ts";
+import { getSimulatedActionCategory, simulateAction, loadReplaySource, ReplayError } from "./replay.ts";
+import { createSandbox, createSandboxClient, buildDryRunReport } from "./sandbox.ts";
 import { checkRateLimit, isWithinBusinessHours } from "./rate-limiter.ts";
 import { RETRY_POLICIES } from "./retry-policy.ts";
 import { executeSendMessage } from "./actions/send-message.ts";
@@ -61,7 +67,6 @@ import {
   executeCustomWebhook,
   executeRunWorkflow,
   executeStopWorkflow,
-  executeGoTo,
 } from "./actions/workflow-actions.ts";
 import { executeSlackMessage } from "./actions/slack-message.ts";
 import { executeDiscordMessage } from "./actions/discord-message.ts";
@@ -96,6 +101,25 @@ import {
   exitEnrollment,
   checkGoals,
 } from "./enrollment.ts";
+import {
+  evaluateConditions as evaluateEngineConditions,
+  getStepSkipReason,
+  resolveConditionBranch,
+  selectSplitTestVariant,
+  getSplitTestVariants,
+  resolveGoTo,
+  createGoalTracker,
+  decideGoalAction,
+  walkStepGraph,
+  MAX_GOAL_REDIRECTS,
+  type EngineOptions,
+  type StepOutcome,
+} from "../_shared/automation-engine.ts";
+import {
+  getConditionValueType,
+  getCustomFieldConditionTypes,
+  type CustomFieldDefinition,
+} from "../_shared/custom-fields.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -174,165 +198,23 @@ import {
   getFieldValue as getFieldValueEnhanced,
 } from "./template-engine.ts";
 
-// --- Condition Evaluator (GHL-grade operators) ---
-function getFieldValue(context: Record<string, any>, path: string): any {
-  return getFieldValueEnhanced(context, path);
-}
-
-function evaluateCondition(condition: AutomationCondition, context: Record<string, any>): boolean {
-  const actual = getFieldValue(context, condition.field);
-  const expected = condition.value;
-
-  switch (condition.operator) {
-    // === STRING OPERATORS ===
-    case "equals":
-      return actual === expected;
-    case "not_equals":
-      return actual !== expected;
-    case "contains":
-      if (typeof actual === "string") {
-        return actual.toLowerCase().includes(String(expected).toLowerCase());
-      }
-      if (Array.isArray(actual)) {
-        return actual.includes(expected);
-      }
-      return false;
-    case "not_contains":
-      if (typeof actual === "string") {
-        return !actual.toLowerCase().includes(String(expected).toLowerCase());
-      }
-      if (Array.isArray(actual)) {
-        return !actual.includes(expected);
-      }
-      return true;
-    case "starts_with":
-      return typeof actual === "string" && actual.toLowerCase().startsWith(String(expected).toLowerCase());
-    case "ends_with":
-      return typeof actual === "string" && actual.toLowerCase().endsWith(String(expected).toLowerCase());
-    case "regex":
-      try {
-        return typeof actual === "string" && new RegExp(String(expected)).test(actual);
-      } catch {
-        return false;
-      }
-
-    // === NUMBER OPERATORS ===
-    case "gt":
-    case "greater_than":
-      return Number(actual) > Number(expected);
-    case "gte":
-    case "greater_or_equal":
-      return Number(actual) >= Number(expected);
-    case "lt":
-    case "less_than":
-      return Number(actual) < Number(expected);
-    case "lte":
-    case "less_or_equal":
-      return Number(actual) <= Number(expected);
-    case "between":
-      if (Array.isArray(expected) && expected.length === 2) {
-        const num = Number(actual);
-        return num >= Number(expected[0]) && num <= Number(expected[1]);
-      }
-      return false;
-
-    // === DATE OPERATORS ===
-    case "before":
-      return new Date(actual) < new Date(String(expected));
-    case "after":
-      return new Date(actual) > new Date(String(expected));
-    case "within_last_minutes": {
-      const minAgo = new Date(Date.now() - Number(expected) * 60 * 1000);
-      return new Date(actual) >= minAgo;
-    }
-    case "within_last_hours": {
-      const hoursAgo = new Date(Date.now() - Number(expected) * 60 * 60 * 1000);
-      return new Date(actual) >= hoursAgo;
-    }
-    case "within_last_days": {
-      const daysAgo = new Date(Date.now() - Number(expected) * 24 * 60 * 60 * 1000);
-      return new Date(actual) >= daysAgo;
-    }
-    case "after_now_minutes": {
-      const futureTime = new Date(Date.now() + Number(expected) * 60 * 1000);
-      return new Date(actual) > futureTime;
-    }
-    case "day_of_week_is": {
-      const date = new Date(actual);
-      const dayNames = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
-      return dayNames[date.getDay()] === String(expected).toLowerCase();
-    }
-    case "month_is": {
-      const date = new Date(actual);
-      return (date.getMonth() + 1) === Number(expected);
-    }
-    case "date_before":
-      return new Date(actual) < new Date(String(expected));
-    case "date_after":
-      return new Date(actual) > new Date(String(expected));
-    case "date_within_days": {
-      const daysAgo = new Date(Date.now() - Number(expected) * 24 * 60 * 60 * 1000);
-      const dateValue = new Date(actual);
-      return dateValue >= daysAgo && dateValue <= new Date();
-    }
-    case "date_past_days": {
-      const daysAgo = new Date(Date.now() - Number(expected) * 24 * 60 * 60 * 1000);
-      return new Date(actual) < daysAgo;
-    }
-
-    // === BOOLEAN OPERATORS ===
-    case "is_true":
-      return actual === true || actual === "true" || actual === 1;
-    case "is_false":
-      return actual === false || actual === "false" || actual === 0;
-
-    // === ARRAY OPERATORS ===
-    case "contains_any":
-      return Array.isArray(actual) && Array.isArray(expected) && expected.some((e: any) => actual.includes(e));
-    case "contains_all":
-      return Array.isArray(actual) && Array.isArray(expected) && expected.every((e: any) => actual.includes(e));
-    case "not_contains_any":
-      return Array.isArray(actual) && Array.isArray(expected) && !expected.some((e: any) => actual.includes(e));
-    case "not_in":
-      return Array.isArray(expected) && !expected.includes(actual);
-
-    // === EXISTENCE OPERATORS ===
-    case "is_set":
-    case "exists":
-      return actual !== null && actual !== undefined && actual !== "";
-    case "is_not_set":
-    case "is_empty":
-      return actual === null || actual === undefined || actual === "";
-    case "is_not_empty":
-      if (Array.isArray(actual)) return actual.length > 0;
-      return actual !== null && actual !== undefined && actual !== "";
-
-    // === LEGACY OPERATORS ===
-    case "in":
-      return Array.isArray(expected) && expected.includes(actual);
-    case "tag_present":
-      // Alias for contains - check if tag array contains the expected value
-      if (Array.isArray(actual)) {
-        return actual.includes(expected);
-      }
-      if (typeof actual === "string") {
-        return actual.toLowerCase().includes(String(expected).toLowerCase());
-      }
-      return false;
-    case "tag_absent":
-      // Alias for not_contains - check if tag array does not contain the expected value
-      if (Array.isArray(actual)) {
-        return !actual.includes(expected);
-      }
-      if (typeof actual === "string") {
-        return !actual.toLowerCase().includes(String(expected).toLowerCase());
-      }
-      return true;
-
-    default:
-      console.warn(`[Automation] Unknown operator: ${condition.operator}`);
-      return false;
+// --- Condition Evaluator (shared engine, GHL-grade operators) ---
+// Conditions resolve through the template engine so aliases like
+// "contact.first_name" work the same in conditions and templates.
+const ENGINE_OPTIONS: EngineOptions = { resolveField: getFieldValueEnhanced };
+
+// Team custom field definitions, loaded once per run. Conditions on typed fields
+// compare by type and update_contact validates the values it writes.
+async function loadCustomFields(supabase: any, teamId: string): Promise<CustomFieldDefinition[]> {
+  const { data, error } = await supabase
+    .from("contact_custom_fields")
+    .select("key, label, field_type, options, currency")
+    .eq("team_id", teamId);
+  if (error) {
+    console.warn("[Automation] Could not load custom fields, comparing them untyped:", error.message);
+    return [];
   }
+  return data || [];
 }
 
 function evaluateConditions(
@@ -340,11 +222,7 @@ function evaluateConditions(
   context: Record<string, any>,
   logic: "AND" | "OR" = "AND",
 ): boolean {
-  if (!conditions || conditions.length === 0) return true;
-  if (logic === "AND") {
-    return conditions.every((c) => evaluateCondition(c, context));
-  }
-  return conditions.some((c) => evaluateCondition(c, context));
+  return evaluateEngineConditions(conditions, context, logic, ENGINE_OPTIONS);
 }
 
 // --- Trigger Constraint Matching ---
@@ -430,7 +308,12 @@ function matchesTriggerConstraints(
   }
 
   // --- FORM TRIGGER CONSTRAINTS ---
-  if (triggerType === "form_submitted" || triggerType === "survey_submitted" || triggerType === "quiz_submitted") {
+  if (
+    triggerType === "form_submitted" ||
+    triggerType === "survey_submitted" ||
+    triggerType === "quiz_submitted" ||
+    triggerType === "funnel_abandoned"
+  ) {
     if (config.funnelId && config.funnelId.trim()) {
       const funnelMatch = context.meta?.funnelId === config.funnelId || 
                           context.meta?.funnel_id === config.funnelId;
@@ -500,6 +383,21 @@ function matchesTriggerConstraints(
     }
   }
 
+  // --- WAITLIST TRIGGER CONSTRAINTS ---
+  if (triggerType === "waitlist_updated") {
+    if (config.waitlistEvent && config.waitlistEvent !== "any") {
+      if (context.meta?.waitlistEvent !== config.waitlistEvent) {
+        reasons.push(`waitlist_event mismatch: expected "${config.waitlistEvent}", got "${context.meta?.waitlistEvent}"`);
+      }
+    }
+
+    if (config.eventTypeId && config.eventTypeId.trim()) {
+      if (context.meta?.waitlist?.event_type_id !== config.eventTypeId) {
+        reasons.push(`event_type_id mismatch: expected "${config.eventTypeId}", got "${context.meta?.waitlist?.event_type_id}"`);
+      }
+    }
+  }
+
   // --- MESSAGING TRIGGER CONSTRAINTS ---
   if (triggerType === "customer_replied" || triggerType === "messaging_error") {
     if (config.channel && config.channel !== "any") {
@@ -510,6 +408,16 @@ function matchesTriggerConstraints(
     }
   }
 
+  // --- WEBHOOK TRIGGER CONSTRAINTS ---
+  if (triggerType === "webhook_received") {
+    if (config.webhookId && config.webhookId.trim()) {
+      const receivedId = context.meta?._webhook?.id;
+      if (receivedId !== config.webhookId) {
+        reasons.push(`webhook_id mismatch: expected "${config.webhookId}", got "${receivedId}"`);
+      }
+    }
+  }
+
   return {
     matches: reasons.length === 0,
     reasons,
@@ -557,6 +465,7 @@ async function getAutomationsForTrigger(
     
     for (const row of automations) {
       let definitionToUse = row.definition || {};
+      let versionId: string | null = null;
       
       // If there's a published version, use that instead
       if (row.current_version_id) {
@@ -570,6 +479,7 @@ async function getAutomationsForTrigger(
         if (!versionError && version?.definition_json) {
           console.log(`[Automation Trigger] Using published version for "${row.name}"`);
           definitionToUse = version.definition_json;
+          versionId = row.current_version_id;
         } else {
           console.log(`[Automation Trigger] Falling back to draft definition for "${row.name}"`);
         }
@@ -586,6 +496,7 @@ async function getAutomationsForTrigger(
         trigger: definitionToUse.trigger || { type: row.trigger_type, config: {} },
         triggerType: row.trigger_type as TriggerType,
         steps: definitionToUse.steps || [],
+        versionId,
       } as AutomationDefinition);
     }
     
@@ -599,10 +510,13 @@ async function getAutomationsForTrigger(
 /**
  * Fetch a single automation by ID for targeted execution (e.g. manual trigger "Run Now").
  * Retrieves the published version if available, otherwise falls back to draft definition.
+ * A scheduled resume passes the version its enrollment is pinned to, which wins over
+ * whatever has been published since.
  */
 async function getSpecificAutomation(
   supabase: any,
   automationId: string,
+  pinnedVersionId?: string | null,
 ): Promise<AutomationDefinition[]> {
   try {
     const { data: row, error } = await supabase
@@ -626,9 +540,28 @@ async function getSpecificAutomation(
     }
 
     let definitionToUse = row.definition || {};
+    let versionId: string | null = null;
+
+    if (pinnedVersionId) {
+      // Older versions may no longer be active, so no is_active filter here
+      const { data: pinned } = await supabase
+        .from("workflow_versions")
+        .select("definition_json")
+        .eq("id", pinnedVersionId)
+        .eq("automation_id", automationId)
+        .maybeSingle();
+
+      if (pinned?.definition_json) {
+        console.log(`[Automation Trigger] Resuming "${row.name}" on pinned version ${pinnedVersionId}`);
+        definitionToUse = pinned.definition_json;
+        versionId = pinnedVersionId;
+      } else {
+        console.warn(`[Automation Trigger] Pinned version ${pinnedVersionId} not found for "${row.name}"`);
+      }
+    }
 
     // If there's a published version, use that instead
-    if (row.current_version_id) {
+    if (!versionId && row.current_version_id) {
       const { data: version, error: versionError } = await supabase
         .from("workflow_versions")
         .select("definition_json")
@@ -639,6 +572,7 @@ async function getSpecificAutomation(
       if (!versionError && version?.definition_json) {
         console.log(`[Automation Trigger] Using published version for targeted run of "${row.name}"`);
         definitionToUse = version.definition_json;
+        versionId = row.current_version_id;
       } else {
         console.log(`[Automation Trigger] Falling back to draft for targeted run of "${row.name}"`);
       }
@@ -655,6 +589,7 @@ async function getSpecificAutomation(
       trigger: definitionToUse.trigger || { type: row.trigger_type, config: {} },
       triggerType: row.trigger_type as TriggerType,
       steps: definitionToUse.steps || [],
+      versionId,
     } as AutomationDefinition];
   } catch (err) {
     console.error("[Automation Trigger] Unexpected error fetching specific automation:", err);
@@ -729,6 +664,9 @@ async function createAutomationRun(
     context?: AutomationContext;
     eventId: string;
     automationKey: string;
+    /** Run debugger replays link back to the run they re-execute */
+    replayOfRunId?: string;
+    isDryRun?: boolean;
   },
 ): Promise<string | null> {
   try {
@@ -752,6 +690,8 @@ async function createAutomationRun(
           status: "running",
           steps_executed: [],
           context_snapshot: contextSnapshot,
+          replay_of_run_id: params.replayOfRunId ?? null,
+          is_dry_run: params.isDryRun ?? false,
         },
       ])
       .select("id")
@@ -845,25 +785,35 @@ async function logMessage(
 }
 
 // --- Run Automation with Branching Support ---
+// Switch discriminant for steps a dry run simulates (never a real ActionType)
+const SIMULATED_STEP = "__simulated__";
+
 async function runAutomation(
   automation: AutomationDefinition,
   context: AutomationContext,
   supabase: any,
   runId: string,
   eventPayload?: Record<string, any>,
+  runMode: RunMode = { dryRun: false },
 ): Promise<StepExecutionLog[]> {
   const logs: StepExecutionLog[] = [];
   const steps = automation.steps.sort((a, b) => a.order - b.order);
-  const stepMap = new Map(steps.map((s) => [s.id, s]));
-  const visitedSteps = new Set<string>();
-  const triggeredGoalIds = new Set<string>(); // Prevent goal redirect infinite loops
-  const maxSteps = 100; // Prevent infinite loops
-  const goalRedirectCounts = new Map<string, number>(); // Per-goal redirect counters
-  const MAX_GOAL_REDIRECTS = 5; // Max redirects per individual goal
+  // Per-run goal bookkeeping (prevents goal redirect infinite loops)
+  const goalTracker = createGoalTracker();
 
   // Abort controller for cancelling in-flight retries when automation is deactivated
   const abortController = new AbortController();
 
+  // Action handlers write through this client; in a dry run it records instead of writing.
+  // Step logs and context refreshes keep using the real client.
+  const actionClient = runMode.sandbox ? createSandboxClient(supabase, runMode.sandbox) : supabase;
+
+  const customFields = await loadCustomFields(supabase, context.teamId);
+  const engineOptions: EngineOptions = {
+    ...ENGINE_OPTIONS,
+    fieldTypes: getCustomFieldConditionTypes(customFields),
+  };
+
   // Check if this is a scheduled resume (from process-scheduled-jobs)
   const isScheduledResume = eventPayload?.isScheduledResume === true;
   const resumeFromStep = eventPayload?.resumeFromStep as string | undefined;
@@ -903,78 +853,61 @@ async function runAutomation(
 
   console.log(`[Automation] Running "${automation.name}" (${automation.id}) with ${steps.length} steps`);
 
-  // Start from resume step (scheduled resume) or first step
-  let currentStepId: string | null = resumeFromStep || steps[0]?.id || null;
-
-  while (currentStepId && logs.length < maxSteps) {
+  // The shared engine walks the step graph (ordering, loop detection, step budget);
+  // this visitor executes one step and reports where the run goes next.
+  const visitStep = async (step: AutomationStep): Promise<StepOutcome> => {
     // Check if automation was deactivated (abort in-flight retries)
     if (abortController.signal.aborted) {
       console.log(`[Automation] Workflow ${automation.id} aborted, stopping execution`);
-      break;
+      return { stop: true };
     }
 
-    // Check automation status periodically (every step) to detect deactivation
-    try {
-      const { data: automationStatus } = await supabase
-        .from("automations")
-        .select("is_active")
-        .eq("id", automation.id)
-        .maybeSingle();
+    // Check automation status periodically (every step) to detect deactivation.
+    // Dry runs and replays are debugging sessions and may target paused automations.
+    if (!runMode.dryRun) {
+      try {
+        const { data: automationStatus } = await supabase
+          .from("automations")
+          .select("is_active")
+          .eq("id", automation.id)
+          .maybeSingle();
 
-      if (automationStatus && !automationStatus.is_active) {
-        console.log(`[Automation] Workflow ${automation.id} deactivated mid-execution, aborting`);
-        abortController.abort();
-        break;
+        if (automationStatus && !automationStatus.is_active) {
+          console.log(`[Automation] Workflow ${automation.id} deactivated mid-execution, aborting`);
+          abortController.abort();
+          return { stop: true };
+        }
+      } catch {
+        // If status check fails, continue execution (fail-open)
       }
-    } catch {
-      // If status check fails, continue execution (fail-open)
     }
 
-    // Prevent infinite loops
-    if (visitedSteps.has(currentStepId)) {
-      console.warn(`[Automation] Loop detected at step ${currentStepId}, breaking`);
-      break;
-    }
-    visitedSteps.add(currentStepId);
-
-    const step = stepMap.get(currentStepId);
-    if (!step) {
-      console.warn(`[Automation] Step ${currentStepId} not found`);
-      break;
-    }
-
-    // Skip disabled steps (like GHL's enable/disable toggle)
-    if (step.enabled === false) {
+    // Skip disabled steps (like GHL's enable/disable toggle) and steps whose
+    // conditions are not met (condition nodes pick a branch instead)
+    const skipReason = getStepSkipReason(step, context, engineOptions);
+    if (skipReason === "step_disabled") {
       console.log(`[Automation] Skipping disabled step ${step.id} (${step.type})`);
       logs.push({
         stepId: step.id,
         actionType: step.type,
         status: "skipped",
-        skipReason: "step_disabled",
+        skipReason,
         timestamp: new Date().toISOString(),
       });
-      // Move to next step in order
-      const currentIndex = steps.findIndex((s) => s.id === currentStepId);
-      currentStepId = currentIndex < steps.length - 1 ? steps[currentIndex + 1].id : null;
-      continue;
+      return {};
     }
-
-    // Evaluate step conditions (NOT for condition nodes - those have their own logic)
-    if (step.type !== "condition" && step.conditions && step.conditions.length > 0) {
-      const conditionsMet = evaluateConditions(step.conditions, context, step.conditionLogic || "AND");
-      if (!conditionsMet) {
-        logs.push({
-          stepId: step.id,
-          actionType: step.type,
-          skipped: true,
-          skipReason: "conditions_not_met",
-        });
-        // Move to next step by order
-        currentStepId = getNextStepByOrder(steps, step.order);
-        continue;
-      }
+    if (skipReason === "conditions_not_met") {
+      logs.push({
+        stepId: step.id,
+        actionType: step.type,
+        skipped: true,
+        skipReason,
+      });
+      return {};
     }
 
+    const contextBefore = runId ? snapshotContext(context) : undefined;
+    if (runMode.sandbox) runMode.sandbox.currentStepId = step.id;
     const startTime = Date.now();
     let log: StepExecutionLog = {
       stepId: step.id,
@@ -985,14 +918,22 @@ async function runAutomation(
     let nextStepId: string | null = null;
     let shouldStop = false;
 
+    // Dry runs fast-forward delays; every other action runs its handler against the sandbox
+    const simulated = runMode.dryRun && getSimulatedActionCategory(step.type) === "delay";
+
     try {
-      switch (step.type) {
+      switch (simulated ? SIMULATED_STEP : step.type) {
+        case SIMULATED_STEP: {
+          log = { ...log, ...simulateAction(step, context) };
+          break;
+        }
+
         // === MESSAGING ACTIONS ===
         case "send_message":
         case "send_sms": {
           // Check rate limit first
           const smsChannel = step.config.channel || "sms";
-          const smsRateCheck = await checkRateLimit(supabase, context.teamId, smsChannel, automation.id);
+          const smsRateCheck = await checkRateLimit(actionClient, context.teamId, smsChannel, automation.id);
           
           if (!smsRateCheck.allowed) {
             log.skipped = true;
@@ -1003,7 +944,7 @@ async function runAutomation(
           const smsConfig = { ...step.config, channel: step.config.channel || "sms" };
           const { log: smsRetryLog } = await executeWithRetry(
             supabase, runId, step.id, step.type as any, step.config,
-            () => executeSendMessage(smsConfig, context, supabase, runId, automation.id),
+            () => executeSendMessage(smsConfig, context, actionClient, runId, automation.id),
             RETRY_POLICIES.send_sms,
             abortController.signal,
           );
@@ -1012,7 +953,7 @@ async function runAutomation(
         }
 
         case "send_email": {
-          const emailRateCheck = await checkRateLimit(supabase, context.teamId, "email", automation.id);
+          const emailRateCheck = await checkRateLimit(actionClient, context.teamId, "email", automation.id);
           
           if (!emailRateCheck.allowed) {
             log.skipped = true;
@@ -1023,7 +964,7 @@ async function runAutomation(
           const emailConfig = { ...step.config, channel: "email" as const };
           const { log: emailRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "send_email", step.config,
-            () => executeSendMessage(emailConfig, context, supabase, runId, automation.id),
+            () => executeSendMessage(emailConfig, context, actionClient, runId, automation.id),
             RETRY_POLICIES.send_email,
             abortController.signal,
           );
@@ -1032,7 +973,7 @@ async function runAutomation(
         }
 
         case "send_whatsapp": {
-          const waRateCheck = await checkRateLimit(supabase, context.teamId, "whatsapp", automation.id);
+          const waRateCheck = await checkRateLimit(actionClient, context.teamId, "whatsapp", automation.id);
           
           if (!waRateCheck.allowed) {
             log.skipped = true;
@@ -1043,7 +984,7 @@ async function runAutomation(
           const waConfig = { ...step.config, channel: "whatsapp" as const };
           const { log: waRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "send_whatsapp", step.config,
-            () => executeSendMessage(waConfig, context, supabase, runId, automation.id),
+            () => executeSendMessage(waConfig, context, actionClient, runId, automation.id),
             RETRY_POLICIES.send_whatsapp,
             abortController.signal,
           );
@@ -1053,7 +994,7 @@ async function runAutomation(
 
         case "enqueue_dialer": {
           // Use voice channel for dialer
-          const dialerRateCheck = await checkRateLimit(supabase, context.teamId, "voice", automation.id);
+          const dialerRateCheck = await checkRateLimit(actionClient, context.teamId, "voice", automation.id);
           if (!dialerRateCheck.allowed) {
             log.skipped = true;
             log.skipReason = dialerRateCheck.reason || "rate_limit_exceeded";
@@ -1066,7 +1007,7 @@ async function runAutomation(
           };
           const { log: dialerRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "enqueue_dialer" as any, step.config,
-            () => executeSendMessage(dialerConfig, context, supabase, runId, automation.id),
+            () => executeSendMessage(dialerConfig, context, actionClient, runId, automation.id),
             RETRY_POLICIES.make_call,
             abortController.signal,
           );
@@ -1142,6 +1083,7 @@ async function runAutomation(
                   step_id: step.id,
                   resume_at: nextOpenTime,
                   status: "pending",
+                  workflow_version_id: context.workflowVersionId ?? null,
                   context_snapshot: {
                     ...context,
                     remainingSteps: steps.filter((s) => s.order > step.order).map((s) => s.id),
@@ -1173,7 +1115,7 @@ async function runAutomation(
 
         // === CRM ACTIONS ===
         case "add_tag": {
-          const result = await executeAddTag(step.config, context, supabase);
+          const result = await executeAddTag(step.config, context, actionClient);
           log = { ...log, ...result };
           // Refresh lead context with updated tags so downstream steps see the change
           if (result.status === "success" && context.lead?.id) {
@@ -1195,7 +1137,7 @@ async function runAutomation(
         }
 
         case "remove_tag": {
-          const result = await executeRemoveTag(step.config, context, supabase);
+          const result = await executeRemoveTag(step.config, context, actionClient);
           log = { ...log, ...result };
           // Refresh lead context with updated tags so downstream steps see the change
           if (result.status === "success" && context.lead?.id) {
@@ -1217,7 +1159,7 @@ async function runAutomation(
         }
 
         case "create_contact": {
-          const result = await executeCreateContact(step.config, context, supabase);
+          const result = await executeCreateContact(step.config, context, actionClient);
           log = { ...log, ...result };
           // Fetch full contact data so downstream steps have complete context
           // (tags, custom_fields, name, etc.) instead of just the ID
@@ -1240,7 +1182,7 @@ async function runAutomation(
         }
 
         case "update_contact": {
-          const result = await executeUpdateContact(step.config, context, supabase);
+          const result = await executeUpdateContact(step.config, context, actionClient, customFields);
           log = { ...log, ...result };
 
           // Refresh context after update so downstream steps use fresh data
@@ -1263,13 +1205,13 @@ async function runAutomation(
         }
 
         case "add_note": {
-          const result = await executeAddNote(step.config, context, supabase);
+          const result = await executeAddNote(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         case "assign_owner": {
-          const result = await executeAssignOwner(step.config, context, supabase);
+          const result = await executeAssignOwner(step.config, context, actionClient);
           log = { ...log, ...result };
 
           // Refresh context after owner assignment so downstream steps use fresh data
@@ -1314,7 +1256,7 @@ async function runAutomation(
         }
 
         case "update_stage": {
-          const result = await executeUpdateStage(step.config, context, supabase);
+          const result = await executeUpdateStage(step.config, context, actionClient);
           log = { ...log, ...result };
 
           // Refresh context after stage update so downstream steps use fresh data
@@ -1358,25 +1300,25 @@ async function runAutomation(
 
         // === WORKFLOW ACTIONS ===
         case "add_task": {
-          const result = await executeAddTask(step.config, context, supabase);
+          const result = await executeAddTask(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         case "notify_team": {
-          const rateCheck = await checkRateLimit(supabase, context.teamId, "notification", automation.id);
+          const rateCheck = await checkRateLimit(actionClient, context.teamId, "notification", automation.id);
           if (!rateCheck.allowed) {
             log.skipped = true;
             log.skipReason = rateCheck.reason || "rate_limit_exceeded";
             break;
           }
-          const result = await executeNotifyTeam(step.config, context, supabase, automation.id, runId);
+          const result = await executeNotifyTeam(step.config, context, actionClient, automation.id, runId);
           log = { ...log, ...result };
           break;
         }
 
         case "custom_webhook": {
-          const rateCheck = await checkRateLimit(supabase, context.teamId, "webhook", automation.id);
+          const rateCheck = await checkRateLimit(actionClient, context.teamId, "webhook", automation.id);
           if (!rateCheck.allowed) {
             log.skipped = true;
             log.skipReason = rateCheck.reason || "rate_limit_exceeded";
@@ -1384,7 +1326,7 @@ async function runAutomation(
           }
           const { log: webhookRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "custom_webhook", step.config,
-            () => executeCustomWebhook(step.config, context),
+            () => executeCustomWebhook(step.config, context, actionClient),
             RETRY_POLICIES.custom_webhook,
             abortController.signal,
           );
@@ -1393,7 +1335,7 @@ async function runAutomation(
         }
 
         case "slack_message": {
-          const rateCheck = await checkRateLimit(supabase, context.teamId, "slack", automation.id);
+          const rateCheck = await checkRateLimit(actionClient, context.teamId, "slack", automation.id);
           if (!rateCheck.allowed) {
             log.skipped = true;
             log.skipReason = rateCheck.reason || "rate_limit_exceeded";
@@ -1401,7 +1343,7 @@ async function runAutomation(
           }
           const { log: slackRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "slack_message", step.config,
-            () => executeSlackMessage(step.config, context, supabase),
+            () => executeSlackMessage(step.config, context, actionClient),
             RETRY_POLICIES.slack_message,
             abortController.signal,
           );
@@ -1410,7 +1352,7 @@ async function runAutomation(
         }
 
         case "discord_message": {
-          const rateCheck = await checkRateLimit(supabase, context.teamId, "discord", automation.id);
+          const rateCheck = await checkRateLimit(actionClient, context.teamId, "discord", automation.id);
           if (!rateCheck.allowed) {
             log.skipped = true;
             log.skipReason = rateCheck.reason || "rate_limit_exceeded";
@@ -1418,7 +1360,7 @@ async function runAutomation(
           }
           const { log: discordRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "discord_message", step.config,
-            () => executeDiscordMessage(step.config, context, supabase),
+            () => executeDiscordMessage(step.config, context, actionClient),
             RETRY_POLICIES.discord_message,
             abortController.signal,
           );
@@ -1427,7 +1369,7 @@ async function runAutomation(
         }
 
         case "google_conversion": {
-          const rateCheck = await checkRateLimit(supabase, context.teamId, "google_ads", automation.id);
+          const rateCheck = await checkRateLimit(actionClient, context.teamId, "google_ads", automation.id);
           if (!rateCheck.allowed) {
             log.skipped = true;
             log.skipReason = rateCheck.reason || "rate_limit_exceeded";
@@ -1435,7 +1377,7 @@ async function runAutomation(
           }
           const { log: gadsRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "google_conversion", step.config,
-            () => executeGoogleAdsConversion(step.config, context, supabase),
+            () => executeGoogleAdsConversion(step.config, context, actionClient),
             RETRY_POLICIES.google_conversion,
             abortController.signal,
           );
@@ -1444,7 +1386,7 @@ async function runAutomation(
         }
 
         case "tiktok_event": {
-          const rateCheck = await checkRateLimit(supabase, context.teamId, "tiktok", automation.id);
+          const rateCheck = await checkRateLimit(actionClient, context.teamId, "tiktok", automation.id);
           if (!rateCheck.allowed) {
             log.skipped = true;
             log.skipReason = rateCheck.reason || "rate_limit_exceeded";
@@ -1452,7 +1394,7 @@ async function runAutomation(
           }
           const { log: tiktokRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "tiktok_event", step.config,
-            () => executeTikTokEvent(step.config, context, supabase),
+            () => executeTikTokEvent(step.config, context, actionClient),
             RETRY_POLICIES.tiktok_event,
             abortController.signal,
           );
@@ -1461,7 +1403,7 @@ async function runAutomation(
         }
 
         case "meta_conversion": {
-          const rateCheck = await checkRateLimit(supabase, context.teamId, "meta", automation.id);
+          const rateCheck = await checkRateLimit(actionClient, context.teamId, "meta", automation.id);
           if (!rateCheck.allowed) {
             log.skipped = true;
             log.skipReason = rateCheck.reason || "rate_limit_exceeded";
@@ -1469,7 +1411,7 @@ async function runAutomation(
           }
           const { log: metaRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "meta_conversion", step.config,
-            () => executeMetaConversion(step.config, context, supabase),
+            () => executeMetaConversion(step.config, context, actionClient),
             RETRY_POLICIES.meta_conversion,
             abortController.signal,
           );
@@ -1478,7 +1420,7 @@ async function runAutomation(
         }
 
         case "google_sheets": {
-          const rateCheck = await checkRateLimit(supabase, context.teamId, "google_sheets", automation.id);
+          const rateCheck = await checkRateLimit(actionClient, context.teamId, "google_sheets", automation.id);
           if (!rateCheck.allowed) {
             log.skipped = true;
             log.skipReason = rateCheck.reason || "rate_limit_exceeded";
@@ -1486,7 +1428,7 @@ async function runAutomation(
           }
           const { log: gsheetsRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "google_sheets", step.config,
-            () => executeGoogleSheets(step.config as any, context, supabase),
+            () => executeGoogleSheets(step.config as any, context, actionClient),
             RETRY_POLICIES.google_sheets,
             abortController.signal,
           );
@@ -1508,7 +1450,7 @@ async function runAutomation(
           
           // Pass incremented depth to the nested workflow
           const nestedContext = { ...context, depth: currentDepth + 1 };
-          const result = await executeRunWorkflow(step.config, nestedContext, supabase);
+          const result = await executeRunWorkflow(step.config, nestedContext, actionClient);
           log = { ...log, ...result };
           break;
         }
@@ -1529,7 +1471,7 @@ async function runAutomation(
             // Schema requires: team_id, action_type, actor_name, appointment_id
             // Optional: note, actor_id
             if (appointmentId) {
-              const { error: logError } = await supabase.from("activity_logs").insert({
+              const { error: logError } = await actionClient.from("activity_logs").insert({
                 team_id: teamId,
                 appointment_id: appointmentId,
                 action_type: "goal_achieved",
@@ -1575,19 +1517,16 @@ async function runAutomation(
         }
 
         case "go_to": {
-          const result = executeGoTo(step.config);
-          if (result) {
-            // Validate that the target step exists before jumping
-            const targetExists = automation.steps.some((s: any) => s.id === result.jumpTo);
-            if (!targetExists) {
-              log.status = "error";
-              log.error = `go_to target step "${result.jumpTo}" not found in automation`;
-              console.warn(`[Automation] go_to target step "${result.jumpTo}" does not exist`);
-            } else {
-              nextStepId = result.jumpTo;
-              log.status = "success";
-              log.output = { jumpTo: result.jumpTo };
-            }
+          // Validate that the target step exists before jumping
+          const result = resolveGoTo(step.config, automation.steps);
+          if (result.status === "jump") {
+            nextStepId = result.jumpTo;
+            log.status = "success";
+            log.output = { jumpTo: result.jumpTo };
+          } else if (result.status === "unknown_target") {
+            log.status = "error";
+            log.error = `go_to target step "${result.jumpTo}" not found in automation`;
+            console.warn(`[Automation] go_to target step "${result.jumpTo}" does not exist`);
           } else {
             log.skipped = true;
             log.skipReason = "no_target_step";
@@ -1597,53 +1536,34 @@ async function runAutomation(
 
         // === FLOW CONTROL ===
         case "condition": {
-          // Evaluate the conditions to determine which branch to take
-          const conditions = step.conditions || [];
-          const conditionsMet = evaluateConditions(conditions, context, step.conditionLogic || "AND");
-          
+          // Evaluate the conditions to determine which branch to take.
+          // No branch configured for the result means continue by order.
+          const branch = resolveConditionBranch(step, context, engineOptions);
+
           log.status = "success";
-          log.output = { conditionsMet, evaluatedConditions: conditions.length };
-          
-          // Determine next step based on condition result
-          if (conditionsMet && step.trueBranchStepId) {
-            nextStepId = step.trueBranchStepId;
-            log.output.branch = "true";
-          } else if (!conditionsMet && step.falseBranchStepId) {
-            nextStepId = step.falseBranchStepId;
-            log.output.branch = "false";
-          } else {
-            // No branch configured, continue to next step by order
-            log.output.branch = conditionsMet ? "true_no_branch" : "false_no_branch";
-          }
+          log.output = {
+            conditionsMet: branch.conditionsMet,
+            evaluatedConditions: branch.evaluatedConditions,
+            branch: branch.branch,
+          };
+          nextStepId = branch.nextStepId;
           break;
         }
 
         case "split_test": {
           // A/B split testing - randomly select a variant based on percentages
-          const variants = step.variants || step.config.variants || [];
-          if (variants.length === 0) {
+          const split = selectSplitTestVariant(getSplitTestVariants(step));
+          if (!split) {
             log.skipped = true;
             log.skipReason = "no_variants_configured";
             break;
           }
 
-          const random = Math.random() * 100;
-          let cumulative = 0;
-          let selectedVariant = variants[0];
-
-          for (const variant of variants) {
-            cumulative += variant.percentage;
-            if (random <= cumulative) {
-              selectedVariant = variant;
-              break;
-            }
-          }
-
           log.status = "success";
-          log.output = { selectedVariant: selectedVariant.id, random };
+          log.output = { selectedVariant: split.variant.id, random: split.random };
 
-          if (selectedVariant.nextStepId) {
-            nextStepId = selectedVariant.nextStepId;
+          if (split.variant.nextStepId) {
+            nextStepId = split.variant.nextStepId;
           }
           break;
         }
@@ -1653,7 +1573,7 @@ async function runAutomation(
         // context.deal and context.appointment may reference the same row.
         // When refreshing deal context after mutations, we query `appointments`.
         case "create_deal": {
-          const result = await executeCreateDeal(step.config, context, supabase);
+          const result = await executeCreateDeal(step.config, context, actionClient);
           log = { ...log, ...result };
           // Fetch full deal/appointment data so downstream steps have complete context
           if (result.status === "success" && result.output?.dealId) {
@@ -1676,7 +1596,7 @@ async function runAutomation(
         }
 
         case "close_deal": {
-          const result = await executeCloseDeal(step.config, context, supabase);
+          const result = await executeCloseDeal(step.config, context, actionClient);
           log = { ...log, ...result };
 
           // Refresh deal/appointment context after closing
@@ -1707,7 +1627,7 @@ async function runAutomation(
         case "send_invoice": {
           const { log: invoiceRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "send_invoice", step.config,
-            () => executeSendInvoice(step.config, context, supabase),
+            () => executeSendInvoice(step.config, context, actionClient),
             RETRY_POLICIES.send_invoice,
             abortController.signal,
           );
@@ -1718,7 +1638,7 @@ async function runAutomation(
         case "charge_payment": {
           const { log: paymentRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "charge_payment", step.config,
-            () => executeChargePayment(step.config, context, supabase),
+            () => executeChargePayment(step.config, context, actionClient),
             RETRY_POLICIES.charge_payment,
             abortController.signal,
           );
@@ -1729,7 +1649,7 @@ async function runAutomation(
         case "create_subscription": {
           const { log: subRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "create_subscription", step.config,
-            () => executeCreateSubscription(step.config, context, supabase),
+            () => executeCreateSubscription(step.config, context, actionClient),
             RETRY_POLICIES.create_subscription,
             abortController.signal,
           );
@@ -1740,7 +1660,7 @@ async function runAutomation(
         case "cancel_subscription": {
           const { log: cancelSubRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "cancel_subscription", step.config,
-            () => executeCancelSubscription(step.config, context, supabase),
+            () => executeCancelSubscription(step.config, context, actionClient),
             RETRY_POLICIES.cancel_subscription,
             abortController.signal,
           );
@@ -1750,7 +1670,7 @@ async function runAutomation(
 
         // === VOICE ACTIONS ===
         case "send_voicemail": {
-          const vmRateCheck = await checkRateLimit(supabase, context.teamId, "voice", automation.id);
+          const vmRateCheck = await checkRateLimit(actionClient, context.teamId, "voice", automation.id);
           if (!vmRateCheck.allowed) {
             log.skipped = true;
             log.skipReason = vmRateCheck.reason || "rate_limit_exceeded";
@@ -1758,7 +1678,7 @@ async function runAutomation(
           }
           const { log: vmRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "send_voicemail", step.config,
-            () => executeSendVoicemail(step.config, context, supabase),
+            () => executeSendVoicemail(step.config, context, actionClient),
             RETRY_POLICIES.send_voicemail,
             abortController.signal,
           );
@@ -1767,7 +1687,7 @@ async function runAutomation(
         }
 
         case "make_call": {
-          const callRateCheck = await checkRateLimit(supabase, context.teamId, "voice", automation.id);
+          const callRateCheck = await checkRateLimit(actionClient, context.teamId, "voice", automation.id);
           if (!callRateCheck.allowed) {
             log.skipped = true;
             log.skipReason = callRateCheck.reason || "rate_limit_exceeded";
@@ -1775,7 +1695,7 @@ async function runAutomation(
           }
           const { log: callRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "make_call", step.config,
-            () => executeMakeCall(step.config, context, supabase),
+            () => executeMakeCall(step.config, context, actionClient),
             RETRY_POLICIES.make_call,
             abortController.signal,
           );
@@ -1785,7 +1705,7 @@ async function runAutomation(
 
         // === APPOINTMENT ACTIONS ===
         case "book_appointment": {
-          const bookResult = await executeBookAppointment(step.config, context, supabase);
+          const bookResult = await executeBookAppointment(step.config, context, actionClient);
           log = { ...log, ...bookResult };
           // Fetch full appointment data so downstream steps have complete context
           if (bookResult.status === "success" && bookResult.output?.appointmentId) {
@@ -1808,7 +1728,7 @@ async function runAutomation(
         }
 
         case "update_appointment": {
-          const updateApptResult = await executeUpdateAppointment(step.config, context, supabase);
+          const updateApptResult = await executeUpdateAppointment(step.config, context, actionClient);
           log = { ...log, ...updateApptResult };
 
           // Refresh context after update so downstream steps use fresh data
@@ -1831,26 +1751,26 @@ async function runAutomation(
         }
 
         case "cancel_appointment": {
-          const cancelApptResult = await executeCancelAppointment(step.config, context, supabase);
+          const cancelApptResult = await executeCancelAppointment(step.config, context, actionClient);
           log = { ...log, ...cancelApptResult };
           break;
         }
 
         case "create_booking_link": {
-          const linkResult = await executeCreateBookingLink(step.config, context, supabase);
+          const linkResult = await executeCreateBookingLink(step.config, context, actionClient);
           log = { ...log, ...linkResult };
           break;
         }
 
         case "log_call": {
-          const logCallResult = await executeLogCall(step.config, context, supabase);
+          const logCallResult = await executeLogCall(step.config, context, actionClient);
           log = { ...log, ...logCallResult };
           break;
         }
 
         // === MARKETING ACTIONS ===
         case "send_review_request": {
-          const reviewRateCheck = await checkRateLimit(supabase, context.teamId, "sms", automation.id);
+          const reviewRateCheck = await checkRateLimit(actionClient, context.teamId, "sms", automation.id);
           if (!reviewRateCheck.allowed) {
             log.skipped = true;
             log.skipReason = reviewRateCheck.reason || "rate_limit_exceeded";
@@ -1858,7 +1778,7 @@ async function runAutomation(
           }
           const { log: reviewRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "send_review_request" as any, step.config,
-            () => executeSendReviewRequest(step.config, context, supabase, runId || undefined, automation.id),
+            () => executeSendReviewRequest(step.config, context, actionClient, runId || undefined, automation.id),
             RETRY_POLICIES.send_review_request,
             abortController.signal,
           );
@@ -1869,7 +1789,7 @@ async function runAutomation(
         case "reply_in_comments": {
           const { log: replyRetryLog } = await executeWithRetry(
             supabase, runId, step.id, "reply_in_comments" as any, step.config,
-            () => executeReplyInComments(step.config, context, supabase),
+            () => executeReplyInComments(step.config, context, actionClient),
             RETRY_POLICIES.reply_in_comments,
             abortController.signal,
           );
@@ -1879,7 +1799,7 @@ async function runAutomation(
 
         // === CRM LOOKUP & MANAGEMENT ACTIONS ===
         case "find_contact": {
-          const result = await executeFindContact(step.config, context, supabase);
+          const result = await executeFindContact(step.config, context, actionClient);
           log = { ...log, ...result };
           // Only update the trigger contact if the config explicitly opts in.
           // GHL requires a "Update trigger contact" flag — without it, downstream
@@ -1891,25 +1811,25 @@ async function runAutomation(
         }
 
         case "delete_contact": {
-          const result = await executeDeleteContact(step.config, context, supabase);
+          const result = await executeDeleteContact(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         case "remove_owner": {
-          const result = await executeRemoveOwner(step.config, context, supabase);
+          const result = await executeRemoveOwner(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         case "toggle_dnd": {
-          const result = await executeToggleDnd(step.config, context, supabase);
+          const result = await executeToggleDnd(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         case "update_deal": {
-          const result = await executeUpdateDeal(step.config, context, supabase);
+          const result = await executeUpdateDeal(step.config, context, actionClient);
           log = { ...log, ...result };
           // Refresh deal context after update
           // NOTE: Deals share the `appointments` table — see assign_owner case.
@@ -1945,24 +1865,28 @@ async function runAutomation(
             context.stepOutputs = context.stepOutputs || {};
             context.stepOutputs["variables"] = context.stepOutputs["variables"] || {};
             context.stepOutputs["variables"][result.output.name] = result.output.value;
+            if (result.output.type) {
+              engineOptions.fieldTypes![`stepOutputs.variables.${result.output.name}`] =
+                getConditionValueType(result.output.type);
+            }
           }
           break;
         }
 
         case "add_to_workflow": {
-          const result = await executeAddToWorkflow(step.config, context, supabase);
+          const result = await executeAddToWorkflow(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         case "remove_from_workflow": {
-          const result = await executeRemoveFromWorkflow(step.config, context, supabase);
+          const result = await executeRemoveFromWorkflow(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         case "remove_from_all_workflows": {
-          const result = await executeRemoveFromAllWorkflows(step.config, context, supabase, automation.id);
+          const result = await executeRemoveFromAllWorkflows(step.config, context, actionClient, automation.id);
           log = { ...log, ...result };
           break;
         }
@@ -2014,7 +1938,7 @@ async function runAutomation(
 
         // === OPPORTUNITY ACTIONS ===
         case "find_opportunity": {
-          const result = await executeFindOpportunity(step.config, context, supabase);
+          const result = await executeFindOpportunity(step.config, context, actionClient);
           log = { ...log, ...result };
           // Update context with found deal for downstream steps
           if (result.output?.found && result.output?.deal) {
@@ -2025,65 +1949,65 @@ async function runAutomation(
         }
 
         case "remove_opportunity": {
-          const result = await executeRemoveOpportunity(step.config, context, supabase);
+          const result = await executeRemoveOpportunity(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         // === COPY CONTACT ===
         case "copy_contact": {
-          const result = await executeCopyContact(step.config, context, supabase);
+          const result = await executeCopyContact(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         // === FOLLOWER ACTIONS (infrastructure pending) ===
         case "add_followers": {
-          const result = await executeAddFollowers(step.config, context, supabase);
+          const result = await executeAddFollowers(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
         case "remove_followers": {
-          const result = await executeRemoveFollowers(step.config, context, supabase);
+          const result = await executeRemoveFollowers(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         // === AI ACTIONS (require OpenAI API key) ===
         case "ai_intent": {
-          const result = await executeAiIntent(step.config, context, supabase);
+          const result = await executeAiIntent(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
         case "ai_decision": {
-          const result = await executeAiDecision(step.config, context, supabase);
+          const result = await executeAiDecision(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
         case "ai_translate": {
-          const result = await executeAiTranslate(step.config, context, supabase);
+          const result = await executeAiTranslate(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
         case "ai_summarize": {
-          const result = await executeAiSummarize(step.config, context, supabase);
+          const result = await executeAiSummarize(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
         case "ai_message": {
-          const result = await executeAiMessage(step.config, context, supabase);
+          const result = await executeAiMessage(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
 
         // === AUDIENCE ACTIONS (require Facebook Marketing API) ===
         case "add_to_audience": {
-          const result = await executeAddToAudience(step.config, context, supabase);
+          const result = await executeAddToAudience(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
         case "remove_from_audience": {
-          const result = await executeRemoveFromAudience(step.config, context, supabase);
+          const result = await executeRemoveFromAudience(step.config, context, actionClient);
           log = { ...log, ...result };
           break;
         }
@@ -2121,94 +2045,189 @@ async function runAutomation(
         errorMessage: log.error,
         skipReason: log.skipReason,
         durationMs: log.durationMs,
+        contextBefore,
+        contextAfter: snapshotContext(context),
       });
     }
 
     // Check if we should stop
     if (shouldStop) {
       console.log(`[Automation] Stopping at step ${step.id}`);
-      break;
+      return { stop: true };
     }
 
     // Real-time goal checking between steps
     // GHL checks goals after each step, not just at the end.
-    // Track which goals have already fired to prevent infinite redirect loops
-    // when goToStepId is used (the goal condition may remain true after jumping).
-    if (!triggeredGoalIds.has("*")) {
+    // The goal tracker remembers which goals already fired to prevent infinite
+    // redirect loops when goToStepId is used (the goal condition may remain true after jumping).
+    if (!goalTracker.closed) {
       const midRunGoalCheck = await checkGoals(supabase, automation.id, context);
-      if (midRunGoalCheck.goalMet && midRunGoalCheck.goal && !triggeredGoalIds.has(midRunGoalCheck.goal.id)) {
-        console.log(`[Automation] Goal "${midRunGoalCheck.goal.name}" met after step ${step.id}`);
-        triggeredGoalIds.add(midRunGoalCheck.goal.id);
-
-        if (midRunGoalCheck.goal.goToStepId) {
-          // Check per-goal redirect counter to prevent infinite loops
-          const goalId = midRunGoalCheck.goal.id;
-          const currentGoalRedirects = (goalRedirectCounts.get(goalId) || 0) + 1;
-          goalRedirectCounts.set(goalId, currentGoalRedirects);
-
-          if (currentGoalRedirects > MAX_GOAL_REDIRECTS) {
-            console.warn(`[Automation] Max redirects (${MAX_GOAL_REDIRECTS}) reached for goal "${midRunGoalCheck.goal.name}", stopping automation`);
-            triggeredGoalIds.add("*");
-            logs.push({
-              stepId: "goal_redirect_limit",
-              actionType: "goal_achieved",
-              status: "error",
-              error: `Maximum redirects (${MAX_GOAL_REDIRECTS}) exceeded for goal "${midRunGoalCheck.goal.name}"`,
-              output: { goalId, goalName: midRunGoalCheck.goal.name, redirectCount: currentGoalRedirects },
-            });
-            break;
-          }
-          // Jump to the specified step instead of exiting.
-          // Allow the target step to execute even if it was already visited,
-          // since goal redirects are intentional jumps (not accidental loops).
-          console.log(`[Automation] Goal "${midRunGoalCheck.goal.name}" redirecting to step ${midRunGoalCheck.goal.goToStepId} (redirect ${currentGoalRedirects}/${MAX_GOAL_REDIRECTS})`);
-          visitedSteps.delete(midRunGoalCheck.goal.goToStepId);
-          nextStepId = midRunGoalCheck.goal.goToStepId;
-        } else if (midRunGoalCheck.goal.exitOnGoal) {
-          // Exit the automation and handle enrollment exit here
-          // so the post-run check doesn't double-fire
-          console.log(`[Automation] Goal exit triggered, stopping automation`);
-          triggeredGoalIds.add("*"); // Mark all goals as handled
+      const goal = midRunGoalCheck.goalMet ? midRunGoalCheck.goal : undefined;
+      const decision = decideGoalAction(goal, goalTracker);
+
+      if (decision.action === "redirect_limit") {
+        console.warn(`[Automation] Max redirects (${MAX_GOAL_REDIRECTS}) reached for goal "${goal!.name}", stopping automation`);
+        logs.push({
+          stepId: "goal_redirect_limit",
+          actionType: "goal_achieved",
+          status: "error",
+          error: `Maximum redirects (${MAX_GOAL_REDIRECTS}) exceeded for goal "${goal!.name}"`,
+          output: { goalId: goal!.id, goalName: goal!.name, redirectCount: decision.redirectCount },
+        });
+        return { stop: true };
+      }
+
+      if (decision.action === "redirect") {
+        // Jump to the specified step instead of exiting.
+        // Allow the target step to execute even if it was already visited,
+        // since goal redirects are intentional jumps (not accidental loops).
+        console.log(`[Automation] Goal "${goal!.name}" redirecting to step ${decision.stepId} (redirect ${decision.redirectCount}/${MAX_GOAL_REDIRECTS})`);
+        return { nextStepId: decision.stepId, revisit: true };
+      }
+
+      if (decision.action === "exit") {
+        // Exit the automation and handle enrollment exit here
+        // so the post-run check doesn't double-fire
+        console.log(`[Automation] Goal "${goal!.name}" met after step ${step.id}, exit triggered, stopping automation`);
+        if (!runMode.dryRun) {
           await exitEnrollment(
             supabase,
             automation.id,
             context.lead?.id || null,
             context.appointment?.id || null,
-            `Goal met mid-run: ${midRunGoalCheck.goal.name}`,
+            `Goal met mid-run: ${goal!.name}`,
           );
-          logs.push({
-            stepId: "goal_exit",
-            actionType: "goal_achieved",
-            status: "success",
-            output: {
-              goalId: midRunGoalCheck.goal.id,
-              goalName: midRunGoalCheck.goal.name,
-              exitedMidRun: true,
-            },
-          });
-          break;
         }
+        logs.push({
+          stepId: "goal_exit",
+          actionType: "goal_achieved",
+          status: "success",
+          output: {
+            goalId: goal!.id,
+            goalName: goal!.name,
+            exitedMidRun: true,
+          },
+        });
+        return { stop: true };
       }
     }
 
-    // Determine next step
-    if (nextStepId) {
-      currentStepId = nextStepId;
-    } else {
-      currentStepId = getNextStepByOrder(steps, step.order);
-    }
+    return { nextStepId };
+  };
+
+  // Start from resume step (scheduled resume) or first step
+  const walk = await walkStepGraph(steps, visitStep, { startStepId: resumeFromStep });
+  if (walk.haltReason === "loop_detected" || walk.haltReason === "step_not_found") {
+    console.warn(`[Automation] Run halted (${walk.haltReason}) at step ${walk.haltStepId}`);
   }
 
   console.log(`[Automation] Completed "${automation.name}" with ${logs.length} steps executed`);
   return logs;
 }
 
+// --- Run Replay (run debugger) ---
+// Replays and dry runs come from the editor with the user's JWT (this function has verify_jwt off)
+async function canDebugTeam(supabase: any, authHeader: string | null, teamId: string): Promise<boolean> {
+  const token = authHeader?.replace("Bearer ", "");
+  if (!token) return false;
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) return true;
+
+  const { data: userData, error } = await supabase.auth.getUser(token);
+  if (error || !userData?.user) return false;
+
+  const { data: member } = await supabase
+    .from("team_members")
+    .select("id")
+    .eq("team_id", teamId)
+    .eq("user_id", userData.user.id)
+    .maybeSingle();
+  return !!member;
+}
+
 /**
- * Get the next step by order index
+ * Re-execute a past run from one of its steps as a dry run. Skips idempotency,
+ * trigger constraints and enrollment: a replay is a debugging session, not an event.
  */
-function getNextStepByOrder(steps: AutomationStep[], currentOrder: number): string | null {
-  const nextStep = steps.find((s) => s.order > currentOrder);
-  return nextStep?.id || null;
+async function handleReplay(supabase: any, replay: ReplayRequest, authHeader: string | null): Promise<Response> {
+  const jsonHeaders = { ...corsHeaders, "Content-Type": "application/json" };
+
+  try {
+    const source = await loadReplaySource(supabase, replay.runId, replay.fromStepId);
+
+    if (!(await canDebugTeam(supabase, authHeader, source.teamId))) {
+      throw new ReplayError("Not allowed to replay runs for this team", 403);
+    }
+
+    const [automation] = await getSpecificAutomation(supabase, source.automationId);
+    if (!automation) {
+      throw new ReplayError(`Automation ${source.automationId} not found`, 404);
+    }
+    if (replay.fromStepId && !automation.steps.some((s) => s.id === replay.fromStepId)) {
+      throw new ReplayError(`Step ${replay.fromStepId} no longer exists in "${automation.name}"`);
+    }
+
+    const replayRunId = await createAutomationRun(supabase, {
+      automationId: automation.id,
+      teamId: source.teamId,
+      triggerType: source.triggerType,
+      context: source.context,
+      eventId: `replay:${source.runId}:${crypto.randomUUID()}`,
+      automationKey: `db:${automation.id}`,
+      replayOfRunId: source.runId,
+      isDryRun: true,
+    });
+    if (!replayRunId) {
+      throw new ReplayError("Failed to create replay run", 500);
+    }
+
+    console.log(
+      `[Automation Trigger] Replaying run ${source.runId} from ${replay.fromStepId || "first step"} as ${replayRunId} (context: ${source.contextSource})`,
+    );
+
+    let status: "success" | "error" = "success";
+    let errorMessage: string | undefined;
+    let stepLogs: StepExecutionLog[] = [];
+    const sandbox = createSandbox();
+
+    try {
+      stepLogs = await runAutomation(
+        automation,
+        { ...source.context, automationId: automation.id },
+        supabase,
+        replayRunId,
+        { resumeFromStep: replay.fromStepId },
+        { dryRun: true, replayOfRunId: source.runId, sandbox },
+      );
+    } catch (err) {
+      status = "error";
+      errorMessage = err instanceof Error ? err.message : "Unknown error";
+      console.error(`[Automation Trigger] Replay of run ${source.runId} failed:`, err);
+    }
+
+    await updateAutomationRun(supabase, replayRunId, { status, errorMessage, stepsExecuted: stepLogs });
+
+    return new Response(
+      JSON.stringify({
+        status: "ok",
+        replayRunId,
+        replayOfRunId: source.runId,
+        fromStepId: replay.fromStepId ?? null,
+        contextSource: source.contextSource,
+        runStatus: status,
+        error: errorMessage,
+        stepsExecuted: stepLogs,
+        report: buildDryRunReport(automation, replayRunId, stepLogs, sandbox),
+      }),
+      { headers: jsonHeaders },
+    );
+  } catch (error) {
+    const httpStatus = error instanceof ReplayError ? error.status : 500;
+    console.error("[Automation Trigger] Replay error:", error);
+    return new Response(
+      JSON.stringify({ status: "error", error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: httpStatus, headers: jsonHeaders },
+    );
+  }
 }
 
 // --- Main Handler ---
@@ -2222,11 +2241,18 @@ Deno.serve(async (req) => {
   try {
     const body: TriggerRequest = await req.json();
 
+    if (body.replay?.runId) {
+      return await handleReplay(supabase, body.replay, req.headers.get("Authorization"));
+    }
+
     const { triggerType, teamId, eventPayload, eventId, automationId } = body as any;
+    const dryRun = body.dryRun === true;
+    const isScheduledResume = (eventPayload as any)?.isScheduledResume === true;
     console.log("[automation-trigger] incoming", {
       triggerType,
       teamId,
       eventId,
+      dryRun,
       automationId: automationId || null,
       leadId: (eventPayload as any)?.lead?.id,
     });
@@ -2238,6 +2264,14 @@ Deno.serve(async (req) => {
       );
     }
 
+    // A dry run executes against the team's production data, so it needs the same access as a replay
+    if (dryRun && !(await canDebugTeam(supabase, req.headers.get("Authorization"), teamId))) {
+      return new Response(
+        JSON.stringify({ status: "error", error: "Not allowed to dry-run automations for this team" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
     // Compute stable eventId from request or derive from lead/appointment
     // This is the canonical event identifier for idempotency
     const stableEventId: string =
@@ -2257,8 +2291,13 @@ Deno.serve(async (req) => {
 
     // Get matching automations from DB ONLY (no templates - prevents duplicates)
     // When automationId is provided (e.g. manual trigger "Run Now"), target only that automation
+    // A scheduled resume continues on the version its enrollment is pinned to
     const automations = automationId
-      ? await getSpecificAutomation(supabase, automationId)
+      ? await getSpecificAutomation(
+          supabase,
+          automationId,
+          isScheduledResume ? (eventPayload as any)?.workflowVersionId : null,
+        )
       : await getAutomationsForTrigger(supabase, teamId, triggerType);
 
     if (automations.length === 0) {
@@ -2274,6 +2313,7 @@ Deno.serve(async (req) => {
     const automationsRun: string[] = [];
     const automationsSkipped: string[] = [];
     const allStepsExecuted: StepExecutionLog[] = [];
+    const dryRunReports: DryRunReport[] = [];
 
     // Run each automation with PER-AUTOMATION idempotency check and enrollment tracking
     for (const automation of automations) {
@@ -2284,13 +2324,16 @@ Deno.serve(async (req) => {
       // PER-AUTOMATION IDEMPOTENCY CHECK
       // Prevents duplicate runs when trigger is called multiple times for same event
       // Composite key: teamId + triggerType + automationKey + eventId
-      const idempotencyResult = await hasAutomationAlreadyRunForEvent(
-        supabase,
-        teamId,
-        triggerType,
-        automationKey,
-        stableEventId,
-      );
+      // Dry runs never count as the event's run, so they skip the check (and enrollment below)
+      const idempotencyResult = dryRun
+        ? { alreadyRan: false }
+        : await hasAutomationAlreadyRunForEvent(
+            supabase,
+            teamId,
+            triggerType,
+            automationKey,
+            stableEventId,
+          );
 
       if (idempotencyResult.alreadyRan) {
         if (idempotencyResult.error) {
@@ -2326,12 +2369,16 @@ Deno.serve(async (req) => {
       }
 
       // ENROLLMENT CHECK - Prevent duplicate enrollments
-      const enrollmentCheck = await checkAndCreateEnrollment(
-        supabase,
-        automation.id,
-        teamId,
-        context,
-      );
+      // A scheduled resume continues the enrollment that was left active when the run parked
+      const enrollmentCheck = dryRun || isScheduledResume
+        ? { shouldRun: true }
+        : await checkAndCreateEnrollment(
+            supabase,
+            automation.id,
+            teamId,
+            context,
+            automation.versionId ?? null,
+          );
 
       if (!enrollmentCheck.shouldRun) {
         console.log(
@@ -2347,8 +2394,9 @@ Deno.serve(async (req) => {
         teamId,
         triggerType,
         context,
-        eventId: stableEventId,
+        eventId: dryRun ? `dry-run:${stableEventId}:${crypto.randomUUID()}` : stableEventId,
         automationKey,
+        isDryRun: dryRun,
       });
 
       if (!runId) {
@@ -2362,13 +2410,30 @@ Deno.serve(async (req) => {
       let errorMessage: string | undefined;
       let stepLogs: StepExecutionLog[] = [];
       let exitedByGoal = false;
+      let parked = false;
+      const sandbox = dryRun ? createSandbox() : undefined;
 
-      // Inject automationId into context for conversion tracking actions
-      const contextWithAutomationId = { ...context, automationId: automation.id };
+      // Inject automationId into context for conversion tracking actions, and the
+      // version so delayed jobs scheduled by this run stay pinned to it
+      const contextWithAutomationId = {
+        ...context,
+        automationId: automation.id,
+        workflowVersionId: automation.versionId ?? null,
+      };
 
       try {
-        stepLogs = await runAutomation(automation, contextWithAutomationId, supabase, runId, eventPayload as Record<string, any>);
+        stepLogs = await runAutomation(
+          automation,
+          contextWithAutomationId,
+          supabase,
+          runId,
+          eventPayload as Record<string, any>,
+          { dryRun, sandbox },
+        );
         allStepsExecuted.push(...stepLogs);
+
+        // A delay or wait scheduled the rest of the run; the enrollment stays active until it resumes
+        parked = stepLogs.some((l) => l.status === "success" && !!l.output?.jobId);
         
         // Check if a mid-run goal exit already handled enrollment
         const midRunGoalExit = stepLogs.some(
@@ -2381,7 +2446,7 @@ Deno.serve(async (req) => {
         } else {
           // Check for goal completion after run (handles goals met on the final step)
           const goalCheck = await checkGoals(supabase, automation.id, contextWithAutomationId);
-          if (goalCheck.goalMet && goalCheck.goal?.exitOnGoal) {
+          if (goalCheck.goalMet && goalCheck.goal?.exitOnGoal && !dryRun) {
             exitedByGoal = true;
             await exitEnrollment(
               supabase,
@@ -2398,8 +2463,8 @@ Deno.serve(async (req) => {
         console.error(`[Automation Trigger] Error running automation ${automation.id}:`, err);
       }
 
-      // Complete enrollment if not exited by goal
-      if (!exitedByGoal && status === "success") {
+      // Complete enrollment if not exited by goal or parked in a delay (dry runs never enrolled)
+      if (!exitedByGoal && !parked && status === "success" && !dryRun) {
         await completeEnrollment(
           supabase,
           automation.id,
@@ -2414,6 +2479,10 @@ Deno.serve(async (req) => {
         errorMessage,
         stepsExecuted: stepLogs,
       });
+
+      if (sandbox) {
+        dryRunReports.push(buildDryRunReport(automation, runId, stepLogs, sandbox));
+      }
     }
 
     const response: TriggerResponse = {
@@ -2421,6 +2490,7 @@ Deno.serve(async (req) => {
       triggerType,
       automationsRun,
       stepsExecuted: allStepsExecuted,
+      ...(dryRun ? { dryRunReports } : {}),
     };
 
     console.log(`[Automation Trigger] Complete: ran=${automationsRun.length}, skipped=${automationsSkipped.length}`);
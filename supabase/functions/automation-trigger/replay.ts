@@ -0,0 +1,175 @@
+// supabase/functions/automation-trigger/replay.ts
+// Run replay for the automation debugger.
+//
+// A replay rebuilds the context a past run had when it reached a given step
+// (from automation_step_logs.context_before) and re-executes the current
+// definition from there as a dry run (see sandbox.ts).
+
+import type {
+  ActionType,
+  AutomationContext,
+  AutomationStep,
+  SimulatedActionCategory,
+  StepExecutionLog,
+  TriggerType,
+} from "./types.ts";
+import { renderTemplateWithWarnings } from "./template-engine.ts";
+import type { DbClient } from "../_shared/db.ts";
+
+export type { SimulatedActionCategory };
+
+// Actions with side effects outside the CRM, by kind. Dry-run reports are
+// grouped by these; delays are the only category runAutomation short-circuits.
+const SIMULATED_ACTIONS: Partial<Record<ActionType, SimulatedActionCategory>> = {
+  send_message: "messaging",
+  send_sms: "messaging",
+  send_email: "messaging",
+  send_whatsapp: "messaging",
+  enqueue_dialer: "messaging",
+  send_voicemail: "messaging",
+  make_call: "messaging",
+  notify_team: "messaging",
+  send_review_request: "messaging",
+  reply_in_comments: "messaging",
+  send_invoice: "payment",
+  charge_payment: "payment",
+  create_subscription: "payment",
+  cancel_subscription: "payment",
+  custom_webhook: "webhook",
+  slack_message: "webhook",
+  discord_message: "webhook",
+  google_conversion: "webhook",
+  tiktok_event: "webhook",
+  meta_conversion: "webhook",
+  google_sheets: "webhook",
+  add_to_audience: "webhook",
+  remove_from_audience: "webhook",
+  // Delays would park a dry run in scheduled_automation_jobs; it fast-forwards instead
+  time_delay: "delay",
+  wait_until: "delay",
+  business_hours: "delay",
+  // Start runs of other workflows
+  run_workflow: "workflow",
+  add_to_workflow: "workflow",
+};
+
+export function getSimulatedActionCategory(type: ActionType): SimulatedActionCategory | null {
+  return SIMULATED_ACTIONS[type] ?? null;
+}
+
+/**
+ * Stand-in result for a step a dry run does not execute (delays). String
+ * config values are rendered against the run context so the report shows
+ * what the step was configured with.
+ */
+export function simulateAction(step: AutomationStep, context: AutomationContext): StepExecutionLog {
+  const category = getSimulatedActionCategory(step.type) ?? "webhook";
+  const rendered: Record<string, unknown> = {};
+  const warnings: string[] = [];
+
+  for (const [key, value] of Object.entries(step.config || {})) {
+    if (typeof value === "string" && value.includes("{{")) {
+      const result = renderTemplateWithWarnings(value, context);
+      rendered[key] = result.output;
+      warnings.push(...result.warnings.map((w) => w.message));
+    } else {
+      rendered[key] = value;
+    }
+  }
+
+  return {
+    status: "success",
+    simulated: true,
+    templateWarnings: warnings.length > 0 ? warnings : undefined,
+    output: { simulated: true, category, config: rendered },
+  };
+}
+
+// ============================================
+// LOADING A PAST RUN
+// ============================================
+
+export interface ReplaySource {
+  runId: string;
+  automationId: string;
+  teamId: string;
+  triggerType: TriggerType;
+  context: AutomationContext;
+  /** Where the starting context came from. Runs logged before step snapshots only have the trigger context */
+  contextSource: "step_snapshot" | "run_snapshot";
+}
+
+export class ReplayError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "ReplayError";
+    this.status = status;
+  }
+}
+
+// Bookkeeping keys createAutomationRun adds to context_snapshot
+const RUN_SNAPSHOT_KEYS = ["eventId", "automationKey"];
+
+interface ReplayRunRow {
+  id: string;
+  automation_id: string | null;
+  team_id: string;
+  trigger_type: TriggerType;
+  context_snapshot: Record<string, unknown> | null;
+}
+
+export async function loadReplaySource(
+  supabase: DbClient,
+  runId: string,
+  fromStepId?: string,
+): Promise<ReplaySource> {
+  const { data: run, error } = await supabase
+    .from("automation_runs")
+    .select("id, automation_id, team_id, trigger_type, context_snapshot")
+    .eq("id", runId)
+    .maybeSingle<ReplayRunRow>();
+
+  if (error || !run) {
+    throw new ReplayError(`Run ${runId} not found`, 404);
+  }
+  if (!run.automation_id) {
+    throw new ReplayError("Template runs cannot be replayed");
+  }
+
+  let snapshot: Record<string, unknown> | null = null;
+  let contextSource: ReplaySource["contextSource"] = "run_snapshot";
+
+  if (fromStepId) {
+    // Earliest log for the step: with goal redirects a step can run twice
+    const { data: stepLog } = await supabase
+      .from("automation_step_logs")
+      .select("context_before")
+      .eq("run_id", runId)
+      .eq("step_id", fromStepId)
+      .not("context_before", "is", null)
+      .order("started_at", { ascending: true })
+      .limit(1)
+      .maybeSingle<{ context_before: Record<string, unknown> | null }>();
+
+    if (stepLog?.context_before && !stepLog.context_before._truncated) {
+      snapshot = stepLog.context_before;
+      contextSource = "step_snapshot";
+    }
+  }
+
+  if (!snapshot) {
+    snapshot = { ...(run.context_snapshot || {}) };
+    for (const key of RUN_SNAPSHOT_KEYS) delete snapshot[key];
+  }
+
+  return {
+    runId: run.id,
+    automationId: run.automation_id,
+    teamId: run.team_id,
+    triggerType: run.trigger_type,
+    context: { ...snapshot, teamId: run.team_id, triggerType: run.trigger_type } as AutomationContext,
+    contextSource,
+  };
+}
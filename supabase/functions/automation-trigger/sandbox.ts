@@ -0,0 +1,254 @@
+// supabase/functions/automation-trigger/sandbox.ts
+// Dry-run execution sandbox.
+//
+// A dry run walks the whole runAutomation pipeline against production data,
+// but action handlers are handed a sandboxed Supabase client: reads go to the
+// database, while writes, RPCs and outbound HTTP calls (via outboundFetch) are
+// recorded and answered with a simulated response. The run's own bookkeeping
+// (automation_runs / automation_step_logs) keeps using the real client and is
+// flagged is_dry_run.
+
+import type {
+  ActionType,
+  DryRunReport,
+  DryRunStepReport,
+  ExecutionSandbox,
+  SandboxEffect,
+  StepExecutionLog,
+} from "./types.ts";
+import { getSimulatedActionCategory } from "./replay.ts";
+import type { DbClient } from "../_shared/db.ts";
+
+const SANDBOX_KEY = Symbol.for("automation-trigger.sandbox");
+
+const WRITE_METHODS = new Set(["insert", "update", "upsert", "delete"]);
+
+// Filters worth keeping on a recorded update/delete so the report shows which rows it targeted
+const RECORDED_FILTERS = new Set(["eq", "in", "match"]);
+
+// Keys whose values never go into a report (tokens in request bodies and URLs)
+const SECRET_KEY_PATTERN = /token|secret|password|api_?key|authorization/i;
+
+// What an RPC answers with in a dry run. Rate limits are not consumed, so every send is allowed.
+const SIMULATED_RPC_RESULTS: Record<string, unknown> = {
+  check_and_increment_rate_limit: { allowed: true, reason: "dry_run" },
+  close_deal_transaction: { success: true },
+};
+
+export function createSandbox(): ExecutionSandbox {
+  return { effects: [], currentStepId: null };
+}
+
+/** The sandbox a client was wrapped with, or null for a real client */
+export function getSandbox(client: unknown): ExecutionSandbox | null {
+  return (client as Record<symbol, ExecutionSandbox | undefined> | null)?.[SANDBOX_KEY] ?? null;
+}
+
+function recordEffect(sandbox: ExecutionSandbox, effect: Omit<SandboxEffect, "stepId">): SandboxEffect {
+  const recorded: SandboxEffect = { stepId: sandbox.currentStepId, ...effect };
+  sandbox.effects.push(recorded);
+  return recorded;
+}
+
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, SECRET_KEY_PATTERN.test(key) ? "[redacted]" : redactSecrets(v)]),
+    );
+  }
+  return value;
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (SECRET_KEY_PATTERN.test(key)) parsed.searchParams.set(key, "[redacted]");
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+function decodeBody(body: BodyInit | null | undefined): unknown {
+  if (body == null) return undefined;
+  if (body instanceof URLSearchParams) return Object.fromEntries(body);
+  if (typeof body === "string") {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+  return "[binary body]";
+}
+
+export interface OutboundFetchOptions {
+  /** Body handed back instead of the real response, shaped like what the handler reads on success */
+  simulatedResponse?: unknown;
+  /** GET/HEAD requests go out for real (lookups against live data) unless this is false */
+  sendReads?: boolean;
+}
+
+/**
+ * fetch() for action handlers. With a sandboxed client the request is
+ * recorded and answered with `options.simulatedResponse` instead of being sent.
+ */
+export async function outboundFetch(
+  client: DbClient,
+  url: string,
+  init: RequestInit = {},
+  options: OutboundFetchOptions = {},
+): Promise<Response> {
+  const sandbox = getSandbox(client);
+  const method = (init.method || "GET").toUpperCase();
+  const isRead = method === "GET" || method === "HEAD";
+
+  if (!sandbox || (isRead && options.sendReads !== false)) {
+    return fetch(url, init);
+  }
+
+  recordEffect(sandbox, {
+    kind: "http",
+    method,
+    target: redactUrl(url),
+    payload: redactSecrets(decodeBody(init.body)),
+  });
+
+  return new Response(JSON.stringify(options.simulatedResponse ?? {}), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Stand-in for a write query: absorbs the rest of the builder chain
+ * (.select(), .eq(), .single() ...) and resolves to the rows the write would
+ * have produced. Inserted rows get a placeholder id so handlers that read it
+ * back keep going.
+ */
+function simulatedWrite(sandbox: ExecutionSandbox, table: string, method: string, payload: unknown) {
+  const effect = recordEffect(sandbox, {
+    kind: "db_write",
+    method,
+    target: table,
+    payload: method === "delete" ? undefined : redactSecrets(payload),
+  });
+  let single = false;
+
+  const rows = () => {
+    if (method === "delete") return [];
+    const written = Array.isArray(payload) ? payload : [payload ?? {}];
+    return written.map((row) =>
+      method === "update" ? { ...effect.filters, ...row } : { id: `dry-run-${crypto.randomUUID()}`, ...row },
+    );
+  };
+
+  const chain: object = new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (prop === "then") {
+          const data = single ? rows()[0] ?? null : rows();
+          const result = { data, error: null, count: Array.isArray(data) ? data.length : 1, status: 200 };
+          return (resolve: (value: typeof result) => unknown, reject: (reason: unknown) => unknown) =>
+            Promise.resolve(result).then(resolve, reject);
+        }
+        return (...args: unknown[]) => {
+          if (prop === "single" || prop === "maybeSingle") single = true;
+          if (typeof prop === "string" && RECORDED_FILTERS.has(prop) && method !== "insert") {
+            effect.filters = prop === "match"
+              ? { ...effect.filters, ...(args[0] as Record<string, unknown>) }
+              : { ...effect.filters, [String(args[0])]: args[1] };
+          }
+          return chain;
+        };
+      },
+    },
+  );
+  return chain;
+}
+
+function bindMember(target: object, prop: PropertyKey) {
+  const value = Reflect.get(target, prop, target);
+  return typeof value === "function" ? value.bind(target) : value;
+}
+
+/** Wrap a Supabase client so reads pass through and writes / RPCs are recorded */
+export function createSandboxClient<T extends { from(table: string): object }>(supabase: T, sandbox: ExecutionSandbox): T {
+  return new Proxy(supabase, {
+    get(target, prop) {
+      if (prop === SANDBOX_KEY) return sandbox;
+
+      if (prop === "from") {
+        return (table: string) =>
+          new Proxy(target.from(table), {
+            get(builder, method) {
+              if (typeof method === "string" && WRITE_METHODS.has(method)) {
+                return (payload?: unknown) => simulatedWrite(sandbox, table, method, payload);
+              }
+              return bindMember(builder, method);
+            },
+          });
+      }
+
+      if (prop === "rpc") {
+        return (fn: string, args?: Record<string, unknown>) => {
+          recordEffect(sandbox, { kind: "rpc", method: "rpc", target: fn, payload: redactSecrets(args) });
+          return Promise.resolve({ data: SIMULATED_RPC_RESULTS[fn] ?? null, error: null });
+        };
+      }
+
+      return bindMember(target, prop);
+    },
+  });
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+function stepStatus(log: StepExecutionLog): DryRunStepReport["status"] {
+  if (log.status === "error") return "error";
+  if (log.skipped || log.status === "skipped") return "skipped";
+  return "success";
+}
+
+/** Per-step summary of what a dry run would have done, in execution order */
+export function buildDryRunReport(
+  automation: { id: string; name: string },
+  runId: string,
+  logs: StepExecutionLog[],
+  sandbox: ExecutionSandbox,
+): DryRunReport {
+  const steps: DryRunStepReport[] = logs
+    .filter((log) => log.stepId)
+    .map((log) => ({
+      stepId: log.stepId!,
+      actionType: log.actionType as ActionType,
+      category: getSimulatedActionCategory(log.actionType as ActionType),
+      status: stepStatus(log),
+      skipReason: log.skipReason,
+      error: log.error,
+      channel: log.channel,
+      to: log.to,
+      renderedBody: log.renderedBody,
+      templateWarnings: log.templateWarnings,
+      effects: sandbox.effects.filter((e) => e.stepId === log.stepId),
+    }));
+
+  return {
+    automationId: automation.id,
+    automationName: automation.name,
+    runId,
+    steps,
+    totals: {
+      steps: steps.length,
+      http: sandbox.effects.filter((e) => e.kind === "http").length,
+      dbWrites: sandbox.effects.filter((e) => e.kind === "db_write").length,
+      rpc: sandbox.effects.filter((e) => e.kind === "rpc").length,
+    },
+  };
+}
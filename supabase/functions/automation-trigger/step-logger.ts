@@ -1,6 +1,7 @@
 // supabase/functions/automation-trigger/step-logger.ts
 
 import type { ActionType, StepExecutionLog } from "./types.ts";
+import type { DbClient } from "../_shared/db.ts";
 
 interface StepLogParams {
   runId: string;
@@ -13,6 +14,30 @@ interface StepLogParams {
   skipReason?: string;
   retryCount?: number;
   durationMs?: number;
+  /** Run context as the step saw it, for the run debugger */
+  contextBefore?: Record<string, unknown>;
+  /** Run context after the step's outputs were merged in */
+  contextAfter?: Record<string, unknown>;
+}
+
+// Context snapshots are stored on every step log; anything larger than this
+// (e.g. a huge webhook payload in meta) is replaced by a key listing.
+export const MAX_CONTEXT_SNAPSHOT_BYTES = 64 * 1024;
+
+/**
+ * JSON-safe copy of the run context for step logs. Oversized snapshots keep
+ * their top-level keys so the debugger can still show what was present.
+ */
+export function snapshotContext(context: object): Record<string, unknown> {
+  try {
+    const json = JSON.stringify(context);
+    if (json.length <= MAX_CONTEXT_SNAPSHOT_BYTES) {
+      return JSON.parse(json);
+    }
+    return { _truncated: true, _bytes: json.length, keys: Object.keys(context) };
+  } catch {
+    return { _truncated: true, keys: Object.keys(context) };
+  }
 }
 
 /**
@@ -20,7 +45,8 @@ interface StepLogParams {
  *
  * Handles 23505 unique constraint violations gracefully for idempotency:
  * if a 'success' log already exists for the same (run_id, step_id), the
- * duplicate is silently ignored (concurrent retry already succeeded).
+ * duplicate is silently ignored (concurrent retry already succeeded), apart
+ * from its context snapshots, which are copied onto the existing row.
  */
 export async function logStepExecution(supabase: any, params: StepLogParams): Promise<string | null> {
   try {
@@ -43,6 +69,8 @@ export async function logStepExecution(supabase: any, params: StepLogParams): Pr
           error_message: params.errorMessage || null,
           skip_reason: params.skipReason || null,
           retry_count: params.retryCount || 0,
+          context_before: params.contextBefore || null,
+          context_after: params.contextAfter || null,
         },
       ])
       .select("id")
@@ -55,6 +83,7 @@ export async function logStepExecution(supabase: any, params: StepLogParams): Pr
         console.log(
           `[step-logger] Step ${params.stepId} already logged as success (concurrent execution), skipping duplicate`,
         );
+        if (params.contextAfter) await attachStepContext(supabase, params);
         return null; // Not an error - another retry already succeeded
       }
 
@@ -89,6 +118,27 @@ export async function logStepExecution(supabase: any, params: StepLogParams): Pr
   }
 }
 
+/**
+ * executeWithRetry logs a step's success row before the run loop knows the
+ * context after the step; the loop's own log then hits the idempotency index,
+ * so its snapshots are copied onto the existing row instead.
+ */
+async function attachStepContext(supabase: DbClient, params: StepLogParams): Promise<void> {
+  const { error } = await supabase
+    .from("automation_step_logs")
+    .update({
+      context_before: params.contextBefore || null,
+      context_after: params.contextAfter || null,
+    })
+    .eq("run_id", params.runId)
+    .eq("step_id", params.stepId)
+    .eq("status", "success");
+
+  if (error) {
+    console.error("[step-logger] Failed to attach context to step log:", error);
+  }
+}
+
 /**
  * Updates an existing step log (e.g., when step completes)
  */
@@ -1,5 +1,5 @@
 // supabase/functions/automation-trigger/template-engine.ts
-// GHL-grade template engine with pipe formatters and aliases
+// GHL-grade template engine with pipe formatters, aliases and {{#if}}/{{#each}} blocks
 
 import type { AutomationContext } from "./types.ts";
 
@@ -323,55 +323,456 @@ export function enrichContext(context: AutomationContext): Record<string, any> {
   return enriched;
 }
 
+// --- Comparison Helpers (usable in {{#if helper a b}}) ---
+type HelperHandler = (...args: unknown[]) => boolean;
+
+function looseEquals(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) return a == b;
+  return String(a) === String(b);
+}
+
+function toComparableNumber(val: unknown): number {
+  const parsed = parseDate(val);
+  if (typeof val === "string" && isNaN(Number(val)) && parsed) return parsed.getTime();
+  return Number(val);
+}
+
+const HELPERS: Record<string, HelperHandler> = {
+  eq: (a, b) => looseEquals(a, b),
+  neq: (a, b) => !looseEquals(a, b),
+  gt: (a, b) => toComparableNumber(a) > toComparableNumber(b),
+  gte: (a, b) => toComparableNumber(a) >= toComparableNumber(b),
+  lt: (a, b) => toComparableNumber(a) < toComparableNumber(b),
+  lte: (a, b) => toComparableNumber(a) <= toComparableNumber(b),
+  contains: (haystack, needle) => {
+    if (Array.isArray(haystack)) return haystack.some((item) => looseEquals(item, needle));
+    if (haystack === null || haystack === undefined) return false;
+    return String(haystack).toLowerCase().includes(String(needle ?? "").toLowerCase());
+  },
+  not: (a) => !isTruthy(a),
+};
+
+// Empty arrays, empty strings, 0, null and undefined are falsy in templates
+function isTruthy(val: unknown): boolean {
+  if (Array.isArray(val)) return val.length > 0;
+  return Boolean(val);
+}
+
+// --- Template Warnings ---
+export interface TemplateWarning {
+  type: "unknown_variable" | "unknown_helper" | "unknown_pipe" | "syntax";
+  message: string;
+  path?: string;
+}
+
+export interface TemplateRenderResult {
+  output: string;
+  warnings: TemplateWarning[];
+}
+
+// --- Template AST ---
+// {{#if}}/{{else}}/{{/if}} and {{#each}}/{{else}}/{{/each}} are parsed into
+// a tree once, then rendered or statically scanned for variables.
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; expr: string }
+  | { type: "if"; condition: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: "each"; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockFrame = {
+  node: Extract<TemplateNode, { type: "if" | "each" }>;
+  target: TemplateNode[];
+  /** Opened by {{else if}}, closed together with its parent {{/if}} */
+  chained?: boolean;
+};
+
+const TAG_PATTERN = /\{\{([^}]+)\}\}/g;
+const MAX_EACH_ITEMS = 100;
+
+function parseTemplate(template: string, warnings: TemplateWarning[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: BlockFrame[] = [];
+  const current = () => (stack.length ? stack[stack.length - 1].target : root);
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current().push({ type: "text", value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const tag = match[1].trim();
+
+    if (tag.startsWith("#if ")) {
+      const node: TemplateNode = { type: "if", condition: tag.slice(4).trim(), then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, target: node.then });
+    } else if (tag.startsWith("#each ")) {
+      const node: TemplateNode = { type: "each", path: tag.slice(6).trim(), body: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, target: node.body });
+    } else if (tag === "else" || tag.startsWith("else if ")) {
+      const frame = stack[stack.length - 1];
+      if (!frame) {
+        warnings.push({ type: "syntax", message: `Unexpected {{${tag}}} outside a block` });
+        continue;
+      }
+      frame.target = frame.node.otherwise;
+      if (tag.startsWith("else if ")) {
+        if (frame.node.type !== "if") {
+          warnings.push({ type: "syntax", message: "{{else if}} is only allowed inside {{#if}}" });
+          continue;
+        }
+        const node: TemplateNode = { type: "if", condition: tag.slice(8).trim(), then: [], otherwise: [] };
+        frame.target.push(node);
+        stack.push({ node, target: node.then, chained: true });
+      }
+    } else if (tag === "/if" || tag === "/each") {
+      const expected = tag.slice(1);
+      const frame = stack[stack.length - 1];
+      if (!frame || frame.node.type !== expected) {
+        warnings.push({ type: "syntax", message: `Unexpected {{${tag}}}` });
+        continue;
+      }
+      while (stack.length && stack[stack.length - 1].chained) stack.pop();
+      stack.pop();
+    } else {
+      current().push({ type: "var", expr: tag });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ type: "text", value: template.slice(lastIndex) });
+  }
+
+  for (const frame of stack) {
+    if (!frame.chained) {
+      warnings.push({ type: "syntax", message: `Unclosed {{#${frame.node.type}}} block` });
+    }
+  }
+
+  return root;
+}
+
+// --- Scope Resolution ---
+// Inside {{#each}}: `this` is the current item, `this.x` / bare `x` read the item,
+// @index/@number/@first/@last describe the position; anything else reads the root context.
+interface EachFrame {
+  item: unknown;
+  index: number;
+  length: number;
+}
+
+interface RenderScope {
+  root: Record<string, unknown>;
+  frames: EachFrame[];
+}
+
+function getPlainPath(obj: unknown, path: string): unknown {
+  let value = obj;
+  for (const key of path.split(".")) {
+    if (value == null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function resolvePath(path: string, scope: RenderScope): unknown {
+  const frame = scope.frames[scope.frames.length - 1];
+
+  if (frame) {
+    if (path === "this") return frame.item;
+    if (path.startsWith("this.")) return getPlainPath(frame.item, path.slice(5));
+    if (path === "@index") return frame.index;
+    if (path === "@number") return frame.index + 1;
+    if (path === "@first") return frame.index === 0;
+    if (path === "@last") return frame.index === frame.length - 1;
+
+    const head = path.split(".")[0];
+    if (frame.item && typeof frame.item === "object" && head in frame.item) {
+      return getPlainPath(frame.item, path);
+    }
+  }
+
+  return getFieldValue(scope.root, path);
+}
+
+// --- Expression Arguments ---
+type ExpressionArg = { kind: "literal"; value: string | number | boolean | null } | { kind: "path"; path: string };
+
+function parseArgs(expr: string): ExpressionArg[] {
+  const args: ExpressionArg[] = [];
+  for (const match of expr.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+    if (match[1] !== undefined || match[2] !== undefined) {
+      args.push({ kind: "literal", value: match[1] ?? match[2] });
+      continue;
+    }
+    const token = match[3];
+    if (/^-?\d+(\.\d+)?$/.test(token)) args.push({ kind: "literal", value: Number(token) });
+    else if (token === "true" || token === "false") args.push({ kind: "literal", value: token === "true" });
+    else if (token === "null") args.push({ kind: "literal", value: null });
+    else args.push({ kind: "path", path: token });
+  }
+  return args;
+}
+
+function evaluateCondition(expr: string, scope: RenderScope, warnings: TemplateWarning[]): boolean {
+  const args = parseArgs(expr);
+  if (args.length === 0) {
+    warnings.push({ type: "syntax", message: "Empty {{#if}} condition" });
+    return false;
+  }
+
+  const [head, ...rest] = args;
+  const values = rest.map((arg) => (arg.kind === "literal" ? arg.value : resolvePath(arg.path, scope)));
+
+  if (rest.length === 0) {
+    return isTruthy(head.kind === "literal" ? head.value : resolvePath(head.path, scope));
+  }
+
+  const helper = head.kind === "path" ? HELPERS[head.path] : undefined;
+  if (!helper) {
+    const name = head.kind === "path" ? head.path : String(head.value);
+    warnings.push({ type: "unknown_helper", message: `Unknown helper "${name}" in {{#if ${expr}}}`, path: name });
+    return false;
+  }
+  return helper(...values);
+}
+
+// --- Renderer ---
+function renderVariable(expr: string, scope: RenderScope, warnings: TemplateWarning[]): string {
+  const parts = expr.split("|").map((s: string) => s.trim());
+  const pathPart = parts[0];
+  const pipeParts = parts.slice(1);
+
+  // Get the raw value
+  let value = resolvePath(pathPart, scope);
+
+  // Undefined (not null) means the path doesn't exist in the context at all
+  if (value === undefined && !pipeParts.some((p) => parsePipe(p)[0] === "default")) {
+    warnings.push({ type: "unknown_variable", message: `Unknown variable "${pathPart}"`, path: pathPart });
+  }
+
+  // Apply each pipe in order
+  for (const pipeExpr of pipeParts) {
+    const [pipeName, pipeArg] = parsePipe(pipeExpr);
+    const handler = PIPES[pipeName];
+    if (handler) {
+      value = handler(value, pipeArg);
+    } else {
+      warnings.push({ type: "unknown_pipe", message: `Unknown pipe "${pipeName}"`, path: pathPart });
+    }
+  }
+
+  // Return empty string for null/undefined unless there's a default pipe
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scope: RenderScope, warnings: TemplateWarning[]): string {
+  let out = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out += node.value;
+        break;
+
+      case "var":
+        out += renderVariable(node.expr, scope, warnings);
+        break;
+
+      case "if": {
+        const branch = evaluateCondition(node.condition, scope, warnings) ? node.then : node.otherwise;
+        out += renderNodes(branch, scope, warnings);
+        break;
+      }
+
+      case "each": {
+        const list = resolvePath(node.path, scope);
+        if (list === undefined) {
+          warnings.push({ type: "unknown_variable", message: `Unknown variable "${node.path}"`, path: node.path });
+        }
+        if (!Array.isArray(list) || list.length === 0) {
+          out += renderNodes(node.otherwise, scope, warnings);
+          break;
+        }
+        if (list.length > MAX_EACH_ITEMS) {
+          warnings.push({
+            type: "syntax",
+            message: `{{#each ${node.path}}} truncated to ${MAX_EACH_ITEMS} of ${list.length} items`,
+            path: node.path,
+          });
+        }
+        const items = list.slice(0, MAX_EACH_ITEMS);
+        items.forEach((item, index) => {
+          out += renderNodes(node.body, {
+            root: scope.root,
+            frames: [...scope.frames, { item, index, length: items.length }],
+          }, warnings);
+        });
+        break;
+      }
+    }
+  }
+
+  return out;
+}
+
+function dedupeWarnings(warnings: TemplateWarning[]): TemplateWarning[] {
+  const seen = new Set<string>();
+  return warnings.filter((w) => {
+    if (seen.has(w.message)) return false;
+    seen.add(w.message);
+    return true;
+  });
+}
+
 // --- Main Template Renderer ---
-export function renderTemplate(template: string, context: AutomationContext): string {
-  if (!template) return "";
-  
+export function renderTemplateWithWarnings(template: string, context: AutomationContext): TemplateRenderResult {
+  if (!template) return { output: "", warnings: [] };
+
   // Enrich context with derived fields
   const enrichedContext = enrichContext(context);
-  
-  // Match {{path.to.field | pipe:"arg" | pipe2}}
-  return template.replace(/\{\{([^}]+)\}\}/g, (match, expr) => {
-    const parts = expr.split("|").map((s: string) => s.trim());
-    const pathPart = parts[0];
-    const pipeParts = parts.slice(1);
-    
-    // Get the raw value
-    let value = getFieldValue(enrichedContext, pathPart);
-    
-    // Apply each pipe in order
-    for (const pipeExpr of pipeParts) {
-      const [pipeName, pipeArg] = parsePipe(pipeExpr);
-      const handler = PIPES[pipeName];
-      if (handler) {
-        value = handler(value, pipeArg);
+
+  const warnings: TemplateWarning[] = [];
+  const nodes = parseTemplate(template, warnings);
+  const output = renderNodes(nodes, { root: enrichedContext, frames: [] }, warnings);
+
+  return { output, warnings: dedupeWarnings(warnings) };
+}
+
+export function renderTemplate(template: string, context: AutomationContext): string {
+  const { output, warnings } = renderTemplateWithWarnings(template, context);
+
+  if (warnings.length > 0) {
+    console.warn("[Template Engine] Rendered with warnings:", warnings.map((w) => w.message));
+  }
+
+  return output;
+}
+
+// --- Static Variable Scan ---
+// Reports every root-context path a template can read, including paths used in
+// block conditions, {{#each}} sources and branches that wouldn't render.
+// Item fields inside {{#each list}} are reported as "list.field".
+interface ScanFrame {
+  listPath: string;
+  /** Item keys seen in the context, used to tell bare item fields from root paths */
+  itemKeys: Set<string>;
+}
+
+function scanPath(path: string, frames: ScanFrame[]): string | null {
+  if (path.startsWith("@")) return null;
+  if (HELPERS[path]) return null;
+
+  const frame = frames[frames.length - 1];
+  if (!frame) return path;
+
+  if (path === "this") return frame.listPath;
+  if (path.startsWith("this.")) return `${frame.listPath}.${path.slice(5)}`;
+  if (frame.itemKeys.has(path.split(".")[0])) return `${frame.listPath}.${path}`;
+  return path;
+}
+
+function scanNodes(
+  nodes: TemplateNode[],
+  frames: ScanFrame[],
+  found: Set<string>,
+  resolveItems: (path: string) => unknown,
+): void {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        break;
+
+      case "var": {
+        const path = scanPath(node.expr.split("|")[0].trim(), frames);
+        if (path) found.add(path);
+        break;
+      }
+
+      case "if":
+        for (const arg of parseArgs(node.condition)) {
+          if (arg.kind !== "path") continue;
+          const path = scanPath(arg.path, frames);
+          if (path) found.add(path);
+        }
+        scanNodes(node.then, frames, found, resolveItems);
+        scanNodes(node.otherwise, frames, found, resolveItems);
+        break;
+
+      case "each": {
+        const listPath = scanPath(node.path, frames) || node.path;
+        found.add(listPath);
+
+        const itemKeys = new Set<string>();
+        const items = resolveItems(listPath);
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (item && typeof item === "object") Object.keys(item).forEach((k) => itemKeys.add(k));
+          }
+        }
+
+        scanNodes(node.body, [...frames, { listPath, itemKeys }], found, resolveItems);
+        scanNodes(node.otherwise, frames, found, resolveItems);
+        break;
       }
     }
-    
-    // Return empty string for null/undefined unless there's a default pipe
-    if (value === null || value === undefined) {
-      return "";
-    }
-    
-    return String(value);
-  });
+  }
+}
+
+// Resolve a reported path, mapping over arrays: "appointment.attendees.email" → ["a@x.com", ...]
+function getReportedValue(context: Record<string, unknown>, path: string): unknown {
+  const direct = getFieldValue(context, path);
+  if (direct !== undefined) return direct;
+
+  const resolvedPath = ALIASES[path] || path;
+  let values: unknown[] = [context];
+  let sawArray = false;
+  for (const key of resolvedPath.split(".")) {
+    values = values.flatMap((v) => {
+      if (v == null) return [];
+      const next = (v as Record<string, unknown>)[key];
+      if (Array.isArray(next)) {
+        sawArray = true;
+        return next;
+      }
+      return next === undefined ? [] : [next];
+    });
+  }
+  return sawArray ? values : undefined;
+}
+
+/** List the variables a template references, without a context (for editor validation). */
+export function listTemplateVariables(template: string): string[] {
+  const nodes = parseTemplate(template || "", []);
+  const found = new Set<string>();
+  scanNodes(nodes, [], found, () => undefined);
+  return [...found];
 }
 
 // --- Extract Variables from Template (for logging/debugging) ---
 export function extractTemplateVariables(template: string, context: AutomationContext): Record<string, any> {
   const enrichedContext = enrichContext(context);
-  const matches = template.match(/\{\{([^}]+)\}\}/g) || [];
+  const nodes = parseTemplate(template || "", []);
+  const found = new Set<string>();
+  scanNodes(nodes, [], found, (path) => getReportedValue(enrichedContext, path));
+
   const variables: Record<string, any> = {};
-  
-  for (const match of matches) {
-    const expr = match.replace(/\{\{|\}\}/g, "").trim();
-    const pathPart = expr.split("|")[0].trim();
-    variables[pathPart] = getFieldValue(enrichedContext, pathPart);
+  for (const path of found) {
+    variables[path] = getReportedValue(enrichedContext, path);
   }
-  
+
   return variables;
 }
 
+export const AVAILABLE_HELPERS = Object.keys(HELPERS);
+
 // --- Export all pipes for reference ---
 export const AVAILABLE_PIPES = Object.keys(PIPES);
 
@@ -16,6 +16,7 @@ export type TriggerType =
   | "survey_submitted"
   | "quiz_submitted"
   | "funnel_page_view"
+  | "funnel_abandoned"
   | "trigger_link_clicked"
   // Appointment triggers
   | "appointment_booked"
@@ -23,6 +24,7 @@ export type TriggerType =
   | "appointment_canceled"
   | "appointment_no_show"
   | "appointment_completed"
+  | "waitlist_updated"
   // Task triggers
   | "task_added"
   | "task_reminder"
@@ -237,6 +239,8 @@ export interface AutomationDefinition {
   };
   steps: AutomationStep[];
   triggerType?: TriggerType;
+  /** workflow_versions row the steps were loaded from (null when running the draft) */
+  versionId?: string | null;
 }
 
 /**
@@ -266,6 +270,8 @@ export interface AutomationContext {
   stepOutputs?: Record<string, any>;
   /** Automation ID for tracking in conversion actions */
   automationId?: string;
+  /** Version the enrollment is pinned to; carried into delayed jobs so they resume on it */
+  workflowVersionId?: string | null;
   /** Tags added in tag trigger payloads */
   addedTags?: string[];
   /** Tags removed in tag trigger payloads */
@@ -286,6 +292,8 @@ export interface StepExecutionLog {
   channel?: string;
   provider?: string;
   templateVariables?: Record<string, any>;
+  /** Unknown variables, helpers or malformed blocks found while rendering */
+  templateWarnings?: string[];
   status?: "success" | "error" | "skipped" | "pending" | "partial";
   timestamp?: string;
   skipped?: boolean;
@@ -297,9 +305,53 @@ export interface StepExecutionLog {
   to?: string;
   messageId?: string;
   renderedBody?: string;
+  /** Filenames attached to an email (e.g. invite.ics) */
+  attachments?: string[];
   output?: Record<string, any>;
   retryCount?: number;
   durationMs?: number;
+  /** True when a dry run simulated this step instead of performing it */
+  simulated?: boolean;
+}
+
+/** Kinds of outbound action, for dry-run reports (see replay.ts SIMULATED_ACTIONS) */
+export type SimulatedActionCategory = "messaging" | "payment" | "webhook" | "delay" | "workflow";
+
+/** A side effect a dry run recorded instead of performing */
+export interface SandboxEffect {
+  /** Step that caused it (null for effects outside a step) */
+  stepId: string | null;
+  kind: "http" | "db_write" | "rpc";
+  /** HTTP method, or insert / update / upsert / delete for database writes */
+  method: string;
+  /** URL, table name or RPC function name */
+  target: string;
+  payload?: unknown;
+  /** Equality filters an update / delete was scoped to */
+  filters?: Record<string, unknown>;
+}
+
+/** Collects the side effects of a dry run (see sandbox.ts) */
+export interface ExecutionSandbox {
+  effects: SandboxEffect[];
+  currentStepId: string | null;
+}
+
+/** How runAutomation executes steps */
+export interface RunMode {
+  /** Record side effects instead of performing them (see sandbox.ts); delays are fast-forwarded */
+  dryRun: boolean;
+  /** Set when re-executing a past run from the run debugger */
+  replayOfRunId?: string;
+  /** Where a dry run's effects are recorded */
+  sandbox?: ExecutionSandbox;
+}
+
+export interface ReplayRequest {
+  /** The automation_runs row to replay */
+  runId: string;
+  /** Step to re-execute from; defaults to the first step */
+  fromStepId?: string;
 }
 
 export interface TriggerRequest {
@@ -309,6 +361,10 @@ export interface TriggerRequest {
   eventId?: string;
   /** When provided, only this specific automation will be executed (used by manual trigger / "Run Now") */
   automationId?: string;
+  /** Re-execute a past run as a dry run (run debugger). triggerType/teamId come from the run */
+  replay?: ReplayRequest;
+  /** Run against production data without side effects and return a report of what would have happened */
+  dryRun?: boolean;
 }
 
 export interface TriggerResponse {
@@ -316,5 +372,31 @@ export interface TriggerResponse {
   triggerType: TriggerType;
   automationsRun: string[];
   stepsExecuted: StepExecutionLog[];
+  /** One report per automation, for dry runs */
+  dryRunReports?: DryRunReport[];
   error?: string;
 }
+
+export interface DryRunStepReport {
+  stepId: string;
+  actionType: ActionType;
+  category: SimulatedActionCategory | null;
+  status: "success" | "error" | "skipped";
+  skipReason?: string;
+  error?: string;
+  /** Rendered message for messaging steps */
+  channel?: string;
+  to?: string;
+  renderedBody?: string;
+  templateWarnings?: string[];
+  /** What the step would have sent or written */
+  effects: SandboxEffect[];
+}
+
+export interface DryRunReport {
+  automationId: string;
+  automationName: string;
+  runId: string;
+  steps: DryRunStepReport[];
+  totals: { steps: number; http: number; dbWrites: number; rpc: number };
+}
@@ -0,0 +1,126 @@
+// supabase/functions/calendar-feed/index.ts
+// Subscribable iCal feed of one user's appointments.
+// GET /calendar-feed?token=<calendar_feed_tokens.token> → text/calendar
+// The token is the only credential (calendar apps can't send auth headers), so
+// unknown and revoked tokens, and tokens of users no longer on the team, get the
+// same 404.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  appointmentToIcsEvent,
+  buildIcsCalendar,
+  type IcsAppointment,
+} from "../_shared/ics.ts";
+import { hostAppointmentsFilter } from "../_shared/booking-seats.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+};
+
+/** Past appointments stay in the feed for a while so recent history is visible */
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+const FEED_MAX_EVENTS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const token = (url.searchParams.get("token") || "").replace(/\.ics$/, "");
+
+    if (!/^[a-f0-9]{32,}$/.test(token)) {
+      return new Response("Not found", { status: 404, headers: corsHeaders });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: feedToken } = await supabase
+      .from("calendar_feed_tokens")
+      .select("id, team_id, user_id")
+      .eq("token", token)
+      .is("revoked_at", null)
+      .maybeSingle();
+
+    if (!feedToken) {
+      return new Response("Not found", { status: 404, headers: corsHeaders });
+    }
+
+    // Removing a member doesn't touch their tokens, so membership is checked on every fetch
+    const { data: membership, error: membershipError } = await supabase
+      .from("team_members")
+      .select("user_id")
+      .eq("team_id", feedToken.team_id)
+      .eq("user_id", feedToken.user_id)
+      .maybeSingle();
+
+    if (membershipError) {
+      console.error("[calendar-feed] Membership check failed:", membershipError);
+      return new Response("Internal server error", { status: 500, headers: corsHeaders });
+    }
+    if (!membership) {
+      return new Response("Not found", { status: 404, headers: corsHeaders });
+    }
+
+    const now = Date.now();
+    const { data: appointments, error } = await supabase
+      .from("appointments")
+      .select(
+        "id, ics_uid, ics_sequence, start_at_utc, duration_minutes, status, event_type_name, lead_name, lead_email, closer_name, meeting_link, reschedule_url, cancel_url, appointment_notes",
+      )
+      .eq("team_id", feedToken.team_id)
+      // Includes collective bookings where the user is a co-host
+      .or(hostAppointmentsFilter(feedToken.user_id))
+      .gte("start_at_utc", new Date(now - FEED_PAST_DAYS * DAY_MS).toISOString())
+      .lte("start_at_utc", new Date(now + FEED_FUTURE_DAYS * DAY_MS).toISOString())
+      // A rescheduled appointment shares its UID with its replacement; cancelled
+      // ones drop out so subscribers remove them
+      .not("status", "in", "(CANCELLED,CANCELED,RESCHEDULED)")
+      .order("start_at_utc", { ascending: true })
+      .limit(FEED_MAX_EVENTS);
+
+    if (error) {
+      console.error("[calendar-feed] Appointment query failed:", error);
+      return new Response("Failed to load appointments", { status: 500, headers: corsHeaders });
+    }
+
+    const { data: team } = await supabase
+      .from("teams")
+      .select("name")
+      .eq("id", feedToken.team_id)
+      .maybeSingle();
+
+    const stamp = new Date(now);
+    const events = ((appointments || []) as IcsAppointment[]).map((appointment) =>
+      appointmentToIcsEvent(appointment, { includeAttendee: true, stamp })
+    );
+
+    await supabase
+      .from("calendar_feed_tokens")
+      .update({ last_accessed_at: stamp.toISOString() })
+      .eq("id", feedToken.id);
+
+    return new Response(
+      buildIcsCalendar(events, { method: "PUBLISH", name: team?.name ? `${team.name} appointments` : "Appointments" }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": 'inline; filename="appointments.ics"',
+          "Cache-Control": "private, max-age=300",
+        },
+      },
+    );
+  } catch (error) {
+    console.error("[calendar-feed] Error:", error);
+    return new Response("Internal server error", { status: 500, headers: corsHeaders });
+  }
+});
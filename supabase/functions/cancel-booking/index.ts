@@ -1,10 +1,20 @@
 // supabase/functions/cancel-booking/index.ts
 // Cancels a native booking by booking_token.
-// Handles: status update, Google Calendar deletion, automation trigger.
-// Note: Reminders are handled via the automation system (GHL-style).
+// Handles: status update, booking reminder cancellation, Google Calendar and
+// Outlook event deletion, automation trigger, offering the freed slot to the waitlist.
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { cancelBookingReminders } from "../_shared/booking-reminders.ts";
+import { getAppointmentIcsUid } from "../_shared/ics.ts";
+import { isSharedWithOtherBookings } from "../_shared/booking-seats.ts";
+import { offerFreedSlot } from "../_shared/booking-waitlist.ts";
+import {
+  deleteMicrosoftEvent,
+  getMicrosoftAccessToken,
+  getMicrosoftConnection,
+  microsoftConfigFromEnv,
+} from "../_shared/microsoft-graph.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -61,6 +71,8 @@ serve(async (req) => {
       .update({
         status: "CANCELLED",
         previous_status: appointment.status,
+        // The cancellation invite must carry a higher SEQUENCE than the last request
+        ics_sequence: (appointment.ics_sequence || 0) + 1,
         updated_at: new Date().toISOString(),
       })
       .eq("id", appointment.id);
@@ -73,15 +85,25 @@ serve(async (req) => {
       );
     }
 
-    // 3. Cancel any scheduled automation jobs for this appointment
+    // 3. Cancel any scheduled automation jobs and booking reminders for this appointment
     await supabase
       .from("scheduled_automation_jobs")
       .update({ status: "cancelled" })
       .eq("status", "pending")
       .contains("context_snapshot", { appointment: { id: appointment.id } });
 
-    // 4. Delete Zoom meeting if exists
-    if (appointment.meeting_link && appointment.meeting_link.includes("zoom.us")) {
+    try {
+      await cancelBookingReminders(supabase, appointment.id, "Appointment cancelled");
+    } catch (reminderErr) {
+      console.error("[cancel-booking] Reminder cancellation error:", reminderErr);
+    }
+
+    // 4. Delete Zoom meeting if exists (unless other group session invitees still use it)
+    if (
+      appointment.meeting_link &&
+      appointment.meeting_link.includes("zoom.us") &&
+      !(await isSharedWithOtherBookings(supabase, appointment, "meeting_link"))
+    ) {
       try {
         // Extract meeting ID from Zoom URL if possible
         const zoomUrlMatch = appointment.meeting_link.match(/\/j\/(\d+)/);
@@ -110,8 +132,12 @@ serve(async (req) => {
       }
     }
 
-    // 5. Delete Google Calendar event if exists
-    if (appointment.google_calendar_event_id && appointment.assigned_user_id) {
+    // 5. Delete Google Calendar event if exists (and not shared with a group session)
+    if (
+      appointment.google_calendar_event_id &&
+      appointment.assigned_user_id &&
+      !(await isSharedWithOtherBookings(supabase, appointment, "google_calendar_event_id"))
+    ) {
       try {
         const { data: gcalConn } = await supabase
           .from("google_calendar_connections")
@@ -167,6 +193,26 @@ serve(async (req) => {
       }
     }
 
+    // 5b. Delete Outlook event if exists (and not shared with a group session)
+    if (
+      appointment.outlook_event_id &&
+      appointment.assigned_user_id &&
+      !(await isSharedWithOtherBookings(supabase, appointment, "outlook_event_id"))
+    ) {
+      try {
+        const outlookConn = await getMicrosoftConnection(supabase, appointment.team_id, appointment.assigned_user_id);
+        if (outlookConn) {
+          const microsoftConfig = microsoftConfigFromEnv((key) => Deno.env.get(key));
+          const accessToken = await getMicrosoftAccessToken(supabase, outlookConn, microsoftConfig);
+          if (accessToken) {
+            await deleteMicrosoftEvent(microsoftConfig, accessToken, appointment.outlook_event_id);
+          }
+        }
+      } catch (outlookErr) {
+        console.error("[cancel-booking] Outlook delete error:", outlookErr);
+      }
+    }
+
     // 6. Fire automation trigger
     try {
       await supabase.functions.invoke("automation-trigger", {
@@ -177,7 +223,14 @@ serve(async (req) => {
             appointment: {
               id: appointment.id,
               start_at_utc: appointment.start_at_utc,
+              duration_minutes: appointment.duration_minutes,
               event_type_name: appointment.event_type_name,
+              closer_name: appointment.closer_name,
+              meeting_link: appointment.meeting_link,
+              lead_name: appointment.lead_name,
+              lead_email: appointment.lead_email,
+              ics_uid: getAppointmentIcsUid(appointment),
+              ics_sequence: (appointment.ics_sequence || 0) + 1,
               status: "CANCELLED",
             },
             lead: {
@@ -192,6 +245,23 @@ serve(async (req) => {
       console.error("[cancel-booking] Automation trigger error:", autoErr);
     }
 
+    // 7. Offer the freed slot to the next person on the event type's waitlist
+    const eventTypeId = appointment.event_type_id || appointment.appointment_type_id;
+    if (eventTypeId) {
+      try {
+        const appUrl = Deno.env.get("APP_URL") || supabaseUrl.replace(".supabase.co", ".vercel.app");
+        await offerFreedSlot(supabase, {
+          team_id: appointment.team_id,
+          event_type_id: eventTypeId,
+          start_at_utc: appointment.start_at_utc,
+          host_id: appointment.closer_id || appointment.assigned_user_id,
+          freed_appointment_id: appointment.id,
+        }, appUrl);
+      } catch (waitlistErr) {
+        console.error("[cancel-booking] Waitlist offer error:", waitlistErr);
+      }
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -0,0 +1,178 @@
+// supabase/functions/claim-waitlist-offer/index.ts
+// Public endpoint behind the waitlist claim link (/waitlist/:token).
+// GET ?token=  → the offer: event type, slot, expiry and status
+// POST {token} → moves the offer from pending to claiming with a conditional update,
+//                so only one request books it; books the held slot through
+//                create-booking with the claim token, then marks the offer claimed
+//                and the entry booked. A failed booking releases the offer.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { fireWaitlistTrigger, toLocalDateTime } from "../_shared/booking-waitlist.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const token = req.method === "GET"
+      ? new URL(req.url).searchParams.get("token")
+      : (await req.json()).token;
+
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: "token is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. Find the offer, its waitlist entry and event type
+    const { data: offer } = await supabase
+      .from("booking_waitlist_offers")
+      .select("*, booking_waitlist(*), event_types(name, duration_minutes, location_type)")
+      .eq("claim_token", token)
+      .maybeSingle();
+
+    if (!offer || !offer.booking_waitlist) {
+      return new Response(
+        JSON.stringify({ error: "Offer not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const entry = offer.booking_waitlist;
+    const isExpired = offer.status === "expired" ||
+      (offer.status === "pending" && new Date(offer.expires_at).getTime() <= Date.now());
+
+    const offerSummary = {
+      status: isExpired ? "expired" : offer.status,
+      slot_start_utc: offer.slot_start_utc,
+      expires_at: offer.expires_at,
+      timezone: entry.timezone,
+      name: entry.name,
+      event_type: offer.event_types,
+      appointment_id: offer.appointment_id,
+    };
+
+    if (req.method === "GET") {
+      return new Response(
+        JSON.stringify({ offer: offerSummary }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // 2. Only a pending, unexpired offer can be claimed. The conditional update
+    //    lets exactly one of several concurrent requests through.
+    const { data: claimed, error: claimError } = offer.status === "pending" && !isExpired
+      ? await supabase
+        .from("booking_waitlist_offers")
+        .update({ status: "claiming" })
+        .eq("id", offer.id)
+        .eq("status", "pending")
+        .gt("expires_at", new Date().toISOString())
+        .select("id")
+      : { data: [], error: null };
+
+    if (claimError) throw new Error(`Failed to claim offer: ${claimError.message}`);
+
+    if (!claimed || claimed.length === 0) {
+      const message = offer.status === "claimed" || offer.status === "claiming" || (offer.status === "pending" && !isExpired)
+        ? "This time has already been claimed."
+        : "This offer has expired. You're still on the waitlist if another time opens up.";
+      return new Response(
+        JSON.stringify({ error: message, offer: offerSummary }),
+        { status: 410, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // 3. Book through create-booking, which lets the claim token through the hold
+    const { date, time } = toLocalDateTime(offer.slot_start_utc, entry.timezone);
+    const bookingResponse = await fetch(`${supabaseUrl}/functions/v1/create-booking`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${supabaseServiceKey}`,
+      },
+      body: JSON.stringify({
+        event_type_id: offer.event_type_id,
+        date,
+        time,
+        timezone: entry.timezone,
+        name: entry.name,
+        email: entry.email,
+        phone: entry.phone,
+        waitlist_claim_token: offer.claim_token,
+      }),
+    });
+    const booking = await bookingResponse.json().catch(() => null);
+
+    if (!bookingResponse.ok || !booking?.appointment) {
+      console.error(`[claim-waitlist-offer] Booking failed for offer ${offer.id}:`, booking);
+      if (bookingResponse.status === 409) {
+        // The host's calendar filled up meanwhile: release the hold and keep the entry in line
+        await supabase
+          .from("booking_waitlist_offers")
+          .update({ status: "superseded" })
+          .eq("id", offer.id)
+          .eq("status", "claiming");
+        await supabase
+          .from("booking_waitlist")
+          .update({ status: "waiting" })
+          .eq("id", entry.id)
+          .eq("status", "offered");
+      } else {
+        // Anything else can be retried from the claim link while the offer lasts
+        await supabase
+          .from("booking_waitlist_offers")
+          .update({ status: "pending" })
+          .eq("id", offer.id)
+          .eq("status", "claiming");
+      }
+      return new Response(
+        JSON.stringify({ error: booking?.error || "Failed to book this time" }),
+        { status: bookingResponse.status >= 400 ? bookingResponse.status : 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // 4. Settle the offer and the entry
+    const claimedAt = new Date().toISOString();
+    await supabase
+      .from("booking_waitlist_offers")
+      .update({ status: "claimed", claimed_at: claimedAt, appointment_id: booking.appointment.id })
+      .eq("id", offer.id)
+      .eq("status", "claiming");
+    await supabase
+      .from("booking_waitlist")
+      .update({ status: "booked", appointment_id: booking.appointment.id })
+      .eq("id", entry.id);
+
+    await fireWaitlistTrigger(supabase, offer.team_id, "claimed", entry, {
+      slotStartUtc: offer.slot_start_utc,
+      appointmentId: booking.appointment.id,
+    });
+
+    return new Response(
+      JSON.stringify({ success: true, appointment: booking.appointment }),
+      { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[claim-waitlist-offer] Error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: "Internal server error", details: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
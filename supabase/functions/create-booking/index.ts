@@ -1,11 +1,38 @@
 // supabase/functions/create-booking/index.ts
 // Creates a native booking appointment.
-// Handles: slot validation, round-robin assignment, Zoom meeting creation,
-// Google Calendar sync, contact upsert, automation triggers.
-// Note: Confirmations and reminders are handled via the automation system (GHL-style).
+// Handles: intake answer validation and routing rules, slot validation (including
+// slots held for a waitlist offer), round-robin / collective host assignment, group
+// seats, Zoom meeting creation, Google Calendar / Outlook sync, contact upsert,
+// booking reminders, automation triggers.
+// Note: Confirmations are handled via the automation system (GHL-style); reminders
+// come from the event type's reminder_config and are sent by send-booking-reminders.
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { scheduleBookingReminders } from "../_shared/booking-reminders.ts";
+import { generateIcsUid } from "../_shared/ics.ts";
+import {
+  assignCollectiveHosts,
+  getSeatCapacity,
+  hostAppointmentsFilter,
+  isCollectiveMode,
+  isGroupMode,
+} from "../_shared/booking-seats.ts";
+import {
+  evaluateIntakeRouting,
+  formatIntakeAnswers,
+  getRejectMessage,
+  normalizeIntakeQuestions,
+  normalizeRoutingRules,
+  validateIntakeAnswers,
+} from "../_shared/intake-routing.ts";
+import { getPendingSlotOffer } from "../_shared/booking-waitlist.ts";
+import {
+  createMicrosoftEvent,
+  getMicrosoftAccessToken,
+  getMicrosoftConnection,
+  microsoftConfigFromEnv,
+} from "../_shared/microsoft-graph.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -31,6 +58,7 @@ serve(async (req) => {
       phone,
       intake_answers,
       funnel_lead_id,
+      waitlist_claim_token, // sent by claim-waitlist-offer for a held slot
     } = body;
 
     // Validate required fields
@@ -71,6 +99,52 @@ serve(async (req) => {
       location_value,
     } = eventType;
 
+    // 1b. Validate intake answers and apply the event type's routing rules. Every
+    // public booking is checked, with or without answers, so leaving intake_answers
+    // out can't skip a required question or a reject rule. Server-side callers
+    // (book_appointment automations, waitlist claims) book with the service key
+    // and have no invitee to ask.
+    const questions = normalizeIntakeQuestions(eventType.questions);
+    const routingRules = normalizeRoutingRules(eventType.routing_rules);
+    const isServiceCall = req.headers.get("Authorization") === `Bearer ${supabaseServiceKey}`;
+    let routedHostId: string | null = null;
+
+    if (!isServiceCall && (questions.length > 0 || routingRules.length > 0)) {
+      const answers = intake_answers ?? {};
+      const answerErrors = validateIntakeAnswers(questions, answers);
+      if (Object.keys(answerErrors).length > 0) {
+        return new Response(
+          JSON.stringify({ error: Object.values(answerErrors)[0], field_errors: answerErrors }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const routing = evaluateIntakeRouting(routingRules, questions, answers);
+
+      if (routing?.action.type === "reject") {
+        console.log(`[create-booking] Intake rule ${routing.rule_id} rejected booking for ${email}`);
+        return new Response(
+          JSON.stringify({ error: getRejectMessage(routing.action), code: "intake_rejected" }),
+          { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (routing?.action.type === "route_event_type" && routing.action.event_type_id !== event_type_id) {
+        return new Response(
+          JSON.stringify({
+            error: "Based on your answers, please book a different meeting type.",
+            code: "intake_rerouted",
+            event_type_id: routing.action.event_type_id,
+          }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (routing?.action.type === "route_host") {
+        routedHostId = routing.action.user_id;
+      }
+    }
+
     // 2. Convert selected time to UTC (needed for conflict checking)
     const slotLocalStr = `${date}T${time}:00`;
     const startAtUtc = convertToUTC(slotLocalStr, timezone || "America/New_York");
@@ -96,33 +170,95 @@ serve(async (req) => {
     const slotEffectiveStart = slotStartMs - bufferBeforeMs;
     const slotEffectiveEnd = slotEndMs + bufferAfterMs;
 
-    if (round_robin_mode === "round_robin" && round_robin_members?.length > 0) {
+    const slotTakenResponse = () =>
+      new Response(
+        JSON.stringify({ error: "This time slot is no longer available. Please select another time." }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    const isHostFree = async (userId: string) =>
+      !(await hasHostConflict(supabase, team_id, userId, dayStart, dayEnd, slotEffectiveStart, slotEffectiveEnd));
+
+    // A slot freed by a cancellation is held while it's offered to the waitlist;
+    // only the offer's claim link can book it, with the freed booking's host
+    const heldOffer = await getPendingSlotOffer(supabase, event_type_id, startAtUtc.toISOString());
+    if (heldOffer && heldOffer.claim_token !== waitlist_claim_token) {
+      return new Response(
+        JSON.stringify({ error: "This time is being held for someone on the waitlist. Please select another time." }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (heldOffer?.host_id && !routedHostId) {
+      routedHostId = heldOffer.host_id;
+    }
+
+    // Collective co-hosts, and the group session this booking joins (if one is already running)
+    let additionalHostIds: string[] = [];
+    let groupSession: {
+      closer_id: string | null;
+      meeting_link: string | null;
+      google_calendar_event_id: string | null;
+      outlook_event_id: string | null;
+    } | null = null;
+
+    if (routedHostId && !isCollectiveMode(round_robin_mode) && !isGroupMode(round_robin_mode)) {
+      // Routed to a specific host by an intake rule
+      assignedUserId = routedHostId;
+      if (!(await isHostFree(assignedUserId))) return slotTakenResponse();
+    } else if (isCollectiveMode(round_robin_mode) && round_robin_members?.length > 0) {
+      // Collective: every member attends, so every member has to be free
+      const freeMembers = new Set<string>();
+      for (const memberId of round_robin_members) {
+        if (await isHostFree(memberId)) freeMembers.add(memberId);
+      }
+
+      const hosts = assignCollectiveHosts(round_robin_members, (memberId) => freeMembers.has(memberId));
+      if (!hosts) return slotTakenResponse();
+
+      assignedUserId = hosts.closerId;
+      additionalHostIds = hosts.additionalHostIds;
+    } else if (isGroupMode(round_robin_mode)) {
+      // Group: join the session already booked at this time while seats remain,
+      // otherwise start one with the first free host
+      const capacity = getSeatCapacity(eventType);
+      const { data: sessionAppointments } = await supabase
+        .from("appointments")
+        .select("closer_id, meeting_link, google_calendar_event_id, outlook_event_id")
+        .eq("event_type_id", event_type_id)
+        .eq("start_at_utc", startAtUtc.toISOString())
+        .not("status", "in", '("CANCELLED","CANCELED","RESCHEDULED")')
+        .order("created_at", { ascending: true });
+
+      if ((sessionAppointments || []).length >= capacity) {
+        return new Response(
+          JSON.stringify({ error: "This session is full. Please select another time." }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (sessionAppointments && sessionAppointments.length > 0) {
+        groupSession = sessionAppointments[0];
+        assignedUserId = groupSession.closer_id;
+      } else {
+        const candidates: string[] = round_robin_members?.length > 0
+          ? round_robin_members
+          : [await getDefaultHostId(supabase, team_id)].filter((id): id is string => !!id);
+
+        for (const memberId of candidates) {
+          if (await isHostFree(memberId)) {
+            assignedUserId = memberId;
+            break;
+          }
+        }
+
+        if (!assignedUserId) return slotTakenResponse();
+      }
+    } else if (round_robin_mode === "round_robin" && round_robin_members?.length > 0) {
       // Round-robin: pick next member
       const nextIndex = ((last_assigned_index || 0) + 1) % round_robin_members.length;
       assignedUserId = round_robin_members[nextIndex];
 
       // Validate slot availability for this host
-      const { data: conflictingAppointments } = await supabase
-        .from("appointments")
-        .select("start_at_utc, duration_minutes")
-        .eq("team_id", team_id)
-        .or(`closer_id.eq.${assignedUserId},assigned_user_id.eq.${assignedUserId}`)
-        .gte("start_at_utc", dayStart)
-        .lte("start_at_utc", dayEnd)
-        .not("status", "in", '("CANCELLED","RESCHEDULED")');
-
-      for (const appt of conflictingAppointments || []) {
-        const apptStart = new Date(appt.start_at_utc).getTime();
-        const apptDuration = (appt.duration_minutes || 30) * 60 * 1000;
-        const apptEnd = apptStart + apptDuration;
-
-        if (slotEffectiveStart < apptEnd && slotEffectiveEnd > apptStart) {
-          return new Response(
-            JSON.stringify({ error: "This time slot is no longer available. Please select another time." }),
-            { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-      }
+      if (!(await isHostFree(assignedUserId))) return slotTakenResponse();
 
       // Update the index
       await supabase
@@ -140,7 +276,7 @@ serve(async (req) => {
           .from("appointments")
           .select("id", { count: "exact", head: true })
           .eq("team_id", team_id)
-          .or(`closer_id.eq.${memberId},assigned_user_id.eq.${memberId}`)
+          .or(hostAppointmentsFilter(memberId))
           .gte("start_at_utc", dayStart)
           .lte("start_at_utc", dayEnd)
           .not("status", "in", '("CANCELLED","RESCHEDULED")');
@@ -156,76 +292,20 @@ serve(async (req) => {
 
       // Check slot availability for candidate hosts
       for (const memberId of candidateHosts) {
-        const { data: conflictingAppointments } = await supabase
-          .from("appointments")
-          .select("start_at_utc, duration_minutes")
-          .eq("team_id", team_id)
-          .or(`closer_id.eq.${memberId},assigned_user_id.eq.${memberId}`)
-          .gte("start_at_utc", dayStart)
-          .lte("start_at_utc", dayEnd)
-          .not("status", "in", '("CANCELLED","RESCHEDULED")');
-
-        let hasConflict = false;
-        for (const appt of conflictingAppointments || []) {
-          const apptStart = new Date(appt.start_at_utc).getTime();
-          const apptDuration = (appt.duration_minutes || 30) * 60 * 1000;
-          const apptEnd = apptStart + apptDuration;
-
-          if (slotEffectiveStart < apptEnd && slotEffectiveEnd > apptStart) {
-            hasConflict = true;
-            break;
-          }
-        }
-
-        if (!hasConflict) {
+        if (await isHostFree(memberId)) {
           assignedUserId = memberId;
           break;
         }
       }
 
       // If no available host found, return error
-      if (!assignedUserId) {
-        return new Response(
-          JSON.stringify({ error: "This time slot is no longer available. Please select another time." }),
-          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
+      if (!assignedUserId) return slotTakenResponse();
     } else {
       // Single host: team owner/admin
-      const { data: members } = await supabase
-        .from("team_members")
-        .select("user_id")
-        .eq("team_id", team_id)
-        .in("role", ["owner", "admin"])
-        .order("created_at", { ascending: true })
-        .limit(1);
-
-      if (members && members.length > 0) {
-        assignedUserId = members[0].user_id;
-
-        // Validate slot availability for this host
-        const { data: conflictingAppointments } = await supabase
-          .from("appointments")
-          .select("start_at_utc, duration_minutes")
-          .eq("team_id", team_id)
-          .or(`closer_id.eq.${assignedUserId},assigned_user_id.eq.${assignedUserId}`)
-          .gte("start_at_utc", dayStart)
-          .lte("start_at_utc", dayEnd)
-          .not("status", "in", '("CANCELLED","RESCHEDULED")');
-
-        for (const appt of conflictingAppointments || []) {
-          const apptStart = new Date(appt.start_at_utc).getTime();
-          const apptDuration = (appt.duration_minutes || 30) * 60 * 1000;
-          const apptEnd = apptStart + apptDuration;
+      assignedUserId = await getDefaultHostId(supabase, team_id);
 
-          if (slotEffectiveStart < apptEnd && slotEffectiveEnd > apptStart) {
-            return new Response(
-              JSON.stringify({ error: "This time slot is no longer available. Please select another time." }),
-              { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-            );
-          }
-        }
-      }
+      // Validate slot availability for this host
+      if (assignedUserId && !(await isHostFree(assignedUserId))) return slotTakenResponse();
     }
 
     // Get assigned user details from profiles (team_members doesn't have name/email)
@@ -242,13 +322,23 @@ serve(async (req) => {
       }
     }
 
+    // Collective co-hosts are invited to the host's calendar event
+    let additionalHostEmails: string[] = [];
+    if (additionalHostIds.length > 0) {
+      const { data: coHosts } = await supabase
+        .from("profiles")
+        .select("email")
+        .in("id", additionalHostIds);
+      additionalHostEmails = (coHosts || []).map((p: { email: string | null }) => p.email).filter(Boolean);
+    }
+
     // 4. Generate booking token for reschedule/cancel URLs
     const bookingToken = crypto.randomUUID();
 
-    // 5. Create Zoom meeting if location type is zoom
-    let meetingLink: string | null = location_value || null;
+    // 5. Create Zoom meeting if location type is zoom (group invitees share the session's)
+    let meetingLink: string | null = groupSession ? groupSession.meeting_link : location_value || null;
 
-    if (location_type === "zoom") {
+    if (location_type === "zoom" && !groupSession) {
       meetingLink = await createZoomMeeting(supabase, team_id, {
         topic: `${eventType.name} with ${name}`,
         startTime: startAtUtc.toISOString(),
@@ -257,10 +347,11 @@ serve(async (req) => {
       });
     }
 
-    // 6. Create Google Calendar event if connected
-    let googleCalendarEventId: string | null = null;
+    // 6. Create Google Calendar event if connected. Group invitees share the session's
+    // event, so cancel/reschedule only remove or move it once nobody else is on it
+    let googleCalendarEventId: string | null = groupSession?.google_calendar_event_id || null;
 
-    if (assignedUserId) {
+    if (assignedUserId && !groupSession) {
       const { data: gcalConn } = await supabase
         .from("google_calendar_connections")
         .select("*")
@@ -278,6 +369,7 @@ serve(async (req) => {
             startTime: startAtUtc.toISOString(),
             duration: duration_minutes,
             attendeeEmail: email,
+            additionalAttendees: additionalHostEmails,
             description: eventType.description || "",
             location: meetingLink || location_value || "",
             useGoogleMeet: location_type === "google_meet",
@@ -294,6 +386,38 @@ serve(async (req) => {
       }
     }
 
+    // 6b. Create Outlook event if the host connected Microsoft 365 (shared by group invitees too)
+    let outlookEventId: string | null = groupSession?.outlook_event_id || null;
+
+    if (assignedUserId && !groupSession) {
+      try {
+        const outlookConn = await getMicrosoftConnection(supabase, team_id, assignedUserId);
+        if (outlookConn) {
+          const microsoftConfig = microsoftConfigFromEnv((key) => Deno.env.get(key));
+          const accessToken = await getMicrosoftAccessToken(supabase, outlookConn, microsoftConfig);
+          if (accessToken) {
+            const outlookResult = await createMicrosoftEvent(
+              microsoftConfig,
+              accessToken,
+              {
+                subject: `${eventType.name} - ${name}`,
+                startTime: startAtUtc.toISOString(),
+                duration: duration_minutes,
+                // Graph emails every attendee, and the invitee already gets our ICS invite
+                attendeeEmails: additionalHostEmails,
+                description: [`Booked by ${name} (${email})`, eventType.description].filter(Boolean).join("\n\n"),
+                location: meetingLink || location_value || "",
+              },
+              outlookConn.calendar_id,
+            );
+            outlookEventId = outlookResult?.eventId || null;
+          }
+        }
+      } catch (outlookErr) {
+        console.error("[create-booking] Outlook event creation failed:", outlookErr);
+      }
+    }
+
     // 7. Compute end time
     const endAtUtc = new Date(startAtUtc.getTime() + duration_minutes * 60 * 1000);
 
@@ -328,13 +452,14 @@ serve(async (req) => {
       cancel_url: cancelUrl,
       cancellation_link: cancelUrl,
       appointment_timezone: timezone || "America/New_York",
-      appointment_notes: intake_answers
-        ? Object.entries(intake_answers)
-            .map(([k, v]) => `${k}: ${v}`)
-            .join("\n")
-        : null,
+      appointment_notes: intake_answers ? formatIntakeAnswers(questions, intake_answers) : null,
       // Revenue attribution: link appointment back to funnel lead (and thus UTM source)
       funnel_lead_id: funnel_lead_id || null,
+      // Calendar invite identity; reschedules keep the UID and bump ics_sequence
+      ics_uid: generateIcsUid(),
+      ics_sequence: 0,
+      additional_host_ids: additionalHostIds,
+      outlook_event_id: outlookEventId,
     };
 
     const { data: appointment, error: insertError } = await supabase
@@ -365,6 +490,14 @@ serve(async (req) => {
       );
     }
 
+    // 10. Schedule booking reminders from the event type's reminder_config
+    try {
+      await scheduleBookingReminders(supabase, appointment, eventType.reminder_config);
+    } catch (reminderErr) {
+      // Don't fail the booking if reminders can't be scheduled
+      console.error("[create-booking] Reminder scheduling error:", reminderErr);
+    }
+
     // 11. Upsert contact
     const { data: existingContact } = await supabase
       .from("contacts")
@@ -417,6 +550,10 @@ serve(async (req) => {
               cancel_url: cancelUrl,
               closer_name: assignedUserName,
               status: "NEW",
+              lead_name: name,
+              lead_email: email,
+              ics_uid: appointment.ics_uid,
+              ics_sequence: appointment.ics_sequence,
             },
             lead: {
               name,
@@ -446,6 +583,7 @@ serve(async (req) => {
           booking_token: bookingToken,
           host_name: assignedUserName,
           host_email: assignedUserEmail,
+          ics_uid: appointment.ics_uid,
         },
       }),
       {
@@ -558,6 +696,49 @@ async function createZoomMeeting(
   }
 }
 
+/**
+ * Whether a host already has a booking that overlaps the slot (buffers included)
+ */
+async function hasHostConflict(
+  supabase: SupabaseClient,
+  teamId: string,
+  userId: string,
+  dayStart: string,
+  dayEnd: string,
+  slotEffectiveStart: number,
+  slotEffectiveEnd: number
+): Promise<boolean> {
+  const { data: hostAppointments } = await supabase
+    .from("appointments")
+    .select("start_at_utc, duration_minutes")
+    .eq("team_id", teamId)
+    .or(hostAppointmentsFilter(userId))
+    .gte("start_at_utc", dayStart)
+    .lte("start_at_utc", dayEnd)
+    .not("status", "in", '("CANCELLED","RESCHEDULED")');
+
+  return (hostAppointments || []).some((appt: { start_at_utc: string; duration_minutes: number | null }) => {
+    const apptStart = new Date(appt.start_at_utc).getTime();
+    const apptEnd = apptStart + (appt.duration_minutes || 30) * 60 * 1000;
+    return slotEffectiveStart < apptEnd && slotEffectiveEnd > apptStart;
+  });
+}
+
+/**
+ * Default host: the team's first owner/admin
+ */
+async function getDefaultHostId(supabase: SupabaseClient, teamId: string): Promise<string | null> {
+  const { data: members } = await supabase
+    .from("team_members")
+    .select("user_id")
+    .eq("team_id", teamId)
+    .in("role", ["owner", "admin"])
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  return members && members.length > 0 ? members[0].user_id : null;
+}
+
 /**
  * Create a Google Calendar event
  */
@@ -569,6 +750,7 @@ async function createGoogleCalendarEvent(
     startTime: string;
     duration: number;
     attendeeEmail: string;
+    additionalAttendees?: string[];
     description: string;
     location: string;
     useGoogleMeet: boolean;
@@ -594,7 +776,7 @@ async function createGoogleCalendarEvent(
       description: opts.description,
       start: { dateTime: opts.startTime, timeZone: "UTC" },
       end: { dateTime: endTime.toISOString(), timeZone: "UTC" },
-      attendees: [{ email: opts.attendeeEmail }],
+      attendees: [opts.attendeeEmail, ...(opts.additionalAttendees || [])].map((email) => ({ email })),
       reminders: { useDefault: false },
     };
 
@@ -0,0 +1,81 @@
+// supabase/functions/email-unsubscribe/index.ts
+// Public endpoint: adds the address in a signed unsubscribe token to the team's
+// suppression list. Accepts the RFC 8058 one-click POST mail clients send to the
+// List-Unsubscribe URL (token in the query string) and the JSON POST from the
+// /unsubscribe/:token page linked in the email footer.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { suppressEmail, verifyUnsubscribeToken } from "../_shared/email-suppression.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response(
+      JSON.stringify({ success: false, error: "Method not allowed" }),
+      { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    // One-click clients POST form data to the header URL; the page POSTs JSON
+    const queryToken = new URL(req.url).searchParams.get("token");
+    const isJson = (req.headers.get("content-type") || "").includes("application/json");
+    const token = isJson ? (await req.json())?.token : queryToken;
+
+    const secret = Deno.env.get("EMAIL_UNSUBSCRIBE_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const payload = token ? await verifyUnsubscribeToken(token, secret) : null;
+
+    if (!payload) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Invalid unsubscribe link" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    await suppressEmail(supabase, {
+      team_id: payload.teamId,
+      email: payload.email,
+      reason: "unsubscribe",
+      source: isJson ? "unsubscribe_link" : "list_unsubscribe",
+    });
+
+    const { data: team } = await supabase
+      .from("teams")
+      .select("name")
+      .eq("id", payload.teamId)
+      .maybeSingle();
+
+    console.log(`[email-unsubscribe] ${payload.email} unsubscribed from team ${payload.teamId}`);
+
+    return new Response(
+      JSON.stringify({ success: true, email: payload.email, teamName: team?.name || null }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("[email-unsubscribe] Error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
@@ -2,12 +2,26 @@
 // Handles email event webhooks from Resend and Mailgun.
 // Tracks opens, clicks, bounces, deliveries, and complaints.
 // Fires email_opened, email_bounced, and messaging_error triggers.
+// Hard bounces, complaints and unsubscribes add the recipient to the team's suppression list.
+// Resend events are verified with RESEND_WEBHOOK_SECRET (Svix) and Mailgun events
+// with MAILGUN_WEBHOOK_SIGNING_KEY; a provider without its secret set is refused
+// unless ALLOW_UNSIGNED_WEBHOOKS=true.
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getSuppressionReasonForEvent, suppressEmail } from "../_shared/email-suppression.ts";
+import {
+  ALLOW_UNSIGNED_WEBHOOKS_ENV,
+  recordWebhookRejection,
+  verifyMailgunSignature,
+  verifySvixSignature,
+  verifyWithoutSecret,
+  type MailgunSignature,
+  type VerificationResult,
+} from "../_shared/webhook-signature.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, svix-id, svix-timestamp, svix-signature",
 };
 
 function getSupabaseClient() {
@@ -38,6 +52,28 @@ interface NormalizedEmailEvent {
   metadata?: Record<string, any>;
 }
 
+/** null when the provider's secret isn't configured */
+async function verifyProviderSignature(
+  req: Request,
+  provider: "resend" | "mailgun",
+  rawBody: string,
+  body: { signature?: MailgunSignature },
+): Promise<VerificationResult | null> {
+  if (provider === "resend") {
+    const secret = Deno.env.get("RESEND_WEBHOOK_SECRET");
+    if (!secret) return null;
+    return verifySvixSignature(secret, rawBody, {
+      id: req.headers.get("svix-id"),
+      timestamp: req.headers.get("svix-timestamp"),
+      signature: req.headers.get("svix-signature"),
+    });
+  }
+
+  const signingKey = Deno.env.get("MAILGUN_WEBHOOK_SIGNING_KEY");
+  if (!signingKey) return null;
+  return verifyMailgunSignature(signingKey, body.signature);
+}
+
 function normalizeResendEvent(body: any): NormalizedEmailEvent {
   const eventType = body.type?.replace("email.", "") || "unknown";
   const data = body.data || {};
@@ -61,6 +97,7 @@ function normalizeResendEvent(body: any): NormalizedEmailEvent {
       from: data.from,
       tags: data.tags,
       bounceType: data.bounce?.type,
+      providerEvent: eventType,
     },
   };
 }
@@ -92,6 +129,7 @@ function normalizeMailgunEvent(body: any): NormalizedEmailEvent {
       reason: eventData.reason,
       deliveryStatus: eventData["delivery-status"],
       url: eventData.url, // For click events
+      providerEvent: event,
     },
   };
 }
@@ -112,7 +150,8 @@ Deno.serve(async (req) => {
   const supabase = getSupabaseClient();
 
   try {
-    const body = await req.json();
+    const rawBody = await req.text();
+    const body = JSON.parse(rawBody);
     const provider = detectProvider(body);
 
     console.log("[email-webhook] Received event from provider:", provider);
@@ -125,6 +164,22 @@ Deno.serve(async (req) => {
       );
     }
 
+    // No signing secret for the provider means nothing can be verified: refused
+    // unless unsigned webhooks were explicitly allowed
+    const signed = await verifyProviderSignature(req, provider, rawBody, body);
+    const verification = signed ?? verifyWithoutSecret(Deno.env.get(ALLOW_UNSIGNED_WEBHOOKS_ENV));
+    if (!verification.ok) {
+      console.error("[email-webhook] Rejected event:", { provider, reason: verification.reason });
+      await recordWebhookRejection(supabase, { source: "email-webhook", provider, reason: verification.reason });
+      return new Response(
+        JSON.stringify({ error: "Invalid signature" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+    if (!signed) {
+      console.warn(`[email-webhook] No signing secret configured for ${provider}, accepting unsigned event`);
+    }
+
     // Normalize the event
     const event =
       provider === "resend"
@@ -188,6 +243,40 @@ Deno.serve(async (req) => {
       }
     }
 
+    // Suppress hard bounces, complaints and unsubscribes for the team that sent the message
+    const suppressionReason = getSuppressionReasonForEvent({ eventType: event.eventType, ...event.metadata });
+    if (suppressionReason && event.recipientEmail && event.messageId) {
+      const { data: sentLog } = await supabase
+        .from("message_logs")
+        .select("team_id")
+        // Mailgun's send response wraps the Message-ID in <>, its webhooks don't
+        .in("provider_message_id", [event.messageId, `<${event.messageId}>`])
+        .limit(1)
+        .maybeSingle();
+
+      if (sentLog?.team_id) {
+        try {
+          await suppressEmail(supabase, {
+            team_id: sentLog.team_id,
+            email: event.recipientEmail,
+            reason: suppressionReason,
+            source: "email_webhook",
+            provider,
+            provider_message_id: event.messageId,
+            details: {
+              reason: event.metadata?.reason || null,
+              bounceType: event.metadata?.bounceType || event.metadata?.severity || null,
+            },
+          });
+          console.log(`[email-webhook] Suppressed ${event.recipientEmail} (${suppressionReason}) for team:`, sentLog.team_id);
+        } catch (suppressErr) {
+          console.error("[email-webhook] Failed to suppress recipient:", suppressErr);
+        }
+      } else {
+        console.warn("[email-webhook] No sent message found to suppress:", event.messageId);
+      }
+    }
+
     // Fire automation triggers for specific event types
     const triggerableEvents = ["opened", "bounced", "complained", "failed"];
     if (triggerableEvents.includes(event.eventType) && event.recipientEmail) {
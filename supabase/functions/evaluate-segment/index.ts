@@ -0,0 +1,201 @@
+// supabase/functions/evaluate-segment/index.ts
+// Evaluates a contact segment for the caller's team with the shared condition
+// engine. Modes:
+// - page:  one page of matching contacts; pass nextCursor back for the next one
+// - count: every match (up to SEGMENT_COUNT_SCAN_LIMIT), saved on the segment
+// - bulk:  queues a contact_segment_jobs row that process-scheduled-jobs works
+//          through a page per tick (add tag, remove tag, enroll in a workflow)
+// page and count also take an unsaved `segment` so the editor can preview.
+// Viewing needs team access; bulk actions need a team admin.
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  SEGMENT_COUNT_SCAN_LIMIT,
+  SEGMENT_MAX_SCAN_PER_REQUEST,
+  clampSegmentPageSize,
+  loadSegmentEngineOptions,
+  normalizeSegment,
+  scanSegment,
+  validateSegment,
+  validateSegmentAction,
+  type SegmentAction,
+  type SegmentDefinition,
+} from "../_shared/contact-segments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface EvaluateSegmentBody {
+  teamId: string;
+  mode?: "page" | "count" | "bulk";
+  segmentId?: string;
+  /** Unsaved segment from the editor; page and count only */
+  segment?: Record<string, unknown>;
+  cursor?: string | null;
+  limit?: number;
+  action?: SegmentAction;
+}
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function json(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function queueBulkAction(
+  supabase: SupabaseClient,
+  teamId: string,
+  segmentId: string,
+  segment: SegmentDefinition,
+  action: SegmentAction,
+  userId: string,
+): Promise<Response> {
+  const invalid = validateSegmentAction(action);
+  if (invalid) return json({ success: false, error: invalid }, 400);
+
+  const actionConfig: Record<string, unknown> = {};
+  if (action.type === "enroll") {
+    const { data: automation, error } = await supabase
+      .from("automations")
+      .select("id, name, is_active")
+      .eq("id", action.automationId)
+      .eq("team_id", teamId)
+      .maybeSingle();
+    if (error) throw new Error(`Workflow lookup failed: ${error.message}`);
+    if (!automation) return json({ success: false, error: "Workflow not found" }, 404);
+    if (!automation.is_active) {
+      return json({ success: false, error: "Turn the workflow on before enrolling a segment" }, 400);
+    }
+    actionConfig.automationId = automation.id;
+    actionConfig.automationName = automation.name;
+  } else {
+    actionConfig.tag = action.tag!.trim();
+  }
+
+  const { data: job, error } = await supabase
+    .from("contact_segment_jobs")
+    .insert({
+      team_id: teamId,
+      segment_id: segmentId,
+      segment_snapshot: segment,
+      action_type: action.type,
+      action_config: actionConfig,
+      requested_by: userId,
+    })
+    .select("id, status")
+    .single();
+  if (error) throw new Error(`Failed to queue bulk action: ${error.message}`);
+
+  console.log(`[evaluate-segment] Queued ${action.type} job ${job.id} for segment ${segmentId} by ${userId}`);
+  return json({ success: true, jobId: job.id, status: job.status });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    const { data: userData, error: userError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: null, error: null };
+    const user = userData?.user;
+    if (userError || !user) {
+      return json({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const body: EvaluateSegmentBody = await req.json();
+    const { teamId, segmentId } = body;
+    const mode = body.mode || "page";
+    if (!teamId || (!segmentId && !body.segment)) {
+      return json({ success: false, error: "Missing required fields: teamId and segmentId or segment" }, 400);
+    }
+
+    const { data: canAccess, error: accessError } = await supabase.rpc(
+      mode === "bulk" ? "is_team_admin" : "can_access_workspace",
+      { _user_id: user.id, _team_id: teamId },
+    );
+    if (accessError) throw new Error(`Access check failed: ${accessError.message}`);
+    if (!canAccess) {
+      return json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    let segment: SegmentDefinition;
+    if (segmentId) {
+      const { data: saved, error: segmentError } = await supabase
+        .from("contact_segments")
+        .select("id, name, conditions, condition_logic")
+        .eq("id", segmentId)
+        .eq("team_id", teamId)
+        .maybeSingle();
+      if (segmentError) throw new Error(`Segment lookup failed: ${segmentError.message}`);
+      if (!saved) return json({ success: false, error: "Segment not found" }, 404);
+      segment = normalizeSegment(saved);
+    } else {
+      // A draft only needs a name once it is saved
+      segment = normalizeSegment({ name: "Preview", ...body.segment });
+    }
+
+    const invalid = validateSegment(segment);
+    if (invalid) return json({ success: false, error: invalid }, 400);
+
+    if (mode === "bulk") {
+      // Bulk actions only run on saved segments, so the job history can name them
+      if (!segmentId) return json({ success: false, error: "Save the segment before running a bulk action" }, 400);
+      return await queueBulkAction(supabase, teamId, segmentId, segment, body.action!, user.id);
+    }
+
+    const engineOptions = await loadSegmentEngineOptions(supabase, teamId);
+
+    if (mode === "count") {
+      const result = await scanSegment(supabase, teamId, segment, {
+        limit: Infinity,
+        maxScan: SEGMENT_COUNT_SCAN_LIMIT,
+        collect: false,
+        engineOptions,
+      });
+      // Past the scan limit the count is a lower bound
+      const capped = result.nextCursor !== null;
+
+      if (segmentId && !capped) {
+        const { error: countError } = await supabase
+          .from("contact_segments")
+          .update({ last_count: result.matched, last_counted_at: new Date().toISOString() })
+          .eq("id", segmentId);
+        if (countError) console.error("[evaluate-segment] Failed to save count:", countError);
+      }
+
+      return json({ success: true, count: result.matched, scanned: result.scanned, capped });
+    }
+
+    const result = await scanSegment(supabase, teamId, segment, {
+      cursor: body.cursor ?? null,
+      limit: clampSegmentPageSize(body.limit),
+      maxScan: SEGMENT_MAX_SCAN_PER_REQUEST,
+      engineOptions,
+    });
+
+    return json({
+      success: true,
+      contacts: result.matches,
+      // A page can come back short when few contacts match; keep going while there is a cursor
+      nextCursor: result.nextCursor,
+      scanned: result.scanned,
+    });
+  } catch (error) {
+    console.error("[evaluate-segment] Error:", error);
+    return json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -1,9 +1,54 @@
 // supabase/functions/get-available-slots/index.ts
 // Returns available booking time slots for a given event type and date range.
 // Public endpoint (no auth required) — used by booking pages and funnel embeds.
+//
+// Query: event_type_id, timezone, and one of
+// - date=YYYY-MM-DD → { date, timezone, slots, event_type }
+// - month=YYYY-MM or start_date/end_date → { start_date, end_date, timezone,
+//   days: { [date]: { slots, reason? } }, available_dates, event_type }
+// Schedules, overrides, appointments and Google / Outlook busy times are loaded
+// once for the whole range.
+// Collective event types only offer slots every host has free; group event types
+// report seats_total / seats_remaining on each slot. Optional host_id narrows the
+// slots to a host an intake routing rule sent the invitee to. Slots held for a
+// pending waitlist offer are left out and still count toward max_bookings_per_day.
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import {
+  type AvailabilityWindow,
+  generateSlotStarts,
+  type OverrideRow,
+  resolveDayWindows,
+  type ScheduleRow,
+  windowsToUtcIntervals,
+} from "./windows.ts";
+import {
+  addDaysToDateStr,
+  type BusyPeriod,
+  getAvailableDates,
+  isSlotOpen,
+  parseSlotRange,
+  type SlotRules,
+  type TimeSlot,
+} from "./slots.ts";
+import {
+  countSessionSeats,
+  getSeatCapacity,
+  getSeatsRemaining,
+  intersectHostSlots,
+  isCollectiveMode,
+  isGroupMode,
+  isHostOnAppointment,
+} from "../_shared/booking-seats.ts";
+import { normalizeRoutingRules } from "../_shared/intake-routing.ts";
+import { getHeldSlotKeys } from "../_shared/booking-waitlist.ts";
+import {
+  fetchMicrosoftBusyTimes,
+  getMicrosoftAccessToken,
+  getMicrosoftConnection,
+  microsoftConfigFromEnv,
+} from "../_shared/microsoft-graph.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -12,15 +57,25 @@ const corsHeaders = {
   "Access-Control-Allow-Methods": "GET, OPTIONS",
 };
 
-interface TimeSlot {
-  time: string; // HH:mm in requester's timezone
-  utc: string;  // ISO 8601 UTC
-  available: boolean;
+/** Why a day came back empty, returned alongside days without slots */
+interface DayDebugInfo {
+  hostsChecked: string[];
+  availabilityFound: boolean;
+  reason: string | null;
+  hostDetails: {
+    userId: string;
+    hasSchedule: boolean;
+    hasOverride: boolean;
+    dayOfWeek: number;
+    reason: string;
+  }[];
+  availabilityMode: "team_wide" | "per_user";
 }
 
-interface AvailabilityWindow {
-  start: string; // HH:mm
-  end: string;   // HH:mm
+interface DaySlots {
+  slots: TimeSlot[];
+  reason?: string; // beyond_max_advance | max_bookings_reached
+  debug?: DayDebugInfo;
 }
 
 serve(async (req) => {
@@ -32,25 +87,28 @@ serve(async (req) => {
   try {
     const url = new URL(req.url);
     const eventTypeId = url.searchParams.get("event_type_id");
-    const dateStr = url.searchParams.get("date"); // YYYY-MM-DD
     const timezone = url.searchParams.get("timezone") || "America/New_York";
 
-    if (!eventTypeId || !dateStr) {
+    if (!eventTypeId) {
       return new Response(
-        JSON.stringify({ error: "event_type_id and date are required" }),
+        JSON.stringify({ error: "event_type_id is required" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Validate date format
-    const dateMatch = dateStr.match(/^\d{4}-\d{2}-\d{2}$/);
-    if (!dateMatch) {
+    // Validate date / month / start_date+end_date
+    const parsedRange = parseSlotRange(url.searchParams);
+    if ("error" in parsedRange) {
       return new Response(
-        JSON.stringify({ error: "date must be in YYYY-MM-DD format" }),
+        JSON.stringify({ error: parsedRange.error }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
+    const { mode, dates } = parsedRange.range;
+    const firstDate = dates[0];
+    const lastDate = dates[dates.length - 1];
+
     // Create Supabase client with service role for full access
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -84,6 +142,36 @@ serve(async (req) => {
       availability_mode,
     } = eventType;
 
+    const eventTypeSummary = {
+      id: eventType.id,
+      name: eventType.name,
+      slug: eventType.slug,
+      description: eventType.description,
+      duration_minutes: eventType.duration_minutes,
+      location_type: eventType.location_type,
+      color: eventType.color,
+      round_robin_mode: eventType.round_robin_mode,
+      seats_per_slot: isGroupMode(round_robin_mode) ? getSeatCapacity(eventType) : null,
+    };
+
+    const respondWithRange = (days: Record<string, DaySlots>) =>
+      new Response(
+        JSON.stringify({
+          start_date: firstDate,
+          end_date: lastDate,
+          timezone,
+          days: Object.fromEntries(
+            Object.entries(days).map(([date, day]) => [
+              date,
+              { slots: day.slots, ...(day.slots.length === 0 ? { reason: day.reason || day.debug?.reason || null } : {}) },
+            ])
+          ),
+          available_dates: getAvailableDates(days),
+          event_type: eventTypeSummary,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+
     // 2. Determine which hosts to check
     let hostUserIds: string[] = [];
 
@@ -104,44 +192,45 @@ serve(async (req) => {
       }
     }
 
+    // Intake routing: only hosts of this event type or a route_host target of its rules
+    const routedHostId = url.searchParams.get("host_id");
+    if (routedHostId && !isCollectiveMode(round_robin_mode) && !isGroupMode(round_robin_mode)) {
+      const routingHosts = normalizeRoutingRules(eventType.routing_rules)
+        .map((rule) => (rule.action.type === "route_host" ? rule.action.user_id : null));
+      const allowed = hostUserIds.includes(routedHostId) || routingHosts.includes(routedHostId);
+      hostUserIds = allowed ? [routedHostId] : [];
+    }
+
     if (hostUserIds.length === 0) {
+      if (mode === "range") {
+        return respondWithRange(Object.fromEntries(dates.map((date) => [date, { slots: [] }])));
+      }
       return new Response(
-        JSON.stringify({ date: dateStr, slots: [], event_type: eventType }),
+        JSON.stringify({ date: firstDate, slots: [], event_type: eventType }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // 3. Parse the requested date
-    const requestedDate = new Date(dateStr + "T00:00:00Z");
+    // 3. Booking window
     const now = new Date();
-
-    // Check max advance days
     const maxDate = new Date(now);
     maxDate.setDate(maxDate.getDate() + (max_advance_days || 60));
-    if (requestedDate > maxDate) {
-      return new Response(
-        JSON.stringify({ date: dateStr, slots: [], event_type: eventType, reason: "beyond_max_advance" }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Get day of week for the requested date (0=Sun, 6=Sat)
-    const dayOfWeek = requestedDate.getUTCDay();
 
     // 4. Load availability schedules based on availability_mode
-    let schedules: any[] = [];
-    let overrides: any[] = [];
+    let schedules: ScheduleRow[] = [];
+    let overrides: OverrideRow[] = [];
     
     const useTeamWide = availability_mode === 'team_wide' || !availability_mode; // Default to team_wide
     
+    // Schedules are loaded for every weekday: resolveDayWindows takes the host
+    // timezone from them even when the requested day is off or overridden.
     if (useTeamWide) {
       // Team-wide: Load schedule with user_id IS NULL
       const { data: teamSchedules } = await supabase
         .from("availability_schedules")
         .select("*")
         .eq("team_id", team_id)
-        .is("user_id", null)
-        .eq("day_of_week", dayOfWeek);
+        .is("user_id", null);
       
       schedules = teamSchedules || [];
       
@@ -151,7 +240,8 @@ serve(async (req) => {
         .select("*")
         .eq("team_id", team_id)
         .is("user_id", null)
-        .eq("date", dateStr);
+        .gte("date", firstDate)
+        .lte("date", lastDate);
       
       overrides = teamOverrides || [];
     } else {
@@ -160,8 +250,7 @@ serve(async (req) => {
         .from("availability_schedules")
         .select("*")
         .eq("team_id", team_id)
-        .in("user_id", hostUserIds)
-        .eq("day_of_week", dayOfWeek);
+        .in("user_id", hostUserIds);
       
       schedules = userSchedules || [];
       
@@ -171,144 +260,43 @@ serve(async (req) => {
         .select("*")
         .eq("team_id", team_id)
         .in("user_id", hostUserIds)
-        .eq("date", dateStr);
+        .gte("date", firstDate)
+        .lte("date", lastDate);
       
       overrides = userOverrides || [];
     }
 
-    // 6. Load existing appointments for this date (to subtract booked slots)
-    const dayStart = dateStr + "T00:00:00Z";
-    const dayEnd = dateStr + "T23:59:59Z";
+    // 5. Load existing appointments for the range (to subtract booked slots).
+    // Hosts' windows sit on each date in their own timezone, so their slots can
+    // fall on the UTC day before or after - conflicts are checked a day either side.
+    const rangeStart = addDaysToDateStr(firstDate, -1) + "T00:00:00Z";
+    const rangeEnd = addDaysToDateStr(lastDate, 1) + "T23:59:59Z";
 
     const { data: existingAppointments } = await supabase
       .from("appointments")
-      .select("start_at_utc, duration_minutes, closer_id, assigned_user_id, status")
+      .select("start_at_utc, duration_minutes, closer_id, assigned_user_id, additional_host_ids, event_type_id, status")
       .eq("team_id", team_id)
-      .gte("start_at_utc", dayStart)
-      .lte("start_at_utc", dayEnd)
+      .gte("start_at_utc", rangeStart)
+      .lte("start_at_utc", rangeEnd)
       .not("status", "in", '("CANCELLED","RESCHEDULED")');
 
-    // 7. Check daily booking count against max
-    if (max_bookings_per_day) {
-      const todayBookings = (existingAppointments || []).filter(
-        a => a.status !== "CANCELLED" && a.status !== "RESCHEDULED"
-      ).length;
-      if (todayBookings >= max_bookings_per_day) {
-        return new Response(
-          JSON.stringify({ date: dateStr, slots: [], event_type: eventType, reason: "max_bookings_reached" }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-    }
-
-    // 8. Calculate available slots
-    const allAvailableSlots = new Map<string, TimeSlot>();
-    const debugInfo: any = {
-      hostsChecked: hostUserIds,
-      availabilityFound: false,
-      reason: null,
-      hostDetails: [],
-      availabilityMode: useTeamWide ? 'team_wide' : 'per_user',
-    };
-
-    // Determine availability windows (same for all hosts if team-wide)
-    let windows: AvailabilityWindow[] = [];
-    let usingDefaults = false;
-    let teamTimezone = "America/New_York";
+    // Freed slots currently offered to someone on the waitlist
+    const heldSlotKeys = eventType.waitlist_enabled
+      ? await getHeldSlotKeys(supabase, eventType.id, rangeStart, rangeEnd)
+      : new Set<string>();
 
-    if (useTeamWide) {
-      // Team-wide: Use single schedule for all hosts
-      const teamSchedule = schedules?.[0];
-      const teamOverride = overrides?.[0];
-
-      if (teamOverride) {
-        if (teamOverride.is_available && teamOverride.start_time && teamOverride.end_time) {
-          windows = [{ start: teamOverride.start_time, end: teamOverride.end_time }];
-          teamTimezone = teamOverride.timezone || teamTimezone;
-        }
-      } else if (teamSchedule) {
-        if (teamSchedule.is_available) {
-          windows = [{ start: teamSchedule.start_time, end: teamSchedule.end_time }];
-          teamTimezone = teamSchedule.timezone || teamTimezone;
-        }
-      } else {
-        // Default: 9am-5pm Mon-Fri
-        if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-          windows = [{ start: "09:00", end: "17:00" }];
-          usingDefaults = true;
-          console.warn(`[get-available-slots] No team-wide availability schedule for team ${team_id} on day ${dayOfWeek}, using default 9am-5pm`);
-        }
-      }
-
-      if (windows.length === 0) {
-        debugInfo.reason = dayOfWeek === 0 || dayOfWeek === 6 ? "Weekend (no default)" : "No team availability configured";
-        return new Response(
-          JSON.stringify({
-            date: dateStr,
-            slots: [],
-            event_type: eventType,
-            debug: debugInfo,
-          }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-
-      debugInfo.availabilityFound = true;
-    }
-
-    // Generate slots for each host (using same windows if team-wide, or individual if per-user)
+    // 6. Busy periods per host: appointments plus Google and Outlook calendar busy times
+    const microsoftConfig = microsoftConfigFromEnv((key) => Deno.env.get(key));
+    const hostBusy = new Map<string, BusyPeriod[]>();
     for (const userId of hostUserIds) {
-      let hostWindows: AvailabilityWindow[] = [];
-      let hostTimezone = teamTimezone;
-
-      if (!useTeamWide) {
-        // Per-user mode: Get this user's schedule
-        const userSchedule = schedules.find((s: any) => s.user_id === userId);
-        const userOverride = overrides.find((o: any) => o.user_id === userId);
-
-        if (userOverride) {
-          if (userOverride.is_available && userOverride.start_time && userOverride.end_time) {
-            hostWindows = [{ start: userOverride.start_time, end: userOverride.end_time }];
-            hostTimezone = userOverride.timezone || hostTimezone;
-          }
-        } else if (userSchedule) {
-          if (userSchedule.is_available) {
-            hostWindows = [{ start: userSchedule.start_time, end: userSchedule.end_time }];
-            hostTimezone = userSchedule.timezone || hostTimezone;
-          }
-        } else {
-          if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-            hostWindows = [{ start: "09:00", end: "17:00" }];
-            usingDefaults = true;
-          }
-        }
-
-        if (hostWindows.length === 0) {
-          debugInfo.hostDetails.push({
-            userId,
-            hasSchedule: !!userSchedule,
-            hasOverride: !!userOverride,
-            dayOfWeek,
-            reason: dayOfWeek === 0 || dayOfWeek === 6 ? "Weekend (no default)" : "No availability configured",
-          });
-          continue;
-        }
-      } else {
-        // Team-wide: Use the same windows for all hosts
-        hostWindows = windows;
-      }
-
-      if (!debugInfo.availabilityFound) {
-        debugInfo.availabilityFound = true;
-      }
-
-      // Get this user's existing appointments
-      const userAppointments = (existingAppointments || []).filter(
-        a => a.closer_id === userId || a.assigned_user_id === userId
-      );
+      const busy: BusyPeriod[] = (existingAppointments || [])
+        .filter(a => isHostOnAppointment(a, userId))
+        .map(a => {
+          const start = new Date(a.start_at_utc).getTime();
+          return { start, end: start + (a.duration_minutes || 30) * 60 * 1000 };
+        });
 
       // Load Google Calendar busy times for this user
-      let googleBusyTimes: Array<{ start: Date; end: Date }> = [];
       try {
         const { data: gcalConn } = await supabase
           .from("google_calendar_connections")
@@ -319,131 +307,229 @@ serve(async (req) => {
           .single();
 
         if (gcalConn) {
-          const busyTimes = await fetchGoogleBusyTimes(supabase, gcalConn, dayStart, dayEnd);
-          googleBusyTimes = busyTimes || [];
+          const busyTimes = await fetchGoogleBusyTimes(supabase, gcalConn, rangeStart, rangeEnd);
+          for (const period of busyTimes || []) {
+            busy.push({ start: period.start.getTime(), end: period.end.getTime() });
+          }
         }
       } catch (err) {
         console.error(`[get-available-slots] Error fetching Google Calendar busy times for user ${userId}:`, err);
       }
 
-      // Use host-specific timezone (or team timezone for team-wide)
-      const userTimezone = hostTimezone;
+      // Load Outlook calendar busy times for this user
+      try {
+        const outlookConn = await getMicrosoftConnection(supabase, team_id, userId);
+        const accessToken = outlookConn?.email
+          ? await getMicrosoftAccessToken(supabase, outlookConn, microsoftConfig)
+          : null;
+
+        if (outlookConn?.email && accessToken) {
+          const busyTimes = await fetchMicrosoftBusyTimes(microsoftConfig, accessToken, outlookConn.email, rangeStart, rangeEnd);
+          for (const period of busyTimes || []) {
+            busy.push({ start: period.start.getTime(), end: period.end.getTime() });
+          }
+        }
+      } catch (err) {
+        console.error(`[get-available-slots] Error fetching Outlook busy times for user ${userId}:`, err);
+      }
 
-      // Generate candidate slots
-      for (const window of hostWindows) {
-        const [startHour, startMin] = window.start.split(":").map(Number);
-        const [endHour, endMin] = window.end.split(":").map(Number);
+      hostBusy.set(userId, busy);
+    }
 
-        // Convert schedule times to UTC for the requested date
-        // Create dates in the user's timezone perspective
-        const windowStartMinutes = startHour * 60 + startMin;
-        const windowEndMinutes = endHour * 60 + endMin;
+    const slotRules: SlotRules = {
+      durationMinutes: duration_minutes,
+      bufferBeforeMinutes: buffer_before_minutes || 0,
+      bufferAfterMinutes: buffer_after_minutes || 0,
+      minNoticeHours: min_notice_hours || 1,
+    };
+
+    // Group sessions already booked for this event type, by start (ISO key)
+    const groupMode = isGroupMode(round_robin_mode);
+    const collectiveMode = isCollectiveMode(round_robin_mode);
+    const seatCapacity = getSeatCapacity(eventType);
+    const sessionSeats = groupMode
+      ? countSessionSeats(existingAppointments || [], eventType.id)
+      : new Map<string, number>();
+
+    let warnedDefaults = false;
+
+    // 7. Calculate available slots for one date from the preloaded data
+    const computeDay = (dateStr: string): DaySlots => {
+      const requestedDate = new Date(dateStr + "T00:00:00Z");
+
+      // Check max advance days
+      if (requestedDate > maxDate) {
+        return { slots: [], reason: "beyond_max_advance" };
+      }
+
+      // Check daily booking count against max
+      if (max_bookings_per_day) {
+        const dayStart = new Date(dateStr + "T00:00:00Z").getTime();
+        const dayEnd = new Date(dateStr + "T23:59:59Z").getTime();
+        const todayBookings = (existingAppointments || []).filter(a => {
+          const start = new Date(a.start_at_utc).getTime();
+          return a.status !== "CANCELLED" && a.status !== "RESCHEDULED" && start >= dayStart && start <= dayEnd;
+        }).length;
+        const todayHeld = [...heldSlotKeys].filter(key => {
+          const start = new Date(key).getTime();
+          return start >= dayStart && start <= dayEnd;
+        }).length;
+        if (todayBookings + todayHeld >= max_bookings_per_day) {
+          return { slots: [], reason: "max_bookings_reached" };
+        }
+      }
 
-        // Generate slots in 15-minute increments
-        for (let slotStart = windowStartMinutes; slotStart + duration_minutes <= windowEndMinutes; slotStart += 15) {
-          const slotHour = Math.floor(slotStart / 60);
-          const slotMinute = slotStart % 60;
-          const slotTimeStr = `${String(slotHour).padStart(2, "0")}:${String(slotMinute).padStart(2, "0")}`;
+      // Get day of week for the requested date (0=Sun, 6=Sat)
+      const dayOfWeek = requestedDate.getUTCDay();
+      const dayOverrides = overrides.filter((o) => o.date === dateStr);
+
+      const allAvailableSlots = new Map<string, TimeSlot>();
+      const debugInfo: DayDebugInfo = {
+        hostsChecked: hostUserIds,
+        availabilityFound: false,
+        reason: null,
+        hostDetails: [],
+        availabilityMode: useTeamWide ? 'team_wide' : 'per_user',
+      };
+
+      // Determine availability windows (same for all hosts if team-wide)
+      let windows: AvailabilityWindow[] = [];
+      let teamTimezone = "America/New_York";
+
+      if (useTeamWide) {
+        // Team-wide: the team's windows apply to every host
+        const teamDay = resolveDayWindows(schedules, dayOverrides, dayOfWeek);
+        windows = teamDay.windows;
+        teamTimezone = teamDay.timezone || teamTimezone;
+
+        if (teamDay.source === "default" && !warnedDefaults) {
+          warnedDefaults = true;
+          console.warn(`[get-available-slots] No team-wide availability schedule for team ${team_id}, using default 9am-5pm`);
+        }
 
-          // Create UTC timestamp for this slot
-          // We work in the host's timezone for schedule, then convert to UTC
-          const slotDateStr = `${dateStr}T${slotTimeStr}:00`;
+        if (windows.length === 0) {
+          debugInfo.reason = dayOfWeek === 0 || dayOfWeek === 6 ? "Weekend (no default)" : "No team availability configured";
+          return { slots: [], debug: debugInfo };
+        }
 
-          // Use Intl to properly convert from host timezone to UTC
-          const slotUtc = convertToUTC(slotDateStr, userTimezone);
-          if (!slotUtc) continue;
+        debugInfo.availabilityFound = true;
+      }
 
-          // Check min notice
-          const minNoticeMs = (min_notice_hours || 1) * 60 * 60 * 1000;
-          if (slotUtc.getTime() - now.getTime() < minNoticeMs) {
+      // Open slot keys per host; collective event types keep only the ones all hosts share
+      const hostSlotKeys: string[][] = [];
+
+      // Generate slots for each host (using same windows if team-wide, or individual if per-user)
+      for (const userId of hostUserIds) {
+        const openKeys: string[] = [];
+        hostSlotKeys.push(openKeys);
+
+        let hostWindows: AvailabilityWindow[] = [];
+        let hostTimezone = teamTimezone;
+
+        if (!useTeamWide) {
+          // Per-user mode: this user's windows, in this user's timezone
+          const userSchedules = schedules.filter((s) => s.user_id === userId);
+          const userOverrides = dayOverrides.filter((o) => o.user_id === userId);
+          const userDay = resolveDayWindows(userSchedules, userOverrides, dayOfWeek);
+
+          hostWindows = userDay.windows;
+          hostTimezone = userDay.timezone || hostTimezone;
+
+          if (hostWindows.length === 0) {
+            debugInfo.hostDetails.push({
+              userId,
+              hasSchedule: userSchedules.length > 0,
+              hasOverride: userOverrides.length > 0,
+              dayOfWeek,
+              reason: dayOfWeek === 0 || dayOfWeek === 6 ? "Weekend (no default)" : "No availability configured",
+            });
             continue;
           }
+        } else {
+          // Team-wide: Use the same windows for all hosts
+          hostWindows = windows;
+        }
+
+        if (!debugInfo.availabilityFound) {
+          debugInfo.availabilityFound = true;
+        }
 
-          // Check against existing appointments (with buffers)
-          const slotStartMs = slotUtc.getTime();
-          const slotEndMs = slotStartMs + duration_minutes * 60 * 1000;
-          const bufferBeforeMs = (buffer_before_minutes || 0) * 60 * 1000;
-          const bufferAfterMs = (buffer_after_minutes || 0) * 60 * 1000;
-
-          let conflicted = false;
-          
-          // Check database appointments
-          for (const appt of userAppointments) {
-            const apptStart = new Date(appt.start_at_utc).getTime();
-            const apptDuration = (appt.duration_minutes || 30) * 60 * 1000;
-            const apptEnd = apptStart + apptDuration;
-
-            // Check overlap including buffers
-            const slotEffectiveStart = slotStartMs - bufferBeforeMs;
-            const slotEffectiveEnd = slotEndMs + bufferAfterMs;
-
-            if (slotEffectiveStart < apptEnd && slotEffectiveEnd > apptStart) {
-              conflicted = true;
-              break;
-            }
+        const busy = hostBusy.get(userId) || [];
+
+        // Generate candidate slots: windows → UTC intervals, merged so overlapping
+        // or back-to-back windows behave as one, stepped in 15-minute increments
+        const hostIntervals = windowsToUtcIntervals(dateStr, hostWindows, hostTimezone);
+        for (const slotUtc of generateSlotStarts(hostIntervals, duration_minutes)) {
+          const slotKey = slotUtc.toISOString();
+          const seatsTaken = sessionSeats.get(slotKey);
+
+          if (seatsTaken !== undefined) {
+            // An existing group session: its host is already committed, so it stays
+            // open (past min notice) until the seats run out
+            if (seatsTaken >= seatCapacity || !isSlotOpen(slotUtc, [], slotRules, now)) continue;
+          } else if (!isSlotOpen(slotUtc, busy, slotRules, now)) {
+            // Min notice, existing appointments and calendar busy times (with buffers)
+            continue;
           }
 
-          // Check Google Calendar busy times
-          if (!conflicted && googleBusyTimes.length > 0) {
-            for (const busy of googleBusyTimes) {
-              const busyStart = busy.start.getTime();
-              const busyEnd = busy.end.getTime();
-              const slotEffectiveStart = slotStartMs - bufferBeforeMs;
-              const slotEffectiveEnd = slotEndMs + bufferAfterMs;
-
-              if (slotEffectiveStart < busyEnd && slotEffectiveEnd > busyStart) {
-                conflicted = true;
-                break;
+          openKeys.push(slotKey);
+        }
+      }
+
+      const slotKeys = collectiveMode ? intersectHostSlots(hostSlotKeys) : hostSlotKeys.flat();
+      for (const slotKey of slotKeys) {
+        if (allAvailableSlots.has(slotKey) || heldSlotKeys.has(slotKey)) continue;
+        allAvailableSlots.set(slotKey, {
+          // Convert slot time to requester's timezone for display
+          time: convertToTimezone(new Date(slotKey), timezone),
+          utc: slotKey,
+          available: true,
+          ...(groupMode
+            ? {
+                seats_total: seatCapacity,
+                seats_remaining: getSeatsRemaining(seatCapacity, sessionSeats.get(slotKey) || 0),
               }
-            }
-          }
+            : {}),
+        });
+      }
 
-          if (!conflicted) {
-            // Convert slot time to requester's timezone for display
-            const displayTime = convertToTimezone(slotUtc, timezone);
-
-            const slotKey = slotUtc.toISOString();
-            if (!allAvailableSlots.has(slotKey)) {
-              allAvailableSlots.set(slotKey, {
-                time: displayTime,
-                utc: slotUtc.toISOString(),
-                available: true,
-              });
-            }
-          }
+      // Sort slots by UTC time
+      const slots = Array.from(allAvailableSlots.values()).sort(
+        (a, b) => new Date(a.utc).getTime() - new Date(b.utc).getTime()
+      );
+
+      // Add debug info if no slots found
+      if (slots.length === 0 && !debugInfo.reason) {
+        if (!debugInfo.availabilityFound) {
+          debugInfo.reason = "No availability schedules configured for hosts";
+        } else {
+          debugInfo.reason = "All slots are booked or blocked";
         }
       }
+
+      return { slots, debug: debugInfo };
+    };
+
+    if (mode === "range") {
+      return respondWithRange(Object.fromEntries(dates.map((date) => [date, computeDay(date)])));
     }
 
-    // Sort slots by UTC time
-    const slots = Array.from(allAvailableSlots.values()).sort(
-      (a, b) => new Date(a.utc).getTime() - new Date(b.utc).getTime()
-    );
+    const day = computeDay(firstDate);
 
-    // Add debug info if no slots found
-    if (slots.length === 0 && !debugInfo.reason) {
-      if (!debugInfo.availabilityFound) {
-        debugInfo.reason = "No availability schedules configured for hosts";
-      } else {
-        debugInfo.reason = "All slots are booked or blocked";
-      }
+    if (day.reason) {
+      return new Response(
+        JSON.stringify({ date: firstDate, slots: [], event_type: eventType, reason: day.reason }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
     return new Response(
       JSON.stringify({
-        date: dateStr,
+        date: firstDate,
         timezone,
-        slots,
-        event_type: {
-          id: eventType.id,
-          name: eventType.name,
-          slug: eventType.slug,
-          description: eventType.description,
-          duration_minutes: eventType.duration_minutes,
-          location_type: eventType.location_type,
-          color: eventType.color,
-        },
-        ...(slots.length === 0 ? { debug: debugInfo } : {}),
+        slots: day.slots,
+        event_type: eventTypeSummary,
+        ...(day.slots.length === 0 ? { debug: day.debug } : {}),
       }),
       {
         status: 200,
@@ -460,60 +546,6 @@ serve(async (req) => {
   }
 });
 
-/**
- * Convert a local datetime string (YYYY-MM-DDTHH:mm:ss) in a given timezone to UTC.
- */
-function convertToUTC(localDateStr: string, timezone: string): Date | null {
-  try {
-    // Parse the local time components
-    const [datePart, timePart] = localDateStr.split("T");
-    const [year, month, day] = datePart.split("-").map(Number);
-    const [hour, minute, second] = (timePart || "00:00:00").split(":").map(Number);
-
-    // Create a date and use Intl to find the offset
-    // We use a binary search approach to find the UTC time that corresponds
-    // to the given local time in the target timezone
-    const guess = new Date(Date.UTC(year, month - 1, day, hour, minute, second || 0));
-
-    // Get the offset by formatting in the target timezone
-    const formatter = new Intl.DateTimeFormat("en-US", {
-      timeZone: timezone,
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
-      hour12: false,
-    });
-
-    const parts = formatter.formatToParts(guess);
-    const getPart = (type: string) =>
-      parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
-
-    const localInTz = new Date(
-      Date.UTC(
-        getPart("year"),
-        getPart("month") - 1,
-        getPart("day"),
-        getPart("hour") === 24 ? 0 : getPart("hour"),
-        getPart("minute"),
-        getPart("second")
-      )
-    );
-
-    // The offset is the difference between the guess and what the guess looks like in the timezone
-    const offsetMs = guess.getTime() - localInTz.getTime();
-
-    // The actual UTC time is the local time + offset
-    const utcTime = new Date(guess.getTime() + offsetMs);
-
-    return utcTime;
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Convert a UTC Date to a HH:mm string in the target timezone.
  */
@@ -0,0 +1,124 @@
+// supabase/functions/get-available-slots/slots.ts
+// Request range parsing and slot conflict checks for get-available-slots.
+// Pure functions (no Deno/Supabase imports) so they can be unit tested.
+
+export interface TimeSlot {
+  time: string; // HH:mm in requester's timezone
+  utc: string;  // ISO 8601 UTC
+  available: boolean;
+  seats_total?: number;     // group event types only
+  seats_remaining?: number; // group event types only
+}
+
+/** A booked or blocked period for a host: an appointment or a Google busy time */
+export interface BusyPeriod {
+  start: number; // epoch ms
+  end: number;   // epoch ms
+}
+
+export interface SlotRules {
+  durationMinutes: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  minNoticeHours: number;
+}
+
+export interface SlotRange {
+  mode: "day" | "range";
+  dates: string[]; // YYYY-MM-DD, ascending
+}
+
+/** A month view spans at most 6 weeks; leave room for two partial months */
+export const MAX_RANGE_DAYS = 62;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isValidDate(dateStr: string): boolean {
+  if (!DATE_PATTERN.test(dateStr)) return false;
+  const parsed = new Date(dateStr + "T00:00:00Z");
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === dateStr;
+}
+
+export function addDaysToDateStr(dateStr: string, days: number): string {
+  return new Date(new Date(dateStr + "T00:00:00Z").getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Dates requested by the query string:
+ * - `date=YYYY-MM-DD` - a single day (the original response shape)
+ * - `month=YYYY-MM` - every day of that month
+ * - `start_date=YYYY-MM-DD&end_date=YYYY-MM-DD` - inclusive range
+ */
+export function parseSlotRange(params: URLSearchParams): { range: SlotRange } | { error: string } {
+  const date = params.get("date");
+  const month = params.get("month");
+  const startDate = params.get("start_date");
+  const endDate = params.get("end_date");
+
+  if (date) {
+    if (!isValidDate(date)) return { error: "date must be in YYYY-MM-DD format" };
+    return { range: { mode: "day", dates: [date] } };
+  }
+
+  let first: string;
+  let last: string;
+
+  if (month) {
+    if (!MONTH_PATTERN.test(month) || !isValidDate(`${month}-01`)) {
+      return { error: "month must be in YYYY-MM format" };
+    }
+    first = `${month}-01`;
+    const [year, monthIndex] = month.split("-").map(Number);
+    last = new Date(Date.UTC(year, monthIndex, 0)).toISOString().slice(0, 10);
+  } else if (startDate && endDate) {
+    if (!isValidDate(startDate) || !isValidDate(endDate)) {
+      return { error: "start_date and end_date must be in YYYY-MM-DD format" };
+    }
+    first = startDate;
+    last = endDate;
+  } else {
+    return { error: "date, month, or start_date and end_date are required" };
+  }
+
+  if (last < first) return { error: "end_date must not be before start_date" };
+
+  const dates: string[] = [];
+  for (let d = first; d <= last; d = addDaysToDateStr(d, 1)) {
+    dates.push(d);
+    if (dates.length > MAX_RANGE_DAYS) {
+      return { error: `Range cannot exceed ${MAX_RANGE_DAYS} days` };
+    }
+  }
+
+  return { range: { mode: "range", dates } };
+}
+
+/**
+ * Whether a slot starting at `slotStart` can be booked: far enough ahead
+ * (min notice) and clear of every busy period once buffers are added.
+ */
+export function isSlotOpen(
+  slotStart: Date,
+  busy: BusyPeriod[],
+  rules: SlotRules,
+  now: Date
+): boolean {
+  const startMs = slotStart.getTime();
+  const minNoticeMs = (rules.minNoticeHours || 1) * 60 * 60 * 1000;
+  if (startMs - now.getTime() < minNoticeMs) return false;
+
+  const effectiveStart = startMs - (rules.bufferBeforeMinutes || 0) * 60 * 1000;
+  const effectiveEnd =
+    startMs + rules.durationMinutes * 60 * 1000 + (rules.bufferAfterMinutes || 0) * 60 * 1000;
+
+  return !busy.some((period) => effectiveStart < period.end && effectiveEnd > period.start);
+}
+
+/** Dates (ascending) that have at least one open slot */
+export function getAvailableDates(days: Record<string, { slots: TimeSlot[] }>): string[] {
+  return Object.keys(days)
+    .filter((date) => days[date].slots.length > 0)
+    .sort();
+}
@@ -0,0 +1,226 @@
+// supabase/functions/get-available-slots/windows.ts
+// Availability windows → bookable UTC intervals.
+// Pure functions (no Deno/Supabase imports) so they can be unit tested.
+//
+// A host can have any number of windows per weekday (availability_schedules)
+// and per date (availability_overrides). Windows are in the host's timezone;
+// they are converted to UTC for the requested date and merged, so overlapping
+// or back-to-back windows become one interval and slots can span the seam.
+
+export interface AvailabilityWindow {
+  start: string; // HH:mm (or HH:mm:ss as returned by Postgres TIME)
+  end: string;   // HH:mm
+}
+
+export interface ScheduleRow {
+  user_id: string | null;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  is_available: boolean | null;
+  timezone?: string | null;
+}
+
+export interface OverrideRow {
+  user_id: string | null;
+  date: string;
+  start_time: string | null;
+  end_time: string | null;
+  is_available: boolean | null;
+}
+
+export interface UtcInterval {
+  start: number; // epoch ms
+  end: number;   // epoch ms
+}
+
+export type DayAvailabilitySource = "override" | "schedule" | "default" | "none";
+
+export interface DayAvailability {
+  windows: AvailabilityWindow[];
+  timezone: string | null;
+  source: DayAvailabilitySource;
+}
+
+/** Used for weekdays when a host has no schedule rows at all */
+export const DEFAULT_WINDOWS: AvailabilityWindow[] = [{ start: "09:00", end: "17:00" }];
+
+export const SLOT_INTERVAL_MINUTES = 15;
+
+/** "09:30" / "09:30:00" → 570. "24:00" is allowed as an end of day. */
+export function parseTimeToMinutes(value: string | null | undefined): number | null {
+  const match = typeof value === "string" ? value.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/) : null;
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+function isValidWindow(start: string | null, end: string | null): boolean {
+  const startMinutes = parseTimeToMinutes(start);
+  const endMinutes = parseTimeToMinutes(end);
+  return startMinutes !== null && endMinutes !== null && endMinutes > startMinutes;
+}
+
+/**
+ * Windows for one host (or the team) on one date.
+ *
+ * Overrides for the date replace the weekly schedule: any unavailable override
+ * row blocks the whole day, otherwise the available rows are the windows.
+ * Without overrides the available schedule rows for the weekday apply; with no
+ * schedule rows at all, weekdays fall back to DEFAULT_WINDOWS.
+ *
+ * `schedules` may hold every weekday's rows - the timezone is taken from them
+ * even when the day itself is off or overridden.
+ */
+export function resolveDayWindows(
+  schedules: ScheduleRow[],
+  overrides: OverrideRow[],
+  dayOfWeek: number
+): DayAvailability {
+  const dayRows = schedules.filter((s) => s.day_of_week === dayOfWeek);
+  const timezone =
+    dayRows.find((s) => s.timezone)?.timezone ||
+    schedules.find((s) => s.timezone)?.timezone ||
+    null;
+
+  if (overrides.length > 0) {
+    if (overrides.some((o) => o.is_available === false || o.is_available === null)) {
+      return { windows: [], timezone, source: "override" };
+    }
+    const windows = overrides
+      .filter((o) => isValidWindow(o.start_time, o.end_time))
+      .map((o) => ({ start: o.start_time as string, end: o.end_time as string }));
+    return { windows, timezone, source: "override" };
+  }
+
+  if (dayRows.length > 0) {
+    const windows = dayRows
+      .filter((s) => s.is_available !== false && isValidWindow(s.start_time, s.end_time))
+      .map((s) => ({ start: s.start_time, end: s.end_time }));
+    return { windows, timezone, source: "schedule" };
+  }
+
+  if (schedules.length === 0 && dayOfWeek >= 1 && dayOfWeek <= 5) {
+    return { windows: DEFAULT_WINDOWS, timezone, source: "default" };
+  }
+
+  return { windows: [], timezone, source: "none" };
+}
+
+/** How far `timezone` is behind UTC at `instant`, in ms */
+function timezoneOffsetMs(instant: Date, timezone: string): number {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  });
+
+  const parts = formatter.formatToParts(instant);
+  const getPart = (type: string) =>
+    parseInt(parts.find((p) => p.type === type)?.value || "0", 10);
+
+  const localInTz = Date.UTC(
+    getPart("year"),
+    getPart("month") - 1,
+    getPart("day"),
+    getPart("hour") === 24 ? 0 : getPart("hour"),
+    getPart("minute"),
+    getPart("second")
+  );
+
+  return instant.getTime() - localInTz;
+}
+
+/**
+ * Convert a local datetime string (YYYY-MM-DDTHH:mm:ss) in a given timezone to UTC.
+ */
+export function convertToUTC(localDateStr: string, timezone: string): Date | null {
+  try {
+    // Parse the local time components
+    const [datePart, timePart] = localDateStr.split("T");
+    const [year, month, day] = datePart.split("-").map(Number);
+    const [hour, minute, second] = (timePart || "00:00:00").split(":").map(Number);
+
+    // Read the local time as if it were UTC, then shift by the zone's offset
+    const guess = new Date(Date.UTC(year, month - 1, day, hour, minute, second || 0));
+    const firstPass = new Date(guess.getTime() + timezoneOffsetMs(guess, timezone));
+
+    // The offset at the guess can be on the other side of a DST change from the
+    // real instant (e.g. 05:00 on a spring-forward day), so take it again there
+    return new Date(guess.getTime() + timezoneOffsetMs(firstPass, timezone));
+  } catch {
+    return null;
+  }
+}
+
+function toLocalDateTime(dateStr: string, minutes: number): string {
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${dateStr}T${hh}:${mm}:00`;
+}
+
+/**
+ * Place each window on `dateStr` in `timezone` and return it as a UTC interval.
+ * Start and end are converted separately, so a window crossing a DST change
+ * keeps its wall-clock bounds.
+ */
+export function windowsToUtcIntervals(
+  dateStr: string,
+  windows: AvailabilityWindow[],
+  timezone: string
+): UtcInterval[] {
+  const intervals: UtcInterval[] = [];
+  for (const window of windows) {
+    const startMinutes = parseTimeToMinutes(window.start);
+    const endMinutes = parseTimeToMinutes(window.end);
+    if (startMinutes === null || endMinutes === null || endMinutes <= startMinutes) continue;
+
+    const start = convertToUTC(toLocalDateTime(dateStr, startMinutes), timezone);
+    const end = convertToUTC(toLocalDateTime(dateStr, endMinutes), timezone);
+    if (!start || !end || end.getTime() <= start.getTime()) continue;
+
+    intervals.push({ start: start.getTime(), end: end.getTime() });
+  }
+  return intervals;
+}
+
+/** Sort and merge overlapping or touching intervals */
+export function mergeIntervals(intervals: UtcInterval[]): UtcInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: UtcInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/** Slot start times (UTC) that fit entirely inside one of the intervals */
+export function generateSlotStarts(
+  intervals: UtcInterval[],
+  durationMinutes: number,
+  stepMinutes: number = SLOT_INTERVAL_MINUTES
+): Date[] {
+  const durationMs = durationMinutes * 60 * 1000;
+  const stepMs = stepMinutes * 60 * 1000;
+  const starts: Date[] = [];
+  if (durationMs <= 0 || stepMs <= 0) return starts;
+
+  for (const interval of mergeIntervals(intervals)) {
+    for (let start = interval.start; start + durationMs <= interval.end; start += stepMs) {
+      starts.push(new Date(start));
+    }
+  }
+  return starts;
+}
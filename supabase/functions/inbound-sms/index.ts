@@ -1,12 +1,35 @@
 // supabase/functions/inbound-sms/index.ts
 // Handles inbound SMS/WhatsApp messages from Twilio.
-// Logs the message and fires the customer_replied trigger.
+// Logs the message and fires the customer_replied trigger. Opt-out keywords
+// (STOP / START / HELP) are handled here instead: consent is recorded in the
+// ledger, the contact's DND follows it and Twilio sends the auto-reply.
+// Requests must carry a valid X-Twilio-Signature (refused outright while
+// TWILIO_AUTH_TOKEN is unset, unless ALLOW_UNSIGNED_WEBHOOKS=true), and a
+// MessageSid that was already logged is acknowledged without reprocessing.
 
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildTwimlResponse,
+  detectKeyword,
+  getAutoReply,
+  getConsentStatusForAction,
+  getKeywordSettings,
+  isOptedOut,
+  recordConsentEvent,
+  type ConsentChannel,
+  type KeywordMatch,
+} from "../_shared/messaging-consent.ts";
+import {
+  ALLOW_UNSIGNED_WEBHOOKS_ENV,
+  buildPublicFunctionUrl,
+  recordWebhookRejection,
+  verifyTwilioSignature,
+  verifyWithoutSecret,
+} from "../_shared/webhook-signature.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-twilio-signature",
 };
 
 function getSupabaseClient() {
@@ -15,6 +38,53 @@ function getSupabaseClient() {
   return createClient(supabaseUrl, supabaseServiceKey);
 }
 
+/**
+ * Record a STOP / START in the consent ledger and bring the contact's dnd_sms in
+ * line. dnd_sms covers SMS and WhatsApp, so it only clears once neither channel
+ * is opted out.
+ */
+async function applyConsentKeyword(
+  supabase: SupabaseClient,
+  params: {
+    teamId: string;
+    channel: ConsentChannel;
+    senderPhone: string;
+    contact: { id: string; dnd_sms?: boolean | null } | null;
+    match: KeywordMatch;
+    body: string;
+    messageSid: string;
+  },
+) {
+  const status = getConsentStatusForAction(params.match.action);
+  if (!status) return;
+
+  await recordConsentEvent(supabase, {
+    team_id: params.teamId,
+    contact_id: params.contact?.id || null,
+    channel: params.channel,
+    address: params.senderPhone,
+    status,
+    source: "inbound_keyword",
+    keyword: params.match.keyword,
+    raw_message: params.body,
+    provider_message_id: params.messageSid || null,
+  });
+
+  if (!params.contact) return;
+
+  const otherChannel: ConsentChannel = params.channel === "sms" ? "whatsapp" : "sms";
+  const dnd = status === "opted_out" ||
+    await isOptedOut(supabase, params.teamId, otherChannel, params.senderPhone);
+
+  if (params.contact.dnd_sms !== dnd) {
+    const { error } = await supabase
+      .from("contacts")
+      .update({ dnd_sms: dnd })
+      .eq("id", params.contact.id);
+    if (error) throw new Error(`Failed to update contact DND: ${error.message}`);
+  }
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -24,7 +94,36 @@ Deno.serve(async (req) => {
 
   try {
     // Twilio sends inbound messages as URL-encoded form data
-    const formData = await req.formData();
+    const formData = new URLSearchParams(await req.text());
+
+    // Without TWILIO_AUTH_TOKEN nothing can be verified, so requests are refused
+    // unless unsigned webhooks were explicitly allowed
+    const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+    const verification = authToken
+      ? await verifyTwilioSignature(
+        authToken,
+        buildPublicFunctionUrl(Deno.env.get("SUPABASE_URL")!, "inbound-sms", req.url),
+        formData,
+        req.headers.get("x-twilio-signature"),
+      )
+      : verifyWithoutSecret(Deno.env.get(ALLOW_UNSIGNED_WEBHOOKS_ENV));
+    if (!verification.ok) {
+      console.error("[inbound-sms] Rejected request:", verification.reason);
+      await recordWebhookRejection(supabase, {
+        source: "inbound-sms",
+        provider: "twilio",
+        reason: verification.reason,
+        details: { messageSid: formData.get("MessageSid") },
+      });
+      return new Response(
+        buildTwimlResponse(),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "text/xml" } },
+      );
+    }
+    if (!authToken) {
+      console.warn(`[inbound-sms] TWILIO_AUTH_TOKEN not set, accepting unsigned request (${ALLOW_UNSIGNED_WEBHOOKS_ENV}=true)`);
+    }
+
     const messageSid = formData.get("MessageSid") as string;
     const from = formData.get("From") as string;
     const to = formData.get("To") as string;
@@ -37,7 +136,7 @@ Deno.serve(async (req) => {
     if (!from || !to) {
       console.error("[inbound-sms] Missing required fields");
       return new Response(
-        '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
+        buildTwimlResponse(),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "text/xml" } },
       );
     }
@@ -88,17 +187,37 @@ Deno.serve(async (req) => {
       console.warn("[inbound-sms] No team found for phone:", recipientPhone);
       // Return empty TwiML response
       return new Response(
-        '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
+        buildTwimlResponse(),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "text/xml" } },
       );
     }
 
+    // Twilio signatures carry no timestamp, so a replayed request is caught by its MessageSid
+    if (messageSid) {
+      const { data: alreadyLogged } = await supabase
+        .from("message_logs")
+        .select("id")
+        .eq("team_id", teamId)
+        .eq("direction", "inbound")
+        .eq("provider_message_id", messageSid)
+        .limit(1)
+        .maybeSingle();
+
+      if (alreadyLogged) {
+        console.log("[inbound-sms] Duplicate MessageSid, already processed:", messageSid);
+        return new Response(
+          buildTwimlResponse(),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "text/xml" } },
+        );
+      }
+    }
+
     // Find contact by sender phone number
     let leadContext: Record<string, any> = { phone: senderPhone };
 
     const { data: contact } = await supabase
       .from("contacts")
-      .select("id, name, first_name, last_name, email, phone, tags, custom_fields, owner_user_id")
+      .select("id, name, first_name, last_name, email, phone, tags, custom_fields, owner_user_id, dnd_sms")
       .eq("team_id", teamId)
       .eq("phone", senderPhone)
       .maybeSingle();
@@ -124,10 +243,14 @@ Deno.serve(async (req) => {
       if (mediaUrl) mediaUrls.push(mediaUrl);
     }
 
+    const keywordSettings = await getKeywordSettings(supabase, teamId);
+    const keyword = detectKeyword(body, keywordSettings);
+
     // Log the inbound message
     try {
       await supabase.from("message_logs").insert({
         team_id: teamId,
+        contact_id: contact?.id || null,
         channel,
         provider: isWhatsApp ? "twilio_whatsapp" : "twilio",
         direction: "inbound",
@@ -141,6 +264,7 @@ Deno.serve(async (req) => {
           fromCity,
           fromState,
           fromCountry,
+          keyword: keyword ? { action: keyword.action, keyword: keyword.keyword, language: keyword.language } : null,
         },
         status: "received",
         delivery_status: "delivered",
@@ -151,6 +275,48 @@ Deno.serve(async (req) => {
       console.error("[inbound-sms] Failed to log inbound message:", logErr);
     }
 
+    // Keywords are compliance commands, not replies - no customer_replied trigger
+    if (keyword) {
+      try {
+        await applyConsentKeyword(supabase, {
+          teamId,
+          channel,
+          senderPhone,
+          contact,
+          match: keyword,
+          body: body || "",
+          messageSid,
+        });
+        console.log(`[inbound-sms] ${keyword.action.toUpperCase()} keyword "${keyword.keyword}" from ${senderPhone} on ${channel}`);
+      } catch (consentErr) {
+        console.error("[inbound-sms] Failed to apply consent keyword:", consentErr);
+      }
+
+      const reply = getAutoReply(keyword, keywordSettings);
+      if (reply) {
+        try {
+          await supabase.from("message_logs").insert({
+            team_id: teamId,
+            channel,
+            contact_id: contact?.id || null,
+            provider: "twilio_twiml",
+            direction: "outbound",
+            to_address: senderPhone,
+            from_address: recipientPhone,
+            payload: { body: reply, keywordReply: keyword.action, inReplyTo: messageSid },
+            status: "sent",
+          });
+        } catch (logErr) {
+          console.error("[inbound-sms] Failed to log keyword auto-reply:", logErr);
+        }
+      }
+
+      return new Response(
+        buildTwimlResponse(reply),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "text/xml" } },
+      );
+    }
+
     // Fire customer_replied automation trigger
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -185,14 +351,14 @@ Deno.serve(async (req) => {
 
     // Return empty TwiML response (no auto-reply)
     return new Response(
-      '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
+      buildTwimlResponse(),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "text/xml" } },
     );
   } catch (error) {
     console.error("[inbound-sms] Error:", error);
     // Return empty TwiML to prevent Twilio errors
     return new Response(
-      '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
+      buildTwimlResponse(),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "text/xml" } },
     );
   }
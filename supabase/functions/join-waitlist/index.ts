@@ -0,0 +1,147 @@
+// supabase/functions/join-waitlist/index.ts
+// Public endpoint: adds an invitee to an event type's waitlist, for one date
+// (preferred_date, YYYY-MM-DD in their timezone) or for the first opening.
+// Freed slots are offered by cancel-booking / reschedule-booking via offerFreedSlot.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { fireWaitlistTrigger, OPEN_WAITLIST_STATUSES } from "../_shared/booking-waitlist.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const { event_type_id, name, email, phone, timezone, preferred_date } = body;
+
+    if (!event_type_id || !name || !email) {
+      return new Response(
+        JSON.stringify({ error: "event_type_id, name, and email are required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (preferred_date && (!DATE_PATTERN.test(preferred_date) || isNaN(Date.parse(preferred_date)))) {
+      return new Response(
+        JSON.stringify({ error: "preferred_date must be YYYY-MM-DD" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. Load event type
+    const { data: eventType, error: etError } = await supabase
+      .from("event_types")
+      .select("id, team_id, name, is_active, waitlist_enabled")
+      .eq("id", event_type_id)
+      .eq("is_active", true)
+      .single();
+
+    if (etError || !eventType) {
+      return new Response(
+        JSON.stringify({ error: "Event type not found or inactive" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!eventType.waitlist_enabled) {
+      return new Response(
+        JSON.stringify({ error: "This event type doesn't have a waitlist" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const entryEmail = email.trim().toLowerCase();
+    const entryTimezone = timezone || "America/New_York";
+    if (preferred_date) {
+      const today = new Intl.DateTimeFormat("en-CA", { timeZone: entryTimezone }).format(new Date());
+      if (preferred_date < today) {
+        return new Response(
+          JSON.stringify({ error: "That date has already passed" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // 2. Already waiting for the same date? Return the existing entry
+    let existingQuery = supabase
+      .from("booking_waitlist")
+      .select("id, created_at")
+      .eq("event_type_id", event_type_id)
+      .eq("email", entryEmail)
+      .in("status", OPEN_WAITLIST_STATUSES);
+    existingQuery = preferred_date
+      ? existingQuery.eq("preferred_date", preferred_date)
+      : existingQuery.is("preferred_date", null);
+
+    const { data: existing } = await existingQuery.maybeSingle();
+
+    let entry = existing;
+    if (!entry) {
+      // 3. Insert the entry
+      const { data: inserted, error: insertError } = await supabase
+        .from("booking_waitlist")
+        .insert({
+          team_id: eventType.team_id,
+          event_type_id,
+          name: name.trim(),
+          email: entryEmail,
+          phone: phone || null,
+          timezone: entryTimezone,
+          preferred_date: preferred_date || null,
+        })
+        .select()
+        .single();
+
+      if (insertError || !inserted) {
+        console.error("[join-waitlist] Insert error:", insertError);
+        return new Response(
+          JSON.stringify({ error: "Failed to join the waitlist" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      entry = inserted;
+      await fireWaitlistTrigger(supabase, eventType.team_id, "joined", inserted);
+    }
+
+    // 4. Place in line among everyone still waiting for this event type
+    const { count: ahead } = await supabase
+      .from("booking_waitlist")
+      .select("id", { count: "exact", head: true })
+      .eq("event_type_id", event_type_id)
+      .eq("status", "waiting")
+      .lt("created_at", entry.created_at);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        waitlist_id: entry.id,
+        position: (ahead || 0) + 1,
+        already_joined: !!existing,
+      }),
+      { status: existing ? 200 : 201, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[join-waitlist] Error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: "Internal server error", details: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
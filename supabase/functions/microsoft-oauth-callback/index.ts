@@ -0,0 +1,169 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  exchangeMicrosoftCode,
+  fetchMicrosoftProfile,
+  getTokenExpiresAt,
+  microsoftConfigFromEnv,
+} from "../_shared/microsoft-graph.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function buildRedirectUrl(baseUrl: string, params: Record<string, string>): string {
+  const url = new URL(baseUrl);
+  Object.entries(params).forEach(([key, value]) => {
+    url.searchParams.set(key, value);
+  });
+  return url.toString();
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  const code = url.searchParams.get("code");
+  const stateParam = url.searchParams.get("state");
+  const error = url.searchParams.get("error");
+
+  // Default redirect for errors
+  const siteUrl = Deno.env.get("SITE_URL") || "https://usestackit.co";
+  const callbackPage = `${siteUrl}/microsoft-callback.html`;
+
+  // Handle OAuth errors from Microsoft (e.g. consent declined)
+  if (error) {
+    console.error("[Microsoft OAuth Callback] Error from Microsoft:", error, url.searchParams.get("error_description"));
+    return Response.redirect(
+      buildRedirectUrl(callbackPage, { success: "false", error: error }),
+      302
+    );
+  }
+
+  if (!code || !stateParam) {
+    console.error("[Microsoft OAuth Callback] Missing code or state");
+    return Response.redirect(
+      buildRedirectUrl(callbackPage, { success: "false", error: "missing_params" }),
+      302
+    );
+  }
+
+  try {
+    // Decode and parse state
+    let state: { teamId: string; userId: string; stateToken: string };
+    try {
+      state = JSON.parse(atob(stateParam));
+    } catch (e) {
+      console.error("[Microsoft OAuth Callback] Failed to parse state:", e);
+      return Response.redirect(
+        buildRedirectUrl(callbackPage, { success: "false", error: "invalid_state" }),
+        302
+      );
+    }
+
+    const { teamId, userId, stateToken } = state;
+    const supabase = getSupabaseClient();
+
+    const { data: connection, error: fetchError } = await supabase
+      .from("microsoft_calendar_connections")
+      .select("id, oauth_state, refresh_token")
+      .eq("team_id", teamId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (fetchError || !connection) {
+      console.error("[Microsoft OAuth Callback] Connection not found:", fetchError);
+      return Response.redirect(
+        buildRedirectUrl(callbackPage, { success: "false", error: "state_not_found" }),
+        302
+      );
+    }
+
+    if (!stateToken || connection.oauth_state !== stateToken) {
+      console.error("[Microsoft OAuth Callback] State token mismatch");
+      return Response.redirect(
+        buildRedirectUrl(callbackPage, { success: "false", error: "state_mismatch" }),
+        302
+      );
+    }
+
+    // Exchange code for tokens
+    const config = microsoftConfigFromEnv((key) => Deno.env.get(key));
+    const redirectUri = `${Deno.env.get("SUPABASE_URL")}/functions/v1/microsoft-oauth-callback`;
+
+    if (!config.clientId || !config.clientSecret) {
+      console.error("[Microsoft OAuth Callback] Missing OAuth credentials");
+      return Response.redirect(
+        buildRedirectUrl(callbackPage, { success: "false", error: "config_error" }),
+        302
+      );
+    }
+
+    const tokens = await exchangeMicrosoftCode(config, code, redirectUri);
+    if (!tokens) {
+      return Response.redirect(
+        buildRedirectUrl(callbackPage, { success: "false", error: "token_exchange_failed" }),
+        302
+      );
+    }
+
+    console.log("[Microsoft OAuth Callback] Token exchange successful, expires_in:", tokens.expires_in);
+
+    // The mailbox address is needed for free/busy lookups
+    const profile = await fetchMicrosoftProfile(config, tokens.access_token);
+    if (!profile?.email) {
+      console.error("[Microsoft OAuth Callback] Could not read the connected account");
+      return Response.redirect(
+        buildRedirectUrl(callbackPage, { success: "false", error: "profile_failed" }),
+        302
+      );
+    }
+
+    console.log("[Microsoft OAuth Callback] Connected account:", profile.email);
+
+    const { error: updateError } = await supabase
+      .from("microsoft_calendar_connections")
+      .update({
+        email: profile.email,
+        access_token: tokens.access_token,
+        refresh_token: tokens.refresh_token || connection.refresh_token || null,
+        token_expires_at: getTokenExpiresAt(tokens.expires_in),
+        sync_enabled: true,
+        oauth_state: null,
+        connected_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", connection.id);
+
+    if (updateError) {
+      console.error("[Microsoft OAuth Callback] Failed to store tokens:", updateError);
+      return Response.redirect(
+        buildRedirectUrl(callbackPage, { success: "false", error: "storage_failed" }),
+        302
+      );
+    }
+
+    console.log(`[Microsoft OAuth Callback] Successfully connected Outlook calendar for user ${userId} in team ${teamId}`);
+
+    return Response.redirect(
+      buildRedirectUrl(callbackPage, { success: "true", email: profile.email }),
+      302
+    );
+
+  } catch (error) {
+    console.error("[Microsoft OAuth Callback] Unexpected error:", error);
+    return Response.redirect(
+      buildRedirectUrl(callbackPage, { success: "false", error: "unexpected_error" }),
+      302
+    );
+  }
+});
@@ -0,0 +1,126 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildMicrosoftAuthUrl, microsoftConfigFromEnv } from "../_shared/microsoft-graph.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function getSupabaseClient() {
+  return createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Verify the user's JWT
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = getSupabaseClient();
+
+    // Get user from JWT
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+
+    if (userError || !userData.user) {
+      console.error("[Microsoft OAuth Start] User verification failed:", userError);
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userId = userData.user.id;
+
+    // Parse request body
+    const { teamId } = await req.json();
+
+    if (!teamId) {
+      return new Response(
+        JSON.stringify({ error: "Missing teamId" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`[Microsoft OAuth Start] User ${userId} initiating Outlook calendar OAuth for team ${teamId}`);
+
+    // Verify user is a member of the team
+    const { data: membership, error: membershipError } = await supabase
+      .from("team_members")
+      .select("role")
+      .eq("team_id", teamId)
+      .eq("user_id", userId)
+      .single();
+
+    if (membershipError || !membership) {
+      console.error("[Microsoft OAuth Start] User not a team member:", membershipError);
+      return new Response(
+        JSON.stringify({ error: "Not a team member" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const config = microsoftConfigFromEnv((key) => Deno.env.get(key));
+    if (!config.clientId) {
+      console.error("[Microsoft OAuth Start] Missing MICROSOFT_CLIENT_ID");
+      return new Response(
+        JSON.stringify({ error: "Microsoft integration not configured" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Generate state token for CSRF protection. Connections are per user, so the
+    // state lives on the user's own connection row (an existing connection keeps syncing)
+    const stateToken = crypto.randomUUID();
+
+    const { error: upsertError } = await supabase
+      .from("microsoft_calendar_connections")
+      .upsert({
+        team_id: teamId,
+        user_id: userId,
+        oauth_state: stateToken,
+        updated_at: new Date().toISOString(),
+      }, {
+        onConflict: "team_id,user_id",
+      });
+
+    if (upsertError) {
+      console.error("[Microsoft OAuth Start] Failed to store state:", upsertError);
+      return new Response(
+        JSON.stringify({ error: "Failed to initialize OAuth" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const callbackUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/microsoft-oauth-callback`;
+    const state = btoa(JSON.stringify({ teamId, userId, stateToken }));
+    const authUrl = buildMicrosoftAuthUrl(config, callbackUrl, state);
+
+    console.log(`[Microsoft OAuth Start] Generated auth URL for user ${userId}`);
+
+    return new Response(
+      JSON.stringify({ authUrl }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("[Microsoft OAuth Start] Unexpected error:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,123 @@
+// supabase/functions/process-scheduled-jobs/abandonment.ts
+// funnel_abandoned trigger policy: when a partial lead counts as abandoned, and
+// the context its recovery automation runs with. Firing is claimed per
+// (automation, lead) in funnel_abandonment_fires; submit-funnel-lead cancels it.
+
+export const DEFAULT_ABANDON_IDLE_MINUTES = 30;
+export const MIN_ABANDON_IDLE_MINUTES = 5;
+
+/** Leads idle for longer than this past the threshold are not picked up (no backfill of old partials) */
+export const ABANDONMENT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/** Partial leads checked per automation per tick */
+export const ABANDONMENT_BATCH_SIZE = 100;
+
+export interface FunnelAbandonedConfig {
+  funnelId?: string;
+  idleMinutes?: number;
+}
+
+export interface PartialFunnelLead {
+  id: string;
+  funnel_id: string;
+  team_id: string;
+  answers: Record<string, unknown> | null;
+  email: string | null;
+  phone: string | null;
+  name: string | null;
+  last_step_index: number | null;
+  last_activity_at: string;
+  utm_source?: string | null;
+  utm_medium?: string | null;
+  utm_campaign?: string | null;
+}
+
+export interface AbandonedFunnel {
+  id: string;
+  name: string;
+  published_document_snapshot: Record<string, unknown> | null;
+}
+
+export function getIdleMinutes(config: FunnelAbandonedConfig | null | undefined): number {
+  const minutes = Number(config?.idleMinutes);
+  if (!Number.isFinite(minutes) || minutes <= 0) return DEFAULT_ABANDON_IDLE_MINUTES;
+  return Math.max(MIN_ABANDON_IDLE_MINUTES, Math.round(minutes));
+}
+
+/**
+ * Last-activity range that counts as abandoned right now: idle for at least
+ * the configured time, but not from before the automation existed or beyond
+ * the lookback window.
+ */
+export function getAbandonmentWindow(
+  config: FunnelAbandonedConfig | null | undefined,
+  now: Date,
+  automationCreatedAt: string,
+): { idleBefore: string; activeAfter: string } {
+  const idleBefore = now.getTime() - getIdleMinutes(config) * 60 * 1000;
+  const activeAfter = Math.max(idleBefore - ABANDONMENT_LOOKBACK_MS, new Date(automationCreatedAt).getTime());
+  return {
+    idleBefore: new Date(idleBefore).toISOString(),
+    activeAfter: new Date(activeAfter).toISOString(),
+  };
+}
+
+/** Steps of a published funnel, in order: `pages` for builder v3/v2 documents, `steps` for flow canvas */
+function publishedSteps(snapshot: Record<string, unknown> | null): Array<{ id?: string; name?: string }> {
+  const pages = snapshot?.pages;
+  if (Array.isArray(pages)) return pages;
+  const steps = snapshot?.steps;
+  if (Array.isArray(steps)) return steps;
+  return [];
+}
+
+/** meta for the funnel_abandoned context: partial answers, last step reached and progress */
+export function buildAbandonmentMeta(
+  lead: PartialFunnelLead,
+  funnel: AbandonedFunnel,
+  idleMinutes: number,
+  now: Date,
+): Record<string, unknown> {
+  const steps = publishedSteps(funnel.published_document_snapshot);
+  const lastStepIndex = Math.max(0, lead.last_step_index ?? 0);
+  const lastStep = steps[lastStepIndex];
+  const totalSteps = steps.length;
+
+  return {
+    funnelId: funnel.id,
+    funnelName: funnel.name,
+    funnelLeadId: lead.id,
+    answers: lead.answers ?? {},
+    lastStepIndex,
+    lastStepId: lastStep?.id ?? null,
+    lastStepName: lastStep?.name ?? null,
+    stepsCompleted: lastStepIndex,
+    totalSteps,
+    progressPercent: totalSteps > 0 ? Math.round((lastStepIndex / totalSteps) * 100) : 0,
+    idleMinutes,
+    lastActivityAt: lead.last_activity_at,
+    abandonedAt: now.toISOString(),
+    utmSource: lead.utm_source ?? null,
+    utmMedium: lead.utm_medium ?? null,
+    utmCampaign: lead.utm_campaign ?? null,
+  };
+}
+
+/**
+ * The `lead` the automation sees: the linked contact when there is one (so
+ * enrollment and contact actions work), otherwise what the visitor typed.
+ */
+export function buildAbandonedLead(
+  lead: PartialFunnelLead,
+  contact: Record<string, unknown> | null,
+): Record<string, unknown> {
+  if (contact) return contact;
+  const [firstName, ...rest] = (lead.name || "").trim().split(/\s+/).filter(Boolean);
+  return {
+    name: lead.name,
+    first_name: firstName ?? null,
+    last_name: rest.length > 0 ? rest.join(" ") : null,
+    email: lead.email,
+    phone: lead.phone,
+  };
+}
@@ -1,21 +1,105 @@
 // supabase/functions/process-scheduled-jobs/index.ts
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildCronExpression,
+  getLatestDueCronSlot,
+  isValidTimezone,
+  DEFAULT_SCHEDULE_TIMEZONE,
+  type ScheduleConfig,
+} from "../_shared/cron.ts";
+import {
+  decideJobFailure,
+  JOB_CLAIM_BATCH_SIZE,
+  JOB_LEASE_SECONDS,
+  SCHEDULED_TRIGGER_CATCHUP_MS,
+  type QueueJob,
+} from "./queue.ts";
+import {
+  ABANDONMENT_BATCH_SIZE,
+  buildAbandonedLead,
+  buildAbandonmentMeta,
+  getAbandonmentWindow,
+  getIdleMinutes,
+  type AbandonedFunnel,
+  type FunnelAbandonedConfig,
+  type PartialFunnelLead,
+} from "./abandonment.ts";
+import {
+  SEGMENT_JOBS_PER_TICK,
+  SEGMENT_JOB_LEASE_SECONDS,
+  SEGMENT_MAX_SCAN_PER_REQUEST,
+  applySegmentTagAction,
+  getSegmentJobPageSize,
+  loadSegmentEngineOptions,
+  normalizeSegment,
+  scanSegment,
+  type SegmentAction,
+  type SegmentActionType,
+  type SegmentContact,
+  type SegmentDefinition,
+} from "../_shared/contact-segments.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface ScheduledJob {
+interface JobResult {
+  jobId: string;
+  status: "completed" | "cancelled" | "retrying" | "dead_letter" | "lease_lost";
+  attempt?: number;
+  error?: string;
+}
+
+interface TriggerFireResult {
+  automationId: string;
+  scheduledFor: string;
+  status: "fired" | "failed";
+  error?: string;
+}
+
+interface AbandonmentFireResult {
+  automationId: string;
+  funnelLeadId: string;
+  status: "fired" | "failed";
+  error?: string;
+}
+
+interface SegmentJobResult {
+  jobId: string;
+  status: "advanced" | "completed" | "failed" | "lease_lost";
+  applied?: number;
+  error?: string;
+}
+
+/** Automation graph as stored in automations.definition and workflow_versions.definition_json */
+interface StoredDefinition {
+  trigger?: { type?: string; config?: Record<string, unknown> };
+  steps?: { id: string }[];
+}
+
+/** contact_segment_jobs row; the segment and action were snapshotted when queued */
+interface SegmentJobRow {
   id: string;
   team_id: string;
-  automation_id: string;
-  run_id: string | null;
-  step_id: string | null;
-  resume_at: string;
-  status: string;
-  context_snapshot: Record<string, any>;
-  error_message: string | null;
+  segment_id: string | null;
+  segment_snapshot: Record<string, unknown>;
+  action_type: SegmentActionType;
+  action_config: Omit<SegmentAction, "type">;
+  status: "pending" | "running" | "completed" | "failed" | "cancelled";
+  cursor: string | null;
+  scanned_count: number;
+  matched_count: number;
+  applied_count: number;
+  skipped_count: number;
+  failed_count: number;
+  started_at: string | null;
+}
+
+interface AutomationRow {
+  id: string;
+  current_version_id: string | null;
+  definition: StoredDefinition | null;
 }
 
 function getSupabaseClient() {
@@ -24,165 +108,688 @@ function getSupabaseClient() {
   return createClient(supabaseUrl, supabaseServiceKey);
 }
 
+async function invokeAutomationTrigger(body: Record<string, unknown>): Promise<{ automationsRun?: unknown[] }> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/automation-trigger`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${supabaseServiceKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Trigger failed: HTTP ${response.status}`);
+  }
+  return await response.json().catch(() => ({}));
+}
+
+/** Published version definition when there is one, otherwise the draft */
+async function loadDefinition(supabase: SupabaseClient, automation: AutomationRow): Promise<StoredDefinition> {
+  if (automation.current_version_id) {
+    const { data: version } = await supabase
+      .from("workflow_versions")
+      .select("definition_json")
+      .eq("id", automation.current_version_id)
+      .eq("is_active", true)
+      .maybeSingle();
+    if (version?.definition_json) return version.definition_json;
+  }
+  return automation.definition || {};
+}
+
+/** The version a job is pinned to; jobs queued before pinning use the published one */
+async function loadJobDefinition(
+  supabase: SupabaseClient,
+  automation: AutomationRow,
+  job: QueueJob,
+): Promise<StoredDefinition> {
+  if (job.workflow_version_id) {
+    const { data: version } = await supabase
+      .from("workflow_versions")
+      .select("definition_json")
+      .eq("id", job.workflow_version_id)
+      .maybeSingle();
+    if (version?.definition_json) return version.definition_json;
+    console.warn(`[process-scheduled-jobs] Pinned version ${job.workflow_version_id} missing for job ${job.id}`);
+  }
+  return loadDefinition(supabase, automation);
+}
+
+// --- Delayed step queue ---
+
 /**
- * Process scheduled automation jobs that are due
- * This function should be called via cron (e.g., every minute)
+ * Close the enrollment a job was holding open when the flow ends without going
+ * back through automation-trigger (nothing left to run, or the automation was turned off).
  */
-Deno.serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+async function settleEnrollment(
+  supabase: SupabaseClient,
+  job: QueueJob,
+  updates: Record<string, unknown>,
+): Promise<void> {
+  const contactId = job.context_snapshot?.lead?.id;
+  const appointmentId = job.context_snapshot?.appointment?.id;
+  if (!contactId && !appointmentId) return;
+
+  let query = supabase
+    .from("automation_enrollments")
+    .update(updates)
+    .eq("automation_id", job.automation_id)
+    .eq("status", "active");
+  if (contactId) query = query.eq("contact_id", contactId);
+  if (appointmentId) query = query.eq("appointment_id", appointmentId);
+
+  const { error } = await query;
+  if (error) {
+    console.error(`[process-scheduled-jobs] Failed to settle enrollment for job ${job.id}:`, error);
   }
+}
 
-  const supabase = getSupabaseClient();
+/**
+ * Settle a claimed job. Guarded by locked_by so a worker whose lease expired
+ * (and whose job was re-claimed elsewhere) can't overwrite the new owner's state.
+ */
+async function settleJob(
+  supabase: SupabaseClient,
+  job: QueueJob,
+  workerId: string,
+  updates: Record<string, unknown>,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("scheduled_automation_jobs")
+    .update({ ...updates, locked_by: null, locked_until: null })
+    .eq("id", job.id)
+    .eq("locked_by", workerId)
+    .select("id");
+
+  if (error) {
+    console.error(`[process-scheduled-jobs] Failed to settle job ${job.id}:`, error);
+    return false;
+  }
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Whether a funnel_abandoned recovery job's lead has since submitted the funnel.
+ * cancel_funnel_abandonment() marks the fire recovered before cancelling jobs,
+ * so this also catches a job claimed just before the lead submitted.
+ */
+async function isRecoveredAbandonment(supabase: SupabaseClient, job: QueueJob): Promise<boolean> {
+  const funnelLeadId = job.context_snapshot?.meta?.funnelLeadId;
+  if (!funnelLeadId) return false;
+
+  const { data, error } = await supabase
+    .from("funnel_abandonment_fires")
+    .select("status")
+    .eq("automation_id", job.automation_id)
+    .eq("funnel_lead_id", funnelLeadId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Abandonment check failed: ${error.message}`);
+  return data?.status === "recovered";
+}
+
+async function processJob(supabase: SupabaseClient, job: QueueJob, workerId: string): Promise<JobResult> {
   const now = new Date().toISOString();
 
   try {
-    // Fetch pending jobs that are due
-    const { data: jobs, error: fetchError } = await supabase
-      .from("scheduled_automation_jobs")
-      .select("*")
-      .eq("status", "pending")
-      .lte("resume_at", now)
-      .limit(50); // Process in batches
-
-    if (fetchError) {
-      console.error("[process-scheduled-jobs] Error fetching jobs:", fetchError);
-      return new Response(
-        JSON.stringify({ status: "error", error: fetchError.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    const { data: automation, error: autoError } = await supabase
+      .from("automations")
+      .select("id, is_active, trigger_type, current_version_id, definition")
+      .eq("id", job.automation_id)
+      .single();
+
+    if (autoError || !automation) {
+      throw new Error(`Automation not found: ${job.automation_id}`);
+    }
+
+    if (!automation.is_active) {
+      // Automation was deactivated, mark job as cancelled
+      const settled = await settleJob(supabase, job, workerId, {
+        status: "cancelled",
+        processed_at: now,
+        error_message: "Automation is no longer active",
+      });
+      if (!settled) return { jobId: job.id, status: "lease_lost" };
+      await settleEnrollment(supabase, job, {
+        status: "exited",
+        exited_at: now,
+        exit_reason: "Automation deactivated",
+      });
+      return { jobId: job.id, status: "cancelled", error: "Automation inactive" };
+    }
+
+    if (await isRecoveredAbandonment(supabase, job)) {
+      // Usually already cancelled (and our lease cleared) by cancel_funnel_abandonment()
+      await settleJob(supabase, job, workerId, {
+        status: "cancelled",
+        processed_at: now,
+        error_message: "Lead submitted the funnel",
+      });
+      return { jobId: job.id, status: "cancelled", error: "Lead submitted the funnel" };
+    }
+
+    // Get the remaining steps to execute
+    const definition = await loadJobDefinition(supabase, automation, job);
+    const allSteps = definition.steps || [];
+    const remainingStepIds = job.context_snapshot?.remainingSteps || [];
+    const remainingSteps = allSteps.filter((s) => remainingStepIds.includes(s.id));
+
+    if (remainingSteps.length > 0) {
+      // Continue this automation only. The eventId is per attempt so a retry
+      // after a failed call isn't swallowed by automation-trigger's idempotency check.
+      await invokeAutomationTrigger({
+        triggerType: automation.trigger_type,
+        teamId: job.team_id,
+        automationId: job.automation_id,
+        eventPayload: {
+          ...job.context_snapshot,
+          resumeFromStep: remainingSteps[0]?.id,
+          isScheduledResume: true,
+          workflowVersionId: job.workflow_version_id,
+        },
+        eventId: `scheduled:${job.id}:attempt-${job.attempts}`,
+      });
+    } else {
+      // The delay was the last step: the flow is done
+      await settleEnrollment(supabase, job, { status: "completed", completed_at: now });
+    }
+
+    const settled = await settleJob(supabase, job, workerId, {
+      status: "completed",
+      processed_at: now,
+      error_message: null,
+    });
+    return { jobId: job.id, status: settled ? "completed" : "lease_lost", attempt: job.attempts };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    const decision = decideJobFailure(job);
+
+    if (decision.status === "dead_letter") {
+      console.error(
+        `[process-scheduled-jobs] Job ${job.id} dead-lettered after ${job.attempts} attempts:`,
+        errorMessage,
       );
+      await settleJob(supabase, job, workerId, {
+        status: "dead_letter",
+        dead_lettered_at: now,
+        processed_at: now,
+        error_message: errorMessage,
+      });
+      return { jobId: job.id, status: "dead_letter", attempt: job.attempts, error: errorMessage };
     }
 
-    if (!jobs || jobs.length === 0) {
-      return new Response(
-        JSON.stringify({ status: "ok", processed: 0, message: "No pending jobs" }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    console.warn(
+      `[process-scheduled-jobs] Job ${job.id} attempt ${job.attempts}/${job.max_attempts} failed, retrying at ${decision.resumeAt}:`,
+      errorMessage,
+    );
+    await settleJob(supabase, job, workerId, {
+      status: "pending",
+      resume_at: decision.resumeAt,
+      error_message: errorMessage,
+    });
+    return { jobId: job.id, status: "retrying", attempt: job.attempts, error: errorMessage };
+  }
+}
+
+async function processDueJobs(supabase: SupabaseClient, workerId: string): Promise<JobResult[]> {
+  // Atomic claim: rows come back already marked processing + leased to this worker
+  const { data: jobs, error } = await supabase.rpc("claim_scheduled_automation_jobs", {
+    p_worker_id: workerId,
+    p_limit: JOB_CLAIM_BATCH_SIZE,
+    p_lease_seconds: JOB_LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim jobs: ${error.message}`);
+  }
+
+  if (!jobs || jobs.length === 0) return [];
+
+  console.log(`[process-scheduled-jobs] Worker ${workerId} claimed ${jobs.length} jobs`);
+
+  const results: JobResult[] = [];
+  for (const job of jobs as QueueJob[]) {
+    results.push(await processJob(supabase, job, workerId));
+  }
+  return results;
+}
+
+// --- Scheduled triggers ---
+
+async function fireScheduledTriggers(supabase: SupabaseClient, now: Date): Promise<TriggerFireResult[]> {
+  const { data: automations, error } = await supabase
+    .from("automations")
+    .select("id, team_id, name, created_at, current_version_id, definition")
+    .eq("trigger_type", "scheduled_trigger")
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("[process-scheduled-jobs] Error fetching scheduled automations:", error);
+    return [];
+  }
+
+  const results: TriggerFireResult[] = [];
+
+  for (const automation of automations || []) {
+    const definition = await loadDefinition(supabase, automation);
+    const config = (definition.trigger?.config || {}) as ScheduleConfig;
+
+    let cronExpression: string;
+    try {
+      cronExpression = buildCronExpression(config);
+    } catch (err) {
+      console.warn(
+        `[process-scheduled-jobs] Invalid schedule on automation "${automation.name}" (${automation.id}):`,
+        err instanceof Error ? err.message : err,
       );
+      continue;
     }
 
-    console.log(`[process-scheduled-jobs] Found ${jobs.length} pending jobs`);
+    const timezone = config.timezone && isValidTimezone(config.timezone)
+      ? config.timezone
+      : DEFAULT_SCHEDULE_TIMEZONE;
 
-    const results: { jobId: string; status: string; error?: string }[] = [];
+    // Never fire slots from before the automation existed
+    const windowStart = new Date(Math.max(
+      now.getTime() - SCHEDULED_TRIGGER_CATCHUP_MS,
+      new Date(automation.created_at).getTime(),
+    ));
+    const slot = getLatestDueCronSlot(cronExpression, windowStart, now, timezone);
+    if (!slot) continue;
 
-    for (const job of jobs as ScheduledJob[]) {
-      try {
-        // Mark job as processing
-        await supabase
-          .from("scheduled_automation_jobs")
-          .update({ status: "processing" })
-          .eq("id", job.id);
+    const scheduledFor = slot.toISOString();
 
-        // Get the automation definition
-        const { data: automation, error: autoError } = await supabase
-          .from("automations")
-          .select("*")
-          .eq("id", job.automation_id)
-          .single();
+    // Claim the slot. The unique (automation_id, scheduled_for) constraint makes
+    // overlapping invocations lose this insert instead of firing twice.
+    const { data: fire, error: claimError } = await supabase
+      .from("scheduled_trigger_fires")
+      .insert({
+        team_id: automation.team_id,
+        automation_id: automation.id,
+        scheduled_for: scheduledFor,
+        cron_expression: cronExpression,
+        timezone,
+      })
+      .select("id")
+      .single();
 
-        if (autoError || !automation) {
-          throw new Error(`Automation not found: ${job.automation_id}`);
-        }
+    if (claimError) {
+      if (claimError.code !== "23505") {
+        console.error(`[process-scheduled-jobs] Failed to claim slot for ${automation.id}:`, claimError);
+      }
+      continue;
+    }
+
+    try {
+      await invokeAutomationTrigger({
+        triggerType: "scheduled_trigger",
+        teamId: automation.team_id,
+        automationId: automation.id,
+        eventId: `scheduled_trigger:${automation.id}:${scheduledFor}`,
+        eventPayload: {
+          meta: { scheduledFor, cronExpression, timezone },
+        },
+      });
+
+      await supabase
+        .from("scheduled_trigger_fires")
+        .update({ status: "fired", fired_at: new Date().toISOString() })
+        .eq("id", fire.id);
+
+      results.push({ automationId: automation.id, scheduledFor, status: "fired" });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Unknown error";
+      console.error(`[process-scheduled-jobs] Scheduled trigger ${automation.id} failed:`, errorMessage);
+
+      await supabase
+        .from("scheduled_trigger_fires")
+        .update({ status: "failed", error_message: errorMessage })
+        .eq("id", fire.id);
+
+      results.push({ automationId: automation.id, scheduledFor, status: "failed", error: errorMessage });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fire funnel_abandoned automations for partial leads that have gone idle.
+ * Each (automation, lead) pair is claimed once in funnel_abandonment_fires;
+ * a later submit marks it recovered via cancel_funnel_abandonment().
+ */
+async function fireFunnelAbandonedTriggers(supabase: SupabaseClient, now: Date): Promise<AbandonmentFireResult[]> {
+  const { data: automations, error } = await supabase
+    .from("automations")
+    .select("id, team_id, name, created_at, current_version_id, definition")
+    .eq("trigger_type", "funnel_abandoned")
+    .eq("is_active", true);
+
+  if (error) {
+    console.error("[process-scheduled-jobs] Error fetching funnel_abandoned automations:", error);
+    return [];
+  }
+
+  const results: AbandonmentFireResult[] = [];
+  const funnels = new Map<string, AbandonedFunnel | null>();
+
+  for (const automation of automations || []) {
+    const definition = await loadDefinition(supabase, automation);
+    const config = (definition.trigger?.config || {}) as FunnelAbandonedConfig;
+    const idleMinutes = getIdleMinutes(config);
+    const { idleBefore, activeAfter } = getAbandonmentWindow(config, now, automation.created_at);
+
+    let query = supabase
+      .from("funnel_leads")
+      .select("id, funnel_id, team_id, answers, email, phone, name, last_step_index, last_activity_at, utm_source, utm_medium, utm_campaign")
+      .eq("team_id", automation.team_id)
+      .eq("status", "partial")
+      .lte("last_activity_at", idleBefore)
+      .gte("last_activity_at", activeAfter)
+      .order("last_activity_at", { ascending: true })
+      .limit(ABANDONMENT_BATCH_SIZE);
 
-        if (!automation.is_active) {
-          // Automation was deactivated, mark job as cancelled
-          await supabase
-            .from("scheduled_automation_jobs")
-            .update({
-              status: "cancelled",
-              processed_at: now,
-              error_message: "Automation is no longer active",
-            })
-            .eq("id", job.id);
-
-          results.push({ jobId: job.id, status: "cancelled", error: "Automation inactive" });
-          continue;
+    if (config.funnelId) {
+      query = query.eq("funnel_id", config.funnelId);
+    }
+
+    const { data: leads, error: leadsError } = await query;
+    if (leadsError) {
+      console.error(`[process-scheduled-jobs] Failed to load partial leads for ${automation.id}:`, leadsError);
+      continue;
+    }
+
+    for (const lead of (leads || []) as PartialFunnelLead[]) {
+      // Claim the lead. The unique (automation_id, funnel_lead_id) constraint makes
+      // overlapping invocations, and leads already fired on, lose this insert.
+      const { data: fire, error: claimError } = await supabase
+        .from("funnel_abandonment_fires")
+        .insert({
+          team_id: automation.team_id,
+          automation_id: automation.id,
+          funnel_lead_id: lead.id,
+          funnel_id: lead.funnel_id,
+          last_activity_at: lead.last_activity_at,
+        })
+        .select("id")
+        .single();
+
+      if (claimError) {
+        if (claimError.code !== "23505") {
+          console.error(`[process-scheduled-jobs] Failed to claim abandoned lead ${lead.id}:`, claimError);
         }
+        continue;
+      }
 
-        // Get the remaining steps to execute
-        const definition = automation.definition || {};
-        const allSteps = definition.steps || [];
-        const remainingStepIds = job.context_snapshot.remainingSteps || [];
-        const remainingSteps = allSteps.filter((s: any) => remainingStepIds.includes(s.id));
-
-        if (remainingSteps.length === 0) {
-          await supabase
-            .from("scheduled_automation_jobs")
-            .update({
-              status: "completed",
-              processed_at: now,
-            })
-            .eq("id", job.id);
-
-          results.push({ jobId: job.id, status: "completed" });
-          continue;
+      try {
+        if (!funnels.has(lead.funnel_id)) {
+          const { data: funnel } = await supabase
+            .from("funnels")
+            .select("id, name, published_document_snapshot")
+            .eq("id", lead.funnel_id)
+            .maybeSingle();
+          funnels.set(lead.funnel_id, funnel);
         }
+        const funnel = funnels.get(lead.funnel_id) || { id: lead.funnel_id, name: "", published_document_snapshot: null };
 
-        // Call the automation-trigger function to continue execution
-        const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-        const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+        const { data: contact } = await supabase
+          .from("contacts")
+          .select("*")
+          .eq("team_id", lead.team_id)
+          .eq("funnel_lead_id", lead.id)
+          .limit(1)
+          .maybeSingle();
 
-        const response = await fetch(`${supabaseUrl}/functions/v1/automation-trigger`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${supabaseServiceKey}`,
+        await invokeAutomationTrigger({
+          triggerType: "funnel_abandoned",
+          teamId: automation.team_id,
+          automationId: automation.id,
+          eventId: `funnel_abandoned:${automation.id}:${lead.id}`,
+          eventPayload: {
+            lead: buildAbandonedLead(lead, contact),
+            meta: buildAbandonmentMeta(lead, funnel, idleMinutes, now),
           },
-          body: JSON.stringify({
-            triggerType: automation.trigger_type,
-            teamId: job.team_id,
-            eventPayload: {
-              ...job.context_snapshot,
-              resumeFromStep: remainingSteps[0]?.id,
-              isScheduledResume: true,
-            },
-            eventId: `scheduled:${job.id}:${Date.now()}`,
-          }),
         });
 
-        if (!response.ok) {
-          throw new Error(`Trigger failed: HTTP ${response.status}`);
-        }
-
-        // Mark job as completed
         await supabase
-          .from("scheduled_automation_jobs")
-          .update({
-            status: "completed",
-            processed_at: now,
-          })
-          .eq("id", job.id);
-
-        results.push({ jobId: job.id, status: "completed" });
+          .from("funnel_abandonment_fires")
+          .update({ status: "fired", fired_at: new Date().toISOString() })
+          .eq("id", fire.id)
+          // A submit during the invoke has already marked this recovered
+          .neq("status", "recovered");
+
+        results.push({ automationId: automation.id, funnelLeadId: lead.id, status: "fired" });
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : "Unknown error";
-        console.error(`[process-scheduled-jobs] Job ${job.id} failed:`, errorMessage);
+        console.error(`[process-scheduled-jobs] funnel_abandoned ${automation.id} failed for lead ${lead.id}:`, errorMessage);
 
-        // Mark job as failed
         await supabase
-          .from("scheduled_automation_jobs")
-          .update({
-            status: "failed",
-            processed_at: now,
-            error_message: errorMessage,
-          })
-          .eq("id", job.id);
-
-        results.push({ jobId: job.id, status: "failed", error: errorMessage });
+          .from("funnel_abandonment_fires")
+          .update({ status: "failed", error_message: errorMessage })
+          .eq("id", fire.id);
+
+        results.push({ automationId: automation.id, funnelLeadId: lead.id, status: "failed", error: errorMessage });
+      }
+    }
+  }
+
+  return results;
+}
+
+// --- Segment bulk actions ---
+
+/** Applies one bulk action to one matched contact; false when there was nothing to do */
+async function applySegmentAction(
+  supabase: SupabaseClient,
+  job: SegmentJobRow,
+  segment: SegmentDefinition,
+  action: SegmentAction,
+  contact: SegmentContact,
+): Promise<boolean> {
+  if (action.type === "enroll") {
+    // Re-enrollment rules and the per-event idempotency key make a retried page a no-op
+    const result = await invokeAutomationTrigger({
+      triggerType: "manual_trigger",
+      teamId: job.team_id,
+      automationId: action.automationId,
+      eventId: `segment_job:${job.id}:${contact.id}`,
+      eventPayload: {
+        lead: contact,
+        meta: { segmentId: job.segment_id, segmentName: segment.name, segmentJobId: job.id },
+      },
+    });
+    return (result.automationsRun || []).length > 0;
+  }
+
+  // Tag triggers fire from the contacts update, as for any other tag change
+  const tags = applySegmentTagAction(contact.tags, action);
+  if (!tags) return false;
+  const { error } = await supabase
+    .from("contacts")
+    .update({ tags })
+    .eq("id", contact.id)
+    .eq("team_id", job.team_id);
+  if (error) throw new Error(error.message);
+  return true;
+}
+
+async function advanceSegmentJob(
+  supabase: SupabaseClient,
+  job: SegmentJobRow,
+  workerId: string,
+): Promise<SegmentJobResult> {
+  const segment = normalizeSegment(job.segment_snapshot);
+  const action: SegmentAction = { ...job.action_config, type: job.action_type };
+
+  try {
+    if (action.type === "enroll") {
+      const { data: automation } = await supabase
+        .from("automations")
+        .select("is_active")
+        .eq("id", action.automationId)
+        .maybeSingle();
+      if (!automation?.is_active) throw new Error("Workflow was deleted or turned off");
+    }
+
+    const engineOptions = await loadSegmentEngineOptions(supabase, job.team_id);
+    const page = await scanSegment(supabase, job.team_id, segment, {
+      cursor: job.cursor,
+      limit: getSegmentJobPageSize(action),
+      maxScan: SEGMENT_MAX_SCAN_PER_REQUEST,
+      engineOptions,
+    });
+
+    let applied = 0;
+    let skipped = 0;
+    let failed = 0;
+    for (const contact of page.matches) {
+      try {
+        if (await applySegmentAction(supabase, job, segment, action, contact)) applied++;
+        else skipped++;
+      } catch (err) {
+        failed++;
+        console.error(
+          `[process-scheduled-jobs] Segment job ${job.id} failed for contact ${contact.id}:`,
+          err instanceof Error ? err.message : err,
+        );
       }
     }
 
+    const done = page.nextCursor === null;
+    // Guarded on the lease and status, so a job cancelled mid-page stays cancelled
+    const { data: settled, error } = await supabase
+      .from("contact_segment_jobs")
+      .update({
+        status: done ? "completed" : "running",
+        cursor: page.nextCursor ?? job.cursor,
+        scanned_count: job.scanned_count + page.scanned,
+        matched_count: job.matched_count + page.matched,
+        applied_count: job.applied_count + applied,
+        skipped_count: job.skipped_count + skipped,
+        failed_count: job.failed_count + failed,
+        completed_at: done ? new Date().toISOString() : null,
+        locked_by: null,
+        locked_until: null,
+      })
+      .eq("id", job.id)
+      .eq("locked_by", workerId)
+      .eq("status", "running")
+      .select("id")
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to save progress: ${error.message}`);
+    if (!settled) return { jobId: job.id, status: "lease_lost" };
+    return { jobId: job.id, status: done ? "completed" : "advanced", applied };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    console.error(`[process-scheduled-jobs] Segment job ${job.id} failed:`, errorMessage);
+
+    await supabase
+      .from("contact_segment_jobs")
+      .update({
+        status: "failed",
+        error_message: errorMessage,
+        completed_at: new Date().toISOString(),
+        locked_by: null,
+        locked_until: null,
+      })
+      .eq("id", job.id)
+      .eq("locked_by", workerId)
+      .eq("status", "running");
+
+    return { jobId: job.id, status: "failed", error: errorMessage };
+  }
+}
+
+/**
+ * Advance queued segment bulk actions by one page each. A job is claimed by
+ * leasing it; a worker that dies mid-page leaves the lease to expire and the
+ * page is redone from the saved cursor.
+ */
+async function advanceSegmentJobs(supabase: SupabaseClient, workerId: string, now: Date): Promise<SegmentJobResult[]> {
+  const nowIso = now.toISOString();
+  const leaseFilter = `locked_until.is.null,locked_until.lt.${nowIso}`;
+
+  const { data: jobs, error } = await supabase
+    .from("contact_segment_jobs")
+    .select("*")
+    .in("status", ["pending", "running"])
+    .or(leaseFilter)
+    .order("created_at", { ascending: true })
+    .limit(SEGMENT_JOBS_PER_TICK)
+    .returns<SegmentJobRow[]>();
+
+  if (error) {
+    console.error("[process-scheduled-jobs] Error fetching segment jobs:", error);
+    return [];
+  }
+
+  const results: SegmentJobResult[] = [];
+  for (const job of jobs || []) {
+    // Same filters as the select, so an overlapping worker loses this update
+    const { data: claimed } = await supabase
+      .from("contact_segment_jobs")
+      .update({
+        status: "running",
+        locked_by: workerId,
+        locked_until: new Date(now.getTime() + SEGMENT_JOB_LEASE_SECONDS * 1000).toISOString(),
+        started_at: job.started_at ?? nowIso,
+      })
+      .eq("id", job.id)
+      .in("status", ["pending", "running"])
+      .or(leaseFilter)
+      .select("id")
+      .maybeSingle();
+    if (!claimed) continue;
+
+    results.push(await advanceSegmentJob(supabase, { ...job, status: "running" }, workerId));
+  }
+  return results;
+}
+
+/**
+ * Process scheduled automation jobs that are due, then fire due scheduled triggers
+ * and funnel_abandoned triggers for idle partial leads, then advance segment bulk actions.
+ * Called by pg_cron every minute; safe to run concurrently.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = getSupabaseClient();
+  const workerId = crypto.randomUUID();
+
+  try {
+    const results = await processDueJobs(supabase, workerId);
+    const triggers = await fireScheduledTriggers(supabase, new Date());
+    const abandoned = await fireFunnelAbandonedTriggers(supabase, new Date());
+    const segmentJobs = await advanceSegmentJobs(supabase, workerId, new Date());
+
     const successful = results.filter((r) => r.status === "completed").length;
-    const failed = results.filter((r) => r.status === "failed").length;
+    const retrying = results.filter((r) => r.status === "retrying").length;
+    const deadLettered = results.filter((r) => r.status === "dead_letter").length;
 
-    console.log(`[process-scheduled-jobs] Processed: ${successful} success, ${failed} failed`);
+    console.log(
+      `[process-scheduled-jobs] Processed: ${successful} success, ${retrying} retrying, ${deadLettered} dead-lettered, ${triggers.length} scheduled triggers, ${abandoned.length} abandoned funnel leads, ${segmentJobs.length} segment jobs`,
+    );
 
     return new Response(
       JSON.stringify({
         status: "ok",
-        processed: jobs.length,
+        workerId,
+        processed: results.length,
         successful,
-        failed,
+        retrying,
+        deadLettered,
         results,
+        scheduledTriggers: triggers,
+        funnelAbandoned: abandoned,
+        segmentJobs,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } },
     );
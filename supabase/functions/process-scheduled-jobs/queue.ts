@@ -0,0 +1,66 @@
+// supabase/functions/process-scheduled-jobs/queue.ts
+// Queue policy for scheduled_automation_jobs: lease length, retry backoff and
+// dead-lettering. Claiming itself is atomic in claim_scheduled_automation_jobs().
+
+/** The automation context captured when the job was queued */
+export interface JobContextSnapshot {
+  lead?: { id?: string } | null;
+  appointment?: { id?: string } | null;
+  meta?: { funnelLeadId?: string } | null;
+  /** Step ids still to run when the job resumes */
+  remainingSteps?: string[];
+  [key: string]: unknown;
+}
+
+export interface QueueJob {
+  id: string;
+  team_id: string;
+  automation_id: string;
+  run_id: string | null;
+  step_id: string | null;
+  resume_at: string;
+  status: string;
+  context_snapshot: JobContextSnapshot;
+  error_message: string | null;
+  attempts: number;
+  max_attempts: number;
+  locked_by: string | null;
+  locked_until: string | null;
+  workflow_version_id: string | null;
+}
+
+export type JobFailureDecision =
+  | { status: "pending"; resumeAt: string; delayMs: number }
+  | { status: "dead_letter" };
+
+/** How long a claimed job stays invisible to other workers */
+export const JOB_LEASE_SECONDS = 300;
+export const JOB_CLAIM_BATCH_SIZE = 50;
+
+/** Retry backoff: 1m, 2m, 4m, 8m ... capped at 1h */
+export const JOB_RETRY_BASE_DELAY_MS = 60 * 1000;
+export const JOB_RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+/** How far back a late cron tick still fires a missed scheduled_trigger slot */
+export const SCHEDULED_TRIGGER_CATCHUP_MS = 15 * 60 * 1000;
+
+export function getJobRetryDelayMs(attempt: number): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(JOB_RETRY_BASE_DELAY_MS * Math.pow(2, exponent), JOB_RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Decide what happens to a job whose attempt just failed.
+ * `attempts` already includes the failed attempt (incremented at claim time).
+ */
+export function decideJobFailure(
+  job: Pick<QueueJob, "attempts" | "max_attempts">,
+  now: Date = new Date(),
+): JobFailureDecision {
+  const maxAttempts = job.max_attempts || 1;
+  if (job.attempts >= maxAttempts) {
+    return { status: "dead_letter" };
+  }
+  const delayMs = getJobRetryDelayMs(job.attempts);
+  return { status: "pending", resumeAt: new Date(now.getTime() + delayMs).toISOString(), delayMs };
+}
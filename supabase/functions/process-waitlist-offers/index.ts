@@ -0,0 +1,128 @@
+// supabase/functions/process-waitlist-offers/index.ts
+// Expires unclaimed waitlist offers and passes each slot to the next entry in line.
+// Called by pg_cron every 5 minutes. Offers are expired with a conditional update,
+// so overlapping runs never hand the same offer on twice.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  WAITLIST_CLAIM_STALE_MINUTES,
+  fireWaitlistTrigger,
+  offerFreedSlot,
+} from "../_shared/booking-waitlist.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  const appUrl = Deno.env.get("APP_URL") || supabaseUrl.replace(".supabase.co", ".vercel.app");
+
+  try {
+    const now = new Date();
+
+    // 0. A claim that died mid-booking goes back to pending; step 1 expires it once
+    //    its window is over, and a booking it did make turns a retry into a conflict
+    const staleCutoff = new Date(now.getTime() - WAITLIST_CLAIM_STALE_MINUTES * 60 * 1000);
+    const { error: releaseError } = await supabase
+      .from("booking_waitlist_offers")
+      .update({ status: "pending" })
+      .eq("status", "claiming")
+      .lt("updated_at", staleCutoff.toISOString());
+
+    if (releaseError) console.error("[process-waitlist-offers] Failed to release stale claims:", releaseError);
+
+    // 1. Expire pending offers past their claim window
+    const { data: expiredOffers, error: expireError } = await supabase
+      .from("booking_waitlist_offers")
+      .update({ status: "expired" })
+      .eq("status", "pending")
+      .lte("expires_at", now.toISOString())
+      .select("id, team_id, waitlist_id, event_type_id, slot_start_utc, host_id, freed_appointment_id, booking_waitlist(*)");
+
+    if (expireError) throw new Error(`Failed to expire offers: ${expireError.message}`);
+
+    let reoffered = 0;
+    for (const offer of expiredOffers || []) {
+      const entry = offer.booking_waitlist;
+
+      // 2. The entry stays in line for later openings
+      if (entry) {
+        await supabase
+          .from("booking_waitlist")
+          .update({ status: "waiting" })
+          .eq("id", entry.id)
+          .eq("status", "offered");
+        await fireWaitlistTrigger(supabase, offer.team_id, "offer_expired", entry, {
+          slotStartUtc: offer.slot_start_utc,
+        });
+      }
+
+      // 3. Offer the slot to the next entry that hasn't had it yet
+      try {
+        const { data: previousOffers } = await supabase
+          .from("booking_waitlist_offers")
+          .select("waitlist_id")
+          .eq("event_type_id", offer.event_type_id)
+          .eq("slot_start_utc", offer.slot_start_utc);
+
+        const next = await offerFreedSlot(
+          supabase,
+          {
+            team_id: offer.team_id,
+            event_type_id: offer.event_type_id,
+            start_at_utc: offer.slot_start_utc,
+            host_id: offer.host_id,
+            freed_appointment_id: offer.freed_appointment_id,
+          },
+          appUrl,
+          (previousOffers || []).map((o: { waitlist_id: string }) => o.waitlist_id),
+          now,
+        );
+        if (next) reoffered++;
+      } catch (offerErr) {
+        console.error(`[process-waitlist-offers] Failed to re-offer slot from offer ${offer.id}:`, offerErr);
+      }
+    }
+
+    // 4. Entries for a date that has passed (a day's grace covers every timezone)
+    const cutoff = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const { data: staleEntries, error: staleError } = await supabase
+      .from("booking_waitlist")
+      .update({ status: "expired" })
+      .eq("status", "waiting")
+      .lt("preferred_date", cutoff)
+      .select("id");
+
+    if (staleError) {
+      console.error("[process-waitlist-offers] Failed to expire past-date entries:", staleError);
+    }
+
+    const expired = (expiredOffers || []).length;
+    const staleCount = (staleEntries || []).length;
+    console.log(
+      `[process-waitlist-offers] ${expired} offers expired, ${reoffered} re-offered, ${staleCount} past-date entries expired`,
+    );
+
+    return new Response(
+      JSON.stringify({ status: "ok", expired, reoffered, stale_entries: staleCount }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("[process-waitlist-offers] Error:", error);
+    return new Response(
+      JSON.stringify({
+        status: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
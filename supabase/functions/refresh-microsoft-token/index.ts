@@ -0,0 +1,114 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getTokenExpiresAt, microsoftConfigFromEnv, refreshMicrosoftTokens } from "../_shared/microsoft-graph.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+/**
+ * Refresh a user's Microsoft Graph token.
+ * Booking functions refresh on demand via getMicrosoftAccessToken; this is the standalone entry point.
+ */
+export async function refreshMicrosoftToken(teamId: string, userId: string): Promise<{
+  success: boolean;
+  access_token?: string;
+  error?: string;
+}> {
+  const supabase = getSupabaseClient();
+
+  const { data: connection, error: fetchError } = await supabase
+    .from("microsoft_calendar_connections")
+    .select("id, refresh_token")
+    .eq("team_id", teamId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (fetchError || !connection) {
+    return { success: false, error: "Connection not found" };
+  }
+
+  if (!connection.refresh_token) {
+    return { success: false, error: "No refresh token available" };
+  }
+
+  const config = microsoftConfigFromEnv((key) => Deno.env.get(key));
+  if (!config.clientId || !config.clientSecret) {
+    return { success: false, error: "Microsoft OAuth not configured" };
+  }
+
+  try {
+    const tokens = await refreshMicrosoftTokens(config, connection.refresh_token);
+    if (!tokens) {
+      return { success: false, error: "Token refresh failed" };
+    }
+
+    // Microsoft rotates refresh tokens, so keep the new one
+    const { error: updateError } = await supabase
+      .from("microsoft_calendar_connections")
+      .update({
+        access_token: tokens.access_token,
+        refresh_token: tokens.refresh_token || connection.refresh_token,
+        token_expires_at: getTokenExpiresAt(tokens.expires_in),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", connection.id);
+
+    if (updateError) {
+      console.error("[Refresh Microsoft Token] Failed to store new token:", updateError);
+      return { success: false, error: "Failed to store refreshed token" };
+    }
+
+    console.log(`[Refresh Microsoft Token] Successfully refreshed token for user ${userId} in team ${teamId}`);
+    return { success: true, access_token: tokens.access_token };
+
+  } catch (error) {
+    console.error("[Refresh Microsoft Token] Error:", error);
+    return { success: false, error: "Unexpected error during refresh" };
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { teamId, userId } = await req.json();
+
+    if (!teamId || !userId) {
+      return new Response(
+        JSON.stringify({ error: "Missing teamId or userId" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const result = await refreshMicrosoftToken(teamId, userId);
+
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({ error: result.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Error in refresh-microsoft-token:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,11 +1,21 @@
 // supabase/functions/reschedule-booking/index.ts
 // Reschedules a native booking by booking_token.
 // Creates a new appointment linked to the original, updates
-// Google Calendar, Zoom, and fires automation trigger.
-// Note: Reminders are handled via the automation system (GHL-style).
+// Google Calendar, Outlook, Zoom, moves booking reminders to the new time,
+// fires automation trigger, and offers the old slot to the waitlist.
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { cancelBookingReminders, scheduleBookingReminders } from "../_shared/booking-reminders.ts";
+import { getAppointmentIcsUid } from "../_shared/ics.ts";
+import { isSharedWithOtherBookings } from "../_shared/booking-seats.ts";
+import { offerFreedSlot } from "../_shared/booking-waitlist.ts";
+import {
+  getMicrosoftAccessToken,
+  getMicrosoftConnection,
+  microsoftConfigFromEnv,
+  updateMicrosoftEventTime,
+} from "../_shared/microsoft-graph.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -89,12 +99,17 @@ serve(async (req) => {
         start_at_utc: newStartUtc.toISOString(),
         duration_minutes: original.duration_minutes,
         appointment_type_id: original.appointment_type_id,
+        event_type_id: original.event_type_id || original.appointment_type_id,
         event_type_name: original.event_type_name,
         closer_id: original.closer_id,
         closer_name: original.closer_name,
         assigned_user_id: original.assigned_user_id,
+        additional_host_ids: original.additional_host_ids || [],
         meeting_link: original.meeting_link,
         booking_token: newBookingToken,
+        // Same invite UID with a higher SEQUENCE, so the calendar event moves instead of duplicating
+        ics_uid: getAppointmentIcsUid(original),
+        ics_sequence: (original.ics_sequence || 0) + 1,
         intake_answers: original.intake_answers,
         appointment_timezone: tz,
         reschedule_url: rescheduleUrl,
@@ -139,8 +154,13 @@ serve(async (req) => {
       .eq("status", "pending")
       .contains("context_snapshot", { appointment: { id: original.id } });
 
-    // 7. Update Google Calendar event if exists
-    if (original.google_calendar_event_id && original.assigned_user_id) {
+    // 7. Update Google Calendar event if exists. A group session's event stays put
+    // for the invitees who aren't moving
+    if (
+      original.google_calendar_event_id &&
+      original.assigned_user_id &&
+      !(await isSharedWithOtherBookings(supabase, original, "google_calendar_event_id"))
+    ) {
       try {
         const { data: gcalConn } = await supabase
           .from("google_calendar_connections")
@@ -204,6 +224,54 @@ serve(async (req) => {
       }
     }
 
+    // 7b. Move the Outlook event the same way
+    if (
+      original.outlook_event_id &&
+      original.assigned_user_id &&
+      !(await isSharedWithOtherBookings(supabase, original, "outlook_event_id"))
+    ) {
+      try {
+        const outlookConn = await getMicrosoftConnection(supabase, original.team_id, original.assigned_user_id);
+        if (outlookConn) {
+          const microsoftConfig = microsoftConfigFromEnv((key) => Deno.env.get(key));
+          const accessToken = await getMicrosoftAccessToken(supabase, outlookConn, microsoftConfig);
+          const moved = accessToken && await updateMicrosoftEventTime(
+            microsoftConfig,
+            accessToken,
+            original.outlook_event_id,
+            newStartUtc.toISOString(),
+            original.duration_minutes || 30,
+          );
+
+          if (moved) {
+            await supabase
+              .from("appointments")
+              .update({ outlook_event_id: original.outlook_event_id })
+              .eq("id", newAppointment.id);
+          }
+        }
+      } catch (outlookErr) {
+        console.error("[reschedule-booking] Outlook update error:", outlookErr);
+      }
+    }
+
+    // 8. Move booking reminders: cancel the old appointment's, schedule the new one's
+    try {
+      await cancelBookingReminders(supabase, original.id, "Appointment rescheduled");
+
+      const eventTypeId = original.event_type_id || original.appointment_type_id;
+      if (eventTypeId) {
+        const { data: eventType } = await supabase
+          .from("event_types")
+          .select("reminder_config")
+          .eq("id", eventTypeId)
+          .maybeSingle();
+        await scheduleBookingReminders(supabase, newAppointment, eventType?.reminder_config);
+      }
+    } catch (reminderErr) {
+      console.error("[reschedule-booking] Reminder rescheduling error:", reminderErr);
+    }
+
     // 9. Fire automation trigger
     try {
       await supabase.functions.invoke("automation-trigger", {
@@ -222,6 +290,11 @@ serve(async (req) => {
               reschedule_count: rescheduleCount,
               original_appointment_id: original.id,
               status: "NEW",
+              closer_name: original.closer_name,
+              lead_name: original.lead_name,
+              lead_email: original.lead_email,
+              ics_uid: newAppointment.ics_uid,
+              ics_sequence: newAppointment.ics_sequence,
             },
             lead: {
               name: original.lead_name,
@@ -235,6 +308,22 @@ serve(async (req) => {
       console.error("[reschedule-booking] Automation trigger error:", autoErr);
     }
 
+    // 10. Offer the old slot to the next person on the event type's waitlist
+    const freedEventTypeId = original.event_type_id || original.appointment_type_id;
+    if (freedEventTypeId) {
+      try {
+        await offerFreedSlot(supabase, {
+          team_id: original.team_id,
+          event_type_id: freedEventTypeId,
+          start_at_utc: original.start_at_utc,
+          host_id: original.closer_id || original.assigned_user_id,
+          freed_appointment_id: original.id,
+        }, appUrl);
+      } catch (waitlistErr) {
+        console.error("[reschedule-booking] Waitlist offer error:", waitlistErr);
+      }
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
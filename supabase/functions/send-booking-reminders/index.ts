@@ -0,0 +1,201 @@
+// supabase/functions/send-booking-reminders/index.ts
+// Sends due native booking reminders (booking_reminders) through send-email / send-sms.
+// Called by pg_cron every minute; claims are leased, so overlapping runs are safe.
+
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  classifySendResponse,
+  decideReminderFailure,
+  getReminderSkipReason,
+  renderReminder,
+  REMINDER_CLAIM_BATCH_SIZE,
+  REMINDER_LEASE_SECONDS,
+  type ClaimedReminder,
+  type RenderedReminder,
+  type ReminderAppointment,
+  type SendResponseBody,
+} from "../_shared/booking-reminders.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ReminderResult {
+  reminderId: string;
+  status: "sent" | "skipped" | "retrying" | "failed";
+  error?: string;
+}
+
+const APPOINTMENT_COLUMNS =
+  "id, team_id, event_type_id, appointment_type_id, start_at_utc, duration_minutes, status, lead_name, lead_email, lead_phone, event_type_name, closer_name, meeting_link, reschedule_url, cancel_url, appointment_timezone";
+
+async function sendMessage(
+  reminder: ClaimedReminder,
+  message: RenderedReminder,
+): Promise<{ status: number; result: SendResponseBody | null }> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  const body = reminder.type === "email"
+    ? {
+        to: message.to,
+        subject: message.subject,
+        body: message.body,
+        teamId: reminder.team_id,
+        appointmentId: reminder.appointment_id,
+        template: reminder.template || "booking_reminder",
+      }
+    : {
+        to: message.to,
+        body: message.body,
+        teamId: reminder.team_id,
+        appointmentId: reminder.appointment_id,
+      };
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-${reminder.type}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${supabaseServiceKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => null);
+  return { status: response.status, result };
+}
+
+/** Settle a claimed reminder. Only rows still in processing are touched, so a cancel during the send wins. */
+async function settleReminder(supabase: SupabaseClient, reminderId: string, updates: Record<string, unknown>): Promise<void> {
+  const { error } = await supabase
+    .from("booking_reminders")
+    .update({ ...updates, locked_until: null })
+    .eq("id", reminderId)
+    .eq("status", "processing");
+
+  if (error) {
+    console.error(`[send-booking-reminders] Failed to settle reminder ${reminderId}:`, error);
+  }
+}
+
+async function processReminder(
+  supabase: SupabaseClient,
+  reminder: ClaimedReminder,
+  appointment: ReminderAppointment | null,
+): Promise<ReminderResult> {
+  const skipReason = getReminderSkipReason(appointment);
+  if (skipReason || !appointment) {
+    const status = appointment?.status && /CANCEL|RESCHEDULED/i.test(appointment.status) ? "cancelled" : "skipped";
+    await settleReminder(supabase, reminder.id, { status, last_error: skipReason });
+    return { reminderId: reminder.id, status: "skipped", error: skipReason || undefined };
+  }
+
+  const message = renderReminder(reminder, appointment);
+  if (!message) {
+    const error = `No ${reminder.type === "email" ? "email address" : "phone number"} for lead`;
+    await settleReminder(supabase, reminder.id, { status: "skipped", last_error: error });
+    return { reminderId: reminder.id, status: "skipped", error };
+  }
+
+  try {
+    const { status, result } = await sendMessage(reminder, message);
+    const outcome = classifySendResponse(status, result);
+
+    if (outcome.outcome === "sent") {
+      await settleReminder(supabase, reminder.id, {
+        status: "sent",
+        sent_at: new Date().toISOString(),
+        provider_message_id: outcome.messageId,
+        last_error: null,
+      });
+      return { reminderId: reminder.id, status: "sent" };
+    }
+
+    if (outcome.outcome === "skipped") {
+      await settleReminder(supabase, reminder.id, { status: "skipped", last_error: outcome.error });
+      return { reminderId: reminder.id, status: "skipped", error: outcome.error };
+    }
+
+    throw new Error(outcome.error);
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    const decision = decideReminderFailure(reminder, appointment.start_at_utc);
+
+    if (decision.status === "pending") {
+      await settleReminder(supabase, reminder.id, {
+        status: "pending",
+        scheduled_for: decision.scheduledFor,
+        last_error: errorMessage,
+      });
+      return { reminderId: reminder.id, status: "retrying", error: errorMessage };
+    }
+
+    await settleReminder(supabase, reminder.id, { status: "failed", last_error: errorMessage });
+    return { reminderId: reminder.id, status: "failed", error: errorMessage };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_booking_reminders", {
+      p_limit: REMINDER_CLAIM_BATCH_SIZE,
+      p_lease_seconds: REMINDER_LEASE_SECONDS,
+    });
+
+    if (claimError) throw new Error(`Failed to claim reminders: ${claimError.message}`);
+
+    const reminders = (claimed || []) as ClaimedReminder[];
+    const appointmentIds = [...new Set(reminders.map((r) => r.appointment_id))];
+    const appointments = new Map<string, ReminderAppointment>();
+
+    if (appointmentIds.length > 0) {
+      const { data: rows, error: apptError } = await supabase
+        .from("appointments")
+        .select(APPOINTMENT_COLUMNS)
+        .in("id", appointmentIds);
+      if (apptError) throw new Error(`Failed to load appointments: ${apptError.message}`);
+      for (const row of rows || []) appointments.set(row.id, row as ReminderAppointment);
+    }
+
+    const results: ReminderResult[] = [];
+    for (const reminder of reminders) {
+      results.push(await processReminder(supabase, reminder, appointments.get(reminder.appointment_id) || null));
+    }
+
+    const count = (status: ReminderResult["status"]) => results.filter((r) => r.status === status).length;
+    console.log(
+      `[send-booking-reminders] Processed ${results.length}: ${count("sent")} sent, ${count("skipped")} skipped, ${count("retrying")} retrying, ${count("failed")} failed`,
+    );
+
+    return new Response(
+      JSON.stringify({
+        status: "ok",
+        processed: results.length,
+        sent: count("sent"),
+        skipped: count("skipped"),
+        retrying: count("retrying"),
+        failed: count("failed"),
+        results,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("[send-booking-reminders] Error:", error);
+    return new Response(
+      JSON.stringify({
+        status: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  }
+});
@@ -0,0 +1,117 @@
+// supabase/functions/send-conversation-reply/index.ts
+// Reply from the conversations inbox. Checks the caller can access the team,
+// then sends through send-sms / send-whatsapp / send-email so DND, consent,
+// suppression and billing all apply. A sent reply marks the thread read.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildReplyRequest,
+  validateReply,
+  type ConversationChannel,
+} from "../_shared/conversations.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface ReplyRequestBody {
+  teamId: string;
+  contactId: string;
+  channel: ConversationChannel;
+  body: string;
+  subject?: string;
+}
+
+function getSupabaseClient() {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+function json(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = getSupabaseClient();
+
+  try {
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    const { data: userData, error: userError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: null, error: null };
+    const user = userData?.user;
+    if (userError || !user) {
+      return json({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const { teamId, contactId, channel, body, subject }: ReplyRequestBody = await req.json();
+    if (!teamId || !contactId) {
+      return json({ success: false, error: "Missing required fields: teamId, contactId" }, 400);
+    }
+
+    const { data: canAccess, error: accessError } = await supabase.rpc("can_access_workspace", {
+      _user_id: user.id,
+      _team_id: teamId,
+    });
+    if (accessError) throw new Error(`Access check failed: ${accessError.message}`);
+    if (!canAccess) {
+      return json({ success: false, error: "Forbidden" }, 403);
+    }
+
+    const { data: contact, error: contactError } = await supabase
+      .from("contacts")
+      .select("id, name, first_name, last_name, email, phone")
+      .eq("id", contactId)
+      .eq("team_id", teamId)
+      .maybeSingle();
+    if (contactError) throw new Error(`Contact lookup failed: ${contactError.message}`);
+    if (!contact) {
+      return json({ success: false, error: "Contact not found" }, 404);
+    }
+
+    const reply = { teamId, contact, channel, body, subject };
+    const invalid = validateReply(reply);
+    if (invalid) {
+      return json({ success: false, error: invalid }, 400);
+    }
+
+    const { functionName, payload } = buildReplyRequest(reply);
+    const sendResponse = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/${functionName}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      },
+      body: JSON.stringify(payload),
+    });
+    const result = await sendResponse.json().catch(() => ({ success: false, error: "Invalid response" }));
+
+    if (!sendResponse.ok || !result.success) {
+      console.warn(`[send-conversation-reply] ${functionName} did not send:`, result);
+      // 200 so the inbox can show why (insufficient balance, opted out, suppressed, ...)
+      return json({ success: false, error: result.error || "Message was not sent", code: result.code || null });
+    }
+
+    const { error: readError } = await supabase
+      .from("conversations")
+      .update({ unread_count: 0, last_read_at: new Date().toISOString(), last_read_by: user.id })
+      .eq("team_id", teamId)
+      .eq("contact_id", contactId);
+    if (readError) console.error("[send-conversation-reply] Failed to mark thread read:", readError);
+
+    console.log(`[send-conversation-reply] ${channel} reply sent to contact ${contactId} by ${user.id}`);
+    return json({ success: true, messageId: result.messageId || null, status: result.status || null });
+  } catch (error) {
+    console.error("[send-conversation-reply] Error:", error);
+    return json({ success: false, error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 // supabase/functions/send-email/index.ts
 // Email Provider Edge Function with routing for Stackit Default (Resend) and Custom Domains (Mailgun)
-// Includes wallet billing integration
+// Includes wallet billing integration. Suppressed addresses are refused before
+// billing, and every team email carries an unsubscribe footer and List-Unsubscribe headers.
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { 
@@ -9,12 +10,28 @@ import {
   refundToWallet, 
   triggerAutoRechargeIfNeeded 
 } from "../_shared/billing.ts";
+import {
+  appendUnsubscribeFooter,
+  buildListUnsubscribeHeaders,
+  buildOneClickUnsubscribeUrl,
+  buildUnsubscribePageUrl,
+  createUnsubscribeToken,
+  isEmailSuppressed,
+  SUPPRESSED_CODE,
+} from "../_shared/email-suppression.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+/** Text attachment, e.g. a calendar invite (content is the raw text, not base64) */
+interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType: string;
+}
+
 interface SendEmailRequest {
   to: string;
   subject: string;
@@ -31,6 +48,7 @@ interface SendEmailRequest {
   appointmentId?: string;
   template?: string;
   skipBilling?: boolean;
+  attachments?: EmailAttachment[];
 }
 
 interface ResendResponse {
@@ -46,6 +64,14 @@ interface MailgunResponse {
   message?: string;
 }
 
+/** UTF-8 safe base64 (btoa alone only handles Latin-1) */
+function toBase64(content: string): string {
+  const bytes = new TextEncoder().encode(content);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
 function getSupabaseClient() {
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -59,6 +85,8 @@ async function sendViaResend(payload: {
   html: string;
   text: string;
   replyTo?: string;
+  attachments?: EmailAttachment[];
+  headers?: Record<string, string>;
 }): Promise<{ success: boolean; messageId?: string; error?: string }> {
   const resendApiKey = Deno.env.get("RESEND_API_KEY");
   
@@ -83,6 +111,12 @@ async function sendViaResend(payload: {
       html: payload.html,
       text: payload.text,
       reply_to: payload.replyTo,
+      headers: payload.headers,
+      attachments: payload.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: toBase64(attachment.content),
+        content_type: attachment.contentType,
+      })),
     }),
   });
 
@@ -107,6 +141,8 @@ async function sendViaMailgun(
     html: string;
     text: string;
     replyTo?: string;
+    attachments?: EmailAttachment[];
+    headers?: Record<string, string>;
   }
 ): Promise<{ success: boolean; messageId?: string; error?: string }> {
   const mailgunApiKey = Deno.env.get("MAILGUN_API_KEY");
@@ -120,7 +156,8 @@ async function sendViaMailgun(
     };
   }
 
-  const formData = new URLSearchParams();
+  // Multipart so attachments can ride along; fetch sets the boundary header
+  const formData = new FormData();
   formData.append("from", payload.from);
   formData.append("to", payload.to);
   formData.append("subject", payload.subject);
@@ -129,12 +166,17 @@ async function sendViaMailgun(
   if (payload.replyTo) {
     formData.append("h:Reply-To", payload.replyTo);
   }
+  for (const [name, value] of Object.entries(payload.headers || {})) {
+    formData.append(`h:${name}`, value);
+  }
+  for (const attachment of payload.attachments || []) {
+    formData.append("attachment", new Blob([attachment.content], { type: attachment.contentType }), attachment.filename);
+  }
 
   const response = await fetch(`${mailgunBaseUrl}/${domain}/messages`, {
     method: "POST",
     headers: {
       "Authorization": `Basic ${btoa(`api:${mailgunApiKey}`)}`,
-      "Content-Type": "application/x-www-form-urlencoded",
     },
     body: formData,
   });
@@ -176,6 +218,7 @@ Deno.serve(async (req) => {
       appointmentId,
       template,
       skipBilling,
+      attachments,
     } = requestData;
 
     if (!to || !subject || (!body && !html)) {
@@ -207,6 +250,23 @@ Deno.serve(async (req) => {
         // Non-fatal: if DND check fails, allow the message through (fail-open for DND)
         console.warn("[send-email] DND check failed, proceeding:", dndErr);
       }
+
+      // Suppression list (bounces, complaints, unsubscribes) - fails closed like the SMS consent check
+      try {
+        if (await isEmailSuppressed(supabase, teamId, to)) {
+          console.log(`[send-email] Suppressed: ${to} is on the team's suppression list`);
+          return new Response(
+            JSON.stringify({ success: false, error: "Recipient is on the suppression list", code: SUPPRESSED_CODE }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+          );
+        }
+      } catch (suppressionErr) {
+        console.error("[send-email] Suppression check failed, not sending:", suppressionErr);
+        return new Response(
+          JSON.stringify({ success: false, error: "Could not check the suppression list", code: "SUPPRESSION_CHECK_FAILED" }),
+          { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
     }
 
     // Get email pricing
@@ -264,7 +324,21 @@ Deno.serve(async (req) => {
     }
 
     const fullFrom = `${senderName} <${senderEmail}>`;
-    const emailHtml = html || `<p>${body.replace(/\n/g, "<br/>")}</p>`;
+    let emailHtml = html || `<p>${body.replace(/\n/g, "<br/>")}</p>`;
+    let emailText = body;
+    let unsubscribeHeaders: Record<string, string> | undefined;
+
+    if (teamId) {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const appUrl = Deno.env.get("APP_URL") || supabaseUrl.replace(".supabase.co", ".vercel.app");
+      const secret = Deno.env.get("EMAIL_UNSUBSCRIBE_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const token = await createUnsubscribeToken({ teamId, email: to }, secret);
+
+      const withFooter = appendUnsubscribeFooter(emailHtml, body || "", buildUnsubscribePageUrl(appUrl, token));
+      emailHtml = withFooter.html;
+      if (body) emailText = withFooter.text;
+      unsubscribeHeaders = buildListUnsubscribeHeaders(buildOneClickUnsubscribeUrl(supabaseUrl, token));
+    }
 
     console.log(`[send-email] Sending via ${useCustomDomain ? `Mailgun (${customDomain})` : "Resend (default)"} to ${to}, cost: ${costCents} cents`);
 
@@ -278,8 +352,10 @@ Deno.serve(async (req) => {
         from: fullFrom,
         subject,
         html: emailHtml,
-        text: body,
+        text: emailText,
         replyTo,
+        attachments,
+        headers: unsubscribeHeaders,
       });
     } else {
       provider = "resend";
@@ -288,8 +364,10 @@ Deno.serve(async (req) => {
         from: fullFrom,
         subject,
         html: emailHtml,
-        text: body,
+        text: emailText,
         replyTo,
+        attachments,
+        headers: unsubscribeHeaders,
       });
     }
 
@@ -328,6 +406,8 @@ Deno.serve(async (req) => {
           payload: {
             to,
             subject,
+            // Plain-text body, shown in the contact's conversation thread
+            body: body || "",
             bodyLength: body?.length || 0,
             hasHtml: !!html,
             leadId,
@@ -335,6 +415,7 @@ Deno.serve(async (req) => {
             replyTo,
             customDomain: customDomain || null,
             costCents,
+            attachments: attachments?.map((a) => a.filename) || [],
           },
           status,
           error_message: result.error || null,
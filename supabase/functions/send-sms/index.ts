@@ -2,6 +2,7 @@
 // Twilio SMS Provider Edge Function with Credits System
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isOptedOut, OPTED_OUT_CODE } from "../_shared/messaging-consent.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -108,6 +109,24 @@ Deno.serve(async (req) => {
       console.warn("[send-sms] DND check failed, proceeding:", dndErr);
     }
 
+    // Consent ledger: the recipient's latest STOP / START decides. Unlike DND this
+    // fails closed - a carrier opt-out can't be skipped because the lookup errored.
+    try {
+      if (await isOptedOut(supabase, teamId, "sms", to)) {
+        console.log(`[send-sms] Consent: ${to} has opted out of SMS`);
+        return new Response(
+          JSON.stringify({ success: false, error: "Recipient has opted out of SMS", code: OPTED_OUT_CODE }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+    } catch (consentErr) {
+      console.error("[send-sms] Consent check failed, not sending:", consentErr);
+      return new Response(
+        JSON.stringify({ success: false, error: "Could not verify SMS consent", code: "CONSENT_CHECK_FAILED" }),
+        { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
     // Get team's phone number or use provided 'from'
     let fromNumber = from;
     if (!fromNumber) {
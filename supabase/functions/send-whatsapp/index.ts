@@ -8,6 +8,7 @@ import {
   refundToWallet, 
   triggerAutoRechargeIfNeeded 
 } from "../_shared/billing.ts";
+import { isOptedOut, OPTED_OUT_CODE } from "../_shared/messaging-consent.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -75,6 +76,23 @@ Deno.serve(async (req) => {
         // Non-fatal: if DND check fails, allow the message through (fail-open for DND)
         console.warn("[send-whatsapp] DND check failed, proceeding:", dndErr);
       }
+
+      // Consent ledger - fails closed, see send-sms
+      try {
+        if (await isOptedOut(supabase, teamId, "whatsapp", to)) {
+          console.log(`[send-whatsapp] Consent: ${to} has opted out of WhatsApp`);
+          return new Response(
+            JSON.stringify({ success: false, error: "Recipient has opted out of WhatsApp", code: OPTED_OUT_CODE }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+          );
+        }
+      } catch (consentErr) {
+        console.error("[send-whatsapp] Consent check failed, not sending:", consentErr);
+        return new Response(
+          JSON.stringify({ success: false, error: "Could not verify WhatsApp consent", code: "CONSENT_CHECK_FAILED" }),
+          { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
     }
 
     // Get WhatsApp pricing
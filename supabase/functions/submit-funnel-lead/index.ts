@@ -6,7 +6,8 @@
 // - NO backend guessing/auto-upgrade of submit intent
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.4";
+import { coerceCustomFieldValues, type CustomFieldDefinition } from "../_shared/custom-fields.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -186,6 +187,53 @@ function normalizePhone(value: unknown): string | null {
   return digits.length > 0 ? digits : null;
 }
 
+const MAX_HIDDEN_FIELDS = 50;
+const MAX_HIDDEN_FIELD_KEY_LENGTH = 64;
+const MAX_HIDDEN_FIELD_VALUE_LENGTH = 500;
+
+// Hidden fields come straight from the visitor's URL/cookies: keep flat, short strings only
+function sanitizeHiddenFields(value: unknown): Record<string, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const fields: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (Object.keys(fields).length >= MAX_HIDDEN_FIELDS) break;
+    const trimmedKey = key.trim();
+    if (!trimmedKey || trimmedKey.length > MAX_HIDDEN_FIELD_KEY_LENGTH) continue;
+    if (typeof raw !== "string" && typeof raw !== "number") continue;
+    const text = String(raw).trim();
+    if (text) fields[trimmedKey] = text.slice(0, MAX_HIDDEN_FIELD_VALUE_LENGTH);
+  }
+  return fields;
+}
+
+// Answers under a key the team has typed (funnel form fields mapped to a custom
+// field) are stored coerced; everything else is saved as answered.
+async function toContactCustomFields(
+  supabase: SupabaseClient,
+  team_id: string,
+  answers: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const { data: definitions, error } = await supabase
+    .from("contact_custom_fields")
+    .select("key, label, field_type, options, currency")
+    .eq("team_id", team_id);
+  if (error || !definitions?.length) return answers;
+
+  const defined = new Set((definitions as CustomFieldDefinition[]).map((definition) => definition.key));
+  const raw: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(answers)) {
+    // Step answers arrive as { value, step_type, content }
+    const isWrapped = value && typeof value === "object" && !Array.isArray(value) && "value" in value;
+    raw[key] = defined.has(key) && isWrapped ? value.value : value;
+  }
+
+  const { values, errors } = coerceCustomFieldValues(definitions, raw);
+  if (errors.length > 0) {
+    console.warn("[submit-funnel-lead] Custom field answers kept as given:", errors);
+  }
+  return values;
+}
+
 async function resolveContact(
   supabase: any,
   team_id: string,
@@ -598,10 +646,14 @@ serve(async (req) => {
 
     const clientRequestId: string | null = body.clientRequestId ?? null;
 
-    // UTM attribution tracking - extract from request body
-    const utm_source: string | null = body.utm_source ?? null;
-    const utm_medium: string | null = body.utm_medium ?? null;
-    const utm_campaign: string | null = body.utm_campaign ?? null;
+    // Hidden fields (utm_*, click IDs, cookies, referrer) captured by the funnel runtime
+    const hidden_fields = sanitizeHiddenFields(body.hidden_fields);
+    const hasHiddenFields = Object.keys(hidden_fields).length > 0;
+
+    // UTM attribution tracking - extract from request body, falling back to hidden fields
+    const utm_source: string | null = body.utm_source ?? hidden_fields.utm_source ?? null;
+    const utm_medium: string | null = body.utm_medium ?? hidden_fields.utm_medium ?? null;
+    const utm_campaign: string | null = body.utm_campaign ?? hidden_fields.utm_campaign ?? null;
 
     let step_intent: StepIntent | null = step_intent_raw as StepIntent | null;
     if (!step_intent && step_type) {
@@ -806,6 +858,11 @@ serve(async (req) => {
 
     // Skip contact creation on draft saves - only create contacts on explicit submit
     // This reduces DB load and improves performance for draft saves
+    // Resolved on first use so draft saves that never touch the contact skip the lookup
+    let contactCustomFieldsPromise: Promise<Record<string, unknown>> | null = null;
+    const getContactCustomFields = () =>
+      (contactCustomFieldsPromise ??= toContactCustomFields(supabase, funnel.team_id, answers));
+
     const shouldAttemptContactResolution =
       autoCreateAllowed &&
       hasIdentityInput &&
@@ -824,7 +881,7 @@ serve(async (req) => {
         nameNormalized,
         funnel.name,  // funnel name for source field
         lead_id,      // may be null for new leads
-        answers,      // form answers for custom_fields
+        await getContactCustomFields(), // form answers for custom_fields
         optInStatus,  // consent status
       );
 
@@ -870,6 +927,12 @@ serve(async (req) => {
         ...(utm_source && { utm_source }),
         ...(utm_medium && { utm_medium }),
         ...(utm_campaign && { utm_campaign }),
+        // Merged so keys captured earlier survive a submission that lacks them
+        ...(hasHiddenFields && {
+          hidden_fields: { ...(existingLead.hidden_fields || {}), ...hidden_fields },
+        }),
+        // Idle time from here drives the funnel_abandoned trigger for partial leads
+        last_activity_at: new Date().toISOString(),
       };
 
       const { data: updatedLead, error: updateError } = await supabase
@@ -938,6 +1001,8 @@ serve(async (req) => {
             utm_source: utm_source || null,
             utm_medium: utm_medium || null,
             utm_campaign: utm_campaign || null,
+            hidden_fields,
+            last_activity_at: new Date().toISOString(),
           })
           .select()
           .single();
@@ -965,7 +1030,7 @@ serve(async (req) => {
             .single();
 
           const existingCustomFields = existingContact?.custom_fields || {};
-          const mergedCustomFields = { ...existingCustomFields, ...answers };
+          const mergedCustomFields = { ...existingCustomFields, ...(await getContactCustomFields()) };
 
           // Update contact with lead link and funnel info
           const contactUpdate: any = {
@@ -1021,6 +1086,7 @@ serve(async (req) => {
                 stepType: step_type,
                 stepIntent: step_intent,
                 formData: answers,
+                hiddenFields: lead.hidden_fields || hidden_fields,
                 contactId: contactId,
                 submittedAt: new Date().toISOString(),
               },
@@ -1030,6 +1096,16 @@ serve(async (req) => {
         .catch((err: any) => {
           console.error("Failed to invoke automation-trigger (form_submitted):", err);
         });
+
+      // The lead is no longer abandoned: stop any funnel_abandoned recovery sequence
+      supabase
+        .rpc("cancel_funnel_abandonment", { p_funnel_lead_id: lead.id })
+        .then(({ error }: { error: unknown }) => {
+          if (error) console.error("[submit-funnel-lead] Failed to cancel funnel abandonment:", error);
+        })
+        .catch((err: unknown) => {
+          console.error("[submit-funnel-lead] Failed to cancel funnel abandonment:", err);
+        });
     } else {
       console.log(
         `[submit-funnel-lead] effectiveSubmitMode=${effectiveSubmitMode}, skipping automation-trigger`,
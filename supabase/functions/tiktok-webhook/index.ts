@@ -1,8 +1,16 @@
 // supabase/functions/tiktok-webhook/index.ts
 // Handles TikTok Lead Gen webhooks.
 // Fetches full lead data, creates/updates contacts, fires automation events.
+// Events must carry a valid TikTok-Signature (t=...,s=...) made with the team's app
+// secret; without one they're refused unless ALLOW_UNSIGNED_WEBHOOKS=true.
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ALLOW_UNSIGNED_WEBHOOKS_ENV,
+  recordWebhookRejection,
+  verifyTimestampedSignature,
+  verifyWithoutSecret,
+} from "../_shared/webhook-signature.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -16,27 +24,6 @@ function getSupabaseClient() {
   );
 }
 
-// Verify TikTok webhook signature using HMAC-SHA256
-async function verifySignature(body: string, signature: string, secret: string): Promise<boolean> {
-  try {
-    const encoder = new TextEncoder();
-    const key = await crypto.subtle.importKey(
-      "raw",
-      encoder.encode(secret),
-      { name: "HMAC", hash: "SHA-256" },
-      false,
-      ["sign"]
-    );
-    const sig = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
-    const expectedSig = Array.from(new Uint8Array(sig))
-      .map((b) => b.toString(16).padStart(2, "0"))
-      .join("");
-    return signature === expectedSig;
-  } catch {
-    return false;
-  }
-}
-
 // Extract contact data from TikTok lead fields
 function extractLeadData(leadFields: any[]): Record<string, any> {
   const fields: Record<string, any> = {};
@@ -97,7 +84,6 @@ Deno.serve(async (req) => {
     }
 
     const body = await req.text();
-    const payload = JSON.parse(body);
 
     console.log("[TikTok Webhook] Received event for team:", teamId);
 
@@ -111,21 +97,32 @@ Deno.serve(async (req) => {
       .eq("integration_type", "tiktok")
       .single();
 
-    // Verify signature if available
-    const signature = req.headers.get("x-tiktok-signature") || req.headers.get("x-signature");
-    if (signature) {
-      const appSecret = integration?.config?.app_secret;
-      if (appSecret) {
-        const isValid = await verifySignature(body, signature, appSecret);
-        if (!isValid) {
-          console.error("[TikTok Webhook] Signature verification failed");
-          return new Response(JSON.stringify({ error: "Invalid signature" }), {
-            status: 401,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
-        }
-      }
+    const appSecret = integration?.config?.app_secret;
+    const verification = appSecret
+      ? await verifyTimestampedSignature(
+        appSecret,
+        body,
+        req.headers.get("tiktok-signature") || req.headers.get("x-tiktok-signature"),
+      )
+      : verifyWithoutSecret(Deno.env.get(ALLOW_UNSIGNED_WEBHOOKS_ENV));
+    if (!verification.ok) {
+      console.error("[TikTok Webhook] Signature verification failed:", verification.reason);
+      await recordWebhookRejection(supabase, {
+        source: "tiktok-webhook",
+        provider: "tiktok",
+        teamId,
+        reason: verification.reason,
+      });
+      return new Response(JSON.stringify({ error: "Invalid signature" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
+    if (!appSecret) {
+      console.warn("[TikTok Webhook] No app secret configured for team, accepting unsigned event:", teamId);
+    }
+
+    const payload = JSON.parse(body);
 
     // Parse TikTok lead data
     // TikTok sends lead form data in different formats depending on the webhook version
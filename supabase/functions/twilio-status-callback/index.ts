@@ -1,12 +1,21 @@
 // supabase/functions/twilio-status-callback/index.ts
 // Handles SMS/WhatsApp/Voice delivery status callbacks from Twilio.
 // Updates message_logs and fires messaging_error trigger on failures.
+// Requests must carry a valid X-Twilio-Signature; while TWILIO_AUTH_TOKEN is unset
+// they're refused unless ALLOW_UNSIGNED_WEBHOOKS=true.
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ALLOW_UNSIGNED_WEBHOOKS_ENV,
+  buildPublicFunctionUrl,
+  recordWebhookRejection,
+  verifyTwilioSignature,
+  verifyWithoutSecret,
+} from "../_shared/webhook-signature.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-twilio-signature",
 };
 
 function getSupabaseClient() {
@@ -46,7 +55,34 @@ Deno.serve(async (req) => {
 
   try {
     // Twilio sends callbacks as URL-encoded form data
-    const formData = await req.formData();
+    const formData = new URLSearchParams(await req.text());
+
+    const authToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+    const verification = authToken
+      ? await verifyTwilioSignature(
+        authToken,
+        buildPublicFunctionUrl(Deno.env.get("SUPABASE_URL")!, "twilio-status-callback", req.url),
+        formData,
+        req.headers.get("x-twilio-signature"),
+      )
+      : verifyWithoutSecret(Deno.env.get(ALLOW_UNSIGNED_WEBHOOKS_ENV));
+    if (!verification.ok) {
+      console.error("[twilio-status-callback] Rejected callback:", verification.reason);
+      await recordWebhookRejection(supabase, {
+        source: "twilio-status-callback",
+        provider: "twilio",
+        reason: verification.reason,
+        details: { messageSid: formData.get("MessageSid") },
+      });
+      return new Response(
+        JSON.stringify({ error: "Invalid signature" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+    if (!authToken) {
+      console.warn(`[twilio-status-callback] TWILIO_AUTH_TOKEN not set, accepting unsigned callback (${ALLOW_UNSIGNED_WEBHOOKS_ENV}=true)`);
+    }
+
     const messageSid = formData.get("MessageSid") as string || formData.get("SmsSid") as string;
     const messageStatus = formData.get("MessageStatus") as string || formData.get("SmsStatus") as string;
     const errorCode = formData.get("ErrorCode") as string | null;
@@ -1,11 +1,22 @@
 // supabase/functions/webhook-receiver/index.ts
 // Inbound webhook receiver for automation triggers
+// When a webhook_received automation this request would run has a secret, the
+// request must be signed: X-Webhook-Signature is sha256=<hex HMAC of
+// "<X-Webhook-Timestamp>.<raw body>">, and the timestamp must be recent.
 
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getWebhookTriggerSecrets,
+  recordWebhookRejection,
+  verifyHmacSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type VerificationResult,
+} from "../_shared/webhook-signature.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-webhook-secret",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-webhook-signature, x-webhook-timestamp",
 };
 
 function getSupabaseClient() {
@@ -35,21 +46,58 @@ Deno.serve(async (req) => {
   }
 
   try {
+    const rawBody = req.method === "POST" || req.method === "PUT" ? await req.text() : "";
+
+    const { data: automations, error: automationsError } = await supabase
+      .from("automations")
+      .select("definition")
+      .eq("team_id", teamId)
+      .eq("trigger_type", "webhook_received")
+      .eq("is_active", true);
+
+    if (automationsError) {
+      throw new Error(`Failed to load webhook automations: ${automationsError.message}`);
+    }
+
+    const secrets = getWebhookTriggerSecrets(automations || [], webhookId);
+    if (secrets.length > 0) {
+      const signature = req.headers.get(WEBHOOK_SIGNATURE_HEADER);
+      const timestamp = req.headers.get(WEBHOOK_TIMESTAMP_HEADER);
+      let verification: VerificationResult = { ok: false, reason: "invalid_signature" };
+      for (const secret of secrets) {
+        verification = await verifyHmacSignature(secret, rawBody, signature, timestamp);
+        if (verification.ok) break;
+      }
+
+      if (!verification.ok) {
+        console.error("[webhook-receiver] Rejected webhook:", { teamId, webhookId, reason: verification.reason });
+        await recordWebhookRejection(supabase, {
+          source: "webhook-receiver",
+          teamId,
+          reason: verification.reason,
+          details: { webhookId },
+        });
+        return new Response(
+          JSON.stringify({ success: false, error: "Invalid signature" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+        );
+      }
+    }
+
     // Parse the incoming payload
     let payload: Record<string, any> = {};
 
-    if (req.method === "POST" || req.method === "PUT") {
+    if (rawBody) {
       const contentType = req.headers.get("content-type") || "";
 
       if (contentType.includes("application/json")) {
-        payload = await req.json();
+        payload = JSON.parse(rawBody);
       } else if (contentType.includes("application/x-www-form-urlencoded")) {
-        const formData = await req.formData();
-        for (const [key, value] of formData.entries()) {
+        for (const [key, value] of new URLSearchParams(rawBody).entries()) {
           payload[key] = value;
         }
       } else {
-        payload = { rawBody: await req.text() };
+        payload = { rawBody };
       }
     }
 
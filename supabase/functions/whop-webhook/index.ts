@@ -1,4 +1,12 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ALLOW_UNSIGNED_WEBHOOKS_ENV,
+  recordWebhookRejection,
+  verifySvixSignature,
+  verifyTimestampedSignature,
+  verifyWithoutSecret,
+  type VerificationResult,
+} from "../_shared/webhook-signature.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,37 +29,22 @@ const EVENT_TO_TRIGGER: Record<string, string> = {
   "membership.deactivated": "subscription_cancelled",
 };
 
-async function verifyWhopSignature(
-  body: string,
-  signature: string,
-  secret: string
-): Promise<boolean> {
-  try {
-    // Whop uses HMAC-SHA256 for webhook verification
-    const encoder = new TextEncoder();
-    const key = await crypto.subtle.importKey(
-      "raw",
-      encoder.encode(secret),
-      { name: "HMAC", hash: "SHA-256" },
-      false,
-      ["verify"]
-    );
-
-    const signatureBytes = Uint8Array.from(
-      atob(signature),
-      (c) => c.charCodeAt(0)
-    );
-
-    return await crypto.subtle.verify(
-      "HMAC",
-      key,
-      signatureBytes,
-      encoder.encode(body)
-    );
-  } catch (error) {
-    console.error("[whop-webhook] Signature verification error:", error);
-    return false;
+// Whop signs with Standard Webhooks headers; older apps send a Stripe-style
+// whop-signature header instead
+function verifyWhopSignature(req: Request, body: string, secret: string): Promise<VerificationResult> {
+  const standardSignature = req.headers.get("webhook-signature");
+  if (standardSignature) {
+    return verifySvixSignature(secret, body, {
+      id: req.headers.get("webhook-id"),
+      timestamp: req.headers.get("webhook-timestamp"),
+      signature: standardSignature,
+    });
   }
+  return verifyTimestampedSignature(
+    secret,
+    body,
+    req.headers.get("x-whop-signature") || req.headers.get("whop-signature"),
+  );
 }
 
 Deno.serve(async (req) => {
@@ -95,17 +88,26 @@ Deno.serve(async (req) => {
     // Get request body
     const body = await req.text();
 
-    // Verify webhook signature if webhook secret is configured
-    const signature = req.headers.get("whop-signature");
-    if (config.webhook_secret && signature) {
-      const isValid = await verifyWhopSignature(body, signature, config.webhook_secret);
-      if (!isValid) {
-        console.error("[whop-webhook] Invalid signature for team:", teamId);
-        return new Response(
-          JSON.stringify({ error: "Invalid signature" }),
-          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
+    // Every event must be signed with the team's webhook secret; a team without
+    // one is refused unless unsigned webhooks were explicitly allowed
+    const verification = config.webhook_secret
+      ? await verifyWhopSignature(req, body, config.webhook_secret)
+      : verifyWithoutSecret(Deno.env.get(ALLOW_UNSIGNED_WEBHOOKS_ENV));
+    if (!verification.ok) {
+      console.error("[whop-webhook] Rejected event for team:", teamId, verification.reason);
+      await recordWebhookRejection(supabase, {
+        source: "whop-webhook",
+        provider: "whop",
+        teamId,
+        reason: verification.reason,
+      });
+      return new Response(
+        JSON.stringify({ error: "Invalid signature" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (!config.webhook_secret) {
+      console.warn("[whop-webhook] No webhook secret configured for team, accepting unsigned event:", teamId);
     }
 
     // Parse the event
@@ -0,0 +1,221 @@
+-- ==============================
+-- Migration: Race-free scheduled job queue + cron-based scheduled triggers
+--
+-- 1. Lease columns, attempt counters and a dead-letter state on scheduled_automation_jobs
+-- 2. claim_scheduled_automation_jobs(): atomic claim-with-lease using FOR UPDATE SKIP LOCKED,
+--    so overlapping process-scheduled-jobs invocations never resume the same job twice
+-- 3. scheduled_automation_jobs_dead_letter view for the Activity tab (manual retry)
+-- 4. scheduled_trigger_fires: one row per (automation, cron slot) so a scheduled_trigger
+--    automation fires exactly once per slot even when cron ticks overlap or run late
+-- 5. edge_function_url() and the pg_cron job calling process-scheduled-jobs every minute
+-- ==============================
+
+-- ==============================
+-- PART 1: Queue columns
+-- ==============================
+
+ALTER TABLE public.scheduled_automation_jobs
+  ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts INT NOT NULL DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ,
+  -- Referenced by the cleanup-old-scheduled-jobs cron but never created
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+DROP TRIGGER IF EXISTS update_scheduled_automation_jobs_updated_at ON public.scheduled_automation_jobs;
+CREATE TRIGGER update_scheduled_automation_jobs_updated_at
+  BEFORE UPDATE ON public.scheduled_automation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Statuses: pending, processing, waiting_for_event, completed, cancelled, failed (legacy), dead_letter
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_lease ON public.scheduled_automation_jobs(locked_until)
+  WHERE status = 'processing';
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_dead_letter ON public.scheduled_automation_jobs(team_id, dead_lettered_at DESC)
+  WHERE status = 'dead_letter';
+
+-- ==============================
+-- PART 2: Atomic claim-with-lease
+-- ==============================
+
+CREATE OR REPLACE FUNCTION public.claim_scheduled_automation_jobs(
+  p_worker_id TEXT,
+  p_limit INT DEFAULT 50,
+  p_lease_seconds INT DEFAULT 300
+)
+RETURNS SETOF public.scheduled_automation_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- A worker that died mid-job leaves an expired lease behind. If that was the
+  -- job's last attempt, dead-letter it instead of handing it out again.
+  UPDATE scheduled_automation_jobs
+     SET status = 'dead_letter',
+         dead_lettered_at = now(),
+         locked_by = NULL,
+         locked_until = NULL,
+         error_message = COALESCE(error_message, 'Lease expired on final attempt')
+   WHERE status = 'processing'
+     AND (locked_until IS NULL OR locked_until < now())
+     AND attempts >= max_attempts;
+
+  -- Claim due jobs plus expired leases. SKIP LOCKED lets concurrent claimers
+  -- pass over rows another transaction is claiming instead of double-claiming.
+  RETURN QUERY
+  UPDATE scheduled_automation_jobs AS j
+     SET status = 'processing',
+         locked_by = p_worker_id,
+         locked_until = now() + make_interval(secs => p_lease_seconds),
+         attempts = j.attempts + 1,
+         last_attempt_at = now()
+   WHERE j.id IN (
+     SELECT c.id
+       FROM scheduled_automation_jobs c
+      WHERE (c.status = 'pending' AND c.resume_at <= now())
+         OR (c.status = 'processing' AND (c.locked_until IS NULL OR c.locked_until < now()))
+      ORDER BY c.resume_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING j.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_scheduled_automation_jobs(TEXT, INT, INT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_scheduled_automation_jobs(TEXT, INT, INT) TO service_role;
+
+-- ==============================
+-- PART 3: Dead-letter view
+-- ==============================
+
+CREATE OR REPLACE VIEW public.scheduled_automation_jobs_dead_letter
+WITH (security_invoker = on)
+AS
+SELECT
+  j.id,
+  j.team_id,
+  j.automation_id,
+  a.name AS automation_name,
+  j.run_id,
+  j.step_id,
+  j.status,
+  j.attempts,
+  j.max_attempts,
+  j.error_message,
+  j.resume_at,
+  j.last_attempt_at,
+  j.dead_lettered_at,
+  j.created_at
+FROM public.scheduled_automation_jobs j
+LEFT JOIN public.automations a ON a.id = j.automation_id
+-- 'failed' rows predate the dead-letter state and are equally terminal
+WHERE j.status IN ('dead_letter', 'failed');
+
+-- ==============================
+-- PART 4: Scheduled trigger slots
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.scheduled_trigger_fires (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  automation_id UUID REFERENCES public.automations(id) ON DELETE CASCADE NOT NULL,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  cron_expression TEXT NOT NULL,
+  timezone TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, fired, failed
+  error_message TEXT,
+  fired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  -- The insert IS the claim: only one invocation can record a given slot
+  CONSTRAINT scheduled_trigger_fires_slot_key UNIQUE (automation_id, scheduled_for)
+);
+
+ALTER TABLE public.scheduled_trigger_fires ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view scheduled trigger fires"
+  ON public.scheduled_trigger_fires
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = scheduled_trigger_fires.team_id
+        AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_trigger_fires_automation
+  ON public.scheduled_trigger_fires(automation_id, scheduled_for DESC);
+
+-- ==============================
+-- PART 5: pg_cron job for process-scheduled-jobs
+-- Runs every minute: claims due delayed steps, then fires due scheduled triggers
+-- ==============================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Edge function URL for cron jobs, with the same project URL fallback as
+-- fire_automation_event() when supabase.url is not set
+CREATE OR REPLACE FUNCTION public.edge_function_url(p_function TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_supabase_url TEXT;
+BEGIN
+  v_supabase_url := current_setting('supabase.url', true);
+
+  IF v_supabase_url IS NULL OR v_supabase_url = '' THEN
+    v_supabase_url := 'https://inbvluddkutyfhsxfqco.supabase.co';
+  END IF;
+
+  RETURN rtrim(v_supabase_url, '/') || '/functions/v1/' || p_function;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.edge_function_url(TEXT) FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF public.edge_function_url('process-scheduled-jobs') IS NULL THEN
+    RAISE EXCEPTION 'Cannot resolve the process-scheduled-jobs URL; set supabase.url';
+  END IF;
+END;
+$$;
+
+SELECT cron.unschedule('process-scheduled-jobs')
+WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'process-scheduled-jobs'
+);
+
+SELECT cron.schedule(
+  'process-scheduled-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := public.edge_function_url('process-scheduled-jobs'),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || coalesce(current_setting('supabase.service_role_key', true), '')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
+
+-- Replaces the unauthenticated job from the automation engine migration, which
+-- would otherwise call the function a second time every minute. Only dropped
+-- once the new job is scheduled, so delayed steps never go unprocessed.
+SELECT cron.unschedule('process-scheduled-automation-jobs')
+WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'process-scheduled-automation-jobs'
+)
+AND EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'process-scheduled-jobs' AND active
+);
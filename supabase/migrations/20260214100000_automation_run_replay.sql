@@ -0,0 +1,28 @@
+-- ==============================
+-- Migration: Automation run replay / time-travel debugger
+--
+-- 1. Per-step context snapshots (before/after) on automation_step_logs
+-- 2. Dry-run flag on automation_runs so replays are distinguishable from real runs
+--    (replay_of_run_id already exists)
+-- ==============================
+
+-- ==============================
+-- PART 1: Step context snapshots
+-- ==============================
+
+ALTER TABLE public.automation_step_logs
+  ADD COLUMN IF NOT EXISTS context_before JSONB,
+  ADD COLUMN IF NOT EXISTS context_after JSONB;
+
+-- The debugger loads one run's logs in execution order
+CREATE INDEX IF NOT EXISTS idx_step_logs_run_started ON public.automation_step_logs(run_id, started_at);
+
+-- ==============================
+-- PART 2: Dry-run replays
+-- ==============================
+
+ALTER TABLE public.automation_runs
+  ADD COLUMN IF NOT EXISTS is_dry_run BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_automation_runs_replay_of ON public.automation_runs(replay_of_run_id)
+  WHERE replay_of_run_id IS NOT NULL;
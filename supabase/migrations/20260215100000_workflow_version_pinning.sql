@@ -0,0 +1,160 @@
+-- ==============================
+-- Migration: Pin in-flight enrollments to a workflow version
+--
+-- 1. workflow_version_id on automation_enrollments and scheduled_automation_jobs,
+--    so a contact parked in a delay resumes on the version it started on
+-- 2. What publishing a version did with contacts mid-flow (keep / migrate / exit)
+-- 3. apply_workflow_version_in_flight(): applies that choice atomically on publish
+-- ==============================
+
+-- ==============================
+-- PART 1: Version pinning
+-- ==============================
+
+ALTER TABLE public.automation_enrollments
+  ADD COLUMN IF NOT EXISTS workflow_version_id UUID REFERENCES public.workflow_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.scheduled_automation_jobs
+  ADD COLUMN IF NOT EXISTS workflow_version_id UUID REFERENCES public.workflow_versions(id) ON DELETE SET NULL;
+
+-- Publishing looks up who is still mid-flow on an older version
+CREATE INDEX IF NOT EXISTS idx_enrollments_active_version
+  ON public.automation_enrollments(automation_id, workflow_version_id)
+  WHERE status = 'active';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_waiting_version
+  ON public.scheduled_automation_jobs(automation_id, workflow_version_id)
+  WHERE status IN ('pending', 'waiting_for_event');
+
+-- ==============================
+-- PART 2: In-flight policy per published version
+-- ==============================
+
+ALTER TABLE public.workflow_versions
+  ADD COLUMN IF NOT EXISTS in_flight_policy TEXT NOT NULL DEFAULT 'keep'
+    CHECK (in_flight_policy IN ('keep', 'migrate', 'exit')),
+  -- old step id -> new step id (null = exit contacts waiting there); only set for 'migrate'
+  ADD COLUMN IF NOT EXISTS step_id_map JSONB;
+
+-- ==============================
+-- PART 3: Apply the policy on publish
+-- ==============================
+
+-- p_job_moves (migrate only) is computed by the editor from the step-id map:
+--   [{ "job_id": uuid, "action": "move" | "exit", "remaining_steps": [step ids on the new version] }]
+-- Jobs that aren't listed stay on their version.
+CREATE OR REPLACE FUNCTION public.apply_workflow_version_in_flight(
+  p_version_id UUID,
+  p_policy TEXT,
+  p_step_map JSONB DEFAULT NULL,
+  p_job_moves JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_version workflow_versions%ROWTYPE;
+  v_exit_reason TEXT;
+  v_moved INT := 0;
+  v_exited INT := 0;
+  v_count INT;
+  v_move JSONB;
+  v_contact_id TEXT;
+  v_moved_contacts UUID[] := '{}';
+BEGIN
+  SELECT * INTO v_version FROM workflow_versions WHERE id = p_version_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workflow version % not found', p_version_id;
+  END IF;
+
+  IF NOT public.is_team_member(auth.uid(), v_version.team_id) THEN
+    RAISE EXCEPTION 'Not a member of this team';
+  END IF;
+
+  IF p_policy NOT IN ('keep', 'migrate', 'exit') THEN
+    RAISE EXCEPTION 'Unknown in-flight policy: %', p_policy;
+  END IF;
+
+  UPDATE workflow_versions
+     SET in_flight_policy = p_policy,
+         step_id_map = CASE WHEN p_policy = 'migrate' THEN p_step_map ELSE NULL END
+   WHERE id = p_version_id;
+
+  v_exit_reason := format('Workflow updated to v%s', v_version.version_number);
+
+  IF p_policy = 'exit' THEN
+    UPDATE scheduled_automation_jobs
+       SET status = 'cancelled',
+           error_message = v_exit_reason
+     WHERE automation_id = v_version.automation_id
+       AND status IN ('pending', 'waiting_for_event')
+       AND workflow_version_id IS DISTINCT FROM p_version_id;
+
+    UPDATE automation_enrollments
+       SET status = 'exited',
+           exited_at = now(),
+           exit_reason = v_exit_reason
+     WHERE automation_id = v_version.automation_id
+       AND status = 'active'
+       AND workflow_version_id IS DISTINCT FROM p_version_id;
+    GET DIAGNOSTICS v_exited = ROW_COUNT;
+
+  ELSIF p_policy = 'migrate' THEN
+    FOR v_move IN SELECT * FROM jsonb_array_elements(COALESCE(p_job_moves, '[]'::jsonb))
+    LOOP
+      IF v_move->>'action' = 'exit' THEN
+        UPDATE scheduled_automation_jobs
+           SET status = 'cancelled',
+               error_message = v_exit_reason
+         WHERE id = (v_move->>'job_id')::uuid
+           AND automation_id = v_version.automation_id
+           AND status IN ('pending', 'waiting_for_event')
+        RETURNING context_snapshot->'lead'->>'id' INTO v_contact_id;
+
+        IF v_contact_id IS NOT NULL THEN
+          UPDATE automation_enrollments
+             SET status = 'exited',
+                 exited_at = now(),
+                 exit_reason = v_exit_reason
+           WHERE automation_id = v_version.automation_id
+             AND contact_id = v_contact_id::uuid
+             AND status = 'active';
+          GET DIAGNOSTICS v_count = ROW_COUNT;
+          v_exited := v_exited + v_count;
+        END IF;
+      ELSE
+        UPDATE scheduled_automation_jobs
+           SET workflow_version_id = p_version_id,
+               context_snapshot = context_snapshot
+                 || jsonb_build_object('remainingSteps', COALESCE(v_move->'remaining_steps', '[]'::jsonb))
+         WHERE id = (v_move->>'job_id')::uuid
+           AND automation_id = v_version.automation_id
+           AND status IN ('pending', 'waiting_for_event')
+        RETURNING context_snapshot->'lead'->>'id' INTO v_contact_id;
+
+        IF FOUND THEN
+          v_moved := v_moved + 1;
+          IF v_contact_id IS NOT NULL THEN
+            v_moved_contacts := array_append(v_moved_contacts, v_contact_id::uuid);
+          END IF;
+        END IF;
+      END IF;
+    END LOOP;
+
+    -- Contacts whose jobs moved follow them onto the new version; everyone
+    -- else stays pinned to the version they enrolled on
+    UPDATE automation_enrollments
+       SET workflow_version_id = p_version_id
+     WHERE automation_id = v_version.automation_id
+       AND status = 'active'
+       AND contact_id = ANY(v_moved_contacts)
+       AND workflow_version_id IS DISTINCT FROM p_version_id;
+  END IF;
+
+  RETURN jsonb_build_object('policy', p_policy, 'moved', v_moved, 'exited', v_exited);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_workflow_version_in_flight(UUID, TEXT, JSONB, JSONB) TO authenticated;
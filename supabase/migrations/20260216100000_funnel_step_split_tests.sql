@@ -0,0 +1,64 @@
+-- ==============================
+-- Migration: Step-level split test stats for funnel-builder-v3
+--
+-- 1. Index for reading variant exposures and conversions out of events
+-- 2. get_funnel_split_test_stats(): unique visitors and conversions per
+--    step variant, aggregated in the database instead of the browser
+--
+-- The runtime tags step_viewed / step_completed events on split-tested steps
+-- with payload.variantId; variant definitions live in the funnel document.
+-- ==============================
+
+-- ==============================
+-- PART 1: Index
+-- ==============================
+
+CREATE INDEX IF NOT EXISTS idx_events_funnel_variant
+  ON public.events(funnel_id, event_type, step_id, session_id)
+  WHERE payload ? 'variantId';
+
+-- ==============================
+-- PART 2: Stats function
+-- ==============================
+
+-- A session counts once per step: its first step_viewed decides the variant
+-- (assignment is deterministic per session, so later views agree), and any
+-- step_completed for that step is a conversion. Runs as the caller, so the
+-- events SELECT policy scopes results to funnels they can access.
+CREATE OR REPLACE FUNCTION public.get_funnel_split_test_stats(p_funnel_id TEXT)
+RETURNS TABLE (step_id TEXT, variant_id TEXT, visitors BIGINT, conversions BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH exposures AS (
+    SELECT DISTINCT ON (e.step_id, e.session_id)
+      e.step_id,
+      e.session_id,
+      e.payload->>'variantId' AS variant_id
+    FROM public.events e
+    WHERE e.funnel_id = p_funnel_id
+      AND e.event_type = 'step_viewed'
+      AND e.payload ? 'variantId'
+    ORDER BY e.step_id, e.session_id, e.created_at
+  ),
+  completions AS (
+    SELECT DISTINCT e.step_id, e.session_id
+    FROM public.events e
+    WHERE e.funnel_id = p_funnel_id
+      AND e.event_type = 'step_completed'
+      AND e.payload ? 'variantId'
+  )
+  SELECT
+    x.step_id,
+    x.variant_id,
+    COUNT(*) AS visitors,
+    COUNT(c.session_id) AS conversions
+  FROM exposures x
+  LEFT JOIN completions c
+    ON c.step_id = x.step_id AND c.session_id = x.session_id
+  GROUP BY x.step_id, x.variant_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_funnel_split_test_stats(TEXT) TO authenticated;
@@ -0,0 +1,120 @@
+-- ==============================
+-- Migration: funnel_abandoned trigger
+--
+-- 1. funnel_leads.last_activity_at, bumped by submit-funnel-lead on every save,
+--    so process-scheduled-jobs can tell how long a partial lead has been idle
+-- 2. funnel_abandonment_fires: one row per (automation, funnel lead) so a
+--    funnel_abandoned automation fires at most once per abandoned lead
+-- 3. cancel_funnel_abandonment(): called when the lead submits - marks fires
+--    recovered and stops the recovery sequences still running for that lead
+-- ==============================
+
+-- ==============================
+-- PART 1: Lead activity timestamp
+-- ==============================
+
+ALTER TABLE public.funnel_leads
+  ADD COLUMN IF NOT EXISTS last_activity_at TIMESTAMPTZ DEFAULT now();
+
+UPDATE public.funnel_leads
+  SET last_activity_at = created_at
+  WHERE last_activity_at IS NULL OR last_activity_at > created_at;
+
+CREATE INDEX IF NOT EXISTS idx_funnel_leads_partial_activity
+  ON public.funnel_leads(team_id, last_activity_at)
+  WHERE status = 'partial';
+
+-- ==============================
+-- PART 2: Abandonment fires
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.funnel_abandonment_fires (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  automation_id UUID REFERENCES public.automations(id) ON DELETE CASCADE NOT NULL,
+  funnel_lead_id UUID REFERENCES public.funnel_leads(id) ON DELETE CASCADE NOT NULL,
+  funnel_id UUID NOT NULL,
+  last_activity_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, fired, failed, recovered
+  error_message TEXT,
+  fired_at TIMESTAMPTZ,
+  recovered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  -- The insert IS the claim: a lead is only treated as abandoned once per automation
+  CONSTRAINT funnel_abandonment_fires_lead_key UNIQUE (automation_id, funnel_lead_id)
+);
+
+ALTER TABLE public.funnel_abandonment_fires ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view funnel abandonment fires"
+  ON public.funnel_abandonment_fires
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = funnel_abandonment_fires.team_id
+        AND tm.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_funnel_abandonment_fires_lead
+  ON public.funnel_abandonment_fires(funnel_lead_id);
+
+-- ==============================
+-- PART 3: Cancel on submit
+-- ==============================
+
+-- Recovery runs carry meta.funnelLeadId in their context (partial leads usually
+-- have no contact yet), so delayed steps and enrollments are matched on that.
+-- Jobs a worker has already claimed are cancelled too: clearing locked_by means
+-- the worker can't settle them, and it re-checks the fire before resuming.
+CREATE OR REPLACE FUNCTION public.cancel_funnel_abandonment(p_funnel_lead_id UUID)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_automation_ids UUID[];
+  v_match JSONB := jsonb_build_object('meta', jsonb_build_object('funnelLeadId', p_funnel_lead_id::text));
+  v_cancelled INT := 0;
+BEGIN
+  UPDATE public.funnel_abandonment_fires
+  SET status = 'recovered',
+      recovered_at = now()
+  WHERE funnel_lead_id = p_funnel_lead_id
+    AND status IN ('pending', 'fired');
+
+  SELECT array_agg(DISTINCT automation_id) INTO v_automation_ids
+  FROM public.funnel_abandonment_fires
+  WHERE funnel_lead_id = p_funnel_lead_id;
+
+  IF v_automation_ids IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.scheduled_automation_jobs
+  SET status = 'cancelled',
+      error_message = 'Lead submitted the funnel',
+      locked_by = NULL,
+      locked_until = NULL
+  WHERE automation_id = ANY(v_automation_ids)
+    AND status IN ('pending', 'waiting_for_event', 'processing')
+    AND context_snapshot @> v_match;
+
+  GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+  UPDATE public.automation_enrollments
+  SET status = 'exited',
+      exited_at = now(),
+      exit_reason = 'Lead submitted the funnel'
+  WHERE automation_id = ANY(v_automation_ids)
+    AND status = 'active'
+    AND context_snapshot @> v_match;
+
+  RETURN v_cancelled;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.cancel_funnel_abandonment(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_funnel_abandonment(UUID) TO service_role;
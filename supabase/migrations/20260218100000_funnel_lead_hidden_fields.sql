@@ -0,0 +1,17 @@
+-- ==============================
+-- Migration: Hidden fields on funnel leads
+--
+-- 1. funnel_leads.hidden_fields: query params (utm_*, fbclid, gclid, ref, custom keys),
+--    cookies and referrer captured by the funnel runtime, as configured per funnel
+--    in settings.hiddenFields. submit-funnel-lead merges new keys into existing ones.
+-- ==============================
+
+-- ==============================
+-- PART 1: Column
+-- ==============================
+
+ALTER TABLE public.funnel_leads
+  ADD COLUMN IF NOT EXISTS hidden_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN public.funnel_leads.hidden_fields IS
+  'Attribution captured on landing (query params, cookies, referrer), keyed by hidden field key';
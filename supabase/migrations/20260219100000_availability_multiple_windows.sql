@@ -0,0 +1,106 @@
+-- ==============================
+-- Migration: Multiple availability windows per day
+--
+-- 1. availability_schedules: any number of rows per (team, user, weekday), one per
+--    working window (e.g. 09:00-12:00 and 14:00-19:00 around a lunch break).
+--    Still unique per (team, user, weekday, start_time), so re-running the default
+--    seeding can't duplicate a day
+-- 2. availability_overrides: any number of rows per (team, user, date). Available
+--    rows are the custom windows for that date; an unavailable row blocks the day
+-- 3. Windows must end after they start (NOT VALID - existing rows are left alone)
+-- 4. replace_availability_override(): swaps a date's override rows in one transaction
+-- ==============================
+
+-- ==============================
+-- PART 1: Weekly schedules
+-- ==============================
+
+DROP INDEX IF EXISTS public.availability_schedules_team_day_unique;
+DROP INDEX IF EXISTS public.availability_schedules_user_day_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS availability_schedules_team_day_start_unique
+  ON public.availability_schedules(team_id, day_of_week, start_time)
+  WHERE user_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS availability_schedules_user_day_start_unique
+  ON public.availability_schedules(team_id, user_id, day_of_week, start_time)
+  WHERE user_id IS NOT NULL;
+
+-- ==============================
+-- PART 2: Date overrides
+-- ==============================
+
+DROP INDEX IF EXISTS public.availability_overrides_team_date_unique;
+DROP INDEX IF EXISTS public.availability_overrides_user_date_unique;
+
+-- Blocked days have no start_time, and NULLs never conflict
+CREATE UNIQUE INDEX IF NOT EXISTS availability_overrides_team_date_start_unique
+  ON public.availability_overrides(team_id, date, start_time)
+  WHERE user_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS availability_overrides_user_date_start_unique
+  ON public.availability_overrides(team_id, user_id, date, start_time)
+  WHERE user_id IS NOT NULL;
+
+-- ==============================
+-- PART 3: Window bounds
+-- ==============================
+
+ALTER TABLE public.availability_schedules
+  DROP CONSTRAINT IF EXISTS availability_schedules_window_check;
+ALTER TABLE public.availability_schedules
+  ADD CONSTRAINT availability_schedules_window_check
+  CHECK (end_time > start_time) NOT VALID;
+
+ALTER TABLE public.availability_overrides
+  DROP CONSTRAINT IF EXISTS availability_overrides_window_check;
+ALTER TABLE public.availability_overrides
+  ADD CONSTRAINT availability_overrides_window_check
+  CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time) NOT VALID;
+
+-- ==============================
+-- PART 4: Replace a date's overrides atomically
+-- ==============================
+
+-- One row per window, or a single unavailable row for a day off. Runs as the
+-- caller, so the overrides RLS policies decide who may change which rows, and a
+-- failed insert rolls the delete back with it.
+CREATE OR REPLACE FUNCTION public.replace_availability_override(
+  p_team_id UUID,
+  p_user_id UUID,
+  p_date DATE,
+  p_is_available BOOLEAN,
+  p_windows JSONB DEFAULT '[]'::jsonb,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS SETOF public.availability_overrides
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF p_is_available AND jsonb_array_length(COALESCE(p_windows, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'An available override needs at least one window';
+  END IF;
+
+  DELETE FROM availability_overrides
+   WHERE team_id = p_team_id
+     AND user_id IS NOT DISTINCT FROM p_user_id
+     AND date = p_date;
+
+  IF p_is_available THEN
+    RETURN QUERY
+    INSERT INTO availability_overrides (team_id, user_id, date, is_available, start_time, end_time, reason)
+    SELECT p_team_id, p_user_id, p_date, true, (w->>'start_time')::time, (w->>'end_time')::time, p_reason
+      FROM jsonb_array_elements(p_windows) AS w
+    RETURNING *;
+  ELSE
+    RETURN QUERY
+    INSERT INTO availability_overrides (team_id, user_id, date, is_available, start_time, end_time, reason)
+    VALUES (p_team_id, p_user_id, p_date, false, NULL, NULL, p_reason)
+    RETURNING *;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replace_availability_override(UUID, UUID, DATE, BOOLEAN, JSONB, TEXT) TO authenticated;
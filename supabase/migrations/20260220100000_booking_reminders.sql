@@ -0,0 +1,225 @@
+-- ==============================
+-- Migration: Native booking reminders
+--
+-- 1. event_types.reminder_config: email/SMS reminders at any offset before the start.
+--    Reminders run as automations by default (pure automation architecture), so
+--    every event type starts with none, including any still holding the
+--    pre-automation offset_hours config; built-in reminders are opt-in
+-- 2. booking_reminders: one row per (appointment, channel, offset), written by
+--    create-booking / reschedule-booking and cancelled by cancel-booking.
+--    The native booking migration created an earlier version of this table, so
+--    every column, the unique key and the status check are added in place
+-- 3. claim_booking_reminders(): atomic claim-with-lease (FOR UPDATE SKIP LOCKED)
+-- 4. pg_cron job calling send-booking-reminders every minute
+-- ==============================
+
+-- ==============================
+-- PART 1: Reminder config on event types
+-- ==============================
+
+ALTER TABLE public.event_types
+  ADD COLUMN IF NOT EXISTS reminder_config JSONB;
+
+-- A column left over from the native booking migration holds offset_hours
+-- entries that were never sent from here; clear it along with NULLs
+UPDATE public.event_types
+   SET reminder_config = '[]'::jsonb
+ WHERE reminder_config IS NULL
+    OR jsonb_typeof(reminder_config) <> 'array'
+    OR jsonb_path_exists(reminder_config, '$[*].offset_hours');
+
+ALTER TABLE public.event_types
+  ALTER COLUMN reminder_config SET NOT NULL;
+
+ALTER TABLE public.event_types
+  ALTER COLUMN reminder_config SET DEFAULT '[]'::jsonb;
+
+-- ==============================
+-- PART 2: Reminder rows
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.booking_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE CASCADE NOT NULL,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('email', 'sms')),
+  template TEXT,
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Rows from the earlier table were written by the old send-booking-reminder job
+-- and have no offset or key; they are backfilled so the new columns can be NOT NULL
+ALTER TABLE public.booking_reminders
+  ADD COLUMN IF NOT EXISTS event_type_id UUID REFERENCES public.event_types(id) ON DELETE SET NULL,
+  -- Custom copy from reminder_config; NULL uses the built-in template
+  ADD COLUMN IF NOT EXISTS subject TEXT,
+  ADD COLUMN IF NOT EXISTS body TEXT,
+  ADD COLUMN IF NOT EXISTS offset_minutes INT,
+  -- "<type>:<offset_minutes>" - a reminder is scheduled at most once per appointment
+  ADD COLUMN IF NOT EXISTS reminder_key TEXT,
+  ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS provider_message_id TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+ALTER TABLE public.booking_reminders
+  ALTER COLUMN template DROP NOT NULL;
+
+UPDATE public.booking_reminders r
+   SET offset_minutes = GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (a.start_at_utc - r.scheduled_for)) / 60)::INT)
+  FROM public.appointments a
+ WHERE a.id = r.appointment_id
+   AND r.offset_minutes IS NULL
+   AND a.start_at_utc IS NOT NULL;
+
+UPDATE public.booking_reminders
+   SET offset_minutes = 0
+ WHERE offset_minutes IS NULL;
+
+-- Legacy rows can share a type and offset, so their key also carries the row id
+UPDATE public.booking_reminders
+   SET reminder_key = type || ':' || offset_minutes || ':legacy:' || id
+ WHERE reminder_key IS NULL;
+
+-- The old job is gone; nothing will send legacy rows that are still waiting
+UPDATE public.booking_reminders
+   SET status = 'cancelled',
+       last_error = 'Superseded by reminder_config reminders'
+ WHERE status IS NULL
+    OR (status = 'pending' AND reminder_key LIKE '%:legacy:%');
+
+UPDATE public.booking_reminders
+   SET created_at = COALESCE(sent_at, scheduled_for)
+ WHERE created_at IS NULL;
+
+ALTER TABLE public.booking_reminders
+  ALTER COLUMN offset_minutes SET NOT NULL,
+  ALTER COLUMN reminder_key SET NOT NULL,
+  ALTER COLUMN status SET NOT NULL,
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ALTER COLUMN created_at SET NOT NULL;
+
+-- pending, processing, sent, failed, cancelled, skipped
+ALTER TABLE public.booking_reminders
+  DROP CONSTRAINT IF EXISTS booking_reminders_status_check;
+ALTER TABLE public.booking_reminders
+  ADD CONSTRAINT booking_reminders_status_check
+  CHECK (status IN ('pending', 'processing', 'sent', 'failed', 'cancelled', 'skipped'));
+
+ALTER TABLE public.booking_reminders
+  DROP CONSTRAINT IF EXISTS booking_reminders_offset_minutes_check;
+ALTER TABLE public.booking_reminders
+  ADD CONSTRAINT booking_reminders_offset_minutes_check
+  CHECK (offset_minutes >= 0);
+
+ALTER TABLE public.booking_reminders
+  DROP CONSTRAINT IF EXISTS booking_reminders_appointment_key;
+ALTER TABLE public.booking_reminders
+  ADD CONSTRAINT booking_reminders_appointment_key UNIQUE (appointment_id, reminder_key);
+
+DROP TRIGGER IF EXISTS update_booking_reminders_updated_at ON public.booking_reminders;
+CREATE TRIGGER update_booking_reminders_updated_at
+  BEFORE UPDATE ON public.booking_reminders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_pending
+  ON public.booking_reminders(scheduled_for)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_lease
+  ON public.booking_reminders(locked_until)
+  WHERE status = 'processing';
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_appointment
+  ON public.booking_reminders(appointment_id);
+
+ALTER TABLE public.booking_reminders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages booking reminders" ON public.booking_reminders;
+CREATE POLICY "Service role manages booking reminders"
+  ON public.booking_reminders
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Team members can view booking reminders" ON public.booking_reminders;
+CREATE POLICY "Team members can view booking reminders"
+  ON public.booking_reminders
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+-- ==============================
+-- PART 3: Atomic claim-with-lease
+-- ==============================
+
+CREATE OR REPLACE FUNCTION public.claim_booking_reminders(
+  p_limit INT DEFAULT 50,
+  p_lease_seconds INT DEFAULT 120
+)
+RETURNS SETOF public.booking_reminders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- A worker that died mid-send on the last attempt leaves an expired lease behind
+  UPDATE booking_reminders
+     SET status = 'failed',
+         locked_until = NULL,
+         last_error = COALESCE(last_error, 'Lease expired on final attempt')
+   WHERE status = 'processing'
+     AND (locked_until IS NULL OR locked_until < now())
+     AND attempts >= 3;
+
+  -- Due reminders plus expired leases. The send functions aren't idempotent,
+  -- so a reminder is handed out at most 3 times.
+  RETURN QUERY
+  UPDATE booking_reminders AS r
+     SET status = 'processing',
+         locked_until = now() + make_interval(secs => p_lease_seconds),
+         attempts = r.attempts + 1
+   WHERE r.id IN (
+     SELECT c.id
+       FROM booking_reminders c
+      WHERE ((c.status = 'pending' AND c.scheduled_for <= now())
+         OR (c.status = 'processing' AND (c.locked_until IS NULL OR c.locked_until < now())))
+        AND c.attempts < 3
+      ORDER BY c.scheduled_for
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+   )
+  RETURNING r.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_booking_reminders(INT, INT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_booking_reminders(INT, INT) TO service_role;
+
+-- ==============================
+-- PART 4: pg_cron job for send-booking-reminders
+-- ==============================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.unschedule('send-booking-reminders')
+WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'send-booking-reminders'
+);
+
+SELECT cron.schedule(
+  'send-booking-reminders',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := public.edge_function_url('send-booking-reminders'),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || coalesce(current_setting('supabase.service_role_key', true), '')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,46 @@
+-- ==============================
+-- Migration: Calendar invites and subscribable iCal feeds
+--
+-- 1. appointments.ics_uid / ics_sequence: one UID per booking, shared by every
+--    appointment in a reschedule chain, with SEQUENCE bumped on reschedule and
+--    cancel so invite updates replace the original event
+-- 2. calendar_feed_tokens: secret per-user token for the calendar-feed function.
+--    One active token per user and team; regenerating revokes the old URL
+-- ==============================
+
+-- ==============================
+-- PART 1: Invite identity on appointments
+-- ==============================
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS ics_uid TEXT,
+  ADD COLUMN IF NOT EXISTS ics_sequence INT NOT NULL DEFAULT 0;
+
+-- NULL ics_uid (bookings made before this migration) falls back to "<id>@usestackit.co"
+
+-- ==============================
+-- PART 2: Feed tokens
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID NOT NULL,
+  -- 64 hex chars from two random UUIDs; the token is the only credential on the feed URL
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  last_accessed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feed_tokens_active_user
+  ON public.calendar_feed_tokens(team_id, user_id)
+  WHERE revoked_at IS NULL;
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own calendar feed tokens"
+  ON public.calendar_feed_tokens
+  FOR ALL
+  USING (user_id = auth.uid() AND public.can_access_workspace(auth.uid(), team_id))
+  WITH CHECK (user_id = auth.uid() AND public.can_access_workspace(auth.uid(), team_id));
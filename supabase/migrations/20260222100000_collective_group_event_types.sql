@@ -0,0 +1,43 @@
+-- ==============================
+-- Migration: Collective and group event types
+--
+-- 1. event_types.round_robin_mode gains 'collective' (every selected host attends,
+--    slots only where all are free) and 'group' (several invitees share one slot)
+-- 2. event_types.seats_per_slot: invitees per group session
+-- 3. appointments.additional_host_ids: collective co-hosts besides the closer, so
+--    their time counts as booked
+-- ==============================
+
+-- ==============================
+-- PART 1: Host modes
+-- ==============================
+
+ALTER TABLE public.event_types
+  DROP CONSTRAINT IF EXISTS event_types_round_robin_mode_check;
+
+ALTER TABLE public.event_types
+  ADD CONSTRAINT event_types_round_robin_mode_check
+  CHECK (round_robin_mode IN ('none', 'round_robin', 'availability_based', 'collective', 'group'));
+
+-- ==============================
+-- PART 2: Group seats
+-- ==============================
+
+ALTER TABLE public.event_types
+  ADD COLUMN IF NOT EXISTS seats_per_slot INT NOT NULL DEFAULT 1
+  CHECK (seats_per_slot BETWEEN 1 AND 500);
+
+-- Group invitees each get an appointment at the session's start; seats are
+-- counted per (event_type_id, start_at_utc)
+CREATE INDEX IF NOT EXISTS idx_appointments_event_type_start
+  ON public.appointments(event_type_id, start_at_utc);
+
+-- ==============================
+-- PART 3: Collective co-hosts
+-- ==============================
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS additional_host_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_appointments_additional_host_ids
+  ON public.appointments USING GIN (additional_host_ids);
@@ -0,0 +1,21 @@
+-- ==============================
+-- Migration: Booking intake routing rules
+--
+-- 1. event_types.routing_rules: ordered rules evaluated against the invitee's
+--    intake answers (event_types.questions). The first match sends the invitee to
+--    another event type, pins a specific host, or rejects the booking with a message
+-- ==============================
+
+-- ==============================
+-- PART 1: Routing rules
+-- ==============================
+
+ALTER TABLE public.event_types
+  ADD COLUMN IF NOT EXISTS routing_rules JSONB NOT NULL DEFAULT '[]';
+
+-- Rule shape:
+-- { "id": "...", "name": "...", "logic": "AND" | "OR",
+--   "conditions": [{ "field": "<question id>", "operator": "equals", "value": "..." }],
+--   "action": { "type": "route_event_type", "event_type_id": "..." }
+--           | { "type": "route_host", "user_id": "..." }
+--           | { "type": "reject", "message": "..." } }
@@ -0,0 +1,61 @@
+-- ==============================
+-- Migration: Microsoft 365 / Outlook calendar connections
+--
+-- 1. microsoft_calendar_connections: per-user Microsoft Graph tokens, mirroring
+--    google_calendar_connections. oauth_state holds the CSRF token between
+--    microsoft-oauth-start and microsoft-oauth-callback
+-- 2. appointments.outlook_event_id: the Outlook event created for a booking, so
+--    reschedule and cancel can move or delete it
+-- ==============================
+
+-- ==============================
+-- PART 1: Connections
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.microsoft_calendar_connections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  access_token text,
+  refresh_token text,
+  token_expires_at timestamptz,
+  -- NULL = the account's default calendar
+  calendar_id text,
+  sync_enabled boolean NOT NULL DEFAULT false,
+  oauth_state text,
+  connected_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(team_id, user_id)
+);
+
+ALTER TABLE public.microsoft_calendar_connections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own outlook connections" ON public.microsoft_calendar_connections;
+CREATE POLICY "Users can view own outlook connections"
+  ON public.microsoft_calendar_connections FOR SELECT
+  USING (auth.uid() = user_id AND public.can_access_workspace(auth.uid(), team_id));
+
+DROP POLICY IF EXISTS "Users can update own outlook connections" ON public.microsoft_calendar_connections;
+CREATE POLICY "Users can update own outlook connections"
+  ON public.microsoft_calendar_connections FOR UPDATE
+  USING (auth.uid() = user_id AND public.can_access_workspace(auth.uid(), team_id));
+
+DROP POLICY IF EXISTS "Users can delete own outlook connections" ON public.microsoft_calendar_connections;
+CREATE POLICY "Users can delete own outlook connections"
+  ON public.microsoft_calendar_connections FOR DELETE
+  USING (auth.uid() = user_id AND public.can_access_workspace(auth.uid(), team_id));
+
+-- Rows are created by microsoft-oauth-start / -callback
+DROP POLICY IF EXISTS "Service role manages outlook connections" ON public.microsoft_calendar_connections;
+CREATE POLICY "Service role manages outlook connections"
+  ON public.microsoft_calendar_connections FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ==============================
+-- PART 2: Booking events
+-- ==============================
+
+ALTER TABLE public.appointments
+  ADD COLUMN IF NOT EXISTS outlook_event_id TEXT;
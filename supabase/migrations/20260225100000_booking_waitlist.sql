@@ -0,0 +1,161 @@
+-- ==============================
+-- Migration: Booking waitlist and slot backfill
+--
+-- 1. event_types.waitlist_enabled / waitlist_claim_minutes
+-- 2. booking_waitlist: invitees waiting for a date (preferred_date) or for the
+--    first opening (preferred_date NULL), written by join-waitlist
+-- 3. booking_waitlist_offers: a freed slot offered to one entry with a claim
+--    token. A pending offer holds the slot, so there is at most one per slot
+-- 4. pg_cron job calling process-waitlist-offers every 5 minutes to expire
+--    offers and pass the slot on
+-- ==============================
+
+-- ==============================
+-- PART 1: Waitlist settings on event types
+-- ==============================
+
+ALTER TABLE public.event_types
+  ADD COLUMN IF NOT EXISTS waitlist_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS waitlist_claim_minutes INT NOT NULL DEFAULT 30;
+
+ALTER TABLE public.event_types
+  DROP CONSTRAINT IF EXISTS event_types_waitlist_claim_minutes_check;
+ALTER TABLE public.event_types
+  ADD CONSTRAINT event_types_waitlist_claim_minutes_check
+  CHECK (waitlist_claim_minutes BETWEEN 5 AND 1440);
+
+-- ==============================
+-- PART 2: Waitlist entries
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.booking_waitlist (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  event_type_id UUID REFERENCES public.event_types(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT,
+  timezone TEXT NOT NULL DEFAULT 'America/New_York',
+  -- Local date in the entry's timezone; NULL = the first opening on any date
+  preferred_date DATE,
+  -- waiting, offered (holding an offer), booked, expired, cancelled
+  status TEXT NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_booking_waitlist_updated_at ON public.booking_waitlist;
+CREATE TRIGGER update_booking_waitlist_updated_at
+  BEFORE UPDATE ON public.booking_waitlist
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Offers go out oldest first
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_queue
+  ON public.booking_waitlist(event_type_id, created_at)
+  WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_team
+  ON public.booking_waitlist(team_id, created_at DESC);
+
+-- One open entry per invitee, date and event type
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_waitlist_open_entry
+  ON public.booking_waitlist(event_type_id, lower(email), COALESCE(preferred_date, '1970-01-01'::date))
+  WHERE status IN ('waiting', 'offered');
+
+ALTER TABLE public.booking_waitlist ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages booking waitlist" ON public.booking_waitlist;
+CREATE POLICY "Service role manages booking waitlist"
+  ON public.booking_waitlist
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Team members can view booking waitlist" ON public.booking_waitlist;
+CREATE POLICY "Team members can view booking waitlist"
+  ON public.booking_waitlist
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+-- ==============================
+-- PART 3: Slot offers
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.booking_waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  waitlist_id UUID REFERENCES public.booking_waitlist(id) ON DELETE CASCADE NOT NULL,
+  event_type_id UUID REFERENCES public.event_types(id) ON DELETE CASCADE NOT NULL,
+  slot_start_utc TIMESTAMPTZ NOT NULL,
+  -- Host of the freed booking; the claim books with them
+  host_id UUID,
+  freed_appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  claim_token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  -- pending (holding the slot), claiming (claim link is booking it), claimed,
+  -- expired, superseded (slot gone elsewhere)
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'claiming', 'claimed', 'expired', 'superseded')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+  claimed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_booking_waitlist_offers_updated_at ON public.booking_waitlist_offers;
+CREATE TRIGGER update_booking_waitlist_offers_updated_at
+  BEFORE UPDATE ON public.booking_waitlist_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A slot is held by one offer at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_waitlist_offers_held_slot
+  ON public.booking_waitlist_offers(event_type_id, slot_start_utc)
+  WHERE status IN ('pending', 'claiming');
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_offers_expiry
+  ON public.booking_waitlist_offers(expires_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_offers_entry
+  ON public.booking_waitlist_offers(waitlist_id);
+
+ALTER TABLE public.booking_waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages waitlist offers" ON public.booking_waitlist_offers;
+CREATE POLICY "Service role manages waitlist offers"
+  ON public.booking_waitlist_offers
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Team members can view waitlist offers" ON public.booking_waitlist_offers;
+CREATE POLICY "Team members can view waitlist offers"
+  ON public.booking_waitlist_offers
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+-- ==============================
+-- PART 4: pg_cron job for process-waitlist-offers
+-- ==============================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.unschedule('process-waitlist-offers')
+WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'process-waitlist-offers'
+);
+
+SELECT cron.schedule(
+  'process-waitlist-offers',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := public.edge_function_url('process-waitlist-offers'),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || coalesce(current_setting('supabase.service_role_key', true), '')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
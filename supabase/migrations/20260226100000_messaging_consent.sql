@@ -0,0 +1,120 @@
+-- ==============================
+-- Migration: SMS / WhatsApp opt-out keywords and consent ledger
+--
+-- 1. messaging_consent_ledger: append-only opt-in / opt-out history per address
+--    and channel. The latest row decides whether send-sms / send-whatsapp may send
+-- 2. Guard trigger rejecting UPDATE / DELETE on the ledger (FK cascades excepted)
+-- 3. messaging_keyword_settings: per-team keyword languages, extra keywords and
+--    auto-reply overrides used by inbound-sms
+-- ==============================
+
+-- ==============================
+-- PART 1: Consent ledger
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.messaging_consent_ledger (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  -- NULL when the number isn't a contact yet; consent is keyed on the address
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'whatsapp')),
+  -- Phone number in E.164 (normalizeConsentAddress)
+  address TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('opted_in', 'opted_out')),
+  -- inbound_keyword (STOP / START reply), manual (team member), api
+  source TEXT NOT NULL CHECK (source IN ('inbound_keyword', 'manual', 'api')),
+  keyword TEXT,
+  raw_message TEXT,
+  provider_message_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Latest status lookup on every outbound send
+CREATE INDEX IF NOT EXISTS idx_messaging_consent_ledger_lookup
+  ON public.messaging_consent_ledger(team_id, channel, address, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_messaging_consent_ledger_contact
+  ON public.messaging_consent_ledger(contact_id, created_at DESC)
+  WHERE contact_id IS NOT NULL;
+
+ALTER TABLE public.messaging_consent_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages consent ledger" ON public.messaging_consent_ledger;
+CREATE POLICY "Service role manages consent ledger"
+  ON public.messaging_consent_ledger
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Team members can view consent ledger" ON public.messaging_consent_ledger;
+CREATE POLICY "Team members can view consent ledger"
+  ON public.messaging_consent_ledger
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+-- ==============================
+-- PART 2: Append-only guard
+-- ==============================
+
+-- Rows are never edited or removed, even by the service role. Changes made by
+-- FK actions (team deleted, contact deleted) run at trigger depth > 1 and pass.
+CREATE OR REPLACE FUNCTION public.prevent_consent_ledger_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+  RAISE EXCEPTION 'messaging_consent_ledger is append-only (% rejected)', TG_OP;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS messaging_consent_ledger_append_only ON public.messaging_consent_ledger;
+CREATE TRIGGER messaging_consent_ledger_append_only
+  BEFORE UPDATE OR DELETE ON public.messaging_consent_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_consent_ledger_mutation();
+
+-- ==============================
+-- PART 3: Keyword settings
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.messaging_keyword_settings (
+  team_id UUID PRIMARY KEY REFERENCES public.teams(id) ON DELETE CASCADE,
+  -- Languages whose built-in keywords are recognised (English always is)
+  languages TEXT[] NOT NULL DEFAULT ARRAY['en']::text[],
+  -- { "<lang>": { "stop": [...], "start": [...], "help": [...] } }
+  custom_keywords JSONB NOT NULL DEFAULT '{}'::jsonb,
+  auto_reply_enabled BOOLEAN NOT NULL DEFAULT true,
+  -- { "<lang>": { "stop": "...", "start": "...", "help": "..." } }
+  auto_replies JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS update_messaging_keyword_settings_updated_at ON public.messaging_keyword_settings;
+CREATE TRIGGER update_messaging_keyword_settings_updated_at
+  BEFORE UPDATE ON public.messaging_keyword_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.messaging_keyword_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages keyword settings" ON public.messaging_keyword_settings;
+CREATE POLICY "Service role manages keyword settings"
+  ON public.messaging_keyword_settings
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Team members can view keyword settings" ON public.messaging_keyword_settings;
+CREATE POLICY "Team members can view keyword settings"
+  ON public.messaging_keyword_settings
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+DROP POLICY IF EXISTS "Team admins can manage keyword settings" ON public.messaging_keyword_settings;
+CREATE POLICY "Team admins can manage keyword settings"
+  ON public.messaging_keyword_settings
+  FOR ALL
+  USING (public.is_team_admin(auth.uid(), team_id))
+  WITH CHECK (public.is_team_admin(auth.uid(), team_id));
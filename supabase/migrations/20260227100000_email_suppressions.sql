@@ -0,0 +1,57 @@
+-- ==============================
+-- Migration: Email suppression list
+--
+-- 1. email_suppressions: per-team addresses send-email refuses - hard bounces
+--    and complaints from email-webhook, unsubscribes from the footer link or
+--    List-Unsubscribe one-click, and manual entries from email settings
+-- ==============================
+
+-- ==============================
+-- PART 1: Suppressions
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.email_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  -- Stored lowercased so (team_id, email) is the lookup key
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  reason TEXT NOT NULL CHECK (reason IN ('hard_bounce', 'complaint', 'unsubscribe', 'manual')),
+  source TEXT NOT NULL CHECK (source IN ('email_webhook', 'unsubscribe_link', 'list_unsubscribe', 'manual')),
+  provider TEXT,
+  provider_message_id TEXT,
+  details JSONB,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (team_id, email)
+);
+
+DROP TRIGGER IF EXISTS update_email_suppressions_updated_at ON public.email_suppressions;
+CREATE TRIGGER update_email_suppressions_updated_at
+  BEFORE UPDATE ON public.email_suppressions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_email_suppressions_team
+  ON public.email_suppressions(team_id, created_at DESC);
+
+ALTER TABLE public.email_suppressions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages email suppressions" ON public.email_suppressions;
+CREATE POLICY "Service role manages email suppressions"
+  ON public.email_suppressions
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Team members can view email suppressions" ON public.email_suppressions;
+CREATE POLICY "Team members can view email suppressions"
+  ON public.email_suppressions
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+DROP POLICY IF EXISTS "Team admins can manage email suppressions" ON public.email_suppressions;
+CREATE POLICY "Team admins can manage email suppressions"
+  ON public.email_suppressions
+  FOR ALL
+  USING (public.is_team_admin(auth.uid(), team_id))
+  WITH CHECK (public.is_team_admin(auth.uid(), team_id));
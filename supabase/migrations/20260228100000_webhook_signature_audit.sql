@@ -0,0 +1,25 @@
+-- ==============================
+-- Migration: Webhook signature audit
+--
+-- 1. webhook_audit_logs.team_id becomes nullable: a rejected Twilio or email
+--    provider callback is refused before its team is looked up
+-- 2. webhook_audit_logs.source: the receiving edge function
+-- ==============================
+
+-- ==============================
+-- PART 1: Nullable team
+-- ==============================
+
+ALTER TABLE public.webhook_audit_logs
+  ALTER COLUMN team_id DROP NOT NULL;
+
+-- ==============================
+-- PART 2: Source
+-- ==============================
+
+ALTER TABLE public.webhook_audit_logs
+  ADD COLUMN IF NOT EXISTS source TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_audit_logs_source
+  ON public.webhook_audit_logs(source, received_at DESC)
+  WHERE source IS NOT NULL;
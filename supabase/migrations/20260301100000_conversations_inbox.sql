@@ -0,0 +1,237 @@
+-- ==============================
+-- Migration: Conversations inbox
+--
+-- 1. message_logs.direction and contact_id. inbound-sms already writes direction
+--    and status 'received'; both were rejected until now, so inbound messages
+--    never reached the log
+-- 2. resolve_message_contact(): links a log row to its contact, by the sender's
+--    leadId or else by the contact's phone / email
+-- 3. conversations: one row per contact with the last message, unread count
+--    and assignee, kept current by a trigger on message_logs
+-- 4. Backfill of contact_id and conversations from existing logs
+-- ==============================
+
+-- ==============================
+-- PART 1: message_logs columns
+-- ==============================
+
+ALTER TABLE public.message_logs
+  ADD COLUMN IF NOT EXISTS direction TEXT NOT NULL DEFAULT 'outbound' CHECK (direction IN ('inbound', 'outbound')),
+  ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL;
+
+-- 'partial' is written by the internal notification action
+ALTER TABLE public.message_logs DROP CONSTRAINT IF EXISTS message_logs_status_check;
+ALTER TABLE public.message_logs
+  ADD CONSTRAINT message_logs_status_check CHECK (status IN ('queued', 'sent', 'failed', 'received', 'partial'));
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_contact_thread
+  ON public.message_logs(team_id, contact_id, created_at DESC)
+  WHERE contact_id IS NOT NULL;
+
+-- ==============================
+-- PART 2: Contact resolution
+-- ==============================
+
+CREATE OR REPLACE FUNCTION public.resolve_message_contact(
+  p_team_id UUID,
+  p_channel TEXT,
+  p_direction TEXT,
+  p_to_address TEXT,
+  p_from_address TEXT,
+  p_payload JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_lead_id TEXT := p_payload->>'leadId';
+  v_address TEXT;
+  v_contact_id UUID;
+BEGIN
+  IF v_lead_id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    SELECT id INTO v_contact_id
+    FROM public.contacts
+    WHERE id = v_lead_id::UUID AND team_id = p_team_id;
+
+    IF v_contact_id IS NOT NULL THEN
+      RETURN v_contact_id;
+    END IF;
+  END IF;
+
+  -- The contact is the other party: the sender of inbound, the recipient of outbound
+  v_address := CASE WHEN p_direction = 'inbound' THEN p_from_address ELSE p_to_address END;
+  IF v_address IS NULL OR btrim(v_address) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_channel = 'email' THEN
+    SELECT id INTO v_contact_id
+    FROM public.contacts
+    WHERE team_id = p_team_id AND lower(email) = lower(btrim(v_address))
+    ORDER BY created_at
+    LIMIT 1;
+  ELSE
+    SELECT id INTO v_contact_id
+    FROM public.contacts
+    WHERE team_id = p_team_id AND phone = regexp_replace(btrim(v_address), '^whatsapp:', '')
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+
+  RETURN v_contact_id;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.set_message_log_contact()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Internal notifications go to team members, not contacts
+  IF NEW.contact_id IS NULL
+    AND NEW.channel IN ('sms', 'whatsapp', 'email')
+    AND NEW.provider <> 'internal' THEN
+    NEW.contact_id := public.resolve_message_contact(
+      NEW.team_id, NEW.channel, NEW.direction, NEW.to_address, NEW.from_address, NEW.payload
+    );
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS message_logs_set_contact ON public.message_logs;
+CREATE TRIGGER message_logs_set_contact
+  BEFORE INSERT ON public.message_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_message_log_contact();
+
+-- ==============================
+-- PART 3: Conversations
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE NOT NULL,
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Inbound messages since a team member last opened the thread
+  unread_count INTEGER NOT NULL DEFAULT 0 CHECK (unread_count >= 0),
+  last_message_at TIMESTAMPTZ,
+  last_message_preview TEXT,
+  last_message_channel TEXT,
+  last_message_direction TEXT,
+  last_inbound_at TIMESTAMPTZ,
+  last_read_at TIMESTAMPTZ,
+  last_read_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (team_id, contact_id)
+);
+
+DROP TRIGGER IF EXISTS update_conversations_updated_at ON public.conversations;
+CREATE TRIGGER update_conversations_updated_at
+  BEFORE UPDATE ON public.conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_conversations_team_recent
+  ON public.conversations(team_id, last_message_at DESC NULLS LAST);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_assignee
+  ON public.conversations(team_id, assigned_to)
+  WHERE assigned_to IS NOT NULL;
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages conversations" ON public.conversations;
+CREATE POLICY "Service role manages conversations"
+  ON public.conversations
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Team members can view conversations" ON public.conversations;
+CREATE POLICY "Team members can view conversations"
+  ON public.conversations
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+-- Assigning and marking read happen from the inbox
+DROP POLICY IF EXISTS "Team members can update conversations" ON public.conversations;
+CREATE POLICY "Team members can update conversations"
+  ON public.conversations
+  FOR UPDATE
+  USING (public.can_access_workspace(auth.uid(), team_id))
+  WITH CHECK (public.can_access_workspace(auth.uid(), team_id));
+
+CREATE OR REPLACE FUNCTION public.bump_conversation_from_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_is_inbound BOOLEAN := NEW.direction = 'inbound';
+  v_preview TEXT := left(coalesce(NEW.payload->>'body', NEW.payload->>'subject', ''), 160);
+BEGIN
+  IF NEW.contact_id IS NULL OR NEW.channel NOT IN ('sms', 'whatsapp', 'email') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.conversations AS c (
+    team_id, contact_id, unread_count, last_message_at, last_message_preview,
+    last_message_channel, last_message_direction, last_inbound_at
+  )
+  VALUES (
+    NEW.team_id, NEW.contact_id, CASE WHEN v_is_inbound THEN 1 ELSE 0 END, NEW.created_at, v_preview,
+    NEW.channel, NEW.direction, CASE WHEN v_is_inbound THEN NEW.created_at END
+  )
+  ON CONFLICT (team_id, contact_id) DO UPDATE SET
+    unread_count = c.unread_count + EXCLUDED.unread_count,
+    last_message_at = EXCLUDED.last_message_at,
+    last_message_preview = EXCLUDED.last_message_preview,
+    last_message_channel = EXCLUDED.last_message_channel,
+    last_message_direction = EXCLUDED.last_message_direction,
+    last_inbound_at = coalesce(EXCLUDED.last_inbound_at, c.last_inbound_at);
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS message_logs_bump_conversation ON public.message_logs;
+CREATE TRIGGER message_logs_bump_conversation
+  AFTER INSERT ON public.message_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.bump_conversation_from_message();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversations;
+
+-- ==============================
+-- PART 4: Backfill
+-- ==============================
+
+UPDATE public.message_logs
+SET contact_id = public.resolve_message_contact(team_id, channel, direction, to_address, from_address, payload)
+WHERE contact_id IS NULL
+  AND channel IN ('sms', 'whatsapp', 'email')
+  AND provider <> 'internal';
+
+-- History starts read so the inbox doesn't open with every old thread unread
+INSERT INTO public.conversations (
+  team_id, contact_id, last_message_at, last_message_preview, last_message_channel, last_message_direction
+)
+SELECT DISTINCT ON (team_id, contact_id)
+  team_id,
+  contact_id,
+  created_at,
+  left(coalesce(payload->>'body', payload->>'subject', ''), 160),
+  channel,
+  direction
+FROM public.message_logs
+WHERE contact_id IS NOT NULL
+  AND channel IN ('sms', 'whatsapp', 'email')
+ORDER BY team_id, contact_id, created_at DESC
+ON CONFLICT (team_id, contact_id) DO NOTHING;
@@ -0,0 +1,620 @@
+-- ==============================
+-- Migration: Contact duplicate merge with undo
+--
+-- 1. contact_merges: one row per merge with both contacts as they were and
+--    every row the merge touched, so it can be audited and undone
+-- 2. contact_merge_in_progress(): the contact automation triggers skip while a
+--    merge or undo runs, so neither re-fires lead_created / tag / DND workflows
+-- 3. refresh_contact_conversation(): rebuilds a conversation's last-message
+--    fields after message_logs move between contacts
+-- 4. normalize_contact_email() / normalize_contact_phone(): the matching keys,
+--    kept in step with normalizeContactEmail / normalizeContactPhone in
+--    _shared/contact-dedupe.ts
+-- 5. merge_contacts(): applies the chosen values to the survivor, re-points
+--    message_logs, automation_enrollments, appointments and funnel_leads, notes
+--    the merge on each moved appointment's activity log, deletes the duplicate
+-- 6. undo_contact_merge(): restores the duplicate and everything re-pointed
+-- 7. find_duplicate_contact_candidates(): a team's contacts that share a
+--    matching key with another, so the finder does not page the whole table
+--
+-- Appointments and funnel_leads are linked to contacts by email / phone, so
+-- re-pointing them rewrites those columns to the survivor's; the old values are
+-- kept in the merge record. activity_logs hang off appointments and follow them.
+-- ==============================
+
+-- ==============================
+-- PART 1: Merge records
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.contact_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  -- No FKs: the duplicate is deleted by the merge and the record must outlive both
+  survivor_id UUID NOT NULL,
+  duplicate_id UUID NOT NULL,
+  merged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  match_score INTEGER,
+  match_reasons TEXT[] NOT NULL DEFAULT '{}',
+  survivor_before JSONB NOT NULL,
+  duplicate_snapshot JSONB NOT NULL,
+  applied_values JSONB NOT NULL,
+  -- { message_logs, automation_enrollments, exited_enrollments, appointments,
+  --   funnel_leads, activity_logs, duplicate_conversation }
+  repointed JSONB NOT NULL DEFAULT '{}',
+  undone_at TIMESTAMPTZ,
+  undone_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_merges_team_recent
+  ON public.contact_merges(team_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_contact_merges_survivor
+  ON public.contact_merges(survivor_id)
+  WHERE undone_at IS NULL;
+
+ALTER TABLE public.contact_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages contact merges"
+  ON public.contact_merges
+  FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- Written only by merge_contacts() / undo_contact_merge()
+CREATE POLICY "Team members can view contact merges"
+  ON public.contact_merges
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+-- ==============================
+-- PART 2: Quiet contact triggers during merges
+-- ==============================
+
+CREATE OR REPLACE FUNCTION public.contact_merge_in_progress()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $function$
+  SELECT coalesce(current_setting('app.contact_merge', true), '') = 'on';
+$function$;
+
+DROP TRIGGER IF EXISTS on_contact_insert_automation ON contacts;
+CREATE TRIGGER on_contact_insert_automation
+  AFTER INSERT ON contacts
+  FOR EACH ROW
+  WHEN (NOT public.contact_merge_in_progress())
+  EXECUTE FUNCTION trigger_automation_on_contact_insert();
+
+DROP TRIGGER IF EXISTS on_contact_tag_change_automation ON contacts;
+CREATE TRIGGER on_contact_tag_change_automation
+  AFTER UPDATE OF tags ON contacts
+  FOR EACH ROW
+  WHEN (NOT public.contact_merge_in_progress())
+  EXECUTE FUNCTION trigger_automation_on_contact_tag_change();
+
+DROP TRIGGER IF EXISTS on_contact_dnd_automation ON contacts;
+CREATE TRIGGER on_contact_dnd_automation
+  AFTER UPDATE ON contacts
+  FOR EACH ROW
+  WHEN (
+    (
+      NEW.dnd_sms IS DISTINCT FROM OLD.dnd_sms OR
+      NEW.dnd_email IS DISTINCT FROM OLD.dnd_email OR
+      NEW.dnd_voice IS DISTINCT FROM OLD.dnd_voice
+    )
+    AND NOT public.contact_merge_in_progress()
+  )
+  EXECUTE FUNCTION trigger_automation_on_contact_dnd();
+
+DROP TRIGGER IF EXISTS on_contact_changed_automation ON contacts;
+CREATE TRIGGER on_contact_changed_automation
+  AFTER UPDATE ON contacts
+  FOR EACH ROW
+  WHEN (
+    (
+      NEW.first_name IS DISTINCT FROM OLD.first_name OR
+      NEW.last_name IS DISTINCT FROM OLD.last_name OR
+      NEW.email IS DISTINCT FROM OLD.email OR
+      NEW.phone IS DISTINCT FROM OLD.phone OR
+      NEW.source IS DISTINCT FROM OLD.source OR
+      NEW.custom_fields IS DISTINCT FROM OLD.custom_fields
+    )
+    AND NOT public.contact_merge_in_progress()
+  )
+  EXECUTE FUNCTION trigger_automation_on_contact_changed();
+
+-- ==============================
+-- PART 3: Conversation refresh
+-- ==============================
+
+CREATE OR REPLACE FUNCTION public.refresh_contact_conversation(p_team_id UUID, p_contact_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_last public.message_logs%ROWTYPE;
+  v_last_inbound_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_last
+  FROM public.message_logs
+  WHERE team_id = p_team_id
+    AND contact_id = p_contact_id
+    AND channel IN ('sms', 'whatsapp', 'email')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    DELETE FROM public.conversations WHERE team_id = p_team_id AND contact_id = p_contact_id;
+    RETURN;
+  END IF;
+
+  SELECT max(created_at) INTO v_last_inbound_at
+  FROM public.message_logs
+  WHERE team_id = p_team_id
+    AND contact_id = p_contact_id
+    AND direction = 'inbound'
+    AND channel IN ('sms', 'whatsapp', 'email');
+
+  INSERT INTO public.conversations AS c (
+    team_id, contact_id, last_message_at, last_message_preview,
+    last_message_channel, last_message_direction, last_inbound_at
+  )
+  VALUES (
+    p_team_id, p_contact_id, v_last.created_at,
+    left(coalesce(v_last.payload->>'body', v_last.payload->>'subject', ''), 160),
+    v_last.channel, v_last.direction, v_last_inbound_at
+  )
+  ON CONFLICT (team_id, contact_id) DO UPDATE SET
+    last_message_at = EXCLUDED.last_message_at,
+    last_message_preview = EXCLUDED.last_message_preview,
+    last_message_channel = EXCLUDED.last_message_channel,
+    last_message_direction = EXCLUDED.last_message_direction,
+    last_inbound_at = EXCLUDED.last_inbound_at;
+END;
+$function$;
+
+REVOKE ALL ON FUNCTION public.refresh_contact_conversation(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ==============================
+-- PART 4: Matching keys
+-- ==============================
+
+-- Mirrors normalizeContactEmail(): trimmed and lowercased, NULL without an @
+CREATE OR REPLACE FUNCTION public.normalize_contact_email(p_email TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT CASE WHEN strpos(e, '@') > 0 THEN e END
+  FROM (SELECT lower(btrim(p_email, E' \t\r\n')) AS e) n;
+$function$;
+
+-- Mirrors normalizeContactPhone(): digits only with a leading NANP country
+-- code dropped, NULL under 7 digits
+CREATE OR REPLACE FUNCTION public.normalize_contact_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $function$
+  SELECT CASE
+    WHEN length(d) = 11 AND left(d, 1) = '1' THEN substr(d, 2)
+    WHEN length(d) >= 7 THEN d
+  END
+  FROM (SELECT regexp_replace(coalesce(p_phone, ''), '\D', '', 'g') AS d) n;
+$function$;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_team_normalized_email
+  ON public.contacts(team_id, public.normalize_contact_email(email));
+CREATE INDEX IF NOT EXISTS idx_contacts_team_normalized_phone
+  ON public.contacts(team_id, public.normalize_contact_phone(phone));
+
+-- ==============================
+-- PART 5: Merge
+-- ==============================
+
+-- The contact columns a merge may change (MERGE_COLUMNS in _shared/contact-dedupe.ts)
+CREATE OR REPLACE FUNCTION public.set_contact_merge_fields(p_contact public.contacts)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  UPDATE public.contacts SET
+    name = p_contact.name,
+    first_name = p_contact.first_name,
+    last_name = p_contact.last_name,
+    email = p_contact.email,
+    phone = p_contact.phone,
+    company_name = p_contact.company_name,
+    website = p_contact.website,
+    address_1 = p_contact.address_1,
+    address_2 = p_contact.address_2,
+    city = p_contact.city,
+    state = p_contact.state,
+    postal_code = p_contact.postal_code,
+    country = p_contact.country,
+    timezone = p_contact.timezone,
+    date_of_birth = p_contact.date_of_birth,
+    source = p_contact.source,
+    contact_type = p_contact.contact_type,
+    owner_user_id = p_contact.owner_user_id,
+    funnel_lead_id = p_contact.funnel_lead_id,
+    tags = p_contact.tags,
+    custom_fields = p_contact.custom_fields,
+    dnd_sms = p_contact.dnd_sms,
+    dnd_email = p_contact.dnd_email,
+    dnd_voice = p_contact.dnd_voice,
+    opt_in = p_contact.opt_in,
+    calendly_booked_at = p_contact.calendly_booked_at,
+    last_activity_at = p_contact.last_activity_at,
+    engagement_score = p_contact.engagement_score
+  WHERE id = p_contact.id;
+$function$;
+
+REVOKE ALL ON FUNCTION public.set_contact_merge_fields(public.contacts) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.merge_contacts(
+  p_team_id UUID,
+  p_survivor_id UUID,
+  p_duplicate_id UUID,
+  p_values JSONB,
+  p_match_score INTEGER DEFAULT NULL,
+  p_match_reasons TEXT[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_allowed TEXT[] := ARRAY[
+    'name', 'first_name', 'last_name', 'email', 'phone', 'company_name', 'website',
+    'address_1', 'address_2', 'city', 'state', 'postal_code', 'country', 'timezone',
+    'date_of_birth', 'source', 'contact_type', 'owner_user_id', 'funnel_lead_id',
+    'tags', 'custom_fields', 'dnd_sms', 'dnd_email', 'dnd_voice', 'opt_in',
+    'calendly_booked_at', 'last_activity_at', 'engagement_score'
+  ];
+  v_survivor public.contacts%ROWTYPE;
+  v_duplicate public.contacts%ROWTYPE;
+  v_final public.contacts%ROWTYPE;
+  v_values JSONB;
+  v_emails TEXT[];
+  v_phones TEXT[];
+  v_name TEXT;
+  v_email TEXT;
+  v_phone TEXT;
+  v_actor_name TEXT;
+  v_message_ids UUID[];
+  v_enrollment_ids UUID[];
+  v_exited_enrollments JSONB;
+  v_appointments JSONB;
+  v_funnel_leads JSONB;
+  v_activity_ids UUID[];
+  v_duplicate_conversation JSONB;
+  v_merge_id UUID;
+BEGIN
+  IF NOT public.is_team_admin(auth.uid(), p_team_id) THEN
+    RAISE EXCEPTION 'Only team admins can merge contacts';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A contact cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM public.contacts
+  WHERE id = p_survivor_id AND team_id = p_team_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact not found: %', p_survivor_id;
+  END IF;
+
+  SELECT * INTO v_duplicate FROM public.contacts
+  WHERE id = p_duplicate_id AND team_id = p_team_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact not found: %', p_duplicate_id;
+  END IF;
+
+  PERFORM set_config('app.contact_merge', 'on', true);
+
+  SELECT coalesce(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_values
+  FROM jsonb_each(coalesce(p_values, '{}'::jsonb))
+  WHERE key = ANY(v_allowed);
+  v_final := jsonb_populate_record(v_survivor, v_values);
+
+  v_name := coalesce(nullif(btrim(v_final.name), ''), nullif(btrim(concat_ws(' ', v_final.first_name, v_final.last_name)), ''));
+  v_email := nullif(btrim(v_final.email), '');
+  v_phone := nullif(btrim(v_final.phone), '');
+  v_emails := array_remove(ARRAY[
+    public.normalize_contact_email(v_survivor.email),
+    public.normalize_contact_email(v_duplicate.email)
+  ], NULL);
+  v_phones := array_remove(ARRAY[
+    public.normalize_contact_phone(v_survivor.phone),
+    public.normalize_contact_phone(v_duplicate.phone)
+  ], NULL);
+
+  SELECT to_jsonb(c) INTO v_duplicate_conversation
+  FROM public.conversations c
+  WHERE c.team_id = p_team_id AND c.contact_id = p_duplicate_id;
+
+  -- message_logs
+  SELECT coalesce(array_agg(id), '{}') INTO v_message_ids
+  FROM public.message_logs
+  WHERE contact_id = p_duplicate_id;
+
+  UPDATE public.message_logs SET contact_id = p_survivor_id
+  WHERE id = ANY(v_message_ids);
+
+  -- automation_enrollments: an active run the survivor is already in would
+  -- collide on idx_unique_active_enrollment, so the duplicate's copy exits
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', e.id, 'status', e.status, 'exit_reason', e.exit_reason, 'exited_at', e.exited_at
+  )), '[]'::jsonb) INTO v_exited_enrollments
+  FROM public.automation_enrollments e
+  WHERE e.contact_id = p_duplicate_id
+    AND e.status = 'active'
+    AND EXISTS (
+      SELECT 1 FROM public.automation_enrollments s
+      WHERE s.contact_id = p_survivor_id
+        AND s.automation_id = e.automation_id
+        AND s.status = 'active'
+    );
+
+  UPDATE public.automation_enrollments
+  SET status = 'exited', exit_reason = 'Merged into another contact', exited_at = now()
+  WHERE id IN (SELECT (x->>'id')::UUID FROM jsonb_array_elements(v_exited_enrollments) x);
+
+  SELECT coalesce(array_agg(id), '{}') INTO v_enrollment_ids
+  FROM public.automation_enrollments
+  WHERE contact_id = p_duplicate_id;
+
+  UPDATE public.automation_enrollments SET contact_id = p_survivor_id
+  WHERE id = ANY(v_enrollment_ids);
+
+  -- appointments, matched on either contact's email or phone
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', a.id, 'lead_name', a.lead_name, 'lead_email', a.lead_email, 'lead_phone', a.lead_phone
+  )), '[]'::jsonb) INTO v_appointments
+  FROM public.appointments a
+  WHERE a.team_id = p_team_id
+    AND (
+      public.normalize_contact_email(a.lead_email) = ANY(v_emails)
+      OR public.normalize_contact_phone(a.lead_phone) = ANY(v_phones)
+    )
+    AND (a.lead_name, a.lead_email, a.lead_phone) IS DISTINCT FROM
+        (coalesce(v_name, a.lead_name), coalesce(v_email, a.lead_email), coalesce(v_phone, a.lead_phone));
+
+  UPDATE public.appointments a SET
+    lead_name = coalesce(v_name, a.lead_name),
+    lead_email = coalesce(v_email, a.lead_email),
+    lead_phone = coalesce(v_phone, a.lead_phone)
+  WHERE a.id IN (SELECT (x->>'id')::UUID FROM jsonb_array_elements(v_appointments) x);
+
+  -- funnel_leads, matched the same way
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'id', l.id, 'name', l.name, 'email', l.email, 'phone', l.phone
+  )), '[]'::jsonb) INTO v_funnel_leads
+  FROM public.funnel_leads l
+  WHERE l.team_id = p_team_id
+    AND (
+      public.normalize_contact_email(l.email) = ANY(v_emails)
+      OR public.normalize_contact_phone(l.phone) = ANY(v_phones)
+    )
+    AND (l.name, l.email, l.phone) IS DISTINCT FROM
+        (coalesce(v_name, l.name), coalesce(v_email, l.email), coalesce(v_phone, l.phone));
+
+  UPDATE public.funnel_leads l SET
+    name = coalesce(v_name, l.name),
+    email = coalesce(v_email, l.email),
+    phone = coalesce(v_phone, l.phone)
+  WHERE l.id IN (SELECT (x->>'id')::UUID FROM jsonb_array_elements(v_funnel_leads) x);
+
+  -- activity_logs: a note on every appointment that moved
+  SELECT coalesce(full_name, email, 'Team member') INTO v_actor_name
+  FROM public.profiles WHERE id = auth.uid();
+
+  WITH inserted AS (
+    INSERT INTO public.activity_logs (team_id, appointment_id, action_type, actor_id, actor_name, note)
+    SELECT
+      p_team_id,
+      (x->>'id')::UUID,
+      'contacts_merged',
+      auth.uid(),
+      coalesce(v_actor_name, 'Team member'),
+      format('Merged duplicate contact %s into %s',
+        coalesce(nullif(btrim(v_duplicate.name), ''), v_duplicate.email, v_duplicate.phone, p_duplicate_id::TEXT),
+        coalesce(v_name, v_email, v_phone, p_survivor_id::TEXT))
+    FROM jsonb_array_elements(v_appointments) x
+    RETURNING id
+  )
+  SELECT coalesce(array_agg(id), '{}') INTO v_activity_ids FROM inserted;
+
+  PERFORM public.set_contact_merge_fields(v_final);
+
+  -- Removes the duplicate's conversation row with it
+  DELETE FROM public.contacts WHERE id = p_duplicate_id;
+
+  PERFORM public.refresh_contact_conversation(p_team_id, p_survivor_id);
+  IF v_duplicate_conversation IS NOT NULL THEN
+    UPDATE public.conversations SET
+      unread_count = unread_count + coalesce((v_duplicate_conversation->>'unread_count')::INTEGER, 0),
+      assigned_to = coalesce(assigned_to, (v_duplicate_conversation->>'assigned_to')::UUID)
+    WHERE team_id = p_team_id AND contact_id = p_survivor_id;
+  END IF;
+
+  INSERT INTO public.contact_merges (
+    team_id, survivor_id, duplicate_id, merged_by, match_score, match_reasons,
+    survivor_before, duplicate_snapshot, applied_values, repointed
+  )
+  VALUES (
+    p_team_id, p_survivor_id, p_duplicate_id, auth.uid(), p_match_score, coalesce(p_match_reasons, '{}'),
+    to_jsonb(v_survivor), to_jsonb(v_duplicate), v_values,
+    jsonb_build_object(
+      'message_logs', to_jsonb(v_message_ids),
+      'automation_enrollments', to_jsonb(v_enrollment_ids),
+      'exited_enrollments', v_exited_enrollments,
+      'appointments', v_appointments,
+      'funnel_leads', v_funnel_leads,
+      'activity_logs', to_jsonb(v_activity_ids),
+      'duplicate_conversation', v_duplicate_conversation
+    )
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$function$;
+
+-- ==============================
+-- PART 6: Undo
+-- ==============================
+
+-- Restores the survivor's fields as they were before the merge; edits made to
+-- the survivor since are overwritten.
+CREATE OR REPLACE FUNCTION public.undo_contact_merge(p_merge_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_merge public.contact_merges%ROWTYPE;
+  v_duplicate public.contacts%ROWTYPE;
+  v_message_ids UUID[];
+  v_enrollment_ids UUID[];
+  v_activity_ids UUID[];
+  v_conversation JSONB;
+BEGIN
+  SELECT * INTO v_merge FROM public.contact_merges WHERE id = p_merge_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge not found: %', p_merge_id;
+  END IF;
+
+  IF NOT public.is_team_admin(auth.uid(), v_merge.team_id) THEN
+    RAISE EXCEPTION 'Only team admins can undo contact merges';
+  END IF;
+
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge was already undone';
+  END IF;
+
+  PERFORM 1 FROM public.contacts WHERE id = v_merge.survivor_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The surviving contact no longer exists; undo the later merge or restore it first';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.contacts WHERE id = v_merge.duplicate_id) THEN
+    RAISE EXCEPTION 'The merged contact already exists again';
+  END IF;
+
+  PERFORM set_config('app.contact_merge', 'on', true);
+
+  v_duplicate := jsonb_populate_record(NULL::public.contacts, v_merge.duplicate_snapshot);
+  IF NOT EXISTS (SELECT 1 FROM public.funnel_leads WHERE id = v_duplicate.funnel_lead_id) THEN
+    v_duplicate.funnel_lead_id := NULL;
+  END IF;
+  INSERT INTO public.contacts SELECT v_duplicate.*;
+
+  PERFORM public.set_contact_merge_fields(
+    jsonb_populate_record(NULL::public.contacts, v_merge.survivor_before)
+  );
+
+  v_message_ids := ARRAY(SELECT jsonb_array_elements_text(v_merge.repointed->'message_logs')::UUID);
+  UPDATE public.message_logs SET contact_id = v_merge.duplicate_id
+  WHERE id = ANY(v_message_ids) AND contact_id = v_merge.survivor_id;
+
+  v_enrollment_ids := ARRAY(SELECT jsonb_array_elements_text(v_merge.repointed->'automation_enrollments')::UUID);
+  UPDATE public.automation_enrollments SET contact_id = v_merge.duplicate_id
+  WHERE id = ANY(v_enrollment_ids) AND contact_id = v_merge.survivor_id;
+
+  UPDATE public.automation_enrollments e SET
+    status = r.status,
+    exit_reason = r.exit_reason,
+    exited_at = r.exited_at
+  FROM jsonb_to_recordset(coalesce(v_merge.repointed->'exited_enrollments', '[]'::jsonb))
+    AS r(id UUID, status TEXT, exit_reason TEXT, exited_at TIMESTAMPTZ)
+  WHERE e.id = r.id
+    AND e.status = 'exited'
+    AND e.exit_reason = 'Merged into another contact';
+
+  UPDATE public.appointments a SET
+    lead_name = r.lead_name,
+    lead_email = r.lead_email,
+    lead_phone = r.lead_phone
+  FROM jsonb_to_recordset(coalesce(v_merge.repointed->'appointments', '[]'::jsonb))
+    AS r(id UUID, lead_name TEXT, lead_email TEXT, lead_phone TEXT)
+  WHERE a.id = r.id;
+
+  UPDATE public.funnel_leads l SET
+    name = r.name,
+    email = r.email,
+    phone = r.phone
+  FROM jsonb_to_recordset(coalesce(v_merge.repointed->'funnel_leads', '[]'::jsonb))
+    AS r(id UUID, name TEXT, email TEXT, phone TEXT)
+  WHERE l.id = r.id;
+
+  v_activity_ids := ARRAY(SELECT jsonb_array_elements_text(v_merge.repointed->'activity_logs')::UUID);
+  DELETE FROM public.activity_logs WHERE id = ANY(v_activity_ids);
+
+  PERFORM public.refresh_contact_conversation(v_merge.team_id, v_merge.survivor_id);
+  PERFORM public.refresh_contact_conversation(v_merge.team_id, v_merge.duplicate_id);
+
+  v_conversation := v_merge.repointed->'duplicate_conversation';
+  IF v_conversation IS NOT NULL AND v_conversation <> 'null'::jsonb THEN
+    UPDATE public.conversations SET
+      unread_count = coalesce((v_conversation->>'unread_count')::INTEGER, 0),
+      assigned_to = (v_conversation->>'assigned_to')::UUID,
+      last_read_at = (v_conversation->>'last_read_at')::TIMESTAMPTZ,
+      last_read_by = (v_conversation->>'last_read_by')::UUID
+    WHERE team_id = v_merge.team_id AND contact_id = v_merge.duplicate_id;
+
+    UPDATE public.conversations SET
+      unread_count = greatest(unread_count - coalesce((v_conversation->>'unread_count')::INTEGER, 0), 0)
+    WHERE team_id = v_merge.team_id AND contact_id = v_merge.survivor_id;
+  END IF;
+
+  UPDATE public.contact_merges
+  SET undone_at = now(), undone_by = auth.uid()
+  WHERE id = p_merge_id;
+END;
+$function$;
+
+-- ==============================
+-- PART 7: Duplicate candidates
+-- ==============================
+
+-- Contacts sharing a normalized email or phone with another contact on the
+-- team; findDuplicatePairs() scores them. Runs as the caller, so contacts RLS
+-- still applies.
+CREATE OR REPLACE FUNCTION public.find_duplicate_contact_candidates(p_team_id UUID)
+RETURNS SETOF public.contacts
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path TO 'public'
+AS $function$
+  WITH keyed AS (
+    SELECT c.id, 'email:' || public.normalize_contact_email(c.email) AS match_key
+    FROM public.contacts c
+    WHERE c.team_id = p_team_id AND public.normalize_contact_email(c.email) IS NOT NULL
+    UNION ALL
+    SELECT c.id, 'phone:' || public.normalize_contact_phone(c.phone)
+    FROM public.contacts c
+    WHERE c.team_id = p_team_id AND public.normalize_contact_phone(c.phone) IS NOT NULL
+  ),
+  shared AS (
+    SELECT match_key FROM keyed GROUP BY match_key HAVING count(*) > 1
+  )
+  SELECT c.*
+  FROM public.contacts c
+  WHERE c.team_id = p_team_id
+    AND c.id IN (SELECT k.id FROM keyed k JOIN shared s USING (match_key))
+  ORDER BY c.created_at, c.id;
+$function$;
+
+REVOKE ALL ON FUNCTION public.find_duplicate_contact_candidates(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_duplicate_contact_candidates(UUID) TO authenticated;
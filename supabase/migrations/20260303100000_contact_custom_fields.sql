@@ -0,0 +1,61 @@
+-- ==============================
+-- Migration: Typed contact custom fields
+--
+-- 1. contact_custom_fields: per-team definitions for keys in
+--    contacts.custom_fields - a label, a type (text, number, date, dropdown,
+--    multi-select, checkbox, currency) and the allowed options. Values are
+--    coerced to the type by update_contact, funnel submissions and the
+--    condition engine, so "budget > 5000" compares numbers
+-- ==============================
+
+-- ==============================
+-- PART 1: Definitions
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.contact_custom_fields (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  -- Key inside contacts.custom_fields; fixed once created so stored values stay attached
+  key TEXT NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]{0,39}$'),
+  label TEXT NOT NULL CHECK (length(btrim(label)) > 0),
+  field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'dropdown', 'multi_select', 'checkbox', 'currency')),
+  options TEXT[] NOT NULL DEFAULT '{}',
+  -- ISO 4217 code for currency fields
+  currency TEXT CHECK (currency IS NULL OR currency ~ '^[A-Z]{3}$'),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (team_id, key),
+  CHECK (field_type NOT IN ('dropdown', 'multi_select') OR cardinality(options) > 0)
+);
+
+DROP TRIGGER IF EXISTS update_contact_custom_fields_updated_at ON public.contact_custom_fields;
+CREATE TRIGGER update_contact_custom_fields_updated_at
+  BEFORE UPDATE ON public.contact_custom_fields
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_contact_custom_fields_team
+  ON public.contact_custom_fields(team_id, position);
+
+ALTER TABLE public.contact_custom_fields ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages contact custom fields" ON public.contact_custom_fields;
+CREATE POLICY "Service role manages contact custom fields"
+  ON public.contact_custom_fields
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Team members can view contact custom fields" ON public.contact_custom_fields;
+CREATE POLICY "Team members can view contact custom fields"
+  ON public.contact_custom_fields
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+DROP POLICY IF EXISTS "Team admins can manage contact custom fields" ON public.contact_custom_fields;
+CREATE POLICY "Team admins can manage contact custom fields"
+  ON public.contact_custom_fields
+  FOR ALL
+  USING (public.is_team_admin(auth.uid(), team_id))
+  WITH CHECK (public.is_team_admin(auth.uid(), team_id));
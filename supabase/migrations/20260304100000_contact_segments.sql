@@ -0,0 +1,135 @@
+-- ==============================
+-- Migration: Saved contact segments and segment bulk actions
+--
+-- 1. contact_segments: named filters over a team's contacts, stored as the
+--    same AutomationCondition list (field / operator / value) and AND/OR logic
+--    automation steps use. Evaluated live by the evaluate-segment function with
+--    the shared condition engine, so nothing here is materialized
+-- 2. contact_segment_jobs: a bulk action (add tag, remove tag, enroll in a
+--    workflow) over everyone in a segment. The conditions are snapshotted when
+--    the job is queued; process-scheduled-jobs walks the contacts in id order,
+--    a page per tick, under a lease, and keeps its place in `cursor`
+-- ==============================
+
+-- ==============================
+-- PART 1: Segments
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.contact_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(btrim(name)) > 0),
+  description TEXT,
+  -- [{ field, operator, value }] as in automation step conditions
+  conditions JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(conditions) = 'array'),
+  condition_logic TEXT NOT NULL DEFAULT 'AND' CHECK (condition_logic IN ('AND', 'OR')),
+  -- Last full count from evaluate-segment; display only, never used for targeting
+  last_count INTEGER,
+  last_counted_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (team_id, name)
+);
+
+DROP TRIGGER IF EXISTS update_contact_segments_updated_at ON public.contact_segments;
+CREATE TRIGGER update_contact_segments_updated_at
+  BEFORE UPDATE ON public.contact_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_contact_segments_team
+  ON public.contact_segments(team_id, name);
+
+ALTER TABLE public.contact_segments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages contact segments" ON public.contact_segments;
+CREATE POLICY "Service role manages contact segments"
+  ON public.contact_segments
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Team members can view contact segments" ON public.contact_segments;
+CREATE POLICY "Team members can view contact segments"
+  ON public.contact_segments
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+DROP POLICY IF EXISTS "Team admins can manage contact segments" ON public.contact_segments;
+CREATE POLICY "Team admins can manage contact segments"
+  ON public.contact_segments
+  FOR ALL
+  USING (public.is_team_admin(auth.uid(), team_id))
+  WITH CHECK (public.is_team_admin(auth.uid(), team_id));
+
+-- ==============================
+-- PART 2: Segment bulk action jobs
+-- ==============================
+
+CREATE TABLE IF NOT EXISTS public.contact_segment_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID REFERENCES public.teams(id) ON DELETE CASCADE NOT NULL,
+  -- Kept after the segment is deleted; the job runs on segment_snapshot
+  segment_id UUID REFERENCES public.contact_segments(id) ON DELETE SET NULL,
+  -- { name, conditions, condition_logic } when queued
+  segment_snapshot JSONB NOT NULL,
+  action_type TEXT NOT NULL CHECK (action_type IN ('add_tag', 'remove_tag', 'enroll')),
+  -- add_tag / remove_tag: { tag }; enroll: { automationId, automationName }
+  action_config JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  -- Last contact id evaluated; the next page starts after it
+  cursor UUID,
+  scanned_count INTEGER NOT NULL DEFAULT 0,
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  applied_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  error_message TEXT,
+  locked_by TEXT,
+  locked_until TIMESTAMPTZ,
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+DROP TRIGGER IF EXISTS update_contact_segment_jobs_updated_at ON public.contact_segment_jobs;
+CREATE TRIGGER update_contact_segment_jobs_updated_at
+  BEFORE UPDATE ON public.contact_segment_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_contact_segment_jobs_open
+  ON public.contact_segment_jobs(created_at)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_contact_segment_jobs_team_recent
+  ON public.contact_segment_jobs(team_id, created_at DESC);
+
+-- Segment pages are read in id order per team
+CREATE INDEX IF NOT EXISTS idx_contacts_team_id_id
+  ON public.contacts(team_id, id);
+
+ALTER TABLE public.contact_segment_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role manages contact segment jobs" ON public.contact_segment_jobs;
+CREATE POLICY "Service role manages contact segment jobs"
+  ON public.contact_segment_jobs
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Queued by evaluate-segment, advanced by process-scheduled-jobs
+DROP POLICY IF EXISTS "Team members can view contact segment jobs" ON public.contact_segment_jobs;
+CREATE POLICY "Team members can view contact segment jobs"
+  ON public.contact_segment_jobs
+  FOR SELECT
+  USING (public.can_access_workspace(auth.uid(), team_id));
+
+-- Admins may cancel a queued or running job
+DROP POLICY IF EXISTS "Team admins can cancel contact segment jobs" ON public.contact_segment_jobs;
+CREATE POLICY "Team admins can cancel contact segment jobs"
+  ON public.contact_segment_jobs
+  FOR UPDATE
+  USING (public.is_team_admin(auth.uid(), team_id))
+  WITH CHECK (public.is_team_admin(auth.uid(), team_id) AND status = 'cancelled');